@@ -0,0 +1,28 @@
+-- Full-text search indexes used by GET /api/search (src/lib/search.ts).
+-- Prisma cannot model expression indexes, so these live outside schema.prisma.
+-- Apply with `npm run db:search-indexes` after `prisma db push` (safe to re-run).
+-- The indexed expressions must match the queries in src/lib/search.ts exactly.
+
+CREATE INDEX IF NOT EXISTS cards_search_idx
+  ON cards USING GIN (to_tsvector('simple', coalesce(title, '') || ' ' || coalesce(description, '')));
+
+CREATE INDEX IF NOT EXISTS comments_search_idx
+  ON comments USING GIN (to_tsvector('simple', content));
+
+CREATE INDEX IF NOT EXISTS attachments_search_idx
+  ON attachments USING GIN (to_tsvector('simple', name));
+
+CREATE INDEX IF NOT EXISTS boards_search_idx
+  ON boards USING GIN (to_tsvector('simple', name));
+
+CREATE INDEX IF NOT EXISTS users_search_idx
+  ON users USING GIN (to_tsvector('simple', coalesce(name, '') || ' ' || email));
+
+CREATE INDEX IF NOT EXISTS academy_tutorials_search_idx
+  ON academy_tutorials USING GIN (to_tsvector('simple', title || ' ' || coalesce(description, '')));
+
+CREATE INDEX IF NOT EXISTS academy_courses_search_idx
+  ON academy_courses USING GIN (to_tsvector('simple', title || ' ' || coalesce(description, '')));
+
+CREATE INDEX IF NOT EXISTS academy_lessons_search_idx
+  ON academy_lessons USING GIN (to_tsvector('simple', title || ' ' || coalesce(description, '')));
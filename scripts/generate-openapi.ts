@@ -0,0 +1,12 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { buildOpenApiSpec } from '../src/lib/openapi';
+
+// Writes the OpenAPI spec served at /api/openapi to a file, for client generators
+// and for pipeline repos that vendor it. Usage: npm run openapi:generate [-- <output> [serverUrl]]
+const output = path.resolve(process.argv[2] ?? 'DOCUMENTS/openapi.json');
+const serverUrl = process.argv[3] ?? process.env.APP_URL ?? '/';
+
+mkdirSync(path.dirname(output), { recursive: true });
+writeFileSync(output, `${JSON.stringify(buildOpenApiSpec(serverUrl), null, 2)}\n`);
+console.log(`Wrote ${output}`);
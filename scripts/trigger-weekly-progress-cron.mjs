@@ -0,0 +1,56 @@
+#!/usr/bin/env node
+
+const baseUrl = process.env.CRON_BASE_URL || process.argv[2];
+const secret = process.env.CRON_SECRET || process.argv[3];
+const mode = process.env.WEEKLY_PROGRESS_MODE || process.argv[4] || 'snapshot';
+const startWeekDate = process.env.WEEKLY_PROGRESS_START_WEEK || process.argv[5];
+const endWeekDate = process.env.WEEKLY_PROGRESS_END_WEEK || process.argv[6];
+const boardIdsArg = process.env.WEEKLY_PROGRESS_BOARD_IDS || process.argv[7];
+
+if (!baseUrl || !secret) {
+  console.error('Usage: CRON_BASE_URL=<url> CRON_SECRET=<secret> npm run cron:progress:trigger');
+  console.error('Backfill: WEEKLY_PROGRESS_MODE=backfill [WEEKLY_PROGRESS_START_WEEK=<YYYY-MM-DD>] [WEEKLY_PROGRESS_END_WEEK=<YYYY-MM-DD>] [WEEKLY_PROGRESS_BOARD_IDS=<id1,id2>]');
+  console.error('Or: npm run cron:progress:trigger -- <url> <secret> [snapshot|backfill] [startWeekDate] [endWeekDate] [boardIdsCsv]');
+  process.exit(1);
+}
+
+const endpoint = `${baseUrl.replace(/\/+$/, '')}/api/cron/weekly-progress`;
+const payload = { mode };
+
+if (startWeekDate) {
+  payload.startWeekDate = startWeekDate;
+}
+
+if (endWeekDate) {
+  payload.endWeekDate = endWeekDate;
+}
+
+if (boardIdsArg) {
+  payload.boardIds = boardIdsArg
+    .split(',')
+    .map((value) => value.trim())
+    .filter(Boolean);
+}
+
+try {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${secret}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const responsePayload = await response.json().catch(() => ({}));
+
+  console.log(`Status: ${response.status}`);
+  console.log(JSON.stringify(responsePayload, null, 2));
+
+  if (!response.ok || responsePayload?.success === false) {
+    process.exit(1);
+  }
+} catch (error) {
+  console.error('Failed to call weekly progress cron endpoint:', error);
+  process.exit(1);
+}
@@ -8,6 +8,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { WebhooksSettings } from '@/components/settings/WebhooksSettings';
 
 interface SlackChannelOption {
   id: string;
@@ -181,7 +182,7 @@ export default function IntegrationsSettingsPage() {
         <div>
           <h2 className="text-title font-semibold">Integrations</h2>
           <p className="text-body text-text-secondary mt-1">
-            Validate workspace-level Slack connectivity and send a test message.
+            Validate workspace-level Slack connectivity and manage outgoing webhooks.
           </p>
         </div>
         <Button variant="outline" onClick={() => void refresh()} disabled={isRefreshing}>
@@ -315,6 +316,8 @@ export default function IntegrationsSettingsPage() {
           )}
         </Button>
       </section>
+
+      <WebhooksSettings />
     </div>
   );
 }
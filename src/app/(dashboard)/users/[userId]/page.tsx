@@ -26,6 +26,7 @@ export default async function UserPage({ params }: UserPageProps) {
       isSuperAdmin={isSuperAdmin}
       canManageSlackLink={canManageSlackLink}
       canViewQualitySummaries={canViewQualitySummaries}
+      isCurrentUser={userId === session.user.id}
     />
   );
 }
@@ -0,0 +1,79 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const VALID_ENTITIES = new Set(['card', 'list', 'timeline_block']);
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+// GET /api/boards/[boardId]/activity - Board activity feed
+// Supports: ?cardId= (single card history), ?entity=card|list|timeline_block, ?limit=N, ?cursor=<activityId>
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const { searchParams } = new URL(request.url);
+    const cardId = searchParams.get('cardId')?.trim() || '';
+    const entity = searchParams.get('entity')?.trim() || '';
+    const cursor = searchParams.get('cursor')?.trim() || '';
+    const limit = Math.min(parsePositiveInt(searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT);
+
+    if (entity && !VALID_ENTITIES.has(entity)) {
+      return ApiErrors.validation('Invalid entity filter');
+    }
+
+    const where: Prisma.ActivityWhereInput = {
+      boardId,
+      ...(cardId ? { entity: 'card', entityId: cardId } : {}),
+      ...(entity && !cardId ? { entity } : {}),
+    };
+
+    const rows = await prisma.activity.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: {
+        user: {
+          select: {
+            id: true,
+            name: true,
+            image: true,
+          },
+        },
+      },
+    });
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+
+    return apiSuccess({
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Failed to fetch activity:', error);
+    return ApiErrors.internal('Failed to fetch activity');
+  }
+}
@@ -1,6 +1,7 @@
 import { prisma } from '@/lib/prisma';
 import { BOARD_TEMPLATES, calculateListDates } from '@/lib/list-templates';
-import { addBusinessDays, snapToMonday } from '@/lib/date-utils';
+import { addBusinessDays, snapToWorkingWeek } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
 import {
   requireAuth,
   requireBoardAdmin,
@@ -131,14 +132,16 @@ export async function POST(
       return ApiErrors.validation('Configured core project template was not found');
     }
 
+    const calendar = await loadBoardBusinessCalendar(prisma, boardId);
+
     let listDates: { listName: string; startDate: Date; endDate: Date; durationDays?: number }[] = [];
     if (coreTemplate) {
-      let cursor = snapToMonday(new Date(projectStartDate));
+      let cursor = new Date(projectStartDate);
       const counters = new Map<string, number>();
       listDates = coreTemplate.blocks.map((blockRow) => {
         const next = (counters.get(blockRow.blockTypeId) ?? 0) + 1;
         counters.set(blockRow.blockTypeId, next);
-        const start = new Date(cursor);
+        const start = snapToWorkingWeek(cursor, calendar);
         const end = addBusinessDays(start, 4);
         cursor = addBusinessDays(end, 1);
         return {
@@ -153,7 +156,7 @@ export async function POST(
       if (!template) {
         return ApiErrors.validation('Invalid list template');
       }
-      listDates = calculateListDates(template, new Date(projectStartDate));
+      listDates = calculateListDates(template, new Date(projectStartDate), calendar);
     }
 
     // Update each planning list with calculated dates
@@ -271,7 +274,7 @@ export async function POST(
     await renumberTimelineBlockPositions(boardId);
 
     if (coreTemplate) {
-      const firstDate = snapToMonday(new Date(projectStartDate));
+      const firstDate = snapToWorkingWeek(new Date(projectStartDate), calendar);
       const useLegacyIndexOffset = coreTemplate.events.every((event) => (event as { unitOffset?: number }).unitOffset === 0);
 
       const existingEvents = board.timelineEvents;
@@ -284,7 +287,7 @@ export async function POST(
           Math.floor((templateEvent as { unitOffset?: number }).unitOffset ?? 0)
         );
         const unitOffset = useLegacyIndexOffset ? i * 5 : explicitUnitOffset;
-        const eventDate = addBusinessDays(firstDate, unitOffset);
+        const eventDate = addBusinessDays(firstDate, unitOffset, calendar);
         const title = templateEvent.title?.trim() || templateEvent.eventType.name;
 
         if (existingEvents[i]) {
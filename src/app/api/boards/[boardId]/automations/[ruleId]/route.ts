@@ -0,0 +1,113 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import {
+  parseAutomationActions,
+  parseAutomationConditions,
+  parseAutomationTrigger,
+  parseRuleName,
+} from '@/lib/automation-rules';
+import { toAutomationRule, validateRuleReferences } from '@/lib/automation';
+
+// PATCH /api/boards/[boardId]/automations/[ruleId] - Update or enable/disable a rule (board admins)
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string; ruleId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId, ruleId } = await params;
+
+    const { response: adminResponse } = await requireBoardAdmin(boardId, session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const existing = await prisma.automationRule.findFirst({
+      where: { id: ruleId, boardId },
+    });
+    if (!existing) {
+      return ApiErrors.notFound('Automation rule');
+    }
+
+    const body = await request.json();
+    const data: Prisma.AutomationRuleUpdateInput = {};
+
+    if (body?.name !== undefined) {
+      const name = parseRuleName(body.name);
+      if (name.error !== undefined) return ApiErrors.validation(name.error);
+      data.name = name.value;
+    }
+    if (body?.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') return ApiErrors.validation('enabled must be a boolean');
+      data.enabled = body.enabled;
+    }
+
+    // Validate the rule as it will be saved, combining new and stored parts.
+    const trigger = parseAutomationTrigger(body?.trigger ?? existing.trigger);
+    if (trigger.error !== undefined) return ApiErrors.validation(trigger.error);
+    const conditions = parseAutomationConditions(body?.conditions ?? existing.conditions);
+    if (conditions.error !== undefined) return ApiErrors.validation(conditions.error);
+    const actions = parseAutomationActions(body?.actions ?? existing.actions);
+    if (actions.error !== undefined) return ApiErrors.validation(actions.error);
+
+    if (body?.trigger !== undefined || body?.conditions !== undefined || body?.actions !== undefined) {
+      const referenceError = await validateRuleReferences(boardId, {
+        trigger: trigger.value,
+        conditions: conditions.value,
+        actions: actions.value,
+      });
+      if (referenceError) return ApiErrors.validation(referenceError);
+
+      data.trigger = trigger.value as unknown as Prisma.InputJsonValue;
+      data.conditions = conditions.value as unknown as Prisma.InputJsonValue;
+      data.actions = actions.value as unknown as Prisma.InputJsonValue;
+    }
+
+    const rule = await prisma.automationRule.update({
+      where: { id: ruleId },
+      data,
+      include: {
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    return apiSuccess(toAutomationRule(rule));
+  } catch (error) {
+    console.error('Failed to update automation rule:', error);
+    return ApiErrors.internal('Failed to update automation rule');
+  }
+}
+
+// DELETE /api/boards/[boardId]/automations/[ruleId] - Delete a rule and its run log (board admins)
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ boardId: string; ruleId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId, ruleId } = await params;
+
+    const { response: adminResponse } = await requireBoardAdmin(boardId, session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { count } = await prisma.automationRule.deleteMany({
+      where: { id: ruleId, boardId },
+    });
+    if (count === 0) {
+      return ApiErrors.notFound('Automation rule');
+    }
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to delete automation rule:', error);
+    return ApiErrors.internal('Failed to delete automation rule');
+  }
+}
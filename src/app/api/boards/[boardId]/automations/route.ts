@@ -0,0 +1,106 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardAdmin,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import {
+  parseAutomationActions,
+  parseAutomationConditions,
+  parseAutomationTrigger,
+  parseRuleName,
+} from '@/lib/automation-rules';
+import { toAutomationRule, validateRuleReferences } from '@/lib/automation';
+
+const RULE_INCLUDE = {
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+// GET /api/boards/[boardId]/automations - List the board's automation rules
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const rules = await prisma.automationRule.findMany({
+      where: { boardId },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      include: RULE_INCLUDE,
+    });
+
+    return apiSuccess(rules.map(toAutomationRule));
+  } catch (error) {
+    console.error('Failed to fetch automation rules:', error);
+    return ApiErrors.internal('Failed to fetch automation rules');
+  }
+}
+
+// POST /api/boards/[boardId]/automations - Create an automation rule (board admins)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: adminResponse } = await requireBoardAdmin(boardId, session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const body = await request.json();
+
+    const name = parseRuleName(body?.name);
+    if (name.error !== undefined) return ApiErrors.validation(name.error);
+    const trigger = parseAutomationTrigger(body?.trigger);
+    if (trigger.error !== undefined) return ApiErrors.validation(trigger.error);
+    const conditions = parseAutomationConditions(body?.conditions);
+    if (conditions.error !== undefined) return ApiErrors.validation(conditions.error);
+    const actions = parseAutomationActions(body?.actions);
+    if (actions.error !== undefined) return ApiErrors.validation(actions.error);
+
+    const referenceError = await validateRuleReferences(boardId, {
+      trigger: trigger.value,
+      conditions: conditions.value,
+      actions: actions.value,
+    });
+    if (referenceError) return ApiErrors.validation(referenceError);
+
+    const last = await prisma.automationRule.findFirst({
+      where: { boardId },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+
+    const rule = await prisma.automationRule.create({
+      data: {
+        boardId,
+        name: name.value,
+        enabled: body?.enabled !== false,
+        trigger: trigger.value as unknown as Prisma.InputJsonValue,
+        conditions: conditions.value as unknown as Prisma.InputJsonValue,
+        actions: actions.value as unknown as Prisma.InputJsonValue,
+        position: (last?.position ?? -1) + 1,
+        createdById: session.user.id,
+      },
+      include: RULE_INCLUDE,
+    });
+
+    return apiSuccess(toAutomationRule(rule), 201);
+  } catch (error) {
+    console.error('Failed to create automation rule:', error);
+    return ApiErrors.internal('Failed to create automation rule');
+  }
+}
@@ -0,0 +1,66 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { toAutomationRun } from '@/lib/automation';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+// GET /api/boards/[boardId]/automations/runs - Automation run log, newest first
+// Supports: ?ruleId=, ?cardId=, ?limit=N, ?cursor=<runId>
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const { searchParams } = new URL(request.url);
+    const ruleId = searchParams.get('ruleId')?.trim() || '';
+    const cardId = searchParams.get('cardId')?.trim() || '';
+    const cursor = searchParams.get('cursor')?.trim() || '';
+    const limit = Math.min(parsePositiveInt(searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT);
+
+    const rows = await prisma.automationRun.findMany({
+      where: {
+        boardId,
+        ...(ruleId ? { ruleId } : {}),
+        ...(cardId ? { cardId } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: {
+        rule: { select: { name: true } },
+      },
+    });
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+
+    return apiSuccess({
+      items: items.map(toAutomationRun),
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Failed to fetch automation runs:', error);
+    return ApiErrors.internal('Failed to fetch automation runs');
+  }
+}
@@ -7,6 +7,7 @@ import {
   ApiErrors,
 } from '@/lib/api-utils';
 import { getMonday } from '@/lib/date-utils';
+import { AVAILABILITY_DEDICATIONS } from '@/lib/holiday-calendar';
 
 // GET /api/boards/[boardId]/availability - Get weekly availability for a board
 export async function GET(
@@ -110,8 +111,7 @@ export async function PUT(
     }
 
     // Validate dedication is valid (0, 25, 33, 50, 75, or 100)
-    const validDedications = [0, 25, 33, 50, 75, 100];
-    if (!validDedications.includes(dedication)) {
+    if (!AVAILABILITY_DEDICATIONS.includes(dedication)) {
       return ApiErrors.validation('dedication must be 0, 25, 33, 50, 75, or 100');
     }
 
@@ -215,7 +215,6 @@ export async function POST(
       return ApiErrors.validation('entries array is required');
     }
 
-    const validDedications = [0, 25, 33, 50, 75, 100];
     const results = [];
 
     for (const entry of entries) {
@@ -225,7 +224,7 @@ export async function POST(
         continue; // Skip invalid entries
       }
 
-      if (!validDedications.includes(dedication)) {
+      if (!AVAILABILITY_DEDICATIONS.includes(dedication)) {
         continue; // Skip invalid dedication values
       }
 
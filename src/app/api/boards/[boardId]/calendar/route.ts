@@ -0,0 +1,79 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { MAX_DAYS_OFF_SPAN, dayKey, parseDayKey } from '@/lib/holiday-calendar';
+
+// GET /api/boards/[boardId]/calendar - Studio holidays and members' leave in a date range
+// Requires: ?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD (inclusive, at most a year)
+// Leave type and notes stay private to the user and admins; members only see the days off.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const { searchParams } = new URL(request.url);
+    const startDate = parseDayKey(searchParams.get('startDate'));
+    const endDate = parseDayKey(searchParams.get('endDate'));
+    if (!startDate || !endDate || endDate < startDate) {
+      return ApiErrors.validation('startDate and endDate must be YYYY-MM-DD dates, startDate first');
+    }
+    if ((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000) >= MAX_DAYS_OFF_SPAN) {
+      return ApiErrors.validation(`The range can span at most ${MAX_DAYS_OFF_SPAN} days`);
+    }
+
+    const board = await prisma.board.findUnique({
+      where: { id: boardId },
+      select: {
+        team: { select: { studioId: true } },
+        members: { select: { userId: true } },
+      },
+    });
+    if (!board) {
+      return ApiErrors.notFound('Board');
+    }
+
+    const studioId = board.team?.studioId;
+    const [holidays, leave] = await Promise.all([
+      studioId
+        ? prisma.studioHoliday.findMany({
+            where: { studioId, date: { gte: startDate, lte: endDate } },
+            select: { date: true, name: true },
+            orderBy: { date: 'asc' },
+          })
+        : [],
+      prisma.userLeave.findMany({
+        where: {
+          userId: { in: board.members.map((member) => member.userId) },
+          startDate: { lte: endDate },
+          endDate: { gte: startDate },
+        },
+        select: { userId: true, startDate: true, endDate: true },
+        orderBy: { startDate: 'asc' },
+      }),
+    ]);
+
+    return apiSuccess({
+      holidays: holidays.map((holiday) => ({ date: dayKey(holiday.date), name: holiday.name })),
+      leave: leave.map((entry) => ({
+        userId: entry.userId,
+        startDate: dayKey(entry.startDate),
+        endDate: dayKey(entry.endDate),
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to load board calendar:', error);
+    return ApiErrors.internal('Failed to load board calendar');
+  }
+}
@@ -0,0 +1,121 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { isDoneList } from '@/lib/quality-review';
+import { loadBoardBusinessCalendar, withLeave } from '@/lib/holiday-calendar';
+import {
+  computeCapacityForecast,
+  type CapacityPhase,
+  type CapacityTask,
+} from '@/lib/capacity-forecast';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/boards/[boardId]/capacity - Capacity vs. scheduled story points per planning phase
+// Capacity is weekly availability on the board times the expected points for each person's seniority,
+// less studio holidays and leave
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const [lists, cards, availability, seniorityConfigs, studioCalendar] = await Promise.all([
+      prisma.list.findMany({
+        where: { boardId },
+        select: {
+          id: true,
+          name: true,
+          phase: true,
+          viewType: true,
+          startDate: true,
+          endDate: true,
+          durationWeeks: true,
+          timelineBlock: { select: { startDate: true, endDate: true } },
+        },
+      }),
+      prisma.card.findMany({
+        where: { list: { boardId }, type: 'TASK', archivedAt: null },
+        select: { listId: true, taskData: true, completedAt: true },
+      }),
+      prisma.userWeeklyAvailability.findMany({
+        where: { boardId, dedication: { gt: 0 } },
+        select: { userId: true, weekStart: true, dedication: true, user: { select: { seniority: true } } },
+      }),
+      prisma.seniorityConfig.findMany({
+        select: { seniority: true, expectedPointsPerWeek: true },
+      }),
+      loadBoardBusinessCalendar(prisma, boardId),
+    ]);
+
+    // Leave only matters in the weeks someone is booked
+    const userIds = [...new Set(availability.map((entry) => entry.userId))];
+    const weekTimes = availability.map((entry) => entry.weekStart.getTime());
+    const leave = userIds.length > 0
+      ? await prisma.userLeave.findMany({
+          where: {
+            userId: { in: userIds },
+            startDate: { lte: new Date(Math.max(...weekTimes) + 6 * DAY_MS) },
+            endDate: { gte: new Date(Math.min(...weekTimes)) },
+          },
+          select: { userId: true, startDate: true, endDate: true },
+        })
+      : [];
+    const calendarByUser = new Map(userIds.map((userId) => [
+      userId,
+      withLeave(studioCalendar, leave.filter((entry) => entry.userId === userId)),
+    ]));
+
+    // A phase's dates come from its planning list, or the timeline block synced to it
+    const phases: CapacityPhase[] = [];
+    for (const list of lists) {
+      if (list.viewType !== 'PLANNING') continue;
+      const startDate = list.startDate ?? list.timelineBlock?.startDate;
+      const endDate = list.endDate ?? list.timelineBlock?.endDate;
+      if (!startDate || !endDate) continue;
+      phases.push({ listId: list.id, name: list.name, phase: list.phase, startDate, endDate, durationWeeks: list.durationWeeks });
+    }
+    const phaseIds = new Set(phases.map((phase) => phase.listId));
+    const listsById = new Map(lists.map((list) => [list.id, list]));
+
+    // Released tasks still count toward the phase they were staged in
+    const tasks: CapacityTask[] = [];
+    for (const card of cards) {
+      const taskData = card.taskData as { storyPoints?: number | null; stagedFromPlanningListId?: string | null } | null;
+      const phaseListId = phaseIds.has(card.listId) ? card.listId : taskData?.stagedFromPlanningListId;
+      if (!phaseListId || !phaseIds.has(phaseListId)) continue;
+      const list = listsById.get(card.listId)!;
+      tasks.push({
+        phaseListId,
+        storyPoints: taskData?.storyPoints ?? null,
+        done: card.completedAt !== null || isDoneList(list),
+      });
+    }
+
+    const forecast = computeCapacityForecast({
+      phases,
+      tasks,
+      availability,
+      seniorityByUser: new Map(availability.map((entry) => [entry.userId, entry.user.seniority])),
+      seniorityConfigs,
+      calendarByUser,
+      now: new Date(),
+    });
+
+    return apiSuccess(forecast);
+  } catch (error) {
+    console.error('Failed to load board capacity:', error);
+    return ApiErrors.internal('Failed to load board capacity');
+  }
+}
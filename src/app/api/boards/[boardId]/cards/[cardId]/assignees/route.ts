@@ -6,6 +6,8 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { publishCardAssigneesUpdated } from '@/lib/board-events';
 
 // GET /api/boards/[boardId]/cards/[cardId]/assignees
 export async function GET(
@@ -131,6 +133,17 @@ export async function POST(
       },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'assignee_added',
+      entity: 'card',
+      entityId: cardId,
+      data: { assigneeId: assignee.user.id, assigneeName: assignee.user.name },
+    });
+
+    await publishCardAssigneesUpdated(boardId, cardId, session.user.id);
+
     return apiSuccess(assignee);
   } catch (error) {
     console.error('Failed to add assignee:', error);
@@ -168,12 +181,26 @@ export async function DELETE(
       return ApiErrors.validation('User ID is required');
     }
 
-    await prisma.cardUser.delete({
+    const removed = await prisma.cardUser.delete({
       where: {
         userId_cardId: { userId, cardId },
       },
+      include: {
+        user: { select: { name: true } },
+      },
+    });
+
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'assignee_removed',
+      entity: 'card',
+      entityId: cardId,
+      data: { assigneeId: userId, assigneeName: removed.user.name },
     });
 
+    await publishCardAssigneesUpdated(boardId, cardId, session.user.id);
+
     return apiSuccess(null);
   } catch (error) {
     console.error('Failed to remove assignee:', error);
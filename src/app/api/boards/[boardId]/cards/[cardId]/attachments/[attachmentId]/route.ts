@@ -5,6 +5,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
 import { deleteFileByUrl } from '@/lib/storage';
 
 // PATCH /api/boards/[boardId]/cards/[cardId]/attachments/[attachmentId] - Rename attachment
@@ -16,7 +17,7 @@ export async function PATCH(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { boardId, attachmentId } = await params;
+    const { boardId, cardId, attachmentId } = await params;
 
     const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
     if (memberResponse) return memberResponse;
@@ -28,6 +29,11 @@ export async function PATCH(
       return ApiErrors.validation('Attachment name is required');
     }
 
+    const previous = await prisma.attachment.findUnique({
+      where: { id: attachmentId },
+      select: { name: true },
+    });
+
     const attachment = await prisma.attachment.update({
       where: { id: attachmentId },
       data: { name: name.trim() },
@@ -56,6 +62,17 @@ export async function PATCH(
       },
     });
 
+    if (previous && previous.name !== attachment.name) {
+      await recordActivity({
+        boardId,
+        userId: session.user.id,
+        action: 'attachment_renamed',
+        entity: 'card',
+        entityId: cardId,
+        data: { attachmentId, from: previous.name, to: attachment.name },
+      });
+    }
+
     return apiSuccess(attachment);
   } catch (error) {
     console.error('Failed to rename attachment:', error);
@@ -72,7 +89,7 @@ export async function DELETE(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { boardId, attachmentId } = await params;
+    const { boardId, cardId, attachmentId } = await params;
 
     const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
     if (memberResponse) return memberResponse;
@@ -91,6 +108,15 @@ export async function DELETE(
       where: { id: attachmentId },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'attachment_removed',
+      entity: 'card',
+      entityId: cardId,
+      data: { attachmentId, attachmentName: attachment.name },
+    });
+
     // Delete physical file (best-effort, works for both local and R2)
     try {
       await deleteFileByUrl(attachment.url);
@@ -5,6 +5,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
 
 // GET /api/boards/[boardId]/cards/[cardId]/attachments
 // Supports: ?limit=N (return latest N + totalCount), ?slim=true (skip comments)
@@ -136,6 +137,15 @@ export async function POST(
       },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'attachment_added',
+      entity: 'card',
+      entityId: cardId,
+      data: { attachmentId: attachment.id, attachmentName: attachment.name },
+    });
+
     return apiSuccess(attachment);
   } catch (error) {
     console.error('Failed to create attachment:', error);
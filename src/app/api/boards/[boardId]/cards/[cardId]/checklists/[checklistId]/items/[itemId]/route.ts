@@ -5,6 +5,9 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { publishBoardEvent, publishChecklistsUpdated } from '@/lib/board-events';
+import { runAutomations } from '@/lib/automation';
 
 // PATCH /api/boards/[boardId]/cards/[cardId]/checklists/[checklistId]/items/[itemId]
 export async function PATCH(
@@ -15,7 +18,7 @@ export async function PATCH(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { boardId, itemId } = await params;
+    const { boardId, cardId, itemId } = await params;
 
     const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
     if (memberResponse) return memberResponse;
@@ -28,11 +31,58 @@ export async function PATCH(
     if (isComplete !== undefined) updates.isComplete = isComplete;
     if (position !== undefined) updates.position = position;
 
+    const previous = await prisma.checklistItem.findUnique({
+      where: { id: itemId },
+      select: { content: true, isComplete: true },
+    });
+
     const item = await prisma.checklistItem.update({
       where: { id: itemId },
       data: updates,
     });
 
+    let automationRuns: Awaited<ReturnType<typeof runAutomations>> = [];
+    if (previous && previous.isComplete !== item.isComplete) {
+      await recordActivity({
+        boardId,
+        userId: session.user.id,
+        action: item.isComplete ? 'checklist_item_completed' : 'checklist_item_reopened',
+        entity: 'card',
+        entityId: cardId,
+        data: { checklistId: item.checklistId, itemId, content: item.content },
+      });
+
+      // Ticking the last open item completes the checklist
+      if (item.isComplete) {
+        const checklist = await prisma.checklist.findUnique({
+          where: { id: item.checklistId },
+          select: { name: true, items: { where: { isComplete: false }, select: { id: true } } },
+        });
+        if (checklist && checklist.items.length === 0) {
+          automationRuns = await runAutomations({
+            boardId,
+            event: { type: 'checklist_completed', cardId, checklistName: checklist.name },
+            actorId: session.user.id,
+          });
+        }
+      }
+    }
+    if (previous && previous.content !== item.content) {
+      await recordActivity({
+        boardId,
+        userId: session.user.id,
+        action: 'checklist_item_edited',
+        entity: 'card',
+        entityId: cardId,
+        data: { checklistId: item.checklistId, itemId, from: previous.content, to: item.content },
+      });
+    }
+
+    await publishChecklistsUpdated(boardId, cardId, session.user.id);
+    if (automationRuns.length > 0) {
+      await publishBoardEvent(boardId, { type: 'board.changed' }, session.user.id);
+    }
+
     return apiSuccess(item);
   } catch (error) {
     console.error('Failed to update checklist item:', error);
@@ -49,15 +99,26 @@ export async function DELETE(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { boardId, itemId } = await params;
+    const { boardId, cardId, itemId } = await params;
 
     const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
     if (memberResponse) return memberResponse;
 
-    await prisma.checklistItem.delete({
+    const item = await prisma.checklistItem.delete({
       where: { id: itemId },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'checklist_item_removed',
+      entity: 'card',
+      entityId: cardId,
+      data: { checklistId: item.checklistId, itemId, content: item.content },
+    });
+
+    await publishChecklistsUpdated(boardId, cardId, session.user.id);
+
     return apiSuccess(null);
   } catch (error) {
     console.error('Failed to delete checklist item:', error);
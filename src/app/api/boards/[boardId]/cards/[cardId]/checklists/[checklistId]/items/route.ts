@@ -5,6 +5,8 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { publishChecklistsUpdated } from '@/lib/board-events';
 
 // POST /api/boards/[boardId]/cards/[cardId]/checklists/[checklistId]/items
 export async function POST(
@@ -15,32 +17,62 @@ export async function POST(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { boardId, checklistId } = await params;
+    const { boardId, cardId, checklistId } = await params;
 
     const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
     if (memberResponse) return memberResponse;
 
     const body = await request.json();
-    const { content } = body;
+    const { content, isComplete, position } = body;
 
     if (!content?.trim()) {
       return ApiErrors.validation('Item content is required');
     }
+    if (isComplete !== undefined && typeof isComplete !== 'boolean') {
+      return ApiErrors.validation('isComplete must be a boolean');
+    }
+    if (position !== undefined && (!Number.isInteger(position) || position < 0)) {
+      return ApiErrors.validation('position must be a non-negative integer');
+    }
 
-    // Get highest position
-    const lastItem = await prisma.checklistItem.findFirst({
-      where: { checklistId },
-      orderBy: { position: 'desc' },
+    const item = await prisma.$transaction(async (tx) => {
+      let itemPosition: number;
+      if (position !== undefined) {
+        // Put a restored item back in its slot
+        await tx.checklistItem.updateMany({
+          where: { checklistId, position: { gte: position } },
+          data: { position: { increment: 1 } },
+        });
+        itemPosition = position;
+      } else {
+        const lastItem = await tx.checklistItem.findFirst({
+          where: { checklistId },
+          orderBy: { position: 'desc' },
+        });
+        itemPosition = (lastItem?.position ?? -1) + 1;
+      }
+
+      return tx.checklistItem.create({
+        data: {
+          content: content.trim(),
+          position: itemPosition,
+          isComplete: isComplete ?? false,
+          checklistId,
+        },
+      });
     });
 
-    const item = await prisma.checklistItem.create({
-      data: {
-        content: content.trim(),
-        position: (lastItem?.position ?? -1) + 1,
-        checklistId,
-      },
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'checklist_item_added',
+      entity: 'card',
+      entityId: cardId,
+      data: { checklistId, itemId: item.id, content: item.content },
     });
 
+    await publishChecklistsUpdated(boardId, cardId, session.user.id);
+
     return apiSuccess(item);
   } catch (error) {
     console.error('Failed to create checklist item:', error);
@@ -5,6 +5,8 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { publishChecklistsUpdated } from '@/lib/board-events';
 
 // PATCH /api/boards/[boardId]/cards/[cardId]/checklists/[checklistId]
 export async function PATCH(
@@ -15,7 +17,7 @@ export async function PATCH(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { boardId, checklistId } = await params;
+    const { boardId, cardId, checklistId } = await params;
 
     const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
     if (memberResponse) return memberResponse;
@@ -27,6 +29,10 @@ export async function PATCH(
     if (name !== undefined) updates.name = name.trim();
     if (position !== undefined) updates.position = position;
 
+    const previous = updates.name !== undefined
+      ? await prisma.checklist.findUnique({ where: { id: checklistId }, select: { name: true } })
+      : null;
+
     const checklist = await prisma.checklist.update({
       where: { id: checklistId },
       data: updates,
@@ -37,6 +43,19 @@ export async function PATCH(
       },
     });
 
+    if (previous && previous.name !== checklist.name) {
+      await recordActivity({
+        boardId,
+        userId: session.user.id,
+        action: 'checklist_renamed',
+        entity: 'card',
+        entityId: cardId,
+        data: { checklistId, from: previous.name, to: checklist.name },
+      });
+    }
+
+    await publishChecklistsUpdated(boardId, cardId, session.user.id);
+
     return apiSuccess(checklist);
   } catch (error) {
     console.error('Failed to update checklist:', error);
@@ -53,15 +72,26 @@ export async function DELETE(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { boardId, checklistId } = await params;
+    const { boardId, cardId, checklistId } = await params;
 
     const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
     if (memberResponse) return memberResponse;
 
-    await prisma.checklist.delete({
+    const checklist = await prisma.checklist.delete({
       where: { id: checklistId },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'checklist_removed',
+      entity: 'card',
+      entityId: cardId,
+      data: { checklistId, checklistName: checklist.name },
+    });
+
+    await publishChecklistsUpdated(boardId, cardId, session.user.id);
+
     return apiSuccess(null);
   } catch (error) {
     console.error('Failed to delete checklist:', error);
@@ -5,6 +5,8 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { publishChecklistsUpdated } from '@/lib/board-events';
 
 // GET /api/boards/[boardId]/cards/[cardId]/checklists
 export async function GET(
@@ -73,6 +75,17 @@ export async function POST(
       },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'checklist_added',
+      entity: 'card',
+      entityId: cardId,
+      data: { checklistId: checklist.id, checklistName: checklist.name, checklistType: checklist.type },
+    });
+
+    await publishChecklistsUpdated(boardId, cardId, session.user.id);
+
     return apiSuccess(checklist);
   } catch (error) {
     console.error('Failed to create checklist:', error);
@@ -1,9 +1,14 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import {
   requireAuth,
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity, toActivityPreview } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/board-events';
+import { notifyCommentMentions, resolveCommentMentions } from '@/lib/comment-mentions';
+import { addedMentions, parseStoredMentions } from '@/lib/mentions';
 
 // PATCH /api/boards/[boardId]/cards/[cardId]/comments/[commentId]
 export async function PATCH(
@@ -14,7 +19,7 @@ export async function PATCH(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { commentId } = await params;
+    const { boardId, cardId, commentId } = await params;
     const body = await request.json();
     const { content } = body;
 
@@ -27,9 +32,15 @@ export async function PATCH(
       return ApiErrors.forbidden('Cannot edit this comment');
     }
 
+    if (!content?.trim()) {
+      return ApiErrors.validation('Comment content is required');
+    }
+
+    const mentions = await resolveCommentMentions(boardId, content.trim());
+
     const comment = await prisma.comment.update({
       where: { id: commentId },
-      data: { content: content.trim() },
+      data: { content: content.trim(), mentions: mentions as unknown as Prisma.InputJsonValue },
       include: {
         author: {
           select: {
@@ -42,6 +53,27 @@ export async function PATCH(
       },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'comment_edited',
+      entity: 'card',
+      entityId: cardId,
+      data: { commentId, preview: toActivityPreview(comment.content) },
+    });
+
+    await publishBoardEvent(boardId, { type: 'comment.updated', cardId, commentId }, session.user.id);
+
+    // Only people newly mentioned by the edit hear about it.
+    await notifyCommentMentions({
+      boardId,
+      cardId,
+      commentId,
+      authorId: session.user.id,
+      content: comment.content,
+      mentions: addedMentions(parseStoredMentions(existing.mentions), mentions),
+    });
+
     return apiSuccess(comment);
   } catch (error) {
     console.error('Failed to update comment:', error);
@@ -58,7 +90,7 @@ export async function DELETE(
     const { session, response: authResponse } = await requireAuth();
     if (authResponse) return authResponse;
 
-    const { commentId } = await params;
+    const { boardId, cardId, commentId } = await params;
 
     // Check ownership
     const existing = await prisma.comment.findUnique({
@@ -73,6 +105,17 @@ export async function DELETE(
       where: { id: commentId },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'comment_deleted',
+      entity: 'card',
+      entityId: cardId,
+      data: { commentId, preview: toActivityPreview(existing.content) },
+    });
+
+    await publishBoardEvent(boardId, { type: 'comment.deleted', cardId, commentId }, session.user.id);
+
     return apiSuccess(null);
   } catch (error) {
     console.error('Failed to delete comment:', error);
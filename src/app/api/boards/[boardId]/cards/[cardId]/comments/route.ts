@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import {
   requireAuth,
@@ -5,6 +6,9 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity, toActivityPreview } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/board-events';
+import { notifyCommentMentions, resolveCommentMentions } from '@/lib/comment-mentions';
 
 // GET /api/boards/[boardId]/cards/[cardId]/comments
 export async function GET(
@@ -75,7 +79,17 @@ export async function POST(
       return ApiErrors.validation('Comment content is required');
     }
 
+    const card = await prisma.card.findFirst({
+      where: { id: cardId, list: { boardId } },
+      select: { id: true },
+    });
+
+    if (!card) {
+      return ApiErrors.notFound('Card');
+    }
+
     const commentType = type === 'review_submission' ? 'review_submission' : 'standard';
+    const mentions = await resolveCommentMentions(boardId, content.trim());
 
     const comment = await prisma.comment.create({
       data: {
@@ -83,6 +97,7 @@ export async function POST(
         type: commentType,
         authorId: session.user.id,
         cardId,
+        mentions: mentions as unknown as Prisma.InputJsonValue,
         ...(attachmentId && { attachmentId }),
       },
       include: {
@@ -97,6 +112,26 @@ export async function POST(
       },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'comment_added',
+      entity: 'card',
+      entityId: cardId,
+      data: { commentId: comment.id, commentType, preview: toActivityPreview(comment.content) },
+    });
+
+    await publishBoardEvent(boardId, { type: 'comment.created', cardId, commentId: comment.id }, session.user.id);
+
+    await notifyCommentMentions({
+      boardId,
+      cardId,
+      commentId: comment.id,
+      authorId: session.user.id,
+      content: comment.content,
+      mentions,
+    });
+
     return apiSuccess(comment);
   } catch (error) {
     console.error('Failed to create comment:', error);
@@ -6,6 +6,8 @@ import {
   ApiErrors,
 } from '@/lib/api-utils';
 import { generateVersionedTitle } from '@/lib/task-presets';
+import { recordActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/board-events';
 
 interface TaskCardData {
   storyPoints?: number | null;
@@ -195,6 +197,23 @@ export async function POST(
       });
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'created',
+      entity: 'card',
+      entityId: newCard.id,
+      data: {
+        cardTitle: newCard.title,
+        cardType: newCard.type,
+        listId: newCard.list.id,
+        listName: newCard.list.name,
+        copiedFromCardId: original.id,
+      },
+    });
+
+    await publishBoardEvent(boardId, { type: 'card.created', card: newCard }, session.user.id);
+
     return apiSuccess(newCard, 201);
   } catch (error) {
     console.error('Failed to copy card:', error);
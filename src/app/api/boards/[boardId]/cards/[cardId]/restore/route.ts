@@ -0,0 +1,98 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { reopenRestoredCardReviewCycles } from '@/lib/quality-review';
+import { recordActivity } from '@/lib/activity';
+import { emitWebhookEvent } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+
+// POST /api/boards/[boardId]/cards/[cardId]/restore - Bring back an archived card (undo of DELETE)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string; cardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId, cardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const card = await prisma.card.findFirst({
+      where: { id: cardId, list: { boardId } },
+      select: {
+        id: true,
+        title: true,
+        type: true,
+        archivedAt: true,
+        list: {
+          select: {
+            id: true,
+            name: true,
+            phase: true,
+            viewType: true,
+            board: { select: { settings: true } },
+          },
+        },
+      },
+    });
+
+    if (!card) {
+      return ApiErrors.notFound('Card');
+    }
+
+    if (!card.archivedAt) {
+      return ApiErrors.validation('Card is not archived');
+    }
+
+    // Back at the end of its list, so it does not collide with cards moved in since
+    const last = await prisma.card.aggregate({
+      where: { listId: card.list.id, archivedAt: null },
+      _max: { position: true },
+    });
+
+    await prisma.$transaction(async (tx) => {
+      await tx.card.update({
+        where: { id: cardId },
+        data: { archivedAt: null, position: (last._max.position ?? -1) + 1 },
+      });
+
+      await reopenRestoredCardReviewCycles(tx, {
+        cardId,
+        list: card.list,
+        boardSettings: card.list.board.settings,
+      });
+    });
+
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'restored',
+      entity: 'card',
+      entityId: cardId,
+      data: { cardTitle: card.title },
+    });
+
+    await emitWebhookEvent('card.created', {
+      boardId,
+      actorId: session.user.id,
+      data: {
+        card: { id: cardId, title: card.title, type: card.type, list: { id: card.list.id, name: card.list.name } },
+        restored: true,
+      },
+    });
+
+    await publishBoardEvent(boardId, { type: 'board.changed' }, session.user.id);
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to restore card:', error);
+    return ApiErrors.internal('Failed to restore card');
+  }
+}
@@ -10,7 +10,22 @@ import {
 import {
   closeAndLockCardReviewCycles,
   handleCardListTransition,
+  isDoneList,
 } from '@/lib/quality-review';
+import { diffCardChanges, recordActivities, recordActivity } from '@/lib/activity';
+import type { RecordActivityParams } from '@/lib/activity';
+import { hasApprovalAutomation, runAutomations } from '@/lib/automation';
+import {
+  describeDependencyBlocker,
+  findBlockingPredecessor,
+  getDependencyEnforcement,
+  getDependsOnTaskId,
+  isStartedList,
+  validateTaskDependency,
+} from '@/lib/task-dependencies';
+import { checkWipLimits, describeWipViolations, getWipLimitEnforcement } from '@/lib/wip-limits';
+import { emitCardMovedWebhooks, emitWebhookEvent } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
 
 // Validation constants
 const MAX_TITLE_LENGTH = 500;
@@ -267,6 +282,14 @@ export async function PATCH(
       select: {
         id: true,
         listId: true,
+        title: true,
+        description: true,
+        color: true,
+        featureImage: true,
+        taskData: true,
+        userStoryData: true,
+        epicData: true,
+        utilityData: true,
         list: {
           select: {
             id: true,
@@ -309,6 +332,15 @@ export async function PATCH(
       return ApiErrors.validation('Invalid listId');
     }
 
+    // Reject dependency changes that point outside the board or close a loop
+    const nextDependsOnTaskId = taskData ? getDependsOnTaskId(taskData) : null;
+    if (nextDependsOnTaskId && nextDependsOnTaskId !== getDependsOnTaskId(existingCard.taskData)) {
+      const dependencyError = await validateTaskDependency(boardId, cardId, nextDependsOnTaskId);
+      if (dependencyError) {
+        return ApiErrors.validation(dependencyError);
+      }
+    }
+
     let destinationList:
       | {
         id: string;
@@ -340,6 +372,32 @@ export async function PATCH(
       if (!destinationList) {
         return ApiErrors.notFound('List');
       }
+
+      if (
+        getDependencyEnforcement(existingCard.list.board.settings) === 'block'
+        && isStartedList(destinationList)
+        && !isStartedList(existingCard.list)
+      ) {
+        const blocker = await findBlockingPredecessor(boardId, cardId);
+        if (blocker) {
+          return ApiErrors.conflict(`${describeDependencyBlocker(blocker)}. Finish it first.`);
+        }
+      }
+
+      if (getWipLimitEnforcement(existingCard.list.board.settings) === 'block') {
+        const assignees = await prisma.cardUser.findMany({
+          where: { cardId },
+          select: { userId: true },
+        });
+        const wipCheck = await checkWipLimits({
+          listId: destinationList.id,
+          cardId,
+          assigneeIds: assignees.map((assignee) => assignee.userId),
+        });
+        if (wipCheck) {
+          return ApiErrors.conflict(describeWipViolations(wipCheck));
+        }
+      }
     }
 
     const card = await prisma.$transaction(async (tx) => {
@@ -410,11 +468,21 @@ export async function PATCH(
       return updatedCard;
     });
 
-    // Auto-move to Done when both PO and Lead have approved
+    // Approvals this change granted (unset before, set now)
+    const previousTaskData = existingCard.taskData as Record<string, unknown> | null;
+    const nextTaskData = card.taskData as Record<string, unknown> | null;
+    const grantedApprovals = taskData
+      ? (['po', 'lead'] as const).filter((role) => {
+        const key = role === 'po' ? 'approvedByPo' : 'approvedByLead';
+        return !previousTaskData?.[key] && Boolean(nextTaskData?.[key]);
+      })
+      : [];
+
+    // Auto-move to Done when both PO and Lead have approved, unless the board
+    // has its own approval automation rules
     let autoMovedToDone = false;
     if (taskData) {
-      const td = card.taskData as Record<string, unknown> | null;
-      const hasBothApprovals = td?.approvedByPo && td?.approvedByLead;
+      const hasBothApprovals = nextTaskData?.approvedByPo && nextTaskData?.approvedByLead;
 
       if (hasBothApprovals) {
         // Check if card is already in a Done list
@@ -423,7 +491,7 @@ export async function PATCH(
           currentList.phase === 'DONE' ||
           currentList.name.toLowerCase().includes('done');
 
-        if (!isAlreadyDone) {
+        if (!isAlreadyDone && !(await hasApprovalAutomation(boardId))) {
           // Find the Done list on this board
           const doneList = await prisma.list.findFirst({
             where: {
@@ -452,11 +520,102 @@ export async function PATCH(
               });
             });
             autoMovedToDone = true;
+            destinationList = doneList;
           }
         }
       }
     }
 
+    const activityEntries: RecordActivityParams[] = [];
+    const fieldChanges = diffCardChanges(existingCard, {
+      title: title ? title.trim() : undefined,
+      description: description !== undefined ? description?.trim() || null : undefined,
+      color,
+      featureImage,
+      taskData,
+      userStoryData,
+      epicData,
+      utilityData,
+    });
+    if (fieldChanges.length > 0) {
+      activityEntries.push({
+        boardId,
+        userId: session.user.id,
+        action: 'updated',
+        entity: 'card',
+        entityId: cardId,
+        data: { cardTitle: card.title, changes: fieldChanges },
+      });
+    }
+    if ((hasListTransition || autoMovedToDone) && destinationList) {
+      activityEntries.push({
+        boardId,
+        userId: session.user.id,
+        action: 'moved',
+        entity: 'card',
+        entityId: cardId,
+        data: {
+          cardTitle: card.title,
+          fromListId: existingCard.list.id,
+          fromListName: existingCard.list.name,
+          toListId: destinationList.id,
+          toListName: destinationList.name,
+          ...(autoMovedToDone && { automatic: true }),
+        },
+      });
+    }
+    await recordActivities(activityEntries);
+
+    const webhookCard = { id: cardId, title: card.title, type: card.type };
+    if (fieldChanges.length > 0) {
+      await emitWebhookEvent('card.updated', {
+        boardId,
+        actorId: session.user.id,
+        data: { card: webhookCard, changes: fieldChanges },
+      });
+    }
+    if ((hasListTransition || autoMovedToDone) && destinationList) {
+      await emitCardMovedWebhooks({
+        boardId,
+        actorId: session.user.id,
+        card: webhookCard,
+        fromList: existingCard.list,
+        toList: destinationList,
+        automatic: autoMovedToDone,
+      });
+    }
+
+    // Board automation rules run against the saved change
+    let automationsRun = 0;
+    if ((hasListTransition || autoMovedToDone) && destinationList) {
+      const runs = await runAutomations({
+        boardId,
+        event: { type: 'card_entered_list', cardId, listId: destinationList.id },
+        actorId: session.user.id,
+      });
+      automationsRun += runs.length;
+    }
+    for (const approval of grantedApprovals) {
+      const runs = await runAutomations({
+        boardId,
+        event: {
+          type: 'approval_granted',
+          cardId,
+          approval,
+          approvals: { po: Boolean(nextTaskData?.approvedByPo), lead: Boolean(nextTaskData?.approvedByLead) },
+        },
+        actorId: session.user.id,
+      });
+      automationsRun += runs.length;
+    }
+    if (automationsRun > 0 && !autoMovedToDone && !isDoneList(existingCard.list)) {
+      const current = await prisma.card.findUnique({
+        where: { id: cardId },
+        select: { list: { select: { id: true, name: true, phase: true, viewType: true } } },
+      });
+      autoMovedToDone = Boolean(current && isDoneList(current.list));
+    }
+
     // Compute derived stats for User Story / Epic cards so the client stays in sync
     let computedFields: Record<string, unknown> = {};
 
@@ -532,7 +691,21 @@ export async function PATCH(
       };
     }
 
-    return apiSuccess({ ...card, ...computedFields, _autoMovedToDone: autoMovedToDone });
+    await publishBoardEvent(boardId, automationsRun > 0 ? { type: 'board.changed' } : {
+      type: 'card.updated',
+      card: {
+        ...card,
+        ...computedFields,
+        ...(destinationList && { listId: destinationList.id }),
+      },
+    }, session.user.id);
+
+    return apiSuccess({
+      ...card,
+      ...computedFields,
+      _autoMovedToDone: autoMovedToDone,
+      _automationsRun: automationsRun,
+    });
   } catch (error) {
     console.error('Failed to update card:', error);
     return ApiErrors.internal('Failed to update card');
@@ -558,7 +731,7 @@ export async function DELETE(
         id: cardId,
         list: { boardId },
       },
-      select: { id: true },
+      select: { id: true, title: true },
     });
 
     if (!existingCard) {
@@ -574,6 +747,23 @@ export async function DELETE(
       await closeAndLockCardReviewCycles(tx, cardId);
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'archived',
+      entity: 'card',
+      entityId: cardId,
+      data: { cardTitle: existingCard.title },
+    });
+
+    await emitWebhookEvent('card.deleted', {
+      boardId,
+      actorId: session.user.id,
+      data: { card: { id: cardId, title: existingCard.title } },
+    });
+
+    await publishBoardEvent(boardId, { type: 'card.deleted', cardId }, session.user.id);
+
     return apiSuccess(null);
   } catch (error) {
     console.error('Failed to delete card:', error);
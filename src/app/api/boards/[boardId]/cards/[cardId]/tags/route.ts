@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/board-events';
+
+const TAG_SELECT = { id: true, name: true, color: true } as const;
+
+// PUT /api/boards/[boardId]/cards/[cardId]/tags - Replace the card's tags
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string; cardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId, cardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const card = await prisma.card.findFirst({
+      where: { id: cardId, list: { boardId } },
+      select: { id: true, title: true, tags: { select: { tag: { select: TAG_SELECT } } } },
+    });
+
+    if (!card) {
+      return ApiErrors.notFound('Card');
+    }
+
+    const body = await request.json();
+    const tagIds = body?.tagIds;
+    if (!Array.isArray(tagIds) || tagIds.some((id) => typeof id !== 'string')) {
+      return ApiErrors.validation('tagIds must be an array of tag IDs');
+    }
+
+    const uniqueTagIds = [...new Set(tagIds as string[])];
+    // Global tags, or tags of the studio the board's team belongs to
+    const tags = await prisma.tag.findMany({
+      where: {
+        id: { in: uniqueTagIds },
+        OR: [{ studioId: null }, { studio: { teams: { some: { boards: { some: { id: boardId } } } } } }],
+      },
+      select: TAG_SELECT,
+      orderBy: { position: 'asc' },
+    });
+    if (tags.length !== uniqueTagIds.length) {
+      return ApiErrors.validation('One or more tags do not exist or belong to another studio');
+    }
+
+    await prisma.$transaction([
+      prisma.cardTag.deleteMany({ where: { cardId, tagId: { notIn: uniqueTagIds } } }),
+      prisma.cardTag.createMany({
+        data: uniqueTagIds.map((tagId) => ({ cardId, tagId })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    const previous = card.tags.map(({ tag }) => tag);
+    const added = tags.filter((tag) => !previous.some((old) => old.id === tag.id));
+    const removed = previous.filter((old) => !uniqueTagIds.includes(old.id));
+
+    if (added.length > 0 || removed.length > 0) {
+      await recordActivity({
+        boardId,
+        userId: session.user.id,
+        action: 'tags_updated',
+        entity: 'card',
+        entityId: cardId,
+        data: {
+          cardTitle: card.title,
+          added: added.map((tag) => tag.name),
+          removed: removed.map((tag) => tag.name),
+        },
+      });
+      const updated = { id: cardId, tags };
+      await publishBoardEvent(boardId, { type: 'card.updated', card: updated }, session.user.id);
+    }
+
+    return apiSuccess(tags);
+  } catch (error) {
+    console.error('Failed to update card tags:', error);
+    return ApiErrors.internal('Failed to update card tags');
+  }
+}
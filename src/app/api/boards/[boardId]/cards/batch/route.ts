@@ -5,6 +5,11 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivities } from '@/lib/activity';
+import { emitWebhookEvent, toWebhookCard } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+import { getPreviousFriday, type BusinessCalendar } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
 import type { CardType, TaskReleaseMode } from '@/types';
 
 const MAX_TITLE_LENGTH = 500;
@@ -12,15 +17,6 @@ const MAX_DESCRIPTION_LENGTH = 10000;
 const MAX_BATCH_SIZE = 10;
 const VALID_TASK_DESTINATION_MODES: TaskReleaseMode[] = ['IMMEDIATE', 'STAGED'];
 
-function getPreviousFriday(date: Date): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() - 1);
-  while (result.getDay() !== 5) {
-    result.setDate(result.getDate() - 1);
-  }
-  return result;
-}
-
 // POST /api/boards/[boardId]/cards/batch - Create multiple cards in one request
 // Supports dependency chaining: each card can reference the previous card via `dependsOnPrevious: true`
 export async function POST(
@@ -83,6 +79,8 @@ export async function POST(
 
     const createdCards = [];
     let previousCardId: string | null = null;
+    // Studio holidays, loaded by the first staged task
+    let calendar: BusinessCalendar | null | undefined;
 
     for (const def of cardDefs) {
       const {
@@ -180,7 +178,10 @@ export async function POST(
           return ApiErrors.validation('Cannot stage task: board has no valid Tasks-view target list');
         }
 
-        const scheduledReleaseDate = getPreviousFriday(stagingList.startDate);
+        if (calendar === undefined) {
+          calendar = await loadBoardBusinessCalendar(prisma, boardId);
+        }
+        const scheduledReleaseDate = getPreviousFriday(stagingList.startDate, calendar);
         targetListId = stagingList.id;
 
         typeData.taskData = {
@@ -264,6 +265,25 @@ export async function POST(
       previousCardId = card.id;
     }
 
+    await recordActivities(createdCards.map((card) => ({
+      boardId,
+      userId: session.user.id,
+      action: 'created',
+      entity: 'card' as const,
+      entityId: card.id,
+      data: { cardTitle: card.title, cardType: card.type, listId: card.list.id, listName: card.list.name },
+    })));
+
+    for (const card of createdCards) {
+      await emitWebhookEvent('card.created', {
+        boardId,
+        actorId: session.user.id,
+        data: { card: toWebhookCard(card) },
+      });
+    }
+
+    await publishBoardEvent(boardId, { type: 'board.changed' }, session.user.id);
+
     return apiSuccess(createdCards, 201);
   } catch (error) {
     console.error('Failed to batch create cards:', error);
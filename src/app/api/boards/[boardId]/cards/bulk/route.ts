@@ -0,0 +1,481 @@
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import {
+  closeAndLockCardReviewCycles,
+  handleCardListTransition,
+  isInProgressList,
+} from '@/lib/quality-review';
+import { diffCardChanges, recordActivities } from '@/lib/activity';
+import type { RecordActivityParams } from '@/lib/activity';
+import { runAutomations } from '@/lib/automation';
+import { cardMovedWebhookEvents, queueWebhookEvents, type QueuedWebhookEvent } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+import { createNotificationWithSlackDM } from '@/lib/notifications';
+import { resolveApprovers } from '@/lib/role-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
+import {
+  describeDependencyBlocker,
+  findBlockingPredecessor,
+  getDependencyEnforcement,
+  isStartedList,
+} from '@/lib/task-dependencies';
+import { checkWipLimits, describeWipViolations, getWipLimitEnforcement } from '@/lib/wip-limits';
+import { syncTimeTrackingForMove } from '@/lib/time-tracking';
+import { parseBulkCardRequest, planBulkCardChange } from '@/lib/bulk-card-operations';
+import type { BulkCardPlan } from '@/lib/bulk-card-operations';
+import type { BoardSettings } from '@/types';
+
+const isReviewListName = (name: string) => name.toLowerCase().includes('review');
+
+// PATCH /api/boards/[boardId]/cards/bulk - Apply the same change to many cards at once
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const parsed = parseBulkCardRequest(await request.json());
+    if (parsed.error !== undefined) {
+      return ApiErrors.validation(parsed.error);
+    }
+    const { cardIds, operations } = parsed.value;
+
+    const [board, lists, cards] = await Promise.all([
+      prisma.board.findUnique({
+        where: { id: boardId },
+        select: { name: true, settings: true },
+      }),
+      prisma.list.findMany({
+        where: { boardId },
+        orderBy: { position: 'asc' },
+        select: { id: true, name: true, phase: true, viewType: true, startDate: true },
+      }),
+      prisma.card.findMany({
+        where: { id: { in: cardIds }, archivedAt: null, list: { boardId } },
+        orderBy: [{ listId: 'asc' }, { position: 'asc' }],
+        select: {
+          id: true,
+          title: true,
+          type: true,
+          listId: true,
+          taskData: true,
+          assignees: { select: { userId: true } },
+          tags: { select: { tagId: true } },
+        },
+      }),
+    ]);
+
+    if (!board) {
+      return ApiErrors.notFound('Board');
+    }
+    if (cards.length !== cardIds.length) {
+      return ApiErrors.notFound('Cards');
+    }
+
+    const listById = new Map(lists.map((list) => [list.id, list]));
+    if (operations.listId && !listById.has(operations.listId)) {
+      return ApiErrors.notFound('List');
+    }
+
+    let stagingList: { id: string; startDate: Date } | null = null;
+    if (operations.releaseMode === 'STAGED') {
+      const list = listById.get(operations.stagingListId!);
+      if (!list || list.viewType !== 'PLANNING') {
+        return ApiErrors.validation('Cannot stage tasks: staging list must be a planning list on this board');
+      }
+      if (!list.startDate) {
+        return ApiErrors.validation('Cannot stage tasks: selected planning list has no start date');
+      }
+      stagingList = { id: list.id, startDate: list.startDate };
+    }
+    const calendar = stagingList ? await loadBoardBusinessCalendar(prisma, boardId) : null;
+
+    const memberIds = [operations.assignUserId, operations.unassignUserId].filter((id): id is string => !!id);
+    const requestedTagIds = [...new Set([...(operations.addTagIds ?? []), ...(operations.removeTagIds ?? [])])];
+    const [members, tags, linkedStory] = await Promise.all([
+      memberIds.length > 0
+        ? prisma.boardMember.findMany({
+            where: { boardId, userId: { in: memberIds } },
+            select: { user: { select: { id: true, name: true } } },
+          })
+        : [],
+      // Global tags, or tags of the studio the board's team belongs to
+      prisma.tag.findMany({
+        where: {
+          id: { in: requestedTagIds },
+          OR: [{ studioId: null }, { studio: { teams: { some: { boards: { some: { id: boardId } } } } } }],
+        },
+        select: { id: true, name: true },
+      }),
+      operations.linkedUserStoryId
+        ? prisma.card.findFirst({
+            where: { id: operations.linkedUserStoryId, type: 'USER_STORY', list: { boardId } },
+            select: { id: true },
+          })
+        : null,
+    ]);
+
+    if (operations.assignUserId && !members.some(({ user }) => user.id === operations.assignUserId)) {
+      return ApiErrors.validation('User is not a member of this board');
+    }
+    if (tags.length !== requestedTagIds.length) {
+      return ApiErrors.validation('One or more tags do not exist or belong to another studio');
+    }
+    if (operations.linkedUserStoryId && !linkedStory) {
+      return ApiErrors.notFound('User story');
+    }
+
+    const now = new Date();
+    const taskListIds = new Set(lists.filter((list) => list.viewType === 'TASKS').map((list) => list.id));
+    const backlogList = lists.find((list) => list.viewType === 'TASKS' && list.phase === 'BACKLOG');
+    const plans = new Map<string, BulkCardPlan>(
+      cards.map((card) => [
+        card.id,
+        planBulkCardChange(card, operations, {
+          now,
+          taskListIds,
+          defaultReleaseTargetListId: backlogList?.id ?? null,
+          stagingList,
+          calendar,
+        }),
+      ])
+    );
+
+    // Assigning a task replaces its assignee, so WIP counts use the new one
+    const assigneesAfter = (card: (typeof cards)[number]) => {
+      let userIds = card.assignees.map((assignee) => assignee.userId);
+      if (operations.unassignUserId) userIds = userIds.filter((id) => id !== operations.unassignUserId);
+      if (operations.assignUserId) {
+        userIds = card.type === 'TASK'
+          ? [operations.assignUserId]
+          : [...new Set([...userIds, operations.assignUserId])];
+      }
+      return userIds;
+    };
+
+    const moves = cards
+      .map((card) => ({ card, toListId: plans.get(card.id)?.listId }))
+      .filter((move): move is { card: (typeof cards)[number]; toListId: string } => !!move.toListId);
+    const movesByList = new Map<string, typeof moves>();
+    for (const move of moves) {
+      movesByList.set(move.toListId, [...(movesByList.get(move.toListId) ?? []), move]);
+    }
+
+    // Same board rules as a single drag: warn, or refuse the whole batch when enforced
+    const warnings: string[] = [];
+    if (moves.length > 0) {
+      const startingMoves = moves.filter(({ card, toListId }) => {
+        const fromList = listById.get(card.listId);
+        const toList = listById.get(toListId);
+        return card.type === 'TASK' && fromList && toList && isStartedList(toList) && !isStartedList(fromList);
+      });
+      const [blockers, wipChecks] = await Promise.all([
+        Promise.all(startingMoves.map(({ card }) => findBlockingPredecessor(boardId, card.id))),
+        Promise.all([...movesByList].map(([listId, listMoves]) => checkWipLimits({
+          listId,
+          cardIds: listMoves.map(({ card }) => card.id),
+          assigneeIds: listMoves.flatMap(({ card }) => assigneesAfter(card)),
+        }))),
+      ]);
+
+      const blockerMessages = blockers.filter((blocker) => !!blocker).map(describeDependencyBlocker);
+      if (blockerMessages.length > 0) {
+        if (getDependencyEnforcement(board.settings) === 'block') {
+          return ApiErrors.conflict(`${blockerMessages.join('. ')}. Finish them first.`);
+        }
+        warnings.push(...blockerMessages);
+      }
+      const wipMessages = wipChecks.filter((check) => !!check).map(describeWipViolations);
+      if (wipMessages.length > 0) {
+        if (getWipLimitEnforcement(board.settings) === 'block') {
+          return ApiErrors.conflict(wipMessages.join(' '));
+        }
+        warnings.push(...wipMessages);
+      }
+    }
+
+    const cardIdsWhere = { cardId: { in: cardIds } };
+    const taskIds = cards.filter((card) => card.type === 'TASK').map((card) => card.id);
+
+    await prisma.$transaction(async (tx) => {
+      if (operations.archive) {
+        await tx.card.updateMany({
+          where: { id: { in: cardIds } },
+          data: { archivedAt: now },
+        });
+        for (const cardId of cardIds) {
+          await closeAndLockCardReviewCycles(tx, cardId);
+        }
+        return;
+      }
+
+      // Assignees and tags first, so preview assignments made here activate with the move
+      if (operations.unassignUserId) {
+        await tx.cardUser.deleteMany({ where: { ...cardIdsWhere, userId: operations.unassignUserId } });
+      }
+      if (operations.assignUserId) {
+        await tx.cardUser.deleteMany({
+          where: { cardId: { in: taskIds }, userId: { not: operations.assignUserId } },
+        });
+        await tx.cardUser.createMany({
+          data: cardIds.map((cardId) => ({ cardId, userId: operations.assignUserId! })),
+          skipDuplicates: true,
+        });
+      }
+      if (operations.removeTagIds) {
+        await tx.cardTag.deleteMany({ where: { ...cardIdsWhere, tagId: { in: operations.removeTagIds } } });
+      }
+      if (operations.addTagIds) {
+        await tx.cardTag.createMany({
+          data: cardIds.flatMap((cardId) => operations.addTagIds!.map((tagId) => ({ cardId, tagId }))),
+          skipDuplicates: true,
+        });
+      }
+
+      // Moved cards go to the bottom of their new list, in their current order
+      const nextPosition = new Map<string, number>();
+      for (const listId of movesByList.keys()) {
+        const last = await tx.card.aggregate({
+          where: { listId, archivedAt: null },
+          _max: { position: true },
+        });
+        nextPosition.set(listId, (last._max.position ?? -1) + 1);
+      }
+
+      for (const card of cards) {
+        const plan = plans.get(card.id);
+        if (!plan?.listId && !plan?.taskData) continue;
+
+        const data: Prisma.CardUncheckedUpdateInput = {};
+        if (plan.taskData) data.taskData = plan.taskData as Prisma.InputJsonValue;
+        if (plan.listId) {
+          const position = nextPosition.get(plan.listId)!;
+          nextPosition.set(plan.listId, position + 1);
+          data.listId = plan.listId;
+          data.position = position;
+        }
+        await tx.card.update({ where: { id: card.id }, data });
+      }
+
+      for (const { card, toListId } of moves) {
+        const fromList = listById.get(card.listId)!;
+        const toList = listById.get(toListId)!;
+        if (fromList.viewType === 'PLANNING' && toList.viewType === 'TASKS') {
+          await tx.cardUser.updateMany({
+            where: { cardId: card.id, activatedAt: null },
+            data: { activatedAt: now },
+          });
+        }
+        await handleCardListTransition(tx, {
+          cardId: card.id,
+          fromList,
+          toList,
+          boardSettings: board.settings,
+          now,
+        });
+      }
+
+      // Close the gaps the moved cards left behind
+      const sourceListIds = [...new Set(moves.map(({ card }) => card.listId))];
+      for (const listId of sourceListIds) {
+        const remaining = await tx.card.findMany({
+          where: { listId },
+          orderBy: { position: 'asc' },
+          select: { id: true, position: true },
+        });
+        for (const [index, remainingCard] of remaining.entries()) {
+          if (remainingCard.position !== index) {
+            await tx.card.update({ where: { id: remainingCard.id }, data: { position: index } });
+          }
+        }
+      }
+    }, { timeout: 30000 });
+
+    // Activity and webhooks, per card, mirroring the single-card routes
+    const userId = session.user.id;
+    const activityEntries: RecordActivityParams[] = [];
+    const webhookEvents: QueuedWebhookEvent[] = [];
+    const updatedCardIds = new Set<string>();
+    const memberName = (id: string) => members.find(({ user }) => user.id === id)?.user.name ?? null;
+    const tagName = (id: string) => tags.find((tag) => tag.id === id)?.name ?? id;
+
+    for (const card of cards) {
+      const entry = { boardId, userId, entity: 'card' as const, entityId: card.id };
+      const webhookCard = { id: card.id, title: card.title, type: card.type };
+
+      if (operations.archive) {
+        activityEntries.push({ ...entry, action: 'archived', data: { cardTitle: card.title } });
+        webhookEvents.push({ event: 'card.deleted', data: { card: webhookCard } });
+        updatedCardIds.add(card.id);
+        continue;
+      }
+
+      const plan = plans.get(card.id);
+      const fieldChanges = plan?.taskData ? diffCardChanges(card, { taskData: plan.taskData }) : [];
+      if (fieldChanges.length > 0) {
+        activityEntries.push({ ...entry, action: 'updated', data: { cardTitle: card.title, changes: fieldChanges } });
+        webhookEvents.push({ event: 'card.updated', data: { card: webhookCard, changes: fieldChanges } });
+        updatedCardIds.add(card.id);
+      }
+
+      if (plan?.listId) {
+        const fromList = listById.get(card.listId)!;
+        const toList = listById.get(plan.listId)!;
+        activityEntries.push({
+          ...entry,
+          action: 'moved',
+          data: {
+            cardTitle: card.title,
+            fromListId: fromList.id,
+            fromListName: fromList.name,
+            toListId: toList.id,
+            toListName: toList.name,
+          },
+        });
+        webhookEvents.push(...cardMovedWebhookEvents({ card: webhookCard, fromList, toList }));
+        updatedCardIds.add(card.id);
+      }
+
+      const before = card.assignees.map((assignee) => assignee.userId);
+      const after = assigneesAfter(card);
+      for (const removedId of before.filter((id) => !after.includes(id))) {
+        activityEntries.push({
+          ...entry,
+          action: 'assignee_removed',
+          data: { assigneeId: removedId, assigneeName: memberName(removedId) },
+        });
+        updatedCardIds.add(card.id);
+      }
+      for (const addedId of after.filter((id) => !before.includes(id))) {
+        activityEntries.push({
+          ...entry,
+          action: 'assignee_added',
+          data: { assigneeId: addedId, assigneeName: memberName(addedId) },
+        });
+        updatedCardIds.add(card.id);
+      }
+
+      const tagIds = card.tags.map((tag) => tag.tagId);
+      const added = (operations.addTagIds ?? []).filter((id) => !tagIds.includes(id));
+      const removed = (operations.removeTagIds ?? []).filter((id) => tagIds.includes(id));
+      if (added.length > 0 || removed.length > 0) {
+        activityEntries.push({
+          ...entry,
+          action: 'tags_updated',
+          data: { cardTitle: card.title, added: added.map(tagName), removed: removed.map(tagName) },
+        });
+        updatedCardIds.add(card.id);
+      }
+    }
+    await recordActivities(activityEntries);
+    await queueWebhookEvents({ boardId, actorId: userId, events: webhookEvents });
+
+    let automationsRun = 0;
+    for (const { card, toListId } of moves) {
+      const fromList = listById.get(card.listId)!;
+      const toList = listById.get(toListId)!;
+      const wasInProgress = isInProgressList(fromList.name);
+      const isNowInProgress = isInProgressList(toList.name);
+      if (wasInProgress || isNowInProgress) {
+        await syncTimeTrackingForMove({
+          cardId: card.id,
+          userId,
+          destListId: toList.id,
+          wasInProgress,
+          isNowInProgress,
+        });
+      }
+
+      const runs = await runAutomations({
+        boardId,
+        event: { type: 'card_entered_list', cardId: card.id, listId: toList.id },
+        actorId: userId,
+      });
+      automationsRun += runs.length;
+    }
+
+    const enteredReview = moves.filter(({ card, toListId }) =>
+      isReviewListName(listById.get(toListId)!.name) && !isReviewListName(listById.get(card.listId)!.name)
+    );
+    if (enteredReview.length > 0) {
+      // Fire-and-forget: one summary per approver rather than one per card
+      void notifyApproversOfReviews({
+        boardId,
+        boardName: board.name,
+        settings: (board.settings || {}) as BoardSettings,
+        cards: enteredReview.map(({ card }) => ({ id: card.id, title: card.title })),
+      });
+    }
+
+    if (updatedCardIds.size > 0) {
+      await publishBoardEvent(boardId, { type: 'board.changed' }, userId);
+    }
+
+    return apiSuccess({
+      updated: updatedCardIds.size,
+      skipped: cardIds.filter((id) => !updatedCardIds.has(id)),
+      warnings,
+      automationsRun,
+    });
+  } catch (error) {
+    console.error('Failed to update cards:', error);
+    return ApiErrors.internal('Failed to update cards');
+  }
+}
+
+async function notifyApproversOfReviews({
+  boardId,
+  boardName,
+  settings,
+  cards,
+}: {
+  boardId: string;
+  boardName: string;
+  settings: BoardSettings;
+  cards: { id: string; title: string }[];
+}) {
+  try {
+    const approvers = resolveApprovers(settings.projectRoleAssignments || []);
+    if (approvers.length === 0) return;
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...new Set(approvers.map((approver) => approver.userId))] } },
+      select: { id: true, slackUserId: true },
+    });
+    const userMap = new Map(users.map((user) => [user.id, user]));
+    const message = cards.length === 1
+      ? `Task "${cards[0].title}" is ready for your review on ${boardName}`
+      : `${cards.length} tasks are ready for your review on ${boardName}`;
+
+    for (const approver of approvers) {
+      const user = userMap.get(approver.userId);
+      if (!user) continue;
+
+      await createNotificationWithSlackDM({
+        userId: approver.userId,
+        type: 'review_requested',
+        title: `Review requested (${approver.roleName})`,
+        message,
+        data: cards.length === 1
+          ? { boardId, cardId: cards[0].id, cardTitle: cards[0].title }
+          : { boardId, cardIds: cards.map((card) => card.id) },
+        slackUserId: user.slackUserId,
+      });
+    }
+  } catch (err) {
+    console.error('Failed to send review notifications:', err);
+  }
+}
@@ -5,92 +5,23 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
-import { handleCardListTransition } from '@/lib/quality-review';
+import { handleCardListTransition, isInProgressList } from '@/lib/quality-review';
 import { createNotificationWithSlackDM } from '@/lib/notifications';
 import { resolveApprovers } from '@/lib/role-utils';
+import { recordActivity } from '@/lib/activity';
+import { runAutomations } from '@/lib/automation';
+import { emitCardMovedWebhooks } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+import {
+  describeDependencyBlocker,
+  findBlockingPredecessor,
+  getDependencyEnforcement,
+  isStartedList,
+} from '@/lib/task-dependencies';
+import { checkWipLimits, describeWipViolations, getWipLimitEnforcement } from '@/lib/wip-limits';
+import { syncTimeTrackingForMove } from '@/lib/time-tracking';
 import type { BoardSettings } from '@/types';
 
-function isServerlessRuntime(): boolean {
-  return Boolean(
-    process.env.VERCEL
-      || process.env.AWS_LAMBDA_FUNCTION_NAME
-      || process.env.NETLIFY
-      || process.env.CF_PAGES
-  );
-}
-
-// Helper to check if a list is an "in progress" list (for time tracking)
-function isInProgressList(listName: string): boolean {
-  const lowerName = listName.toLowerCase();
-  return (
-    lowerName.includes('in progress') ||
-    lowerName.includes('in-progress') ||
-    lowerName.includes('doing') ||
-    lowerName.includes('working') ||
-    lowerName === 'wip'
-  );
-}
-
-interface TimeTrackingSyncParams {
-  cardId: string;
-  userId: string;
-  destListId: string;
-  wasInProgress: boolean;
-  isNowInProgress: boolean;
-}
-
-async function syncTimeTrackingForMove({
-  cardId,
-  userId,
-  destListId,
-  wasInProgress,
-  isNowInProgress,
-}: TimeTrackingSyncParams): Promise<void> {
-  try {
-    if (wasInProgress && !isNowInProgress) {
-      // Card LEFT "In Progress" - stop any active time log
-      const activeLog = await prisma.timeLog.findFirst({
-        where: { cardId, userId, endTime: null },
-      });
-
-      if (activeLog) {
-        const endTime = new Date();
-        const durationMs = endTime.getTime() - new Date(activeLog.startTime).getTime();
-        await prisma.timeLog.update({
-          where: { id: activeLog.id },
-          data: { endTime, durationMs },
-        });
-      }
-      return;
-    }
-
-    if (!wasInProgress && isNowInProgress) {
-      // Card ENTERED "In Progress" - start a new time log
-      const card = await prisma.card.findUnique({
-        where: { id: cardId },
-        include: { assignees: { select: { userId: true } } },
-      });
-
-      const isAssigned = card?.assignees.some((a) => a.userId === userId);
-
-      if (isAssigned || !card?.assignees.length) {
-        // Close any existing open logs first
-        await prisma.timeLog.updateMany({
-          where: { cardId, userId, endTime: null },
-          data: { endTime: new Date() },
-        });
-
-        await prisma.timeLog.create({
-          data: { cardId, userId, listId: destListId, startTime: new Date() },
-        });
-      }
-    }
-  } catch (err) {
-    // Time tracking should never fail the reorder flow.
-    console.error('Failed to update time tracking:', err);
-  }
-}
-
 // POST /api/boards/[boardId]/cards/reorder - Reorder cards (for drag-drop)
 export async function POST(
   request: Request,
@@ -126,6 +57,8 @@ export async function POST(
       select: {
         id: true,
         listId: true,
+        title: true,
+        type: true,
       },
     });
 
@@ -164,6 +97,43 @@ export async function POST(
     const wasInProgress = sourceList && isInProgressList(sourceList.name);
     const isNowInProgress = destList && isInProgressList(destList.name);
 
+    // Board rules for cross-list moves: each either adds a warning or, when the
+    // board enforces it, refuses the move.
+    const warnings: string[] = [];
+    if (resolvedSourceListId !== destinationListId && sourceList && destList) {
+      const [blocker, wipCheck] = await Promise.all([
+        isStartedList(destList) && !isStartedList(sourceList)
+          ? findBlockingPredecessor(boardId, cardId)
+          : null,
+        prisma.cardUser
+          .findMany({ where: { cardId }, select: { userId: true } })
+          .then((assignees) => checkWipLimits({
+            listId: destinationListId,
+            cardId,
+            assigneeIds: assignees.map((assignee) => assignee.userId),
+          })),
+      ]);
+
+      if (blocker || wipCheck) {
+        const board = await prisma.board.findUnique({
+          where: { id: boardId },
+          select: { settings: true },
+        });
+        if (blocker) {
+          if (getDependencyEnforcement(board?.settings) === 'block') {
+            return ApiErrors.conflict(`${describeDependencyBlocker(blocker)}. Finish it first.`);
+          }
+          warnings.push(describeDependencyBlocker(blocker));
+        }
+        if (wipCheck) {
+          if (getWipLimitEnforcement(board?.settings) === 'block') {
+            return ApiErrors.conflict(describeWipViolations(wipCheck));
+          }
+          warnings.push(describeWipViolations(wipCheck));
+        }
+      }
+    }
+
     // Use a transaction to update positions (timeout increased: card moves + position cleanup + review cycle transitions)
     await prisma.$transaction(async (tx) => {
       const currentCard = await tx.card.findFirst({
@@ -268,29 +238,59 @@ export async function POST(
       }
     }, { timeout: 15000 });
 
-    // Time tracking consistency matters for reporting. On serverless runtimes we
-    // await completion to avoid dropped post-response work; long-lived runtimes
-    // still run it in the background to keep drag-drop snappy.
-    if (
-      resolvedSourceListId !== destinationListId
-      && (wasInProgress || isNowInProgress)
-      && destList
-    ) {
-      const syncTimeTrackingPromise = syncTimeTrackingForMove({
-        cardId,
+    let automationsRun = 0;
+    if (resolvedSourceListId !== destinationListId && sourceList && destList) {
+      await recordActivity({
+        boardId,
         userId: session.user.id,
-        destListId: destList.id,
-        wasInProgress: Boolean(wasInProgress),
-        isNowInProgress: Boolean(isNowInProgress),
+        action: 'moved',
+        entity: 'card',
+        entityId: cardId,
+        data: {
+          cardTitle: movingCard.title,
+          fromListId: sourceList.id,
+          fromListName: sourceList.name,
+          toListId: destList.id,
+          toListName: destList.name,
+        },
       });
 
-      if (isServerlessRuntime()) {
-        await syncTimeTrackingPromise;
-      } else {
-        void syncTimeTrackingPromise;
+      await emitCardMovedWebhooks({
+        boardId,
+        actorId: session.user.id,
+        card: { id: cardId, title: movingCard.title, type: movingCard.type },
+        fromList: sourceList,
+        toList: destList,
+      });
+
+      // Sync the user's own move first: rules may move the card on again, and their
+      // moves sync time tracking in turn
+      if (wasInProgress || isNowInProgress) {
+        await syncTimeTrackingForMove({
+          cardId,
+          userId: session.user.id,
+          destListId: destList.id,
+          wasInProgress: Boolean(wasInProgress),
+          isNowInProgress: Boolean(isNowInProgress),
+        });
       }
+
+      const automationRuns = await runAutomations({
+        boardId,
+        event: { type: 'card_entered_list', cardId, listId: destList.id },
+        actorId: session.user.id,
+      });
+      automationsRun = automationRuns.length;
     }
 
+    await publishBoardEvent(boardId, automationsRun > 0 ? { type: 'board.changed' } : {
+      type: 'card.moved',
+      cardId,
+      fromListId: resolvedSourceListId,
+      toListId: destinationListId,
+      position: newPosition,
+    }, session.user.id);
+
     // Notify PO/Lead when a task enters a review list
     if (resolvedSourceListId !== destinationListId && destList) {
       const isReviewDest = destList.name.toLowerCase().includes('review');
@@ -338,7 +338,7 @@ export async function POST(
       }
     }
 
-    return apiSuccess(null);
+    return apiSuccess({ warnings, automationsRun });
   } catch (error) {
     const detail = error instanceof Error ? error.message : String(error);
     console.error('Failed to reorder cards:', detail, error);
@@ -5,6 +5,12 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { emitWebhookEvent, toWebhookCard } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+import { getPreviousFriday } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
+import { checkWipLimits, describeWipViolations, getWipLimitEnforcement } from '@/lib/wip-limits';
 import type { CardType, TaskReleaseMode } from '@/types';
 
 // Validation constants
@@ -13,15 +19,6 @@ const MAX_DESCRIPTION_LENGTH = 10000;
 const VALID_CARD_TYPES: CardType[] = ['TASK', 'USER_STORY', 'EPIC', 'UTILITY'];
 const VALID_TASK_DESTINATION_MODES: TaskReleaseMode[] = ['IMMEDIATE', 'STAGED'];
 
-function getPreviousFriday(date: Date): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() - 1);
-  while (result.getDay() !== 5) {
-    result.setDate(result.getDate() - 1);
-  }
-  return result;
-}
-
 // POST /api/boards/[boardId]/cards - Create a new card
 export async function POST(
   request: Request,
@@ -180,7 +177,8 @@ export async function POST(
           return ApiErrors.validation('Cannot stage task: board has no valid Tasks-view target list');
         }
 
-        const scheduledReleaseDate = getPreviousFriday(stagingList.startDate);
+        const calendar = await loadBoardBusinessCalendar(prisma, boardId);
+        const scheduledReleaseDate = getPreviousFriday(stagingList.startDate, calendar);
         targetListId = stagingList.id;
 
         typeData.taskData = {
@@ -240,6 +238,21 @@ export async function POST(
       };
     }
 
+    // Hard WIP limits refuse the card; soft limits only show in the list header
+    const wipCheck = await checkWipLimits({
+      listId: targetListId,
+      assigneeIds: Array.isArray(assigneeIds) ? assigneeIds : [],
+    });
+    if (wipCheck) {
+      const board = await prisma.board.findUnique({
+        where: { id: boardId },
+        select: { settings: true },
+      });
+      if (getWipLimitEnforcement(board?.settings) === 'block') {
+        return ApiErrors.conflict(describeWipViolations(wipCheck));
+      }
+    }
+
     // Get the highest position in the target list
     const lastCard = await prisma.card.findFirst({
       where: { listId: targetListId },
@@ -307,6 +320,23 @@ export async function POST(
       }
     }
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'created',
+      entity: 'card',
+      entityId: card.id,
+      data: { cardTitle: card.title, cardType: card.type, listId: card.list.id, listName: card.list.name },
+    });
+
+    await emitWebhookEvent('card.created', {
+      boardId,
+      actorId: session.user.id,
+      data: { card: toWebhookCard(card) },
+    });
+
+    await publishBoardEvent(boardId, { type: 'card.created', card }, session.user.id);
+
     return apiSuccess(card, 201);
   } catch (error) {
     console.error('Failed to create card:', error);
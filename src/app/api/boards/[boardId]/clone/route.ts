@@ -5,94 +5,14 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import {
+  CREATE_MANY_CHUNK_SIZE,
+  chunkArray,
+  remapTaskData,
+  remapUserStoryData,
+} from '@/lib/board-archive';
 import type { Prisma } from '@prisma/client';
 
-const CREATE_MANY_CHUNK_SIZE = 500;
-
-function chunkArray<T>(items: T[], chunkSize: number): T[][] {
-  if (items.length <= chunkSize) return [items];
-  const chunks: T[][] = [];
-  for (let i = 0; i < items.length; i += chunkSize) {
-    chunks.push(items.slice(i, i + chunkSize));
-  }
-  return chunks;
-}
-
-function asJsonObject(value: Prisma.JsonValue | null | undefined): Record<string, unknown> | null {
-  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
-  return value as Record<string, unknown>;
-}
-
-function remapCardReference(
-  source: Record<string, unknown>,
-  key: string,
-  cardIdMap: Map<string, string>,
-) {
-  const value = source[key];
-  if (typeof value !== 'string' || value.length === 0) {
-    delete source[key];
-    return;
-  }
-  const mapped = cardIdMap.get(value);
-  if (mapped) {
-    source[key] = mapped;
-  } else {
-    delete source[key];
-  }
-}
-
-function remapListReference(
-  source: Record<string, unknown>,
-  key: string,
-  listIdMap: Map<string, string>,
-) {
-  const value = source[key];
-  if (typeof value !== 'string' || value.length === 0) {
-    delete source[key];
-    return;
-  }
-  const mapped = listIdMap.get(value);
-  if (mapped) {
-    source[key] = mapped;
-  } else {
-    delete source[key];
-  }
-}
-
-function remapTaskData(
-  value: Prisma.JsonValue | null | undefined,
-  cardIdMap: Map<string, string>,
-  listIdMap: Map<string, string>,
-): Prisma.InputJsonValue | undefined {
-  const taskData = asJsonObject(value);
-  if (!taskData) {
-    return value ?? undefined;
-  }
-
-  const updated = { ...taskData };
-  remapCardReference(updated, 'linkedUserStoryId', cardIdMap);
-  remapCardReference(updated, 'linkedEpicId', cardIdMap);
-  remapCardReference(updated, 'dependsOnTaskId', cardIdMap);
-  remapListReference(updated, 'stagedFromPlanningListId', listIdMap);
-  remapListReference(updated, 'releaseTargetListId', listIdMap);
-
-  return updated as Prisma.InputJsonValue;
-}
-
-function remapUserStoryData(
-  value: Prisma.JsonValue | null | undefined,
-  cardIdMap: Map<string, string>,
-): Prisma.InputJsonValue | undefined {
-  const userStoryData = asJsonObject(value);
-  if (!userStoryData) {
-    return value ?? undefined;
-  }
-
-  const updated = { ...userStoryData };
-  remapCardReference(updated, 'linkedEpicId', cardIdMap);
-  return updated as Prisma.InputJsonValue;
-}
-
 // POST /api/boards/[boardId]/clone - Clone a board (works with regular boards and templates)
 export async function POST(
   request: Request,
@@ -129,6 +49,8 @@ export async function POST(
             color: true,
             durationWeeks: true,
             durationDays: true,
+            wipLimit: true,
+            wipLimitPerAssignee: true,
             cards: {
               where: { archivedAt: null },
               orderBy: { position: 'asc' },
@@ -267,6 +189,8 @@ export async function POST(
         endDate: null,
         durationWeeks: sourceList.durationWeeks,
         durationDays: sourceList.durationDays,
+        wipLimit: sourceList.wipLimit,
+        wipLimitPerAssignee: sourceList.wipLimitPerAssignee,
       });
 
       for (const sourceCard of sourceList.cards) {
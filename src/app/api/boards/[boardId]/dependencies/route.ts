@@ -0,0 +1,30 @@
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { buildDependencyReport, loadDependencyGraph } from '@/lib/task-dependencies';
+
+// GET /api/boards/[boardId]/dependencies - Critical path and blocked tasks from task dependency chains
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const tasks = await loadDependencyGraph(boardId);
+
+    return apiSuccess(buildDependencyReport(tasks));
+  } catch (error) {
+    console.error('Failed to compute task dependencies:', error);
+    return ApiErrors.internal('Failed to compute task dependencies');
+  }
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from 'node:crypto';
+import { isServerlessRuntime } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  ApiErrors,
+} from '@/lib/api-utils';
+import {
+  announceBoardPresence,
+  getBoardViewers,
+  subscribeToBoardEvents,
+  type BoardTransportMessage,
+} from '@/lib/board-events';
+import type { BoardEventMessage, BoardViewer } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/** Comment line that keeps proxies from closing the stream, and refreshes this viewer's presence. */
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+/** Serverless functions have a hard time limit; close first and let EventSource reconnect. */
+const SERVERLESS_STREAM_LIFETIME_MS = 4 * 60 * 1000;
+const RECONNECT_DELAY_MS = 3000;
+const CLIENT_ID_PATTERN = /^[\w-]{1,64}$/;
+
+// GET /api/boards/[boardId]/events - Server-sent events stream of board changes and presence
+// Supports: ?clientId= (this tab's id; its own changes are not echoed back)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const { searchParams } = new URL(request.url);
+    const requestedClientId = searchParams.get('clientId');
+    const clientId = requestedClientId && CLIENT_ID_PATTERN.test(requestedClientId) ? requestedClientId : null;
+    const connectionId = randomUUID();
+    const viewer: BoardViewer = {
+      id: session.user.id,
+      name: session.user.name ?? null,
+      image: session.user.image ?? null,
+    };
+
+    const encoder = new TextEncoder();
+    let cleanup: (() => void) | null = null;
+
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        let closed = false;
+        const write = (chunk: string) => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(chunk));
+          } catch {
+            close();
+          }
+        };
+        const send = (message: BoardEventMessage | { type: 'presence'; viewers: BoardViewer[] }) => {
+          write(`data: ${JSON.stringify(message)}\n\n`);
+        };
+
+        const unsubscribe = subscribeToBoardEvents((message: BoardTransportMessage) => {
+          if (message.kind === 'presence') {
+            if (message.boardId === boardId) {
+              send({ type: 'presence', viewers: getBoardViewers(boardId) });
+            }
+            return;
+          }
+          if (message.message.boardId !== boardId) return;
+          if (clientId && message.message.clientId === clientId) return;
+          send(message.message);
+        });
+
+        const heartbeat = setInterval(() => {
+          write(': ping\n\n');
+          void announceBoardPresence(boardId, connectionId, viewer);
+        }, HEARTBEAT_INTERVAL_MS);
+
+        const lifetime = isServerlessRuntime()
+          ? setTimeout(() => close(), SERVERLESS_STREAM_LIFETIME_MS)
+          : null;
+
+        function close() {
+          if (closed) return;
+          closed = true;
+          unsubscribe();
+          clearInterval(heartbeat);
+          if (lifetime) clearTimeout(lifetime);
+          request.signal.removeEventListener('abort', close);
+          void announceBoardPresence(boardId, connectionId, null);
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client.
+          }
+        }
+        cleanup = close;
+
+        request.signal.addEventListener('abort', close);
+
+        write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+        // The presence announcement also sends this stream its first viewer list.
+        void announceBoardPresence(boardId, connectionId, viewer);
+      },
+      cancel() {
+        cleanup?.();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error) {
+    console.error('Failed to open board event stream:', error);
+    return ApiErrors.internal('Failed to open board event stream');
+  }
+}
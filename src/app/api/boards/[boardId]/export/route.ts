@@ -0,0 +1,40 @@
+import {
+  requireAuth,
+  requireBoardMember,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { exportBoardArchive } from '@/lib/board-archive';
+
+// GET /api/boards/[boardId]/export - Download the whole board as a portable JSON archive
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const archive = await exportBoardArchive(boardId);
+    if (!archive) {
+      return ApiErrors.notFound('Board');
+    }
+
+    const slug = archive.board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'board';
+    const date = archive.exportedAt.slice(0, 10);
+
+    return new Response(JSON.stringify(archive, null, 2), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${slug}-${date}.fallo.json"`,
+      },
+    });
+  } catch (error) {
+    console.error('Failed to export board:', error);
+    return ApiErrors.internal('Failed to export board');
+  }
+}
@@ -0,0 +1,221 @@
+import { randomUUID } from 'node:crypto';
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import {
+  requireAuth,
+  requireBoardMember,
+  hasPermission,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import type { PermissionLevel } from '@/lib/api-utils';
+import { recordActivities } from '@/lib/activity';
+import { queueWebhookEvents, toWebhookCard } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+import { checkWipLimits, describeWipViolations, getWipLimitEnforcement } from '@/lib/wip-limits';
+import {
+  MAX_CSV_IMPORT_ROWS,
+  parseCsv,
+  parseCsvColumnMapping,
+  planCsvImport,
+  suggestCsvMapping,
+} from '@/lib/csv-import';
+import type { CsvColumnMapping } from '@/lib/csv-import';
+import type { ParseResult } from '@/lib/automation-rules';
+
+/** Cards listed in a dry-run preview; the counts cover the rest. */
+const PREVIEW_ROWS = 100;
+
+// POST /api/boards/[boardId]/import/csv - Create cards from CSV rows (?dryRun=true to preview)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+    const userId = session.user.id;
+
+    const { membership, response: memberResponse } = await requireBoardMember(boardId, userId);
+    if (memberResponse) return memberResponse;
+
+    if (!hasPermission(membership.permission as PermissionLevel, 'MEMBER')) {
+      return ApiErrors.forbidden('Viewers cannot import cards');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === 'true';
+
+    const body = (await request.json()) as Record<string, unknown>;
+    if (typeof body.csv !== 'string' || !body.csv.trim()) {
+      return ApiErrors.validation('csv is required');
+    }
+
+    const [headerRow, ...rows] = parseCsv(body.csv);
+    const headers = (headerRow ?? []).map((header) => header.trim());
+    if (rows.length === 0) {
+      return ApiErrors.validation('The CSV has a header row but no cards');
+    }
+    if (rows.length > MAX_CSV_IMPORT_ROWS) {
+      return ApiErrors.validation(`A CSV import can create at most ${MAX_CSV_IMPORT_ROWS} cards`);
+    }
+
+    // Without a mapping, suggest one from the headers and only preview
+    const mappingResult: ParseResult<CsvColumnMapping> = body.mapping === undefined
+      ? { value: suggestCsvMapping(headers) }
+      : parseCsvColumnMapping(body.mapping, headers);
+    if (mappingResult.error !== undefined) {
+      return ApiErrors.validation(mappingResult.error);
+    }
+    const mapping = mappingResult.value;
+
+    const [board, lists, members, tags] = await Promise.all([
+      prisma.board.findUnique({ where: { id: boardId }, select: { settings: true } }),
+      prisma.list.findMany({
+        where: { boardId },
+        orderBy: { position: 'asc' },
+        select: { id: true, name: true, viewType: true, position: true },
+      }),
+      prisma.boardMember.findMany({
+        where: { boardId },
+        select: { userId: true, user: { select: { email: true, name: true } } },
+      }),
+      prisma.tag.findMany({ where: { studioId: null }, select: { id: true, name: true } }),
+    ]);
+
+    const plan = planCsvImport(rows, headers, mapping, {
+      lists,
+      members: members.map((member) => ({ userId: member.userId, email: member.user.email, name: member.user.name })),
+      tags,
+    });
+
+    // New lists have no limits yet, so only rows landing in existing lists are checked
+    const draftsByList = new Map<string, typeof plan.cards>();
+    for (const draft of plan.cards) {
+      if (draft.listId) draftsByList.set(draft.listId, [...(draftsByList.get(draft.listId) ?? []), draft]);
+    }
+    const wipChecks = await Promise.all([...draftsByList].map(([listId, drafts]) => checkWipLimits({
+      listId,
+      newCards: drafts.length,
+      assigneeIds: drafts.flatMap((draft) => (draft.assigneeId ? [draft.assigneeId] : [])),
+    })));
+    const wipMessages = wipChecks.filter((check) => !!check).map(describeWipViolations);
+    const blockedByWip = wipMessages.length > 0 && getWipLimitEnforcement(board?.settings) === 'block';
+
+    const summary = {
+      headers,
+      mapping,
+      total: rows.length,
+      newLists: plan.newLists,
+      errors: plan.errors,
+      warnings: [
+        ...plan.warnings,
+        ...(blockedByWip ? wipMessages.map((message) => `${message}; the import will be refused`) : wipMessages),
+      ],
+    };
+
+    if (dryRun || body.mapping === undefined) {
+      return apiSuccess({ ...summary, dryRun: true, cards: plan.cards.slice(0, PREVIEW_ROWS), created: 0 });
+    }
+    if (plan.cards.length === 0) {
+      return ApiErrors.validation('No rows can be imported');
+    }
+    if (blockedByWip) {
+      return ApiErrors.conflict(wipMessages.join(' '));
+    }
+
+    const now = new Date();
+    const newListIds = new Map(plan.newLists.map((list) => [list.name, randomUUID()]));
+    const nextPosition = new Map<string, number>();
+
+    const created = await prisma.$transaction(async (tx) => {
+      let listPosition = (lists[lists.length - 1]?.position ?? -1) + 1;
+      for (const list of plan.newLists) {
+        await tx.list.create({
+          data: { id: newListIds.get(list.name)!, boardId, name: list.name, viewType: list.viewType, position: listPosition++ },
+        });
+      }
+
+      const cardRows: Prisma.CardCreateManyInput[] = [];
+      const assigneeRows: Prisma.CardUserCreateManyInput[] = [];
+      const tagRows: Prisma.CardTagCreateManyInput[] = [];
+      const createdCards: { id: string; title: string; type: string; list: { id: string; name: string } }[] = [];
+
+      for (const draft of plan.cards) {
+        const listId = draft.listId ?? newListIds.get(draft.listName)!;
+        if (!nextPosition.has(listId)) {
+          const last = await tx.card.aggregate({ where: { listId, archivedAt: null }, _max: { position: true } });
+          nextPosition.set(listId, (last._max.position ?? -1) + 1);
+        }
+        const position = nextPosition.get(listId)!;
+        nextPosition.set(listId, position + 1);
+
+        const id = randomUUID();
+        cardRows.push({
+          id,
+          listId,
+          type: draft.type,
+          title: draft.title,
+          description: draft.description,
+          position,
+          ...(draft.type === 'TASK' && {
+            taskData: {
+              storyPoints: draft.storyPoints,
+              deadline: draft.deadline,
+              linkedUserStoryId: null,
+              linkedEpicId: null,
+              releaseMode: 'IMMEDIATE',
+              releaseTargetListId: listId,
+              stagedFromPlanningListId: null,
+              scheduledReleaseDate: null,
+              releasedAt: now.toISOString(),
+            },
+          }),
+          ...(draft.type === 'USER_STORY' && { userStoryData: { linkedEpicId: null, flags: [] } }),
+          ...(draft.type === 'EPIC' && { epicData: {} }),
+          ...(draft.type === 'UTILITY' && { utilityData: { subtype: 'NOTE', content: draft.description ?? '' } }),
+        });
+        if (draft.assigneeId) {
+          assigneeRows.push({ cardId: id, userId: draft.assigneeId, assignedAt: now, activatedAt: now });
+        }
+        tagRows.push(...draft.tagIds.map((tagId) => ({ cardId: id, tagId })));
+        createdCards.push({
+          id,
+          title: draft.title,
+          type: draft.type,
+          list: { id: listId, name: draft.listName },
+        });
+      }
+
+      await tx.card.createMany({ data: cardRows });
+      if (assigneeRows.length > 0) await tx.cardUser.createMany({ data: assigneeRows, skipDuplicates: true });
+      if (tagRows.length > 0) await tx.cardTag.createMany({ data: tagRows, skipDuplicates: true });
+
+      return createdCards;
+    }, { timeout: 60000 });
+
+    await recordActivities(created.map((card) => ({
+      boardId,
+      userId,
+      action: 'created',
+      entity: 'card',
+      entityId: card.id,
+      data: { cardTitle: card.title, cardType: card.type, listId: card.list.id, listName: card.list.name, source: 'csv' },
+    })));
+
+    await queueWebhookEvents({
+      boardId,
+      actorId: userId,
+      events: created.map((card) => ({ event: 'card.created', data: { card: toWebhookCard(card) } })),
+    });
+
+    await publishBoardEvent(boardId, { type: 'board.changed' }, userId);
+
+    return apiSuccess({ ...summary, dryRun: false, cards: [], created: created.length }, 201);
+  } catch (error) {
+    console.error('Failed to import CSV:', error);
+    return ApiErrors.internal('Failed to import CSV');
+  }
+}
@@ -7,6 +7,13 @@ import {
   ApiErrors,
 } from '@/lib/api-utils';
 import { isValidPhase } from '@/lib/constants';
+import { diffFields, recordActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/board-events';
+import { parseWipLimit } from '@/lib/wip-limits';
+
+const TRACKED_LIST_FIELDS = [
+  'name', 'color', 'phase', 'durationWeeks', 'durationDays', 'startDate', 'endDate', 'wipLimit', 'wipLimitPerAssignee',
+] as const;
 
 // PATCH /api/boards/[boardId]/lists/[listId] - Update list
 export async function PATCH(
@@ -23,13 +30,26 @@ export async function PATCH(
     if (memberResponse) return memberResponse;
 
     const body = await request.json();
-    const { name, position, color, phase, durationWeeks, durationDays, startDate, endDate } = body;
+    const { name, position, color, phase, durationWeeks, durationDays, startDate, endDate, wipLimit, wipLimitPerAssignee } = body;
 
     // Validate phase if provided
     const listPhase = phase !== undefined
       ? (typeof phase === 'string' && isValidPhase(phase) ? phase : null)
       : undefined;
 
+    const parsedWipLimit = wipLimit !== undefined ? parseWipLimit(wipLimit) : undefined;
+    const parsedWipLimitPerAssignee = wipLimitPerAssignee !== undefined ? parseWipLimit(wipLimitPerAssignee) : undefined;
+    if (
+      (wipLimit !== undefined && parsedWipLimit === undefined)
+      || (wipLimitPerAssignee !== undefined && parsedWipLimitPerAssignee === undefined)
+    ) {
+      return ApiErrors.validation('WIP limits must be non-negative whole numbers');
+    }
+
+    const previous = await prisma.list.findFirst({
+      where: { id: listId, boardId },
+    });
+
     const list = await prisma.list.update({
       where: { id: listId, boardId },
       data: {
@@ -41,9 +61,25 @@ export async function PATCH(
         ...(durationDays !== undefined && { durationDays: durationDays || null }),
         ...(startDate !== undefined && { startDate: startDate ? new Date(startDate) : null }),
         ...(endDate !== undefined && { endDate: endDate ? new Date(endDate) : null }),
+        ...(parsedWipLimit !== undefined && { wipLimit: parsedWipLimit }),
+        ...(parsedWipLimitPerAssignee !== undefined && { wipLimitPerAssignee: parsedWipLimitPerAssignee }),
       },
     });
 
+    const changes = previous ? diffFields(previous, list, TRACKED_LIST_FIELDS) : [];
+    if (changes.length > 0) {
+      await recordActivity({
+        boardId,
+        userId: session.user.id,
+        action: 'updated',
+        entity: 'list',
+        entityId: listId,
+        data: { listName: list.name, changes },
+      });
+    }
+
+    await publishBoardEvent(boardId, { type: 'list.updated', list }, session.user.id);
+
     return apiSuccess(list);
   } catch (error) {
     console.error('Failed to update list:', error);
@@ -65,10 +101,30 @@ export async function DELETE(
     const { response: adminResponse } = await requireBoardAdmin(boardId, session.user.id);
     if (adminResponse) return adminResponse;
 
-    await prisma.list.delete({
+    // Undoing a list create must not take cards added since with it
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('onlyIfEmpty') === 'true') {
+      const cardCount = await prisma.card.count({ where: { listId, list: { boardId } } });
+      if (cardCount > 0) {
+        return ApiErrors.conflict('List is not empty');
+      }
+    }
+
+    const list = await prisma.list.delete({
       where: { id: listId, boardId },
     });
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'deleted',
+      entity: 'list',
+      entityId: listId,
+      data: { listName: list.name, viewType: list.viewType },
+    });
+
+    await publishBoardEvent(boardId, { type: 'list.deleted', listId }, session.user.id);
+
     return apiSuccess(null);
   } catch (error) {
     console.error('Failed to delete list:', error);
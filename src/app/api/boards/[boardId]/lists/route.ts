@@ -5,6 +5,8 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
+import { publishBoardEvent } from '@/lib/board-events';
 import { isValidPhase, PHASE_SEARCH_TERMS } from '@/lib/constants';
 import { getFriday, getMonday } from '@/lib/date-utils';
 
@@ -180,15 +182,28 @@ export async function POST(
       }
     }
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'created',
+      entity: 'list',
+      entityId: list.id,
+      data: { listName: list.name, viewType: list.viewType },
+    });
+
     // Return list with timeline block info
-    return apiSuccess({
+    const createdList = {
       ...list,
       timelineBlockId: timelineBlock?.id || null,
       timelineBlock: timelineBlock ? {
         id: timelineBlock.id,
         blockType: timelineBlock.blockType,
       } : null,
-    }, 201);
+    };
+
+    await publishBoardEvent(boardId, { type: 'list.created', list: createdList }, session.user.id);
+
+    return apiSuccess(createdList, 201);
   } catch (error) {
     console.error('Failed to create list:', error);
     return ApiErrors.internal('Failed to create list');
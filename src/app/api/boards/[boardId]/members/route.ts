@@ -7,6 +7,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { emitWebhookEvent } from '@/lib/webhooks';
 import type { UserPermission } from '@/types';
 
 interface RouteContext {
@@ -120,6 +121,19 @@ export async function POST(request: NextRequest, context: RouteContext) {
       },
     });
 
+    await emitWebhookEvent('member.added', {
+      boardId,
+      actorId: session.user.id,
+      data: {
+        member: {
+          userId: member.user.id,
+          name: member.user.name,
+          email: member.user.email,
+          permission: member.permission,
+        },
+      },
+    });
+
     return apiSuccess(member, 201);
   } catch (error) {
     console.error('Failed to add member:', error);
@@ -0,0 +1,134 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import {
+  MAX_FLOW_METRICS_DAYS,
+  computeFlowMetrics,
+  type FlowCard,
+  type FlowMove,
+} from '@/lib/flow-metrics';
+
+const DEFAULT_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/boards/[boardId]/metrics - Cumulative flow, cycle/lead time and time per list for tasks
+// Supports: ?days=N (default 30), ?tagId=, ?storyPoints=3,5
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const { searchParams } = new URL(request.url);
+    const days = searchParams.has('days') ? Number(searchParams.get('days')) : DEFAULT_DAYS;
+    if (!Number.isInteger(days) || days < 1 || days > MAX_FLOW_METRICS_DAYS) {
+      return ApiErrors.validation(`days must be a whole number from 1 to ${MAX_FLOW_METRICS_DAYS}`);
+    }
+    const tagId = searchParams.get('tagId')?.trim() || null;
+    const rawPoints = searchParams.get('storyPoints')?.trim();
+    const storyPoints = rawPoints ? rawPoints.split(',').map(Number) : null;
+    if (storyPoints?.some((points) => !Number.isFinite(points))) {
+      return ApiErrors.validation('storyPoints must be a comma-separated list of numbers');
+    }
+
+    const to = new Date();
+    const today = Date.UTC(to.getUTCFullYear(), to.getUTCMonth(), to.getUTCDate());
+    const from = new Date(today - (days - 1) * DAY_MS);
+
+    const [lists, cards] = await Promise.all([
+      prisma.list.findMany({
+        where: { boardId },
+        select: { id: true, name: true, position: true, viewType: true, phase: true, color: true },
+      }),
+      // Cards archived before the range only show up through a completion inside it
+      prisma.card.findMany({
+        where: {
+          list: { boardId },
+          type: 'TASK',
+          createdAt: { lte: to },
+          OR: [{ archivedAt: null }, { archivedAt: { gte: from } }, { completedAt: { gte: from } }],
+        },
+        select: {
+          id: true,
+          title: true,
+          listId: true,
+          taskData: true,
+          createdAt: true,
+          completedAt: true,
+          archivedAt: true,
+          tags: { select: { tag: { select: { id: true, name: true } } } },
+        },
+      }),
+    ]);
+
+    const cardIds = cards.map((card) => card.id);
+    const [moveActivities, timeLogs] = await Promise.all([
+      prisma.activity.findMany({
+        where: { boardId, entity: 'card', action: 'moved', entityId: { in: cardIds } },
+        select: { entityId: true, data: true, createdAt: true },
+      }),
+      prisma.timeLog.findMany({
+        where: { cardId: { in: cardIds } },
+        select: { cardId: true, listId: true, startTime: true, endTime: true },
+      }),
+    ]);
+
+    const flowCards: FlowCard[] = cards.map((card) => {
+      const taskData = card.taskData as { storyPoints?: number | null } | null;
+      return {
+        id: card.id,
+        title: card.title,
+        listId: card.listId,
+        storyPoints: taskData?.storyPoints ?? null,
+        tagIds: card.tags.map(({ tag }) => tag.id),
+        createdAt: card.createdAt,
+        completedAt: card.completedAt,
+        archivedAt: card.archivedAt,
+      };
+    });
+
+    const moves: FlowMove[] = [];
+    for (const activity of moveActivities) {
+      const data = activity.data as { fromListId?: string; toListId?: string } | null;
+      if (data?.fromListId && data.toListId) {
+        moves.push({ cardId: activity.entityId, fromListId: data.fromListId, toListId: data.toListId, at: activity.createdAt });
+      }
+    }
+
+    const metrics = computeFlowMetrics({
+      lists,
+      cards: flowCards,
+      moves,
+      timeLogs,
+      from,
+      to,
+      now: to,
+      filters: { tagId, storyPoints },
+    });
+
+    // Filter choices come from the unfiltered cards, so picking one does not hide the others
+    const tags = new Map(cards.flatMap((card) => card.tags.map(({ tag }) => [tag.id, tag.name] as const)));
+
+    return apiSuccess({
+      ...metrics,
+      filters: {
+        tags: [...tags].map(([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name)),
+        storyPoints: [...new Set(flowCards.flatMap((card) => (card.storyPoints === null ? [] : [card.storyPoints])))].sort((a, b) => a - b),
+      },
+    });
+  } catch (error) {
+    console.error('Failed to load board metrics:', error);
+    return ApiErrors.internal('Failed to load board metrics');
+  }
+}
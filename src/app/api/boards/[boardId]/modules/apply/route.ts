@@ -6,6 +6,12 @@ import {
   ApiErrors,
 } from '@/lib/api-utils';
 import { normalizeModuleTaskTemplates } from '@/lib/modules';
+import { recordActivities } from '@/lib/activity';
+import { runAutomations } from '@/lib/automation';
+import { emitWebhookEvent, toWebhookCard } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+import { getPreviousFriday } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
 
 interface ApplyTaskOverride {
   taskTemplateId: string;
@@ -17,15 +23,6 @@ interface ApplyTaskOverride {
   previewAssignedUserIds?: string[]; // Preview user assignments
 }
 
-function getPreviousFriday(date: Date): Date {
-  const result = new Date(date);
-  result.setDate(result.getDate() - 1);
-  while (result.getDay() !== 5) {
-    result.setDate(result.getDate() - 1);
-  }
-  return result;
-}
-
 export async function POST(
   request: Request,
   { params }: { params: Promise<{ boardId: string }> }
@@ -236,6 +233,8 @@ export async function POST(
     listIdsNeedingPosition.forEach((listId) => nextPositionByList.set(listId, 0));
     maxPositions.forEach((row) => nextPositionByList.set(row.listId, (row._max.position ?? -1) + 1));
 
+    const calendar = await loadBoardBusinessCalendar(prisma, boardId);
+
     const created = await prisma.$transaction(async (tx) => {
       let epicId = epic?.id;
 
@@ -379,7 +378,7 @@ export async function POST(
           throw new Error(`Invalid release target list for ${template.title}`);
         }
 
-        const scheduledReleaseDate = getPreviousFriday(stagingList.startDate);
+        const scheduledReleaseDate = getPreviousFriday(stagingList.startDate, calendar);
         const taskPosition = nextPositionByList.get(stagingPlanningListId) ?? 0;
         nextPositionByList.set(stagingPlanningListId, taskPosition + 1);
 
@@ -478,6 +477,38 @@ export async function POST(
       return createdCards;
     });
 
+    // The epic may already have existed; only log cards this request created.
+    await recordActivities(created.filter((card) => card.id !== epic?.id).map((card) => ({
+      boardId,
+      userId: session.user.id,
+      action: 'created',
+      entity: 'card' as const,
+      entityId: card.id,
+      data: {
+        cardTitle: card.title,
+        cardType: card.type,
+        listId: card.list.id,
+        listName: card.list.name,
+        moduleId: moduleDef.id,
+      },
+    })));
+
+    for (const card of created) {
+      if (card.id === epic?.id) continue;
+      await emitWebhookEvent('card.created', {
+        boardId,
+        actorId: session.user.id,
+        data: { card: toWebhookCard(card), moduleId: moduleDef.id },
+      });
+      await runAutomations({
+        boardId,
+        event: { type: 'card_created_from_module', cardId: card.id, moduleId: moduleDef.id },
+        actorId: session.user.id,
+      });
+    }
+
+    await publishBoardEvent(boardId, { type: 'board.changed' }, session.user.id);
+
     return apiSuccess({ created });
   } catch (error) {
     console.error('Failed to apply module:', error);
@@ -8,6 +8,7 @@ import {
   ApiErrors,
 } from '@/lib/api-utils';
 import { setBoardArchivedOnlyAt, setProjectArchivedAt } from '@/lib/project-archive';
+import { emitWebhookEvent } from '@/lib/webhooks';
 
 // GET /api/boards/[boardId] - Get a single board (scope: light | full | project)
 export async function GET(
@@ -186,6 +187,11 @@ export async function GET(
           },
         },
       },
+      tags: {
+        select: {
+          tag: { select: { id: true, name: true, color: true } },
+        },
+      },
       _count: {
         select: {
           attachments: true,
@@ -308,6 +314,8 @@ export async function GET(
               endDate: true,
               durationWeeks: true,
               durationDays: true,
+              wipLimit: true,
+              wipLimitPerAssignee: true,
               createdAt: true,
               updatedAt: true,
               timelineBlock: {
@@ -334,9 +342,12 @@ export async function GET(
       return ApiErrors.notFound('Board');
     }
 
+    // Flatten card tags to { id, name, color }
+    const boardCards = allBoardCards.map(({ tags, ...card }) => ({ ...card, tags: tags.map(({ tag }) => tag) }));
+
     // Group cards by listId and merge into lists
-    const cardsByList = new Map<string, typeof allBoardCards>();
-    for (const card of allBoardCards) {
+    const cardsByList = new Map<string, typeof boardCards>();
+    for (const card of boardCards) {
       const existing = cardsByList.get(card.listId);
       if (existing) {
         existing.push(card);
@@ -517,6 +528,15 @@ export async function PATCH(
       },
     });
 
+    await emitWebhookEvent('board.updated', {
+      boardId,
+      actorId: session.user.id,
+      data: {
+        board: { id: board.id, name: board.name, description: board.description, teamId: board.teamId },
+        changedFields: ['name', 'description', 'settings', 'teamId'].filter((field) => body[field] !== undefined),
+      },
+    });
+
     return apiSuccess(board);
   } catch (error) {
     console.error('Failed to update board:', error);
@@ -0,0 +1,36 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// DELETE /api/boards/[boardId]/timeline/baselines/[baselineId] - Delete a baseline
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string; baselineId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId, baselineId } = await params;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { count } = await prisma.timelineBaseline.deleteMany({
+      where: { id: baselineId, boardId },
+    });
+
+    if (count === 0) {
+      return ApiErrors.notFound('Baseline');
+    }
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to delete timeline baseline:', error);
+    return ApiErrors.internal('Failed to delete timeline baseline');
+  }
+}
@@ -0,0 +1,83 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { captureTimelineBaseline, MAX_BASELINE_NAME_LENGTH } from '@/lib/timeline-baselines';
+
+const BASELINE_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  createdAt: true,
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+// GET /api/boards/[boardId]/timeline/baselines - List a board's baselines, newest first
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const baselines = await prisma.timelineBaseline.findMany({
+      where: { boardId },
+      select: BASELINE_SUMMARY_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiSuccess(baselines);
+  } catch (error) {
+    console.error('Failed to fetch timeline baselines:', error);
+    return ApiErrors.internal('Failed to fetch timeline baselines');
+  }
+}
+
+// POST /api/boards/[boardId]/timeline/baselines - Snapshot the board's current blocks and events
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body?.name === 'string' && body.name.trim()
+      ? body.name.trim()
+      : `Baseline ${new Date().toISOString().slice(0, 10)}`;
+
+    if (name.length > MAX_BASELINE_NAME_LENGTH) {
+      return ApiErrors.validation(`name must be at most ${MAX_BASELINE_NAME_LENGTH} characters`);
+    }
+
+    const created = await captureTimelineBaseline(prisma, boardId, { name, createdById: session.user.id });
+    if (!created) {
+      return ApiErrors.notFound('Board');
+    }
+
+    const baseline = await prisma.timelineBaseline.findUniqueOrThrow({
+      where: { id: created.id },
+      select: BASELINE_SUMMARY_SELECT,
+    });
+
+    return apiSuccess(baseline, 201);
+  } catch (error) {
+    console.error('Failed to capture timeline baseline:', error);
+    return ApiErrors.internal('Failed to capture timeline baseline');
+  }
+}
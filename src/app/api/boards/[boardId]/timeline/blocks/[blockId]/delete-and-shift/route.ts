@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { moveBlockDates } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
 import { renumberTimelineBlockPositions } from '@/lib/timeline-block-position';
 import { ensureTimelineBlockIntegrity } from '@/lib/timeline-block-integrity';
 import {
@@ -8,6 +9,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
 
 // DELETE /api/boards/[boardId]/timeline/blocks/[blockId]/delete-and-shift
 // Deletes a block and shifts all blocks to the right of it left by one week
@@ -31,6 +33,9 @@ export async function DELETE(
         id: blockId,
         boardId,
       },
+      include: {
+        blockType: { select: { name: true } },
+      },
     });
 
     if (!blockToDelete) {
@@ -118,8 +123,9 @@ export async function DELETE(
 
     // Shift all blocks to the left by one week, snapping to Mon-Fri
     if (blocksToShift.length > 0) {
+      const calendar = await loadBoardBusinessCalendar(prisma, boardId);
       const shiftUpdates = blocksToShift.map(async (block) => {
-        const { newStartDate, newEndDate } = moveBlockDates(block.startDate, -1);
+        const { newStartDate, newEndDate } = moveBlockDates(block.startDate, -1, calendar);
 
         // Update the block
         await prisma.timelineBlock.update({
@@ -148,6 +154,20 @@ export async function DELETE(
     await ensureTimelineBlockIntegrity(boardId, { syncToList });
     await renumberTimelineBlockPositions(boardId);
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'deleted',
+      entity: 'timeline_block',
+      entityId: blockId,
+      data: {
+        blockTypeName: blockToDelete.blockType.name,
+        startDate: blockToDelete.startDate.toISOString(),
+        endDate: blockToDelete.endDate.toISOString(),
+        shiftedCount: blocksToShift.length,
+      },
+    });
+
     return apiSuccess({
       deletedBlockId: blockId,
       deletedListId: deleteLinkedList ? linkedListId : null,
@@ -10,6 +10,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { diffFields, recordActivity } from '@/lib/activity';
 
 // GET /api/boards/[boardId]/timeline/blocks/[blockId] - Get a single block
 export async function GET(
@@ -83,6 +84,7 @@ export async function PATCH(
       },
       include: {
         list: true,
+        blockType: { select: { name: true } },
       },
     });
 
@@ -181,6 +183,18 @@ export async function PATCH(
       return ApiErrors.notFound('Block');
     }
 
+    const changes = diffFields(existingBlock, renumberedBlock, ['startDate', 'endDate', 'blockTypeId', 'listId']);
+    if (changes.length > 0) {
+      await recordActivity({
+        boardId,
+        userId: session.user.id,
+        action: 'updated',
+        entity: 'timeline_block',
+        entityId: blockId,
+        data: { blockTypeName: renumberedBlock.blockType.name, changes },
+      });
+    }
+
     return apiSuccess(renumberedBlock);
   } catch (error) {
     console.error('Failed to update timeline block:', error);
@@ -209,6 +223,9 @@ export async function DELETE(
         id: blockId,
         boardId,
       },
+      include: {
+        blockType: { select: { name: true } },
+      },
     });
 
     if (!existingBlock) {
@@ -280,6 +297,19 @@ export async function DELETE(
       });
     }
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'deleted',
+      entity: 'timeline_block',
+      entityId: blockId,
+      data: {
+        blockTypeName: existingBlock.blockType.name,
+        startDate: existingBlock.startDate.toISOString(),
+        endDate: existingBlock.endDate.toISOString(),
+      },
+    });
+
     return apiSuccess({
       deletedBlockId: blockId,
       deletedListId: deleteLinkedList ? linkedListId : null,
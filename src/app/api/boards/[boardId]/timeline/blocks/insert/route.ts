@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { getMonday, getFriday, moveBlockDates } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
 import { renumberTimelineBlockPositions } from '@/lib/timeline-block-position';
 import { ensureTimelineBlockIntegrity } from '@/lib/timeline-block-integrity';
 import {
@@ -8,6 +9,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
 import { getPhaseFromBlockType } from '@/lib/constants';
 
 // POST /api/boards/[boardId]/timeline/blocks/insert
@@ -70,8 +72,9 @@ export async function POST(
     });
 
     // Shift all these blocks to the right by one week, snapping to Mon-Fri
+    const calendar = await loadBoardBusinessCalendar(prisma, boardId);
     const shiftUpdates = blocksToShift.map(async (block) => {
-      const { newStartDate, newEndDate } = moveBlockDates(block.startDate, 1);
+      const { newStartDate, newEndDate } = moveBlockDates(block.startDate, 1, calendar);
 
       // Update the block
       await prisma.timelineBlock.update({
@@ -185,6 +188,20 @@ export async function POST(
       return ApiErrors.notFound('Block');
     }
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'created',
+      entity: 'timeline_block',
+      entityId: renumberedBlock.id,
+      data: {
+        blockTypeName: renumberedBlock.blockType.name,
+        startDate: renumberedBlock.startDate.toISOString(),
+        endDate: renumberedBlock.endDate.toISOString(),
+        shiftedCount: blocksToShift.length,
+      },
+    });
+
     return apiSuccess({
       block: {
         id: renumberedBlock.id,
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { moveBlockDates, addBusinessDays } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
 import { renumberTimelineBlockPositions } from '@/lib/timeline-block-position';
 import { ensureTimelineBlockIntegrity } from '@/lib/timeline-block-integrity';
 import {
@@ -8,6 +9,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivities } from '@/lib/activity';
 
 // POST /api/boards/[boardId]/timeline/blocks/move-group
 // Moves multiple blocks by a number of weeks
@@ -60,13 +62,15 @@ export async function POST(
     }
 
     // Update each block with its specific delta
+    const calendar = await loadBoardBusinessCalendar(prisma, boardId);
     const updates = blocks.map(async (block) => {
       const delta = perBlockDelta.get(block.id) ?? weeksDelta;
 
       // Move dates by weeks, snapping start to Monday
       const { newStartDate, newEndDate } = moveBlockDates(
         block.startDate,
-        delta
+        delta,
+        calendar
       );
 
       // Update the block
@@ -92,7 +96,7 @@ export async function POST(
       return updatedBlock;
     });
 
-    await Promise.all(updates);
+    const updatedBlocks = await Promise.all(updates);
     await ensureTimelineBlockIntegrity(boardId, { syncToList: syncToList === true });
     await renumberTimelineBlockPositions(boardId);
 
@@ -125,6 +129,21 @@ export async function POST(
       movedEventsCount = events.length;
     }
 
+    const previousById = new Map(blocks.map((block) => [block.id, block]));
+    await recordActivities(updatedBlocks.map((block) => ({
+      boardId,
+      userId: session.user.id,
+      action: 'moved',
+      entity: 'timeline_block' as const,
+      entityId: block.id,
+      data: {
+        weeksDelta: perBlockDelta.get(block.id) ?? weeksDelta,
+        fromStartDate: previousById.get(block.id)?.startDate.toISOString() ?? null,
+        startDate: block.startDate.toISOString(),
+        endDate: block.endDate.toISOString(),
+      },
+    })));
+
     return apiSuccess({ movedBlocksCount: blocks.length, movedEventsCount });
   } catch (error) {
     console.error('Failed to move blocks:', error);
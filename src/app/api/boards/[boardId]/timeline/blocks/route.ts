@@ -10,6 +10,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { recordActivity } from '@/lib/activity';
 
 // GET /api/boards/[boardId]/timeline/blocks - Get all blocks for a board
 export async function GET(
@@ -177,6 +178,19 @@ export async function POST(
       return ApiErrors.notFound('Block');
     }
 
+    await recordActivity({
+      boardId,
+      userId: session.user.id,
+      action: 'created',
+      entity: 'timeline_block',
+      entityId: renumberedBlock.id,
+      data: {
+        blockTypeName: renumberedBlock.blockType.name,
+        startDate: renumberedBlock.startDate.toISOString(),
+        endDate: renumberedBlock.endDate.toISOString(),
+      },
+    });
+
     return apiSuccess({
       id: renumberedBlock.id,
       startDate: renumberedBlock.startDate.toISOString(),
@@ -6,6 +6,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { emitWebhookEvent, toWebhookTimelineEvent } from '@/lib/webhooks';
 
 // GET /api/boards/[boardId]/timeline/events/[eventId] - Get a single event
 export async function GET(
@@ -87,6 +88,12 @@ export async function PATCH(
       },
     });
 
+    await emitWebhookEvent('timeline.event.updated', {
+      boardId,
+      actorId: session.user.id,
+      data: { timelineEvent: toWebhookTimelineEvent(event) },
+    });
+
     return apiSuccess(event);
   } catch (error) {
     console.error('Failed to update timeline event:', error);
@@ -125,6 +132,12 @@ export async function DELETE(
       where: { id: eventId },
     });
 
+    await emitWebhookEvent('timeline.event.deleted', {
+      boardId,
+      actorId: session.user.id,
+      data: { timelineEvent: { id: eventId, title: existingEvent.title } },
+    });
+
     return apiSuccess(null);
   } catch (error) {
     console.error('Failed to delete timeline event:', error);
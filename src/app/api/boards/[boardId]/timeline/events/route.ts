@@ -6,6 +6,7 @@ import {
   apiSuccess,
   ApiErrors,
 } from '@/lib/api-utils';
+import { emitWebhookEvent, toWebhookTimelineEvent } from '@/lib/webhooks';
 
 // GET /api/boards/[boardId]/timeline/events - Get all events for a board
 export async function GET(
@@ -85,6 +86,12 @@ export async function POST(
       },
     });
 
+    await emitWebhookEvent('timeline.event.created', {
+      boardId,
+      actorId: session.user.id,
+      data: { timelineEvent: toWebhookTimelineEvent(event) },
+    });
+
     return apiSuccess(event, 201);
   } catch (error) {
     console.error('Failed to create timeline event:', error);
@@ -0,0 +1,98 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireBoardMember,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
+import { isDoneList } from '@/lib/quality-review';
+import {
+  computeBaselineVariance,
+  readBaselineSnapshot,
+  type VariancePhase,
+} from '@/lib/timeline-baselines';
+
+// GET /api/boards/[boardId]/variance - Planned vs. actual dates per planning phase
+// Supports: ?baselineId=... (defaults to the newest baseline); data is null without one
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { boardId } = await params;
+
+    const { response: memberResponse } = await requireBoardMember(boardId, session.user.id);
+    if (memberResponse) return memberResponse;
+
+    const { searchParams } = new URL(request.url);
+    const baselineId = searchParams.get('baselineId');
+
+    const baseline = await prisma.timelineBaseline.findFirst({
+      where: baselineId ? { id: baselineId, boardId } : { boardId },
+      select: { id: true, name: true, createdAt: true, blocks: true, events: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (!baseline) {
+      return baselineId ? ApiErrors.notFound('Baseline') : apiSuccess(null);
+    }
+
+    const [blocks, lists, cards, calendar] = await Promise.all([
+      prisma.timelineBlock.findMany({
+        where: { boardId },
+        select: { listId: true, startDate: true, endDate: true },
+      }),
+      prisma.list.findMany({
+        where: { boardId },
+        select: { id: true, name: true, phase: true, viewType: true, position: true },
+        orderBy: { position: 'asc' },
+      }),
+      prisma.card.findMany({
+        where: { list: { boardId }, type: 'TASK', archivedAt: null },
+        select: { listId: true, taskData: true, completedAt: true, updatedAt: true },
+      }),
+      loadBoardBusinessCalendar(prisma, boardId),
+    ]);
+
+    const listsById = new Map(lists.map((list) => [list.id, list]));
+    const phases = new Map<string, VariancePhase>();
+    for (const list of lists) {
+      if (list.viewType === 'PLANNING') phases.set(list.id, { listId: list.id, name: list.name, tasks: [] });
+    }
+
+    // Released tasks still count toward the phase they were staged in. Tasks moved to a Done
+    // list without being completed count as done from their last update.
+    for (const card of cards) {
+      const taskData = card.taskData as { stagedFromPlanningListId?: string | null } | null;
+      const phase = phases.get(card.listId) ?? phases.get(taskData?.stagedFromPlanningListId ?? '');
+      if (!phase) continue;
+      const list = listsById.get(card.listId)!;
+      phase.tasks.push({ doneAt: card.completedAt ?? (isDoneList(list) ? card.updatedAt : null) });
+    }
+
+    const snapshot = readBaselineSnapshot(baseline);
+    const variance = computeBaselineVariance({
+      baselineBlocks: snapshot.blocks,
+      currentBlocks: blocks.map((block) => ({
+        listId: block.listId,
+        startDate: block.startDate.toISOString(),
+        endDate: block.endDate.toISOString(),
+      })),
+      phases: [...phases.values()],
+      calendar,
+      now: new Date(),
+    });
+
+    return apiSuccess({
+      baseline: { id: baseline.id, name: baseline.name, createdAt: baseline.createdAt },
+      ...variance,
+    });
+  } catch (error) {
+    console.error('Failed to load timeline variance:', error);
+    return ApiErrors.internal('Failed to load timeline variance');
+  }
+}
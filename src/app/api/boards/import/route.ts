@@ -0,0 +1,46 @@
+import {
+  requireAuth,
+  hasPermission,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import type { PermissionLevel } from '@/lib/api-utils';
+import { checkImportTeam, importBoardArchive, parseBoardArchive } from '@/lib/board-archive';
+
+// POST /api/boards/import - Create a new board from an archive made by GET /api/boards/[boardId]/export
+export async function POST(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === 'true';
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const parsed = parseBoardArchive(body.archive ?? body);
+    if (parsed.error !== undefined) {
+      return ApiErrors.validation(parsed.error);
+    }
+
+    const teamId = typeof body.teamId === 'string' && body.teamId.length > 0 ? body.teamId : null;
+    if (teamId) {
+      const teamError = await checkImportTeam(teamId, {
+        id: session.user.id,
+        isAdmin: hasPermission(session.user.permission as PermissionLevel, 'ADMIN'),
+      });
+      if (teamError) return ApiErrors.validation(teamError);
+    }
+
+    const result = await importBoardArchive(parsed.value, {
+      importerId: session.user.id,
+      name: typeof body.name === 'string' ? body.name : undefined,
+      teamId,
+      dryRun,
+    });
+
+    return apiSuccess(result, dryRun ? 200 : 201);
+  } catch (error) {
+    console.error('Failed to import board:', error);
+    return ApiErrors.internal('Failed to import board');
+  }
+}
@@ -0,0 +1,65 @@
+import type { ListViewType } from '@prisma/client';
+import {
+  requireAuth,
+  hasPermission,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import type { PermissionLevel } from '@/lib/api-utils';
+import { checkImportTeam, importBoardArchive } from '@/lib/board-archive';
+import { parseTrelloExport, trelloToBoardArchive } from '@/lib/trello-import';
+
+const VIEW_TYPES: ListViewType[] = ['TASKS', 'PLANNING'];
+
+// POST /api/boards/import/trello - Create a new board from a Trello JSON export (?dryRun=true to preview)
+export async function POST(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { searchParams } = new URL(request.url);
+    const dryRun = searchParams.get('dryRun') === 'true';
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const parsed = parseTrelloExport(body.board ?? body);
+    if (parsed.error !== undefined) {
+      return ApiErrors.validation(parsed.error);
+    }
+
+    const listViewTypes: Record<string, ListViewType> = {};
+    if (body.listViewTypes && typeof body.listViewTypes === 'object') {
+      for (const [listId, viewType] of Object.entries(body.listViewTypes as Record<string, unknown>)) {
+        if (!VIEW_TYPES.includes(viewType as ListViewType)) {
+          return ApiErrors.validation('listViewTypes must be TASKS or PLANNING');
+        }
+        listViewTypes[listId] = viewType as ListViewType;
+      }
+    }
+
+    const teamId = typeof body.teamId === 'string' && body.teamId.length > 0 ? body.teamId : null;
+    const isAdmin = hasPermission(session.user.permission as PermissionLevel, 'ADMIN');
+    if (teamId) {
+      const teamError = await checkImportTeam(teamId, { id: session.user.id, isAdmin });
+      if (teamError) return ApiErrors.validation(teamError);
+    }
+
+    const { archive, warnings } = trelloToBoardArchive(parsed.value, { listViewTypes });
+
+    // Labels become global tags, which only admins may create
+    const result = await importBoardArchive(archive, {
+      importerId: session.user.id,
+      name: typeof body.name === 'string' ? body.name : undefined,
+      teamId,
+      dryRun,
+      createMissingTags: isAdmin,
+    });
+
+    return apiSuccess({
+      ...result,
+      warnings: [...warnings, ...result.warnings],
+    }, dryRun ? 200 : 201);
+  } catch (error) {
+    console.error('Failed to import Trello board:', error);
+    return ApiErrors.internal('Failed to import Trello board');
+  }
+}
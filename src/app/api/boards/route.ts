@@ -1,11 +1,13 @@
 import { prisma } from '@/lib/prisma';
 import { BOARD_TEMPLATES, calculateListDates } from '@/lib/list-templates';
-import { addBusinessDays, snapToMonday } from '@/lib/date-utils';
+import { addBusinessDays, snapToWorkingWeek } from '@/lib/date-utils';
+import { loadStudioBusinessCalendar } from '@/lib/holiday-calendar';
 import { parseBoardArchivedOnlyAt, parseProjectArchivedAt } from '@/lib/project-archive';
 import { requireAuth, apiSuccess, ApiErrors } from '@/lib/api-utils';
 import { PHASE_SEARCH_TERMS } from '@/lib/constants';
 import { getPhaseFromBlockType } from '@/lib/constants';
 import { ensureTimelineBlockIntegrity } from '@/lib/timeline-block-integrity';
+import { captureTimelineBaseline, KICKOFF_BASELINE_NAME } from '@/lib/timeline-baselines';
 import type { BoardTemplateType, ListViewType, ListPhase, BoardSettings } from '@/types';
 
 const CORE_TEMPLATE_TASK_LISTS = BOARD_TEMPLATES.STANDARD_SLOT.taskLists;
@@ -286,17 +288,23 @@ export async function POST(request: Request) {
       endDate?: Date | null;
     }[] = [];
 
+    // Studio holidays of the board's team, so closed weeks are skipped when laying out dates
+    const team = startDate && teamId
+      ? await prisma.team.findUnique({ where: { id: teamId as string }, select: { studioId: true } })
+      : null;
+    const calendar = await loadStudioBusinessCalendar(prisma, team?.studioId);
+
     if (coreTemplate && !isTemplate) {
       const counters = new Map<string, number>();
       const hasDates = Boolean(startDate);
-      let cursor = hasDates ? snapToMonday(new Date(startDate as string)) : null;
+      let cursor = hasDates ? new Date(startDate as string) : null;
 
       for (const blockRow of coreTemplate.blocks) {
         const next = (counters.get(blockRow.blockTypeId) ?? 0) + 1;
         counters.set(blockRow.blockTypeId, next);
 
         const phase = getPhaseFromBlockType(blockRow.blockType.name);
-        const blockStart = cursor ? new Date(cursor) : null;
+        const blockStart = cursor ? snapToWorkingWeek(cursor, calendar) : null;
         const blockEnd = cursor ? addBusinessDays(blockStart!, 4) : null;
 
         planningRows.push({
@@ -315,7 +323,7 @@ export async function POST(request: Request) {
         }
       }
     } else if (startDate && templateType !== 'BLANK' && !isTemplate) {
-      const listDates = calculateListDates(templateConfig, new Date(startDate));
+      const listDates = calculateListDates(templateConfig, new Date(startDate), calendar);
       for (const list of templateConfig.planningLists) {
         const dateEntry = listDates.find((d) => d.listName.toLowerCase() === list.name.toLowerCase());
         planningRows.push({
@@ -529,7 +537,7 @@ export async function POST(request: Request) {
       }
 
       if (coreTemplate && coreTemplate.events.length > 0) {
-        const firstDate = snapToMonday(new Date(startDate as string));
+        const firstDate = snapToWorkingWeek(new Date(startDate as string), calendar);
         const useLegacyIndexOffset = coreTemplate.events.every((event) => (event as { unitOffset?: number }).unitOffset === 0);
 
         await prisma.timelineEvent.createMany({
@@ -539,7 +547,7 @@ export async function POST(request: Request) {
               Math.floor((templateEvent as { unitOffset?: number }).unitOffset ?? 0)
             );
             const unitOffset = useLegacyIndexOffset ? i * 5 : explicitUnitOffset;
-            const eventDate = addBusinessDays(firstDate, unitOffset);
+            const eventDate = addBusinessDays(firstDate, unitOffset, calendar);
 
             return {
               boardId: board.id,
@@ -564,6 +572,12 @@ export async function POST(request: Request) {
             },
           },
         });
+
+        // Keep the plan as it stood at kickoff to measure slippage against later
+        await captureTimelineBaseline(prisma, board.id, {
+          name: KICKOFF_BASELINE_NAME,
+          createdById: session.user.id,
+        });
       }
     }
 
@@ -71,7 +71,7 @@ async function handleCronRequest(request: Request) {
           },
         },
         weeklyProgress: {
-          orderBy: { weekStartDate: 'asc' },
+          orderBy: { weekStartDate: 'desc' },
           take: 2,
           select: {
             weekStartDate: true,
@@ -118,9 +118,10 @@ async function handleCronRequest(request: Request) {
       const completionPct = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
       const slowProgress = completionPct < slowThreshold;
 
+      // Most recent week first
       const weekly = board.weeklyProgress;
-      const latest = weekly[weekly.length - 1];
-      const previous = weekly.length > 1 ? weekly[weekly.length - 2] : null;
+      const latest = weekly[0];
+      const previous = weekly.length > 1 ? weekly[1] : null;
       const weeklyDeltaPoints = latest && previous ? latest.completedPoints - previous.completedPoints : null;
 
       const statusPrefix = slowProgress ? ':warning: Slow progress detected' : ':white_check_mark: Weekly project summary';
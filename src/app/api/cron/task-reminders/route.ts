@@ -0,0 +1,54 @@
+import { DEFAULT_DUE_SOON_DAYS, MAX_DUE_SOON_DAYS, sendTaskReminders } from '@/lib/task-reminders';
+import { apiError, ApiErrors, apiSuccess } from '@/lib/api-utils';
+
+export const runtime = 'nodejs';
+
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const authHeader = request.headers.get('authorization');
+  const tokenFromAuth = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : null;
+  const tokenFromHeader = request.headers.get('x-cron-secret');
+
+  return tokenFromAuth === secret || tokenFromHeader === secret;
+}
+
+async function handleCronRequest(request: Request) {
+  if (!process.env.CRON_SECRET) {
+    return ApiErrors.internal('CRON_SECRET environment variable is not configured');
+  }
+
+  if (!isAuthorized(request)) {
+    return apiError('UNAUTHORIZED', 'Invalid cron secret', 401);
+  }
+
+  // Optional ?dueSoonDays=N (1-30), how far ahead "deadline coming up" reminders look
+  const { searchParams } = new URL(request.url);
+  const dueSoonParam = searchParams.get('dueSoonDays');
+  let dueSoonDays = DEFAULT_DUE_SOON_DAYS;
+  if (dueSoonParam !== null) {
+    dueSoonDays = Number(dueSoonParam);
+    if (!Number.isInteger(dueSoonDays) || dueSoonDays < 1 || dueSoonDays > MAX_DUE_SOON_DAYS) {
+      return ApiErrors.validation(`dueSoonDays must be a whole number from 1 to ${MAX_DUE_SOON_DAYS}`);
+    }
+  }
+
+  try {
+    const result = await sendTaskReminders({ dueSoonDays });
+    return apiSuccess(result);
+  } catch (error) {
+    console.error('Cron task reminders failed:', error);
+    return ApiErrors.internal('Failed to send task reminders');
+  }
+}
+
+export async function GET(request: Request) {
+  return handleCronRequest(request);
+}
+
+export async function POST(request: Request) {
+  return handleCronRequest(request);
+}
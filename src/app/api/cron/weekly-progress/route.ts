@@ -0,0 +1,83 @@
+import { apiError, ApiErrors, apiSuccess } from '@/lib/api-utils';
+import { backfillWeeklyProgress, buildWeeklyProgress } from '@/lib/weekly-progress';
+
+export const runtime = 'nodejs';
+
+function isAuthorized(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const authHeader = request.headers.get('authorization');
+  const tokenFromAuth = authHeader?.startsWith('Bearer ')
+    ? authHeader.slice('Bearer '.length)
+    : null;
+  const tokenFromHeader = request.headers.get('x-cron-secret');
+
+  return tokenFromAuth === secret || tokenFromHeader === secret;
+}
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function parseBoardIds(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const boardIds = value.filter((entry): entry is string => typeof entry === 'string' && entry.trim().length > 0);
+  return boardIds.length > 0 ? boardIds : undefined;
+}
+
+async function handleCronRequest(request: Request) {
+  if (!process.env.CRON_SECRET) {
+    return ApiErrors.internal('CRON_SECRET environment variable is not configured');
+  }
+
+  if (!isAuthorized(request)) {
+    return apiError('UNAUTHORIZED', 'Invalid cron secret', 401);
+  }
+
+  try {
+    const rawBody = request.method === 'POST' ? await request.json().catch(() => ({})) : {};
+    const body = (rawBody && typeof rawBody === 'object' && !Array.isArray(rawBody)
+      ? rawBody
+      : {}) as Record<string, unknown>;
+    const boardIds = parseBoardIds(body.boardIds);
+
+    if (body.mode === 'backfill') {
+      const startWeekDate = parseDate(body.startWeekDate);
+      const endWeekDate = parseDate(body.endWeekDate);
+
+      if (startWeekDate === null) return ApiErrors.validation('Invalid startWeekDate');
+      if (endWeekDate === null) return ApiErrors.validation('Invalid endWeekDate');
+      if (startWeekDate && endWeekDate && startWeekDate.getTime() > endWeekDate.getTime()) {
+        return ApiErrors.validation('startWeekDate must be on or before endWeekDate');
+      }
+
+      const result = await backfillWeeklyProgress({ boardIds, startWeekDate, endWeekDate });
+      return apiSuccess({ mode: 'backfill', ...result });
+    }
+
+    const weekStartDate = parseDate(body.weekStartDate);
+    if (weekStartDate === null) return ApiErrors.validation('Invalid weekStartDate');
+
+    const result = await buildWeeklyProgress({ boardIds, weekStartDate });
+    return apiSuccess({
+      mode: 'snapshot',
+      weekStartDate: result.weekStartDate.toISOString(),
+      boardsProcessed: result.boardsProcessed,
+      rowsUpserted: result.rowsUpserted,
+    });
+  } catch (error) {
+    console.error('Weekly progress cron failed:', error);
+    return ApiErrors.internal('Failed to build weekly progress');
+  }
+}
+
+export async function GET(request: Request) {
+  return handleCronRequest(request);
+}
+
+export async function POST(request: Request) {
+  return handleCronRequest(request);
+}
@@ -0,0 +1,31 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// DELETE /api/me/api-tokens/[tokenId] - Revoke one of the current user's API tokens
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { tokenId } = await params;
+
+    const { count } = await prisma.apiToken.deleteMany({
+      where: { id: tokenId, userId: session.user.id },
+    });
+    if (count === 0) {
+      return ApiErrors.notFound('API token');
+    }
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to revoke API token:', error);
+    return ApiErrors.internal('Failed to revoke API token');
+  }
+}
@@ -0,0 +1,84 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  apiSuccess,
+  ApiErrors,
+  getAccessibleBoardIds,
+} from '@/lib/api-utils';
+import {
+  parseApiTokenBoardIds,
+  parseApiTokenExpiry,
+  parseApiTokenName,
+  parseApiTokenScope,
+} from '@/lib/api-token-scopes';
+import { generateApiToken, toApiToken } from '@/lib/api-tokens';
+import type { CreatedApiToken } from '@/types';
+
+// GET /api/me/api-tokens - List the current user's personal API tokens
+export async function GET() {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: session.user.id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return apiSuccess(tokens.map(toApiToken));
+  } catch (error) {
+    console.error('Failed to fetch API tokens:', error);
+    return ApiErrors.internal('Failed to fetch API tokens');
+  }
+}
+
+// POST /api/me/api-tokens - Create a personal API token (the token is only returned once)
+export async function POST(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const body = await request.json();
+
+    const name = parseApiTokenName(body?.name);
+    if (name.error !== undefined) return ApiErrors.validation(name.error);
+    const scope = parseApiTokenScope(body?.scope);
+    if (scope.error !== undefined) return ApiErrors.validation(scope.error);
+    const boardIds = parseApiTokenBoardIds(body?.boardIds);
+    if (boardIds.error !== undefined) return ApiErrors.validation(boardIds.error);
+    const expiresAt = parseApiTokenExpiry(body?.expiresInDays);
+    if (expiresAt.error !== undefined) return ApiErrors.validation(expiresAt.error);
+
+    if (boardIds.value) {
+      const accessibleBoardIds = await getAccessibleBoardIds(session.user.id);
+      const requested = accessibleBoardIds
+        ? boardIds.value.filter((boardId) => accessibleBoardIds.includes(boardId))
+        : boardIds.value;
+      const boardCount = await prisma.board.count({
+        where: { id: { in: requested } },
+      });
+      if (boardCount !== boardIds.value.length) {
+        return ApiErrors.validation('Tokens can only be limited to boards you are a member of');
+      }
+    }
+
+    const { token, tokenHash, prefix } = generateApiToken();
+    const created = await prisma.apiToken.create({
+      data: {
+        name: name.value,
+        scope: scope.value,
+        boardIds: boardIds.value ?? undefined,
+        expiresAt: expiresAt.value,
+        tokenHash,
+        prefix,
+        userId: session.user.id,
+      },
+    });
+
+    const result: CreatedApiToken = { ...toApiToken(created), token };
+    return apiSuccess(result, 201);
+  } catch (error) {
+    console.error('Failed to create API token:', error);
+    return ApiErrors.internal('Failed to create API token');
+  }
+}
@@ -131,6 +131,7 @@ export async function GET() {
           where: {
             userId,
             read: false,
+            digestOnly: false,
           },
           orderBy: {
             createdAt: 'desc',
@@ -150,6 +151,7 @@ export async function GET() {
           where: {
             userId,
             read: false,
+            digestOnly: false,
           },
         }),
         getLoginStreakSummary(prisma, userId),
@@ -0,0 +1,53 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { getNotificationPreferences } from '@/lib/notifications';
+import { parseNotificationPreferencesInput } from '@/lib/notification-preferences';
+
+// GET /api/me/notification-preferences - The current user's notification delivery settings
+export async function GET() {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    return apiSuccess(await getNotificationPreferences(session.user.id));
+  } catch (error) {
+    console.error('Failed to fetch notification preferences:', error);
+    return ApiErrors.internal('Failed to fetch notification preferences');
+  }
+}
+
+// PUT /api/me/notification-preferences - Replace the current user's notification delivery settings
+export async function PUT(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const parsed = parseNotificationPreferencesInput(await request.json().catch(() => null));
+    if (parsed.error !== undefined) return ApiErrors.validation(parsed.error);
+    const preferences = parsed.value;
+
+    const data = {
+      channels: preferences.channels as Prisma.InputJsonValue,
+      quietHoursStart: preferences.quietHours?.start ?? null,
+      quietHoursEnd: preferences.quietHours?.end ?? null,
+      timeZone: preferences.timeZone,
+      muteWeekends: preferences.muteWeekends,
+      digestFrequency: preferences.digestFrequency,
+    };
+    await prisma.notificationPreference.upsert({
+      where: { userId: session.user.id },
+      create: { userId: session.user.id, ...data },
+      update: data,
+    });
+
+    return apiSuccess(preferences);
+  } catch (error) {
+    console.error('Failed to update notification preferences:', error);
+    return ApiErrors.internal('Failed to update notification preferences');
+  }
+}
@@ -8,7 +8,8 @@ export async function POST() {
     if (response) return response;
 
     const result = await prisma.notification.updateMany({
-      where: { userId: session.user.id, read: false },
+      // Digest-only notifications stay unread until their digest goes out
+      where: { userId: session.user.id, read: false, digestOnly: false },
       data: { read: true },
     });
 
@@ -14,6 +14,7 @@ export async function GET(request: Request) {
 
     const where = {
       userId: session.user.id,
+      digestOnly: false,
       ...(unreadOnly ? { read: false } : {}),
       ...(type ? { type } : {}),
     };
@@ -25,7 +26,7 @@ export async function GET(request: Request) {
         take: limit,
       }),
       prisma.notification.count({
-        where: { userId: session.user.id, read: false },
+        where: { userId: session.user.id, read: false, digestOnly: false },
       }),
     ]);
 
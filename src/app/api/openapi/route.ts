@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiSpec } from '@/lib/openapi';
+
+// GET /api/openapi - OpenAPI 3.1 spec for the external REST API (public, no auth)
+export async function GET(request: Request) {
+  const { origin } = new URL(request.url);
+  return NextResponse.json(buildOpenApiSpec(origin), {
+    headers: { 'Cache-Control': 'public, max-age=3600' },
+  });
+}
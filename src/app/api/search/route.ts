@@ -0,0 +1,45 @@
+import {
+  requireAuth,
+  getAccessibleBoardIds,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { DEFAULT_SEARCH_LIMIT, parseSearchTypes, search } from '@/lib/search';
+
+const MAX_QUERY_LENGTH = 200;
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+// GET /api/search - Global full-text search
+// Supports: ?q=<text>, ?types=card,comment,attachment,board,user,academy, ?limit=N (per type)
+export async function GET(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { searchParams } = new URL(request.url);
+    const query = searchParams.get('q')?.trim() || '';
+    const limit = parsePositiveInt(searchParams.get('limit'), DEFAULT_SEARCH_LIMIT);
+    const types = parseSearchTypes(searchParams.get('types'));
+
+    if (!types) {
+      return ApiErrors.validation('Invalid types filter');
+    }
+    if (query.length > MAX_QUERY_LENGTH) {
+      return ApiErrors.validation(`Query must be at most ${MAX_QUERY_LENGTH} characters`);
+    }
+
+    const boardIds = await getAccessibleBoardIds(session.user.id);
+    const results = await search({ query, boardIds, types, limit });
+
+    return apiSuccess({ query, results });
+  } catch (error) {
+    console.error('Failed to search:', error);
+    return ApiErrors.internal('Failed to search');
+  }
+}
@@ -0,0 +1,40 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// DELETE /api/studios/[studioId]/holidays/[holidayId] - Remove a studio holiday
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ studioId: string; holidayId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { studioId, holidayId } = await params;
+
+    const holiday = await prisma.studioHoliday.findFirst({
+      where: { id: holidayId, studioId },
+      select: { id: true },
+    });
+    if (!holiday) {
+      return ApiErrors.notFound('Holiday');
+    }
+
+    await prisma.studioHoliday.delete({
+      where: { id: holidayId },
+    });
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to delete studio holiday:', error);
+    return ApiErrors.internal('Failed to delete studio holiday');
+  }
+}
@@ -0,0 +1,74 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { MAX_ICS_LENGTH, parseDayKey, parseIcsHolidays } from '@/lib/holiday-calendar';
+
+// POST /api/studios/[studioId]/holidays/import - Import holidays from an ICS calendar
+// Body: { ics: string }. Days that already have a holiday are renamed, not duplicated.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ studioId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { studioId } = await params;
+    const body = await request.json();
+
+    if (typeof body.ics !== 'string' || !body.ics.trim()) {
+      return ApiErrors.validation('ics must be the contents of an .ics file');
+    }
+    if (body.ics.length > MAX_ICS_LENGTH) {
+      return ApiErrors.validation('ICS file is too large');
+    }
+
+    const parsed = parseIcsHolidays(body.ics);
+    if (parsed.error !== undefined) {
+      return ApiErrors.validation(parsed.error);
+    }
+    const { holidays, skipped } = parsed.value;
+
+    const studio = await prisma.studio.findUnique({
+      where: { id: studioId },
+      select: { id: true },
+    });
+    if (!studio) {
+      return ApiErrors.notFound('Studio');
+    }
+
+    const dates = holidays.map((holiday) => parseDayKey(holiday.date)!);
+    const existing = await prisma.studioHoliday.findMany({
+      where: { studioId, date: { in: dates } },
+      select: { date: true },
+    });
+    const existingTimes = new Set(existing.map((holiday) => holiday.date.getTime()));
+
+    await prisma.$transaction(
+      holidays.map((holiday, index) =>
+        prisma.studioHoliday.upsert({
+          where: { studioId_date: { studioId, date: dates[index] } },
+          create: { studioId, date: dates[index], name: holiday.name, icsUid: holiday.uid },
+          update: { name: holiday.name, icsUid: holiday.uid },
+        })
+      )
+    );
+
+    const updated = dates.filter((date) => existingTimes.has(date.getTime())).length;
+    return apiSuccess({
+      created: holidays.length - updated,
+      updated,
+      skipped,
+    });
+  } catch (error) {
+    console.error('Failed to import studio holidays:', error);
+    return ApiErrors.internal('Failed to import studio holidays');
+  }
+}
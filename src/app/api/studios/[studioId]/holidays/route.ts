@@ -0,0 +1,94 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { MAX_HOLIDAY_NAME_LENGTH, parseDayKey } from '@/lib/holiday-calendar';
+
+// GET /api/studios/[studioId]/holidays - List a studio's holidays
+// Supports: ?year=2026
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ studioId: string }> }
+) {
+  try {
+    const { response } = await requireAuth();
+    if (response) return response;
+
+    const { studioId } = await params;
+
+    const { searchParams } = new URL(request.url);
+    const year = searchParams.has('year') ? Number(searchParams.get('year')) : null;
+    if (year !== null && (!Number.isInteger(year) || year < 1970 || year > 9999)) {
+      return ApiErrors.validation('year must be a four-digit year');
+    }
+
+    const holidays = await prisma.studioHoliday.findMany({
+      where: {
+        studioId,
+        ...(year !== null && {
+          date: { gte: new Date(Date.UTC(year, 0, 1)), lt: new Date(Date.UTC(year + 1, 0, 1)) },
+        }),
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    return apiSuccess(holidays);
+  } catch (error) {
+    console.error('Failed to fetch studio holidays:', error);
+    return ApiErrors.internal('Failed to fetch studio holidays');
+  }
+}
+
+// POST /api/studios/[studioId]/holidays - Add a holiday to a studio
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ studioId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { studioId } = await params;
+    const body = await request.json();
+
+    const date = parseDayKey(body.date);
+    if (!date) {
+      return ApiErrors.validation('date must be a YYYY-MM-DD date');
+    }
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_HOLIDAY_NAME_LENGTH) {
+      return ApiErrors.validation(`Holiday name is required (max ${MAX_HOLIDAY_NAME_LENGTH} characters)`);
+    }
+
+    const studio = await prisma.studio.findUnique({
+      where: { id: studioId },
+      select: { id: true },
+    });
+    if (!studio) {
+      return ApiErrors.notFound('Studio');
+    }
+
+    const existing = await prisma.studioHoliday.findUnique({
+      where: { studioId_date: { studioId, date } },
+      select: { id: true },
+    });
+    if (existing) {
+      return ApiErrors.conflict('This studio already has a holiday on that date');
+    }
+
+    const holiday = await prisma.studioHoliday.create({
+      data: { studioId, date, name },
+    });
+
+    return apiSuccess(holiday, 201);
+  } catch (error) {
+    console.error('Failed to create studio holiday:', error);
+    return ApiErrors.internal('Failed to create studio holiday');
+  }
+}
@@ -0,0 +1,154 @@
+import { prisma } from '@/lib/prisma';
+import { requireAuth, apiSuccess, ApiErrors } from '@/lib/api-utils';
+import { formatLocalDateKey } from '@/lib/date-utils';
+import { createBusinessCalendar, parseDayKey, withLeave } from '@/lib/holiday-calendar';
+import { isProjectArchived } from '@/lib/project-archive';
+import {
+  DEFAULT_ALLOCATION_WEEKS,
+  MAX_ALLOCATION_WEEKS,
+  allocationWeeks,
+  summarizeUserAllocation,
+} from '@/lib/resource-allocation';
+import type { ResourceAllocation } from '@/types';
+
+// GET /api/timeline/allocation - Per-user weekly dedication summed across all projects
+// Supports: ?startDate=YYYY-MM-DD (defaults to this week), ?weeks=N (default 12, max 52),
+//           ?teamId, ?roleId (company role) and ?skillId to narrow down the people shown
+export async function GET(request: Request) {
+  try {
+    const { response } = await requireAuth();
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const startParam = searchParams.get('startDate');
+    const startDate = startParam ? parseDayKey(startParam) : new Date();
+    if (!startDate) {
+      return ApiErrors.validation('startDate must be a YYYY-MM-DD date');
+    }
+    const weeksParam = searchParams.get('weeks');
+    const weekCount = weeksParam ? Number(weeksParam) : DEFAULT_ALLOCATION_WEEKS;
+    if (!Number.isInteger(weekCount) || weekCount < 1 || weekCount > MAX_ALLOCATION_WEEKS) {
+      return ApiErrors.validation(`weeks must be a whole number from 1 to ${MAX_ALLOCATION_WEEKS}`);
+    }
+    const teamId = searchParams.get('teamId');
+    const roleId = searchParams.get('roleId');
+    const skillId = searchParams.get('skillId');
+
+    const weeks = allocationWeeks(startDate, weekCount);
+    const rangeStart = weeks[0];
+    const rangeEnd = new Date(weeks[weeks.length - 1]);
+    rangeEnd.setDate(rangeEnd.getDate() + 6);
+
+    const [users, teams, roles, skills] = await Promise.all([
+      prisma.user.findMany({
+        where: {
+          deletedAt: null,
+          ...(teamId && { teamMembers: { some: { teamId } } }),
+          ...(roleId && { userCompanyRoles: { some: { companyRoleId: roleId } } }),
+          ...(skillId && { userSkills: { some: { skillId } } }),
+        },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          image: true,
+          userCompanyRoles: {
+            select: { companyRole: { select: { id: true, name: true, color: true, position: true } } },
+          },
+          teamMembers: { select: { team: { select: { studioId: true } } } },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.team.findMany({
+        where: { archivedAt: null },
+        select: { id: true, name: true, color: true },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.companyRole.findMany({
+        select: { id: true, name: true, color: true },
+        orderBy: { position: 'asc' },
+      }),
+      prisma.skill.findMany({
+        select: { id: true, name: true, color: true },
+        orderBy: { position: 'asc' },
+      }),
+    ]);
+
+    const userIds = users.map((user) => user.id);
+    const studioIds = [...new Set(users.flatMap((user) =>
+      user.teamMembers.map((member) => member.team.studioId).filter((id): id is string => !!id)
+    ))];
+
+    const [allAvailability, leave, holidays] = await Promise.all([
+      prisma.userWeeklyAvailability.findMany({
+        where: {
+          userId: { in: userIds },
+          weekStart: { gte: rangeStart, lte: rangeEnd },
+          dedication: { gt: 0 },
+          board: { isTemplate: false },
+        },
+        select: { boardId: true, userId: true, weekStart: true, dedication: true },
+      }),
+      prisma.userLeave.findMany({
+        where: { userId: { in: userIds }, startDate: { lte: rangeEnd }, endDate: { gte: rangeStart } },
+        select: { userId: true, startDate: true, endDate: true },
+      }),
+      prisma.studioHoliday.findMany({
+        where: { studioId: { in: studioIds }, date: { gte: rangeStart, lte: rangeEnd } },
+        select: { studioId: true, date: true },
+      }),
+    ]);
+
+    // Archived projects no longer take anyone's time, matching what the timeline shows
+    const boardIds = [...new Set(allAvailability.map((entry) => entry.boardId))];
+    const boards = (await prisma.board.findMany({
+      where: { id: { in: boardIds } },
+      select: { id: true, name: true, archivedAt: true, settings: true, team: { select: { name: true, color: true } } },
+      orderBy: { name: 'asc' },
+    })).filter((board) => !isProjectArchived(board));
+    const activeBoardIds = new Set(boards.map((board) => board.id));
+    const availability = allAvailability.filter((entry) => activeBoardIds.has(entry.boardId));
+
+    const availabilityByUser = new Map<string, typeof availability>();
+    for (const entry of availability) {
+      const entries = availabilityByUser.get(entry.userId) ?? [];
+      entries.push(entry);
+      availabilityByUser.set(entry.userId, entries);
+    }
+
+    const result: ResourceAllocation = {
+      weeks: weeks.map(formatLocalDateKey),
+      users: users.map((user) => {
+        // People on teams in several studios get the holidays of all of them
+        const userStudioIds = new Set(user.teamMembers.map((member) => member.team.studioId));
+        const calendar = withLeave(
+          createBusinessCalendar(holidays.filter((holiday) => userStudioIds.has(holiday.studioId)).map((holiday) => holiday.date)),
+          leave.filter((entry) => entry.userId === user.id)
+        );
+        return {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          image: user.image,
+          roles: user.userCompanyRoles
+            .map((assignment) => assignment.companyRole)
+            .sort((a, b) => a.position - b.position)
+            .map(({ id, name, color }) => ({ id, name, color })),
+          weeks: summarizeUserAllocation(weeks, availabilityByUser.get(user.id) ?? [], calendar),
+        };
+      }),
+      boards: boards.map((board) => ({
+        id: board.id,
+        name: board.name,
+        teamName: board.team?.name ?? null,
+        color: board.team?.color ?? null,
+      })),
+      filters: { teams, roles, skills },
+    };
+
+    return apiSuccess(result);
+  } catch (error) {
+    console.error('Failed to fetch resource allocation:', error);
+    return ApiErrors.internal('Failed to fetch resource allocation');
+  }
+}
@@ -1,5 +1,6 @@
 import { prisma } from '@/lib/prisma';
 import { requireAuth, apiSuccess, ApiErrors } from '@/lib/api-utils';
+import { LATEST_BASELINE_QUERY, toProjectBaseline } from '@/lib/timeline-baselines';
 import type { TimelineData } from '@/types';
 
 // GET /api/timeline/projects/[projectId] - Lazy-load full timeline data for one project
@@ -81,6 +82,7 @@ export async function GET(
           },
           orderBy: { startDate: 'asc' },
         },
+        timelineBaselines: LATEST_BASELINE_QUERY,
       },
     });
 
@@ -285,6 +287,7 @@ export async function GET(
           position: event.eventType.position,
         },
       })),
+      baseline: toProjectBaseline(board.timelineBaselines),
     };
 
     return apiSuccess({ project });
@@ -5,6 +5,7 @@ import {
   parseProjectArchivedAt,
   setProjectArchivedAt,
 } from '@/lib/project-archive';
+import { LATEST_BASELINE_QUERY, toProjectBaseline } from '@/lib/timeline-baselines';
 import type {
   TimelineData,
   TimelineArchivedProjectSummary,
@@ -284,6 +285,7 @@ export async function GET() {
               },
               orderBy: { startDate: 'asc' },
             },
+            timelineBaselines: LATEST_BASELINE_QUERY,
           },
           orderBy: { name: 'asc' },
         })
@@ -502,6 +504,7 @@ export async function GET() {
             position: event.eventType.position,
           },
         })),
+        baseline: toProjectBaseline(board.timelineBaselines),
       };
     });
 
@@ -0,0 +1,153 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { recordActivities } from '@/lib/activity';
+import { renumberTimelineBlockPositions } from '@/lib/timeline-block-position';
+import { ensureTimelineBlockIntegrity } from '@/lib/timeline-block-integrity';
+import { emitWebhookEvent, toWebhookTimelineEvent } from '@/lib/webhooks';
+import {
+  applyScenarioBoard,
+  diffScenarioTimeline,
+  isEmptyScenarioDiff,
+  loadLiveScenarioTimelines,
+  readScenarioTimeline,
+  scenarioConflicts,
+  type ScenarioApplyResult,
+} from '@/lib/timeline-scenarios';
+
+// POST /api/timeline/scenarios/[scenarioId]/apply - Write a draft scenario onto the live timeline
+// Supports: { force: true } to overwrite live edits made since the scenario was forked
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { scenarioId } = await params;
+    const body = await request.json().catch(() => ({}));
+    const force = body?.force === true;
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      const scenario = await tx.timelineScenario.findUnique({
+        where: { id: scenarioId },
+        select: { status: true, boards: { select: { boardId: true, base: true, draft: true } } },
+      });
+      if (!scenario) return { error: ApiErrors.notFound('Scenario') };
+      if (scenario.status !== 'DRAFT') return { error: ApiErrors.conflict('This scenario has already been applied') };
+
+      const live = await loadLiveScenarioTimelines(tx, scenario.boards.map((copy) => copy.boardId));
+      const copies = scenario.boards.map((copy) => ({
+        boardId: copy.boardId,
+        base: readScenarioTimeline(copy.base),
+        draft: readScenarioTimeline(copy.draft),
+      }));
+
+      if (!force) {
+        const conflicting = copies.filter((copy) => {
+          const liveTimeline = live.get(copy.boardId);
+          if (!liveTimeline) return false;
+          const conflicts = scenarioConflicts(
+            diffScenarioTimeline(copy.base, copy.draft),
+            diffScenarioTimeline(copy.base, liveTimeline)
+          );
+          return !isEmptyScenarioDiff(conflicts);
+        });
+        if (conflicting.length > 0) {
+          return {
+            error: ApiErrors.conflict(
+              `${conflicting.length} board${conflicting.length === 1 ? ' was' : 's were'} changed live since this scenario was forked. Apply again with force to overwrite those changes.`
+            ),
+          };
+        }
+      }
+
+      const results = new Map<string, ScenarioApplyResult>();
+      for (const copy of copies) {
+        if (!live.has(copy.boardId)) continue;
+        const result = await applyScenarioBoard(tx, copy.boardId, copy.base, copy.draft);
+        if (result.movedBlockIds.length > 0) {
+          await ensureTimelineBlockIntegrity(copy.boardId, { db: tx });
+          await renumberTimelineBlockPositions(copy.boardId, tx);
+        }
+        results.set(copy.boardId, result);
+      }
+
+      await tx.timelineScenario.update({
+        where: { id: scenarioId },
+        data: { status: 'APPLIED', appliedAt: new Date() },
+      });
+
+      return { results };
+    }, { timeout: 30000 });
+
+    if ('error' in outcome) return outcome.error;
+
+    for (const [boardId, result] of outcome.results) {
+      if (result.movedBlockIds.length > 0) {
+        const blocks = await prisma.timelineBlock.findMany({
+          where: { id: { in: result.movedBlockIds } },
+          select: { id: true, startDate: true, endDate: true },
+        });
+        await recordActivities(blocks.map((block) => ({
+          boardId,
+          userId: session.user.id,
+          action: 'moved',
+          entity: 'timeline_block' as const,
+          entityId: block.id,
+          data: {
+            scenarioId,
+            startDate: block.startDate.toISOString(),
+            endDate: block.endDate.toISOString(),
+          },
+        })));
+      }
+
+      const touchedEventIds = [...result.createdEventIds, ...result.updatedEventIds];
+      if (touchedEventIds.length > 0) {
+        const events = await prisma.timelineEvent.findMany({
+          where: { id: { in: touchedEventIds } },
+          include: { eventType: true },
+        });
+        const created = new Set(result.createdEventIds);
+        for (const event of events) {
+          await emitWebhookEvent(created.has(event.id) ? 'timeline.event.created' : 'timeline.event.updated', {
+            boardId,
+            actorId: session.user.id,
+            data: { timelineEvent: toWebhookTimelineEvent(event) },
+          });
+        }
+      }
+
+      for (const event of result.deletedEvents) {
+        await emitWebhookEvent('timeline.event.deleted', {
+          boardId,
+          actorId: session.user.id,
+          data: { timelineEvent: event },
+        });
+      }
+    }
+
+    return apiSuccess({
+      boards: [...outcome.results].map(([boardId, result]) => ({
+        boardId,
+        movedBlocksCount: result.movedBlockIds.length,
+        createdEventsCount: result.createdEventIds.length,
+        updatedEventsCount: result.updatedEventIds.length,
+        deletedEventsCount: result.deletedEvents.length,
+        availabilityChangesCount: result.availabilityChanges,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to apply timeline scenario:', error);
+    return ApiErrors.internal('Failed to apply timeline scenario');
+  }
+}
@@ -0,0 +1,48 @@
+import { prisma } from '@/lib/prisma';
+import { AVAILABILITY_DEDICATIONS } from '@/lib/holiday-calendar';
+import { setScenarioAvailability } from '@/lib/timeline-scenarios';
+import { loadScenarioDraft, saveScenarioDraft } from '@/lib/timeline-scenarios-api';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// POST /api/timeline/scenarios/[scenarioId]/boards/[boardId]/availability - Bulk set availability in a scenario draft
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string; boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { scenarioId, boardId } = await params;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const body = await request.json();
+    const { entries } = body;
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      return ApiErrors.validation('entries array is required');
+    }
+
+    const scenario = await loadScenarioDraft(prisma, scenarioId, boardId);
+    if (scenario.response) return scenario.response;
+
+    // Invalid entries are skipped, like the live bulk endpoint
+    const valid = entries
+      .filter((entry) => entry?.userId && entry.weekStart && AVAILABILITY_DEDICATIONS.includes(entry.dedication))
+      .map((entry) => ({ userId: entry.userId as string, weekStart: new Date(entry.weekStart), dedication: entry.dedication as number }));
+
+    const draft = await saveScenarioDraft(prisma, scenario.copyId, setScenarioAvailability(scenario.draft, valid));
+
+    return apiSuccess(draft.availability);
+  } catch (error) {
+    console.error('Failed to set scenario availability:', error);
+    return ApiErrors.internal('Failed to set scenario availability');
+  }
+}
@@ -0,0 +1,72 @@
+import { prisma } from '@/lib/prisma';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
+import { moveScenarioBlocks } from '@/lib/timeline-scenarios';
+import { loadScenarioDraft, saveScenarioDraft } from '@/lib/timeline-scenarios-api';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// POST /api/timeline/scenarios/[scenarioId]/boards/[boardId]/timeline/blocks/move-group
+// Moves blocks of a scenario draft by a number of weeks; same body as the live endpoint
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string; boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { scenarioId, boardId } = await params;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const body = await request.json();
+    const { blockIds, weeksDelta, blockMoves, eventIds } = body;
+
+    if (!blockIds || !Array.isArray(blockIds) || blockIds.length === 0) {
+      return ApiErrors.validation('blockIds array is required');
+    }
+
+    if (weeksDelta === undefined || weeksDelta === 0) {
+      return ApiErrors.validation('weeksDelta is required and must be non-zero');
+    }
+
+    const scenario = await loadScenarioDraft(prisma, scenarioId, boardId);
+    if (scenario.response) return scenario.response;
+
+    const perBlockDelta = new Map<string, number>();
+    if (blockMoves && Array.isArray(blockMoves)) {
+      for (const move of blockMoves) {
+        perBlockDelta.set(move.id, move.weeksDelta);
+      }
+    }
+
+    const draftBlockIds = new Set(scenario.draft.blocks.map((block) => block.id));
+    const movedBlockIds = (blockIds as string[]).filter((id) => draftBlockIds.has(id));
+    if (movedBlockIds.length === 0) {
+      return ApiErrors.notFound('No blocks found');
+    }
+
+    const draftEventIds = new Set(scenario.draft.events.map((event) => event.id));
+    const movedEventIds = Array.isArray(eventIds)
+      ? (eventIds as string[]).filter((id) => draftEventIds.has(id))
+      : [];
+
+    const calendar = await loadBoardBusinessCalendar(prisma, boardId);
+    const draft = moveScenarioBlocks(scenario.draft, {
+      weeksDelta,
+      blockMoves: new Map(movedBlockIds.map((id) => [id, perBlockDelta.get(id) ?? weeksDelta])),
+      eventIds: movedEventIds,
+    }, calendar);
+    await saveScenarioDraft(prisma, scenario.copyId, draft);
+
+    return apiSuccess({ movedBlocksCount: movedBlockIds.length, movedEventsCount: movedEventIds.length });
+  } catch (error) {
+    console.error('Failed to move scenario blocks:', error);
+    return ApiErrors.internal('Failed to move scenario blocks');
+  }
+}
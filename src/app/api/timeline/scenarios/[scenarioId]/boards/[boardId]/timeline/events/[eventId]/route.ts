@@ -0,0 +1,85 @@
+import { prisma } from '@/lib/prisma';
+import { removeScenarioEvent, updateScenarioEvent, type ScenarioEvent } from '@/lib/timeline-scenarios';
+import { loadScenarioDraft, saveScenarioDraft } from '@/lib/timeline-scenarios-api';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// PATCH /api/timeline/scenarios/[scenarioId]/boards/[boardId]/timeline/events/[eventId] - Update an event in a scenario draft
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string; boardId: string; eventId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { scenarioId, boardId, eventId } = await params;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const scenario = await loadScenarioDraft(prisma, scenarioId, boardId);
+    if (scenario.response) return scenario.response;
+
+    const body = await request.json();
+    const { title, description, eventTypeId, startDate, endDate } = body;
+
+    const patch: Partial<Omit<ScenarioEvent, 'id'>> = {};
+    if (title !== undefined) patch.title = title.trim();
+    if (description !== undefined) patch.description = description?.trim() || null;
+    if (eventTypeId !== undefined) {
+      const eventType = await prisma.eventType.findUnique({ where: { id: eventTypeId } });
+      if (!eventType) {
+        return ApiErrors.notFound('Event type');
+      }
+      patch.eventTypeId = eventTypeId;
+    }
+    if (startDate !== undefined) patch.startDate = new Date(startDate).toISOString();
+    if (endDate !== undefined) patch.endDate = new Date(endDate).toISOString();
+
+    const draft = updateScenarioEvent(scenario.draft, eventId, patch);
+    if (!draft) {
+      return ApiErrors.notFound('Event');
+    }
+    await saveScenarioDraft(prisma, scenario.copyId, draft);
+
+    return apiSuccess(draft.events.find((event) => event.id === eventId));
+  } catch (error) {
+    console.error('Failed to update scenario event:', error);
+    return ApiErrors.internal('Failed to update scenario event');
+  }
+}
+
+// DELETE /api/timeline/scenarios/[scenarioId]/boards/[boardId]/timeline/events/[eventId] - Remove an event from a scenario draft
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string; boardId: string; eventId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { scenarioId, boardId, eventId } = await params;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const scenario = await loadScenarioDraft(prisma, scenarioId, boardId);
+    if (scenario.response) return scenario.response;
+
+    const draft = removeScenarioEvent(scenario.draft, eventId);
+    if (!draft) {
+      return ApiErrors.notFound('Event');
+    }
+    await saveScenarioDraft(prisma, scenario.copyId, draft);
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to delete scenario event:', error);
+    return ApiErrors.internal('Failed to delete scenario event');
+  }
+}
@@ -0,0 +1,62 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '@/lib/prisma';
+import { loadScenarioDraft, saveScenarioDraft } from '@/lib/timeline-scenarios-api';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// POST /api/timeline/scenarios/[scenarioId]/boards/[boardId]/timeline/events - Add an event to a scenario draft
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string; boardId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { scenarioId, boardId } = await params;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const body = await request.json();
+    const { title, description, eventTypeId, startDate, endDate } = body;
+
+    if (!title || !eventTypeId || !startDate) {
+      return ApiErrors.validation('title, eventTypeId, and startDate are required');
+    }
+
+    const eventType = await prisma.eventType.findUnique({
+      where: { id: eventTypeId },
+    });
+
+    if (!eventType) {
+      return ApiErrors.notFound('Event type');
+    }
+
+    const scenario = await loadScenarioDraft(prisma, scenarioId, boardId);
+    if (scenario.response) return scenario.response;
+
+    // The id only lives in the draft; applying the scenario creates the real event
+    const event = {
+      id: randomUUID(),
+      title: title.trim(),
+      description: description?.trim() || null,
+      eventTypeId,
+      startDate: new Date(startDate).toISOString(),
+      endDate: new Date(endDate ?? startDate).toISOString(),
+    };
+    await saveScenarioDraft(prisma, scenario.copyId, {
+      ...scenario.draft,
+      events: [...scenario.draft.events, event],
+    });
+
+    return apiSuccess({ ...event, eventType }, 201);
+  } catch (error) {
+    console.error('Failed to create scenario event:', error);
+    return ApiErrors.internal('Failed to create scenario event');
+  }
+}
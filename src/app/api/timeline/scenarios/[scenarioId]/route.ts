@@ -0,0 +1,152 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { SCENARIO_SUMMARY_SELECT, toScenarioSummary } from '@/lib/timeline-scenarios-api';
+import {
+  MAX_SCENARIO_NAME_LENGTH,
+  diffScenarioTimeline,
+  loadLiveScenarioTimelines,
+  readScenarioTimeline,
+  scenarioConflicts,
+} from '@/lib/timeline-scenarios';
+
+// GET /api/timeline/scenarios/[scenarioId] - Get a scenario with each board's draft, what it
+// changes and the live edits since the fork that applying it would overwrite
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const { response } = await requireAuth();
+    if (response) return response;
+
+    const { scenarioId } = await params;
+
+    const scenario = await prisma.timelineScenario.findUnique({
+      where: { id: scenarioId },
+      select: {
+        ...SCENARIO_SUMMARY_SELECT,
+        boards: {
+          select: { boardId: true, forkedAt: true, base: true, draft: true, board: { select: { name: true } } },
+          orderBy: { board: { name: 'asc' } },
+        },
+      },
+    });
+
+    if (!scenario) {
+      return ApiErrors.notFound('Scenario');
+    }
+
+    // Applied scenarios are a record; comparing them with today's board would show noise
+    const live = scenario.status === 'DRAFT'
+      ? await loadLiveScenarioTimelines(prisma, scenario.boards.map((copy) => copy.boardId))
+      : new Map();
+
+    return apiSuccess({
+      ...scenario,
+      boards: scenario.boards.map((copy) => {
+        const base = readScenarioTimeline(copy.base);
+        const draft = readScenarioTimeline(copy.draft);
+        const changes = diffScenarioTimeline(base, draft);
+        const liveTimeline = live.get(copy.boardId);
+        return {
+          boardId: copy.boardId,
+          name: copy.board.name,
+          forkedAt: copy.forkedAt,
+          draft,
+          changes,
+          conflicts: liveTimeline ? scenarioConflicts(changes, diffScenarioTimeline(base, liveTimeline)) : null,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('Failed to fetch timeline scenario:', error);
+    return ApiErrors.internal('Failed to fetch timeline scenario');
+  }
+}
+
+// PATCH /api/timeline/scenarios/[scenarioId] - Rename a scenario or change its description
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { scenarioId } = await params;
+
+    const existing = await prisma.timelineScenario.findUnique({
+      where: { id: scenarioId },
+      select: { id: true },
+    });
+
+    if (!existing) {
+      return ApiErrors.notFound('Scenario');
+    }
+
+    const body = await request.json();
+    const data: { name?: string; description?: string | null } = {};
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return ApiErrors.validation('name cannot be empty');
+      }
+      if (name.length > MAX_SCENARIO_NAME_LENGTH) {
+        return ApiErrors.validation(`name must be at most ${MAX_SCENARIO_NAME_LENGTH} characters`);
+      }
+      data.name = name;
+    }
+    if (body.description !== undefined) {
+      data.description = typeof body.description === 'string' ? body.description.trim() || null : null;
+    }
+
+    const scenario = await prisma.timelineScenario.update({
+      where: { id: scenarioId },
+      data,
+      select: SCENARIO_SUMMARY_SELECT,
+    });
+
+    return apiSuccess(toScenarioSummary(scenario));
+  } catch (error) {
+    console.error('Failed to update timeline scenario:', error);
+    return ApiErrors.internal('Failed to update timeline scenario');
+  }
+}
+
+// DELETE /api/timeline/scenarios/[scenarioId] - Discard a scenario; the live timeline is untouched
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ scenarioId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { scenarioId } = await params;
+
+    const { count } = await prisma.timelineScenario.deleteMany({
+      where: { id: scenarioId },
+    });
+
+    if (count === 0) {
+      return ApiErrors.notFound('Scenario');
+    }
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to delete timeline scenario:', error);
+    return ApiErrors.internal('Failed to delete timeline scenario');
+  }
+}
@@ -0,0 +1,98 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { SCENARIO_SUMMARY_SELECT, toScenarioSummary } from '@/lib/timeline-scenarios-api';
+import {
+  MAX_SCENARIO_BOARDS,
+  MAX_SCENARIO_NAME_LENGTH,
+  loadLiveScenarioTimelines,
+} from '@/lib/timeline-scenarios';
+
+// GET /api/timeline/scenarios - List timeline scenarios, newest first
+// Supports: ?status=DRAFT (default), APPLIED or all
+export async function GET(request: Request) {
+  try {
+    const { response } = await requireAuth();
+    if (response) return response;
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') ?? 'DRAFT';
+    if (status !== 'DRAFT' && status !== 'APPLIED' && status !== 'all') {
+      return ApiErrors.validation('status must be DRAFT, APPLIED or all');
+    }
+
+    const scenarios = await prisma.timelineScenario.findMany({
+      where: status === 'all' ? {} : { status },
+      select: SCENARIO_SUMMARY_SELECT,
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    return apiSuccess(scenarios.map(toScenarioSummary));
+  } catch (error) {
+    console.error('Failed to fetch timeline scenarios:', error);
+    return ApiErrors.internal('Failed to fetch timeline scenarios');
+  }
+}
+
+// POST /api/timeline/scenarios - Fork the live timeline of one or more boards into a scenario
+export async function POST(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const description = typeof body.description === 'string' ? body.description.trim() || null : null;
+    const boardIds: unknown = body.boardIds;
+
+    if (!name) {
+      return ApiErrors.validation('name is required');
+    }
+    if (name.length > MAX_SCENARIO_NAME_LENGTH) {
+      return ApiErrors.validation(`name must be at most ${MAX_SCENARIO_NAME_LENGTH} characters`);
+    }
+    if (
+      !Array.isArray(boardIds)
+      || boardIds.length === 0
+      || boardIds.length > MAX_SCENARIO_BOARDS
+      || !boardIds.every((id) => typeof id === 'string')
+    ) {
+      return ApiErrors.validation(`boardIds must list 1 to ${MAX_SCENARIO_BOARDS} boards`);
+    }
+
+    const uniqueBoardIds = [...new Set(boardIds as string[])];
+    const timelines = await loadLiveScenarioTimelines(prisma, uniqueBoardIds);
+    if (timelines.size !== uniqueBoardIds.length) {
+      return ApiErrors.notFound('Board');
+    }
+
+    const scenario = await prisma.timelineScenario.create({
+      data: {
+        name,
+        description,
+        createdById: session.user.id,
+        boards: {
+          create: [...timelines].map(([boardId, timeline]) => ({
+            boardId,
+            base: timeline as unknown as Prisma.InputJsonValue,
+            draft: timeline as unknown as Prisma.InputJsonValue,
+          })),
+        },
+      },
+      select: SCENARIO_SUMMARY_SELECT,
+    });
+
+    return apiSuccess(toScenarioSummary(scenario), 201);
+  } catch (error) {
+    console.error('Failed to create timeline scenario:', error);
+    return ApiErrors.internal('Failed to create timeline scenario');
+  }
+}
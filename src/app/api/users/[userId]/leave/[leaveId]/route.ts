@@ -0,0 +1,44 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+
+// DELETE /api/users/[userId]/leave/[leaveId] - Remove a leave entry
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ userId: string; leaveId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { userId, leaveId } = await params;
+
+    if (session.user.id !== userId) {
+      const adminResult = await requireAdmin(session.user.id);
+      if (adminResult.response) {
+        return adminResult.response;
+      }
+    }
+
+    const leave = await prisma.userLeave.findFirst({
+      where: { id: leaveId, userId },
+      select: { id: true },
+    });
+    if (!leave) {
+      return ApiErrors.notFound('Leave');
+    }
+
+    await prisma.userLeave.delete({
+      where: { id: leaveId },
+    });
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to delete user leave:', error);
+    return ApiErrors.internal('Failed to delete user leave');
+  }
+}
@@ -0,0 +1,93 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { parseDayKey, parseLeaveInput } from '@/lib/holiday-calendar';
+
+// GET /api/users/[userId]/leave - List a user's leave, most recent first
+// Supports: ?from=YYYY-MM-DD to leave out entries that ended earlier
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { userId } = await params;
+
+    // Allow self-read, or admin access to others' leave
+    if (session.user.id !== userId) {
+      const adminResult = await requireAdmin(session.user.id);
+      if (adminResult.response) {
+        return adminResult.response;
+      }
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from');
+    const fromDate = from ? parseDayKey(from) : null;
+    if (from && !fromDate) {
+      return ApiErrors.validation('from must be a YYYY-MM-DD date');
+    }
+
+    const leave = await prisma.userLeave.findMany({
+      where: {
+        userId,
+        ...(fromDate && { endDate: { gte: fromDate } }),
+      },
+      orderBy: { startDate: 'desc' },
+    });
+
+    return apiSuccess(leave);
+  } catch (error) {
+    console.error('Failed to fetch user leave:', error);
+    return ApiErrors.internal('Failed to fetch user leave');
+  }
+}
+
+// POST /api/users/[userId]/leave - Add a leave entry for a user
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ userId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { userId } = await params;
+
+    // Users manage their own leave; admins can enter it for anyone
+    if (session.user.id !== userId) {
+      const adminResult = await requireAdmin(session.user.id);
+      if (adminResult.response) {
+        return adminResult.response;
+      }
+    }
+
+    const parsed = parseLeaveInput(await request.json());
+    if (parsed.error !== undefined) {
+      return ApiErrors.validation(parsed.error);
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) {
+      return ApiErrors.notFound('User');
+    }
+
+    const leave = await prisma.userLeave.create({
+      data: { userId, ...parsed.value },
+    });
+
+    return apiSuccess(leave, 201);
+  } catch (error) {
+    console.error('Failed to create user leave:', error);
+    return ApiErrors.internal('Failed to create user leave');
+  }
+}
@@ -0,0 +1,42 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { replayWebhookDelivery, toWebhookDelivery } from '@/lib/webhooks';
+
+// POST /api/webhooks/[webhookId]/deliveries/[deliveryId]/replay - Resend a logged payload as a new delivery (admins)
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ webhookId: string; deliveryId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { webhookId, deliveryId } = await params;
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, webhookId },
+      select: { webhookId: true, event: true, payload: true },
+    });
+    if (!delivery) {
+      return ApiErrors.notFound('Delivery');
+    }
+
+    const replay = await replayWebhookDelivery(delivery);
+    if (!replay) {
+      return ApiErrors.internal('Failed to replay webhook delivery');
+    }
+
+    return apiSuccess(toWebhookDelivery(replay), 201);
+  } catch (error) {
+    console.error('Failed to replay webhook delivery:', error);
+    return ApiErrors.internal('Failed to replay webhook delivery');
+  }
+}
@@ -0,0 +1,69 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { toWebhookDelivery } from '@/lib/webhooks';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function parsePositiveInt(value: string | null, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed <= 0) return fallback;
+  return parsed;
+}
+
+// GET /api/webhooks/[webhookId]/deliveries - Delivery log, newest first (admins)
+// Supports: ?status=pending|success|failed, ?limit=N, ?cursor=<deliveryId>
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { webhookId } = await params;
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: webhookId },
+      select: { id: true },
+    });
+    if (!webhook) {
+      return ApiErrors.notFound('Webhook');
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status')?.trim() || '';
+    const cursor = searchParams.get('cursor')?.trim() || '';
+    const limit = Math.min(parsePositiveInt(searchParams.get('limit'), DEFAULT_LIMIT), MAX_LIMIT);
+
+    const rows = await prisma.webhookDelivery.findMany({
+      where: {
+        webhookId,
+        ...(status ? { status } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+
+    return apiSuccess({
+      items: items.map(toWebhookDelivery),
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+    });
+  } catch (error) {
+    console.error('Failed to fetch webhook deliveries:', error);
+    return ApiErrors.internal('Failed to fetch webhook deliveries');
+  }
+}
@@ -0,0 +1,115 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import {
+  generateWebhookSecret,
+  parseWebhookEvents,
+  parseWebhookName,
+  parseWebhookUrl,
+} from '@/lib/webhook-config';
+import { toWebhook, WEBHOOK_INCLUDE } from '@/lib/webhooks';
+
+// PATCH /api/webhooks/[webhookId] - Update, enable/disable or rotate the secret of a webhook (admins)
+// Body: any of { name, url, events, boardId, enabled, rotateSecret: true }
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { webhookId } = await params;
+
+    const existing = await prisma.webhook.findUnique({
+      where: { id: webhookId },
+      select: { id: true },
+    });
+    if (!existing) {
+      return ApiErrors.notFound('Webhook');
+    }
+
+    const body = await request.json();
+    const data: Prisma.WebhookUpdateInput = {};
+
+    if (body?.name !== undefined) {
+      const name = parseWebhookName(body.name);
+      if (name.error !== undefined) return ApiErrors.validation(name.error);
+      data.name = name.value;
+    }
+    if (body?.url !== undefined) {
+      const url = parseWebhookUrl(body.url);
+      if (url.error !== undefined) return ApiErrors.validation(url.error);
+      data.url = url.value;
+    }
+    if (body?.events !== undefined) {
+      const events = parseWebhookEvents(body.events);
+      if (events.error !== undefined) return ApiErrors.validation(events.error);
+      data.events = events.value;
+    }
+    if (body?.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') return ApiErrors.validation('enabled must be a boolean');
+      data.enabled = body.enabled;
+    }
+    if (body?.boardId !== undefined) {
+      const boardId = typeof body.boardId === 'string' && body.boardId.trim() ? body.boardId.trim() : null;
+      if (boardId) {
+        const board = await prisma.board.findUnique({ where: { id: boardId }, select: { id: true } });
+        if (!board) return ApiErrors.notFound('Board');
+        data.board = { connect: { id: boardId } };
+      } else {
+        data.board = { disconnect: true };
+      }
+    }
+    if (body?.rotateSecret === true) {
+      data.secret = generateWebhookSecret();
+    }
+
+    const webhook = await prisma.webhook.update({
+      where: { id: webhookId },
+      data,
+      include: WEBHOOK_INCLUDE,
+    });
+
+    return apiSuccess(toWebhook(webhook));
+  } catch (error) {
+    console.error('Failed to update webhook:', error);
+    return ApiErrors.internal('Failed to update webhook');
+  }
+}
+
+// DELETE /api/webhooks/[webhookId] - Delete a webhook and its delivery log (admins)
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { webhookId } = await params;
+
+    const { count } = await prisma.webhook.deleteMany({
+      where: { id: webhookId },
+    });
+    if (count === 0) {
+      return ApiErrors.notFound('Webhook');
+    }
+
+    return apiSuccess(null);
+  } catch (error) {
+    console.error('Failed to delete webhook:', error);
+    return ApiErrors.internal('Failed to delete webhook');
+  }
+}
@@ -0,0 +1,45 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import { sendTestWebhook, toWebhookDelivery } from '@/lib/webhooks';
+
+// POST /api/webhooks/[webhookId]/test - Send a signed `webhook.test` ping and return the delivery (admins)
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ webhookId: string }> }
+) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { webhookId } = await params;
+
+    const webhook = await prisma.webhook.findUnique({
+      where: { id: webhookId },
+      select: { id: true, name: true },
+    });
+    if (!webhook) {
+      return ApiErrors.notFound('Webhook');
+    }
+
+    const delivery = await sendTestWebhook(webhook, {
+      id: session.user.id,
+      name: session.user.name ?? null,
+    });
+    if (!delivery) {
+      return ApiErrors.internal('Failed to send test webhook');
+    }
+
+    return apiSuccess(toWebhookDelivery(delivery));
+  } catch (error) {
+    console.error('Failed to send test webhook:', error);
+    return ApiErrors.internal('Failed to send test webhook');
+  }
+}
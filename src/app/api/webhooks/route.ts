@@ -0,0 +1,87 @@
+import { prisma } from '@/lib/prisma';
+import {
+  requireAuth,
+  requireAdmin,
+  apiSuccess,
+  ApiErrors,
+} from '@/lib/api-utils';
+import {
+  generateWebhookSecret,
+  parseWebhookEvents,
+  parseWebhookName,
+  parseWebhookUrl,
+} from '@/lib/webhook-config';
+import { toWebhook, WEBHOOK_INCLUDE } from '@/lib/webhooks';
+
+// GET /api/webhooks - List webhook endpoints (admins)
+// Supports: ?boardId= (board-scoped webhooks plus global ones)
+export async function GET(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const { searchParams } = new URL(request.url);
+    const boardId = searchParams.get('boardId')?.trim() || '';
+
+    const webhooks = await prisma.webhook.findMany({
+      where: boardId ? { OR: [{ boardId }, { boardId: null }] } : {},
+      orderBy: { createdAt: 'asc' },
+      include: WEBHOOK_INCLUDE,
+    });
+
+    return apiSuccess(webhooks.map(toWebhook));
+  } catch (error) {
+    console.error('Failed to fetch webhooks:', error);
+    return ApiErrors.internal('Failed to fetch webhooks');
+  }
+}
+
+// POST /api/webhooks - Register a webhook endpoint for one board or all boards (admins)
+export async function POST(request: Request) {
+  try {
+    const { session, response: authResponse } = await requireAuth();
+    if (authResponse) return authResponse;
+
+    const { response: adminResponse } = await requireAdmin(session.user.id);
+    if (adminResponse) return adminResponse;
+
+    const body = await request.json();
+
+    const name = parseWebhookName(body?.name);
+    if (name.error !== undefined) return ApiErrors.validation(name.error);
+    const url = parseWebhookUrl(body?.url);
+    if (url.error !== undefined) return ApiErrors.validation(url.error);
+    const events = parseWebhookEvents(body?.events);
+    if (events.error !== undefined) return ApiErrors.validation(events.error);
+    if (body?.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      return ApiErrors.validation('enabled must be a boolean');
+    }
+
+    const boardId = typeof body?.boardId === 'string' && body.boardId.trim() ? body.boardId.trim() : null;
+    if (boardId) {
+      const board = await prisma.board.findUnique({ where: { id: boardId }, select: { id: true } });
+      if (!board) return ApiErrors.notFound('Board');
+    }
+
+    const webhook = await prisma.webhook.create({
+      data: {
+        name: name.value,
+        url: url.value,
+        events: events.value,
+        enabled: body?.enabled ?? true,
+        secret: generateWebhookSecret(),
+        boardId,
+        createdById: session.user.id,
+      },
+      include: WEBHOOK_INCLUDE,
+    });
+
+    return apiSuccess(toWebhook(webhook), 201);
+  } catch (error) {
+    console.error('Failed to create webhook:', error);
+    return ApiErrors.internal('Failed to create webhook');
+  }
+}
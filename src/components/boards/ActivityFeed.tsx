@@ -0,0 +1,258 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import type { ActivityEntry, ActivityFieldChange, ActivityPage } from '@/types';
+
+interface ActivityFeedProps {
+  boardId: string;
+  /** When set, only this card's history is shown and card titles are omitted. */
+  cardId?: string;
+  pageSize?: number;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'title',
+  description: 'description',
+  color: 'color',
+  featureImage: 'feature image',
+  name: 'name',
+  phase: 'phase',
+  startDate: 'start date',
+  endDate: 'end date',
+  durationWeeks: 'duration',
+  durationDays: 'duration',
+  blockTypeId: 'block type',
+  listId: 'linked list',
+  wipLimit: 'WIP limit',
+  wipLimitPerAssignee: 'per-assignee WIP limit',
+  'taskData.storyPoints': 'story points',
+  'taskData.deadline': 'deadline',
+  'taskData.linkedUserStoryId': 'linked story',
+  'taskData.linkedEpicId': 'linked epic',
+  'taskData.dependsOnTaskId': 'dependency',
+  'taskData.releaseMode': 'release mode',
+  'taskData.approvedByPo': 'PO approval',
+  'taskData.approvedByLead': 'Lead approval',
+  'userStoryData.linkedEpicId': 'linked epic',
+  'userStoryData.flags': 'flags',
+};
+
+function fieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const key = field.split('.').pop() || field;
+  return key.replace(/([A-Z])/g, ' $1').toLowerCase();
+}
+
+function describeChanges(changes: ActivityFieldChange[] | undefined): string {
+  if (!changes || changes.length === 0) return '';
+  const labels = Array.from(new Set(changes.map((change) => fieldLabel(change.field))));
+  return labels.join(', ');
+}
+
+function quoted(value: unknown): string {
+  return typeof value === 'string' && value ? `“${value}”` : '';
+}
+
+function describeActivityAction(entry: ActivityEntry, includeCardTitle: boolean): string {
+  const data = entry.data;
+  const card = includeCardTitle && data.cardTitle ? ` ${quoted(data.cardTitle)}` : '';
+
+  if (entry.entity === 'list') {
+    const list = quoted(data.listName);
+    switch (entry.action) {
+      case 'created': return `created list ${list}`;
+      case 'updated': return `updated ${describeChanges(data.changes)} of list ${list}`;
+      case 'deleted': return `deleted list ${list}`;
+      default: return `${entry.action} list ${list}`;
+    }
+  }
+
+  if (entry.entity === 'timeline_block') {
+    const block = data.blockTypeName ? `${data.blockTypeName} block` : 'timeline block';
+    switch (entry.action) {
+      case 'created': return `added a ${block}`;
+      case 'updated': return `changed ${describeChanges(data.changes)} of a ${block}`;
+      case 'moved': return `moved a ${block} by ${data.weeksDelta} week(s)`;
+      case 'deleted': return `removed a ${block}`;
+      default: return `${entry.action} a ${block}`;
+    }
+  }
+
+  switch (entry.action) {
+    case 'created':
+      return `created${card || ' this card'}${data.listName ? ` in ${quoted(data.listName)}` : ''}`;
+    case 'updated':
+      return `updated ${describeChanges(data.changes)}${card ? ` on${card}` : ''}`;
+    case 'moved':
+      return `${data.automatic ? 'auto-moved' : 'moved'}${card} from ${quoted(data.fromListName)} to ${quoted(data.toListName)}`;
+    case 'archived':
+      return `archived${card || ' this card'}`;
+    case 'restored':
+      return `restored${card || ' this card'}`;
+    case 'checklist_added':
+      return `added checklist ${quoted(data.checklistName)}${card ? ` to${card}` : ''}`;
+    case 'checklist_renamed':
+      return `renamed checklist ${quoted(data.from)} to ${quoted(data.to)}`;
+    case 'checklist_removed':
+      return `removed checklist ${quoted(data.checklistName)}${card ? ` from${card}` : ''}`;
+    case 'checklist_item_added':
+      return `added checklist item ${quoted(data.content)}`;
+    case 'checklist_item_completed':
+      return `completed ${quoted(data.content)}`;
+    case 'checklist_item_reopened':
+      return `reopened ${quoted(data.content)}`;
+    case 'checklist_item_edited':
+      return `edited checklist item ${quoted(data.to)}`;
+    case 'checklist_item_removed':
+      return `removed checklist item ${quoted(data.content)}`;
+    case 'assignee_added':
+      return `assigned ${data.assigneeName || 'a user'}${card ? ` to${card}` : ''}`;
+    case 'assignee_removed':
+      return `unassigned ${data.assigneeName || 'a user'}${card ? ` from${card}` : ''}`;
+    case 'tags_updated': {
+      const parts = [
+        Array.isArray(data.added) && data.added.length > 0 && `added ${data.added.map(quoted).join(', ')}`,
+        Array.isArray(data.removed) && data.removed.length > 0 && `removed ${data.removed.map(quoted).join(', ')}`,
+      ].filter(Boolean);
+      return `${parts.length > 0 ? `${parts.join(' and ')} tags` : 'changed tags'}${card ? ` on${card}` : ''}`;
+    }
+    case 'comment_added':
+      return `commented${card ? ` on${card}` : ''}: ${data.preview || ''}`;
+    case 'comment_edited':
+      return `edited a comment${card ? ` on${card}` : ''}`;
+    case 'comment_deleted':
+      return `deleted a comment${card ? ` on${card}` : ''}`;
+    case 'attachment_added':
+      return `attached ${quoted(data.attachmentName)}${card ? ` to${card}` : ''}`;
+    case 'attachment_renamed':
+      return `renamed attachment ${quoted(data.from)} to ${quoted(data.to)}`;
+    case 'attachment_removed':
+      return `removed attachment ${quoted(data.attachmentName)}`;
+    default:
+      return `${entry.action.replace(/_/g, ' ')}${card}`;
+  }
+}
+
+export function describeActivity(entry: ActivityEntry, includeCardTitle: boolean): string {
+  const description = describeActivityAction(entry, includeCardTitle);
+  const ruleName = entry.data.automationRuleName;
+  return ruleName ? `${description} (automation ${quoted(ruleName)})` : description;
+}
+
+export function ActivityFeed({ boardId, cardId, pageSize = 50 }: ActivityFeedProps) {
+  const [items, setItems] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchPage = useCallback(async (cursor: string | null): Promise<ActivityPage> => {
+    const params = new URLSearchParams({ limit: String(pageSize) });
+    if (cardId) params.set('cardId', cardId);
+    if (cursor) params.set('cursor', cursor);
+
+    const response = await fetch(`/api/boards/${boardId}/activity?${params.toString()}`);
+    const json = await response.json();
+    if (!response.ok || !json.success) {
+      throw new Error(json.error?.message || 'Failed to load activity');
+    }
+    return json.data as ActivityPage;
+  }, [boardId, cardId, pageSize]);
+
+  const loadInitial = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const page = await fetchPage(null);
+      setItems(page.items);
+      setNextCursor(page.nextCursor);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load activity');
+      setItems([]);
+      setNextCursor(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchPage]);
+
+  useEffect(() => {
+    void loadInitial();
+  }, [loadInitial]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setItems((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load activity');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="rounded-md border border-border-subtle bg-surface p-4 text-body text-text-tertiary">
+        Loading activity...
+      </div>
+    );
+  }
+
+  if (error && items.length === 0) {
+    return (
+      <div className="rounded-md border border-red-300 bg-red-50 p-4 text-body text-red-700">
+        {error}
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="rounded-md border border-border-subtle bg-surface p-4 text-body text-text-tertiary">
+        No activity recorded yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((entry) => (
+        <div key={entry.id} className="flex gap-3">
+          <Avatar className="h-7 w-7 shrink-0">
+            <AvatarImage src={entry.user.image || undefined} />
+            <AvatarFallback className="text-xs">
+              {entry.user.name?.[0] || '?'}
+            </AvatarFallback>
+          </Avatar>
+          <div className="min-w-0 flex-1">
+            <p className="text-body text-text-primary break-words">
+              <span className="font-medium">{entry.user.name || 'Someone'}</span>{' '}
+              {describeActivity(entry, !cardId)}
+            </p>
+            <span className="text-caption text-text-tertiary">
+              {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true })}
+            </span>
+          </div>
+        </div>
+      ))}
+      {nextCursor && (
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="w-full"
+          disabled={isLoadingMore}
+          onClick={() => void loadMore()}
+        >
+          {isLoadingMore ? 'Loading...' : 'Load more'}
+        </Button>
+      )}
+    </div>
+  );
+}
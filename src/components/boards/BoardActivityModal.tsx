@@ -0,0 +1,40 @@
+'use client';
+
+import { History } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ActivityFeed } from './ActivityFeed';
+
+interface BoardActivityModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardId: string;
+}
+
+export function BoardActivityModal({ isOpen, onClose, boardId }: BoardActivityModalProps) {
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Board Activity
+          </DialogTitle>
+          <DialogDescription>
+            Recent changes to cards, lists and the timeline on this board.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto pr-1">
+          {/* Only mount while open so the feed refetches each time it is shown */}
+          {isOpen && <ActivityFeed boardId={boardId} />}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
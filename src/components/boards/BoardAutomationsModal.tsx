@@ -0,0 +1,828 @@
+'use client';
+
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Pencil, Plus, Trash2, X, Zap } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiFetch } from '@/lib/api-client';
+import { cn } from '@/lib/utils';
+import {
+  useAutomationRules,
+  useAutomationRuns,
+  useDeleteAutomationRule,
+  useSaveAutomationRule,
+} from '@/hooks/api/use-automations';
+import type {
+  AutomationAction,
+  AutomationCondition,
+  AutomationRule,
+  AutomationRuleInput,
+  AutomationRunStatus,
+  AutomationTrigger,
+  AutomationTriggerType,
+  BoardMember,
+  BoardModuleTemplate,
+  List,
+} from '@/types';
+
+interface BoardAutomationsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardId: string;
+  lists: List[];
+  members: BoardMember[];
+  canEdit: boolean;
+}
+
+interface TagOption {
+  id: string;
+  name: string;
+}
+
+interface RuleLookups {
+  lists: List[];
+  members: BoardMember[];
+  tags: TagOption[];
+  modules: BoardModuleTemplate[];
+}
+
+// Radix Select items cannot use an empty value
+const ANY = '__any__';
+
+const TRIGGER_LABELS: Record<AutomationTriggerType, string> = {
+  card_entered_list: 'Card enters a list',
+  checklist_completed: 'Checklist is completed',
+  deadline_passed: 'Deadline passes',
+  approval_granted: 'Approval is granted',
+  card_created_from_module: 'Card is created from a module',
+};
+
+const CONDITION_DEFAULTS: Record<AutomationCondition['type'], AutomationCondition> = {
+  card_type: { type: 'card_type', cardType: 'TASK' },
+  has_tag: { type: 'has_tag', tagId: '' },
+  assignee: { type: 'assignee', userId: null },
+  story_points: { type: 'story_points', operator: 'gte', value: 1 },
+};
+
+const CONDITION_LABELS: Record<AutomationCondition['type'], string> = {
+  card_type: 'Card type is',
+  has_tag: 'Card has tag',
+  assignee: 'Assignee is',
+  story_points: 'Story points',
+};
+
+const ACTION_DEFAULTS: Record<AutomationAction['type'], AutomationAction> = {
+  move_card: { type: 'move_card', listId: '' },
+  assign_user: { type: 'assign_user', userId: '' },
+  add_tag: { type: 'add_tag', tagId: '' },
+  add_checklist: { type: 'add_checklist', name: '', items: [] },
+  notify: { type: 'notify', target: 'assignees', message: '"{card}" needs your attention' },
+  post_to_slack: { type: 'post_to_slack', message: '"{card}" on {board} moved to {list}' },
+  set_deadline: { type: 'set_deadline', daysFromNow: 7 },
+};
+
+const ACTION_LABELS: Record<AutomationAction['type'], string> = {
+  move_card: 'Move card to',
+  assign_user: 'Assign',
+  add_tag: 'Add tag',
+  add_checklist: 'Add checklist',
+  notify: 'Notify',
+  post_to_slack: 'Post to Slack',
+  set_deadline: 'Set deadline',
+};
+
+const STATUS_STYLES: Record<AutomationRunStatus, string> = {
+  success: 'bg-success',
+  partial: 'bg-warning',
+  failed: 'bg-error',
+};
+
+const EMPTY_RULE: AutomationRuleInput = {
+  name: '',
+  trigger: { type: 'card_entered_list' },
+  conditions: [],
+  actions: [ACTION_DEFAULTS.move_card],
+};
+
+function memberName(members: BoardMember[], userId: string | null | undefined): string {
+  const member = members.find((entry) => entry.user.id === userId);
+  return member?.user.name || member?.user.email || 'someone';
+}
+
+function describeTrigger(trigger: AutomationTrigger, lookups: RuleLookups): string {
+  switch (trigger.type) {
+    case 'card_entered_list':
+      return trigger.listId
+        ? `Card enters “${lookups.lists.find((list) => list.id === trigger.listId)?.name ?? 'a deleted list'}”`
+        : 'Card enters any list';
+    case 'checklist_completed':
+      return trigger.checklistName ? `Checklist “${trigger.checklistName}” is completed` : 'Any checklist is completed';
+    case 'approval_granted':
+      return trigger.approval === 'po'
+        ? 'PO approves'
+        : trigger.approval === 'lead' ? 'Lead approves' : 'Both PO and Lead have approved';
+    case 'card_created_from_module':
+      return trigger.moduleId
+        ? `Card is created from module ${lookups.modules.find((module) => module.id === trigger.moduleId)?.name ?? ''}`.trim()
+        : 'Card is created from any module';
+    case 'deadline_passed':
+      return 'Deadline passes';
+  }
+}
+
+function describeAction(action: AutomationAction, lookups: RuleLookups): string {
+  switch (action.type) {
+    case 'move_card':
+      return `move to “${lookups.lists.find((list) => list.id === action.listId)?.name ?? 'a deleted list'}”`;
+    case 'assign_user':
+      return `assign ${memberName(lookups.members, action.userId)}`;
+    case 'add_tag':
+      return `add tag ${lookups.tags.find((tag) => tag.id === action.tagId)?.name ?? ''}`.trim();
+    case 'add_checklist':
+      return `add checklist “${action.name}”`;
+    case 'notify':
+      return action.target === 'user' ? `notify ${memberName(lookups.members, action.userId)}` : `notify ${action.target}`;
+    case 'post_to_slack':
+      return 'post to Slack';
+    case 'set_deadline':
+      return `set deadline to ${action.daysFromNow} day(s) out`;
+  }
+}
+
+function toRuleInput(rule: AutomationRule): AutomationRuleInput {
+  return {
+    name: rule.name,
+    trigger: rule.trigger,
+    conditions: rule.conditions,
+    actions: rule.actions,
+  };
+}
+
+export function BoardAutomationsModal({
+  isOpen,
+  onClose,
+  boardId,
+  lists,
+  members,
+  canEdit,
+}: BoardAutomationsModalProps) {
+  const [tab, setTab] = useState('rules');
+  const [editing, setEditing] = useState<{ ruleId?: string; draft: AutomationRuleInput } | null>(null);
+
+  const { data: rules = [], isLoading } = useAutomationRules(boardId, isOpen);
+  const { data: runs, isLoading: isLoadingRuns } = useAutomationRuns(boardId, isOpen && tab === 'log');
+  const { data: tags = [] } = useQuery({
+    queryKey: ['settings', 'tags'],
+    queryFn: () => apiFetch<TagOption[]>('/api/settings/tags'),
+    enabled: isOpen,
+  });
+  const { data: modules = [] } = useQuery({
+    queryKey: ['settings', 'modules'],
+    queryFn: () => apiFetch<BoardModuleTemplate[]>('/api/settings/modules'),
+    enabled: isOpen && canEdit,
+  });
+  const saveRule = useSaveAutomationRule(boardId);
+  const deleteRule = useDeleteAutomationRule(boardId);
+
+  const lookups: RuleLookups = { lists, members, tags, modules };
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await saveRule.mutateAsync({ ruleId: editing.ruleId, input: editing.draft });
+      setEditing(null);
+      toast.success(editing.ruleId ? 'Rule updated' : 'Rule created');
+    } catch (error) {
+      toast.error('Failed to save rule', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleToggle = async (rule: AutomationRule, enabled: boolean) => {
+    try {
+      await saveRule.mutateAsync({ ruleId: rule.id, input: { enabled } });
+    } catch (error) {
+      toast.error('Failed to update rule', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleDelete = async (rule: AutomationRule) => {
+    if (!window.confirm(`Delete the rule “${rule.name}” and its run log?`)) return;
+    try {
+      await deleteRule.mutateAsync(rule.id);
+    } catch (error) {
+      toast.error('Failed to delete rule', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) {
+          setEditing(null);
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="h-5 w-5" />
+            Automations
+          </DialogTitle>
+          <DialogDescription>
+            When something happens to a card and the conditions match, run the actions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="rules">Rules</TabsTrigger>
+            <TabsTrigger value="log">Run log</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rules" className="max-h-[60vh] overflow-y-auto pr-1">
+            {editing ? (
+              <RuleEditor
+                draft={editing.draft}
+                lookups={lookups}
+                onChange={(draft) => setEditing({ ...editing, draft })}
+                onCancel={() => setEditing(null)}
+                onSave={handleSave}
+                isSaving={saveRule.isPending}
+              />
+            ) : (
+              <div className="space-y-2">
+                {isLoading ? (
+                  <div className="py-8 text-center text-text-tertiary">Loading rules...</div>
+                ) : rules.length === 0 ? (
+                  <div className="py-8 text-center text-body text-text-tertiary">
+                    No automation rules on this board yet.
+                  </div>
+                ) : (
+                  rules.map((rule) => (
+                    <div
+                      key={rule.id}
+                      className={cn(
+                        'flex items-start gap-3 rounded-md border border-border p-3',
+                        !rule.enabled && 'opacity-60'
+                      )}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="text-body font-medium text-text-primary">{rule.name}</div>
+                        <div className="text-caption text-text-secondary">
+                          {describeTrigger(rule.trigger, lookups)}
+                          {rule.conditions.length > 0 && ` (${rule.conditions.length} condition${rule.conditions.length === 1 ? '' : 's'})`}
+                          {' → '}
+                          {rule.actions.map((action) => describeAction(action, lookups)).join(', ')}
+                        </div>
+                      </div>
+                      {canEdit && (
+                        <div className="flex items-center gap-1">
+                          <Switch
+                            checked={rule.enabled}
+                            onCheckedChange={(checked) => handleToggle(rule, checked)}
+                            aria-label={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            onClick={() => setEditing({ ruleId: rule.id, draft: toRuleInput(rule) })}
+                            title="Edit rule"
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 text-text-tertiary hover:text-error"
+                            onClick={() => handleDelete(rule)}
+                            title="Delete rule"
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                      )}
+                    </div>
+                  ))
+                )}
+
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={() => setEditing({ draft: EMPTY_RULE })}>
+                    <Plus className="mr-1 h-4 w-4" />
+                    New rule
+                  </Button>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="log" className="max-h-[60vh] overflow-y-auto pr-1">
+            {isLoadingRuns ? (
+              <div className="py-8 text-center text-text-tertiary">Loading run log...</div>
+            ) : !runs || runs.items.length === 0 ? (
+              <div className="py-8 text-center text-body text-text-tertiary">No rules have run yet.</div>
+            ) : (
+              <div className="space-y-2">
+                {runs.items.map((run) => (
+                  <div key={run.id} className="flex items-start gap-2 text-caption">
+                    <span className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', STATUS_STYLES[run.status])} />
+                    <div className="min-w-0 flex-1">
+                      <div className="text-text-primary">
+                        <span className="font-medium">{run.ruleName}</span>
+                        {run.cardTitle && <span className="text-text-secondary"> on “{run.cardTitle}”</span>}
+                      </div>
+                      <div className="text-text-tertiary">
+                        {run.results.map((result) => result.message || result.type).join(' · ')}
+                      </div>
+                    </div>
+                    <span className="shrink-0 text-text-tertiary">
+                      {formatDistanceToNow(new Date(run.createdAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface RuleEditorProps {
+  draft: AutomationRuleInput;
+  lookups: RuleLookups;
+  onChange: (draft: AutomationRuleInput) => void;
+  onCancel: () => void;
+  onSave: () => void;
+  isSaving: boolean;
+}
+
+function RuleEditor({ draft, lookups, onChange, onCancel, onSave, isSaving }: RuleEditorProps) {
+  const setTrigger = (trigger: AutomationTrigger) => onChange({ ...draft, trigger });
+  const setCondition = (index: number, condition: AutomationCondition) =>
+    onChange({ ...draft, conditions: draft.conditions.map((entry, i) => (i === index ? condition : entry)) });
+  const setAction = (index: number, action: AutomationAction) =>
+    onChange({ ...draft, actions: draft.actions.map((entry, i) => (i === index ? action : entry)) });
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <Label>Name</Label>
+        <Input
+          value={draft.name}
+          onChange={(event) => onChange({ ...draft, name: event.target.value })}
+          placeholder="e.g. Approved tasks go to Done"
+          maxLength={100}
+        />
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>When</Label>
+        <div className="grid gap-2 md:grid-cols-2">
+          <Select
+            value={draft.trigger.type}
+            onValueChange={(type) => setTrigger({ type: type as AutomationTriggerType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TRIGGER_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <TriggerFields trigger={draft.trigger} lookups={lookups} onChange={setTrigger} />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>If (all must match)</Label>
+        {draft.conditions.map((condition, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Select
+              value={condition.type}
+              onValueChange={(type) => setCondition(index, CONDITION_DEFAULTS[type as AutomationCondition['type']])}
+            >
+              <SelectTrigger className="w-40 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(CONDITION_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex flex-1 gap-2">
+              <ConditionFields condition={condition} lookups={lookups} onChange={(next) => setCondition(index, next)} />
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 shrink-0 p-0"
+              onClick={() => onChange({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+              title="Remove condition"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...draft, conditions: [...draft.conditions, CONDITION_DEFAULTS.card_type] })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add condition
+        </Button>
+      </div>
+
+      <div className="space-y-1.5">
+        <Label>Then</Label>
+        {draft.actions.map((action, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <Select
+              value={action.type}
+              onValueChange={(type) => setAction(index, ACTION_DEFAULTS[type as AutomationAction['type']])}
+            >
+              <SelectTrigger className="w-40 shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(ACTION_LABELS).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex flex-1 flex-col gap-2">
+              <ActionFields action={action} lookups={lookups} onChange={(next) => setAction(index, next)} />
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 shrink-0 p-0"
+              onClick={() => onChange({ ...draft, actions: draft.actions.filter((_, i) => i !== index) })}
+              disabled={draft.actions.length === 1}
+              title="Remove action"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ ...draft, actions: [...draft.actions, ACTION_DEFAULTS.notify] })}
+        >
+          <Plus className="mr-1 h-4 w-4" />
+          Add action
+        </Button>
+        <p className="text-tiny text-text-tertiary">
+          Messages can use {'{card}'}, {'{list}'} and {'{board}'}.
+        </p>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button onClick={onSave} disabled={isSaving || !draft.name.trim()}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save rule
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function ListSelect({
+  value,
+  lists,
+  onChange,
+  allowAny = false,
+}: {
+  value: string | undefined;
+  lists: List[];
+  onChange: (listId: string | undefined) => void;
+  allowAny?: boolean;
+}) {
+  return (
+    <Select value={value || (allowAny ? ANY : undefined)} onValueChange={(next) => onChange(next === ANY ? undefined : next)}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select list" />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAny && <SelectItem value={ANY}>Any list</SelectItem>}
+        {lists.map((list) => (
+          <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function MemberSelect({
+  value,
+  members,
+  onChange,
+}: {
+  value: string | undefined;
+  members: BoardMember[];
+  onChange: (userId: string) => void;
+}) {
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select member" />
+      </SelectTrigger>
+      <SelectContent>
+        {members.map((member) => (
+          <SelectItem key={member.user.id} value={member.user.id}>
+            {member.user.name || member.user.email}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TagSelect({
+  value,
+  tags,
+  onChange,
+}: {
+  value: string;
+  tags: TagOption[];
+  onChange: (tagId: string) => void;
+}) {
+  return (
+    <Select value={value || undefined} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select tag" />
+      </SelectTrigger>
+      <SelectContent>
+        {tags.map((tag) => (
+          <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TriggerFields({
+  trigger,
+  lookups,
+  onChange,
+}: {
+  trigger: AutomationTrigger;
+  lookups: RuleLookups;
+  onChange: (trigger: AutomationTrigger) => void;
+}) {
+  switch (trigger.type) {
+    case 'card_entered_list':
+      return (
+        <ListSelect
+          value={trigger.listId}
+          lists={lookups.lists}
+          onChange={(listId) => onChange({ type: trigger.type, listId })}
+          allowAny
+        />
+      );
+    case 'checklist_completed':
+      return (
+        <Input
+          value={trigger.checklistName ?? ''}
+          onChange={(event) => onChange({ type: trigger.type, checklistName: event.target.value })}
+          placeholder="Checklist name (any if empty)"
+        />
+      );
+    case 'approval_granted':
+      return (
+        <Select
+          value={trigger.approval ?? 'both'}
+          onValueChange={(approval) => onChange({ type: trigger.type, approval: approval as 'po' | 'lead' | 'both' })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="both">Both PO and Lead</SelectItem>
+            <SelectItem value="po">PO</SelectItem>
+            <SelectItem value="lead">Lead</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case 'card_created_from_module':
+      return (
+        <Select
+          value={trigger.moduleId || ANY}
+          onValueChange={(moduleId) => onChange({ type: trigger.type, moduleId: moduleId === ANY ? undefined : moduleId })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any module</SelectItem>
+            {lookups.modules.map((module) => (
+              <SelectItem key={module.id} value={module.id}>{module.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'deadline_passed':
+      return null;
+  }
+}
+
+function ConditionFields({
+  condition,
+  lookups,
+  onChange,
+}: {
+  condition: AutomationCondition;
+  lookups: RuleLookups;
+  onChange: (condition: AutomationCondition) => void;
+}) {
+  switch (condition.type) {
+    case 'card_type':
+      return (
+        <Select
+          value={condition.cardType}
+          onValueChange={(cardType) => onChange({ ...condition, cardType: cardType as typeof condition.cardType })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="TASK">Task</SelectItem>
+            <SelectItem value="USER_STORY">User story</SelectItem>
+            <SelectItem value="EPIC">Epic</SelectItem>
+            <SelectItem value="UTILITY">Utility</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    case 'has_tag':
+      return <TagSelect value={condition.tagId} tags={lookups.tags} onChange={(tagId) => onChange({ ...condition, tagId })} />;
+    case 'assignee':
+      return (
+        <Select
+          value={condition.userId ?? ANY}
+          onValueChange={(userId) => onChange({ ...condition, userId: userId === ANY ? null : userId })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Nobody (unassigned)</SelectItem>
+            {lookups.members.map((member) => (
+              <SelectItem key={member.user.id} value={member.user.id}>
+                {member.user.name || member.user.email}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'story_points':
+      return (
+        <>
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) => onChange({ ...condition, operator: operator as typeof condition.operator })}
+          >
+            <SelectTrigger className="w-24">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="gte">at least</SelectItem>
+              <SelectItem value="lte">at most</SelectItem>
+              <SelectItem value="eq">exactly</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            value={condition.value}
+            onChange={(event) => onChange({ ...condition, value: Number(event.target.value) || 0 })}
+          />
+        </>
+      );
+  }
+}
+
+function ActionFields({
+  action,
+  lookups,
+  onChange,
+}: {
+  action: AutomationAction;
+  lookups: RuleLookups;
+  onChange: (action: AutomationAction) => void;
+}) {
+  switch (action.type) {
+    case 'move_card':
+      return <ListSelect value={action.listId} lists={lookups.lists} onChange={(listId) => onChange({ ...action, listId: listId ?? '' })} />;
+    case 'assign_user':
+      return <MemberSelect value={action.userId} members={lookups.members} onChange={(userId) => onChange({ ...action, userId })} />;
+    case 'add_tag':
+      return <TagSelect value={action.tagId} tags={lookups.tags} onChange={(tagId) => onChange({ ...action, tagId })} />;
+    case 'add_checklist':
+      return (
+        <>
+          <Input
+            value={action.name}
+            onChange={(event) => onChange({ ...action, name: event.target.value })}
+            placeholder="Checklist name"
+          />
+          <Textarea
+            value={action.items.join('\n')}
+            onChange={(event) => onChange({ ...action, items: event.target.value.split('\n') })}
+            placeholder="One item per line"
+            rows={3}
+          />
+        </>
+      );
+    case 'notify':
+      return (
+        <>
+          <Select
+            value={action.target}
+            onValueChange={(target) => onChange({ ...action, target: target as typeof action.target })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="assignees">Assignees</SelectItem>
+              <SelectItem value="approvers">PO and Lead</SelectItem>
+              <SelectItem value="user">A specific member</SelectItem>
+            </SelectContent>
+          </Select>
+          {action.target === 'user' && (
+            <MemberSelect value={action.userId} members={lookups.members} onChange={(userId) => onChange({ ...action, userId })} />
+          )}
+          <Input
+            value={action.message}
+            onChange={(event) => onChange({ ...action, message: event.target.value })}
+            placeholder="Message"
+          />
+        </>
+      );
+    case 'post_to_slack':
+      return (
+        <>
+          <Input
+            value={action.channelId ?? ''}
+            onChange={(event) => onChange({ ...action, channelId: event.target.value || undefined })}
+            placeholder="Channel ID (board channel if empty)"
+          />
+          <Input
+            value={action.message}
+            onChange={(event) => onChange({ ...action, message: event.target.value })}
+            placeholder="Message"
+          />
+        </>
+      );
+    case 'set_deadline':
+      return (
+        <div className="flex items-center gap-2 text-body text-text-secondary">
+          <Input
+            type="number"
+            min={0}
+            max={365}
+            className="w-24"
+            value={action.daysFromNow}
+            onChange={(event) => onChange({ ...action, daysFromNow: Math.max(0, Math.round(Number(event.target.value) || 0)) })}
+          />
+          days from now
+        </div>
+      );
+  }
+}
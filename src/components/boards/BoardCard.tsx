@@ -5,7 +5,7 @@ import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api-client';
-import { Layers, FileText, MoreHorizontal, Copy, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
+import { Layers, FileText, MoreHorizontal, Copy, Archive, ArchiveRestore, Trash2, Download } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -123,6 +123,12 @@ export function BoardCard({
     }
   };
 
+  const handleExport = (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    window.location.href = `/api/boards/${id}/export`;
+  };
+
   const handleArchive = async (e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -298,6 +304,10 @@ export function BoardCard({
                   <ArchiveRestore className="mr-2 h-4 w-4" />
                   {isArchiving ? 'Restoring...' : 'Restore Board'}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleExport}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export Board
+                </DropdownMenuItem>
                 {canDelete && (
                   <>
                     <DropdownMenuSeparator />
@@ -328,6 +338,10 @@ export function BoardCard({
                   <FileText className="mr-2 h-4 w-4" />
                   {isCloning ? 'Creating...' : 'Save as Template'}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={handleExport}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export Board
+                </DropdownMenuItem>
                 <DropdownMenuSeparator />
                 <DropdownMenuItem
                   onClick={handleArchive}
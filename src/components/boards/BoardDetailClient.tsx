@@ -4,6 +4,7 @@ import { useCallback, useEffect, useMemo } from 'react';
 import { BoardViewWrapper } from '@/components/boards/BoardViewWrapper';
 import { BoardSkeleton } from '@/components/boards/BoardSkeleton';
 import { useBoard } from '@/hooks/api/use-boards';
+import { useBoardEvents } from '@/hooks/api/use-board-events';
 import type { Board, WeeklyProgress } from '@/types';
 
 interface BoardDetailClientProps {
@@ -44,6 +45,7 @@ export function BoardDetailClient({
     isFetching: isFetchingFullData,
     refetch: refetchFullBoard,
   } = useBoard(boardId, 'full', false);
+  const { viewers } = useBoardEvents(boardId, currentUserId);
 
   const lightData = useMemo(
     () => (rawLightData ? mapBoardPayload(rawLightData as Record<string, unknown>) : null),
@@ -108,8 +110,10 @@ export function BoardDetailClient({
       board={board}
       currentUserId={currentUserId}
       weeklyProgress={weeklyProgress}
+      viewers={viewers}
       isAdmin={canEdit}
       canEditSpine={!isViewer}
+      canImportCards={!isViewer}
       canViewQualitySummaries={canViewQualitySummaries}
       hasFullData={hasFullData}
       isLoadingFullData={isFetchingFullData}
@@ -1,10 +1,10 @@
 'use client';
 
 import Link from 'next/link';
-import { ArrowLeft, Settings, CheckSquare, Layers, Bone } from 'lucide-react';
+import { ArrowLeft, Settings, CheckSquare, Layers, Bone, History, Zap, CalendarDays, Table2, FileSpreadsheet } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import type { BoardViewMode, BoardSettings } from '@/types';
+import type { BoardViewMode, BoardSettings, BoardViewer } from '@/types';
 import { getProjectDisplayName } from '@/lib/project-utils';
 import { cn } from '@/lib/utils';
 
@@ -20,12 +20,19 @@ interface BoardHeaderProps {
   settings?: BoardSettings;
   memberCount: number;
   members: BoardHeaderMember[];
+  /** Other people with this board open right now. */
+  viewers?: BoardViewer[];
   viewMode?: BoardViewMode;
   onViewModeChange?: (mode: BoardViewMode) => void;
   onPlanningPrefetch?: () => void;
   onSpinePrefetch?: () => void;
+  onCalendarPrefetch?: () => void;
+  onTablePrefetch?: () => void;
   onSettingsClick?: () => void;
   onMembersClick?: () => void;
+  onActivityClick?: () => void;
+  onAutomationsClick?: () => void;
+  onImportClick?: () => void;
   showSettings?: boolean;
 }
 
@@ -34,12 +41,18 @@ export function BoardHeader({
   settings,
   memberCount,
   members,
+  viewers = [],
   viewMode = 'tasks',
   onViewModeChange,
   onPlanningPrefetch,
   onSpinePrefetch,
+  onCalendarPrefetch,
+  onTablePrefetch,
   onSettingsClick,
   onMembersClick,
+  onActivityClick,
+  onAutomationsClick,
+  onImportClick,
   showSettings = true,
 }: BoardHeaderProps) {
   const displayMembers = members.slice(0, 6);
@@ -102,10 +115,61 @@ export function BoardHeader({
             <Bone className="h-3.5 w-3.5" />
             Spine
           </button>
+          <button
+            type="button"
+            onClick={() => onViewModeChange('calendar')}
+            onMouseEnter={onCalendarPrefetch}
+            onFocus={onCalendarPrefetch}
+            className={cn(
+              'flex items-center gap-1.5 rounded-md px-3 py-1.5 text-caption font-medium transition-colors',
+              viewMode === 'calendar'
+                ? 'bg-background text-text-primary shadow-sm'
+                : 'text-text-tertiary hover:text-text-secondary'
+            )}
+          >
+            <CalendarDays className="h-3.5 w-3.5" />
+            Calendar
+          </button>
+          <button
+            type="button"
+            onClick={() => onViewModeChange('table')}
+            onMouseEnter={onTablePrefetch}
+            onFocus={onTablePrefetch}
+            className={cn(
+              'flex items-center gap-1.5 rounded-md px-3 py-1.5 text-caption font-medium transition-colors',
+              viewMode === 'table'
+                ? 'bg-background text-text-primary shadow-sm'
+                : 'text-text-tertiary hover:text-text-secondary'
+            )}
+          >
+            <Table2 className="h-3.5 w-3.5" />
+            Table
+          </button>
         </div>
       )}
 
       <div className="flex items-center gap-2">
+        {viewers.length > 0 && (
+          <div
+            className="flex items-center gap-1.5 px-1"
+            title={`Also viewing: ${viewers.map((viewer) => viewer.name || 'Unknown').join(', ')}`}
+          >
+            <span className="h-1.5 w-1.5 rounded-full bg-success" />
+            <div className="flex -space-x-1.5">
+              {viewers.slice(0, 4).map((viewer) => (
+                <Avatar key={viewer.id} className="h-6 w-6 border-2 border-success">
+                  <AvatarImage src={viewer.image || undefined} />
+                  <AvatarFallback className="text-[9px]">
+                    {(viewer.name || '?')[0].toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+              ))}
+            </div>
+            {viewers.length > 4 && (
+              <span className="text-caption text-text-tertiary">+{viewers.length - 4}</span>
+            )}
+          </div>
+        )}
         <Button
           type="button"
           variant="ghost"
@@ -136,6 +200,42 @@ export function BoardHeader({
             <span className="text-caption text-text-tertiary">0 members</span>
           )}
         </Button>
+        {onActivityClick && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={onActivityClick}
+            title="Board activity"
+          >
+            <History className="h-4 w-4" />
+          </Button>
+        )}
+        {onAutomationsClick && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={onAutomationsClick}
+            title="Automations"
+          >
+            <Zap className="h-4 w-4" />
+          </Button>
+        )}
+        {onImportClick && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={onImportClick}
+            title="Import cards from CSV"
+          >
+            <FileSpreadsheet className="h-4 w-4" />
+          </Button>
+        )}
         {showSettings && (
           <Button
             type="button"
@@ -4,7 +4,7 @@ import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useQueryClient } from '@tanstack/react-query';
 import { useRef } from 'react';
-import { Settings, Save, AlertTriangle, Archive, Copy, FileText, Paintbrush, ImageIcon, X, Ban } from 'lucide-react';
+import { Settings, Save, AlertTriangle, Archive, Copy, FileText, Paintbrush, ImageIcon, X, Ban, ShieldCheck } from 'lucide-react';
 import {
   Dialog,
   DialogContent,
@@ -15,10 +15,32 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import type { BoardSettings } from '@/types';
+import type { BoardSettings, EnforcementMode } from '@/types';
 import { BOARD_GRADIENTS } from '@/lib/board-backgrounds';
 import { cn } from '@/lib/utils';
 
+const ENFORCEMENT_MODES: Array<{ value: EnforcementMode; label: string }> = [
+  { value: 'warn', label: 'Warn' },
+  { value: 'block', label: 'Block' },
+];
+
+const ENFORCEMENT_RULES: Array<{
+  key: 'dependencyEnforcement' | 'wipLimitEnforcement';
+  label: string;
+  description: string;
+}> = [
+  {
+    key: 'dependencyEnforcement',
+    label: 'Task dependencies',
+    description: 'Starting a task before the task it depends on is done.',
+  },
+  {
+    key: 'wipLimitEnforcement',
+    label: 'WIP limits',
+    description: 'Moving or adding a card to a list that is at its limit.',
+  },
+];
+
 interface BoardSettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -254,6 +276,38 @@ export function BoardSettingsModal({
             </div>
           </div>
 
+          {/* Board Rules Section */}
+          <div className="space-y-4 pt-4 border-t border-border">
+            <h3 className="flex items-center gap-2 text-title font-semibold">
+              <ShieldCheck className="h-4 w-4" />
+              Board Rules
+            </h3>
+            <p className="text-caption text-text-tertiary">
+              Choose whether breaking a rule only shows a warning or blocks the move.
+            </p>
+            {ENFORCEMENT_RULES.map((rule) => (
+              <div key={rule.key} className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-body font-medium text-text-primary">{rule.label}</p>
+                  <p className="text-caption text-text-tertiary">{rule.description}</p>
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  {ENFORCEMENT_MODES.map((mode) => (
+                    <Button
+                      key={mode.value}
+                      type="button"
+                      size="sm"
+                      variant={(settings[rule.key] ?? 'warn') === mode.value ? 'default' : 'outline'}
+                      onClick={() => setSettings((prev) => ({ ...prev, [rule.key]: mode.value }))}
+                    >
+                      {mode.label}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
           {/* Clone & Template Section */}
           <div className="space-y-4 pt-4 border-t border-border">
             <h3 className="flex items-center gap-2 text-title font-semibold">
@@ -24,7 +24,7 @@ import { toast } from 'sonner';
 import { useBoardMutations } from '@/hooks/api/use-board-mutations';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { List } from './List';
+import { List, type ListWipLimits } from './List';
 import { CardCompact } from '@/components/cards/CardCompact';
 import { CardModal } from '@/components/cards/CardModal';
 import { ReviewSubmissionDialog } from '@/components/cards/ReviewSubmissionDialog';
@@ -255,9 +255,13 @@ export function BoardView({ board: initialBoard, currentUserId, canViewQualitySu
       sourceListId,
       destinationListId,
       newPosition,
+    }).then(({ warnings }) => {
+      warnings.forEach((warning) => toast.warning(warning));
     }).catch((error) => {
       console.error('Failed to reorder card:', error);
-      toast.error('Failed to move card');
+      toast.error('Failed to move card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
       mutations.invalidateBoard();
     });
   };
@@ -274,9 +278,13 @@ export function BoardView({ board: initialBoard, currentUserId, canViewQualitySu
       sourceListId: move.sourceListId,
       destinationListId: move.destinationListId,
       newPosition: move.newPosition,
+    }).then(({ warnings }) => {
+      warnings.forEach((warning) => toast.warning(warning));
     }).catch((error) => {
       console.error('Failed to move card:', error);
-      toast.error('Failed to move card');
+      toast.error('Failed to move card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
       mutations.invalidateBoard();
     });
   };
@@ -317,9 +325,13 @@ export function BoardView({ board: initialBoard, currentUserId, canViewQualitySu
       sourceListId: reviewModeListId,
       destinationListId: targetListId,
       newPosition: 0,
+    }).then(({ warnings }) => {
+      warnings.forEach((warning) => toast.warning(warning));
     }).catch((error) => {
       console.error('Failed to move card:', error);
-      toast.error('Failed to move card');
+      toast.error('Failed to move card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
       mutations.invalidateBoard();
     });
   };
@@ -416,7 +428,9 @@ export function BoardView({ board: initialBoard, currentUserId, canViewQualitySu
         })),
       }));
       setSelectedCard((prev) => (prev?.id === tempId ? null : prev));
-      toast.error('Failed to create card');
+      toast.error('Failed to create card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
     }
   }, [mutations]);
 
@@ -477,6 +491,23 @@ export function BoardView({ board: initialBoard, currentUserId, canViewQualitySu
     }
   }, [board.id]);
 
+  const handleUpdateWipLimits = useCallback(async (listId: string, limits: ListWipLimits) => {
+    try {
+      const updated = await mutations.updateList(listId, limits);
+      setBoard((prev) => ({
+        ...prev,
+        lists: prev.lists.map((l) => (
+          l.id === listId
+            ? { ...l, wipLimit: updated.wipLimit ?? null, wipLimitPerAssignee: updated.wipLimitPerAssignee ?? null }
+            : l
+        )),
+      }));
+    } catch (error) {
+      console.error('Failed to update WIP limits:', error);
+      toast.error('Failed to update WIP limits');
+    }
+  }, [mutations]);
+
   const handleAddList = async () => {
     if (!newListName.trim()) return;
 
@@ -530,6 +561,9 @@ export function BoardView({ board: initialBoard, currentUserId, canViewQualitySu
             onAddCard={handleAddCard}
             onCardClick={handleCardClick}
             onDeleteList={handleDeleteList}
+            wipLimit={list.wipLimit ?? null}
+            wipLimitPerAssignee={list.wipLimitPerAssignee ?? null}
+            onUpdateWipLimits={handleUpdateWipLimits}
           />
         ))}
         <div className="w-[280px] shrink-0">
@@ -607,6 +641,9 @@ export function BoardView({ board: initialBoard, currentUserId, canViewQualitySu
                   onAddCard={handleAddCard}
                   onCardClick={handleCardClick}
                   onDeleteList={handleDeleteList}
+                  wipLimit={list.wipLimit ?? null}
+                  wipLimitPerAssignee={list.wipLimitPerAssignee ?? null}
+                  onUpdateWipLimits={handleUpdateWipLimits}
                   extraHeaderActions={isReviewList ? (
                     <Button
                       variant="ghost"
@@ -7,10 +7,14 @@ import { BoardHeader } from './BoardHeader';
 import { BoardView } from './BoardView';
 import { BoardSettingsModal } from './BoardSettingsModal';
 import { BoardMembersModal } from './BoardMembersModal';
-import type { Board, BoardViewMode, BoardSettings, WeeklyProgress } from '@/types';
+import { BoardActivityModal } from './BoardActivityModal';
+import { BoardAutomationsModal } from './BoardAutomationsModal';
+import { CsvImportModal } from './CsvImportModal';
+import type { Board, BoardViewMode, BoardSettings, BoardViewer, WeeklyProgress } from '@/types';
 import { getBoardBackgroundStyle } from '@/lib/board-backgrounds';
 import { recordClientPerf } from '@/lib/perf-client';
 import { cn } from '@/lib/utils';
+import { useUndoShortcuts } from '@/hooks/useUndoHistory';
 
 const TasksView = dynamic(
   () => import('./views/TasksView').then((module) => module.TasksView)
@@ -18,6 +22,12 @@ const TasksView = dynamic(
 const PlanningView = dynamic(
   () => import('./views/PlanningView').then((module) => module.PlanningView)
 );
+const CalendarView = dynamic(
+  () => import('./views/CalendarView').then((module) => module.CalendarView)
+);
+const TableView = dynamic(
+  () => import('./views/TableView').then((module) => module.TableView)
+);
 const SpineTrackerView = dynamic(
   () => import('@/components/spine-tracker').then((module) => module.SpineTrackerView)
 );
@@ -26,8 +36,11 @@ interface BoardViewWrapperProps {
   board: Board;
   currentUserId?: string;
   weeklyProgress?: WeeklyProgress[];
+  viewers?: BoardViewer[];
   isAdmin?: boolean;
   canEditSpine?: boolean;
+  /** Viewers cannot create cards, so they get no CSV import. */
+  canImportCards?: boolean;
   canViewQualitySummaries?: boolean;
   hasFullData?: boolean;
   isLoadingFullData?: boolean;
@@ -38,8 +51,10 @@ export function BoardViewWrapper({
   board: initialBoard,
   currentUserId,
   weeklyProgress = [],
+  viewers,
   isAdmin = false,
   canEditSpine = true,
+  canImportCards = true,
   canViewQualitySummaries = false,
   hasFullData = true,
   isLoadingFullData = false,
@@ -53,8 +68,13 @@ export function BoardViewWrapper({
   const [hasMountedSpineTracker, setHasMountedSpineTracker] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [membersOpen, setMembersOpen] = useState(false);
+  const [activityOpen, setActivityOpen] = useState(false);
+  const [automationsOpen, setAutomationsOpen] = useState(false);
+  const [csvImportOpen, setCsvImportOpen] = useState(false);
   const pendingViewSwitchRef = useRef<{ mode: BoardViewMode; startMs: number } | null>(null);
 
+  useUndoShortcuts(board.id);
+
   useEffect(() => {
     setBoard(initialBoard);
   }, [initialBoard]);
@@ -90,6 +110,14 @@ export function BoardViewWrapper({
     void import('@/components/spine-tracker');
   }, []);
 
+  const prefetchCalendarView = useCallback(() => {
+    void import('./views/CalendarView');
+  }, []);
+
+  const prefetchTableView = useCallback(() => {
+    void import('./views/TableView');
+  }, []);
+
   const handleViewModeChange = async (mode: BoardViewMode) => {
     pendingViewSwitchRef.current = { mode, startMs: performance.now() };
     setViewMode(mode);
@@ -158,12 +186,18 @@ export function BoardViewWrapper({
         settings={board.settings}
         memberCount={board.members.length}
         members={headerMembers}
+        viewers={viewers}
         viewMode={viewMode}
         onViewModeChange={handleViewModeChange}
         onPlanningPrefetch={prefetchPlanningData}
         onSpinePrefetch={prefetchSpineView}
+        onCalendarPrefetch={prefetchCalendarView}
+        onTablePrefetch={prefetchTableView}
         onSettingsClick={() => setSettingsOpen(true)}
         onMembersClick={() => setMembersOpen(true)}
+        onActivityClick={() => setActivityOpen(true)}
+        onAutomationsClick={() => setAutomationsOpen(true)}
+        onImportClick={canImportCards ? () => setCsvImportOpen(true) : undefined}
         showSettings={isAdmin}
       />
       <div className="flex-1 overflow-hidden">
@@ -194,6 +228,22 @@ export function BoardViewWrapper({
                 initialCardId={initialCardId}
               />
             )
+          ) : viewMode === 'calendar' ? (
+            <CalendarView
+              board={board}
+              currentUserId={currentUserId}
+              isAdmin={isAdmin}
+              canViewQualitySummaries={canViewQualitySummaries}
+              initialCardId={initialCardId}
+            />
+          ) : viewMode === 'table' ? (
+            <TableView
+              board={board}
+              currentUserId={currentUserId}
+              isAdmin={isAdmin}
+              canViewQualitySummaries={canViewQualitySummaries}
+              initialCardId={initialCardId}
+            />
           ) : viewMode === 'spine' ? null : (
             // Fallback to original BoardView for legacy
             <BoardView board={board} currentUserId={currentUserId} canViewQualitySummaries={canViewQualitySummaries} />
@@ -229,6 +279,30 @@ export function BoardViewWrapper({
         currentUserId={currentUserId}
         isAdmin={isAdmin}
       />
+
+      {/* Activity Modal */}
+      <BoardActivityModal
+        isOpen={activityOpen}
+        onClose={() => setActivityOpen(false)}
+        boardId={board.id}
+      />
+
+      {/* Automations Modal */}
+      <BoardAutomationsModal
+        isOpen={automationsOpen}
+        onClose={() => setAutomationsOpen(false)}
+        boardId={board.id}
+        lists={board.lists}
+        members={board.members}
+        canEdit={isAdmin}
+      />
+
+      {/* CSV Import Modal */}
+      <CsvImportModal
+        isOpen={csvImportOpen}
+        onClose={() => setCsvImportOpen(false)}
+        boardId={board.id}
+      />
     </div>
   );
 }
@@ -7,6 +7,7 @@ import { ArchivedBoardsSection } from '@/components/boards/ArchivedBoardsSection
 import { BoardsSkeleton } from '@/components/boards/BoardsSkeleton';
 import { CreateBoardDialog } from '@/components/boards/CreateBoardDialog';
 import { CreateTemplateBoardDialog } from '@/components/boards/CreateTemplateBoardDialog';
+import { ImportBoardButton } from '@/components/boards/ImportBoardButton';
 import { useBoards } from '@/hooks/api/use-boards';
 
 interface BoardsPageClientProps {
@@ -41,7 +42,10 @@ export function BoardsPageClient({ isAdmin, isSuperAdmin = false, currentUserId
         <h2 className="text-title font-medium text-text-secondary">
           Your Boards ({regularBoards.length})
         </h2>
-        <CreateBoardDialog />
+        <div className="flex items-center gap-2">
+          <ImportBoardButton />
+          <CreateBoardDialog />
+        </div>
       </div>
 
       {regularBoards.length === 0 ? (
@@ -0,0 +1,297 @@
+'use client';
+
+import { useMemo, useState, type ReactNode } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Archive, ChevronDown, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { apiFetch } from '@/lib/api-client';
+import { STORY_POINT_VALUES } from '@/lib/utils';
+import { useBoardMutations } from '@/hooks/api/use-board-mutations';
+import type { BulkCardOperations } from '@/lib/bulk-card-operations';
+import type { Board } from '@/types';
+
+interface TagOption {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+const DEADLINE_SHIFTS = [-7, -1, 1, 7];
+
+interface BulkActionBarProps {
+  board: Board;
+  selectedIds: ReadonlySet<string>;
+  onClear: () => void;
+  children?: ReactNode; // Extra detail next to the count, e.g. cards hidden by filters
+}
+
+/** Actions for the current multi-selection; every change is one request to the bulk endpoint. */
+export function BulkActionBar({ board, selectedIds, onClear, children }: BulkActionBarProps) {
+  const mutations = useBoardMutations(board.id);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmArchive, setConfirmArchive] = useState(false);
+  const { data: tags = [] } = useQuery({
+    queryKey: ['settings', 'tags'],
+    queryFn: () => apiFetch<TagOption[]>('/api/settings/tags'),
+  });
+
+  const taskLists = useMemo(() => board.lists.filter((list) => (list.viewType ?? 'TASKS') === 'TASKS'), [board.lists]);
+  const planningLists = useMemo(() => board.lists.filter((list) => list.viewType === 'PLANNING'), [board.lists]);
+  const stories = useMemo(() => board.lists.flatMap((list) =>
+    list.cards.filter((card) => card.type === 'USER_STORY' && !card.archivedAt)
+  ), [board.lists]);
+
+  const count = selectedIds.size;
+  const noun = count === 1 ? 'card' : 'cards';
+
+  const apply = async (operations: BulkCardOperations, success: string) => {
+    setIsSaving(true);
+    try {
+      const result = await mutations.bulkUpdateCards([...selectedIds], operations);
+      result.warnings.forEach((warning) => toast.warning(warning));
+      const skipped = result.skipped.length > 0 ? ` (${result.skipped.length} unchanged)` : '';
+      toast.success(`${success} ${result.updated} ${result.updated === 1 ? 'card' : 'cards'}${skipped}`);
+      if (operations.archive) onClear();
+    } catch (error) {
+      toast.error('Failed to update cards', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 border-b border-border bg-primary/10 px-4 py-1.5 text-caption">
+      <span className="font-medium">{count} selected</span>
+      {children}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 gap-1" disabled={isSaving}>
+            Move
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="max-h-80 overflow-y-auto">
+          <DropdownMenuLabel>Tasks</DropdownMenuLabel>
+          {taskLists.map((list) => (
+            <DropdownMenuItem key={list.id} onSelect={() => apply({ listId: list.id }, `Moved to ${list.name}:`)}>
+              {list.name}
+            </DropdownMenuItem>
+          ))}
+          {planningLists.length > 0 && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuLabel>Planning</DropdownMenuLabel>
+              {planningLists.map((list) => (
+                <DropdownMenuItem key={list.id} onSelect={() => apply({ listId: list.id }, `Moved to ${list.name}:`)}>
+                  {list.name}
+                </DropdownMenuItem>
+              ))}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 gap-1" disabled={isSaving}>
+            People
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Assign</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              {board.members.map((member) => (
+                <DropdownMenuItem
+                  key={member.userId}
+                  onSelect={() => apply({ assignUserId: member.userId }, 'Assigned')}
+                >
+                  {member.user.name || member.user.email}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Unassign</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              {board.members.map((member) => (
+                <DropdownMenuItem
+                  key={member.userId}
+                  onSelect={() => apply({ unassignUserId: member.userId }, 'Unassigned')}
+                >
+                  {member.user.name || member.user.email}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 gap-1" disabled={isSaving || tags.length === 0}>
+            Tags
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Add tag</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              {tags.map((tag) => (
+                <DropdownMenuItem key={tag.id} onSelect={() => apply({ addTagIds: [tag.id] }, `Tagged "${tag.name}" on`)}>
+                  {tag.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Remove tag</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              {tags.map((tag) => (
+                <DropdownMenuItem key={tag.id} onSelect={() => apply({ removeTagIds: [tag.id] }, `Removed "${tag.name}" from`)}>
+                  {tag.name}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 gap-1" disabled={isSaving}>
+            Task fields
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Story points</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {STORY_POINT_VALUES.map((points) => (
+                <DropdownMenuItem key={points} onSelect={() => apply({ storyPoints: points }, 'Set points on')}>
+                  {points}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => apply({ storyPoints: null }, 'Cleared points on')}>
+                No points
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Shift deadline</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {DEADLINE_SHIFTS.map((days) => (
+                <DropdownMenuItem key={days} onSelect={() => apply({ deadlineShiftDays: days }, 'Shifted deadlines on')}>
+                  {days > 0 ? '+' : '−'}{Math.abs(days)} {Math.abs(days) === 1 ? 'day' : 'days'}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Release</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              <DropdownMenuItem onSelect={() => apply({ releaseMode: 'IMMEDIATE' }, 'Released')}>
+                Release staged tasks now
+              </DropdownMenuItem>
+              {planningLists.some((list) => list.startDate) && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuLabel>Stage in</DropdownMenuLabel>
+                  {planningLists.filter((list) => list.startDate).map((list) => (
+                    <DropdownMenuItem
+                      key={list.id}
+                      onSelect={() => apply({ releaseMode: 'STAGED', stagingListId: list.id }, `Staged in ${list.name}:`)}
+                    >
+                      {list.name}
+                    </DropdownMenuItem>
+                  ))}
+                </>
+              )}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>Link to story</DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="max-h-80 overflow-y-auto">
+              {stories.map((story) => (
+                <DropdownMenuItem key={story.id} onSelect={() => apply({ linkedUserStoryId: story.id }, 'Linked')}>
+                  <span className="truncate">{story.title}</span>
+                </DropdownMenuItem>
+              ))}
+              {stories.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={() => apply({ linkedUserStoryId: null }, 'Unlinked')}>
+                Remove story link
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 gap-1 text-error hover:text-error"
+        disabled={isSaving}
+        onClick={() => setConfirmArchive(true)}
+      >
+        <Archive className="h-3.5 w-3.5" />
+        Archive
+      </Button>
+
+      <button
+        type="button"
+        onClick={onClear}
+        className="ml-auto flex items-center gap-1 text-text-secondary hover:text-text-primary"
+      >
+        <X className="h-3.5 w-3.5" />
+        Clear selection
+      </button>
+
+      <AlertDialog open={confirmArchive} onOpenChange={setConfirmArchive}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Archive {count} {noun}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Archived cards leave the board and their open review cycles are closed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => apply({ archive: true }, 'Archived')}
+              className="bg-error hover:bg-error/90"
+            >
+              Archive {noun}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
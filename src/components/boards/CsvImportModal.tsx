@@ -0,0 +1,285 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { FileSpreadsheet, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiFetch } from '@/lib/api-client';
+import {
+  CSV_IMPORT_FIELDS,
+  type CsvCardDraft,
+  type CsvColumnMapping,
+  type CsvImportField,
+  type CsvImportPlan,
+} from '@/lib/csv-import';
+
+interface CsvImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardId: string;
+}
+
+interface CsvImportResponse extends Omit<CsvImportPlan, 'cards'> {
+  headers: string[];
+  mapping: CsvColumnMapping;
+  total: number;
+  dryRun: boolean;
+  cards: CsvCardDraft[];
+  created: number;
+}
+
+// Radix Select items cannot use an empty value
+const UNMAPPED = '__none__';
+
+const FIELD_LABELS: Record<CsvImportField, string> = {
+  title: 'Title',
+  list: 'List',
+  type: 'Card type',
+  description: 'Description',
+  storyPoints: 'Story points',
+  deadline: 'Deadline',
+  assignee: 'Assignee',
+  tags: 'Tags',
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  TASK: 'Task',
+  USER_STORY: 'Story',
+  EPIC: 'Epic',
+  UTILITY: 'Utility',
+};
+
+/** Pick a CSV, map its columns to card fields, check the dry-run preview, then create the cards. */
+export function CsvImportModal({ isOpen, onClose, boardId }: CsvImportModalProps) {
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [csv, setCsv] = useState<string | null>(null);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [preview, setPreview] = useState<CsvImportResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setFileName(null);
+    setCsv(null);
+    setMapping({});
+    setPreview(null);
+  };
+
+  const runPreview = async (text: string, nextMapping?: CsvColumnMapping) => {
+    setIsLoading(true);
+    try {
+      const result = await apiFetch<CsvImportResponse>(`/api/boards/${boardId}/import/csv?dryRun=true`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv: text, mapping: nextMapping }),
+      });
+      setPreview(result);
+      setMapping(result.mapping);
+    } catch (error) {
+      toast.error('Could not read that CSV', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    setFileName(file.name);
+    setCsv(text);
+    await runPreview(text);
+  };
+
+  const handleMappingChange = (field: CsvImportField, header: string) => {
+    const next = { ...mapping, [field]: header === UNMAPPED ? undefined : header };
+    setMapping(next);
+    if (csv && next.title) void runPreview(csv, next);
+  };
+
+  const handleImport = async () => {
+    if (!csv) return;
+    setIsImporting(true);
+    try {
+      const result = await apiFetch<CsvImportResponse>(`/api/boards/${boardId}/import/csv`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ csv, mapping }),
+      });
+      queryClient.invalidateQueries({ queryKey: ['boards', boardId] });
+      const skipped = result.errors.length;
+      toast.success(`Imported ${result.created} card${result.created === 1 ? '' : 's'}`, {
+        description: skipped > 0 ? `${skipped} row${skipped === 1 ? '' : 's'} skipped` : undefined,
+      });
+      reset();
+      onClose();
+    } catch (error) {
+      console.error('Failed to import CSV:', error);
+      toast.error('Failed to import CSV', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const importable = preview ? preview.total - preview.errors.length : 0;
+
+  return (
+    <Dialog
+      open={isOpen}
+      onOpenChange={(open) => {
+        if (!open) {
+          reset();
+          onClose();
+        }
+      }}
+    >
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Import Cards from CSV
+          </DialogTitle>
+          <DialogDescription>
+            The first row must name the columns. Missing lists are created; nothing is saved until you import.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isLoading || isImporting}>
+            <Upload className="mr-2 h-4 w-4" />
+            {fileName ? 'Choose another file' : 'Choose CSV file'}
+          </Button>
+          {fileName && <span className="truncate text-caption text-text-secondary">{fileName}</span>}
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-text-tertiary" />}
+          <input
+            ref={inputRef}
+            type="file"
+            accept="text/csv,.csv,.tsv,.txt"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) void handleFile(file);
+            }}
+          />
+        </div>
+
+        {preview && (
+          <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+            <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+              {CSV_IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`csv-map-${field}`} className="text-caption">
+                    {FIELD_LABELS[field]}
+                  </Label>
+                  <Select
+                    value={mapping[field] ?? UNMAPPED}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger id={`csv-map-${field}`} className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field !== 'title' && <SelectItem value={UNMAPPED}>Not imported</SelectItem>}
+                      {preview.headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-body text-text-secondary">
+              {importable} of {preview.total} rows will become cards
+              {preview.newLists.length > 0 && (
+                <> · new lists: {preview.newLists.map((list) => list.name).join(', ')}</>
+              )}
+            </p>
+
+            {(preview.errors.length > 0 || preview.warnings.length > 0) && (
+              <div className="space-y-1 rounded-md border border-border bg-surface-hover p-3 text-caption">
+                {preview.errors.slice(0, 20).map((error) => (
+                  <div key={error.row} className="text-error">
+                    Row {error.row}: {error.message}
+                  </div>
+                ))}
+                {preview.errors.length > 20 && (
+                  <div className="text-text-tertiary">…and {preview.errors.length - 20} more rows</div>
+                )}
+                {preview.warnings.map((warning) => (
+                  <div key={warning} className="text-warning">{warning}</div>
+                ))}
+              </div>
+            )}
+
+            {preview.cards.length > 0 && (
+              <table className="w-full text-caption">
+                <thead>
+                  <tr className="border-b border-border text-left text-text-tertiary">
+                    <th className="py-1 pr-2 font-medium">Row</th>
+                    <th className="py-1 pr-2 font-medium">Title</th>
+                    <th className="py-1 pr-2 font-medium">List</th>
+                    <th className="py-1 pr-2 font-medium">Type</th>
+                    <th className="py-1 pr-2 font-medium">Points</th>
+                    <th className="py-1 font-medium">Deadline</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.cards.map((card) => (
+                    <tr key={card.row} className="border-b border-border/50 text-text-primary">
+                      <td className="py-1 pr-2 text-text-tertiary">{card.row}</td>
+                      <td className="max-w-[16rem] truncate py-1 pr-2">{card.title}</td>
+                      <td className="py-1 pr-2">
+                        {card.listName}
+                        {!card.listId && <span className="text-text-tertiary"> (new)</span>}
+                      </td>
+                      <td className="py-1 pr-2">{TYPE_LABELS[card.type] ?? card.type}</td>
+                      <td className="py-1 pr-2">{card.storyPoints ?? ''}</td>
+                      <td className="py-1">{card.deadline ?? ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {importable > preview.cards.length && (
+              <p className="text-caption text-text-tertiary">
+                Showing the first {preview.cards.length} cards.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => { reset(); onClose(); }} disabled={isImporting}>
+            Cancel
+          </Button>
+          <Button onClick={() => void handleImport()} disabled={!preview || importable === 0 || isLoading || isImporting}>
+            {isImporting ? 'Importing...' : `Import ${importable} card${importable === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
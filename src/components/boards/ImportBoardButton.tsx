@@ -0,0 +1,233 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useQueryClient } from '@tanstack/react-query';
+import { Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { apiFetch } from '@/lib/api-client';
+import type { ListViewType } from '@/types';
+
+interface ImportResult {
+  id: string | null;
+  name: string;
+  lists: { id: string; name: string; viewType: ListViewType; cards: number }[];
+  counts: Record<string, number>;
+  createdTags: string[];
+  unresolvedUsers: string[];
+  warnings: string[];
+}
+
+interface TrelloPreview {
+  board: unknown;
+  listViewTypes: Record<string, ListViewType>;
+  result: ImportResult;
+}
+
+/** Trello exports have lists and cards at the top level and no archive format marker. */
+function isTrelloExport(value: unknown): boolean {
+  if (!value || typeof value !== 'object') return false;
+  const record = value as Record<string, unknown>;
+  return !('format' in record) && Array.isArray(record.lists) && Array.isArray(record.cards);
+}
+
+/**
+ * Create a board from a `.fallo.json` archive made by Export Board, or from a Trello JSON
+ * export. Trello boards get a preview first, where each list can become a Tasks or Planning list.
+ */
+export function ImportBoardButton() {
+  const router = useRouter();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [trello, setTrello] = useState<TrelloPreview | null>(null);
+
+  const postTrello = (board: unknown, listViewTypes: Record<string, ListViewType>, dryRun: boolean) =>
+    apiFetch<ImportResult>(`/api/boards/import/trello${dryRun ? '?dryRun=true' : ''}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ board, listViewTypes }),
+    });
+
+  const finish = (result: ImportResult) => {
+    queryClient.invalidateQueries({ queryKey: ['boards'] });
+    queryClient.invalidateQueries({ queryKey: ['projects'] });
+    queryClient.invalidateQueries({ queryKey: ['timeline'] });
+
+    const notes = [
+      result.unresolvedUsers.length > 0
+        ? `No account for: ${result.unresolvedUsers.join(', ')}`
+        : null,
+      ...result.warnings,
+    ].filter(Boolean).join('\n');
+    if (notes) {
+      toast.warning('Board imported with gaps', { description: notes, duration: 15000 });
+    } else {
+      toast.success('Board imported');
+    }
+    router.push(`/boards/${result.id}`);
+  };
+
+  const handleFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        toast.error('That file is not a board archive');
+        return;
+      }
+
+      if (isTrelloExport(archive)) {
+        setTrello({ board: archive, listViewTypes: {}, result: await postTrello(archive, {}, true) });
+        return;
+      }
+
+      finish(await apiFetch<ImportResult>('/api/boards/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ archive }),
+      }));
+    } catch (error) {
+      console.error('Failed to import board:', error);
+      toast.error('Failed to import board', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleViewTypeChange = async (listId: string, viewType: ListViewType) => {
+    if (!trello) return;
+    const listViewTypes = { ...trello.listViewTypes, [listId]: viewType };
+    setTrello({ ...trello, listViewTypes });
+    try {
+      setTrello({ board: trello.board, listViewTypes, result: await postTrello(trello.board, listViewTypes, true) });
+    } catch (error) {
+      toast.error('Could not update the preview', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  const handleTrelloImport = async () => {
+    if (!trello) return;
+    setIsImporting(true);
+    try {
+      finish(await postTrello(trello.board, trello.listViewTypes, false));
+      setTrello(null);
+    } catch (error) {
+      console.error('Failed to import Trello board:', error);
+      toast.error('Failed to import Trello board', {
+        description: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const preview = trello?.result;
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()} disabled={isImporting}>
+        <Upload className="mr-2 h-4 w-4" />
+        {isImporting ? 'Importing...' : 'Import'}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+          event.target.value = '';
+          if (file) void handleFile(file);
+        }}
+      />
+
+      <Dialog open={!!trello} onOpenChange={(open) => { if (!open && !isImporting) setTrello(null); }}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Import from Trello</DialogTitle>
+            <DialogDescription>
+              Choose which lists hold tasks and which hold planning stories. Nothing is created until you import.
+            </DialogDescription>
+          </DialogHeader>
+
+          {preview && (
+            <div className="max-h-[60vh] space-y-4 overflow-y-auto">
+              <div className="space-y-2">
+                {preview.lists.map((list) => (
+                  <div key={list.id} className="flex items-center gap-3">
+                    <span className="min-w-0 flex-1 truncate text-body text-text-primary">{list.name}</span>
+                    <span className="text-caption text-text-tertiary">{list.cards} cards</span>
+                    <Select
+                      value={list.viewType}
+                      onValueChange={(value) => void handleViewTypeChange(list.id, value as ListViewType)}
+                      disabled={isImporting}
+                    >
+                      <SelectTrigger className="h-8 w-32">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="TASKS">Tasks</SelectItem>
+                        <SelectItem value="PLANNING">Planning</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-caption text-text-secondary">
+                {preview.counts.cards} cards · {preview.counts.checklists} checklists · {preview.counts.comments} comments
+                · {preview.counts.attachments} attachments
+              </p>
+
+              {(preview.unresolvedUsers.length > 0 || preview.warnings.length > 0 || preview.createdTags.length > 0) && (
+                <div className="space-y-1 rounded-md border border-border bg-surface-hover p-3 text-caption">
+                  {preview.createdTags.length > 0 && (
+                    <div className="text-text-secondary">New tags: {preview.createdTags.join(', ')}</div>
+                  )}
+                  {preview.unresolvedUsers.length > 0 && (
+                    <div className="text-warning">No account for: {preview.unresolvedUsers.join(', ')}</div>
+                  )}
+                  {preview.warnings.map((warning) => (
+                    <div key={warning} className="text-warning">{warning}</div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTrello(null)} disabled={isImporting}>
+              Cancel
+            </Button>
+            <Button onClick={() => void handleTrelloImport()} disabled={isImporting}>
+              {isImporting ? 'Importing...' : `Import "${preview?.name ?? 'board'}"`}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState, useMemo, type ReactNode } from 'react';
 import { useDroppable } from '@dnd-kit/core';
-import { MoreHorizontal, Plus, CheckSquare, BookOpen, Layers, FileText, CalendarRange, Unlink, ChevronLeft } from 'lucide-react';
+import { MoreHorizontal, Plus, CheckSquare, BookOpen, Layers, FileText, CalendarRange, Unlink, ChevronLeft, Gauge, AlertTriangle } from 'lucide-react';
 import {
   Tooltip,
   TooltipContent,
@@ -45,13 +45,19 @@ interface TimelineBlockInfo {
   };
 }
 
+export interface ListWipLimits {
+  wipLimit: number | null;
+  wipLimitPerAssignee: number | null;
+}
+
 interface ListProps {
   id: string;
   name: string;
   cards: Card[];
   boardId: string;
   onAddCard: (listId: string, title: string, type: CardType) => Promise<void>;
-  onCardClick: (card: Card) => void;
+  onCardClick: (card: Card, event: React.MouseEvent) => void;
+  selectedCardIds?: ReadonlySet<string>; // Cards highlighted as part of a multi-selection
   onDeleteList: (listId: string) => Promise<void>;
   onDetachFromTimeline?: (listId: string) => Promise<void>;
   cardTypeFilter?: CardType; // Only show cards of this type
@@ -72,6 +78,14 @@ interface ListProps {
   useTwoRowHeaderActions?: boolean; // Move add/actions icons to a second header row
   onCardHover?: (card: Card) => void; // Prefetch card details on hover
   onCardContextMenu?: (card: Card, e: React.MouseEvent) => void; // Right-click context menu
+  wipLimit?: number | null; // Max open cards (null = unlimited)
+  wipLimitPerAssignee?: number | null; // Max open cards per assignee
+  onUpdateWipLimits?: (listId: string, limits: ListWipLimits) => Promise<void>;
+}
+
+function parseLimitInput(value: string): number | null {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : null;
 }
 
 // Get subtle tint style based on list name — uses backgroundImage so it layers on top of bg-surface
@@ -113,6 +127,7 @@ export function List({
   cards,
   onAddCard,
   onCardClick,
+  selectedCardIds,
   onDeleteList,
   onDetachFromTimeline,
   cardTypeFilter,
@@ -133,8 +148,15 @@ export function List({
   useTwoRowHeaderActions = false,
   onCardHover,
   onCardContextMenu,
+  wipLimit = null,
+  wipLimitPerAssignee = null,
+  onUpdateWipLimits,
 }: ListProps) {
   const [isAddingCard, setIsAddingCard] = useState(false);
+  const [isEditingWip, setIsEditingWip] = useState(false);
+  const [wipLimitDraft, setWipLimitDraft] = useState('');
+  const [wipPerAssigneeDraft, setWipPerAssigneeDraft] = useState('');
+  const [isSavingWip, setIsSavingWip] = useState(false);
   const [newCardTitle, setNewCardTitle] = useState('');
   const [newCardType, setNewCardType] = useState<CardType>(cardTypeFilter || 'TASK');
   const [isLoading, setIsLoading] = useState(false);
@@ -197,6 +219,50 @@ export function List({
     return sum;
   }, 0), [cards]);
 
+  const isOverWipLimit = wipLimit !== null && cards.length > wipLimit;
+  const isAtWipLimit = wipLimit !== null && cards.length === wipLimit;
+
+  // Assignees holding more cards in this list than the per-assignee limit allows
+  const overloadedAssignees = useMemo(() => {
+    if (!wipLimitPerAssignee) return [];
+    const counts = new Map<string, { name: string; count: number }>();
+    for (const card of cards) {
+      if (card.type !== 'TASK') continue;
+      for (const assignee of card.assignees ?? []) {
+        const entry = counts.get(assignee.userId) ?? { name: assignee.user.name || assignee.user.email, count: 0 };
+        entry.count += 1;
+        counts.set(assignee.userId, entry);
+      }
+    }
+    return Array.from(counts.values()).filter((entry) => entry.count > wipLimitPerAssignee);
+  }, [cards, wipLimitPerAssignee]);
+
+  const cardCountLabel = wipLimit !== null ? `${cards.length}/${wipLimit}` : String(cards.length);
+  const cardCountClassName = cn(
+    'text-caption',
+    isOverWipLimit ? 'font-semibold text-error' : isAtWipLimit ? 'text-warning' : 'text-text-tertiary'
+  );
+
+  const openWipEditor = () => {
+    setWipLimitDraft(wipLimit ? String(wipLimit) : '');
+    setWipPerAssigneeDraft(wipLimitPerAssignee ? String(wipLimitPerAssignee) : '');
+    setIsEditingWip(true);
+  };
+
+  const handleSaveWipLimits = async () => {
+    if (!onUpdateWipLimits) return;
+    setIsSavingWip(true);
+    try {
+      await onUpdateWipLimits(id, {
+        wipLimit: parseLimitInput(wipLimitDraft),
+        wipLimitPerAssignee: parseLimitInput(wipPerAssigneeDraft),
+      });
+      setIsEditingWip(false);
+    } finally {
+      setIsSavingWip(false);
+    }
+  };
+
   // Handle collapse toggle
   const handleCollapseToggle = () => {
     if (onCollapseChange) {
@@ -231,7 +297,7 @@ export function List({
             }}
           >
             <span className="text-title font-semibold text-text-primary">{name}</span>
-            <span className="text-caption text-text-tertiary">{cards.length}</span>
+            <span className={cardCountClassName}>{cardCountLabel}</span>
             {totalStoryPoints > 0 && (
               <span className="rounded bg-card-task/10 px-1 py-0.5 text-tiny font-medium text-card-task">
                 {donePoints !== undefined ? `${donePoints}/${totalStoryPoints}` : totalStoryPoints} SP
@@ -277,7 +343,29 @@ export function List({
         <div className="flex flex-col gap-0.5">
           <div className="flex items-center gap-2">
             <h3 className="text-title font-semibold text-text-primary">{name}</h3>
-            <span className="text-caption text-text-tertiary">{cards.length}</span>
+            <span
+              className={cardCountClassName}
+              title={wipLimit !== null ? `WIP limit: ${wipLimit} cards` : undefined}
+            >
+              {cardCountLabel}
+            </span>
+            {overloadedAssignees.length > 0 && (
+              <TooltipProvider>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <AlertTriangle className="h-3.5 w-3.5 text-error" />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p>Over the per-assignee limit of {wipLimitPerAssignee}:</p>
+                    {overloadedAssignees.map((entry) => (
+                      <p key={entry.name} className="text-text-tertiary">
+                        {entry.name} ({entry.count})
+                      </p>
+                    ))}
+                  </TooltipContent>
+                </Tooltip>
+              </TooltipProvider>
+            )}
             {totalStoryPoints > 0 && (
               <span className="rounded bg-card-task/10 px-1.5 py-0.5 text-tiny font-medium text-card-task">
                 {donePoints !== undefined ? `${donePoints}/${totalStoryPoints}` : totalStoryPoints} SP
@@ -330,6 +418,12 @@ export function List({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              {onUpdateWipLimits && (
+                <DropdownMenuItem onClick={openWipEditor}>
+                  <Gauge className="h-4 w-4 mr-2" />
+                  WIP Limits
+                </DropdownMenuItem>
+              )}
               {timelineBlock && onDetachFromTimeline && (
                 <DropdownMenuItem onClick={() => onDetachFromTimeline(id)}>
                   <Unlink className="h-4 w-4 mr-2" />
@@ -381,6 +475,51 @@ export function List({
       {/* Divider */}
       <div className="mx-2 border-t border-border-subtle" />
 
+      {/* WIP limit editor */}
+      {isEditingWip && (
+        <div className="space-y-2 p-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="space-y-1 text-tiny text-text-tertiary">
+              <span>Cards in list</span>
+              <Input
+                type="number"
+                min={0}
+                value={wipLimitDraft}
+                onChange={(e) => setWipLimitDraft(e.target.value)}
+                placeholder="No limit"
+                className="h-8"
+                disabled={isSavingWip}
+              />
+            </label>
+            <label className="space-y-1 text-tiny text-text-tertiary">
+              <span>Per assignee</span>
+              <Input
+                type="number"
+                min={0}
+                value={wipPerAssigneeDraft}
+                onChange={(e) => setWipPerAssigneeDraft(e.target.value)}
+                placeholder="No limit"
+                className="h-8"
+                disabled={isSavingWip}
+              />
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleSaveWipLimits} disabled={isSavingWip}>
+              {isSavingWip ? 'Saving...' : 'Save'}
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setIsEditingWip(false)}
+              disabled={isSavingWip}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Add Card Form (shown below header when adding) */}
       {isAddingCard && (
         <div className="p-2">
@@ -455,7 +594,8 @@ export function List({
           >
             <CardCompact
               card={card}
-              onClick={() => onCardClick(card)}
+              onClick={(e) => onCardClick(card, e)}
+              selected={selectedCardIds?.has(card.id)}
             />
           </div>
         ))}
@@ -498,8 +638,9 @@ export function List({
                   >
                     <CardCompact
                       card={card}
-                      onClick={() => onCardClick(card)}
+                      onClick={(e) => onCardClick(card, e)}
                       sortable={false}
+                      selected={selectedCardIds?.has(card.id)}
                       inlineAction={renderSecondaryCardActions?.(card)}
                     />
                   </div>
@@ -0,0 +1,436 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import { format } from 'date-fns';
+import { ChevronLeft, ChevronRight, CheckSquare, Flag, Milestone, Rocket, CalendarDays } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { CardModal } from '@/components/cards/CardModal';
+import { useBoardMutations } from '@/hooks/api/use-board-mutations';
+import { useCardDetails } from '@/hooks/api/use-card-details';
+import { useBoardTimelineEvents } from '@/hooks/api/use-timeline';
+import {
+  buildCalendarEntries,
+  entriesForDay,
+  monthGridDays,
+  moveDateToDay,
+  shiftCalendarAnchor,
+  weekGridDays,
+  type CalendarEntry,
+  type CalendarEntryKind,
+  type CalendarMode,
+} from '@/lib/board-calendar';
+import { formatLocalDateKey } from '@/lib/date-utils';
+import type { Board, BoardSettings, Card, TaskCard, UtilityCard } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface CalendarViewProps {
+  board: Board;
+  currentUserId?: string;
+  isAdmin?: boolean;
+  canViewQualitySummaries?: boolean;
+  initialCardId?: string;
+}
+
+const WEEKDAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+// Month cells show this many entries before collapsing the rest into "+N more"
+const MONTH_VISIBLE_ENTRIES = 3;
+
+const KIND_STYLES: Record<CalendarEntryKind, string> = {
+  deadline: 'border-card-task-border bg-card-task-bg',
+  release: 'border-success bg-success/10',
+  milestone: 'border-card-utility-border bg-card-utility-bg',
+  event: 'border-border bg-surface-hover',
+  project_date: 'border-warning bg-warning/10 font-medium',
+};
+
+const KIND_ICONS: Record<CalendarEntryKind, typeof CheckSquare> = {
+  deadline: CheckSquare,
+  release: Rocket,
+  milestone: Milestone,
+  event: CalendarDays,
+  project_date: Flag,
+};
+
+const KIND_LABELS: Record<CalendarEntryKind, string> = {
+  deadline: 'Task deadline',
+  release: 'Staged release',
+  milestone: 'Milestone',
+  event: 'Timeline event',
+  project_date: 'Project date',
+};
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+/** Deadlines and milestones move by dragging; releases, events and project dates are edited elsewhere. */
+function isMovable(entry: CalendarEntry): boolean {
+  return !!entry.cardId && (entry.kind === 'deadline' || entry.kind === 'milestone');
+}
+
+function chipClassName(entry: CalendarEntry, todayKey: string): string {
+  const overdue = entry.kind === 'deadline' && !entry.done && entry.start < todayKey;
+  return cn(
+    'flex w-full items-center gap-1 truncate rounded border-l-2 px-1.5 py-0.5 text-left text-caption',
+    KIND_STYLES[entry.kind],
+    entry.done && 'opacity-60 line-through',
+    overdue && 'text-error'
+  );
+}
+
+function ChipContent({ entry }: { entry: CalendarEntry }) {
+  const Icon = KIND_ICONS[entry.kind];
+  return (
+    <>
+      <Icon className="h-3 w-3 shrink-0" />
+      <span className="truncate">{entry.title}</span>
+    </>
+  );
+}
+
+interface CalendarChipProps {
+  entry: CalendarEntry;
+  todayKey: string;
+  onOpen: (cardId: string) => void;
+}
+
+function CalendarChip({ entry, todayKey, onOpen }: CalendarChipProps) {
+  const movable = isMovable(entry);
+  const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
+    id: entry.id,
+    data: { entry },
+    disabled: !movable,
+  });
+
+  return (
+    <button
+      ref={setNodeRef}
+      type="button"
+      {...(movable ? listeners : {})}
+      {...(movable ? attributes : {})}
+      onClick={() => entry.cardId && onOpen(entry.cardId)}
+      title={`${KIND_LABELS[entry.kind]}: ${entry.title}`}
+      className={cn(
+        chipClassName(entry, todayKey),
+        entry.cardId ? 'cursor-pointer hover:brightness-95' : 'cursor-default',
+        movable && 'touch-none',
+        isDragging && 'opacity-40'
+      )}
+      style={entry.kind === 'event' && entry.color ? { borderLeftColor: entry.color } : undefined}
+    >
+      <ChipContent entry={entry} />
+    </button>
+  );
+}
+
+interface CalendarDayCellProps {
+  day: Date;
+  entries: CalendarEntry[];
+  mode: CalendarMode;
+  isOutsideMonth: boolean;
+  todayKey: string;
+  onOpen: (cardId: string) => void;
+  onShowDay: (day: Date) => void;
+}
+
+function CalendarDayCell({ day, entries, mode, isOutsideMonth, todayKey, onOpen, onShowDay }: CalendarDayCellProps) {
+  const dayKey = formatLocalDateKey(day);
+  const { setNodeRef, isOver } = useDroppable({ id: dayKey });
+  const visible = mode === 'month' ? entries.slice(0, MONTH_VISIBLE_ENTRIES) : entries;
+  const hidden = entries.length - visible.length;
+  const isWeekend = day.getDay() === 0 || day.getDay() === 6;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        'flex min-w-0 flex-col gap-1 border-b border-r border-border p-1.5',
+        mode === 'month' ? 'min-h-28' : 'min-h-[60vh]',
+        isWeekend && 'bg-surface-hover/40',
+        isOutsideMonth && 'text-text-tertiary',
+        isOver && 'bg-primary/10'
+      )}
+    >
+      <div
+        className={cn(
+          'flex h-6 w-6 items-center justify-center self-end rounded-full text-caption',
+          dayKey === todayKey && 'bg-primary font-semibold text-white'
+        )}
+      >
+        {day.getDate()}
+      </div>
+      {visible.map((entry) => (
+        <CalendarChip key={entry.id} entry={entry} todayKey={todayKey} onOpen={onOpen} />
+      ))}
+      {hidden > 0 && (
+        <button
+          type="button"
+          onClick={() => onShowDay(day)}
+          className="px-1.5 text-left text-caption text-text-tertiary hover:text-text-secondary"
+        >
+          +{hidden} more
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function CalendarView({
+  board,
+  currentUserId,
+  isAdmin = false,
+  canViewQualitySummaries = false,
+  initialCardId,
+}: CalendarViewProps) {
+  const mutations = useBoardMutations(board.id);
+  const { data: events = [] } = useBoardTimelineEvents(board.id);
+  const [mode, setMode] = useState<CalendarMode>('month');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [selectedCard, setSelectedCard] = useState<Card | null>(null);
+  const [draggingEntry, setDraggingEntry] = useState<CalendarEntry | null>(null);
+
+  const sensors = useSensors(
+    // A small distance so a click still opens the card
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } })
+  );
+
+  const settings: BoardSettings = useMemo(() => board.settings || {}, [board.settings]);
+  const entries = useMemo(() => buildCalendarEntries(board, events), [board, events]);
+  const days = useMemo(
+    () => (mode === 'month' ? monthGridDays(anchor) : weekGridDays(anchor)),
+    [mode, anchor]
+  );
+  const todayKey = formatLocalDateKey(new Date());
+
+  const allCards = useMemo(() => board.lists.flatMap((list) =>
+    list.cards.map((card) =>
+      card.type === 'TASK'
+        ? { ...card, list: { id: list.id, name: list.name, phase: list.phase ?? null, viewType: list.viewType, startDate: list.startDate ?? null } }
+        : card
+    )
+  ), [board.lists]);
+  const cardsById = useMemo(() => new Map(allCards.map((card) => [card.id, card])), [allCards]);
+  const taskLists = useMemo(() => board.lists
+    .filter((list) => list.viewType === 'TASKS' || !list.viewType)
+    .map((list) => ({ ...list, cards: list.cards.filter((card) => card.type === 'TASK') })),
+  [board.lists]);
+  const planningLists = useMemo(() => board.lists.filter((list) => list.viewType === 'PLANNING'), [board.lists]);
+
+  const { comments: prefetchedComments, attachments: prefetchedAttachments } =
+    useCardDetails(board.id, selectedCard?.id);
+
+  // Auto-open card from URL query param (e.g., ?card=<cardId>)
+  const autoOpenedCardIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!initialCardId || autoOpenedCardIdRef.current === initialCardId) return;
+    const card = cardsById.get(initialCardId);
+    if (card) {
+      autoOpenedCardIdRef.current = initialCardId;
+      setSelectedCard(card);
+    }
+  }, [initialCardId, cardsById]);
+
+  const openCard = useCallback((cardId: string) => {
+    const card = cardsById.get(cardId);
+    if (card) setSelectedCard(card);
+  }, [cardsById]);
+
+  const showDay = useCallback((day: Date) => {
+    setMode('week');
+    setAnchor(day);
+  }, []);
+
+  const handleDragStart = (event: DragStartEvent) => {
+    setDraggingEntry((event.active.data.current?.entry as CalendarEntry | undefined) ?? null);
+  };
+
+  const handleDragEnd = async (event: DragEndEvent) => {
+    setDraggingEntry(null);
+    const entry = event.active.data.current?.entry as CalendarEntry | undefined;
+    const dayKey = event.over ? String(event.over.id) : null;
+    if (!entry?.cardId || !dayKey || dayKey === entry.start) return;
+
+    const card = cardsById.get(entry.cardId);
+    if (!card) return;
+
+    let previous: Partial<Card> & { id: string };
+    let next: Partial<Card> & { id: string };
+    if (card.type === 'TASK') {
+      const taskData = (card as TaskCard).taskData;
+      previous = { id: card.id, taskData } as Partial<TaskCard> & { id: string };
+      next = { id: card.id, taskData: { ...taskData, deadline: moveDateToDay(taskData.deadline, dayKey) } } as Partial<TaskCard> & { id: string };
+    } else if (card.type === 'UTILITY') {
+      const utilityData = (card as UtilityCard).utilityData;
+      previous = { id: card.id, utilityData } as Partial<UtilityCard> & { id: string };
+      next = { id: card.id, utilityData: { ...utilityData, date: moveDateToDay(utilityData.date, dayKey) } } as Partial<UtilityCard> & { id: string };
+    } else {
+      return;
+    }
+
+    mutations.patchCard(next);
+    try {
+      const { id, ...changes } = next;
+      await mutations.updateCard(id, changes as Parameters<typeof mutations.updateCard>[1]);
+    } catch (error) {
+      mutations.patchCard(previous);
+      toast.error(
+        entry.kind === 'deadline' ? 'Failed to move deadline' : 'Failed to move milestone',
+        errorDescription(error)
+      );
+    }
+  };
+
+  const handleCardUpdate = useCallback((updatedCard: Card) => {
+    mutations.patchCard(updatedCard);
+    setSelectedCard(updatedCard);
+  }, [mutations]);
+
+  const handleCardDelete = useCallback((cardId: string) => {
+    mutations.applyRemoteEvent({ type: 'card.deleted', cardId });
+  }, [mutations]);
+
+  const title = mode === 'month'
+    ? format(anchor, 'MMMM yyyy')
+    : `${format(days[0], 'd MMM')} – ${format(days[days.length - 1], 'd MMM yyyy')}`;
+  const marketingDeadline = settings.marketingAssetsDeadline
+    ? new Date(settings.marketingAssetsDeadline)
+    : null;
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-border bg-surface px-4 py-2">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setAnchor(new Date())}>
+            Today
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setAnchor((prev) => shiftCalendarAnchor(prev, mode, -1))}
+            title={mode === 'month' ? 'Previous month' : 'Previous week'}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => setAnchor((prev) => shiftCalendarAnchor(prev, mode, 1))}
+            title={mode === 'month' ? 'Next month' : 'Next week'}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <h2 className="text-title font-medium">{title}</h2>
+          {marketingDeadline && !Number.isNaN(marketingDeadline.getTime()) && (
+            <button
+              type="button"
+              onClick={() => setAnchor(marketingDeadline)}
+              className="ml-2 rounded-md bg-warning/10 px-2 py-0.5 text-caption text-text-secondary hover:bg-warning/20"
+            >
+              Marketing assets due {format(marketingDeadline, 'd MMM')}
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="hidden items-center gap-3 lg:flex">
+            {(Object.keys(KIND_LABELS) as CalendarEntryKind[]).map((kind) => {
+              const Icon = KIND_ICONS[kind];
+              return (
+                <span key={kind} className="flex items-center gap-1 text-caption text-text-tertiary">
+                  <Icon className="h-3 w-3" />
+                  {KIND_LABELS[kind]}
+                </span>
+              );
+            })}
+          </div>
+          <div className="flex items-center gap-1 rounded-lg bg-surface-hover p-1">
+            {(['month', 'week'] as CalendarMode[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={cn(
+                  'rounded-md px-3 py-1 text-caption font-medium capitalize transition-colors',
+                  mode === option
+                    ? 'bg-background text-text-primary shadow-sm'
+                    : 'text-text-tertiary hover:text-text-secondary'
+                )}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+        <div className="flex-1 overflow-auto bg-background">
+          <div className="grid grid-cols-7 border-l border-t border-border">
+            {WEEKDAY_LABELS.map((label) => (
+              <div
+                key={label}
+                className="border-b border-r border-border bg-surface px-2 py-1 text-caption font-medium text-text-secondary"
+              >
+                {label}
+              </div>
+            ))}
+            {days.map((day) => (
+              <CalendarDayCell
+                key={day.toISOString()}
+                day={day}
+                entries={entriesForDay(entries, formatLocalDateKey(day))}
+                mode={mode}
+                isOutsideMonth={mode === 'month' && day.getMonth() !== anchor.getMonth()}
+                todayKey={todayKey}
+                onOpen={openCard}
+                onShowDay={showDay}
+              />
+            ))}
+          </div>
+        </div>
+
+        <DragOverlay>
+          {draggingEntry && (
+            <div className={cn(chipClassName(draggingEntry, todayKey), 'w-40 rotate-2 shadow-lg')}>
+              <ChipContent entry={draggingEntry} />
+            </div>
+          )}
+        </DragOverlay>
+      </DndContext>
+
+      <CardModal
+        card={selectedCard}
+        boardId={board.id}
+        isOpen={!!selectedCard}
+        onClose={() => setSelectedCard(null)}
+        onUpdate={handleCardUpdate}
+        onDelete={handleCardDelete}
+        onCardClick={setSelectedCard}
+        currentUserId={currentUserId}
+        isAdmin={isAdmin}
+        canViewQualitySummaries={canViewQualitySummaries}
+        boardSettings={settings}
+        boardMembers={board.members}
+        taskLists={taskLists}
+        planningLists={planningLists}
+        allCards={allCards}
+        prefetchedComments={prefetchedComments}
+        prefetchedAttachments={prefetchedAttachments}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { useBoardCapacity } from '@/hooks/api/use-board-metrics';
+import { formatShortMonthDay } from '@/lib/date-utils';
+import { cn } from '@/lib/utils';
+import type { PhaseCapacity, PhaseCapacityStatus } from '@/lib/capacity-forecast';
+
+interface CapacityForecastPanelProps {
+  boardId: string;
+}
+
+const STATUS_LABELS: Record<PhaseCapacityStatus, string> = {
+  done: 'Done',
+  ok: 'On track',
+  short: 'Short',
+  overdue: 'Overdue',
+};
+
+const STATUS_STYLES: Record<PhaseCapacityStatus, string> = {
+  done: 'bg-surface-hover text-text-tertiary',
+  ok: 'bg-success/10 text-success',
+  short: 'bg-error/10 text-error',
+  overdue: 'bg-warning/10 text-warning',
+};
+
+function WeekBars({ phase }: { phase: PhaseCapacity }) {
+  const max = Math.max(1, ...phase.weeks.map((week) => week.capacity));
+  return (
+    <div className="flex h-6 items-end gap-0.5">
+      {phase.weeks.map((week) => (
+        <div
+          key={week.weekStart}
+          className={cn('w-2 rounded-sm', week.capacity > 0 ? 'bg-text-tertiary/50' : 'bg-border')}
+          style={{ height: `${Math.max(8, (week.capacity / max) * 100)}%` }}
+          title={`${formatShortMonthDay(week.weekStart)}: ${week.capacity} SP (${week.dedication}% booked)`}
+        />
+      ))}
+    </div>
+  );
+}
+
+function gapDescription(phase: PhaseCapacity) {
+  if (phase.status === 'short') {
+    return `+${phase.shortfallPoints} SP · ${phase.extraDedicationWeeks} extra dedication-week${phase.extraDedicationWeeks === 1 ? '' : 's'}`;
+  }
+  if (phase.status === 'overdue') return `${phase.remainingPoints} SP left after the phase ended`;
+  return null;
+}
+
+/**
+ * Whether each planning phase can finish with the people booked on it: remaining story points
+ * against weekly availability times the expected points for each person's seniority. Loads
+ * only when expanded.
+ */
+export function CapacityForecastPanel({ boardId }: CapacityForecastPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { data: forecast, isLoading, error } = useBoardCapacity(boardId, expanded);
+
+  return (
+    <div className="mt-4 rounded-lg border border-border-subtle bg-background p-3">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center justify-between"
+      >
+        <div className="flex items-center gap-2 text-caption font-medium text-text-secondary hover:text-text-primary transition-colors">
+          {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          Capacity vs. Demand
+        </div>
+        {expanded && isLoading && <div className="text-caption text-text-tertiary">Loading...</div>}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {error && <div className="text-caption text-error">Could not load the capacity forecast</div>}
+
+          {forecast && (
+            <>
+              <p className="text-tiny text-text-tertiary">
+                A full week is {forecast.pointsPerWeek.JUNIOR} SP for juniors, {forecast.pointsPerWeek.MID} SP
+                for mid-level and {forecast.pointsPerWeek.SENIOR} SP for seniors. People without a seniority
+                count as mid-level.
+              </p>
+
+              {forecast.phases.length === 0 ? (
+                <p className="text-caption text-text-tertiary">No planning lists have dates yet.</p>
+              ) : (
+                <table className="w-full text-caption">
+                  <thead>
+                    <tr className="text-left text-text-tertiary">
+                      <th className="pb-1 font-medium">Phase</th>
+                      <th className="pb-1 font-medium">Weekly capacity</th>
+                      <th className="pb-1 text-right font-medium">SP left</th>
+                      <th className="pb-1 text-right font-medium">Capacity left</th>
+                      <th className="pb-1 text-right font-medium">Weeks</th>
+                      <th className="pb-1 pl-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {forecast.phases.map((phase) => (
+                      <tr key={phase.listId} className="border-t border-border-subtle align-middle text-text-primary">
+                        <td className="py-1.5">
+                          <div className="font-medium">{phase.name}</div>
+                          <div className="text-tiny text-text-tertiary">
+                            {formatShortMonthDay(phase.startDate)} – {formatShortMonthDay(phase.endDate)}
+                          </div>
+                        </td>
+                        <td className="py-1.5"><WeekBars phase={phase} /></td>
+                        <td className="py-1.5 text-right">
+                          {phase.remainingPoints}
+                          {phase.unestimatedTasks > 0 && (
+                            <span className="ml-1 text-tiny text-warning" title="Tasks without story points are not counted">
+                              +{phase.unestimatedTasks} unestimated
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-1.5 text-right text-text-secondary">{phase.remainingCapacity}</td>
+                        <td
+                          className="py-1.5 text-right text-text-secondary"
+                          title="Planned weeks / weeks needed at the current staffing"
+                        >
+                          {phase.plannedWeeks} / {phase.staffedWeeks ?? '–'}
+                        </td>
+                        <td className="py-1.5 pl-3">
+                          <span className={cn('rounded px-1.5 py-0.5 text-tiny font-medium', STATUS_STYLES[phase.status])}>
+                            {STATUS_LABELS[phase.status]}
+                          </span>
+                          {gapDescription(phase) && (
+                            <div className="mt-0.5 text-tiny text-text-tertiary">{gapDescription(phase)}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
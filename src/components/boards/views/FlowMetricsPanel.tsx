@@ -0,0 +1,288 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useBoardFlowMetrics, type BoardFlowMetrics } from '@/hooks/api/use-board-metrics';
+import { formatShortMonthDay } from '@/lib/date-utils';
+import type { FlowPercentiles, FlowTimePoint } from '@/lib/flow-metrics';
+
+interface FlowMetricsPanelProps {
+  boardId: string;
+}
+
+// Radix Select items cannot use an empty value
+const ALL = '__all__';
+
+const RANGE_OPTIONS = [14, 30, 90, 180];
+
+const LIST_PALETTE = ['#94A3B8', '#60A5FA', '#F59E0B', '#A78BFA', '#F472B6', '#2DD4BF', '#FB923C'];
+const DONE_COLOR = '#10B981';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CHART = { width: 320, height: 140, top: 10, right: 10, bottom: 20, left: 28 };
+const plotWidth = CHART.width - CHART.left - CHART.right;
+const plotHeight = CHART.height - CHART.top - CHART.bottom;
+
+const formatDays = (value: number | null) => (value === null ? '–' : `${value}d`);
+
+function CumulativeFlowChart({ metrics, colors }: { metrics: BoardFlowMetrics; colors: Map<string, string> }) {
+  const { cumulativeFlow, lists } = metrics;
+
+  const bands = useMemo(() => {
+    const max = Math.max(1, ...cumulativeFlow.map((point) => lists.reduce((sum, list) => sum + point.counts[list.id], 0)));
+    const x = (index: number) => CHART.left + (cumulativeFlow.length <= 1 ? 0 : (index / (cumulativeFlow.length - 1)) * plotWidth);
+    const y = (value: number) => CHART.top + plotHeight - (value / max) * plotHeight;
+
+    // Done at the bottom, upstream lists stacked above it, the way CFDs are usually read
+    const stacked = [...lists].reverse();
+    const below = cumulativeFlow.map(() => 0);
+    const paths = stacked.map((list) => {
+      const bottom = [...below];
+      cumulativeFlow.forEach((point, index) => { below[index] += point.counts[list.id]; });
+      const top = cumulativeFlow.map((_, index) => `${x(index)},${y(below[index])}`);
+      const base = cumulativeFlow.map((_, index) => `${x(index)},${y(bottom[index])}`).reverse();
+      return { id: list.id, d: `M ${top.join(' L ')} L ${base.join(' L ')} Z` };
+    });
+    return { max, paths };
+  }, [cumulativeFlow, lists]);
+
+  if (cumulativeFlow.length === 0) return null;
+
+  return (
+    <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="h-auto w-full">
+      {bands.paths.map((path) => (
+        <path key={path.id} d={path.d} fill={colors.get(path.id)} opacity={0.85} />
+      ))}
+      <text x={CHART.left - 4} y={CHART.top} textAnchor="end" dominantBaseline="middle" className="fill-text-tertiary text-tiny">
+        {bands.max}
+      </text>
+      <text x={CHART.left - 4} y={CHART.top + plotHeight} textAnchor="end" dominantBaseline="middle" className="fill-text-tertiary text-tiny">
+        0
+      </text>
+      <text x={CHART.left} y={CHART.height - 4} className="fill-text-tertiary text-tiny">
+        {formatShortMonthDay(cumulativeFlow[0].date)}
+      </text>
+      <text x={CHART.width - CHART.right} y={CHART.height - 4} textAnchor="end" className="fill-text-tertiary text-tiny">
+        {formatShortMonthDay(cumulativeFlow[cumulativeFlow.length - 1].date)}
+      </text>
+    </svg>
+  );
+}
+
+function TimeScatter({
+  label,
+  points,
+  summary,
+  from,
+  to,
+}: {
+  label: string;
+  points: FlowTimePoint[];
+  summary: FlowPercentiles;
+  from: string;
+  to: string;
+}) {
+  // `to` is today, so the axis runs to the end of it
+  const start = new Date(from).getTime();
+  const span = new Date(to).getTime() + DAY_MS - start;
+  const max = Math.max(1, ...points.map((point) => point.days));
+  const x = (date: string) => CHART.left + ((new Date(date).getTime() - start) / span) * plotWidth;
+  const y = (days: number) => CHART.top + plotHeight - (days / max) * plotHeight;
+
+  return (
+    <div className="rounded-md border border-border-subtle bg-surface p-2.5">
+      <div className="mb-1 flex items-center justify-between">
+        <span className="text-caption font-medium text-text-secondary">{label}</span>
+        <span className="text-caption text-text-tertiary">
+          p50 {formatDays(summary.p50)} · p85 {formatDays(summary.p85)} · p95 {formatDays(summary.p95)}
+        </span>
+      </div>
+      {points.length === 0 ? (
+        <div className="flex h-24 items-center justify-center text-caption text-text-tertiary">No completed tasks in range</div>
+      ) : (
+        <svg viewBox={`0 0 ${CHART.width} ${CHART.height}`} className="h-auto w-full">
+          {summary.p85 !== null && (
+            <g>
+              <line
+                x1={CHART.left}
+                x2={CHART.width - CHART.right}
+                y1={y(summary.p85)}
+                y2={y(summary.p85)}
+                stroke="currentColor"
+                strokeDasharray="4,4"
+                className="text-warning"
+              />
+              <text x={CHART.width - CHART.right} y={y(summary.p85) - 3} textAnchor="end" className="fill-warning text-tiny">
+                85%
+              </text>
+            </g>
+          )}
+          {points.map((point) => (
+            <circle key={point.cardId} cx={x(point.completedAt)} cy={y(point.days)} r={3} fill="currentColor" className="text-primary" opacity={0.75}>
+              <title>{`${point.title}: ${point.days}d${point.storyPoints !== null ? ` · ${point.storyPoints} SP` : ''}`}</title>
+            </circle>
+          ))}
+          <text x={CHART.left - 4} y={CHART.top} textAnchor="end" dominantBaseline="middle" className="fill-text-tertiary text-tiny">
+            {max}d
+          </text>
+          <text x={CHART.left - 4} y={CHART.top + plotHeight} textAnchor="end" dominantBaseline="middle" className="fill-text-tertiary text-tiny">
+            0
+          </text>
+        </svg>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Where tasks pile up and how long they take: cumulative flow per Tasks list, cycle and lead
+ * time scatter plots with percentiles, and average time per list. Loads only when expanded.
+ */
+export function FlowMetricsPanel({ boardId }: FlowMetricsPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [days, setDays] = useState(30);
+  const [tagId, setTagId] = useState<string | null>(null);
+  const [storyPoints, setStoryPoints] = useState<number | null>(null);
+  const { data: metrics, isLoading, error } = useBoardFlowMetrics(boardId, { days, tagId, storyPoints }, expanded);
+
+  const colors = useMemo(() => {
+    const map = new Map<string, string>();
+    metrics?.lists.forEach((list, index) => {
+      map.set(list.id, list.isDone ? DONE_COLOR : list.color || LIST_PALETTE[index % LIST_PALETTE.length]);
+    });
+    return map;
+  }, [metrics?.lists]);
+
+  return (
+    <div className="mt-4 rounded-lg border border-border-subtle bg-background p-3">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center justify-between"
+      >
+        <div className="flex items-center gap-2 text-caption font-medium text-text-secondary hover:text-text-primary transition-colors">
+          {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          Flow Metrics
+        </div>
+        {expanded && isLoading && <div className="text-caption text-text-tertiary">Loading...</div>}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="h-8 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RANGE_OPTIONS.map((option) => (
+                  <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={tagId ?? ALL} onValueChange={(value) => setTagId(value === ALL ? null : value)}>
+              <SelectTrigger className="h-8 w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All tags</SelectItem>
+                {metrics?.filters.tags.map((tag) => (
+                  <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={storyPoints === null ? ALL : String(storyPoints)}
+              onValueChange={(value) => setStoryPoints(value === ALL ? null : Number(value))}
+            >
+              <SelectTrigger className="h-8 w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>Any points</SelectItem>
+                {metrics?.filters.storyPoints.map((points) => (
+                  <SelectItem key={points} value={String(points)}>{points} SP</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {error && <div className="text-caption text-error">Could not load flow metrics</div>}
+
+          {metrics && (
+            <>
+              <div className="grid gap-3 md:grid-cols-2">
+                <div className="rounded-md border border-border-subtle bg-surface p-2.5">
+                  <div className="mb-1 text-caption font-medium text-text-secondary">Cumulative Flow</div>
+                  <CumulativeFlowChart metrics={metrics} colors={colors} />
+                  <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1">
+                    {metrics.lists.map((list) => (
+                      <span key={list.id} className="flex items-center gap-1 text-tiny text-text-tertiary">
+                        <span className="h-2 w-2 rounded-sm" style={{ backgroundColor: colors.get(list.id) }} />
+                        {list.name}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="rounded-md border border-border-subtle bg-surface p-2.5">
+                  <div className="mb-2 text-caption font-medium text-text-secondary">Time per List</div>
+                  <table className="w-full text-caption">
+                    <thead>
+                      <tr className="text-left text-text-tertiary">
+                        <th className="pb-1 font-medium">List</th>
+                        <th className="pb-1 text-right font-medium">Avg</th>
+                        <th className="pb-1 text-right font-medium">85%</th>
+                        <th className="pb-1 text-right font-medium">Visits</th>
+                        <th className="pb-1 text-right font-medium">Now</th>
+                        <th className="pb-1 text-right font-medium">Logged</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {metrics.timeInList.map((row) => {
+                        const list = metrics.lists.find((candidate) => candidate.id === row.listId);
+                        return (
+                          <tr key={row.listId} className="border-t border-border-subtle text-text-primary">
+                            <td className="py-1">{list?.name}</td>
+                            <td className="py-1 text-right">{list?.isDone ? '–' : formatDays(row.averageDays)}</td>
+                            <td className="py-1 text-right">{list?.isDone ? '–' : formatDays(row.p85Days)}</td>
+                            <td className="py-1 text-right text-text-secondary">{row.visits}</td>
+                            <td className="py-1 text-right text-text-secondary">{row.current}</td>
+                            <td className="py-1 text-right text-text-secondary">{row.loggedHours > 0 ? `${row.loggedHours}h` : '–'}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div className="grid gap-3 md:grid-cols-2">
+                <TimeScatter
+                  label={`Cycle Time (${metrics.cycleTime.summary.count})`}
+                  points={metrics.cycleTime.points}
+                  summary={metrics.cycleTime.summary}
+                  from={metrics.from}
+                  to={metrics.to}
+                />
+                <TimeScatter
+                  label={`Lead Time (${metrics.leadTime.summary.count})`}
+                  points={metrics.leadTime.points}
+                  summary={metrics.leadTime.summary}
+                  from={metrics.from}
+                  to={metrics.to}
+                />
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useBoardVariance,
+  useCaptureTimelineBaseline,
+  useTimelineBaselines,
+} from '@/hooks/api/use-board-metrics';
+import { formatShortMonthDay } from '@/lib/date-utils';
+import { cn } from '@/lib/utils';
+import type { PhaseVarianceStatus } from '@/lib/timeline-baselines';
+
+interface PlannedVsActualPanelProps {
+  boardId: string;
+  isAdmin: boolean;
+}
+
+// Radix Select items cannot have an empty value
+const LATEST = '__latest__';
+
+const STATUS_LABELS: Record<PhaseVarianceStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  done: 'Done',
+};
+
+function weeks(count: number | null) {
+  if (count === null) return '–';
+  return `${count} week${count === 1 ? '' : 's'}`;
+}
+
+function range(start: string | null, end: string | null) {
+  if (!start || !end) return '–';
+  return `${formatShortMonthDay(start)} – ${formatShortMonthDay(end)}`;
+}
+
+function Slip({ days }: { days: number | null }) {
+  if (days === null) return <span className="text-text-tertiary">–</span>;
+  if (days === 0) return <span className="text-success">On plan</span>;
+  return (
+    <span className={days > 0 ? 'text-error' : 'text-success'}>
+      {days > 0 ? '+' : '−'}{Math.abs(days)} day{Math.abs(days) === 1 ? '' : 's'}
+    </span>
+  );
+}
+
+/**
+ * Planned vs. actual per planning phase against a timeline baseline. A phase ends when all
+ * its tasks reach Done; until then it runs at least to today. Loads only when expanded.
+ */
+export function PlannedVsActualPanel({ boardId, isAdmin }: PlannedVsActualPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [baselineId, setBaselineId] = useState<string | null>(null);
+  const { data: baselines = [] } = useTimelineBaselines(boardId, expanded);
+  const { data: variance, isLoading, error } = useBoardVariance(boardId, baselineId, expanded);
+  const capture = useCaptureTimelineBaseline(boardId);
+
+  return (
+    <div className="mt-4 rounded-lg border border-border-subtle bg-background p-3">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center justify-between"
+      >
+        <div className="flex items-center gap-2 text-caption font-medium text-text-secondary hover:text-text-primary transition-colors">
+          {expanded ? <ChevronDown className="h-3.5 w-3.5" /> : <ChevronRight className="h-3.5 w-3.5" />}
+          Planned vs. Actual
+        </div>
+        {expanded && isLoading && <div className="text-caption text-text-tertiary">Loading...</div>}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3">
+          {error && <div className="text-caption text-error">Could not load the baseline comparison</div>}
+
+          <div className="flex items-center gap-2">
+            {baselines.length > 0 && (
+              <Select value={baselineId ?? LATEST} onValueChange={(next) => setBaselineId(next === LATEST ? null : next)}>
+                <SelectTrigger className="h-8 w-56 text-caption" aria-label="Baseline">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={LATEST}>Newest baseline</SelectItem>
+                  {baselines.map((baseline) => (
+                    <SelectItem key={baseline.id} value={baseline.id}>
+                      {baseline.name} · {formatShortMonthDay(baseline.createdAt)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-caption"
+                onClick={() => capture.mutate(undefined)}
+                disabled={capture.isPending}
+              >
+                {capture.isPending ? 'Capturing...' : 'Capture Baseline'}
+              </Button>
+            )}
+          </div>
+
+          {variance === null && (
+            <p className="text-caption text-text-tertiary">
+              No baseline yet. Projects created with a start date get one at kickoff; otherwise capture
+              one to compare later changes against.
+            </p>
+          )}
+
+          {variance && (
+            <>
+              <p className="text-caption text-text-secondary">
+                Planned {weeks(variance.plannedWeeks)} ({range(variance.plannedStart, variance.plannedEnd)}),
+                {' '}taking {weeks(variance.actualWeeks)} ({range(variance.actualStart, variance.actualEnd)}).
+                {' '}End: <Slip days={variance.endSlipDays} />
+              </p>
+
+              {variance.phases.length === 0 ? (
+                <p className="text-caption text-text-tertiary">No planning lists are linked to timeline blocks.</p>
+              ) : (
+                <table className="w-full text-caption">
+                  <thead>
+                    <tr className="text-left text-text-tertiary">
+                      <th className="pb-1 font-medium">Phase</th>
+                      <th className="pb-1 font-medium">Planned</th>
+                      <th className="pb-1 font-medium">Actual</th>
+                      <th className="pb-1 text-right font-medium">Start</th>
+                      <th className="pb-1 text-right font-medium">End</th>
+                      <th className="pb-1 pl-3 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {variance.phases.map((phase) => (
+                      <tr key={phase.listId} className="border-t border-border-subtle align-middle text-text-primary">
+                        <td className="py-1.5 font-medium">{phase.name}</td>
+                        <td className="py-1.5">
+                          <div>{weeks(phase.plannedWeeks)}</div>
+                          <div className="text-tiny text-text-tertiary">{range(phase.plannedStart, phase.plannedEnd)}</div>
+                        </td>
+                        <td className="py-1.5">
+                          <div>{weeks(phase.actualWeeks)}</div>
+                          <div className="text-tiny text-text-tertiary">{range(phase.actualStart, phase.actualEnd)}</div>
+                        </td>
+                        <td className="py-1.5 text-right"><Slip days={phase.startSlipDays} /></td>
+                        <td className="py-1.5 text-right"><Slip days={phase.endSlipDays} /></td>
+                        <td className="py-1.5 pl-3">
+                          <span
+                            className={cn(
+                              'rounded px-1.5 py-0.5 text-tiny font-medium',
+                              phase.status === 'done' ? 'bg-success/10 text-success' : 'bg-surface-hover text-text-tertiary'
+                            )}
+                          >
+                            {STATUS_LABELS[phase.status]}
+                          </span>
+                          {phase.totalTasks > 0 && (
+                            <div className="mt-0.5 text-tiny text-text-tertiary">
+                              {phase.doneTasks}/{phase.totalTasks} tasks done
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -21,6 +21,8 @@ import {
 } from '@dnd-kit/sortable';
 import { toast } from 'sonner';
 import { useBoardMutations } from '@/hooks/api/use-board-mutations';
+import { useCardSelection } from '@/hooks/useCardSelection';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
 import { useCardDetailPrefetch, useCardDetails } from '@/hooks/api/use-card-details';
 import {
   Plus,
@@ -42,10 +44,14 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { List as ListComponent } from '../List';
+import { BulkActionBar } from '../BulkActionBar';
 import { CardCompact } from '@/components/cards/CardCompact';
 import { CardModal } from '@/components/cards/CardModal';
 import { AddModuleToBoardModal } from '@/components/boards/AddModuleToBoardModal';
 import { BurnUpChart } from './BurnUpChart';
+import { FlowMetricsPanel } from './FlowMetricsPanel';
+import { CapacityForecastPanel } from './CapacityForecastPanel';
+import { PlannedVsActualPanel } from './PlannedVsActualPanel';
 import type {
   Board,
   Card,
@@ -197,13 +203,14 @@ export function PlanningView({
   board: initialBoard,
   currentUserId,
   weeklyProgress = [],
-  isAdmin: _isAdmin = false,
+  isAdmin = false,
   canViewQualitySummaries = false,
   initialCardId,
 }: PlanningViewProps) {
   const [localBoard, setLocalBoard] = useState(initialBoard);
   const syncingFromPropRef = useRef(false);
   const mutations = useBoardMutations(initialBoard.id);
+  const undoHistory = useUndoHistory(initialBoard.id);
   const boardSnapshotRef = useRef<Board | null>(null);
   const queryClient = useQueryClient();
 
@@ -418,12 +425,13 @@ export function PlanningView({
   ), [board.lists]);
 
   // Auto-open card from URL query param (e.g., ?card=<cardId>)
-  const didAutoOpenRef = useRef(false);
+  // Tracks the id rather than a flag so a new ?card= (e.g. from a notification) opens too.
+  const autoOpenedCardIdRef = useRef<string | null>(null);
   useEffect(() => {
-    if (!initialCardId || didAutoOpenRef.current) return;
+    if (!initialCardId || autoOpenedCardIdRef.current === initialCardId) return;
     const card = allCards.find((c) => c.id === initialCardId);
     if (card) {
-      didAutoOpenRef.current = true;
+      autoOpenedCardIdRef.current = initialCardId;
       setSelectedCard(card);
     }
   }, [initialCardId, allCards]);
@@ -750,16 +758,30 @@ export function PlanningView({
       return;
     }
 
-    const movedCardId = activeCard.id;
+    const movedCard = activeCard;
+    const fromPosition = boardSnapshotRef.current?.lists
+      .find((l) => l.id === sourceListId)
+      ?.cards.findIndex((c) => c.id === movedCard.id) ?? -1;
     boardSnapshotRef.current = null;
     setActiveCard(null);
     setActiveCardListId(null);
 
     mutations.reorderCard({
-      cardId: movedCardId,
+      cardId: movedCard.id,
       sourceListId,
       destinationListId,
       newPosition,
+    }).then(() => {
+      if (fromPosition < 0) return;
+      undoHistory.recordCardMove({
+        cardId: movedCard.id,
+        title: movedCard.title,
+        fromListId: sourceListId,
+        fromPosition,
+        toListId: destinationListId,
+        toPosition: newPosition,
+        toListName: currentList.name,
+      });
     }).catch((error) => {
       console.error('Failed to reorder card:', error);
       toast.error('Failed to move card');
@@ -958,9 +980,17 @@ export function PlanningView({
   const { comments: prefetchedComments, attachments: prefetchedAttachments } =
     useCardDetails(board.id, selectedCard?.id);
 
-  const handleCardClick = useCallback((card: Card) => {
+  // Shift/ctrl-click builds a selection for bulk actions; a plain click opens the card
+  const selectionOrder = useMemo(
+    () => planningListSections.flatMap((list) => [...list.userStories, ...list.stagedTasks].map((card) => card.id)),
+    [planningListSections]
+  );
+  const { selectedIds, handleSelectClick, clearSelection } = useCardSelection(selectionOrder);
+
+  const handleCardClick = useCallback((card: Card, event?: React.MouseEvent) => {
+    if (handleSelectClick(card.id, event)) return;
     setSelectedCard(card);
-  }, []);
+  }, [handleSelectClick]);
 
   const handleCardUpdate = useCallback((updatedCard: Card) => {
     setBoard((prev) => ({
@@ -1475,6 +1505,10 @@ export function PlanningView({
             ) : null}
             </div>
           )}
+
+          <CapacityForecastPanel boardId={initialBoard.id} />
+          <PlannedVsActualPanel boardId={initialBoard.id} isAdmin={isAdmin} />
+          <FlowMetricsPanel boardId={initialBoard.id} />
         </div>
       )}
     </div>
@@ -1623,6 +1657,7 @@ export function PlanningView({
       boardId={board.id}
       onAddCard={handleAddUserStory}
       onCardClick={handleCardClick}
+      selectedCardIds={selectedIds}
       onDeleteList={handleDeleteList}
       onDetachFromTimeline={handleDetachFromTimeline}
       cardTypeFilter="USER_STORY"
@@ -1704,6 +1739,10 @@ export function PlanningView({
       {/* Stats Dashboard */}
       {renderStats()}
 
+      {selectedIds.size > 0 && (
+        <BulkActionBar board={board} selectedIds={selectedIds} onClear={clearSelection} />
+      )}
+
       <div className="flex flex-1 overflow-hidden">
         {/* Epics Sidebar */}
         {renderEpicsSidebar()}
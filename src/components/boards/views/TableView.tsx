@@ -0,0 +1,971 @@
+'use client';
+
+import { memo, useCallback, useEffect, useMemo, useRef, useState, type MouseEvent } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  ArrowDown,
+  ArrowUp,
+  BookOpen,
+  CheckSquare,
+  ChevronLeft,
+  ChevronRight,
+  Columns3,
+  FileText,
+  Layers,
+  Search,
+  Tag as TagIcon,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CardModal } from '@/components/cards/CardModal';
+import { BulkActionBar } from '../BulkActionBar';
+import { apiFetch } from '@/lib/api-client';
+import { useBoardMutations, type UpdateCardParams } from '@/hooks/api/use-board-mutations';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
+import { useCardDetails } from '@/hooks/api/use-card-details';
+import {
+  APPROVAL_LABELS,
+  buildTableRows,
+  CARD_TYPE_LABELS,
+  DEFAULT_TABLE_COLUMN_CONFIG,
+  EMPTY_TABLE_FILTERS,
+  filterTableRows,
+  isTableFiltered,
+  moveTableColumn,
+  nextTableSort,
+  parseTableColumnConfig,
+  selectionRange,
+  sortTableRows,
+  TABLE_COLUMNS,
+  tableColumnConfigKey,
+  toggleTableColumn,
+  UNASSIGNED_FILTER,
+  visibleRowRange,
+  visibleTableColumns,
+  type ApprovalStatus,
+  type TableColumn,
+  type TableColumnConfig,
+  type TableFilters,
+  type TableRow as TableRowData,
+  type TableSort,
+  type TableSortKey,
+} from '@/lib/board-table';
+import { moveDateToDay, toDayKey } from '@/lib/board-calendar';
+import { formatLocalDateKey } from '@/lib/date-utils';
+import { STORY_POINT_VALUES, cn } from '@/lib/utils';
+import type {
+  Board,
+  BoardMember,
+  BoardSettings,
+  Card,
+  CardAssignee,
+  CardTagInfo,
+  CardType,
+  List,
+  TaskCard,
+  TaskCardData,
+  UserStoryCard,
+} from '@/types';
+
+interface TableViewProps {
+  board: Board;
+  currentUserId?: string;
+  isAdmin?: boolean;
+  canViewQualitySummaries?: boolean;
+  initialCardId?: string;
+}
+
+// Fixed heights keep the row window a simple division of the scroll offset
+const ROW_HEIGHT = 40;
+const SELECT_COLUMN_WIDTH = 40;
+const TITLE_COLUMN_WIDTH = 280;
+// Radix Select items cannot have an empty value
+const NONE = '__none';
+
+const TYPE_ICONS: Record<CardType, typeof CheckSquare> = {
+  TASK: CheckSquare,
+  USER_STORY: BookOpen,
+  EPIC: Layers,
+  UTILITY: FileText,
+};
+
+const APPROVAL_STYLES: Record<ApprovalStatus, string> = {
+  none: 'text-text-tertiary',
+  po: 'bg-warning/10 text-text-secondary',
+  lead: 'bg-warning/10 text-text-secondary',
+  both: 'bg-success/10 text-success',
+};
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+function gridTemplate(columns: TableColumn[]): string {
+  return [
+    `${SELECT_COLUMN_WIDTH}px`,
+    `minmax(${TITLE_COLUMN_WIDTH}px, 1fr)`,
+    ...columns.map((column) => `${column.width}px`),
+  ].join(' ');
+}
+
+/** Lists a card can be moved to from the table: task lists for tasks, planning lists for stories and epics. */
+function listsForCard(lists: List[], card: Card): List[] {
+  if (card.type === 'UTILITY') return lists;
+  const wantsTasks = card.type === 'TASK';
+  return lists.filter((list) => ((list.viewType ?? 'TASKS') === 'TASKS') === wantsTasks);
+}
+
+function isReviewList(list: List | undefined): boolean {
+  return !!list && list.name.toLowerCase().includes('review');
+}
+
+interface TagOption {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+interface TableActions {
+  openCard: (card: Card) => void;
+  renameCard: (row: TableRowData, title: string) => void;
+  moveCard: (row: TableRowData, listId: string) => void;
+  setAssignee: (row: TableRowData, userId: string | null) => void;
+  setTaskData: (row: TableRowData, changes: Partial<TaskCardData>, failure: string) => void;
+  setStoryEpic: (row: TableRowData, epicId: string | null) => void;
+  setTags: (row: TableRowData, tagIds: string[]) => void;
+  toggleSelected: (cardId: string, event: MouseEvent) => void;
+}
+
+interface TableLookups {
+  lists: List[];
+  members: BoardMember[];
+  stories: Card[];
+  epics: Card[];
+  tags: TagOption[];
+  todayKey: string;
+}
+
+function CellSelect({
+  value,
+  onChange,
+  options,
+  placeholder,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string; disabled?: boolean }[];
+  placeholder?: string;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger
+        className="h-7 border-transparent bg-transparent px-1.5 text-caption hover:border-border focus:ring-1 focus:ring-offset-0"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value} disabled={option.disabled} className="text-caption">
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function TitleCell({ row, actions }: { row: TableRowData; actions: TableActions }) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(row.card.title);
+  const Icon = TYPE_ICONS[row.card.type];
+
+  const commit = () => {
+    setEditing(false);
+    const title = draft.trim();
+    if (title && title !== row.card.title) actions.renameCard(row, title);
+  };
+
+  if (editing) {
+    return (
+      <Input
+        autoFocus
+        value={draft}
+        onChange={(event) => setDraft(event.target.value)}
+        onBlur={commit}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') commit();
+          if (event.key === 'Escape') setEditing(false);
+        }}
+        className="h-7 px-1.5 text-caption"
+      />
+    );
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => actions.openCard(row.card)}
+      onDoubleClick={() => {
+        setDraft(row.card.title);
+        setEditing(true);
+      }}
+      title="Click to open, double-click to rename"
+      className="flex min-w-0 items-center gap-2 text-left text-body hover:text-primary"
+    >
+      <Icon className="h-3.5 w-3.5 shrink-0 text-text-tertiary" />
+      <span className="truncate">{row.card.title}</span>
+    </button>
+  );
+}
+
+function TagsCell({ row, tags, onChange }: { row: TableRowData; tags: TagOption[]; onChange: (tagIds: string[]) => void }) {
+  const selected = new Set(row.tags.map((tag) => tag.id));
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex h-7 w-full min-w-0 items-center gap-1 overflow-hidden rounded-md border border-transparent px-1.5 text-left hover:border-border"
+        >
+          {row.tags.length === 0 && <span className="text-caption text-text-tertiary">Add tags</span>}
+          {row.tags.map((tag) => (
+            <span
+              key={tag.id}
+              className="shrink-0 rounded bg-surface-hover px-1.5 text-caption"
+              style={tag.color ? { backgroundColor: `${tag.color}22`, color: tag.color } : undefined}
+            >
+              {tag.name}
+            </span>
+          ))}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-56 p-1">
+        {tags.length === 0 ? (
+          <p className="px-2 py-1.5 text-caption text-text-tertiary">No tags defined in settings</p>
+        ) : (
+          tags.map((tag) => (
+            <label
+              key={tag.id}
+              className="flex cursor-pointer items-center gap-2 rounded px-2 py-1.5 text-caption hover:bg-surface-hover"
+            >
+              <Checkbox
+                checked={selected.has(tag.id)}
+                onCheckedChange={(checked) => {
+                  const next = new Set(selected);
+                  if (checked) next.add(tag.id);
+                  else next.delete(tag.id);
+                  onChange([...next]);
+                }}
+              />
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color ?? 'currentColor' }} />
+              {tag.name}
+            </label>
+          ))
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function TableCell({
+  column,
+  row,
+  lookups,
+  actions,
+}: {
+  column: TableColumn;
+  row: TableRowData;
+  lookups: TableLookups;
+  actions: TableActions;
+}) {
+  const isTask = row.card.type === 'TASK';
+
+  switch (column.id) {
+    case 'type':
+      return <span className="text-caption text-text-secondary">{CARD_TYPE_LABELS[row.card.type]}</span>;
+
+    case 'list': {
+      const options = listsForCard(lookups.lists, row.card).map((list) => ({
+        value: list.id,
+        label: list.name,
+        // Moving into review files a review submission, which only the board view asks for
+        disabled: isTask && list.id !== row.listId && isReviewList(list),
+      }));
+      return <CellSelect value={row.listId} onChange={(listId) => actions.moveCard(row, listId)} options={options} />;
+    }
+
+    case 'assignees':
+      if (!isTask) {
+        return (
+          <span className="truncate text-caption text-text-secondary">
+            {row.assignees.map((assignee) => assignee.name).join(', ')}
+          </span>
+        );
+      }
+      return (
+        <CellSelect
+          value={row.assignees[0]?.userId ?? NONE}
+          onChange={(value) => actions.setAssignee(row, value === NONE ? null : value)}
+          options={[
+            { value: NONE, label: 'Unassigned' },
+            ...lookups.members.map((member) => ({ value: member.userId, label: member.user.name || member.user.email })),
+          ]}
+        />
+      );
+
+    case 'storyPoints':
+      if (!isTask) return null;
+      return (
+        <CellSelect
+          value={row.storyPoints === null ? NONE : String(row.storyPoints)}
+          onChange={(value) => actions.setTaskData(row, { storyPoints: value === NONE ? null : Number(value) }, 'Failed to update story points')}
+          options={[
+            { value: NONE, label: '–' },
+            ...STORY_POINT_VALUES.map((points) => ({ value: String(points), label: String(points) })),
+            // Keep a legacy value that is not on the scale selectable
+            ...(row.storyPoints !== null && !(STORY_POINT_VALUES as readonly number[]).includes(row.storyPoints)
+              ? [{ value: String(row.storyPoints), label: String(row.storyPoints) }]
+              : []),
+          ]}
+        />
+      );
+
+    case 'deadline': {
+      if (!isTask) return null;
+      const dayKey = toDayKey(row.deadline);
+      const overdue = !!dayKey && dayKey < lookups.todayKey;
+      return (
+        <input
+          type="date"
+          value={dayKey ?? ''}
+          onChange={(event) => {
+            const value = event.target.value;
+            actions.setTaskData(row, { deadline: value ? moveDateToDay(row.deadline, value) : null }, 'Failed to update deadline');
+          }}
+          className={cn(
+            'h-7 w-full rounded-md border border-transparent bg-transparent px-1.5 text-caption hover:border-border focus:border-border focus:outline-none',
+            overdue && 'text-error'
+          )}
+        />
+      );
+    }
+
+    case 'tags':
+      return <TagsCell row={row} tags={lookups.tags} onChange={(tagIds) => actions.setTags(row, tagIds)} />;
+
+    case 'linked':
+      if (isTask) {
+        const storyId = (row.card as TaskCard).taskData?.linkedUserStoryId ?? null;
+        return (
+          <CellSelect
+            value={storyId ?? NONE}
+            onChange={(value) => actions.setTaskData(row, { linkedUserStoryId: value === NONE ? null : value }, 'Failed to link user story')}
+            placeholder={row.linked?.title}
+            options={[
+              { value: NONE, label: row.linked && !storyId ? `Epic: ${row.linked.title}` : 'No user story' },
+              ...lookups.stories.map((story) => ({ value: story.id, label: story.title })),
+            ]}
+          />
+        );
+      }
+      if (row.card.type === 'USER_STORY') {
+        return (
+          <CellSelect
+            value={(row.card as UserStoryCard).userStoryData?.linkedEpicId ?? NONE}
+            onChange={(value) => actions.setStoryEpic(row, value === NONE ? null : value)}
+            options={[
+              { value: NONE, label: 'No epic' },
+              ...lookups.epics.map((epic) => ({ value: epic.id, label: epic.title })),
+            ]}
+          />
+        );
+      }
+      return null;
+
+    case 'releaseMode':
+      if (!row.releaseMode) return null;
+      return (
+        <span className={cn('rounded px-1.5 py-0.5 text-caption', row.releaseMode === 'STAGED' ? 'bg-primary/10' : 'text-text-tertiary')}>
+          {row.releaseMode === 'STAGED' ? 'Staged' : 'Immediate'}
+        </span>
+      );
+
+    case 'approval':
+      if (!row.approval) return null;
+      return (
+        <span className={cn('rounded px-1.5 py-0.5 text-caption', APPROVAL_STYLES[row.approval])}>
+          {APPROVAL_LABELS[row.approval]}
+        </span>
+      );
+  }
+}
+
+interface TableRowViewProps {
+  row: TableRowData;
+  top: number;
+  columns: TableColumn[];
+  template: string;
+  selected: boolean;
+  lookups: TableLookups;
+  actions: TableActions;
+}
+
+const TableRowView = memo(function TableRowView({ row, top, columns, template, selected, lookups, actions }: TableRowViewProps) {
+  return (
+    <div
+      role="row"
+      className={cn(
+        'absolute left-0 grid w-full items-center border-b border-border',
+        selected ? 'bg-primary/10' : 'bg-background hover:bg-surface-hover/60'
+      )}
+      style={{ top, height: ROW_HEIGHT, gridTemplateColumns: template }}
+    >
+      <div className="flex items-center justify-center">
+        <Checkbox
+          checked={selected}
+          onClick={(event) => actions.toggleSelected(row.card.id, event)}
+          aria-label={`Select ${row.card.title}`}
+        />
+      </div>
+      <div className="min-w-0 px-2">
+        <TitleCell row={row} actions={actions} />
+      </div>
+      {columns.map((column) => (
+        <div key={column.id} className="min-w-0 px-1">
+          <TableCell column={column} row={row} lookups={lookups} actions={actions} />
+        </div>
+      ))}
+    </div>
+  );
+});
+
+function SortIndicator({ sort, sortKey }: { sort: TableSort | null; sortKey: TableSortKey }) {
+  if (sort?.key !== sortKey) return null;
+  return sort.direction === 'asc'
+    ? <ArrowUp className="h-3 w-3" />
+    : <ArrowDown className="h-3 w-3" />;
+}
+
+export function TableView({
+  board,
+  currentUserId,
+  isAdmin = false,
+  canViewQualitySummaries = false,
+  initialCardId,
+}: TableViewProps) {
+  const mutations = useBoardMutations(board.id);
+  const undoHistory = useUndoHistory(board.id);
+  const { data: tags = [] } = useQuery({
+    queryKey: ['settings', 'tags'],
+    queryFn: () => apiFetch<TagOption[]>('/api/settings/tags'),
+  });
+  const [selectedCard, setSelectedCard] = useState<Card | null>(null);
+  const [filters, setFilters] = useState<TableFilters>(EMPTY_TABLE_FILTERS);
+  const [sort, setSort] = useState<TableSort | null>(null);
+  const [columnConfig, setColumnConfig] = useState<TableColumnConfig>(DEFAULT_TABLE_COLUMN_CONFIG);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const selectionAnchorRef = useRef<string | null>(null);
+
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(800);
+
+  // Column layout is a personal preference per board, kept in this browser
+  useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(tableColumnConfigKey(board.id));
+      setColumnConfig(stored ? parseTableColumnConfig(JSON.parse(stored)) : DEFAULT_TABLE_COLUMN_CONFIG);
+    } catch {
+      setColumnConfig(DEFAULT_TABLE_COLUMN_CONFIG);
+    }
+  }, [board.id]);
+
+  const updateColumnConfig = (next: TableColumnConfig) => {
+    setColumnConfig(next);
+    try {
+      window.localStorage.setItem(tableColumnConfigKey(board.id), JSON.stringify(next));
+    } catch {
+      // Storage can be full or disabled; the layout still applies for this session
+    }
+  };
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+    setViewportHeight(element.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const settings: BoardSettings = useMemo(() => board.settings || {}, [board.settings]);
+  const allRows = useMemo(() => buildTableRows(board), [board]);
+  const rows = useMemo(
+    () => sortTableRows(filterTableRows(allRows, filters), sort),
+    [allRows, filters, sort]
+  );
+  const rowIds = useMemo(() => rows.map((row) => row.card.id), [rows]);
+  const columns = useMemo(() => visibleTableColumns(columnConfig), [columnConfig]);
+  const template = useMemo(() => gridTemplate(columns), [columns]);
+  const minWidth = SELECT_COLUMN_WIDTH + TITLE_COLUMN_WIDTH + columns.reduce((sum, column) => sum + column.width, 0);
+  const { start, end } = visibleRowRange(scrollTop, viewportHeight, ROW_HEIGHT, rows.length);
+
+  const allCards = useMemo(() => board.lists.flatMap((list) =>
+    list.cards.map((card) =>
+      card.type === 'TASK'
+        ? { ...card, list: { id: list.id, name: list.name, phase: list.phase ?? null, viewType: list.viewType, startDate: list.startDate ?? null } }
+        : card
+    )
+  ), [board.lists]);
+  const cardsById = useMemo(() => new Map(allCards.map((card) => [card.id, card])), [allCards]);
+  const taskLists = useMemo(() => board.lists
+    .filter((list) => list.viewType === 'TASKS' || !list.viewType)
+    .map((list) => ({ ...list, cards: list.cards.filter((card) => card.type === 'TASK') })),
+  [board.lists]);
+  const planningLists = useMemo(() => board.lists.filter((list) => list.viewType === 'PLANNING'), [board.lists]);
+
+  const lookups: TableLookups = useMemo(() => ({
+    lists: board.lists,
+    members: board.members,
+    stories: allCards.filter((card) => card.type === 'USER_STORY' && !card.archivedAt),
+    epics: allCards.filter((card) => card.type === 'EPIC' && !card.archivedAt),
+    tags,
+    todayKey: formatLocalDateKey(new Date()),
+  }), [board.lists, board.members, allCards, tags]);
+
+  const { comments: prefetchedComments, attachments: prefetchedAttachments } =
+    useCardDetails(board.id, selectedCard?.id);
+
+  // Auto-open card from URL query param (e.g., ?card=<cardId>)
+  const autoOpenedCardIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!initialCardId || autoOpenedCardIdRef.current === initialCardId) return;
+    const card = cardsById.get(initialCardId);
+    if (card) {
+      autoOpenedCardIdRef.current = initialCardId;
+      setSelectedCard(card);
+    }
+  }, [initialCardId, cardsById]);
+
+  // Drop selected cards that were deleted or archived elsewhere
+  useEffect(() => {
+    setSelectedIds((previous) => {
+      const next = new Set([...previous].filter((id) => cardsById.has(id)));
+      return next.size === previous.size ? previous : next;
+    });
+  }, [cardsById]);
+
+  const actions: TableActions = useMemo(() => {
+    // Apply locally, save, and put the previous values back if the save fails
+    const applyChange = async (
+      next: Partial<Card> & { id: string },
+      previous: Partial<Card> & { id: string },
+      save: () => Promise<unknown>,
+      failure: string,
+      edit?: { before: UpdateCardParams; after: UpdateCardParams }
+    ) => {
+      mutations.patchCard(next);
+      try {
+        await save();
+        if (edit) {
+          const title = cardsById.get(next.id)?.title ?? 'card';
+          undoHistory.recordCardEdit({ cardId: next.id, title, ...edit });
+        }
+      } catch (error) {
+        mutations.patchCard(previous);
+        toast.error(failure, errorDescription(error));
+      }
+    };
+
+    return {
+      openCard: (card) => setSelectedCard(cardsById.get(card.id) ?? card),
+
+      renameCard: (row, title) => {
+        void applyChange(
+          { id: row.card.id, title },
+          { id: row.card.id, title: row.card.title },
+          () => mutations.updateCard(row.card.id, { title }),
+          'Failed to rename card',
+          { before: { title: row.card.title }, after: { title } }
+        );
+      },
+
+      moveCard: (row, listId) => {
+        if (listId === row.listId) return;
+        const target = board.lists.find((list) => list.id === listId);
+        if (!target) return;
+        const position = target.cards.length;
+        const fromPosition = board.lists
+          .find((list) => list.id === row.listId)
+          ?.cards.findIndex((card) => card.id === row.card.id) ?? -1;
+        mutations.applyRemoteEvent({ type: 'card.moved', cardId: row.card.id, fromListId: row.listId, toListId: listId, position });
+        mutations.reorderCard({
+          cardId: row.card.id,
+          sourceListId: row.listId,
+          destinationListId: listId,
+          newPosition: position,
+        }).then(({ warnings }) => {
+          warnings.forEach((warning) => toast.warning(warning));
+          if (fromPosition < 0) return;
+          undoHistory.recordCardMove({
+            cardId: row.card.id,
+            title: row.card.title,
+            fromListId: row.listId,
+            fromPosition,
+            toListId: listId,
+            toPosition: position,
+            toListName: target.name,
+          });
+        }).catch((error) => {
+          toast.error('Failed to move card', errorDescription(error));
+          mutations.invalidateBoard();
+        });
+      },
+
+      setAssignee: (row, userId) => {
+        const card = row.card as TaskCard;
+        const current = card.assignees?.[0];
+        if ((current?.userId ?? null) === userId) return;
+        const member = userId ? board.members.find((candidate) => candidate.userId === userId) : null;
+        const now = new Date().toISOString();
+        const pending: CardAssignee[] = member
+          ? [{ id: `pending-${member.userId}`, userId: member.userId, user: member.user, assignedAt: now, activatedAt: now }]
+          : [];
+
+        mutations.patchCard({ id: card.id, assignees: pending } as Partial<TaskCard> & { id: string });
+        // Tasks take a single assignee, so the current one has to go first
+        (async () => {
+          if (current) await mutations.unassignUser(card.id, current.userId);
+          const assigned = userId ? await mutations.assignUser(card.id, userId) : null;
+          mutations.patchCard({ id: card.id, assignees: assigned ? [assigned] : [] } as Partial<TaskCard> & { id: string });
+          undoHistory.recordAssigneeChange({
+            cardId: card.id,
+            title: card.title,
+            added: member ? { userId: member.userId, name: member.user.name ?? member.user.email } : null,
+            removed: current ? { userId: current.userId, name: current.user.name ?? current.user.email } : null,
+          });
+        })().catch((error) => {
+          toast.error('Failed to update assignee', errorDescription(error));
+          mutations.invalidateBoard();
+        });
+      },
+
+      setTaskData: (row, changes, failure) => {
+        const card = row.card as TaskCard;
+        const taskData = { ...card.taskData, ...changes };
+        void applyChange(
+          { id: card.id, taskData } as Partial<TaskCard> & { id: string },
+          { id: card.id, taskData: card.taskData } as Partial<TaskCard> & { id: string },
+          () => mutations.updateCard(card.id, { taskData: taskData as unknown as Record<string, unknown> }),
+          failure,
+          {
+            before: { taskData: card.taskData as unknown as Record<string, unknown> },
+            after: { taskData: taskData as unknown as Record<string, unknown> },
+          }
+        );
+      },
+
+      setStoryEpic: (row, epicId) => {
+        const card = row.card as UserStoryCard;
+        const userStoryData = { ...card.userStoryData, linkedEpicId: epicId };
+        void applyChange(
+          { id: card.id, userStoryData } as Partial<UserStoryCard> & { id: string },
+          { id: card.id, userStoryData: card.userStoryData } as Partial<UserStoryCard> & { id: string },
+          () => mutations.updateCard(card.id, { userStoryData: userStoryData as unknown as Record<string, unknown> }),
+          'Failed to link epic',
+          {
+            before: { userStoryData: card.userStoryData as unknown as Record<string, unknown> },
+            after: { userStoryData: userStoryData as unknown as Record<string, unknown> },
+          }
+        );
+      },
+
+      setTags: (row, tagIds) => {
+        const next: CardTagInfo[] = tags
+          .filter((tag) => tagIds.includes(tag.id))
+          .map(({ id, name, color }) => ({ id, name, color }));
+        void applyChange(
+          { id: row.card.id, tags: next },
+          { id: row.card.id, tags: row.tags },
+          () => mutations.setCardTags(row.card.id, tagIds),
+          'Failed to update tags'
+        );
+      },
+
+      toggleSelected: (cardId, event) => {
+        event.preventDefault();
+        const anchor = selectionAnchorRef.current;
+        setSelectedIds((previous) => {
+          const next = new Set(previous);
+          if (event.shiftKey && anchor) {
+            // Shift-click selects everything between the last clicked row and this one
+            for (const id of selectionRange(rowIds, anchor, cardId)) next.add(id);
+          } else if (next.has(cardId)) {
+            next.delete(cardId);
+          } else {
+            next.add(cardId);
+          }
+          return next;
+        });
+        selectionAnchorRef.current = cardId;
+      },
+    };
+  }, [mutations, undoHistory, board.lists, board.members, cardsById, rowIds, tags]);
+
+  const selectedInView = rowIds.filter((id) => selectedIds.has(id)).length;
+  const allSelected = rows.length > 0 && selectedInView === rows.length;
+  const toggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(rowIds));
+    selectionAnchorRef.current = null;
+  };
+
+  const handleSort = (key: TableSortKey) => setSort((current) => nextTableSort(current, key));
+  const setFilter = <K extends keyof TableFilters>(key: K, value: TableFilters[K]) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleCardUpdate = useCallback((updatedCard: Card) => {
+    mutations.patchCard(updatedCard);
+    setSelectedCard(updatedCard);
+  }, [mutations]);
+
+  const handleCardDelete = useCallback((cardId: string) => {
+    mutations.applyRemoteEvent({ type: 'card.deleted', cardId });
+  }, [mutations]);
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex flex-wrap items-center gap-2 border-b border-border bg-surface px-4 py-2">
+        <div className="relative w-56">
+          <Search className="pointer-events-none absolute left-2.5 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-text-tertiary" />
+          <Input
+            value={filters.query}
+            onChange={(event) => setFilter('query', event.target.value)}
+            placeholder="Filter cards..."
+            className="h-8 pl-8 text-caption"
+          />
+        </div>
+        <Select value={filters.type ?? NONE} onValueChange={(value) => setFilter('type', value === NONE ? null : value as CardType)}>
+          <SelectTrigger className="h-8 w-32 text-caption">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>All types</SelectItem>
+            {(Object.keys(CARD_TYPE_LABELS) as CardType[]).map((type) => (
+              <SelectItem key={type} value={type}>{CARD_TYPE_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.listId ?? NONE} onValueChange={(value) => setFilter('listId', value === NONE ? null : value)}>
+          <SelectTrigger className="h-8 w-40 text-caption">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>All lists</SelectItem>
+            {board.lists.map((list) => (
+              <SelectItem key={list.id} value={list.id}>{list.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={filters.assigneeId ?? NONE} onValueChange={(value) => setFilter('assigneeId', value === NONE ? null : value)}>
+          <SelectTrigger className="h-8 w-40 text-caption">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Anyone</SelectItem>
+            <SelectItem value={UNASSIGNED_FILTER}>Unassigned tasks</SelectItem>
+            {board.members.map((member) => (
+              <SelectItem key={member.userId} value={member.userId}>{member.user.name || member.user.email}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {tags.length > 0 && (
+          <Select value={filters.tagId ?? NONE} onValueChange={(value) => setFilter('tagId', value === NONE ? null : value)}>
+            <SelectTrigger className="h-8 w-36 text-caption">
+              <TagIcon className="mr-1 h-3.5 w-3.5 text-text-tertiary" />
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>Any tag</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {isTableFiltered(filters) && (
+          <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_TABLE_FILTERS)}>
+            <X className="mr-1 h-3.5 w-3.5" />
+            Clear
+          </Button>
+        )}
+
+        <div className="ml-auto flex items-center gap-3">
+          <span className="text-caption text-text-tertiary">
+            {rows.length === allRows.length ? `${allRows.length} cards` : `${rows.length} of ${allRows.length} cards`}
+          </span>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Columns3 className="mr-1.5 h-3.5 w-3.5" />
+                Columns
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-60">
+              <DropdownMenuLabel>Columns</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {columnConfig.order.map((id, index) => {
+                const column = TABLE_COLUMNS.find((candidate) => candidate.id === id)!;
+                return (
+                  <div key={id} className="flex items-center gap-2 px-2 py-1">
+                    <Checkbox
+                      id={`table-column-${id}`}
+                      checked={!columnConfig.hidden.includes(id)}
+                      onCheckedChange={() => updateColumnConfig(toggleTableColumn(columnConfig, id))}
+                    />
+                    <label htmlFor={`table-column-${id}`} className="flex-1 cursor-pointer text-caption">
+                      {column.label}
+                    </label>
+                    <button
+                      type="button"
+                      disabled={index === 0}
+                      onClick={() => updateColumnConfig(moveTableColumn(columnConfig, id, -1))}
+                      className="rounded p-0.5 text-text-tertiary hover:bg-surface-hover disabled:opacity-30"
+                      title="Move left"
+                    >
+                      <ChevronLeft className="h-3.5 w-3.5" />
+                    </button>
+                    <button
+                      type="button"
+                      disabled={index === columnConfig.order.length - 1}
+                      onClick={() => updateColumnConfig(moveTableColumn(columnConfig, id, 1))}
+                      className="rounded p-0.5 text-text-tertiary hover:bg-surface-hover disabled:opacity-30"
+                      title="Move right"
+                    >
+                      <ChevronRight className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                );
+              })}
+              <DropdownMenuSeparator />
+              <button
+                type="button"
+                onClick={() => updateColumnConfig(DEFAULT_TABLE_COLUMN_CONFIG)}
+                className="w-full rounded px-2 py-1.5 text-left text-caption text-text-secondary hover:bg-surface-hover"
+              >
+                Reset to default
+              </button>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      {selectedIds.size > 0 && (
+        <BulkActionBar board={board} selectedIds={selectedIds} onClear={() => setSelectedIds(new Set())}>
+          {selectedInView < selectedIds.size && (
+            <span className="text-text-tertiary">({selectedIds.size - selectedInView} hidden by filters)</span>
+          )}
+        </BulkActionBar>
+      )}
+
+      <div
+        ref={scrollRef}
+        onScroll={(event) => setScrollTop(event.currentTarget.scrollTop)}
+        className="flex-1 overflow-auto bg-background"
+        role="table"
+        aria-rowcount={rows.length}
+      >
+        <div style={{ minWidth }}>
+          <div
+            role="row"
+            className="sticky top-0 z-10 grid h-9 items-center border-b border-border bg-surface text-caption font-medium text-text-secondary"
+            style={{ gridTemplateColumns: template }}
+          >
+            <div className="flex items-center justify-center">
+              <Checkbox
+                checked={allSelected ? true : selectedInView > 0 ? 'indeterminate' : false}
+                onCheckedChange={toggleAll}
+                aria-label="Select all cards"
+              />
+            </div>
+            <button type="button" onClick={() => handleSort('title')} className="flex items-center gap-1 px-2 text-left">
+              Title
+              <SortIndicator sort={sort} sortKey="title" />
+            </button>
+            {columns.map((column) => (
+              <button
+                key={column.id}
+                type="button"
+                onClick={() => handleSort(column.id)}
+                className="flex items-center gap-1 truncate px-2.5 text-left"
+              >
+                {column.label}
+                <SortIndicator sort={sort} sortKey={column.id} />
+              </button>
+            ))}
+          </div>
+
+          {rows.length === 0 ? (
+            <div className="py-16 text-center text-body text-text-tertiary">
+              {allRows.length === 0 ? 'This board has no cards yet' : 'No cards match these filters'}
+            </div>
+          ) : (
+            <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+              {rows.slice(start, end).map((row, offset) => (
+                <TableRowView
+                  key={row.card.id}
+                  row={row}
+                  top={(start + offset) * ROW_HEIGHT}
+                  columns={columns}
+                  template={template}
+                  selected={selectedIds.has(row.card.id)}
+                  lookups={lookups}
+                  actions={actions}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <CardModal
+        card={selectedCard}
+        boardId={board.id}
+        isOpen={!!selectedCard}
+        onClose={() => setSelectedCard(null)}
+        onUpdate={handleCardUpdate}
+        onDelete={handleCardDelete}
+        onCardClick={setSelectedCard}
+        currentUserId={currentUserId}
+        isAdmin={isAdmin}
+        canViewQualitySummaries={canViewQualitySummaries}
+        boardSettings={settings}
+        boardMembers={board.members}
+        taskLists={taskLists}
+        planningLists={planningLists}
+        allCards={allCards}
+        prefetchedComments={prefetchedComments}
+        prefetchedAttachments={prefetchedAttachments}
+      />
+    </div>
+  );
+}
@@ -23,10 +23,13 @@ import {
 import { Plus, ChevronRight, ChevronLeft, ExternalLink, Calendar, Link as LinkIcon, BarChart3, Filter, User, Eye, Copy, Trash2, X } from 'lucide-react';
 import { toast } from 'sonner';
 import { useBoardMutations } from '@/hooks/api/use-board-mutations';
+import { useCardSelection } from '@/hooks/useCardSelection';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
 import { useCardDetailPrefetch, useCardDetails } from '@/hooks/api/use-card-details';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { List } from '../List';
+import { List, type ListWipLimits } from '../List';
+import { BulkActionBar } from '../BulkActionBar';
 import { CardCompact } from '@/components/cards/CardCompact';
 import { CardModal } from '@/components/cards/CardModal';
 import { BurnUpChart } from './BurnUpChart';
@@ -74,6 +77,7 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
   const [localBoard, setLocalBoard] = useState(initialBoard);
   const syncingFromPropRef = useRef(false);
   const mutations = useBoardMutations(initialBoard.id);
+  const undoHistory = useUndoHistory(initialBoard.id);
   const boardSnapshotRef = useRef<Board | null>(null);
   const queryClient = useQueryClient();
 
@@ -134,6 +138,7 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
     sourceListId: string;
     destinationListId: string;
     newPosition: number;
+    fromPosition: number;
   } | null>(null);
   const [reviewModeListId, setReviewModeListId] = useState<string | null>(null);
   const [cardContextMenu, setCardContextMenu] = useState<{ card: Card; x: number; y: number } | null>(null);
@@ -170,12 +175,13 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
   ), [board.lists]);
 
   // Auto-open card from URL query param (e.g., ?card=<cardId>)
-  const didAutoOpenRef = useRef(false);
+  // Tracks the id rather than a flag so a new ?card= (e.g. from a notification) opens too.
+  const autoOpenedCardIdRef = useRef<string | null>(null);
   useEffect(() => {
-    if (!initialCardId || didAutoOpenRef.current) return;
+    if (!initialCardId || autoOpenedCardIdRef.current === initialCardId) return;
     const card = allCards.find((c) => c.id === initialCardId);
     if (card) {
-      didAutoOpenRef.current = true;
+      autoOpenedCardIdRef.current = initialCardId;
       setSelectedCard(card);
     }
   }, [initialCardId, allCards]);
@@ -447,6 +453,10 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
     const srcList = board.lists.find(l => l.id === sourceListId);
     const isMovingToReview = destList && destList.name.toLowerCase().includes('review');
     const isFromReview = srcList && srcList.name.toLowerCase().includes('review');
+    // Where the card sat before the drag, so the move can be undone
+    const fromPosition = boardSnapshotRef.current?.lists
+      .find((l) => l.id === sourceListId)
+      ?.cards.findIndex((c) => c.id === activeCard.id) ?? -1;
 
     if (isMovingToReview && !isFromReview) {
       setPendingReviewMove({
@@ -454,13 +464,14 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
         sourceListId,
         destinationListId,
         newPosition,
+        fromPosition,
       });
       setActiveCard(null);
       setActiveCardListId(null);
       return;
     }
 
-    const movedCardId = activeCard.id;
+    const movedCard = activeCard;
     boardSnapshotRef.current = null;
     setActiveCard(null);
     setActiveCardListId(null);
@@ -472,13 +483,28 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
     }
 
     mutations.reorderCard({
-      cardId: movedCardId,
+      cardId: movedCard.id,
       sourceListId,
       destinationListId,
       newPosition,
+    }).then(({ warnings }) => {
+      warnings.forEach((warning) => toast.warning(warning));
+      if (fromPosition >= 0 && destList) {
+        undoHistory.recordCardMove({
+          cardId: movedCard.id,
+          title: movedCard.title,
+          fromListId: sourceListId,
+          fromPosition,
+          toListId: destinationListId,
+          toPosition: newPosition,
+          toListName: destList.name,
+        });
+      }
     }).catch((error) => {
       console.error('Failed to reorder card:', error);
-      toast.error('Failed to move card');
+      toast.error('Failed to move card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
       mutations.invalidateBoard();
     });
   };
@@ -497,9 +523,25 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
       sourceListId: move.sourceListId,
       destinationListId: move.destinationListId,
       newPosition: move.newPosition,
+    }).then(({ warnings }) => {
+      warnings.forEach((warning) => toast.warning(warning));
+      const destList = board.lists.find((l) => l.id === move.destinationListId);
+      if (move.fromPosition >= 0 && destList) {
+        undoHistory.recordCardMove({
+          cardId: move.card.id,
+          title: move.card.title,
+          fromListId: move.sourceListId,
+          fromPosition: move.fromPosition,
+          toListId: move.destinationListId,
+          toPosition: move.newPosition,
+          toListName: destList.name,
+        });
+      }
     }).catch((error) => {
       console.error('Failed to move card:', error);
-      toast.error('Failed to move card');
+      toast.error('Failed to move card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
       mutations.invalidateBoard();
     });
   };
@@ -515,6 +557,10 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
   // Review mode card moved handler
   const handleReviewModeCardMoved = (cardId: string, targetListId: string) => {
     if (!reviewModeListId) return;
+    const sourceListId = reviewModeListId;
+    const sourceCards = board.lists.find((l) => l.id === sourceListId)?.cards ?? [];
+    const fromPosition = sourceCards.findIndex((c) => c.id === cardId);
+    const movedTitle = sourceCards[fromPosition]?.title ?? 'Card';
 
     setBoard((prev) => {
       const newLists = prev.lists.map((list) => {
@@ -541,12 +587,27 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
 
     mutations.reorderCard({
       cardId,
-      sourceListId: reviewModeListId,
+      sourceListId,
       destinationListId: targetListId,
       newPosition: 0,
+    }).then(({ warnings }) => {
+      warnings.forEach((warning) => toast.warning(warning));
+      if (fromPosition >= 0 && targetList) {
+        undoHistory.recordCardMove({
+          cardId,
+          title: movedTitle,
+          fromListId: sourceListId,
+          fromPosition,
+          toListId: targetListId,
+          toPosition: 0,
+          toListName: targetList.name,
+        });
+      }
     }).catch((error) => {
       console.error('Failed to move card:', error);
-      toast.error('Failed to move card');
+      toast.error('Failed to move card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
       mutations.invalidateBoard();
     });
   };
@@ -634,7 +695,9 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
         })),
       }));
       setSelectedCard((prev) => (prev?.id === tempId ? null : prev));
-      toast.error('Failed to create card');
+      toast.error('Failed to create card', {
+        description: error instanceof Error ? error.message : undefined,
+      });
     }
   }, [setBoard, mutations]);
 
@@ -648,9 +711,17 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
   const { comments: prefetchedComments, attachments: prefetchedAttachments } =
     useCardDetails(board.id, selectedCard?.id);
 
-  const handleCardClick = useCallback((card: Card) => {
+  // Shift/ctrl-click builds a selection for bulk actions; a plain click opens the card
+  const selectionOrder = useMemo(
+    () => filteredLists.flatMap((list) => list.cards.map((card) => card.id)),
+    [filteredLists]
+  );
+  const { selectedIds, handleSelectClick, clearSelection } = useCardSelection(selectionOrder);
+
+  const handleCardClick = useCallback((card: Card, event?: React.MouseEvent) => {
+    if (handleSelectClick(card.id, event)) return;
     setSelectedCard(card);
-  }, []);
+  }, [handleSelectClick]);
 
   const handleCardUpdate = useCallback((updatedCard: Card) => {
     setBoard((prev) => ({
@@ -723,6 +794,23 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
     }
   }, [board.id, setBoard]);
 
+  const handleUpdateWipLimits = useCallback(async (listId: string, limits: ListWipLimits) => {
+    try {
+      const updated = await mutations.updateList(listId, limits);
+      setBoard((prev) => ({
+        ...prev,
+        lists: prev.lists.map((l) => (
+          l.id === listId
+            ? { ...l, wipLimit: updated.wipLimit ?? null, wipLimitPerAssignee: updated.wipLimitPerAssignee ?? null }
+            : l
+        )),
+      }));
+    } catch (error) {
+      console.error('Failed to update WIP limits:', error);
+      toast.error('Failed to update WIP limits');
+    }
+  }, [setBoard, mutations]);
+
   const handleAddList = async () => {
     if (!newListName.trim()) return;
 
@@ -751,6 +839,7 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
         ...prev,
         lists: prev.lists.map((l) => (l.id === tempId ? { ...realList, cards: [] } : l)),
       }));
+      undoHistory.recordListCreate({ listId: realList.id, name, viewType: 'TASKS' });
     } catch (error) {
       console.error('Failed to add list:', error);
       // Remove temp list
@@ -905,6 +994,9 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
                 onAddCard={handleAddCard}
                 onCardClick={handleCardClick}
                 onDeleteList={handleDeleteList}
+                wipLimit={list.wipLimit ?? null}
+                wipLimitPerAssignee={list.wipLimitPerAssignee ?? null}
+                onUpdateWipLimits={handleUpdateWipLimits}
                 cardTypeFilter="TASK"
                 onCardHover={handleCardHover}
                 onCardContextMenu={handleCardContextMenu}
@@ -976,6 +1068,10 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
         )}
       </div>
 
+      {selectedIds.size > 0 && !reviewModeListId && (
+        <BulkActionBar board={board} selectedIds={selectedIds} onClear={clearSelection} />
+      )}
+
       {/* Main content area */}
       <div className="flex flex-1 overflow-hidden">
         {reviewModeListId ? (
@@ -1014,7 +1110,11 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
                     boardId={board.id}
                     onAddCard={handleAddCard}
                     onCardClick={handleCardClick}
+                    selectedCardIds={selectedIds}
                     onDeleteList={handleDeleteList}
+                    wipLimit={list.wipLimit ?? null}
+                    wipLimitPerAssignee={list.wipLimitPerAssignee ?? null}
+                    onUpdateWipLimits={handleUpdateWipLimits}
                     cardTypeFilter="TASK"
                     listColor={list.color}
                     onCardHover={handleCardHover}
@@ -1155,11 +1255,13 @@ export function TasksView({ board: initialBoard, currentUserId, weeklyProgress =
             className="w-full px-3 py-1.5 text-left text-body text-error hover:bg-error/10 flex items-center gap-2"
             onClick={(e) => {
               e.stopPropagation();
-              const cardId = cardContextMenu.card.id;
+              const { id: cardId, title } = cardContextMenu.card;
               setCardContextMenu(null);
               if (confirm('Are you sure you want to delete this card?')) {
                 handleCardDelete(cardId);
-                mutations.deleteCard(cardId).catch(() => {
+                mutations.deleteCard(cardId).then(() => {
+                  undoHistory.recordCardArchive({ cardId, title });
+                }).catch(() => {
                   toast.error('Failed to delete card. Please refresh.');
                   mutations.invalidateBoard();
                 });
@@ -1,3 +1,5 @@
 export { TasksView } from './TasksView';
 export { PlanningView } from './PlanningView';
+export { CalendarView } from './CalendarView';
+export { TableView } from './TableView';
 export { BurnUpChart } from './BurnUpChart';
@@ -11,6 +11,7 @@ import {
 } from '@/components/ui/popover';
 import { toast } from 'sonner';
 import { apiFetch } from '@/lib/api-client';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
 import type { CardAssignee, BoardMember } from '@/types';
 import { cn } from '@/lib/utils';
 
@@ -18,6 +19,8 @@ interface AssigneePickerProps {
   assignees: CardAssignee[];
   boardId: string;
   cardId: string;
+  /** Used in undo toasts. */
+  cardTitle?: string;
   boardMembers?: BoardMember[];
   onUpdate: (assignees: CardAssignee[]) => void;
   singleMode?: boolean;
@@ -27,12 +30,14 @@ export function AssigneePicker({
   assignees,
   boardId,
   cardId,
+  cardTitle = 'card',
   boardMembers: preloadedBoardMembers = [],
   onUpdate,
   singleMode = false,
 }: AssigneePickerProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [boardMembers, setBoardMembers] = useState<BoardMember[]>(preloadedBoardMembers);
+  const { recordAssigneeChange } = useUndoHistory(boardId);
 
   useEffect(() => {
     setBoardMembers(preloadedBoardMembers);
@@ -88,6 +93,11 @@ export function AssigneePicker({
       );
       // Replace temp with real server data
       onUpdate(previousAssignees.filter((a) => a.userId !== userId).concat(realAssignee));
+      recordAssigneeChange({
+        cardId,
+        title: cardTitle,
+        added: { userId, name: member.user.name || member.user.email },
+      });
     } catch (error) {
       console.error('Failed to assign user:', error);
       onUpdate(previousAssignees); // Rollback
@@ -98,6 +108,7 @@ export function AssigneePicker({
   const handleUnassign = async (userId: string) => {
     // Optimistic: remove immediately
     const previousAssignees = assignees;
+    const removed = assignees.find((a) => a.userId === userId);
     onUpdate(assignees.filter((a) => a.userId !== userId));
 
     try {
@@ -105,6 +116,11 @@ export function AssigneePicker({
         `/api/boards/${boardId}/cards/${cardId}/assignees?userId=${userId}`,
         { method: 'DELETE' }
       );
+      recordAssigneeChange({
+        cardId,
+        title: cardTitle,
+        removed: { userId, name: removed?.user.name || removed?.user.email || 'assignee' },
+      });
     } catch (error) {
       console.error('Failed to unassign user:', error);
       onUpdate(previousAssignees); // Rollback
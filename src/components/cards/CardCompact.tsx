@@ -12,8 +12,9 @@ import { formatShortDate } from '@/lib/date-utils';
 
 interface CardCompactProps {
   card: Card;
-  onClick: () => void;
+  onClick: (event: React.MouseEvent) => void;
   sortable?: boolean;
+  selected?: boolean; // Part of a multi-selection
   inlineAction?: React.ReactNode; // Optional action button to render inside the card
 }
 
@@ -25,7 +26,7 @@ const cardTypeIcons = {
   UTILITY: FileText,
 };
 
-export const CardCompact = memo(function CardCompact({ card, onClick, sortable = true, inlineAction }: CardCompactProps) {
+export const CardCompact = memo(function CardCompact({ card, onClick, sortable = true, selected = false, inlineAction }: CardCompactProps) {
   const {
     attributes,
     listeners,
@@ -64,6 +65,7 @@ export const CardCompact = memo(function CardCompact({ card, onClick, sortable =
       className={cn(
         'cursor-pointer rounded-md border border-border-subtle bg-surface transition-shadow hover:shadow-sm',
         isDragging && 'rotate-2 shadow-lg',
+        selected && 'ring-2 ring-primary',
         // More compact padding for Planning view
         isInPlanningView ? 'p-1.5' : 'p-2'
       )}
@@ -108,7 +110,10 @@ export const CardCompact = memo(function CardCompact({ card, onClick, sortable =
   );
 }, (prev, next) => {
   // Custom comparator: skip onClick (always new closure) and compare card by reference
-  return prev.card === next.card && prev.sortable === next.sortable && prev.inlineAction === next.inlineAction;
+  return prev.card === next.card
+    && prev.sortable === next.sortable
+    && prev.selected === next.selected
+    && prev.inlineAction === next.inlineAction;
 });
 
 function TaskCardBadges({ card, inlineAction }: { card: TaskCard; inlineAction?: React.ReactNode }) {
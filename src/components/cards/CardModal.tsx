@@ -24,7 +24,10 @@ import { ConnectionPicker } from './ConnectionPicker';
 import { TimeLogSection } from './TimeLogSection';
 import { CreateLinkedTasksModal } from './CreateLinkedTasksModal';
 import { CardQualityPanel } from './QualityReviewPanel';
+import { ActivityFeed } from '@/components/boards/ActivityFeed';
 import { toast } from 'sonner';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
+import type { UpdateCardParams } from '@/hooks/api/use-board-mutations';
 import type { Card, TaskCard, UserStoryCard, EpicCard, UtilityCard, Checklist, CardAssignee, BoardMember, BoardSettings, UserStoryFlag, UtilitySubtype, List, Attachment, Comment, TaskReleaseMode } from '@/types';
 import { cn } from '@/lib/utils';
 import { apiFetch } from '@/lib/api-client';
@@ -174,7 +177,7 @@ export function CardModal({
   const [newLinkedReleaseTargetListId, setNewLinkedReleaseTargetListId] = useState<string>('');
   const [isCreatingLinkedCardLoading, setIsCreatingLinkedCardLoading] = useState(false);
   const [_autoSaveStatus, setAutoSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
-  const [activePanelTab, setActivePanelTab] = useState<'details' | 'quality'>('details');
+  const [activePanelTab, setActivePanelTab] = useState<'details' | 'quality' | 'history'>('details');
   const autoSaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const isInitialLoadRef = useRef(true);
 
@@ -311,6 +314,7 @@ export function CardModal({
   }, [allCards, card, taskLists, planningLists]);
 
   // Core save function - used by auto-save
+  const { recordCardEdit, recordCardArchive } = useUndoHistory(boardId);
   const performSave = useCallback(async () => {
     if (!card || !title.trim()) return;
 
@@ -356,6 +360,19 @@ export function CardModal({
 
       const data = await response.json();
       if (data.success) {
+        // The card prop holds the last saved values, which is what undo goes back to
+        const before: UpdateCardParams = {
+          title: card.title,
+          description: card.description,
+          color: card.color,
+          featureImage: card.featureImage,
+          featureImagePosition: card.featureImagePosition,
+        };
+        if (card.type === 'TASK') before.taskData = card.taskData as unknown as Record<string, unknown>;
+        if (card.type === 'USER_STORY') before.userStoryData = card.userStoryData as unknown as Record<string, unknown>;
+        if (card.type === 'UTILITY') before.utilityData = card.utilityData as unknown as Record<string, unknown>;
+        recordCardEdit({ cardId: card.id, title: updates.title as string, before, after: updates as UpdateCardParams });
+
         // Merge updated card with local state for checklists and assignees
         const updatedCard = {
           ...data.data,
@@ -376,7 +393,7 @@ export function CardModal({
       setAutoSaveStatus('error');
       toast.error('Failed to save changes');
     }
-  }, [card, title, description, color, featureImage, featureImagePosition, storyPoints, deadline, linkedUserStoryId, flags, linkedEpicId, utilitySubtype, utilityUrl, utilityContent, utilityDate, boardId, checklists, assignees, onUpdate]);
+  }, [card, title, description, color, featureImage, featureImagePosition, storyPoints, deadline, linkedUserStoryId, flags, linkedEpicId, utilitySubtype, utilityUrl, utilityContent, utilityDate, boardId, checklists, assignees, onUpdate, recordCardEdit]);
 
   // Auto-save effect - debounced save when fields change
   useEffect(() => {
@@ -494,6 +511,7 @@ export function CardModal({
       await apiFetch(`/api/boards/${boardId}/cards/${card.id}`, {
         method: 'DELETE',
       });
+      recordCardArchive({ cardId: card.id, title: card.title });
     } catch (error) {
       console.error('Failed to delete card:', error);
       toast.error('Failed to delete card. Please refresh the page.');
@@ -672,17 +690,17 @@ export function CardModal({
           </div>
         </DialogHeader>
 
-        {canViewQualitySummaries && (
-          <div className="border-b border-border px-6 py-2">
-            <div className="flex items-center gap-2">
-              <Button
-                type="button"
-                size="sm"
-                variant={activePanelTab === 'details' ? 'default' : 'outline'}
-                onClick={() => setActivePanelTab('details')}
-              >
-                Details
-              </Button>
+        <div className="border-b border-border px-6 py-2">
+          <div className="flex items-center gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant={activePanelTab === 'details' ? 'default' : 'outline'}
+              onClick={() => setActivePanelTab('details')}
+            >
+              Details
+            </Button>
+            {canViewQualitySummaries && (
               <Button
                 type="button"
                 size="sm"
@@ -691,15 +709,25 @@ export function CardModal({
               >
                 Quality
               </Button>
-            </div>
+            )}
+            <Button
+              type="button"
+              size="sm"
+              variant={activePanelTab === 'history' ? 'default' : 'outline'}
+              onClick={() => setActivePanelTab('history')}
+            >
+              History
+            </Button>
           </div>
-        )}
+        </div>
 
         {/* Content */}
         <div className="flex flex-1 min-h-0 overflow-hidden">
           {/* Main Content Area */}
           <div className="flex-1 min-w-0 overflow-y-auto p-6">
-            {(!canViewQualitySummaries || activePanelTab === 'details') ? (
+            {activePanelTab === 'history' ? (
+              <ActivityFeed boardId={boardId} cardId={card.id} />
+            ) : (!canViewQualitySummaries || activePanelTab === 'details') ? (
               <div className="space-y-4">
             {/* Dependency Chain (Task cards only) */}
             {card.type === 'TASK' && dependencyChain && (
@@ -1430,6 +1458,7 @@ export function CardModal({
                   assignees={assignees}
                   boardId={boardId}
                   cardId={card.id}
+                  cardTitle={card.title}
                   boardMembers={boardMembers}
                   onUpdate={handleAssigneesUpdate}
                   singleMode
@@ -1,19 +1,45 @@
 'use client';
 
 import { Paperclip } from 'lucide-react';
-import type { Attachment } from '@/types';
+import { splitMentions } from '@/lib/mentions';
+import type { Attachment, CommentMention } from '@/types';
 
 interface CommentContentProps {
   content: string;
   attachments: Attachment[];
+  mentions?: CommentMention[];
   onAttachmentClick?: (attachment: Attachment) => void;
 }
 
+// Render plain text with the comment's @user mentions highlighted
+function TextWithMentions({ content, mentions }: { content: string; mentions: CommentMention[] }) {
+  if (mentions.length === 0) return <span>{content}</span>;
+
+  return (
+    <span>
+      {splitMentions(content, mentions).map((part, index) => (
+        part.type === 'mention' ? (
+          <span
+            key={index}
+            className="rounded bg-primary/10 px-0.5 font-medium text-primary"
+            title={part.mention.name}
+          >
+            {part.content}
+          </span>
+        ) : (
+          <span key={index}>{part.content}</span>
+        )
+      ))}
+    </span>
+  );
+}
+
 // Parse comment content and render attachment references as clickable links
-// Format: @[attachment-name] or @[attachment-id]
+// Format: @[attachment-name] or @[attachment-id]; @user mentions come from the stored `mentions`
 export function CommentContent({
   content,
   attachments,
+  mentions = [],
   onAttachmentClick,
 }: CommentContentProps) {
   // Regex to match @[...] patterns
@@ -75,14 +101,18 @@ export function CommentContent({
 
   // If no attachment references found, just render the content
   if (parts.length === 0) {
-    return <span className="whitespace-pre-wrap">{content}</span>;
+    return (
+      <span className="whitespace-pre-wrap">
+        <TextWithMentions content={content} mentions={mentions} />
+      </span>
+    );
   }
 
   return (
     <span className="whitespace-pre-wrap">
       {parts.map((part, index) => {
         if (part.type === 'text') {
-          return <span key={index}>{part.content}</span>;
+          return <TextWithMentions key={index} content={part.content} mentions={mentions} />;
         }
 
         // Render attachment reference
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { formatDistanceToNow } from 'date-fns';
 import { Send, MoreHorizontal, Trash2, Pencil, Paperclip, User, Reply } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -16,6 +17,7 @@ import { CommentContent } from './CommentContent';
 import { ReviewSubmissionComment } from './ReviewSubmissionComment';
 import type { Comment, Attachment, BoardMember } from '@/types';
 import { cn } from '@/lib/utils';
+import { mentionLabel } from '@/lib/mentions';
 
 // Module-level LRU cache: show cached data instantly when reopening same card.
 // Capped at 30 entries to prevent memory growth in long sessions.
@@ -75,6 +77,10 @@ export function CommentsSection({
   const [mentionStartPos, setMentionStartPos] = useState<number | null>(null);
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
 
+  // Deep link from a mention notification: /boards/[boardId]?card=...&comment=...
+  const linkedCommentId = useSearchParams().get('comment');
+  const scrolledToCommentRef = useRef<string | null>(null);
+
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const mentionPickerRef = useRef<HTMLDivElement>(null);
   const membersFetchPromiseRef = useRef<Promise<void> | null>(null);
@@ -114,6 +120,15 @@ export function CommentsSection({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [boardId, cardId]);
 
+  useEffect(() => {
+    if (!linkedCommentId || scrolledToCommentRef.current === linkedCommentId) return;
+    if (!comments.some((comment) => comment.id === linkedCommentId)) return;
+    scrolledToCommentRef.current = linkedCommentId;
+    requestAnimationFrame(() => {
+      document.getElementById(`comment-${linkedCommentId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+  }, [linkedCommentId, comments]);
+
   // Keep member list in sync when parent already has board members loaded.
   useEffect(() => {
     setBoardMembers(preloadedBoardMembers);
@@ -162,12 +177,12 @@ export function CommentsSection({
 
     // Add matching users
     boardMembers.forEach((member) => {
-      const userName = member.user.name || member.user.email;
-      if (userName.toLowerCase().includes(query)) {
+      const userName = mentionLabel(member.user);
+      if (userName.toLowerCase().includes(query) || member.user.email.toLowerCase().includes(query)) {
         suggestions.push({
           type: 'user',
           id: member.user.id,
-          name: member.user.name || member.user.email,
+          name: userName,
           image: member.user.image,
         });
       }
@@ -269,19 +284,17 @@ export function CommentsSection({
   };
 
   const handleReply = (comment: Comment) => {
-    // Extract mentioned users from the comment being replied to
-    // Pattern: @username (for users)
-    const userMentionRegex = /@(\w+(?:\s+\w+)*?)(?=\s|$|@|\[)/g;
+    // Mention the comment author and everyone the comment mentioned, except yourself
     const mentionedUsers = new Set<string>();
-
-    let match;
-    while ((match = userMentionRegex.exec(comment.content)) !== null) {
-      mentionedUsers.add(match[1]);
+    if (comment.author.id !== currentUserId) {
+      mentionedUsers.add(mentionLabel(comment.author));
+    }
+    comment.mentions?.forEach((mention) => {
+      if (mention.userId !== currentUserId) mentionedUsers.add(mention.name);
+    });
+    if (mentionedUsers.size === 0) {
+      mentionedUsers.add(mentionLabel(comment.author));
     }
-
-    // Always add the comment author
-    const authorName = comment.author.name || comment.author.email;
-    mentionedUsers.add(authorName);
 
     // Build the reply prefix with all mentioned users
     const mentions = Array.from(mentionedUsers)
@@ -423,7 +436,14 @@ export function CommentsSection({
             comment.type === 'review_submission' ? (
               <ReviewSubmissionComment key={comment.id} comment={comment} />
             ) : (
-            <div key={comment.id} className="flex gap-3">
+            <div
+              key={comment.id}
+              id={`comment-${comment.id}`}
+              className={cn(
+                'flex gap-3 rounded-md',
+                comment.id === linkedCommentId && 'bg-primary/5 ring-1 ring-primary/30 p-2 -m-2'
+              )}
+            >
               <Avatar className="h-8 w-8 shrink-0">
                 <AvatarImage src={comment.author.image || undefined} />
                 <AvatarFallback className="text-xs">
@@ -496,6 +516,7 @@ export function CommentsSection({
                       <CommentContent
                         content={comment.content}
                         attachments={attachments}
+                        mentions={comment.mentions}
                         onAttachmentClick={onAttachmentClick}
                       />
                     </p>
@@ -1,12 +1,13 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Plus, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
 import { apiFetch } from '@/lib/api-client';
+import { useUndoHistory } from '@/hooks/useUndoHistory';
 import type { Checklist, ChecklistItem } from '@/types';
 import { cn } from '@/lib/utils';
 
@@ -28,6 +29,13 @@ export function SimpleChecklist({
   const [isAddingItem, setIsAddingItem] = useState(false);
   const [newItemContent, setNewItemContent] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const undoHistory = useUndoHistory(boardId);
+
+  // Undo can run after later edits, so it works from the latest props
+  const latestRef = useRef({ checklists, onUpdate });
+  useEffect(() => {
+    latestRef.current = { checklists, onUpdate };
+  }, [checklists, onUpdate]);
 
   // Find or create the single checklist for this type
   const checklist = checklists.find((cl) => cl.type === type);
@@ -58,6 +66,41 @@ export function SimpleChecklist({
     return null;
   };
 
+  const itemsUrl = (checklistId: string) =>
+    `/api/boards/${boardId}/cards/${cardId}/checklists/${checklistId}/items`;
+
+  const updateItems = (checklistId: string, update: (items: ChecklistItem[]) => ChecklistItem[]) => {
+    const { checklists: current, onUpdate: apply } = latestRef.current;
+    apply(current.map((cl) => (cl.id === checklistId ? { ...cl, items: update(cl.items) } : cl)));
+  };
+
+  // Deleted items come back under a new id; the alias keeps older steps pointing at them
+  const recreateItem = async (checklistId: string, item: ChecklistItem, index: number) => {
+    const created = await apiFetch<ChecklistItem>(itemsUrl(checklistId), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content: item.content, isComplete: item.isComplete, position: item.position }),
+    });
+    undoHistory.aliasId(undoHistory.resolveId(item.id), created.id);
+    updateItems(checklistId, (items) => [...items.slice(0, index), created, ...items.slice(index)]);
+  };
+
+  const removeItem = async (checklistId: string, itemId: string) => {
+    const id = undoHistory.resolveId(itemId);
+    await apiFetch(`${itemsUrl(checklistId)}/${id}`, { method: 'DELETE' });
+    updateItems(checklistId, (items) => items.filter((i) => i.id !== id));
+  };
+
+  const setComplete = async (checklistId: string, itemId: string, isComplete: boolean) => {
+    const id = undoHistory.resolveId(itemId);
+    await apiFetch(`${itemsUrl(checklistId)}/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isComplete }),
+    });
+    updateItems(checklistId, (items) => items.map((i) => (i.id === id ? { ...i, isComplete } : i)));
+  };
+
   const handleAddItem = async () => {
     if (!newItemContent.trim()) return;
 
@@ -83,6 +126,11 @@ export function SimpleChecklist({
       );
       setNewItemContent('');
       setIsAddingItem(false);
+      undoHistory.record({
+        label: `Added checklist item "${newItem.content}"`,
+        undo: () => removeItem(checklistId, newItem.id),
+        redo: () => recreateItem(checklistId, newItem, Number.MAX_SAFE_INTEGER),
+      }, { notify: false });
     } catch (error) {
       console.error('Failed to add item:', error);
       toast.error('Failed to add checklist item');
@@ -118,6 +166,12 @@ export function SimpleChecklist({
           body: JSON.stringify({ isComplete: !item.isComplete }),
         }
       );
+      const checklistId = checklist.id;
+      undoHistory.record({
+        label: `${item.isComplete ? 'Unchecked' : 'Checked'} "${item.content}"`,
+        undo: () => setComplete(checklistId, item.id, item.isComplete),
+        redo: () => setComplete(checklistId, item.id, !item.isComplete),
+      }, { notify: false });
     } catch (error) {
       console.error('Failed to toggle item:', error);
       onUpdate(previousChecklists); // Rollback
@@ -125,8 +179,10 @@ export function SimpleChecklist({
     }
   };
 
-  const handleDeleteItem = async (itemId: string) => {
+  const handleDeleteItem = async (item: ChecklistItem) => {
     if (!checklist) return;
+    const itemId = item.id;
+    const index = items.findIndex((i) => i.id === itemId);
 
     // Optimistic: remove immediately
     const previousChecklists = checklists;
@@ -143,6 +199,12 @@ export function SimpleChecklist({
         `/api/boards/${boardId}/cards/${cardId}/checklists/${checklist.id}/items/${itemId}`,
         { method: 'DELETE' }
       );
+      const checklistId = checklist.id;
+      undoHistory.record({
+        label: `Deleted checklist item "${item.content}"`,
+        undo: () => recreateItem(checklistId, item, index),
+        redo: () => removeItem(checklistId, item.id),
+      });
     } catch (error) {
       console.error('Failed to delete item:', error);
       onUpdate(previousChecklists); // Rollback
@@ -195,7 +257,7 @@ export function SimpleChecklist({
               variant="ghost"
               size="sm"
               className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100"
-              onClick={() => handleDeleteItem(item.id)}
+              onClick={() => handleDeleteItem(item)}
             >
               <Trash2 className="h-3 w-3 text-text-tertiary hover:text-error" />
             </Button>
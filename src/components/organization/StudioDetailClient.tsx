@@ -11,6 +11,7 @@ import { CreateTeamDialog } from '@/components/organization/CreateTeamDialog';
 import { OrganizationQualitySummaryContent } from '@/components/organization/OrganizationQualitySummaryContent';
 import { StudioSettingsModal } from '@/components/organization/StudioSettingsModal';
 import { StudioDetailSkeleton } from '@/components/organization/StudioDetailSkeleton';
+import { StudioHolidaysSection } from '@/components/organization/StudioHolidaysSection';
 import { QualitySummarySection } from '@/components/quality/QualitySummarySection';
 
 interface StudioDetailClientProps {
@@ -194,6 +195,8 @@ export function StudioDetailClient({
             ))}
           </div>
         )}
+
+        <StudioHolidaysSection studioId={studio.id} isAdmin={isAdmin} />
       </main>
 
       {isAdmin && (
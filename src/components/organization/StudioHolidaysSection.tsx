@@ -0,0 +1,177 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { CalendarOff, Loader2, Plus, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  useCreateStudioHoliday,
+  useDeleteStudioHoliday,
+  useImportStudioHolidays,
+  useStudioHolidays,
+} from '@/hooks/api/use-studios';
+
+interface StudioHolidaysSectionProps {
+  studioId: string;
+  isAdmin: boolean;
+}
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+// Holidays are stored as UTC midnights
+function formatHoliday(date: string) {
+  return new Date(date).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+/**
+ * Days the studio is closed. Timeline blocks, applied dates and staged releases on its
+ * teams' boards skip them; admins add days one by one or import an ICS calendar.
+ */
+export function StudioHolidaysSection({ studioId, isAdmin }: StudioHolidaysSectionProps) {
+  const { data: holidays, isLoading } = useStudioHolidays(studioId);
+  const createHoliday = useCreateStudioHoliday(studioId);
+  const deleteHoliday = useDeleteStudioHoliday(studioId);
+  const importHolidays = useImportStudioHolidays(studioId);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [date, setDate] = useState('');
+  const [name, setName] = useState('');
+  const [showPast, setShowPast] = useState(false);
+
+  const today = new Date().toISOString().slice(0, 10);
+  const upcoming = (holidays ?? []).filter((holiday) => holiday.date.slice(0, 10) >= today);
+  const visible = showPast ? holidays ?? [] : upcoming;
+  const pastCount = (holidays?.length ?? 0) - upcoming.length;
+
+  const handleAdd = async () => {
+    try {
+      await createHoliday.mutateAsync({ date, name: name.trim() });
+      setDate('');
+      setName('');
+    } catch (error) {
+      toast.error('Failed to add holiday', errorDescription(error));
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const result = await importHolidays.mutateAsync(await file.text());
+      toast.success(`Imported ${result.created + result.updated} holiday${result.created + result.updated === 1 ? '' : 's'}`, {
+        description: [
+          result.updated > 0 ? `${result.updated} already existed and were renamed` : null,
+          result.skipped > 0 ? `${result.skipped} events without a date or title were skipped` : null,
+        ].filter(Boolean).join('. ') || undefined,
+      });
+    } catch (error) {
+      toast.error('Failed to import calendar', errorDescription(error));
+    }
+  };
+
+  const handleDelete = async (holidayId: string) => {
+    try {
+      await deleteHoliday.mutateAsync(holidayId);
+    } catch (error) {
+      toast.error('Failed to remove holiday', errorDescription(error));
+    }
+  };
+
+  return (
+    <section className="mt-8">
+      <div className="mb-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <CalendarOff className="h-4 w-4 text-text-secondary" />
+          <h2 className="text-title font-medium text-text-secondary">Holidays</h2>
+        </div>
+        {isAdmin && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => inputRef.current?.click()}
+              disabled={importHolidays.isPending}
+            >
+              {importHolidays.isPending ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Upload className="mr-1 h-3.5 w-3.5" />}
+              Import .ics
+            </Button>
+            <input
+              ref={inputRef}
+              type="file"
+              accept="text/calendar,.ics"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = '';
+                if (file) void handleImport(file);
+              }}
+            />
+          </>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border bg-surface p-4 space-y-4">
+        {isAdmin && (
+          <div className="flex flex-wrap items-center gap-2">
+            <Input type="date" className="w-40" value={date} onChange={(e) => setDate(e.target.value)} aria-label="Holiday date" />
+            <Input
+              className="flex-1 min-w-40"
+              value={name}
+              maxLength={200}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Midsummer Eve"
+              aria-label="Holiday name"
+            />
+            <Button size="sm" onClick={handleAdd} disabled={!date || !name.trim() || createHoliday.isPending}>
+              <Plus className="mr-1 h-3.5 w-3.5" />
+              Add
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="h-12 animate-pulse rounded-md bg-surface-hover" />
+        ) : visible.length === 0 ? (
+          <p className="text-caption text-text-tertiary">No upcoming holidays.</p>
+        ) : (
+          <div className="divide-y divide-border">
+            {visible.map((holiday) => (
+              <div key={holiday.id} className="flex items-center justify-between gap-4 py-1.5">
+                <div className="flex min-w-0 items-center gap-3">
+                  <span className="w-36 shrink-0 text-caption text-text-secondary">{formatHoliday(holiday.date)}</span>
+                  <span className="truncate text-body text-text-primary">{holiday.name}</span>
+                </div>
+                {isAdmin && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(holiday.id)}
+                    disabled={deleteHoliday.isPending}
+                    aria-label={`Remove ${holiday.name}`}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {pastCount > 0 && (
+          <button
+            className="text-caption text-text-tertiary hover:text-text-secondary"
+            onClick={() => setShowPast(!showPast)}
+          >
+            {showPast ? 'Hide past holidays' : `Show ${pastCount} past holiday${pastCount === 1 ? '' : 's'}`}
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
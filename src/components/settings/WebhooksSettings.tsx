@@ -0,0 +1,455 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, History, Loader2, Pencil, Plus, RefreshCw, RotateCcw, Send, Trash2, Webhook as WebhookIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { useBoards } from '@/hooks/api/use-boards';
+import {
+  useDeleteWebhook,
+  useReplayWebhookDelivery,
+  useSaveWebhook,
+  useTestWebhook,
+  useWebhookDeliveries,
+  useWebhooks,
+} from '@/hooks/api/use-webhooks';
+import type { Webhook, WebhookDeliveryStatus, WebhookEventType, WebhookInput } from '@/types';
+
+const ALL_BOARDS = '__all__';
+
+const EVENT_LABELS: Record<WebhookEventType, string> = {
+  'card.created': 'Card created',
+  'card.updated': 'Card updated',
+  'card.moved': 'Card moved',
+  'card.completed': 'Task reached Done',
+  'card.deleted': 'Card deleted',
+  'board.updated': 'Board updated',
+  'member.added': 'Member added',
+  'timeline.event.created': 'Timeline event created',
+  'timeline.event.updated': 'Timeline event updated',
+  'timeline.event.deleted': 'Timeline event deleted',
+};
+
+// Same order as WEBHOOK_EVENT_TYPES (webhook-config.ts is server-only: it signs with node:crypto)
+const EVENT_TYPES = Object.keys(EVENT_LABELS) as WebhookEventType[];
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  success: 'bg-success',
+  pending: 'bg-warning',
+  failed: 'bg-error',
+};
+
+const EMPTY_WEBHOOK: WebhookInput = {
+  name: '',
+  url: '',
+  events: ['card.completed'],
+  boardId: null,
+};
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+function WebhookEditor({
+  draft,
+  onChange,
+  onCancel,
+  onSave,
+  isSaving,
+}: {
+  draft: WebhookInput;
+  onChange: (draft: WebhookInput) => void;
+  onCancel: () => void;
+  onSave: () => void;
+  isSaving: boolean;
+}) {
+  const { data: boards = [] } = useBoards();
+
+  const toggleEvent = (event: WebhookEventType, checked: boolean) => {
+    const events = checked
+      ? EVENT_TYPES.filter((type) => type === event || draft.events.includes(type))
+      : draft.events.filter((type) => type !== event);
+    onChange({ ...draft, events });
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border border-border p-4">
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="webhook-name">Name</Label>
+          <Input
+            id="webhook-name"
+            value={draft.name}
+            onChange={(e) => onChange({ ...draft, name: e.target.value })}
+            placeholder="Build pipeline"
+            maxLength={100}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="webhook-board">Board</Label>
+          <Select
+            value={draft.boardId ?? ALL_BOARDS}
+            onValueChange={(value) => onChange({ ...draft, boardId: value === ALL_BOARDS ? null : value })}
+          >
+            <SelectTrigger id="webhook-board">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_BOARDS}>All boards</SelectItem>
+              {boards.filter((board) => !board.isTemplate).map((board) => (
+                <SelectItem key={board.id} value={board.id}>{board.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="webhook-url">Payload URL</Label>
+        <Input
+          id="webhook-url"
+          value={draft.url}
+          onChange={(e) => onChange({ ...draft, url: e.target.value })}
+          placeholder="https://ci.example.com/hooks/fallo"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label>Events</Label>
+        <div className="grid grid-cols-1 gap-2 md:grid-cols-2">
+          {EVENT_TYPES.map((event) => (
+            <label key={event} className="flex items-center gap-2 text-body text-text-primary">
+              <Checkbox
+                checked={draft.events.includes(event)}
+                onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+              />
+              {EVENT_LABELS[event]}
+              <code className="text-caption text-text-tertiary">{event}</code>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button onClick={onSave} disabled={isSaving || !draft.name.trim() || !draft.url.trim() || draft.events.length === 0}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save webhook
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { data, isLoading, refetch, isFetching } = useWebhookDeliveries(webhookId);
+  const replay = useReplayWebhookDelivery(webhookId);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const handleReplay = async (deliveryId: string) => {
+    try {
+      const delivery = await replay.mutateAsync(deliveryId);
+      if (delivery.status === 'success') {
+        toast.success(`Replayed (HTTP ${delivery.responseStatus})`);
+      } else {
+        toast.error('Replay failed', { description: delivery.error ?? undefined });
+      }
+    } catch (error) {
+      toast.error('Failed to replay delivery', errorDescription(error));
+    }
+  };
+
+  return (
+    <div className="space-y-2 border-t border-border pt-3">
+      <div className="flex items-center justify-between">
+        <span className="text-caption font-medium text-text-secondary">Recent deliveries</span>
+        <Button variant="ghost" size="sm" onClick={() => void refetch()} disabled={isFetching}>
+          <RefreshCw className={cn('h-3.5 w-3.5', isFetching && 'animate-spin')} />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="py-4 text-center text-caption text-text-tertiary">Loading deliveries...</div>
+      ) : !data || data.items.length === 0 ? (
+        <div className="py-4 text-center text-caption text-text-tertiary">Nothing has been sent yet.</div>
+      ) : (
+        <div className="space-y-1">
+          {data.items.map((delivery) => (
+            <div key={delivery.id} className="text-caption">
+              <div className="flex items-center gap-2">
+                <span className={cn('h-2 w-2 shrink-0 rounded-full', STATUS_STYLES[delivery.status])} />
+                <button
+                  type="button"
+                  className="min-w-0 flex-1 truncate text-left text-text-primary hover:underline"
+                  onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                >
+                  <code>{delivery.event}</code>
+                  <span className="text-text-secondary">
+                    {' · '}
+                    {delivery.responseStatus ? `HTTP ${delivery.responseStatus}` : delivery.error || 'Not sent yet'}
+                    {delivery.attempts > 1 && ` · ${delivery.attempts} attempts`}
+                    {delivery.nextAttemptAt && ` · retry ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+                  </span>
+                </button>
+                <span className="shrink-0 text-text-tertiary">
+                  {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleReplay(delivery.id)}
+                  disabled={replay.isPending}
+                  title="Replay this payload"
+                >
+                  <RotateCcw className="h-3 w-3" />
+                </Button>
+              </div>
+              {expandedId === delivery.id && (
+                <div className="mt-1 space-y-1 pl-4">
+                  {delivery.error && <div className="text-error">{delivery.error}</div>}
+                  <pre className="max-h-48 overflow-auto rounded bg-surface-hover p-2 text-[11px]">
+                    {JSON.stringify(delivery.payload, null, 2)}
+                  </pre>
+                  {delivery.responseBody && (
+                    <pre className="max-h-24 overflow-auto rounded bg-surface-hover p-2 text-[11px]">
+                      {delivery.responseBody}
+                    </pre>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function toWebhookInput(webhook: Webhook): WebhookInput {
+  return { name: webhook.name, url: webhook.url, events: webhook.events, boardId: webhook.boardId };
+}
+
+export function WebhooksSettings() {
+  const { data: webhooks = [], isLoading, error } = useWebhooks();
+  const saveWebhook = useSaveWebhook();
+  const deleteWebhook = useDeleteWebhook();
+  const testWebhook = useTestWebhook();
+  const [editing, setEditing] = useState<{ webhookId?: string; draft: WebhookInput } | null>(null);
+  const [logWebhookId, setLogWebhookId] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!editing) return;
+    try {
+      await saveWebhook.mutateAsync({ webhookId: editing.webhookId, input: editing.draft });
+      setEditing(null);
+      toast.success(editing.webhookId ? 'Webhook updated' : 'Webhook created');
+    } catch (err) {
+      toast.error('Failed to save webhook', errorDescription(err));
+    }
+  };
+
+  const handleToggle = async (webhook: Webhook, enabled: boolean) => {
+    try {
+      await saveWebhook.mutateAsync({ webhookId: webhook.id, input: { enabled } });
+    } catch (err) {
+      toast.error('Failed to update webhook', errorDescription(err));
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (!window.confirm(`Rotate the signing secret for “${webhook.name}”? The receiver must be updated with the new secret.`)) return;
+    try {
+      await saveWebhook.mutateAsync({ webhookId: webhook.id, input: { rotateSecret: true } });
+      toast.success('Signing secret rotated');
+    } catch (err) {
+      toast.error('Failed to rotate secret', errorDescription(err));
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook “${webhook.name}” and its delivery log?`)) return;
+    try {
+      await deleteWebhook.mutateAsync(webhook.id);
+      if (logWebhookId === webhook.id) setLogWebhookId(null);
+    } catch (err) {
+      toast.error('Failed to delete webhook', errorDescription(err));
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const delivery = await testWebhook.mutateAsync(webhook.id);
+      if (delivery.status === 'success') {
+        toast.success(`Test delivered (HTTP ${delivery.responseStatus})`);
+      } else {
+        toast.error('Test delivery failed', { description: delivery.error ?? undefined });
+      }
+      setLogWebhookId(webhook.id);
+    } catch (err) {
+      toast.error('Failed to send test', errorDescription(err));
+    }
+  };
+
+  const handleCopySecret = async (webhook: Webhook) => {
+    try {
+      await navigator.clipboard.writeText(webhook.secret);
+      toast.success('Signing secret copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <section className="rounded-lg border border-border bg-surface p-4 space-y-4">
+      <div>
+        <h3 className="flex items-center gap-2 text-body font-semibold">
+          <WebhookIcon className="h-4 w-4" />
+          Webhooks
+        </h3>
+        <p className="text-caption text-text-secondary mt-1">
+          POST signed JSON to external systems when cards, boards or timelines change. Verify the
+          X-Webhook-Signature header with the signing secret. Failed deliveries are retried with backoff.
+        </p>
+      </div>
+
+      {error ? (
+        <div className="text-caption text-text-secondary">
+          {error instanceof Error ? error.message : 'Failed to load webhooks'}
+        </div>
+      ) : isLoading ? (
+        <div className="py-4 text-center text-caption text-text-tertiary">Loading webhooks...</div>
+      ) : (
+        <div className="space-y-2">
+          {webhooks.length === 0 && !editing && (
+            <div className="py-4 text-center text-body text-text-tertiary">No webhooks configured.</div>
+          )}
+
+          {webhooks.map((webhook) =>
+            editing?.webhookId === webhook.id ? (
+              <WebhookEditor
+                key={webhook.id}
+                draft={editing.draft}
+                onChange={(draft) => setEditing({ ...editing, draft })}
+                onCancel={() => setEditing(null)}
+                onSave={handleSave}
+                isSaving={saveWebhook.isPending}
+              />
+            ) : (
+              <div
+                key={webhook.id}
+                className={cn('space-y-3 rounded-md border border-border p-3', !webhook.enabled && 'opacity-60')}
+              >
+                <div className="flex items-start gap-3">
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 text-body font-medium text-text-primary">
+                      {webhook.lastDelivery && (
+                        <span
+                          className={cn('h-2 w-2 shrink-0 rounded-full', STATUS_STYLES[webhook.lastDelivery.status])}
+                          title={`Last delivery: ${webhook.lastDelivery.status}`}
+                        />
+                      )}
+                      {webhook.name}
+                    </div>
+                    <div className="truncate text-caption text-text-secondary">{webhook.url}</div>
+                    <div className="text-caption text-text-tertiary">
+                      {webhook.board ? webhook.board.name : 'All boards'}
+                      {' · '}
+                      {webhook.events.map((event) => EVENT_LABELS[event]).join(', ')}
+                    </div>
+                    <div className="mt-1 flex items-center gap-1 text-caption text-text-tertiary">
+                      Secret:
+                      <code>{webhook.secret.slice(0, 10)}…</code>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleCopySecret(webhook)} title="Copy signing secret">
+                        <Copy className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleRotateSecret(webhook)} title="Rotate signing secret">
+                        <RefreshCw className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={webhook.enabled}
+                      onCheckedChange={(checked) => handleToggle(webhook, checked)}
+                      aria-label={webhook.enabled ? 'Disable webhook' : 'Enable webhook'}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => handleTest(webhook)}
+                      disabled={testWebhook.isPending}
+                      title="Send test"
+                    >
+                      {testWebhook.isPending && testWebhook.variables === webhook.id
+                        ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                        : <Send className="h-3.5 w-3.5" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={cn('h-7 w-7 p-0', logWebhookId === webhook.id && 'bg-surface-hover')}
+                      onClick={() => setLogWebhookId(logWebhookId === webhook.id ? null : webhook.id)}
+                      title="Delivery log"
+                    >
+                      <History className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0"
+                      onClick={() => setEditing({ webhookId: webhook.id, draft: toWebhookInput(webhook) })}
+                      title="Edit webhook"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 w-7 p-0 text-text-tertiary hover:text-error"
+                      onClick={() => handleDelete(webhook)}
+                      title="Delete webhook"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+
+                {logWebhookId === webhook.id && <DeliveryLog webhookId={webhook.id} />}
+              </div>
+            )
+          )}
+
+          {editing && !editing.webhookId ? (
+            <WebhookEditor
+              draft={editing.draft}
+              onChange={(draft) => setEditing({ ...editing, draft })}
+              onCancel={() => setEditing(null)}
+              onSave={handleSave}
+              isSaving={saveWebhook.isPending}
+            />
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setEditing({ draft: EMPTY_WEBHOOK })}>
+              <Plus className="mr-1 h-4 w-4" />
+              New webhook
+            </Button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -50,6 +50,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { NotificationBell } from './NotificationBell';
+import { SearchCommandPalette } from './SearchCommandPalette';
 import { ThemeIcon } from './ThemeIcon';
 import { usePrefetchRoute } from '@/hooks/usePrefetchRoute';
 
@@ -442,6 +443,7 @@ export function GlobalNav({ userName, userEmail }: GlobalNavProps) {
           })}
         </nav>
         <div className="global-nav-actions flex items-center gap-4">
+          <SearchCommandPalette />
           <NotificationBell />
           <span className="text-body text-text-secondary">
             {userName || userEmail}
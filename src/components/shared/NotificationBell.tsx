@@ -121,11 +121,16 @@ export function NotificationBell() {
     if (!notification.read) {
       handleMarkRead(notification.id);
     }
-    // Navigate to the board if we have a boardId
+    // Navigate to the board (and card/comment, when the notification is about one)
     const boardId = notification.data.boardId as string | undefined;
     if (boardId) {
+      const cardId = notification.data.cardId as string | undefined;
+      const commentId = notification.data.commentId as string | undefined;
+      const query = new URLSearchParams();
+      if (cardId) query.set('card', cardId);
+      if (cardId && commentId) query.set('comment', commentId);
       setOpen(false);
-      router.push(`/boards/${boardId}`);
+      router.push(query.size > 0 ? `/boards/${boardId}?${query}` : `/boards/${boardId}`);
     }
   };
 
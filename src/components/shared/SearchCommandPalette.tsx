@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  FileText,
+  GraduationCap,
+  LayoutGrid,
+  MessageSquare,
+  Paperclip,
+  Search,
+  User,
+} from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { apiFetch } from '@/lib/api-client';
+import type { SearchResult, SearchResultType, SearchResults } from '@/types';
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const GROUPS: Array<{ type: SearchResultType; heading: string; icon: LucideIcon }> = [
+  { type: 'card', heading: 'Cards', icon: FileText },
+  { type: 'comment', heading: 'Comments', icon: MessageSquare },
+  { type: 'attachment', heading: 'Attachments', icon: Paperclip },
+  { type: 'board', heading: 'Boards', icon: LayoutGrid },
+  { type: 'user', heading: 'People', icon: User },
+  { type: 'academy', heading: 'Academy', icon: GraduationCap },
+];
+
+export function SearchCommandPalette() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Cmd+K / Ctrl+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!open || !trimmed) {
+      setResults(null);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsLoading(true);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const data = await apiFetch<{ query: string; results: SearchResults }>(
+          `/api/search?q=${encodeURIComponent(trimmed)}`,
+          { signal: controller.signal }
+        );
+        setResults(data.results);
+      } catch {
+        if (!controller.signal.aborted) setResults(null);
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeoutId);
+      controller.abort();
+    };
+  }, [open, query]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    setOpen(nextOpen);
+    if (!nextOpen) setQuery('');
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    router.push(result.href);
+  };
+
+  const hasResults = results !== null && GROUPS.some((group) => results[group.type].length > 0);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="global-search-trigger inline-flex h-8 items-center gap-2 rounded-md border border-border px-2.5 text-body text-text-tertiary hover:bg-surface-hover hover:text-text-primary transition-colors"
+        title="Search (Ctrl+K)"
+        aria-label="Search"
+      >
+        <Search className="h-4 w-4" />
+        <span className="hidden lg:inline">Search</span>
+        <kbd className="hidden rounded border border-border px-1 text-tiny lg:inline">⌘K</kbd>
+      </button>
+
+      <CommandDialog open={open} onOpenChange={handleOpenChange} shouldFilter={false}>
+        <CommandInput
+          placeholder="Search cards, comments, files, boards, people, academy..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          {query.trim() && !hasResults && (
+            <CommandEmpty>{isLoading ? 'Searching...' : 'No results found.'}</CommandEmpty>
+          )}
+          {results && GROUPS.map((group) => {
+            const items = results[group.type];
+            if (items.length === 0) return null;
+            const Icon = group.icon;
+            return (
+              <CommandGroup key={group.type} heading={group.heading}>
+                {items.map((result) => (
+                  <CommandItem
+                    key={`${result.type}-${result.id}`}
+                    value={`${result.type}-${result.id}`}
+                    onSelect={() => handleSelect(result)}
+                  >
+                    <Icon className="mr-2 h-4 w-4 shrink-0 text-text-tertiary" />
+                    <div className="flex min-w-0 flex-col">
+                      <span className="truncate">{result.title}</span>
+                      {result.subtitle && (
+                        <span className="text-tiny text-text-tertiary truncate">{result.subtitle}</span>
+                      )}
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            );
+          })}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+}
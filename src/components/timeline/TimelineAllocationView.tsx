@@ -0,0 +1,239 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { formatLocalDateKey, formatShortMonthDay, getMonday } from '@/lib/date-utils';
+import { DEFAULT_ALLOCATION_WEEKS } from '@/lib/resource-allocation';
+import { useResourceAllocation, type ResourceAllocationFilters } from '@/hooks/api/use-timeline';
+import type { AllocationOption, AllocationStatus, AllocationWeek, ResourceAllocation } from '@/types';
+import { TimelineHeader, type TimelineMode } from './TimelineHeader';
+
+// Radix Select items cannot have an empty value
+const ALL = '__all__';
+
+const STATUS_STYLES: Record<AllocationStatus, string> = {
+  over: 'bg-error/10 text-error font-semibold',
+  ok: 'bg-success/10 text-success',
+  under: 'bg-warning/10 text-warning',
+  off: 'bg-surface-hover text-text-tertiary',
+};
+
+const STATUS_LABELS: Record<AllocationStatus, string> = {
+  over: 'Over-allocated',
+  ok: 'Booked',
+  under: 'Under-booked',
+  off: 'Off',
+};
+
+interface TimelineAllocationViewProps {
+  isAdmin: boolean;
+  onModeChange: (mode: TimelineMode) => void;
+}
+
+function FilterSelect({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string | undefined;
+  options: AllocationOption[];
+  onChange: (value: string | undefined) => void;
+}) {
+  return (
+    <Select value={value ?? ALL} onValueChange={(next) => onChange(next === ALL ? undefined : next)}>
+      <SelectTrigger className="h-8 w-44 text-caption" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>All {label.toLowerCase()}</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function AllocationCell({
+  week,
+  boards,
+}: {
+  week: AllocationWeek;
+  boards: Map<string, ResourceAllocation['boards'][number]>;
+}) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            'h-7 w-full rounded-sm text-caption transition-opacity hover:opacity-80',
+            STATUS_STYLES[week.status]
+          )}
+        >
+          {week.total > 0 ? `${week.total}%` : week.status === 'off' ? 'Off' : '–'}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-3" align="center">
+        <div className="mb-2 flex items-baseline justify-between gap-2">
+          <span className="text-body font-medium text-text-primary">
+            Week of {formatShortMonthDay(week.weekStart)}
+          </span>
+          <span className={cn('text-caption', STATUS_STYLES[week.status], 'bg-transparent')}>
+            {STATUS_LABELS[week.status]}
+          </span>
+        </div>
+        <p className="mb-2 text-caption text-text-tertiary">
+          {week.total}% booked of {week.capacity}% available
+        </p>
+        {week.boards.length === 0 ? (
+          <p className="text-caption text-text-tertiary">Not booked on any project.</p>
+        ) : (
+          <div className="divide-y divide-border-subtle">
+            {week.boards.map((entry) => {
+              const board = boards.get(entry.boardId);
+              return (
+                <div key={entry.boardId} className="flex items-center justify-between gap-3 py-1.5">
+                  <div className="flex min-w-0 items-center gap-2">
+                    <span
+                      className="h-2 w-2 shrink-0 rounded-full"
+                      style={{ backgroundColor: board?.color ?? 'var(--text-tertiary)' }}
+                    />
+                    <Link
+                      href={`/boards/${entry.boardId}`}
+                      className="truncate text-caption text-text-primary hover:underline"
+                    >
+                      {board?.name ?? 'Unknown project'}
+                    </Link>
+                  </div>
+                  <span className="text-caption font-medium text-text-secondary">{entry.dedication}%</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Heatmap of each person's weekly dedication summed over every project, so double bookings
+ * show up before deadlines slip. Clicking a week lists the boards that make up the total.
+ */
+export function TimelineAllocationView({ isAdmin, onModeChange }: TimelineAllocationViewProps) {
+  const [startDate, setStartDate] = useState(() => getMonday(new Date()));
+  const [filters, setFilters] = useState<ResourceAllocationFilters>({});
+  const { data, isLoading } = useResourceAllocation(
+    formatLocalDateKey(startDate),
+    DEFAULT_ALLOCATION_WEEKS,
+    filters
+  );
+
+  const boards = useMemo(
+    () => new Map((data?.boards ?? []).map((board) => [board.id, board])),
+    [data?.boards]
+  );
+  const currentWeek = formatLocalDateKey(getMonday(new Date()));
+
+  const setFilter = (key: keyof ResourceAllocationFilters) => (value: string | undefined) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  return (
+    <div className="flex-1 flex flex-col bg-background">
+      <TimelineHeader
+        currentDate={startDate}
+        onDateChange={(date) => setStartDate(getMonday(date))}
+        onTodayClick={() => setStartDate(getMonday(new Date()))}
+        showFilterButton={false}
+        isAdmin={isAdmin}
+        mode="allocation"
+        onModeChange={onModeChange}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 border-b border-border bg-surface px-4 py-2">
+        <FilterSelect label="Teams" value={filters.teamId} options={data?.filters.teams ?? []} onChange={setFilter('teamId')} />
+        <FilterSelect label="Roles" value={filters.roleId} options={data?.filters.roles ?? []} onChange={setFilter('roleId')} />
+        <FilterSelect label="Skills" value={filters.skillId} options={data?.filters.skills ?? []} onChange={setFilter('skillId')} />
+        <div className="ml-auto flex items-center gap-3">
+          {(['over', 'ok', 'under', 'off'] as const).map((status) => (
+            <span key={status} className="flex items-center gap-1.5 text-tiny text-text-tertiary">
+              <span className={cn('h-3 w-3 rounded-sm', STATUS_STYLES[status])} />
+              {STATUS_LABELS[status]}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto">
+        {isLoading || !data ? (
+          <div className="m-4 h-40 animate-pulse rounded-md bg-surface-hover" />
+        ) : data.users.length === 0 ? (
+          <p className="p-4 text-caption text-text-tertiary">No people match these filters.</p>
+        ) : (
+          <table className="w-full border-collapse">
+            <thead className="sticky top-0 z-10 bg-surface">
+              <tr className="border-b border-border">
+                <th className="sticky left-0 z-20 w-64 min-w-64 bg-surface px-4 py-2 text-left text-caption font-medium text-text-secondary">
+                  Person
+                </th>
+                {data.weeks.map((week) => (
+                  <th
+                    key={week}
+                    className={cn(
+                      'min-w-16 px-1 py-2 text-center text-tiny font-medium text-text-tertiary',
+                      week === currentWeek && 'text-text-primary'
+                    )}
+                  >
+                    {formatShortMonthDay(week)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {data.users.map((user) => (
+                <tr key={user.id} className="border-b border-border-subtle">
+                  <td className="sticky left-0 z-10 bg-surface px-4 py-1.5">
+                    <div className="flex items-center gap-2">
+                      <Avatar className="h-6 w-6">
+                        <AvatarImage src={user.image ?? undefined} />
+                        <AvatarFallback className="text-tiny">
+                          {(user.name || user.email).charAt(0).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="min-w-0">
+                        <div className="truncate text-body text-text-primary">{user.name || user.email}</div>
+                        {user.roles.length > 0 && (
+                          <div className="truncate text-tiny text-text-tertiary">
+                            {user.roles.map((role) => role.name).join(', ')}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </td>
+                  {user.weeks.map((week) => (
+                    <td key={week.weekStart} className="px-1 py-1.5">
+                      <AllocationCell week={week} boards={boards} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -23,7 +23,7 @@ interface TimelineBlockProps {
 }
 
 // Optimized: Use direct date math instead of loops
-function calculateBlockPositionFast(
+export function calculateBlockPositionFast(
   blockStartDate: string,
   blockEndDate: string,
   timelineStartDate: Date,
@@ -1,7 +1,7 @@
 'use client';
 
 import { useMemo, useState, useCallback, useEffect } from 'react';
-import { TimelineBlock } from './TimelineBlock';
+import { TimelineBlock, calculateBlockPositionFast } from './TimelineBlock';
 import { TodayIndicator } from './TodayIndicator';
 import { getTimelineGridBackground } from './grid-background';
 import { useTimelineBlockGroupDrag, type BlockDragScope } from './useTimelineBlockGroupDrag';
@@ -10,6 +10,15 @@ import type { TimelineBlock as TimelineBlockType } from '@/types';
 // Constants for 5-day week snapping
 const DAYS_PER_WEEK = 5; // Business days
 
+/** Where a block sat in another version of the timeline, drawn as an outline behind it. */
+export interface TimelineGhostBlock {
+  id: string;
+  startDate: string;
+  endDate: string;
+  color: string;
+  label: string;
+}
+
 interface TimelineBlocksRowProps {
   blocks: TimelineBlockType[];
   startDate: Date;
@@ -24,6 +33,7 @@ interface TimelineBlocksRowProps {
   totalColumns: number;
   isAdmin?: boolean;
   showBlockMetrics?: boolean;
+  ghostBlocks?: TimelineGhostBlock[];
 }
 
 export function TimelineBlocksRow({
@@ -40,6 +50,7 @@ export function TimelineBlocksRow({
   totalColumns: _totalColumns,
   isAdmin = false,
   showBlockMetrics = true,
+  ghostBlocks = [],
 }: TimelineBlocksRowProps) {
   // Sort blocks by start date to determine order
   const sortedBlocks = useMemo(() => {
@@ -93,16 +104,18 @@ export function TimelineBlocksRow({
   });
 
   // Handle block context menu
+  const hasBlockMenu = !!(onBlockClick || onBlockInsert || onBlockDelete);
   const handleContextMenu = useCallback((block: TimelineBlockType, e: React.MouseEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setEmptyContextMenu(null);
+    if (!hasBlockMenu) return;
     setContextMenu({
       block,
       x: e.clientX,
       y: e.clientY,
     });
-  }, []);
+  }, [hasBlockMenu]);
 
   const getDateFromPosition = useCallback((clientX: number, rowElement: HTMLElement): Date => {
     const rect = rowElement.getBoundingClientRect();
@@ -132,7 +145,7 @@ export function TimelineBlocksRow({
   }, [columnWidth, startDate]);
 
   const handleRowContextMenu = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    if (!isAdmin) return;
+    if (!isAdmin || !onAddBlock) return;
 
     e.preventDefault();
     setContextMenu(null);
@@ -143,7 +156,7 @@ export function TimelineBlocksRow({
       x: e.clientX,
       y: e.clientY,
     });
-  }, [isAdmin, getDateFromPosition]);
+  }, [isAdmin, onAddBlock, getDateFromPosition]);
 
   // Close context menu
   useEffect(() => {
@@ -174,6 +187,19 @@ export function TimelineBlocksRow({
       {/* Today indicator */}
       <TodayIndicator startDate={startDate} columnWidth={columnWidth} />
 
+      {/* Ghosts of where blocks sat in the version being compared */}
+      {ghostBlocks.map((ghost) => {
+        const { left, width } = calculateBlockPositionFast(ghost.startDate, ghost.endDate, startDate, columnWidth);
+        return (
+          <div
+            key={`ghost-${ghost.id}`}
+            className="pointer-events-none absolute top-1 bottom-1 rounded-md border-2 border-dashed opacity-60"
+            style={{ left: left + 2, width, borderColor: ghost.color }}
+            title={ghost.label}
+          />
+        );
+      })}
+
       {/* Blocks */}
       {sortedBlocks.map((block) => {
         const blockIsDragging = draggingBlockIds.has(block.id);
@@ -203,34 +229,42 @@ export function TimelineBlocksRow({
           className="fixed bg-surface border border-border rounded-md shadow-lg py-1 z-50"
           style={{ left: contextMenu.x, top: contextMenu.y }}
         >
-          <button
-            className="w-full px-3 py-1.5 text-left text-body hover:bg-surface-hover"
-            onClick={() => {
-              onBlockClick?.(contextMenu.block);
-              setContextMenu(null);
-            }}
-          >
-            Edit Block
-          </button>
-          <button
-            className="w-full px-3 py-1.5 text-left text-body hover:bg-surface-hover"
-            onClick={() => {
-              onBlockInsert?.(contextMenu.block);
-              setContextMenu(null);
-            }}
-          >
-            Insert Block Before
-          </button>
-          <hr className="my-1 border-border" />
-          <button
-            className="w-full px-3 py-1.5 text-left text-body text-error hover:bg-surface-hover"
-            onClick={() => {
-              onBlockDelete?.(contextMenu.block);
-              setContextMenu(null);
-            }}
-          >
-            Delete Block
-          </button>
+          {onBlockClick && (
+            <button
+              className="w-full px-3 py-1.5 text-left text-body hover:bg-surface-hover"
+              onClick={() => {
+                onBlockClick(contextMenu.block);
+                setContextMenu(null);
+              }}
+            >
+              Edit Block
+            </button>
+          )}
+          {onBlockInsert && (
+            <button
+              className="w-full px-3 py-1.5 text-left text-body hover:bg-surface-hover"
+              onClick={() => {
+                onBlockInsert(contextMenu.block);
+                setContextMenu(null);
+              }}
+            >
+              Insert Block Before
+            </button>
+          )}
+          {onBlockDelete && (
+            <>
+              <hr className="my-1 border-border" />
+              <button
+                className="w-full px-3 py-1.5 text-left text-body text-error hover:bg-surface-hover"
+                onClick={() => {
+                  onBlockDelete(contextMenu.block);
+                  setContextMenu(null);
+                }}
+              >
+                Delete Block
+              </button>
+            </>
+          )}
         </div>
       )}
 
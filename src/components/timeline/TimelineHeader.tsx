@@ -5,6 +5,9 @@ import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { formatMonthYear } from '@/lib/date-utils';
 
+/** Projects shows blocks and events per board; allocation sums each person's weeks across boards. */
+export type TimelineMode = 'projects' | 'allocation';
+
 interface TimelineHeaderProps {
   currentDate: Date;
   onDateChange: (date: Date) => void;
@@ -17,6 +20,8 @@ interface TimelineHeaderProps {
   canRepairTimeline?: boolean;
   onCreateProject?: () => void;
   isAdmin: boolean;
+  mode?: TimelineMode;
+  onModeChange?: (mode: TimelineMode) => void;
 }
 
 export function TimelineHeader({
@@ -31,6 +36,8 @@ export function TimelineHeader({
   canRepairTimeline = true,
   onCreateProject,
   isAdmin,
+  mode = 'projects',
+  onModeChange,
 }: TimelineHeaderProps) {
   const navigatePrev = () => {
     const newDate = new Date(currentDate);
@@ -49,6 +56,28 @@ export function TimelineHeader({
       <div className="flex items-center gap-4">
         <h1 className="text-heading font-semibold">Timeline</h1>
 
+        {/* Mode Toggle */}
+        {onModeChange && (
+          <div className="flex items-center rounded-md border border-border p-0.5">
+            <Button
+              variant={mode === 'projects' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onModeChange('projects')}
+            >
+              Projects
+            </Button>
+            <Button
+              variant={mode === 'allocation' ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onModeChange('allocation')}
+            >
+              Allocation
+            </Button>
+          </div>
+        )}
+
         {/* Date Navigation */}
         <div className="flex items-center gap-1">
           <Button variant="ghost" size="sm" onClick={navigatePrev}>
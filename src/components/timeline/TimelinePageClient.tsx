@@ -1,8 +1,15 @@
 'use client';
 
+import { useMemo, useState } from 'react';
 import { TimelineView } from '@/components/timeline/TimelineView';
 import { TimelineSkeleton } from '@/components/timeline/TimelineSkeleton';
-import { useTimelineData } from '@/hooks/api/use-timeline';
+import { TimelineAllocationView } from '@/components/timeline/TimelineAllocationView';
+import { TimelineScenarioBar } from '@/components/timeline/TimelineScenarioBar';
+import type { TimelineGhostBlock } from '@/components/timeline/TimelineBlocksRow';
+import type { TimelineMode } from '@/components/timeline/TimelineHeader';
+import { useTimelineData, useTimelineScenario } from '@/hooks/api/use-timeline';
+import { formatShortMonthDay } from '@/lib/date-utils';
+import { overlayScenarioTimeline } from '@/lib/timeline-scenarios';
 
 interface TimelinePageClientProps {
   isAdmin: boolean;
@@ -11,19 +18,74 @@ interface TimelinePageClientProps {
 
 export function TimelinePageClient({ isAdmin, openCreateDialog }: TimelinePageClientProps) {
   const { data, isLoading } = useTimelineData();
+  const [mode, setMode] = useState<TimelineMode>('projects');
+  const [scenarioId, setScenarioId] = useState<string | null>(null);
+  const { data: scenario } = useTimelineScenario(scenarioId);
+
+  // With a scenario open, only its projects are shown, drawn from the draft
+  const scenarioView = useMemo(() => {
+    if (!data || !scenario) return null;
+
+    const copies = new Map(scenario.boards.map((copy) => [copy.boardId, copy]));
+    const projects = data.projects.flatMap((project) => {
+      const copy = copies.get(project.board.id);
+      if (!copy) return [];
+      return [overlayScenarioTimeline(project, copy.draft, {
+        blockTypes: data.blockTypes,
+        eventTypes: data.eventTypes,
+        users: data.users,
+      })];
+    });
+
+    const ghostBlocks: Record<string, TimelineGhostBlock[]> = {};
+    for (const project of data.projects) {
+      const copy = copies.get(project.board.id);
+      if (!copy) continue;
+      const liveBlocks = new Map(project.blocks.map((block) => [block.id, block]));
+      ghostBlocks[project.board.id] = copy.changes.blocks.flatMap((change) => {
+        const live = liveBlocks.get(change.id);
+        if (change.kind !== 'changed' || !change.from || !live) return [];
+        return [{
+          id: change.id,
+          startDate: change.from.startDate,
+          endDate: change.from.endDate,
+          color: live.blockType.color,
+          label: `${live.blockType.name} ${live.position} was planned for ${formatShortMonthDay(change.from.startDate)}`,
+        }];
+      });
+    }
+
+    return { projects, ghostBlocks };
+  }, [data, scenario]);
+
+  if (mode === 'allocation') {
+    return <TimelineAllocationView isAdmin={isAdmin} onModeChange={setMode} />;
+  }
 
   if (isLoading || !data) return <TimelineSkeleton />;
 
   return (
     <TimelineView
-      projects={data.projects}
-      archivedProjects={data.archivedProjects || []}
+      projects={scenarioView?.projects ?? data.projects}
+      archivedProjects={scenarioView ? [] : data.archivedProjects || []}
       teams={data.teams}
       users={data.users}
       blockTypes={data.blockTypes}
       eventTypes={data.eventTypes}
       isAdmin={isAdmin}
       openCreateDialog={openCreateDialog}
+      onModeChange={setMode}
+      scenarioId={scenarioView ? scenarioId ?? undefined : undefined}
+      ghostBlocks={scenarioView?.ghostBlocks}
+      toolbar={(
+        <TimelineScenarioBar
+          projects={data.projects}
+          scenarioId={scenarioId}
+          scenario={scenario}
+          onScenarioChange={setScenarioId}
+          isAdmin={isAdmin}
+        />
+      )}
     />
   );
 }
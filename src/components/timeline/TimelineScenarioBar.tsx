@@ -0,0 +1,249 @@
+'use client';
+
+import { useState } from 'react';
+import { AlertTriangle, Check, GitBranch, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useTimelineScenarioMutations, useTimelineScenarios } from '@/hooks/api/use-timeline';
+import { getProjectDisplayName } from '@/lib/project-utils';
+import type { ScenarioDiff, TimelineScenarioDetail } from '@/lib/timeline-scenarios';
+import type { TimelineData } from '@/types';
+
+// Radix Select items cannot have an empty value
+const LIVE = '__live__';
+
+interface TimelineScenarioBarProps {
+  projects: TimelineData[];
+  scenarioId: string | null;
+  scenario: TimelineScenarioDetail | undefined;
+  onScenarioChange: (scenarioId: string | null) => void;
+  isAdmin: boolean;
+}
+
+function countChanges(diffs: (ScenarioDiff | null)[]) {
+  let blocks = 0;
+  let events = 0;
+  let availability = 0;
+  for (const diff of diffs) {
+    if (!diff) continue;
+    blocks += diff.blocks.length;
+    events += diff.events.length;
+    availability += diff.availability.length;
+  }
+  return { blocks, events, availability, total: blocks + events + availability };
+}
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function CreateScenarioDialog({
+  projects,
+  isOpen,
+  onClose,
+  onCreated,
+}: {
+  projects: TimelineData[];
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: (scenarioId: string) => void;
+}) {
+  const { create } = useTimelineScenarioMutations();
+  const [name, setName] = useState('');
+  const [boardIds, setBoardIds] = useState<string[]>([]);
+
+  const toggleBoard = (boardId: string, checked: boolean) => {
+    setBoardIds((prev) => (checked ? [...prev, boardId] : prev.filter((id) => id !== boardId)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scenario = await create.mutateAsync({ name: name.trim(), boardIds });
+    setName('');
+    setBoardIds([]);
+    onCreated(scenario.id);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Scenario</DialogTitle>
+          <DialogDescription>
+            Copies the selected projects&apos; blocks, events and availability into a draft you can
+            rearrange without touching the live timeline.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="scenario-name">Name <span className="text-error">*</span></Label>
+            <Input
+              id="scenario-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Slip Project B by two weeks"
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Projects <span className="text-error">*</span></Label>
+            <div className="max-h-64 space-y-2 overflow-y-auto">
+              {projects.map((project) => (
+                <label key={project.board.id} className="flex items-center gap-2 text-body text-text-primary">
+                  <Checkbox
+                    checked={boardIds.includes(project.board.id)}
+                    onCheckedChange={(checked) => toggleBoard(project.board.id, checked === true)}
+                  />
+                  {getProjectDisplayName(project.board.name, { productionTitle: project.board.productionTitle ?? undefined })}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {create.error && <div className="text-caption text-error">{create.error.message}</div>}
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} disabled={create.isPending}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={create.isPending || !name.trim() || boardIds.length === 0}>
+              {create.isPending ? 'Creating...' : 'Create Scenario'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Switches the timeline between the live schedule and a draft scenario, and applies or
+ * discards the open scenario. While a scenario is open, dashed outlines show where moved
+ * blocks sit live.
+ */
+export function TimelineScenarioBar({
+  projects,
+  scenarioId,
+  scenario,
+  onScenarioChange,
+  isAdmin,
+}: TimelineScenarioBarProps) {
+  const { data: scenarios = [] } = useTimelineScenarios();
+  const { apply, discard } = useTimelineScenarioMutations();
+  const [showCreate, setShowCreate] = useState(false);
+
+  const changes = countChanges(scenario?.boards.map((board) => board.changes) ?? []);
+  const conflicts = countChanges(scenario?.boards.map((board) => board.conflicts) ?? []);
+
+  const handleApply = async () => {
+    if (!scenario) return;
+    const message = conflicts.total > 0
+      ? `${plural(conflicts.total, 'live edit')} made since "${scenario.name}" was forked will be overwritten. Apply anyway?`
+      : `Apply "${scenario.name}" to the live timeline?`;
+    if (!confirm(message)) return;
+    await apply.mutateAsync({ scenarioId: scenario.id, force: conflicts.total > 0 });
+    onScenarioChange(null);
+  };
+
+  const handleDiscard = async () => {
+    if (!scenario || !confirm(`Discard "${scenario.name}"? The live timeline is not affected.`)) return;
+    await discard.mutateAsync(scenario.id);
+    onScenarioChange(null);
+  };
+
+  return (
+    <div className="flex items-center gap-3 border-b border-border bg-surface px-4 py-2">
+      <GitBranch className="h-4 w-4 text-text-tertiary" />
+      <Select value={scenarioId ?? LIVE} onValueChange={(next) => onScenarioChange(next === LIVE ? null : next)}>
+        <SelectTrigger className="h-8 w-64 text-caption" aria-label="Scenario">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={LIVE}>Live timeline</SelectItem>
+          {scenarios.map((option) => (
+            <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {scenario && (
+        <span className="text-caption text-text-secondary">
+          {changes.total === 0
+            ? 'No changes yet'
+            : [
+              changes.blocks > 0 && plural(changes.blocks, 'block change'),
+              changes.events > 0 && plural(changes.events, 'event change'),
+              changes.availability > 0 && plural(changes.availability, 'availability change'),
+            ].filter(Boolean).join(' · ')}
+        </span>
+      )}
+
+      {scenario && conflicts.total > 0 && (
+        <span
+          className="flex items-center gap-1 rounded bg-warning/10 px-1.5 py-0.5 text-tiny font-medium text-warning"
+          title="Rows this scenario changes were also edited on the live timeline since it was forked"
+        >
+          <AlertTriangle className="h-3 w-3" />
+          {plural(conflicts.total, 'conflict')}
+        </span>
+      )}
+
+      <div className="ml-auto flex items-center gap-2">
+        {isAdmin && scenario && (
+          <>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDiscard}
+              disabled={discard.isPending || apply.isPending}
+            >
+              <Trash2 className="mr-1.5 h-4 w-4" />
+              Discard
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleApply}
+              disabled={apply.isPending || discard.isPending || changes.total === 0}
+            >
+              <Check className="mr-1.5 h-4 w-4" />
+              {apply.isPending ? 'Applying...' : 'Apply'}
+            </Button>
+          </>
+        )}
+        {isAdmin && !scenario && (
+          <Button variant="outline" size="sm" onClick={() => setShowCreate(true)}>
+            New Scenario
+          </Button>
+        )}
+      </div>
+
+      <CreateScenarioDialog
+        projects={projects}
+        isOpen={showCreate}
+        onClose={() => setShowCreate(false)}
+        onCreated={(id) => {
+          setShowCreate(false);
+          onScenarioChange(id);
+        }}
+      />
+    </div>
+  );
+}
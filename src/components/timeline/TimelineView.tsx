@@ -1,14 +1,14 @@
 'use client';
 
-import { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { useState, useMemo, useCallback, useEffect, useRef, type ReactNode } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { ChevronDown, ChevronRight, Flag, Users } from 'lucide-react';
 import { useRouter } from 'next/navigation';
-import { TimelineHeader } from './TimelineHeader';
+import { TimelineHeader, type TimelineMode } from './TimelineHeader';
 import { CreateProjectDialog } from './CreateProjectDialog';
 import { TimelineDateHeader } from './TimelineDateHeader';
 import { TimelineEventsRow } from './TimelineEventsRow';
-import { TimelineBlocksRow } from './TimelineBlocksRow';
+import { TimelineBlocksRow, type TimelineGhostBlock } from './TimelineBlocksRow';
 import { TimelineFilterPanel } from './TimelineFilterPanel';
 import { BlockEditModal } from './BlockEditModal';
 import { AddBlockDialog } from './AddBlockDialog';
@@ -45,7 +45,7 @@ import type {
   TimelineMember,
   UserWeeklyAvailability,
 } from '@/types';
-import { getMonday, getFriday, addBusinessDays, formatLocalDateKey } from '@/lib/date-utils';
+import { getMonday, getFriday, addBusinessDays, formatLocalDateKey, formatShortMonthDay } from '@/lib/date-utils';
 
 // Minimal user info needed for timeline display
 type TimelineUser = Pick<User, 'id' | 'name' | 'email' | 'image'>;
@@ -66,6 +66,13 @@ interface TimelineViewProps {
   eventTypes: EventType[];
   isAdmin: boolean;
   openCreateDialog?: boolean;
+  onModeChange?: (mode: TimelineMode) => void;
+  /** While set, drags and edits go to this scenario's draft instead of the live boards. */
+  scenarioId?: string;
+  /** Outlines of where blocks sit live, per board, while comparing a scenario. */
+  ghostBlocks?: Record<string, TimelineGhostBlock[]>;
+  /** Rendered under the header, e.g. the scenario picker. */
+  toolbar?: ReactNode;
 }
 
 // Constants for layout - fixed values for consistent alignment
@@ -80,6 +87,7 @@ const LEFT_COLUMN_WIDTH = 376;
 const ARCHIVED_SECTION_HEADER_HEIGHT = 24;
 const COLLAPSED_PROJECTS_STORAGE_KEY = 'timeline.collapsedProjectIds';
 const SHOW_BLOCK_INFO_STORAGE_KEY = 'timeline.showBlockInfo.v2';
+const SHOW_BASELINE_STORAGE_KEY = 'timeline.showBaseline';
 type TimelineDisplayRow = {
   id: string;
   userId: string;
@@ -115,6 +123,10 @@ export function TimelineView({
   eventTypes,
   isAdmin,
   openCreateDialog = false,
+  onModeChange,
+  scenarioId,
+  ghostBlocks,
+  toolbar,
 }: TimelineViewProps) {
   const getTeamTint = useCallback((color: string | null | undefined, alpha = '12') => {
     if (!color) return 'var(--surface)';
@@ -160,6 +172,7 @@ export function TimelineView({
   const [selectedBlockId, setSelectedBlockId] = useState<string>();
   const [selectedEventId, setSelectedEventId] = useState<string>();
   const [showBlockInfo, setShowBlockInfo] = useState(false);
+  const [showBaseline, setShowBaseline] = useState(false);
   const [collapsedProjectIds, setCollapsedProjectIds] = useState<Set<string>>(
     () => new Set(initialProjects.map((project) => project.board.id))
   );
@@ -281,11 +294,44 @@ export function TimelineView({
     window.sessionStorage.setItem(SHOW_BLOCK_INFO_STORAGE_KEY, showBlockInfo ? '1' : '0');
   }, [showBlockInfo]);
 
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    setShowBaseline(window.sessionStorage.getItem(SHOW_BASELINE_STORAGE_KEY) === '1');
+  }, []);
+
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+    window.sessionStorage.setItem(SHOW_BASELINE_STORAGE_KEY, showBaseline ? '1' : '0');
+  }, [showBaseline]);
+
+  // Baseline ghosts sit under the current blocks; an open scenario shows its own ghosts instead
+  const baselineGhostBlocks = useMemo(() => {
+    if (!showBaseline || scenarioId) return undefined;
+    const colors = new Map(blockTypes.map((blockType) => [blockType.id, blockType.color]));
+    const ghosts: Record<string, TimelineGhostBlock[]> = {};
+    for (const project of projects) {
+      const baseline = project.baseline;
+      if (!baseline) continue;
+      ghosts[project.board.id] = baseline.blocks.map((block) => ({
+        id: block.id,
+        startDate: block.startDate,
+        endDate: block.endDate,
+        color: colors.get(block.blockTypeId) ?? '#6b7280',
+        label: `${baseline.name}: planned ${formatShortMonthDay(block.startDate)} – ${formatShortMonthDay(block.endDate)}`,
+      }));
+    }
+    return ghosts;
+  }, [showBaseline, scenarioId, blockTypes, projects]);
+
   const queryClient = useQueryClient();
   const refreshTimeline = useCallback(async () => {
     await queryClient.invalidateQueries({ queryKey: ['timeline'] });
   }, [queryClient]);
 
+  const boardApiBase = useCallback((boardId: string) => (
+    scenarioId ? `/api/timeline/scenarios/${scenarioId}/boards/${boardId}` : `/api/boards/${boardId}`
+  ), [scenarioId]);
+
   // Open create dialog if requested via prop (e.g., from Boards page)
   useEffect(() => {
     if (openCreateDialog) {
@@ -905,10 +951,11 @@ export function TimelineView({
   const handleBlockClick = useCallback((block: TimelineBlock) => {
     setSelectedBlockId(block.id);
     setSelectedEventId(undefined);
-    if (isAdmin) {
+    // Scenarios only move blocks; type and list changes are made on the live board
+    if (isAdmin && !scenarioId) {
       setEditingBlock(block);
     }
-  }, [isAdmin]);
+  }, [isAdmin, scenarioId]);
 
   const handleEventClick = useCallback((event: TimelineEventType, boardId: string) => {
     setSelectedEventId(event.id);
@@ -930,7 +977,7 @@ export function TimelineView({
     if (!confirm(`Delete event "${event.title}"?`)) return;
 
     try {
-      const response = await fetch(`/api/boards/${boardId}/timeline/events/${event.id}`, {
+      const response = await fetch(`${boardApiBase(boardId)}/timeline/events/${event.id}`, {
         method: 'DELETE',
       });
 
@@ -940,7 +987,7 @@ export function TimelineView({
     } catch (error) {
       console.error('Failed to delete event:', error);
     }
-  }, [refreshTimeline]);
+  }, [boardApiBase, refreshTimeline]);
 
   const handleAddEvent = useCallback((boardId: string, date?: Date) => {
     setEditingEvent(null);
@@ -961,7 +1008,7 @@ export function TimelineView({
   ) => {
     if (eventId) {
       // Update existing event
-      const response = await fetch(`/api/boards/${eventBoardId}/timeline/events/${eventId}`, {
+      const response = await fetch(`${boardApiBase(eventBoardId)}/timeline/events/${eventId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
@@ -972,7 +1019,7 @@ export function TimelineView({
       }
     } else {
       // Create new event
-      const response = await fetch(`/api/boards/${eventBoardId}/timeline/events`, {
+      const response = await fetch(`${boardApiBase(eventBoardId)}/timeline/events`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(data),
@@ -984,10 +1031,10 @@ export function TimelineView({
     }
 
     await refreshTimeline();
-  }, [eventBoardId, refreshTimeline]);
+  }, [boardApiBase, eventBoardId, refreshTimeline]);
 
   const handleEventModalDelete = useCallback(async (eventId: string) => {
-    const response = await fetch(`/api/boards/${eventBoardId}/timeline/events/${eventId}`, {
+    const response = await fetch(`${boardApiBase(eventBoardId)}/timeline/events/${eventId}`, {
       method: 'DELETE',
     });
 
@@ -996,7 +1043,7 @@ export function TimelineView({
     }
 
     await refreshTimeline();
-  }, [eventBoardId, refreshTimeline]);
+  }, [boardApiBase, eventBoardId, refreshTimeline]);
 
   const handleCloseEventModal = useCallback(() => {
     setShowEventModal(false);
@@ -1042,7 +1089,7 @@ export function TimelineView({
     boardId: string,
     entries: { userId: string; weekStart: string; dedication: number }[]
   ) => {
-    const response = await fetch(`/api/boards/${boardId}/availability`, {
+    const response = await fetch(`${boardApiBase(boardId)}/availability`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ entries }),
@@ -1053,7 +1100,7 @@ export function TimelineView({
     }
 
     await refreshTimeline();
-  }, [refreshTimeline]);
+  }, [boardApiBase, refreshTimeline]);
 
   // Handle event move (drag-and-drop day-by-day)
   const handleEventMove = useCallback(async (eventId: string, daysDelta: number, boardId: string) => {
@@ -1104,7 +1151,7 @@ export function TimelineView({
 
     // Fire and forget - API call in background
     try {
-      const response = await fetch(`/api/boards/${boardId}/timeline/events/${eventId}`, {
+      const response = await fetch(`${boardApiBase(boardId)}/timeline/events/${eventId}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -1120,7 +1167,7 @@ export function TimelineView({
       console.error('Failed to move event:', error);
       await refreshTimeline();
     }
-  }, [projects, refreshTimeline]);
+  }, [boardApiBase, projects, refreshTimeline]);
 
   const handleCreateProject = useCallback(() => {
     setCreateProjectStartDate(undefined);
@@ -1309,7 +1356,7 @@ export function TimelineView({
 
     // Fire and forget - API call in background
     try {
-      const response = await fetch(`/api/boards/${boardId}/timeline/blocks/move-group`, {
+      const response = await fetch(`${boardApiBase(boardId)}/timeline/blocks/move-group`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
@@ -1329,7 +1376,7 @@ export function TimelineView({
       console.error('Failed to move blocks:', error);
       await refreshTimeline();
     }
-  }, [projects, refreshTimeline]);
+  }, [boardApiBase, projects, refreshTimeline]);
 
   // Block delete handler (from context menu)
   // Deletes a block and shifts all blocks to the right of it left by one week
@@ -1552,12 +1599,15 @@ export function TimelineView({
         onDateChange={setCurrentDate}
         onTodayClick={handleTodayClick}
         showFilterButton={false}
-        onRepairTimeline={handleRepairVisibleTimelines}
+        onRepairTimeline={scenarioId ? undefined : handleRepairVisibleTimelines}
         isRepairingTimeline={isRepairingVisibleTimelines}
         canRepairTimeline={filteredProjects.length > 0}
-        onCreateProject={handleCreateProject}
+        onCreateProject={scenarioId ? undefined : handleCreateProject}
         isAdmin={isAdmin}
+        mode="projects"
+        onModeChange={onModeChange}
       />
+      {toolbar}
 
       {/* Create Project Dialog */}
       <CreateProjectDialog
@@ -1603,6 +1653,16 @@ export function TimelineView({
               >
                 {showBlockInfo ? 'Hide Block Info' : 'Show Block Info'}
               </Button>
+              {!scenarioId && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => setShowBaseline((prev) => !prev)}
+                >
+                  {showBaseline ? 'Hide Baseline' : 'Show Baseline'}
+                </Button>
+              )}
             </div>
           </div>
           <div style={{ transform: `translateY(-${timelineScrollTop}px)` }}>
@@ -1763,13 +1823,14 @@ export function TimelineView({
                     rowHeight={ROW_HEIGHT}
                     onBlockClick={handleBlockClick}
                     onBlockGroupMove={handleBlockGroupMove}
-                    onBlockDelete={handleBlockDelete}
-                    onBlockInsert={handleBlockInsert}
-                    onAddBlock={(date) => handleAddBlock(item.project.board.id, date)}
+                    onBlockDelete={scenarioId ? undefined : handleBlockDelete}
+                    onBlockInsert={scenarioId ? undefined : handleBlockInsert}
+                    onAddBlock={scenarioId ? undefined : (date) => handleAddBlock(item.project.board.id, date)}
                     selectedBlockId={selectedBlockId}
                     totalColumns={displayTotalDays}
                     isAdmin={isAdmin}
                     showBlockMetrics={showBlockInfo}
+                    ghostBlocks={(ghostBlocks ?? baselineGhostBlocks)?.[item.project.board.id]}
                   />
                 </div>
 
@@ -1870,7 +1931,7 @@ export function TimelineView({
             >
               Open project page
             </button>
-            {isAdmin && (
+            {isAdmin && !scenarioId && (
               <>
                 <hr className="my-1 border-border" />
                 <button
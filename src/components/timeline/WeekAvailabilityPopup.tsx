@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -12,7 +12,9 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { cn } from '@/lib/utils';
 import type { TimelineMember, UserWeeklyAvailability } from '@/types';
-import { getFriday, formatDisplayDate, formatLocalDateKey } from '@/lib/date-utils';
+import { getFriday, formatDisplayDate, formatLocalDateKey, getWorkingDaysInWeek } from '@/lib/date-utils';
+import { AVAILABILITY_DEDICATIONS, memberBusinessCalendar, suggestedDedication } from '@/lib/holiday-calendar';
+import { useBoardCalendar } from '@/hooks/api/use-timeline';
 
 interface WeekAvailabilityPopupProps {
   isOpen: boolean;
@@ -27,9 +29,6 @@ interface WeekAvailabilityPopupProps {
   ) => Promise<void>;
 }
 
-// Available dedication percentages
-const DEDICATION_OPTIONS = [0, 25, 33, 50, 75, 100];
-
 export function WeekAvailabilityPopup({
   isOpen,
   onClose,
@@ -42,14 +41,35 @@ export function WeekAvailabilityPopup({
   const [dedication, setDedication] = useState(0);
   const [isSaving, setIsSaving] = useState(false);
 
-  // Initialize dedication from existing availability
+  const weekEnd = getFriday(weekStart);
+  const { data: boardCalendar } = useBoardCalendar(
+    boardId,
+    formatLocalDateKey(weekStart),
+    formatLocalDateKey(weekEnd),
+    isOpen
+  );
+
+  // Studio holidays and the member's leave this week
+  const daysOff = useMemo(() => {
+    if (!boardCalendar) return null;
+    const calendar = memberBusinessCalendar(boardCalendar, member.id);
+    const workingDays = getWorkingDaysInWeek(weekStart, calendar);
+    const hasLeave = boardCalendar.leave.some(entry => entry.userId === member.id);
+    return {
+      workingDays,
+      suggested: suggestedDedication(weekStart, calendar),
+      reasons: [...boardCalendar.holidays.map(holiday => holiday.name), ...(hasLeave ? ['leave'] : [])],
+    };
+  }, [boardCalendar, member.id, weekStart]);
+
+  // Initialize dedication from existing availability; weeks with days off default to the share still worked
   useEffect(() => {
     const existing = existingAvailability.find(a => a.userId === member.id);
-    setDedication(existing?.dedication ?? 0);
-  }, [member, existingAvailability]);
+    const fallback = daysOff && daysOff.workingDays < 5 ? daysOff.suggested : 0;
+    setDedication(existing?.dedication ?? fallback);
+  }, [member, existingAvailability, daysOff]);
 
   // Format date range for display
-  const weekEnd = getFriday(weekStart);
   const dateRangeText = `${formatDisplayDate(weekStart, { month: 'short', day: 'numeric' })} - ${formatDisplayDate(weekEnd, { month: 'short', day: 'numeric' })}, ${weekStart.getFullYear()}`;
 
   // Primary role info
@@ -105,10 +125,16 @@ export function WeekAvailabilityPopup({
           </DialogDescription>
         </DialogHeader>
 
+        {daysOff && daysOff.workingDays < 5 && (
+          <p className="text-caption text-warning">
+            {daysOff.workingDays} of 5 working days ({daysOff.reasons.join(', ')}) · suggested {daysOff.suggested}%
+          </p>
+        )}
+
         <div className="mt-4">
           {/* Dedication selector */}
           <div className="flex gap-2 flex-wrap justify-center">
-            {DEDICATION_OPTIONS.map(option => (
+            {AVAILABILITY_DEDICATIONS.map(option => (
               <button
                 key={option}
                 type="button"
@@ -8,3 +8,5 @@ export { TimelineProjectRow } from './TimelineProjectRow';
 export { TimelineFilterPanel } from './TimelineFilterPanel';
 export { TimelineUserAvailabilityRow } from './TimelineUserAvailabilityRow';
 export { WeekAvailabilityPopup } from './WeekAvailabilityPopup';
+export { TimelineAllocationView } from './TimelineAllocationView';
+export { TimelineScenarioBar } from './TimelineScenarioBar';
@@ -0,0 +1,284 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatDisplayDate } from '@/lib/date-utils';
+import { useApiTokens, useCreateApiToken, useRevokeApiToken } from '@/hooks/api/use-api-tokens';
+import type { ApiToken, ApiTokenInput, ApiTokenScope } from '@/types';
+
+const NEVER_EXPIRES = 'never';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: NEVER_EXPIRES, label: 'Never' },
+];
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: 'Read only',
+  write: 'Read and write',
+};
+
+const EMPTY_TOKEN: ApiTokenInput = {
+  name: '',
+  scope: 'read',
+  boardIds: null,
+  expiresInDays: 90,
+};
+
+interface ApiTokensSectionProps {
+  boards: Array<{ id: string; name: string }>;
+}
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+function describeToken(token: ApiToken, boardNames: Map<string, string>) {
+  const boards = token.boardIds
+    ? token.boardIds.map((id) => boardNames.get(id) ?? 'Unknown board').join(', ')
+    : 'All boards';
+  return `${SCOPE_LABELS[token.scope]} · ${boards}`;
+}
+
+export function ApiTokensSection({ boards }: ApiTokensSectionProps) {
+  const { data: tokens = [], isLoading } = useApiTokens();
+  const createToken = useCreateApiToken();
+  const revokeToken = useRevokeApiToken();
+  const [draft, setDraft] = useState<ApiTokenInput | null>(null);
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+
+  const boardNames = new Map(boards.map((board) => [board.id, board.name]));
+
+  const toggleBoard = (boardId: string, checked: boolean) => {
+    if (!draft) return;
+    const current = draft.boardIds ?? [];
+    const boardIds = checked ? [...current, boardId] : current.filter((id) => id !== boardId);
+    setDraft({ ...draft, boardIds });
+  };
+
+  const handleCreate = async () => {
+    if (!draft) return;
+    try {
+      const token = await createToken.mutateAsync(draft);
+      setCreatedToken(token.token);
+      setDraft(null);
+    } catch (error) {
+      toast.error('Failed to create token', errorDescription(error));
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke “${token.name}”? Scripts using it will stop working immediately.`)) return;
+    try {
+      await revokeToken.mutateAsync(token.id);
+      toast.success('Token revoked');
+    } catch (error) {
+      toast.error('Failed to revoke token', errorDescription(error));
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    try {
+      await navigator.clipboard.writeText(createdToken);
+      toast.success('Token copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  const limitedToBoards = draft?.boardIds !== null && draft?.boardIds !== undefined;
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-4 w-4 text-text-secondary" />
+          <h2 className="text-title font-medium text-text-secondary">
+            API Tokens ({tokens.length})
+          </h2>
+        </div>
+        {!draft && (
+          <Button variant="outline" size="sm" onClick={() => setDraft(EMPTY_TOKEN)}>
+            <Plus className="mr-1 h-3.5 w-3.5" />
+            New token
+          </Button>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border bg-surface p-4 space-y-3">
+        <p className="text-caption text-text-secondary">
+          Personal tokens let scripts call the REST API as you. Send them as
+          {' '}<code>Authorization: Bearer &lt;token&gt;</code>. The OpenAPI spec is at
+          {' '}<code>/api/openapi</code>.
+        </p>
+
+        {createdToken && (
+          <div className="space-y-2 rounded-md border border-warning bg-background p-3">
+            <div className="text-caption font-medium text-text-primary">
+              Copy your new token now. It will not be shown again.
+            </div>
+            <div className="flex items-center gap-2">
+              <code className="min-w-0 flex-1 truncate rounded bg-surface-hover px-2 py-1 text-caption">
+                {createdToken}
+              </code>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={handleCopy} title="Copy token">
+                <Copy className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setCreatedToken(null)}>Done</Button>
+            </div>
+          </div>
+        )}
+
+        {draft && (
+          <div className="space-y-4 rounded-md border border-border p-4">
+            <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="api-token-name">Name</Label>
+                <Input
+                  id="api-token-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="Asset pipeline"
+                  maxLength={100}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-token-scope">Access</Label>
+                <Select
+                  value={draft.scope}
+                  onValueChange={(value) => setDraft({ ...draft, scope: value as ApiTokenScope })}
+                >
+                  <SelectTrigger id="api-token-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SCOPE_LABELS) as ApiTokenScope[]).map((scope) => (
+                      <SelectItem key={scope} value={scope}>{SCOPE_LABELS[scope]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="api-token-expiry">Expires</Label>
+                <Select
+                  value={draft.expiresInDays === null ? NEVER_EXPIRES : String(draft.expiresInDays)}
+                  onValueChange={(value) => setDraft({
+                    ...draft,
+                    expiresInDays: value === NEVER_EXPIRES ? null : Number(value),
+                  })}
+                >
+                  <SelectTrigger id="api-token-expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-body text-text-primary">
+                <Checkbox
+                  checked={limitedToBoards}
+                  onCheckedChange={(checked) => setDraft({ ...draft, boardIds: checked === true ? [] : null })}
+                />
+                Limit to specific boards
+              </label>
+              {limitedToBoards && (
+                boards.length === 0 ? (
+                  <div className="text-caption text-text-tertiary">You are not a member of any active boards.</div>
+                ) : (
+                  <div className="grid grid-cols-1 gap-2 pl-6 md:grid-cols-2">
+                    {boards.map((board) => (
+                      <label key={board.id} className="flex items-center gap-2 text-body text-text-primary">
+                        <Checkbox
+                          checked={draft.boardIds?.includes(board.id) ?? false}
+                          onCheckedChange={(checked) => toggleBoard(board.id, checked === true)}
+                        />
+                        {board.name}
+                      </label>
+                    ))}
+                  </div>
+                )
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setDraft(null)} disabled={createToken.isPending}>Cancel</Button>
+              <Button
+                onClick={handleCreate}
+                disabled={
+                  createToken.isPending
+                  || !draft.name.trim()
+                  || (draft.boardIds !== null && draft.boardIds.length === 0)
+                }
+              >
+                {createToken.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create token
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="py-4 text-center text-caption text-text-tertiary">Loading tokens...</div>
+        ) : tokens.length === 0 ? (
+          !draft && <div className="py-4 text-center text-body text-text-tertiary">No API tokens yet.</div>
+        ) : (
+          <div className="divide-y divide-border">
+            {tokens.map((token) => (
+              <div key={token.id} className="flex items-start gap-3 py-3">
+                <div className="min-w-0 flex-1">
+                  <div className="font-medium text-text-primary">{token.name}</div>
+                  <div className="text-caption text-text-secondary">
+                    <code>{token.prefix}…</code>
+                    {' · '}
+                    {describeToken(token, boardNames)}
+                  </div>
+                  <div className="text-caption text-text-tertiary">
+                    {token.lastUsedAt
+                      ? `Last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : 'Never used'}
+                    {' · '}
+                    {token.expiresAt
+                      ? `${new Date(token.expiresAt) <= new Date() ? 'Expired' : 'Expires'} ${formatDisplayDate(token.expiresAt)}`
+                      : 'No expiry'}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => handleRevoke(token)}
+                  disabled={revokeToken.isPending}
+                  title="Revoke token"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BellRing, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_TYPES,
+  resolveNotificationChannel,
+} from '@/lib/notification-preferences';
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from '@/hooks/api/use-notification-preferences';
+import type { DigestFrequency, NotificationChannel, NotificationPreferences } from '@/types';
+
+const DEFAULT_QUIET_HOURS = { start: '20:00', end: '08:00' };
+
+const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly (Mondays)',
+};
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+function browserTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function NotificationPreferencesSection() {
+  const { data: saved, isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+  const [draft, setDraft] = useState<NotificationPreferences | null>(null);
+
+  useEffect(() => {
+    if (saved) setDraft(saved);
+  }, [saved]);
+
+  const isDirty = !!draft && !!saved && JSON.stringify(draft) !== JSON.stringify(saved);
+
+  const setChannel = (type: string, channel: NotificationChannel) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      channels: { ...draft.channels, [type]: channel },
+      // "Email digest only" means nothing without a digest to land in
+      digestFrequency: channel === 'digest' && draft.digestFrequency === 'off' ? 'daily' : draft.digestFrequency,
+    });
+  };
+
+  const toggleQuietHours = (enabled: boolean) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      quietHours: enabled ? DEFAULT_QUIET_HOURS : null,
+      // Quiet hours are local times, so start from this browser's zone rather than UTC.
+      timeZone: enabled && draft.timeZone === 'UTC' ? browserTimeZone() : draft.timeZone,
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      await updatePreferences.mutateAsync(draft);
+      toast.success('Notification settings saved');
+    } catch (error) {
+      toast.error('Failed to save notification settings', errorDescription(error));
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <div className="flex items-center gap-2">
+          <BellRing className="h-4 w-4 text-text-secondary" />
+          <h2 className="text-title font-medium text-text-secondary">Notifications</h2>
+        </div>
+        {isDirty && (
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDraft(saved ?? null)}>
+              Discard
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={updatePreferences.isPending}>
+              {updatePreferences.isPending && <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-lg border border-border bg-surface p-4 space-y-4">
+        {isLoading || !draft ? (
+          <div className="h-24 animate-pulse rounded-md bg-surface-hover" />
+        ) : (
+          <>
+            <div className="divide-y divide-border">
+              {NOTIFICATION_TYPES.map((info) => (
+                <div key={info.type} className="flex items-center justify-between gap-4 py-2">
+                  <div className="min-w-0">
+                    <div className="text-body text-text-primary">{info.label}</div>
+                    <div className="text-caption text-text-tertiary">{info.description}</div>
+                  </div>
+                  <Select
+                    value={resolveNotificationChannel(draft, info.type)}
+                    onValueChange={(value) => setChannel(info.type, value as NotificationChannel)}
+                  >
+                    <SelectTrigger className="w-44 shrink-0">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {NOTIFICATION_CHANNELS.map((channel) => (
+                        <SelectItem key={channel} value={channel}>
+                          {NOTIFICATION_CHANNEL_LABELS[channel]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-4 border-t border-border pt-4">
+              <div>
+                <Label htmlFor="digest-frequency">Email digest</Label>
+                <p className="text-caption text-text-tertiary">
+                  Unread notifications, tasks due soon, pending evaluations and new badges in one email.
+                </p>
+              </div>
+              <Select
+                value={draft.digestFrequency}
+                onValueChange={(value) => setDraft({
+                  ...draft,
+                  digestFrequency: value as DigestFrequency,
+                  // Weekly digests go out on Monday in this zone
+                  timeZone: value === 'weekly' && draft.timeZone === 'UTC' ? browserTimeZone() : draft.timeZone,
+                })}
+              >
+                <SelectTrigger id="digest-frequency" className="w-44 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DIGEST_FREQUENCIES.map((frequency) => (
+                    <SelectItem key={frequency} value={frequency}>
+                      {DIGEST_FREQUENCY_LABELS[frequency]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3 border-t border-border pt-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="quiet-hours">Quiet hours</Label>
+                  <p className="text-caption text-text-tertiary">
+                    No Slack DMs during these hours. Notifications still appear in the app.
+                  </p>
+                </div>
+                <Switch id="quiet-hours" checked={!!draft.quietHours} onCheckedChange={toggleQuietHours} />
+              </div>
+
+              {draft.quietHours && (
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="quiet-start" className="text-caption">From</Label>
+                    <Input
+                      id="quiet-start"
+                      type="time"
+                      className="w-32"
+                      value={draft.quietHours.start}
+                      onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours!, start: e.target.value } })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="quiet-end" className="text-caption">Until</Label>
+                    <Input
+                      id="quiet-end"
+                      type="time"
+                      className="w-32"
+                      value={draft.quietHours.end}
+                      onChange={(e) => setDraft({ ...draft, quietHours: { ...draft.quietHours!, end: e.target.value } })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="quiet-zone" className="text-caption">Time zone</Label>
+                    <Input
+                      id="quiet-zone"
+                      className="w-56"
+                      value={draft.timeZone}
+                      onChange={(e) => setDraft({ ...draft, timeZone: e.target.value })}
+                      placeholder="Europe/Madrid"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="mute-weekends">Mute weekends</Label>
+                  <p className="text-caption text-text-tertiary">
+                    No Slack DMs on Saturdays and Sundays.
+                  </p>
+                </div>
+                <Switch
+                  id="mute-weekends"
+                  checked={draft.muteWeekends}
+                  onCheckedChange={(checked) => setDraft({
+                    ...draft,
+                    muteWeekends: checked,
+                    timeZone: checked && draft.timeZone === 'UTC' ? browserTimeZone() : draft.timeZone,
+                  })}
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
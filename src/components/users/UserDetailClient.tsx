@@ -19,6 +19,9 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { TeamCard } from '@/components/organization/TeamCard';
+import { ApiTokensSection } from './ApiTokensSection';
+import { NotificationPreferencesSection } from './NotificationPreferencesSection';
+import { UserLeaveSection } from './UserLeaveSection';
 import { EditUserDialog } from './EditUserDialog';
 import { UserDetailSkeleton } from './UserDetailSkeleton';
 import { useUserDetail } from '@/hooks/api/use-users';
@@ -33,6 +36,7 @@ interface UserDetailClientProps {
   isSuperAdmin: boolean;
   canManageSlackLink: boolean;
   canViewQualitySummaries: boolean;
+  isCurrentUser: boolean;
 }
 
 interface SlackUserOption {
@@ -139,6 +143,7 @@ export function UserDetailClient({
   isSuperAdmin,
   canManageSlackLink,
   canViewQualitySummaries,
+  isCurrentUser,
 }: UserDetailClientProps) {
   const { data, isLoading } = useUserDetail(userId);
   const {
@@ -811,6 +816,14 @@ export function UserDetailClient({
                 ))}
               </div>
             )}
+
+            {(isCurrentUser || isSuperAdmin) && <UserLeaveSection userId={userId} />}
+
+            {isCurrentUser && <NotificationPreferencesSection />}
+
+            {isCurrentUser && (
+              <ApiTokensSection boards={activeBoards.map(({ board }) => board)} />
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Palmtree, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useCreateUserLeave, useDeleteUserLeave, useUserLeave } from '@/hooks/api/use-users';
+import { LEAVE_TYPES } from '@/lib/holiday-calendar';
+import type { LeaveType } from '@/types';
+
+const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  VACATION: 'Vacation',
+  SICK: 'Sick leave',
+  PARENTAL: 'Parental leave',
+  OTHER: 'Other',
+};
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+// Leave dates are stored as UTC midnights
+function formatLeaveDay(date: string) {
+  return new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+interface UserLeaveSectionProps {
+  userId: string;
+}
+
+/** Vacation and other days off. Suggested weekly availability on boards goes down for them. */
+export function UserLeaveSection({ userId }: UserLeaveSectionProps) {
+  const { data: leave, isLoading } = useUserLeave(userId);
+  const createLeave = useCreateUserLeave(userId);
+  const deleteLeave = useDeleteUserLeave(userId);
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [type, setType] = useState<LeaveType>('VACATION');
+  const [note, setNote] = useState('');
+
+  const handleAdd = async () => {
+    try {
+      await createLeave.mutateAsync({ startDate, endDate: endDate || startDate, type, note: note.trim() || undefined });
+      setStartDate('');
+      setEndDate('');
+      setNote('');
+      toast.success('Leave added');
+    } catch (error) {
+      toast.error('Failed to add leave', errorDescription(error));
+    }
+  };
+
+  const handleDelete = async (leaveId: string) => {
+    try {
+      await deleteLeave.mutateAsync(leaveId);
+    } catch (error) {
+      toast.error('Failed to remove leave', errorDescription(error));
+    }
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Palmtree className="h-4 w-4 text-text-secondary" />
+        <h2 className="text-title font-medium text-text-secondary">Leave</h2>
+      </div>
+
+      <div className="rounded-lg border border-border bg-surface p-4 space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="leave-start" className="text-caption">From</Label>
+            <Input id="leave-start" type="date" className="w-40" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="leave-end" className="text-caption">Until</Label>
+            <Input
+              id="leave-end"
+              type="date"
+              className="w-40"
+              min={startDate || undefined}
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="leave-type" className="text-caption">Type</Label>
+            <Select value={type} onValueChange={(value) => setType(value as LeaveType)}>
+              <SelectTrigger id="leave-type" className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEAVE_TYPES.map((option) => (
+                  <SelectItem key={option} value={option}>{LEAVE_TYPE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 flex-1 min-w-40">
+            <Label htmlFor="leave-note" className="text-caption">Note</Label>
+            <Input id="leave-note" value={note} maxLength={500} onChange={(e) => setNote(e.target.value)} placeholder="Optional" />
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={!startDate || createLeave.isPending}>
+            {createLeave.isPending ? <Loader2 className="mr-1 h-3.5 w-3.5 animate-spin" /> : <Plus className="mr-1 h-3.5 w-3.5" />}
+            Add
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="h-12 animate-pulse rounded-md bg-surface-hover" />
+        ) : !leave || leave.length === 0 ? (
+          <p className="text-caption text-text-tertiary">No leave entered.</p>
+        ) : (
+          <div className="divide-y divide-border border-t border-border">
+            {leave.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between gap-4 py-2">
+                <div className="min-w-0">
+                  <div className="text-body text-text-primary">
+                    {formatLeaveDay(entry.startDate)}
+                    {entry.endDate !== entry.startDate && <> – {formatLeaveDay(entry.endDate)}</>}
+                  </div>
+                  <div className="text-caption text-text-tertiary truncate">
+                    {LEAVE_TYPE_LABELS[entry.type]}
+                    {entry.note && <> · {entry.note}</>}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(entry.id)}
+                  disabled={deleteLeave.isPending}
+                  aria-label="Remove leave"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api-client';
+import type { ApiToken, ApiTokenInput, CreatedApiToken } from '@/types';
+
+const apiTokenKeys = {
+  all: ['api-tokens'] as const,
+};
+
+export function useApiTokens(enabled = true) {
+  return useQuery({
+    queryKey: apiTokenKeys.all,
+    queryFn: () => apiFetch<ApiToken[]>('/api/me/api-tokens'),
+    enabled,
+  });
+}
+
+export function useCreateApiToken() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (input: ApiTokenInput) =>
+      apiFetch<CreatedApiToken>('/api/me/api-tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiTokenKeys.all });
+    },
+  });
+}
+
+export function useRevokeApiToken() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (tokenId: string) =>
+      apiFetch<null>(`/api/me/api-tokens/${tokenId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiTokenKeys.all });
+    },
+  });
+}
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api-client';
+import type { AutomationRule, AutomationRuleInput, AutomationRunPage } from '@/types';
+
+const automationKeys = {
+  rules: (boardId: string) => ['boards', boardId, 'automations'] as const,
+  runs: (boardId: string) => ['boards', boardId, 'automations', 'runs'] as const,
+};
+
+export function useAutomationRules(boardId: string, enabled = true) {
+  return useQuery({
+    queryKey: automationKeys.rules(boardId),
+    queryFn: () => apiFetch<AutomationRule[]>(`/api/boards/${boardId}/automations`),
+    enabled: enabled && !!boardId,
+  });
+}
+
+export function useAutomationRuns(boardId: string, enabled = true) {
+  return useQuery({
+    queryKey: automationKeys.runs(boardId),
+    queryFn: () => apiFetch<AutomationRunPage>(`/api/boards/${boardId}/automations/runs?limit=100`),
+    enabled: enabled && !!boardId,
+  });
+}
+
+export function useSaveAutomationRule(boardId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ ruleId, input }: { ruleId?: string; input: Partial<AutomationRuleInput> }) =>
+      apiFetch<AutomationRule>(
+        ruleId ? `/api/boards/${boardId}/automations/${ruleId}` : `/api/boards/${boardId}/automations`,
+        {
+          method: ruleId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        }
+      ),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: automationKeys.rules(boardId) });
+    },
+  });
+}
+
+export function useDeleteAutomationRule(boardId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ruleId: string) =>
+      apiFetch<null>(`/api/boards/${boardId}/automations/${ruleId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: automationKeys.rules(boardId) });
+    },
+  });
+}
@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react';
+import { getClientId } from '@/lib/api-client';
+import { useBoardMutations } from './use-board-mutations';
+import type { BoardEventMessage, BoardViewer } from '@/types';
+
+/**
+ * Subscribe to live changes on a board and apply them to the board caches.
+ * Returns the other people currently viewing the board.
+ */
+export function useBoardEvents(boardId: string, currentUserId: string) {
+  const { applyRemoteEvent, invalidateBoard } = useBoardMutations(boardId);
+  const [viewers, setViewers] = useState<BoardViewer[]>([]);
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!boardId || typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(
+      `/api/boards/${boardId}/events?clientId=${encodeURIComponent(getClientId())}`
+    );
+    let hasDisconnected = false;
+
+    source.onopen = () => {
+      setIsConnected(true);
+      // Changes made while we were disconnected were never delivered.
+      if (hasDisconnected) invalidateBoard();
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects by itself (after the server's retry delay).
+      hasDisconnected = true;
+      setIsConnected(false);
+    };
+
+    source.onmessage = (message) => {
+      let event: BoardEventMessage;
+      try {
+        event = JSON.parse(message.data) as BoardEventMessage;
+      } catch {
+        return;
+      }
+      if (event.type === 'presence') {
+        setViewers(event.viewers.filter((viewer) => viewer.id !== currentUserId));
+        return;
+      }
+      applyRemoteEvent(event);
+    };
+
+    return () => {
+      source.close();
+      setIsConnected(false);
+      setViewers([]);
+    };
+  }, [boardId, currentUserId, applyRemoteEvent, invalidateBoard]);
+
+  return { viewers, isConnected };
+}
@@ -0,0 +1,88 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api-client';
+import type { CapacityForecast } from '@/lib/capacity-forecast';
+import type { FlowMetrics } from '@/lib/flow-metrics';
+import type { BaselineVariance } from '@/lib/timeline-baselines';
+
+export interface BoardFlowMetrics extends FlowMetrics {
+  /** Tags and estimates found on the board's tasks, for the filter pickers. */
+  filters: { tags: { id: string; name: string }[]; storyPoints: number[] };
+}
+
+export interface BoardFlowMetricsParams {
+  days: number;
+  tagId?: string | null;
+  storyPoints?: number | null;
+}
+
+export function useBoardFlowMetrics(boardId: string, params: BoardFlowMetricsParams, enabled = true) {
+  const search = new URLSearchParams({ days: String(params.days) });
+  if (params.tagId) search.set('tagId', params.tagId);
+  if (params.storyPoints !== null && params.storyPoints !== undefined) {
+    search.set('storyPoints', String(params.storyPoints));
+  }
+
+  return useQuery({
+    queryKey: ['boards', boardId, 'metrics', params.days, params.tagId ?? null, params.storyPoints ?? null],
+    queryFn: () => apiFetch<BoardFlowMetrics>(`/api/boards/${boardId}/metrics?${search}`),
+    enabled: enabled && !!boardId,
+    staleTime: 60_000,
+  });
+}
+
+export function useBoardCapacity(boardId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['boards', boardId, 'capacity'],
+    queryFn: () => apiFetch<CapacityForecast>(`/api/boards/${boardId}/capacity`),
+    enabled: enabled && !!boardId,
+    staleTime: 60_000,
+  });
+}
+
+export interface TimelineBaselineSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  createdBy: { id: string; name: string | null } | null;
+}
+
+export interface BoardVariance extends BaselineVariance {
+  baseline: { id: string; name: string; createdAt: string };
+}
+
+export function useTimelineBaselines(boardId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['boards', boardId, 'baselines'],
+    queryFn: () => apiFetch<TimelineBaselineSummary[]>(`/api/boards/${boardId}/timeline/baselines`),
+    enabled: enabled && !!boardId,
+    staleTime: 60_000,
+  });
+}
+
+/** Planned vs. actual against a baseline, the newest one when none is given; null without baselines. */
+export function useBoardVariance(boardId: string, baselineId: string | null, enabled = true) {
+  const search = baselineId ? `?baselineId=${baselineId}` : '';
+  return useQuery({
+    queryKey: ['boards', boardId, 'variance', baselineId],
+    queryFn: () => apiFetch<BoardVariance | null>(`/api/boards/${boardId}/variance${search}`),
+    enabled: enabled && !!boardId,
+    staleTime: 60_000,
+  });
+}
+
+export function useCaptureTimelineBaseline(boardId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (name?: string) =>
+      apiFetch<TimelineBaselineSummary>(`/api/boards/${boardId}/timeline/baselines`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['boards', boardId, 'baselines'] });
+      queryClient.invalidateQueries({ queryKey: ['boards', boardId, 'variance'] });
+      queryClient.invalidateQueries({ queryKey: ['timeline'] });
+    },
+  });
+}
@@ -1,7 +1,9 @@
 import { useMemo } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api-client';
-import type { Card, CardType, CardAssignee, List, ListViewType } from '@/types';
+import { applyBoardEvent } from '@/lib/board-event-patches';
+import type { BulkCardOperations } from '@/lib/bulk-card-operations';
+import type { BoardEvent, Card, CardType, CardAssignee, CardTagInfo, List, ListViewType } from '@/types';
 
 interface ReorderParams {
   cardId: string;
@@ -10,11 +12,45 @@ interface ReorderParams {
   newPosition: number;
 }
 
+interface ReorderResult {
+  /** Board rules the move broke without being refused (dependencies, WIP limits). */
+  warnings: string[];
+  /** Automation rules that fired on the move; their changes need a refetch. */
+  automationsRun: number;
+}
+
+interface BulkUpdateResult {
+  updated: number;
+  /** Selected cards the change did not apply to, e.g. non-tasks for task-only fields. */
+  skipped: string[];
+  warnings: string[];
+  automationsRun: number;
+}
+
+export interface UpdateCardParams {
+  title?: string;
+  description?: string | null;
+  color?: string | null;
+  featureImage?: string | null;
+  featureImagePosition?: number;
+  taskData?: Record<string, unknown>;
+  userStoryData?: Record<string, unknown>;
+  epicData?: Record<string, unknown>;
+  utilityData?: Record<string, unknown>;
+}
+
 interface CreateListParams {
   name: string;
   viewType?: ListViewType;
 }
 
+interface UpdateListParams {
+  name?: string;
+  color?: string | null;
+  wipLimit?: number | null;
+  wipLimitPerAssignee?: number | null;
+}
+
 interface CreateCardParams {
   title: string;
   type: CardType;
@@ -34,12 +70,34 @@ export function useBoardMutations(boardId: string) {
       queryClient.invalidateQueries({ queryKey: ['boards', boardId] });
     };
 
-    async function reorderCard(params: ReorderParams): Promise<void> {
-      await apiFetch(`/api/boards/${boardId}/cards/reorder`, {
+    // Apply a change made by someone else (from the board events stream) to the cached board
+    const applyRemoteEvent = (event: BoardEvent) => {
+      if (event.type === 'presence') return;
+      if (event.type === 'board.changed') {
+        invalidateBoard();
+        return;
+      }
+      if (event.type.startsWith('comment.') && 'cardId' in event) {
+        queryClient.invalidateQueries({ queryKey: ['card-details', boardId, event.cardId] });
+      }
+      const patch = (old: Record<string, unknown> | undefined) => (old ? applyBoardEvent(old, event) : old);
+      queryClient.setQueryData(['boards', boardId, 'light'], patch);
+      queryClient.setQueryData(['boards', boardId, 'full'], patch);
+    };
+
+    // Merge a local card change into the cached board, e.g. before the server confirms it
+    const patchCard = (card: Partial<Card> & { id: string }) => {
+      applyRemoteEvent({ type: 'card.updated', card });
+    };
+
+    async function reorderCard(params: ReorderParams): Promise<ReorderResult> {
+      const result = await apiFetch<ReorderResult>(`/api/boards/${boardId}/cards/reorder`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(params),
       });
+      if (result.automationsRun > 0) invalidateBoard();
+      return result;
     }
 
     async function createCard(params: CreateCardParams): Promise<Card> {
@@ -50,12 +108,27 @@ export function useBoardMutations(boardId: string) {
       });
     }
 
+    async function updateCard(cardId: string, params: UpdateCardParams): Promise<Card> {
+      return apiFetch<Card>(`/api/boards/${boardId}/cards/${cardId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+      });
+    }
+
     async function deleteCard(cardId: string): Promise<void> {
       await apiFetch(`/api/boards/${boardId}/cards/${cardId}`, {
         method: 'DELETE',
       });
     }
 
+    // Reverse of deleteCard: un-archives the card at the end of its list
+    async function restoreCard(cardId: string): Promise<void> {
+      await apiFetch(`/api/boards/${boardId}/cards/${cardId}/restore`, {
+        method: 'POST',
+      });
+    }
+
     async function assignUser(cardId: string, userId: string): Promise<CardAssignee> {
       return apiFetch<CardAssignee>(
         `/api/boards/${boardId}/cards/${cardId}/assignees`,
@@ -74,6 +147,24 @@ export function useBoardMutations(boardId: string) {
       );
     }
 
+    async function setCardTags(cardId: string, tagIds: string[]): Promise<CardTagInfo[]> {
+      return apiFetch<CardTagInfo[]>(`/api/boards/${boardId}/cards/${cardId}/tags`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tagIds }),
+      });
+    }
+
+    async function bulkUpdateCards(cardIds: string[], operations: BulkCardOperations): Promise<BulkUpdateResult> {
+      const result = await apiFetch<BulkUpdateResult>(`/api/boards/${boardId}/cards/bulk`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cardIds, operations }),
+      });
+      invalidateBoard();
+      return result;
+    }
+
     async function createList(params: CreateListParams): Promise<List> {
       return apiFetch<List>(`/api/boards/${boardId}/lists`, {
         method: 'POST',
@@ -82,6 +173,21 @@ export function useBoardMutations(boardId: string) {
       });
     }
 
+    async function updateList(listId: string, params: UpdateListParams): Promise<List> {
+      return apiFetch<List>(`/api/boards/${boardId}/lists/${listId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(params),
+      });
+    }
+
+    // `onlyIfEmpty` refuses (409) instead of deleting the cards in the list
+    async function deleteList(listId: string, { onlyIfEmpty = false } = {}): Promise<void> {
+      await apiFetch(`/api/boards/${boardId}/lists/${listId}${onlyIfEmpty ? '?onlyIfEmpty=true' : ''}`, {
+        method: 'DELETE',
+      });
+    }
+
     async function copyCard(cardId: string, params: { listId: string; assigneeId?: string | null }): Promise<Card> {
       return apiFetch<Card>(`/api/boards/${boardId}/cards/${cardId}/copy`, {
         method: 'POST',
@@ -92,12 +198,20 @@ export function useBoardMutations(boardId: string) {
 
     return {
       invalidateBoard,
+      applyRemoteEvent,
+      patchCard,
       reorderCard,
       createCard,
+      updateCard,
       deleteCard,
+      restoreCard,
       assignUser,
       unassignUser,
+      setCardTags,
+      bulkUpdateCards,
       createList,
+      updateList,
+      deleteList,
       copyCard,
     };
   }, [boardId, queryClient]);
@@ -0,0 +1,30 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api-client';
+import type { NotificationPreferences } from '@/types';
+
+const notificationPreferenceKeys = {
+  all: ['notification-preferences'] as const,
+};
+
+export function useNotificationPreferences(enabled = true) {
+  return useQuery({
+    queryKey: notificationPreferenceKeys.all,
+    queryFn: () => apiFetch<NotificationPreferences>('/api/me/notification-preferences'),
+    enabled,
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (preferences: NotificationPreferences) =>
+      apiFetch<NotificationPreferences>('/api/me/notification-preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferences),
+      }),
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(notificationPreferenceKeys.all, preferences);
+    },
+  });
+}
@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api-client';
+import type { StudioHoliday } from '@/types';
 
 interface StudioListItem {
   id: string;
@@ -64,3 +65,52 @@ export function useStudio(studioId: string) {
     enabled: !!studioId,
   });
 }
+
+export function useStudioHolidays(studioId: string) {
+  return useQuery({
+    queryKey: ['studios', studioId, 'holidays'],
+    queryFn: () => apiFetch<StudioHoliday[]>(`/api/studios/${studioId}/holidays`),
+    enabled: !!studioId,
+  });
+}
+
+export function useCreateStudioHoliday(studioId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (holiday: { date: string; name: string }) =>
+      apiFetch<StudioHoliday>(`/api/studios/${studioId}/holidays`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(holiday),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['studios', studioId, 'holidays'] });
+    },
+  });
+}
+
+export function useDeleteStudioHoliday(studioId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (holidayId: string) =>
+      apiFetch<null>(`/api/studios/${studioId}/holidays/${holidayId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['studios', studioId, 'holidays'] });
+    },
+  });
+}
+
+export function useImportStudioHolidays(studioId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (ics: string) =>
+      apiFetch<{ created: number; updated: number; skipped: number }>(`/api/studios/${studioId}/holidays/import`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ics }),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['studios', studioId, 'holidays'] });
+    },
+  });
+}
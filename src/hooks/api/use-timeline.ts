@@ -1,11 +1,15 @@
-import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api-client';
 import type {
   TimelineData,
   TimelineArchivedProjectSummary,
   BlockType,
   EventType,
+  TimelineEvent,
+  BoardCalendar,
+  ResourceAllocation,
 } from '@/types';
+import type { TimelineScenarioDetail, TimelineScenarioSummary } from '@/lib/timeline-scenarios';
 
 interface TimelineResponse {
   projects: TimelineData[];
@@ -25,3 +29,95 @@ export function useTimelineData() {
     placeholderData: keepPreviousData,
   });
 }
+
+export function useBoardTimelineEvents(boardId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['timeline', 'board-events', boardId],
+    queryFn: () => apiFetch<TimelineEvent[]>(`/api/boards/${boardId}/timeline/events`),
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Studio holidays and members' leave between two YYYY-MM-DD dates. */
+export function useBoardCalendar(boardId: string, startDate: string, endDate: string, enabled = true) {
+  return useQuery({
+    queryKey: ['boards', boardId, 'calendar', startDate, endDate],
+    queryFn: () => apiFetch<BoardCalendar>(
+      `/api/boards/${boardId}/calendar?startDate=${startDate}&endDate=${endDate}`
+    ),
+    enabled: enabled && !!boardId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export interface ResourceAllocationFilters {
+  teamId?: string;
+  roleId?: string;
+  skillId?: string;
+}
+
+/** Weekly dedication per person summed across projects, from the week of a YYYY-MM-DD date. */
+export function useResourceAllocation(startDate: string, weeks: number, filters: ResourceAllocationFilters) {
+  const params = new URLSearchParams({ startDate, weeks: String(weeks) });
+  if (filters.teamId) params.set('teamId', filters.teamId);
+  if (filters.roleId) params.set('roleId', filters.roleId);
+  if (filters.skillId) params.set('skillId', filters.skillId);
+
+  return useQuery({
+    queryKey: ['timeline', 'allocation', startDate, weeks, filters],
+    queryFn: () => apiFetch<ResourceAllocation>(`/api/timeline/allocation?${params}`),
+    staleTime: 60 * 1000,
+    placeholderData: keepPreviousData,
+  });
+}
+
+/** Draft scenarios, newest first. */
+export function useTimelineScenarios() {
+  return useQuery({
+    queryKey: ['timeline', 'scenarios'],
+    queryFn: () => apiFetch<TimelineScenarioSummary[]>('/api/timeline/scenarios'),
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useTimelineScenario(scenarioId: string | null) {
+  return useQuery({
+    queryKey: ['timeline', 'scenarios', scenarioId],
+    queryFn: () => apiFetch<TimelineScenarioDetail>(`/api/timeline/scenarios/${scenarioId}`),
+    enabled: !!scenarioId,
+  });
+}
+
+export function useTimelineScenarioMutations() {
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['timeline'] });
+
+  const create = useMutation({
+    mutationFn: (data: { name: string; description?: string; boardIds: string[] }) =>
+      apiFetch<TimelineScenarioSummary>('/api/timeline/scenarios', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      }),
+    onSuccess: refresh,
+  });
+
+  const apply = useMutation({
+    mutationFn: ({ scenarioId, force }: { scenarioId: string; force: boolean }) =>
+      apiFetch<unknown>(`/api/timeline/scenarios/${scenarioId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ force }),
+      }),
+    onSuccess: refresh,
+  });
+
+  const discard = useMutation({
+    mutationFn: (scenarioId: string) =>
+      apiFetch<null>(`/api/timeline/scenarios/${scenarioId}`, { method: 'DELETE' }),
+    onSuccess: refresh,
+  });
+
+  return { create, apply, discard };
+}
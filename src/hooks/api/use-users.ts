@@ -1,5 +1,6 @@
-import { useQuery } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiFetch } from '@/lib/api-client';
+import type { LeaveType, UserLeave } from '@/types';
 
 interface UsersPageUser {
   id: string;
@@ -103,3 +104,37 @@ export function useUserDetail(userId: string) {
     retry: false,
   });
 }
+
+export function useUserLeave(userId: string, enabled = true) {
+  return useQuery({
+    queryKey: ['users', userId, 'leave'],
+    queryFn: () => apiFetch<UserLeave[]>(`/api/users/${userId}/leave`),
+    enabled: enabled && !!userId,
+  });
+}
+
+export function useCreateUserLeave(userId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (leave: { startDate: string; endDate: string; type: LeaveType; note?: string }) =>
+      apiFetch<UserLeave>(`/api/users/${userId}/leave`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(leave),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users', userId, 'leave'] });
+    },
+  });
+}
+
+export function useDeleteUserLeave(userId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (leaveId: string) =>
+      apiFetch<null>(`/api/users/${userId}/leave/${leaveId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users', userId, 'leave'] });
+    },
+  });
+}
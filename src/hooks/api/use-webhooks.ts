@@ -0,0 +1,81 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiFetch } from '@/lib/api-client';
+import type { Webhook, WebhookDelivery, WebhookDeliveryPage, WebhookInput } from '@/types';
+
+const webhookKeys = {
+  all: ['webhooks'] as const,
+  deliveries: (webhookId: string) => ['webhooks', webhookId, 'deliveries'] as const,
+};
+
+export function useWebhooks() {
+  return useQuery({
+    queryKey: webhookKeys.all,
+    queryFn: () => apiFetch<Webhook[]>('/api/webhooks'),
+  });
+}
+
+export function useWebhookDeliveries(webhookId: string | null) {
+  return useQuery({
+    queryKey: webhookKeys.deliveries(webhookId ?? ''),
+    queryFn: () => apiFetch<WebhookDeliveryPage>(`/api/webhooks/${webhookId}/deliveries?limit=50`),
+    enabled: !!webhookId,
+  });
+}
+
+export function useSaveWebhook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({
+      webhookId,
+      input,
+    }: {
+      webhookId?: string;
+      input: Partial<WebhookInput> & { rotateSecret?: boolean };
+    }) =>
+      apiFetch<Webhook>(webhookId ? `/api/webhooks/${webhookId}` : '/api/webhooks', {
+        method: webhookId ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+    },
+  });
+}
+
+export function useDeleteWebhook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (webhookId: string) =>
+      apiFetch<null>(`/api/webhooks/${webhookId}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+    },
+  });
+}
+
+export function useTestWebhook() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (webhookId: string) =>
+      apiFetch<WebhookDelivery>(`/api/webhooks/${webhookId}/test`, { method: 'POST' }),
+    onSuccess: (_delivery, webhookId) => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+      queryClient.invalidateQueries({ queryKey: webhookKeys.deliveries(webhookId) });
+    },
+  });
+}
+
+export function useReplayWebhookDelivery(webhookId: string) {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (deliveryId: string) =>
+      apiFetch<WebhookDelivery>(`/api/webhooks/${webhookId}/deliveries/${deliveryId}/replay`, {
+        method: 'POST',
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: webhookKeys.all });
+      queryClient.invalidateQueries({ queryKey: webhookKeys.deliveries(webhookId) });
+    },
+  });
+}
@@ -0,0 +1,61 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { MouseEvent } from 'react';
+import { selectionRange } from '@/lib/board-table';
+
+/**
+ * Multi-select for board columns: ctrl/cmd-click toggles a card, shift-click selects
+ * the run between the last clicked card and this one (in `orderedIds` order), and
+ * Escape clears. Plain clicks are left to the caller, so they still open the card.
+ *
+ * Cards that disappear from `orderedIds` (archived, filtered out) drop out of the selection.
+ */
+export function useCardSelection(orderedIds: string[]) {
+  const [selectedIds, setSelectedIds] = useState<ReadonlySet<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const clearSelection = useCallback(() => {
+    setSelectedIds(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  /** Returns true when the click was a selection click and has been handled. */
+  const handleSelectClick = useCallback((cardId: string, event?: MouseEvent) => {
+    if (!event || !(event.shiftKey || event.metaKey || event.ctrlKey)) return false;
+    event.preventDefault();
+
+    const anchor = anchorRef.current;
+    setSelectedIds((previous) => {
+      const next = new Set(previous);
+      if (event.shiftKey && anchor) {
+        for (const id of selectionRange(orderedIds, anchor, cardId)) next.add(id);
+      } else if (next.has(cardId)) {
+        next.delete(cardId);
+      } else {
+        next.add(cardId);
+      }
+      return next;
+    });
+    anchorRef.current = cardId;
+    return true;
+  }, [orderedIds]);
+
+  useEffect(() => {
+    setSelectedIds((previous) => {
+      if (previous.size === 0) return previous;
+      const visible = new Set(orderedIds);
+      const next = new Set([...previous].filter((id) => visible.has(id)));
+      return next.size === previous.size ? previous : next;
+    });
+  }, [orderedIds]);
+
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') clearSelection();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds.size, clearSelection]);
+
+  return { selectedIds, handleSelectClick, clearSelection };
+}
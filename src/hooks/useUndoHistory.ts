@@ -0,0 +1,165 @@
+import { useEffect, useMemo, useSyncExternalStore } from 'react';
+import { toast } from 'sonner';
+import { useBoardMutations, type UpdateCardParams } from '@/hooks/api/use-board-mutations';
+import { getUndoHistory, undoShortcutFor, type UndoCommand } from '@/lib/undo-history';
+import type { ListViewType } from '@/types';
+
+interface RecordOptions {
+  /** Show a toast with an Undo button. Off for quiet, frequent changes like autosaves. */
+  notify?: boolean;
+}
+
+interface CardMove {
+  cardId: string;
+  title: string;
+  fromListId: string;
+  fromPosition: number;
+  toListId: string;
+  toPosition: number;
+  toListName: string;
+}
+
+interface AssigneeChange {
+  cardId: string;
+  title: string;
+  added?: { userId: string; name: string } | null;
+  removed?: { userId: string; name: string } | null;
+}
+
+function errorDescription(error: unknown) {
+  return { description: error instanceof Error ? error.message : undefined };
+}
+
+function isTextEntry(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+/**
+ * Record board changes as undoable commands and step through them. Every command undoes
+ * through the regular API (reorder, restore, PATCH...), and the board is refetched after
+ * each step so the views pick up the server's side effects.
+ */
+export function useUndoHistory(boardId: string) {
+  const history = getUndoHistory(boardId);
+  const state = useSyncExternalStore(history.subscribe, history.getSnapshot, history.getSnapshot);
+  const mutations = useBoardMutations(boardId);
+
+  const actions = useMemo(() => {
+    const step = async (direction: 'undo' | 'redo') => {
+      try {
+        const command = await (direction === 'undo' ? history.undo() : history.redo());
+        if (!command) return;
+        const reverse = direction === 'undo' ? 'redo' : 'undo';
+        toast(`${direction === 'undo' ? 'Undid' : 'Redid'}: ${command.label}`, {
+          action: { label: direction === 'undo' ? 'Redo' : 'Undo', onClick: () => void step(reverse) },
+        });
+      } catch (error) {
+        toast.error(`Could not ${direction} that change`, errorDescription(error));
+      } finally {
+        mutations.invalidateBoard();
+      }
+    };
+    const undo = () => step('undo');
+    const redo = () => step('redo');
+
+    const record = (command: UndoCommand, { notify = true }: RecordOptions = {}) => {
+      history.push(command);
+      if (notify) {
+        toast(command.label, { action: { label: 'Undo', onClick: () => void undo() } });
+      }
+    };
+
+    const recordCardMove = (move: CardMove) => {
+      const moveTo = (listId: string, position: number, fromListId: string) =>
+        mutations.reorderCard({
+          cardId: move.cardId,
+          sourceListId: history.resolve(fromListId),
+          destinationListId: history.resolve(listId),
+          newPosition: position,
+        });
+      record({
+        label: `Moved "${move.title}" to ${move.toListName}`,
+        undo: async () => { await moveTo(move.fromListId, move.fromPosition, move.toListId); },
+        redo: async () => { await moveTo(move.toListId, move.toPosition, move.fromListId); },
+      });
+    };
+
+    const recordCardArchive = (card: { cardId: string; title: string }) => {
+      record({
+        label: `Deleted "${card.title}"`,
+        undo: () => mutations.restoreCard(card.cardId),
+        redo: () => mutations.deleteCard(card.cardId),
+      });
+    };
+
+    // Autosaves of the same card merge into one step
+    const recordCardEdit = (edit: { cardId: string; title: string; before: UpdateCardParams; after: UpdateCardParams }) => {
+      record({
+        label: `Edited "${edit.title}"`,
+        mergeKey: `edit:${edit.cardId}`,
+        undo: async () => { await mutations.updateCard(edit.cardId, edit.before); },
+        redo: async () => { await mutations.updateCard(edit.cardId, edit.after); },
+      }, { notify: false });
+    };
+
+    // Unassign before assigning, since a task only takes one assignee
+    const recordAssigneeChange = (change: AssigneeChange, options?: RecordOptions) => {
+      const swap = async (remove?: string, add?: string) => {
+        if (remove) await mutations.unassignUser(change.cardId, remove);
+        if (add) await mutations.assignUser(change.cardId, add);
+      };
+      const label = change.added
+        ? `Assigned ${change.added.name} to "${change.title}"`
+        : `Unassigned ${change.removed?.name ?? 'assignee'} from "${change.title}"`;
+      record({
+        label,
+        undo: () => swap(change.added?.userId, change.removed?.userId),
+        redo: () => swap(change.removed?.userId, change.added?.userId),
+      }, options);
+    };
+
+    // Redo makes a new list, so later commands find it through its alias
+    const recordListCreate = (list: { listId: string; name: string; viewType: ListViewType }) => {
+      record({
+        label: `Added list "${list.name}"`,
+        undo: () => mutations.deleteList(history.resolve(list.listId), { onlyIfEmpty: true }),
+        redo: async () => {
+          const created = await mutations.createList({ name: list.name, viewType: list.viewType });
+          history.alias(history.resolve(list.listId), created.id);
+        },
+      });
+    };
+
+    return {
+      undo,
+      redo,
+      record,
+      resolveId: (id: string) => history.resolve(id),
+      aliasId: (oldId: string, newId: string) => history.alias(oldId, newId),
+      recordCardMove,
+      recordCardArchive,
+      recordCardEdit,
+      recordAssigneeChange,
+      recordListCreate,
+    };
+  }, [history, mutations]);
+
+  return useMemo(() => ({ ...state, ...actions }), [state, actions]);
+}
+
+/** Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z for the board, except while typing in a field. */
+export function useUndoShortcuts(boardId: string) {
+  const { undo, redo } = useUndoHistory(boardId);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const shortcut = undoShortcutFor(event);
+      if (!shortcut || isTextEntry(event.target)) return;
+      event.preventDefault();
+      void (shortcut === 'undo' ? undo() : redo());
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
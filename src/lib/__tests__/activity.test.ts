@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    activity: {
+      create: vi.fn(),
+      createMany: vi.fn(),
+    },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { diffCardChanges, recordActivity, recordActivities } from '../activity';
+
+const mockedPrisma = prisma as unknown as {
+  activity: {
+    create: ReturnType<typeof vi.fn>;
+    createMany: ReturnType<typeof vi.fn>;
+  };
+};
+
+describe('diffCardChanges', () => {
+  it('returns no changes when the update matches the current card', () => {
+    const before = {
+      title: 'Rig hero',
+      description: 'Body rig',
+      taskData: { storyPoints: 3, deadline: null },
+    };
+
+    expect(diffCardChanges(before, { title: 'Rig hero', taskData: { storyPoints: 3, deadline: null } })).toEqual([]);
+  });
+
+  it('records old and new values for scalar fields', () => {
+    const changes = diffCardChanges({ title: 'Old', color: null }, { title: 'New', color: '#ff0000' });
+
+    expect(changes).toEqual([
+      { field: 'title', from: 'Old', to: 'New' },
+      { field: 'color', from: null, to: '#ff0000' },
+    ]);
+  });
+
+  it('flags description changes without storing the text', () => {
+    const changes = diffCardChanges({ description: 'a' }, { description: 'b' });
+
+    expect(changes).toEqual([{ field: 'description' }]);
+  });
+
+  it('diffs JSON data key by key', () => {
+    const changes = diffCardChanges(
+      { taskData: { storyPoints: 3, deadline: null, approvedByPo: null } },
+      {
+        taskData: {
+          storyPoints: 5,
+          deadline: null,
+          approvedByPo: { userId: 'u1', userName: 'Sam', at: '2026-02-01T00:00:00.000Z' },
+        },
+      }
+    );
+
+    expect(changes.map((c) => c.field)).toEqual(['taskData.storyPoints', 'taskData.approvedByPo']);
+    expect(changes[0]).toEqual({ field: 'taskData.storyPoints', from: 3, to: 5 });
+  });
+
+  it('ignores fields that are not part of the update', () => {
+    expect(diffCardChanges({ title: 'Keep', description: 'x' }, {})).toEqual([]);
+  });
+});
+
+describe('recordActivity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('writes an activity row', async () => {
+    mockedPrisma.activity.create.mockResolvedValue({});
+
+    await recordActivity({
+      boardId: 'board-1',
+      userId: 'user-1',
+      action: 'moved',
+      entity: 'card',
+      entityId: 'card-1',
+      data: { fromListId: 'a', toListId: 'b' },
+    });
+
+    expect(mockedPrisma.activity.create).toHaveBeenCalledWith({
+      data: {
+        boardId: 'board-1',
+        userId: 'user-1',
+        action: 'moved',
+        entity: 'card',
+        entityId: 'card-1',
+        data: { fromListId: 'a', toListId: 'b' },
+      },
+    });
+  });
+
+  it('swallows database errors', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockedPrisma.activity.create.mockRejectedValue(new Error('db down'));
+
+    await expect(recordActivity({
+      boardId: 'board-1',
+      userId: 'user-1',
+      action: 'archived',
+      entity: 'card',
+      entityId: 'card-1',
+    })).resolves.toBeUndefined();
+
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+
+  it('skips the query for an empty batch', async () => {
+    await recordActivities([]);
+
+    expect(mockedPrisma.activity.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkApiTokenAccess,
+  isApiTokenExpired,
+  MAX_API_TOKEN_BOARDS,
+  parseApiTokenBoardIds,
+  parseApiTokenExpiry,
+  parseApiTokenName,
+  parseApiTokenScope,
+  readBearerToken,
+} from '../api-token-scopes';
+
+describe('readBearerToken', () => {
+  it('reads personal API tokens from the Authorization header', () => {
+    expect(readBearerToken('Bearer pp_live_abc123')).toBe('pp_live_abc123');
+    expect(readBearerToken('Bearer  pp_live_abc123 ')).toBe('pp_live_abc123');
+  });
+
+  it('ignores missing headers, other schemes and foreign tokens', () => {
+    expect(readBearerToken(null)).toBeNull();
+    expect(readBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(readBearerToken('Bearer eyJhbGciOi')).toBeNull();
+  });
+});
+
+describe('checkApiTokenAccess', () => {
+  const readAll = { scope: 'read' as const, boardIds: null };
+  const writeAll = { scope: 'write' as const, boardIds: null };
+
+  it('refuses requests the middleware did not stamp', () => {
+    expect(checkApiTokenAccess(writeAll, null, '/api/boards')).toMatch(/could not be verified/);
+    expect(checkApiTokenAccess(writeAll, 'GET', null)).toMatch(/could not be verified/);
+  });
+
+  it('limits read tokens to safe methods', () => {
+    expect(checkApiTokenAccess(readAll, 'GET', '/api/boards/b1')).toBeNull();
+    expect(checkApiTokenAccess(readAll, 'POST', '/api/boards/b1/cards')).toBe('This API token is read-only');
+    expect(checkApiTokenAccess(writeAll, 'PATCH', '/api/boards/b1/cards/c1')).toBeNull();
+  });
+
+  it('limits board tokens to their own board routes', () => {
+    const grant = { scope: 'write' as const, boardIds: ['b1'] };
+    expect(checkApiTokenAccess(grant, 'GET', '/api/boards/b1')).toBeNull();
+    expect(checkApiTokenAccess(grant, 'POST', '/api/boards/b1/cards')).toBeNull();
+    expect(checkApiTokenAccess(grant, 'GET', '/api/boards/b2/cards')).toMatch(/limited to specific boards/);
+    expect(checkApiTokenAccess(grant, 'GET', '/api/boards')).toMatch(/limited to specific boards/);
+    expect(checkApiTokenAccess(grant, 'GET', '/api/users')).toMatch(/limited to specific boards/);
+  });
+
+  it('never lets a token manage tokens', () => {
+    expect(checkApiTokenAccess(writeAll, 'GET', '/api/me/api-tokens')).toMatch(/cannot be managed/);
+    expect(checkApiTokenAccess(writeAll, 'DELETE', '/api/me/api-tokens/t1')).toMatch(/cannot be managed/);
+  });
+});
+
+describe('isApiTokenExpired', () => {
+  const now = new Date('2026-03-02T10:00:00Z');
+
+  it('treats tokens without an expiry as valid', () => {
+    expect(isApiTokenExpired(null, now)).toBe(false);
+  });
+
+  it('expires at the expiry instant', () => {
+    expect(isApiTokenExpired(new Date('2026-03-02T10:00:01Z'), now)).toBe(false);
+    expect(isApiTokenExpired(new Date('2026-03-02T10:00:00Z'), now)).toBe(true);
+  });
+});
+
+describe('parseApiTokenName', () => {
+  it('trims the name and rejects blanks or long names', () => {
+    expect(parseApiTokenName('  Asset pipeline ')).toEqual({ value: 'Asset pipeline' });
+    expect(parseApiTokenName('').error).toBe('Token name is required');
+    expect(parseApiTokenName('x'.repeat(101)).error).toMatch(/cannot exceed/);
+  });
+});
+
+describe('parseApiTokenScope', () => {
+  it('defaults to read and rejects unknown scopes', () => {
+    expect(parseApiTokenScope(undefined)).toEqual({ value: 'read' });
+    expect(parseApiTokenScope('write')).toEqual({ value: 'write' });
+    expect(parseApiTokenScope('admin').error).toMatch(/Scope must be one of/);
+  });
+});
+
+describe('parseApiTokenBoardIds', () => {
+  it('uses null for every board', () => {
+    expect(parseApiTokenBoardIds(undefined)).toEqual({ value: null });
+    expect(parseApiTokenBoardIds(null)).toEqual({ value: null });
+  });
+
+  it('dedupes board IDs and rejects empty or malformed lists', () => {
+    expect(parseApiTokenBoardIds(['b1', ' b1', 'b2'])).toEqual({ value: ['b1', 'b2'] });
+    expect(parseApiTokenBoardIds([]).error).toMatch(/at least one board/);
+    expect(parseApiTokenBoardIds(['b1', 3]).error).toMatch(/list of board IDs/);
+    expect(parseApiTokenBoardIds('b1').error).toMatch(/list of board IDs/);
+  });
+
+  it('caps the number of boards', () => {
+    const ids = Array.from({ length: MAX_API_TOKEN_BOARDS + 1 }, (_, i) => `b${i}`);
+    expect(parseApiTokenBoardIds(ids).error).toMatch(/at most/);
+  });
+});
+
+describe('parseApiTokenExpiry', () => {
+  const now = new Date('2026-03-02T10:00:00Z');
+
+  it('turns a day count into an expiry date', () => {
+    expect(parseApiTokenExpiry(30, now).value?.toISOString()).toBe('2026-04-01T10:00:00.000Z');
+    expect(parseApiTokenExpiry(null, now)).toEqual({ value: null });
+  });
+
+  it('rejects fractional, out-of-range and non-numeric values', () => {
+    expect(parseApiTokenExpiry(1.5, now).error).toMatch(/whole number/);
+    expect(parseApiTokenExpiry(0, now).error).toMatch(/whole number/);
+    expect(parseApiTokenExpiry(366, now).error).toMatch(/whole number/);
+    expect(parseApiTokenExpiry('30', now).error).toMatch(/whole number/);
+  });
+});
@@ -23,11 +23,19 @@ vi.mock('@/lib/prisma', () => ({
   },
 }));
 
+vi.mock('next/headers', () => ({
+  headers: vi.fn(async () => new Headers()),
+}));
+
 // Mock auth
 vi.mock('@/lib/auth', () => ({
   auth: vi.fn(),
 }));
 
+vi.mock('@/lib/api-tokens', () => ({
+  authenticateApiToken: vi.fn(),
+}));
+
 import {
   apiError,
   apiSuccess,
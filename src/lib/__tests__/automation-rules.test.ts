@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getRunStatus,
+  matchesConditions,
+  matchesTrigger,
+  parseAutomationActions,
+  parseAutomationConditions,
+  parseAutomationTrigger,
+  parseRuleName,
+  renderAutomationMessage,
+  type AutomationCardContext,
+} from '../automation-rules';
+
+const card: AutomationCardContext = {
+  id: 'card-1',
+  title: 'Paytable art',
+  type: 'TASK',
+  listId: 'list-review',
+  tagIds: ['tag-art'],
+  assigneeIds: ['user-1'],
+  storyPoints: 3,
+};
+
+describe('parseRuleName', () => {
+  it('trims the name and rejects blanks', () => {
+    expect(parseRuleName('  Approved to Done ')).toEqual({ value: 'Approved to Done' });
+    expect(parseRuleName('   ').error).toBe('Rule name is required');
+  });
+});
+
+describe('parseAutomationTrigger', () => {
+  it('rejects unknown trigger types', () => {
+    expect(parseAutomationTrigger({ type: 'card_deleted' }).error).toMatch(/Trigger type must be one of/);
+  });
+
+  it('defaults approval triggers to both approvals', () => {
+    expect(parseAutomationTrigger({ type: 'approval_granted' })).toEqual({
+      value: { type: 'approval_granted', approval: 'both' },
+    });
+  });
+
+  it('keeps only the fields the trigger type uses', () => {
+    expect(parseAutomationTrigger({ type: 'card_entered_list', listId: 'l1', moduleId: 'm1' })).toEqual({
+      value: { type: 'card_entered_list', listId: 'l1' },
+    });
+  });
+});
+
+describe('parseAutomationConditions', () => {
+  it('treats a missing list as no conditions', () => {
+    expect(parseAutomationConditions(undefined)).toEqual({ value: [] });
+  });
+
+  it('accepts null as the unassigned condition', () => {
+    expect(parseAutomationConditions([{ type: 'assignee', userId: null }])).toEqual({
+      value: [{ type: 'assignee', userId: null }],
+    });
+  });
+
+  it('rejects negative story point thresholds', () => {
+    expect(parseAutomationConditions([{ type: 'story_points', operator: 'gte', value: -1 }]).error)
+      .toBe('Story point value must be a non-negative number');
+  });
+});
+
+describe('parseAutomationActions', () => {
+  it('requires at least one action', () => {
+    expect(parseAutomationActions([]).error).toBe('A rule needs at least one action');
+  });
+
+  it('drops blank checklist items', () => {
+    expect(parseAutomationActions([{ type: 'add_checklist', name: 'QA', items: ['Check', ' ', 'Ship'] }])).toEqual({
+      value: [{ type: 'add_checklist', name: 'QA', items: ['Check', 'Ship'] }],
+    });
+  });
+
+  it('requires a user for direct notifications', () => {
+    expect(parseAutomationActions([{ type: 'notify', target: 'user', message: 'Hi' }]).error)
+      .toBe('Notify action requires a userId');
+  });
+
+  it('rejects fractional deadline offsets', () => {
+    expect(parseAutomationActions([{ type: 'set_deadline', daysFromNow: 1.5 }]).error)
+      .toMatch(/whole number of days/);
+  });
+});
+
+describe('matchesTrigger', () => {
+  it('matches entered-list triggers on the configured list only', () => {
+    const trigger = { type: 'card_entered_list' as const, listId: 'list-done' };
+    expect(matchesTrigger(trigger, { type: 'card_entered_list', cardId: 'c', listId: 'list-done' })).toBe(true);
+    expect(matchesTrigger(trigger, { type: 'card_entered_list', cardId: 'c', listId: 'list-review' })).toBe(false);
+  });
+
+  it('fires a both-approvals trigger only once both are in', () => {
+    const trigger = { type: 'approval_granted' as const, approval: 'both' as const };
+    expect(matchesTrigger(trigger, {
+      type: 'approval_granted', cardId: 'c', approval: 'po', approvals: { po: true, lead: false },
+    })).toBe(false);
+    expect(matchesTrigger(trigger, {
+      type: 'approval_granted', cardId: 'c', approval: 'lead', approvals: { po: true, lead: true },
+    })).toBe(true);
+  });
+
+  it('compares checklist names case-insensitively', () => {
+    expect(matchesTrigger(
+      { type: 'checklist_completed', checklistName: 'qa pass' },
+      { type: 'checklist_completed', cardId: 'c', checklistName: 'QA Pass' }
+    )).toBe(true);
+  });
+
+  it('never matches a different event type', () => {
+    expect(matchesTrigger({ type: 'deadline_passed' }, { type: 'card_entered_list', cardId: 'c' })).toBe(false);
+  });
+});
+
+describe('matchesConditions', () => {
+  it('matches any card when there are no conditions', () => {
+    expect(matchesConditions([], card)).toBe(true);
+  });
+
+  it('requires every condition to hold', () => {
+    expect(matchesConditions([
+      { type: 'card_type', cardType: 'TASK' },
+      { type: 'has_tag', tagId: 'tag-art' },
+      { type: 'story_points', operator: 'gte', value: 3 },
+    ], card)).toBe(true);
+    expect(matchesConditions([
+      { type: 'card_type', cardType: 'TASK' },
+      { type: 'story_points', operator: 'lte', value: 2 },
+    ], card)).toBe(false);
+  });
+
+  it('matches unassigned cards with a null assignee', () => {
+    expect(matchesConditions([{ type: 'assignee', userId: null }], card)).toBe(false);
+    expect(matchesConditions([{ type: 'assignee', userId: null }], { ...card, assigneeIds: [] })).toBe(true);
+  });
+
+  it('never matches story points on cards without an estimate', () => {
+    expect(matchesConditions(
+      [{ type: 'story_points', operator: 'lte', value: 5 }],
+      { ...card, storyPoints: null }
+    )).toBe(false);
+  });
+});
+
+describe('renderAutomationMessage', () => {
+  it('fills card, list and board placeholders', () => {
+    expect(renderAutomationMessage('"{card}" moved to {list} on {board} {other}', {
+      card: 'Paytable art',
+      list: 'Done',
+      board: 'Lucky Spins',
+    })).toBe('"Paytable art" moved to Done on Lucky Spins {other}');
+  });
+});
+
+describe('getRunStatus', () => {
+  it('summarises action results', () => {
+    expect(getRunStatus([{ type: 'move_card', ok: true }])).toBe('success');
+    expect(getRunStatus([{ type: 'move_card', ok: true }, { type: 'notify', ok: false }])).toBe('partial');
+    expect(getRunStatus([{ type: 'notify', ok: false }])).toBe('failed');
+  });
+});
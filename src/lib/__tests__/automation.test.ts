@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    list: { count: vi.fn() },
+    tag: { count: vi.fn() },
+    boardMember: { count: vi.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { validateRuleReferences } from '../automation';
+
+type Mock = ReturnType<typeof vi.fn>;
+const mockedPrisma = prisma as unknown as {
+  list: { count: Mock };
+  tag: { count: Mock };
+  boardMember: { count: Mock };
+};
+
+describe('validateRuleReferences', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedPrisma.list.count.mockResolvedValue(1);
+    mockedPrisma.boardMember.count.mockResolvedValue(0);
+  });
+
+  it('rejects a rule that adds a tag from another studio', async () => {
+    // The foreign tag exists but falls outside the board's studio scope
+    mockedPrisma.tag.count.mockResolvedValue(0);
+
+    const error = await validateRuleReferences('board-1', {
+      trigger: { type: 'card_entered_list', listId: 'list-review' },
+      conditions: [],
+      actions: [{ type: 'add_tag', tagId: 'tag-other-studio' }],
+    });
+
+    expect(error).toBe('Rule refers to a tag that does not exist or belongs to another studio');
+    expect(mockedPrisma.tag.count).toHaveBeenCalledWith({
+      where: {
+        id: { in: ['tag-other-studio'] },
+        OR: [{ studioId: null }, { studio: { teams: { some: { boards: { some: { id: 'board-1' } } } } } }],
+      },
+    });
+  });
+
+  it('accepts global and studio tags', async () => {
+    mockedPrisma.tag.count.mockResolvedValue(2);
+
+    const error = await validateRuleReferences('board-1', {
+      trigger: { type: 'card_entered_list', listId: 'list-review' },
+      conditions: [{ type: 'has_tag', tagId: 'tag-global' }],
+      actions: [{ type: 'add_tag', tagId: 'tag-studio' }],
+    });
+
+    expect(error).toBeNull();
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import {
+  BOARD_ARCHIVE_FORMAT,
+  BOARD_ARCHIVE_VERSION,
+  parseBoardArchive,
+  planBoardImport,
+  type BoardArchive,
+  type BoardArchiveCard,
+  type BoardImportContext,
+} from '../board-archive';
+
+function card(overrides: Partial<BoardArchiveCard> & Pick<BoardArchiveCard, 'id' | 'listId'>): BoardArchiveCard {
+  return {
+    parentId: null,
+    type: 'TASK',
+    title: `Card ${overrides.id}`,
+    description: null,
+    position: 0,
+    color: null,
+    featureImage: null,
+    featureImagePosition: 50,
+    createdAt: '2026-01-05T09:00:00.000Z',
+    completedAt: null,
+    archivedAt: null,
+    taskData: null,
+    userStoryData: null,
+    epicData: null,
+    utilityData: null,
+    assignees: [],
+    tagIds: [],
+    checklists: [],
+    attachments: [],
+    comments: [],
+    reviewCycles: [],
+    ...overrides,
+  };
+}
+
+function archive(overrides: Partial<BoardArchive> = {}): BoardArchive {
+  return {
+    format: BOARD_ARCHIVE_FORMAT,
+    version: BOARD_ARCHIVE_VERSION,
+    exportedAt: '2026-03-01T00:00:00.000Z',
+    board: { name: 'Dragon Slots', description: null, isTemplate: false, settings: {} },
+    users: [
+      { id: 'u-ana', email: 'Ana@studio.test', name: 'Ana' },
+      { id: 'u-gone', email: 'gone@studio.test', name: 'Gone' },
+    ],
+    members: [
+      { userId: 'u-ana', permission: 'MEMBER' },
+      { userId: 'u-gone', permission: 'ADMIN' },
+    ],
+    tags: [
+      { id: 't-art', name: 'Art', color: null },
+      { id: 't-old', name: 'Legacy', color: null },
+    ],
+    lists: [
+      {
+        id: 'l-todo', name: 'To Do', position: 0, viewType: 'TASKS', phase: null, color: null,
+        startDate: null, endDate: null, durationWeeks: null, durationDays: null, wipLimit: null, wipLimitPerAssignee: null,
+      },
+      {
+        id: 'l-sprint', name: 'Sprint 1', position: 0, viewType: 'PLANNING', phase: 'PRODUCTION', color: null,
+        startDate: '2026-01-05T00:00:00.000Z', endDate: '2026-01-16T00:00:00.000Z', durationWeeks: 2, durationDays: null,
+        wipLimit: null, wipLimitPerAssignee: null,
+      },
+    ],
+    cards: [
+      card({ id: 'c-story', listId: 'l-sprint', type: 'USER_STORY', userStoryData: { linkedEpicId: 'c-missing', flags: [] } }),
+      card({
+        id: 'c-task',
+        listId: 'l-todo',
+        taskData: {
+          storyPoints: 3,
+          linkedUserStoryId: 'c-story',
+          releaseTargetListId: 'l-sprint',
+          approvedByPo: { userId: 'u-gone', userName: 'Gone', at: '2026-01-06' },
+          approvedByLead: { userId: 'u-ana', userName: 'Ana', at: '2026-01-06' },
+        },
+        assignees: [
+          { userId: 'u-ana', assignedAt: '2026-01-05T00:00:00.000Z', activatedAt: null },
+          { userId: 'u-gone', assignedAt: '2026-01-05T00:00:00.000Z', activatedAt: null },
+        ],
+        tagIds: ['t-art', 't-old'],
+        checklists: [{ name: 'Todo', type: 'todo', position: 0, items: [{ content: 'Rig', isComplete: true, position: 0 }] }],
+        attachments: [
+          { id: 'a-1', name: 'sheet.png', url: 'https://cdn.test/sheet.png', type: 'image/png', size: 10, uploaderId: 'u-gone', createdAt: '2026-01-05T00:00:00.000Z' },
+        ],
+        comments: [
+          { authorId: 'u-gone', content: 'Looks good', type: 'standard', createdAt: '2026-01-06T00:00:00.000Z', attachmentId: 'a-1', mentions: [{ userId: 'u-ana', name: 'Ana' }, { userId: 'u-gone', name: 'Gone' }] },
+        ],
+        reviewCycles: [
+          {
+            cycleNumber: 1, openedAt: '2026-01-06T00:00:00.000Z', closedAt: null, isFinal: false, lockedAt: null,
+            evaluations: [
+              { reviewerId: 'u-ana', submittedAt: '2026-01-07T00:00:00.000Z', scores: [{ dimension: 'Polish', score: 'HIGH' }, { dimension: 'Retired', score: 'LOW' }] },
+              { reviewerId: 'u-gone', submittedAt: '2026-01-07T00:00:00.000Z', scores: [] },
+            ],
+          },
+        ],
+      }),
+      card({ id: 'c-sub', listId: 'l-todo', parentId: 'c-task' }),
+    ],
+    timelineBlocks: [
+      { listId: 'l-sprint', blockType: 'PRODUCTION', startDate: '2026-01-05T00:00:00.000Z', endDate: '2026-01-16T00:00:00.000Z', position: 1 },
+      { listId: null, blockType: 'Custom Block', startDate: '2026-01-19T00:00:00.000Z', endDate: '2026-01-23T00:00:00.000Z', position: 2 },
+    ],
+    timelineEvents: [
+      { eventType: 'GSD', title: 'Launch', description: null, startDate: '2026-02-01T00:00:00.000Z', endDate: '2026-02-01T00:00:00.000Z' },
+    ],
+    availability: [
+      { userId: 'u-ana', weekStart: '2026-01-05T00:00:00.000Z', dedication: 50 },
+      { userId: 'u-gone', weekStart: '2026-01-05T00:00:00.000Z', dedication: 100 },
+    ],
+    spineTracker: null,
+    ...overrides,
+  };
+}
+
+function context(): BoardImportContext {
+  let next = 0;
+  return {
+    boardId: 'new-board',
+    importerId: 'me',
+    usersByEmail: new Map([['ana@studio.test', 'ana-prod']]),
+    tagsByName: new Map([['art', 'tag-art']]),
+    blockTypesByName: new Map([['production', 'bt-prod']]),
+    eventTypesByName: new Map([['gsd', 'et-gsd']]),
+    dimensionsByName: new Map([['polish', 'dim-polish']]),
+    newId: () => `id-${++next}`,
+  };
+}
+
+describe('parseBoardArchive', () => {
+  it('accepts an export', () => {
+    expect(parseBoardArchive(archive()).value?.board.name).toBe('Dragon Slots');
+  });
+
+  it('rejects other files, newer versions and dangling cards', () => {
+    expect(parseBoardArchive({ skeletons: [] }).error).toBe('Not a board archive');
+    expect(parseBoardArchive({ ...archive(), version: BOARD_ARCHIVE_VERSION + 1 }).error).toMatch(/newer/);
+    expect(parseBoardArchive({ ...archive(), lists: undefined }).error).toBe('Board archive is missing lists');
+    expect(parseBoardArchive(archive({ cards: [card({ id: 'x', listId: 'nowhere' })] })).error).toMatch(/not in the archive/);
+  });
+});
+
+describe('planBoardImport', () => {
+  it('gives every record a new id and remaps links between them', () => {
+    const plan = planBoardImport(archive(), context());
+    const [story, task, sub] = plan.cards;
+    const [todo, sprint] = plan.lists;
+
+    expect(plan.lists.every((list) => list.boardId === 'new-board')).toBe(true);
+    expect(task.listId).toBe(todo.id);
+    expect(sub.parentId).toBe(task.id);
+    expect(task.taskData).toMatchObject({ linkedUserStoryId: story.id, releaseTargetListId: sprint.id });
+    expect(story.userStoryData).toEqual({ flags: [] });
+    expect(plan.timelineBlocks).toEqual([expect.objectContaining({ listId: sprint.id, blockTypeId: 'bt-prod' })]);
+    expect(plan.comments[0].attachmentId).toBe(plan.attachments[0].id);
+    expect(plan.checklistItems[0]).toMatchObject({ checklistId: plan.checklists[0].id, isComplete: true });
+  });
+
+  it('maps users by email and reports the ones that do not exist', () => {
+    const plan = planBoardImport(archive(), context());
+
+    expect(plan.unresolvedUsers).toEqual(['gone@studio.test']);
+    expect(plan.members).toEqual([
+      { boardId: 'new-board', userId: 'me', permission: 'ADMIN' },
+      { boardId: 'new-board', userId: 'ana-prod', permission: 'MEMBER' },
+    ]);
+    expect(plan.cardUsers.map((row) => row.userId)).toEqual(['ana-prod']);
+    expect(plan.availability.map((row) => row.userId)).toEqual(['ana-prod']);
+    expect(plan.evaluations.map((row) => row.reviewerId)).toEqual(['ana-prod']);
+    expect(plan.evaluationScores).toEqual([expect.objectContaining({ dimensionId: 'dim-polish', score: 'HIGH' })]);
+    expect(plan.attachments[0].uploaderId).toBeNull();
+    expect(plan.cards[1].taskData).toMatchObject({
+      approvedByPo: null,
+      approvedByLead: { userId: 'ana-prod', userName: 'Ana' },
+    });
+  });
+
+  it('matches users archived without an email by name', () => {
+    const plan = planBoardImport(
+      archive({ users: [{ id: 'u-ana', email: '', name: 'Ana' }, { id: 'u-gone', email: '', name: 'Gone' }] }),
+      { ...context(), usersByName: new Map([['ana', 'ana-prod']]) },
+    );
+
+    expect(plan.cardUsers.map((row) => row.userId)).toEqual(['ana-prod']);
+    expect(plan.unresolvedUsers).toEqual(['Gone']);
+  });
+
+  it('brings archived board admins in as members, leaving the importer as the only admin', () => {
+    const plan = planBoardImport(archive({ members: [{ userId: 'u-ana', permission: 'ADMIN' }] }), context());
+
+    expect(plan.members).toEqual([
+      { boardId: 'new-board', userId: 'me', permission: 'ADMIN' },
+      { boardId: 'new-board', userId: 'ana-prod', permission: 'MEMBER' },
+    ]);
+  });
+
+  it('keeps comments by unknown authors, posted as the importer', () => {
+    const [comment] = planBoardImport(archive(), context()).comments;
+
+    expect(comment.authorId).toBe('me');
+    expect(comment.content).toBe('_Originally by gone@studio.test_\n\nLooks good');
+    expect(comment.mentions).toEqual([{ userId: 'ana-prod', name: 'Ana' }]);
+  });
+
+  it('warns about tags and timeline types missing in this environment', () => {
+    const plan = planBoardImport(archive(), context());
+
+    expect(plan.cardTags).toEqual([{ cardId: plan.cards[1].id, tagId: 'tag-art' }]);
+    expect(plan.timelineEvents).toHaveLength(1);
+    expect(plan.warnings).toEqual([
+      'Tags not found, left off cards: Legacy',
+      'Block types not found, blocks skipped: Custom Block',
+    ]);
+  });
+});
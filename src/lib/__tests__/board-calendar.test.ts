@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendarEntries,
+  entriesForDay,
+  monthGridDays,
+  moveDateToDay,
+  shiftCalendarAnchor,
+  weekGridDays,
+} from '../board-calendar';
+import { formatLocalDateKey } from '../date-utils';
+import type { Board, Card, List, TimelineEvent } from '@/types';
+
+function card(overrides: Partial<Card> & Pick<Card, 'id' | 'type'>): Card {
+  return {
+    title: overrides.id,
+    description: null,
+    position: 0,
+    color: null,
+    featureImage: null,
+    featureImagePosition: 50,
+    listId: 'list',
+    parentId: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    archivedAt: null,
+    ...overrides,
+  } as Card;
+}
+
+function list(id: string, name: string, cards: Card[], phase: List['phase'] = null): List {
+  return {
+    id,
+    name,
+    position: 0,
+    boardId: 'board',
+    cards,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    viewType: 'TASKS',
+    phase,
+  };
+}
+
+const board = {
+  id: 'board',
+  name: 'Spring',
+  settings: { marketingAssetsDeadline: '2026-03-20', customDates: [{ id: 'c1', label: 'Store review', date: '2026-03-25' }] },
+  lists: [
+    list('doing', 'In Progress', [
+      card({ id: 'task', type: 'TASK', title: 'Rig', taskData: { storyPoints: 3, deadline: new Date(2026, 2, 10).toISOString(), linkedUserStoryId: null, linkedEpicId: null } } as Partial<Card> & Pick<Card, 'id' | 'type'>),
+      card({ id: 'staged', type: 'TASK', title: 'Trailer', taskData: { storyPoints: null, deadline: null, linkedUserStoryId: null, linkedEpicId: null, releaseMode: 'STAGED', scheduledReleaseDate: new Date(2026, 2, 2, 9).toISOString() } } as Partial<Card> & Pick<Card, 'id' | 'type'>),
+      card({ id: 'milestone', type: 'UTILITY', title: 'Alpha', utilityData: { subtype: 'MILESTONE', date: '2026-03-15' } } as Partial<Card> & Pick<Card, 'id' | 'type'>),
+      card({ id: 'note', type: 'UTILITY', title: 'Note', utilityData: { subtype: 'NOTE', date: '2026-03-15' } } as Partial<Card> & Pick<Card, 'id' | 'type'>),
+    ]),
+    list('done', 'Done', [
+      card({ id: 'finished', type: 'TASK', title: 'Concept', taskData: { storyPoints: 1, deadline: new Date(2026, 2, 10).toISOString(), linkedUserStoryId: null, linkedEpicId: null } } as Partial<Card> & Pick<Card, 'id' | 'type'>),
+    ], 'DONE'),
+  ],
+  members: [],
+} as unknown as Board;
+
+const events: TimelineEvent[] = [{
+  id: 'gdc',
+  title: 'GDC',
+  description: null,
+  startDate: '2026-03-16',
+  endDate: '2026-03-18',
+  eventType: { id: 'conf', name: 'Conference', color: '#f00', icon: null, description: null, isDefault: false, position: 0 },
+}];
+
+describe('buildCalendarEntries', () => {
+  it('collects deadlines, staged releases, milestones, events and project dates', () => {
+    const entries = buildCalendarEntries(board, events);
+    const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+    expect(byId.get('deadline:task')).toMatchObject({ kind: 'deadline', start: '2026-03-10', cardId: 'task', done: false });
+    expect(byId.get('deadline:finished')).toMatchObject({ done: true });
+    expect(byId.get('release:staged')).toMatchObject({ kind: 'release', start: '2026-03-02', done: false });
+    expect(byId.get('milestone:milestone')).toMatchObject({ kind: 'milestone', start: '2026-03-15' });
+    expect(byId.has('milestone:note')).toBe(false);
+    expect(byId.get('event:gdc')).toMatchObject({ start: '2026-03-16', end: '2026-03-18', color: '#f00' });
+    expect(byId.get('setting:marketingAssetsDeadline')).toMatchObject({ title: 'Marketing assets deadline', start: '2026-03-20' });
+    expect(byId.get('setting:c1')).toMatchObject({ title: 'Store review', start: '2026-03-25' });
+  });
+
+  it('lists multi-day events on every day they cover, in display order', () => {
+    const entries = buildCalendarEntries(board, events);
+    expect(entriesForDay(entries, '2026-03-17').map((entry) => entry.id)).toEqual(['event:gdc']);
+    expect(entriesForDay(entries, '2026-03-10').map((entry) => entry.id)).toEqual(['deadline:finished', 'deadline:task']);
+  });
+});
+
+describe('calendar grids', () => {
+  it('builds whole Monday-to-Sunday weeks around a month', () => {
+    const days = monthGridDays(new Date(2026, 2, 14));
+    expect(days).toHaveLength(42);
+    expect(formatLocalDateKey(days[0])).toBe('2026-02-23');
+    expect(formatLocalDateKey(days[days.length - 1])).toBe('2026-04-05');
+    // February 2026 starts on a Sunday and ends on a Saturday
+    expect(monthGridDays(new Date(2026, 1, 1))).toHaveLength(35);
+  });
+
+  it('builds and steps weeks and months', () => {
+    expect(weekGridDays(new Date(2026, 2, 14)).map(formatLocalDateKey)).toEqual([
+      '2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13', '2026-03-14', '2026-03-15',
+    ]);
+    expect(formatLocalDateKey(shiftCalendarAnchor(new Date(2026, 0, 31), 'month', 1))).toBe('2026-02-01');
+    expect(formatLocalDateKey(shiftCalendarAnchor(new Date(2026, 2, 14), 'week', -1))).toBe('2026-03-07');
+  });
+});
+
+describe('moveDateToDay', () => {
+  it('moves to the new day keeping the time of day', () => {
+    const moved = new Date(moveDateToDay(new Date(2026, 2, 10, 17, 30).toISOString(), '2026-03-12'));
+    expect(formatLocalDateKey(moved)).toBe('2026-03-12');
+    expect([moved.getHours(), moved.getMinutes()]).toEqual([17, 30]);
+    expect(new Date(moveDateToDay(null, '2026-03-12')).getHours()).toBe(0);
+    expect(moveDateToDay('2026-03-15', '2026-03-19')).toBe('2026-03-19');
+  });
+});
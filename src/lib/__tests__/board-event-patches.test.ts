@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { applyBoardEvent } from '../board-event-patches';
+import type { Card } from '@/types';
+
+function card(id: string, listId: string, position: number, extra: Record<string, unknown> = {}) {
+  return { id, listId, position, title: id, type: 'TASK', _count: { attachments: 0, comments: 1 }, ...extra } as unknown as Card;
+}
+
+function makeBoard() {
+  return {
+    id: 'board-1',
+    name: 'Slot',
+    lists: [
+      { id: 'todo', name: 'To Do', position: 0, cards: [card('a', 'todo', 0), card('b', 'todo', 1), card('c', 'todo', 2)] },
+      { id: 'doing', name: 'Doing', position: 1, cards: [card('d', 'doing', 0)] },
+    ],
+  };
+}
+
+const ids = (board: ReturnType<typeof makeBoard>, listIndex: number) =>
+  board.lists[listIndex].cards.map((c) => `${c.id}@${c.position}`);
+
+describe('applyBoardEvent', () => {
+  it('adds created cards once, in position order', () => {
+    const board = makeBoard();
+    const next = applyBoardEvent(board, { type: 'card.created', card: card('e', 'doing', 1) });
+    expect(ids(next, 1)).toEqual(['d@0', 'e@1']);
+    expect(applyBoardEvent(next, { type: 'card.created', card: card('e', 'doing', 1) })).toBe(next);
+  });
+
+  it('merges card updates and keeps fields the event does not carry', () => {
+    const board = makeBoard();
+    const next = applyBoardEvent(board, { type: 'card.updated', card: { id: 'b', title: 'Renamed' } });
+    expect(next.lists[0].cards[1]).toMatchObject({ id: 'b', title: 'Renamed', type: 'TASK', position: 1 });
+    expect(next.lists[1]).toBe(board.lists[1]);
+  });
+
+  it('moves a card when an update changes its list', () => {
+    const next = applyBoardEvent(makeBoard(), { type: 'card.updated', card: { id: 'a', listId: 'doing', position: 5 } });
+    expect(ids(next, 0)).toEqual(['b@1', 'c@2']);
+    expect(ids(next, 1)).toEqual(['d@0', 'a@5']);
+  });
+
+  it('moves cards between lists and renumbers both lists', () => {
+    const next = applyBoardEvent(makeBoard(), {
+      type: 'card.moved', cardId: 'b', fromListId: 'todo', toListId: 'doing', position: 0,
+    });
+    expect(ids(next, 0)).toEqual(['a@0', 'c@1']);
+    expect(ids(next, 1)).toEqual(['b@0', 'd@1']);
+    expect(next.lists[1].cards[0].listId).toBe('doing');
+  });
+
+  it('reorders within a list and ignores moves already applied', () => {
+    const board = makeBoard();
+    const next = applyBoardEvent(board, {
+      type: 'card.moved', cardId: 'a', fromListId: 'todo', toListId: 'todo', position: 2,
+    });
+    expect(ids(next, 0)).toEqual(['b@0', 'c@1', 'a@2']);
+    expect(applyBoardEvent(next, {
+      type: 'card.moved', cardId: 'a', fromListId: 'todo', toListId: 'todo', position: 2,
+    })).toBe(next);
+  });
+
+  it('removes deleted cards and ignores unknown ones', () => {
+    const board = makeBoard();
+    expect(ids(applyBoardEvent(board, { type: 'card.deleted', cardId: 'b' }), 0)).toEqual(['a@0', 'c@2']);
+    expect(applyBoardEvent(board, { type: 'card.deleted', cardId: 'zzz' })).toBe(board);
+  });
+
+  it('adds, updates and removes lists', () => {
+    const board = makeBoard();
+    const created = applyBoardEvent(board, {
+      type: 'list.created',
+      list: { id: 'done', name: 'Done', position: 2, boardId: 'board-1', cards: [], createdAt: '', updatedAt: '', viewType: 'TASKS' },
+    });
+    expect(created.lists.map((list) => list.id)).toEqual(['todo', 'doing', 'done']);
+
+    const moved = applyBoardEvent(created, { type: 'list.updated', list: { id: 'done', position: -1, name: 'Shipped' } });
+    expect(moved.lists.map((list) => list.id)).toEqual(['done', 'todo', 'doing']);
+    expect(moved.lists[0]).toMatchObject({ name: 'Shipped', cards: [] });
+
+    expect(applyBoardEvent(moved, { type: 'list.deleted', listId: 'todo' }).lists.map((list) => list.id))
+      .toEqual(['done', 'doing']);
+  });
+
+  it('replaces checklists and adjusts comment counts', () => {
+    const checklists = [{ id: 'cl1', name: 'QA', type: 'todo' as const, position: 0, items: [] }];
+    const withChecklists = applyBoardEvent(makeBoard(), { type: 'checklists.updated', cardId: 'd', checklists });
+    expect(withChecklists.lists[1].cards[0]).toMatchObject({ checklists });
+
+    const commented = applyBoardEvent(withChecklists, { type: 'comment.created', cardId: 'd', commentId: 'm1' });
+    expect((commented.lists[1].cards[0] as { _count?: unknown })._count).toEqual({ attachments: 0, comments: 2 });
+    const removed = applyBoardEvent(commented, { type: 'comment.deleted', cardId: 'd', commentId: 'm1' });
+    expect((removed.lists[1].cards[0] as { _count?: { comments: number } })._count?.comments).toBe(1);
+  });
+
+  it('leaves payloads without lists untouched', () => {
+    const payload = { id: 'board-1' };
+    expect(applyBoardEvent(payload, { type: 'card.deleted', cardId: 'a' })).toBe(payload);
+  });
+});
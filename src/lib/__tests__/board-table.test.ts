@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTableRows,
+  DEFAULT_TABLE_COLUMN_CONFIG,
+  EMPTY_TABLE_FILTERS,
+  filterTableRows,
+  moveTableColumn,
+  nextTableSort,
+  parseTableColumnConfig,
+  selectionRange,
+  sortTableRows,
+  toggleTableColumn,
+  UNASSIGNED_FILTER,
+  visibleRowRange,
+  visibleTableColumns,
+} from '../board-table';
+import type { Board, Card, List } from '@/types';
+
+type CardInput = Partial<Card> & Pick<Card, 'id' | 'type'> & Record<string, unknown>;
+
+function card(overrides: CardInput): Card {
+  return {
+    title: overrides.id,
+    description: null,
+    position: 0,
+    color: null,
+    featureImage: null,
+    featureImagePosition: 50,
+    listId: 'list',
+    parentId: null,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    archivedAt: null,
+    ...overrides,
+  } as Card;
+}
+
+function list(id: string, name: string, cards: Card[]): List {
+  return {
+    id,
+    name,
+    position: 0,
+    boardId: 'board',
+    cards,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    viewType: 'TASKS',
+    phase: null,
+  };
+}
+
+const assignee = (userId: string, name: string) => ({
+  id: `a-${userId}`,
+  userId,
+  user: { id: userId, name, email: `${userId}@example.com`, image: null, permission: 'MEMBER' as const },
+  assignedAt: '2026-01-01T00:00:00.000Z',
+  activatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const taskData = (overrides: Record<string, unknown> = {}) => ({
+  storyPoints: null,
+  deadline: null,
+  linkedUserStoryId: null,
+  linkedEpicId: null,
+  ...overrides,
+});
+
+const board = {
+  id: 'board',
+  name: 'Spring',
+  lists: [
+    list('planning', 'Planning', [
+      card({ id: 'epic', type: 'EPIC', title: 'Bonus game', epicData: {} }),
+      card({ id: 'story', type: 'USER_STORY', title: 'Free spins', userStoryData: { linkedEpicId: 'epic', flags: [] } }),
+    ]),
+    list('doing', 'In Progress', [
+      card({
+        id: 'rig',
+        type: 'TASK',
+        title: 'Rig dragon',
+        assignees: [assignee('u1', 'Ana')],
+        tags: [{ id: 't-anim', name: 'Animation', color: null }],
+        taskData: taskData({ storyPoints: 5, deadline: '2026-03-10T00:00:00.000Z', linkedUserStoryId: 'story', approvedByPo: { userId: 'u2', userName: 'Bo', at: '2026-01-02' } }),
+      }),
+      card({
+        id: 'sfx',
+        type: 'TASK',
+        title: 'Spin sounds',
+        taskData: taskData({ storyPoints: 2, linkedEpicId: 'epic', releaseMode: 'STAGED' }),
+      }),
+      card({ id: 'old', type: 'TASK', title: 'Old', archivedAt: '2026-01-05T00:00:00.000Z', taskData: taskData() }),
+    ]),
+  ],
+  members: [],
+} as unknown as Board;
+
+describe('buildTableRows', () => {
+  it('flattens cards with list, assignees, tags, links and task status', () => {
+    const rows = buildTableRows(board);
+    const byId = new Map(rows.map((row) => [row.card.id, row]));
+
+    expect(rows.map((row) => row.card.id)).toEqual(['epic', 'story', 'rig', 'sfx']);
+    expect(byId.get('story')).toMatchObject({ listName: 'Planning', linked: { id: 'epic', title: 'Bonus game' }, approval: null });
+    expect(byId.get('rig')).toMatchObject({
+      listName: 'In Progress',
+      assignees: [{ userId: 'u1', name: 'Ana' }],
+      storyPoints: 5,
+      linked: { id: 'story', title: 'Free spins', type: 'USER_STORY' },
+      releaseMode: 'IMMEDIATE',
+      approval: 'po',
+    });
+    // A task without a story falls back to its epic
+    expect(byId.get('sfx')).toMatchObject({ linked: { id: 'epic' }, releaseMode: 'STAGED', approval: 'none' });
+  });
+});
+
+describe('sorting and filtering', () => {
+  const rows = buildTableRows(board);
+  const ids = (list: { card: Card }[]) => list.map((row) => row.card.id);
+
+  it('sorts either way with empty values last', () => {
+    expect(ids(sortTableRows(rows, { key: 'storyPoints', direction: 'asc' }))).toEqual(['sfx', 'rig', 'epic', 'story']);
+    expect(ids(sortTableRows(rows, { key: 'storyPoints', direction: 'desc' }))).toEqual(['rig', 'sfx', 'epic', 'story']);
+    expect(ids(sortTableRows(rows, { key: 'title', direction: 'asc' }))).toEqual(['epic', 'story', 'rig', 'sfx']);
+    expect(nextTableSort(null, 'deadline')).toEqual({ key: 'deadline', direction: 'asc' });
+    expect(nextTableSort({ key: 'deadline', direction: 'asc' }, 'deadline')).toEqual({ key: 'deadline', direction: 'desc' });
+    expect(nextTableSort({ key: 'deadline', direction: 'desc' }, 'deadline')).toBeNull();
+  });
+
+  it('filters by text across columns and by type, list, assignee and tag', () => {
+    expect(ids(filterTableRows(rows, { ...EMPTY_TABLE_FILTERS, query: 'free' }))).toEqual(['story', 'rig']);
+    expect(ids(filterTableRows(rows, { ...EMPTY_TABLE_FILTERS, query: 'animation' }))).toEqual(['rig']);
+    expect(ids(filterTableRows(rows, { ...EMPTY_TABLE_FILTERS, type: 'TASK', listId: 'doing' }))).toEqual(['rig', 'sfx']);
+    expect(ids(filterTableRows(rows, { ...EMPTY_TABLE_FILTERS, assigneeId: UNASSIGNED_FILTER }))).toEqual(['sfx']);
+    expect(ids(filterTableRows(rows, { ...EMPTY_TABLE_FILTERS, tagId: 't-anim' }))).toEqual(['rig']);
+  });
+});
+
+describe('column config', () => {
+  it('drops unknown columns and appends new ones when reading stored config', () => {
+    const config = parseTableColumnConfig({ order: ['tags', 'bogus', 'type', 'tags'], hidden: ['type', 'bogus'] });
+    expect(config.order.slice(0, 3)).toEqual(['tags', 'type', 'list']);
+    expect(config.order).toHaveLength(DEFAULT_TABLE_COLUMN_CONFIG.order.length);
+    expect(config.hidden).toEqual(['type']);
+    expect(parseTableColumnConfig('nonsense')).toBe(DEFAULT_TABLE_COLUMN_CONFIG);
+  });
+
+  it('hides, shows and reorders columns', () => {
+    const hidden = toggleTableColumn(DEFAULT_TABLE_COLUMN_CONFIG, 'type');
+    expect(visibleTableColumns(hidden).map((column) => column.id)).not.toContain('type');
+    expect(toggleTableColumn(hidden, 'type').hidden).toEqual(DEFAULT_TABLE_COLUMN_CONFIG.hidden);
+
+    const moved = moveTableColumn(DEFAULT_TABLE_COLUMN_CONFIG, 'list', -1);
+    expect(moved.order.slice(0, 2)).toEqual(['list', 'type']);
+    expect(moveTableColumn(moved, 'list', -1)).toBe(moved);
+  });
+});
+
+describe('virtualization and selection', () => {
+  it('renders only the rows in view plus overscan', () => {
+    expect(visibleRowRange(0, 400, 40, 5000, 5)).toEqual({ start: 0, end: 15 });
+    expect(visibleRowRange(40_000, 400, 40, 5000, 5)).toEqual({ start: 995, end: 1015 });
+    expect(visibleRowRange(199_800, 400, 40, 5000, 5)).toEqual({ start: 4990, end: 5000 });
+  });
+
+  it('selects ranges in either direction', () => {
+    expect(selectionRange(['a', 'b', 'c', 'd'], 'c', 'a')).toEqual(['a', 'b', 'c']);
+    expect(selectionRange(['a', 'b'], 'gone', 'b')).toEqual(['b']);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_BULK_CARDS,
+  parseBulkCardRequest,
+  planBulkCardChange,
+  shiftDeadline,
+  type BulkPlanContext,
+} from '../bulk-card-operations';
+
+describe('parseBulkCardRequest', () => {
+  it('accepts a combination of operations and de-duplicates ids', () => {
+    const result = parseBulkCardRequest({
+      cardIds: ['a', 'b', 'a'],
+      operations: { listId: 'doing', assignUserId: 'u1', addTagIds: ['t1'], storyPoints: 3, deadlineShiftDays: -2 },
+    });
+    expect(result).toEqual({
+      value: {
+        cardIds: ['a', 'b'],
+        operations: { listId: 'doing', assignUserId: 'u1', addTagIds: ['t1'], storyPoints: 3, deadlineShiftDays: -2 },
+      },
+    });
+  });
+
+  it('rejects empty, oversized and conflicting requests', () => {
+    const tooMany = Array.from({ length: MAX_BULK_CARDS + 1 }, (_, i) => `c${i}`);
+    expect(parseBulkCardRequest({ cardIds: [], operations: { archive: true } }).error).toBeDefined();
+    expect(parseBulkCardRequest({ cardIds: tooMany, operations: { archive: true } }).error).toMatch(/more than/);
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: {} }).error).toBe('No operations given');
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: { deadlineShiftDays: 0 } }).error).toBe('No operations given');
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: { archive: true, listId: 'x' } }).error).toMatch(/archive/);
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: { listId: 'x', releaseMode: 'IMMEDIATE' } }).error).toBeDefined();
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: { releaseMode: 'STAGED' } }).error).toMatch(/stagingListId/);
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: { storyPoints: 1.5 } }).error).toBeDefined();
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: { addTagIds: ['t'], removeTagIds: ['t'] } }).error).toBeDefined();
+  });
+
+  it('allows clearing story points and story links', () => {
+    expect(parseBulkCardRequest({ cardIds: ['a'], operations: { storyPoints: null, linkedUserStoryId: null } }).value?.operations)
+      .toEqual({ storyPoints: null, linkedUserStoryId: null });
+  });
+});
+
+describe('shiftDeadline', () => {
+  it('keeps plain dates plain and shifts timestamps by whole days', () => {
+    expect(shiftDeadline('2026-02-27', 3)).toBe('2026-03-02');
+    expect(shiftDeadline('2026-03-10T15:00:00.000Z', -10)).toBe('2026-02-28T15:00:00.000Z');
+    expect(shiftDeadline('not a date', 1)).toBeNull();
+  });
+});
+
+describe('planBulkCardChange', () => {
+  const context: BulkPlanContext = {
+    now: new Date('2026-03-04T10:00:00.000Z'),
+    taskListIds: new Set(['backlog', 'doing']),
+    defaultReleaseTargetListId: 'backlog',
+    stagingList: { id: 'sprint-2', startDate: new Date(2026, 2, 16) },
+  };
+  const task = (listId: string, taskData: Record<string, unknown>) => ({ id: 'task', type: 'TASK' as const, listId, taskData });
+
+  it('updates task fields and leaves other card types to move only', () => {
+    const operations = { listId: 'doing', storyPoints: 5, deadlineShiftDays: 1 };
+    expect(planBulkCardChange(task('backlog', { storyPoints: 2, deadline: '2026-03-10' }), operations, context)).toEqual({
+      cardId: 'task',
+      listId: 'doing',
+      taskData: { storyPoints: 5, deadline: '2026-03-11' },
+    });
+    expect(planBulkCardChange({ id: 'story', type: 'USER_STORY', listId: 'doing', taskData: null }, operations, context))
+      .toEqual({ cardId: 'story' });
+  });
+
+  it('releases staged tasks to their target list', () => {
+    const staged = task('sprint-2', { releaseMode: 'STAGED', releaseTargetListId: 'doing', releasedAt: null });
+    const plan = planBulkCardChange(staged, { releaseMode: 'IMMEDIATE' }, context);
+    expect(plan.listId).toBe('doing');
+    expect(plan.taskData).toMatchObject({ releaseMode: 'IMMEDIATE', releasedAt: context.now.toISOString() });
+    // Tasks that are not staged are left alone
+    expect(planBulkCardChange(task('doing', {}), { releaseMode: 'IMMEDIATE' }, context)).toEqual({ cardId: 'task' });
+  });
+
+  it('stages tasks in the planning list, releasing back to where they came from', () => {
+    const plan = planBulkCardChange(task('doing', {}), { releaseMode: 'STAGED', stagingListId: 'sprint-2' }, context);
+    expect(plan.listId).toBe('sprint-2');
+    expect(plan.taskData).toMatchObject({ releaseMode: 'STAGED', stagedFromPlanningListId: 'sprint-2', releaseTargetListId: 'doing', releasedAt: null });
+    expect(new Date(plan.taskData!.scheduledReleaseDate as string).getDay()).toBe(5);
+  });
+});
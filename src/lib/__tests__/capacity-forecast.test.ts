@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { computeCapacityForecast, type CapacityPhase } from '../capacity-forecast';
+import { createBusinessCalendar, withLeave } from '../holiday-calendar';
+
+const concept: CapacityPhase = {
+  listId: 'concept',
+  name: 'Concept',
+  phase: 'CONCEPT',
+  startDate: new Date(2025, 5, 2),
+  endDate: new Date(2025, 5, 13),
+  durationWeeks: 2,
+};
+const production: CapacityPhase = {
+  listId: 'production',
+  name: 'Production',
+  phase: 'PRODUCTION',
+  startDate: new Date(2025, 5, 16),
+  endDate: new Date(2025, 6, 4),
+  durationWeeks: 3,
+};
+
+const seniorityByUser = new Map([
+  ['ana', 'SENIOR' as const],
+  ['bo', 'JUNIOR' as const],
+  ['cy', null],
+]);
+
+function forecast(overrides: Partial<Parameters<typeof computeCapacityForecast>[0]> = {}) {
+  return computeCapacityForecast({
+    phases: [production, concept],
+    tasks: [
+      { phaseListId: 'concept', storyPoints: 8, done: true },
+      { phaseListId: 'concept', storyPoints: 5, done: false },
+      { phaseListId: 'production', storyPoints: 40, done: false },
+      { phaseListId: 'production', storyPoints: 30, done: false },
+      { phaseListId: 'production', storyPoints: null, done: false },
+    ],
+    availability: [
+      { userId: 'ana', weekStart: new Date(2025, 5, 16), dedication: 100 },
+      { userId: 'bo', weekStart: new Date(2025, 5, 16), dedication: 50 },
+      { userId: 'ana', weekStart: new Date(2025, 5, 23), dedication: 50 },
+      { userId: 'cy', weekStart: new Date(2025, 5, 30), dedication: 100 },
+    ],
+    seniorityByUser,
+    seniorityConfigs: [],
+    now: new Date(2025, 5, 11),
+    ...overrides,
+  });
+}
+
+describe('computeCapacityForecast', () => {
+  it('turns dedication into points with the seniority expectation', () => {
+    const result = forecast();
+    const phase = result.phases.find((candidate) => candidate.listId === 'production')!;
+
+    expect(phase.weeks.map((week) => week.capacity)).toEqual([25, 10, 15]);
+    expect(phase.remainingCapacity).toBe(50);
+    expect(phase.remainingPoints).toBe(70);
+    expect(phase.unestimatedTasks).toBe(1);
+  });
+
+  it('flags phases that cannot finish and prices the gap in dedication-weeks', () => {
+    const phase = forecast().phases.find((candidate) => candidate.listId === 'production')!;
+
+    expect(phase.status).toBe('short');
+    expect(phase.shortfallPoints).toBe(20);
+    // 50 points over 3 full-time weeks booked
+    expect(phase.extraDedicationWeeks).toBe(1.2);
+    expect(phase.staffedWeeks).toBe(5);
+  });
+
+  it('marks finished and past phases', () => {
+    const result = forecast({ now: new Date(2025, 5, 18) });
+
+    expect(result.phases.map((phase) => [phase.listId, phase.status])).toEqual([
+      ['concept', 'overdue'],
+      ['production', 'short'],
+    ]);
+    // The week already under way still counts
+    expect(result.phases[1].remainingCapacity).toBe(50);
+
+    const done = forecast({
+      tasks: [{ phaseListId: 'concept', storyPoints: 8, done: true }],
+      now: new Date(2025, 5, 18),
+    });
+    expect(done.phases[0].status).toBe('done');
+  });
+
+  it('applies admin overrides of the expected points', () => {
+    const result = forecast({ seniorityConfigs: [{ seniority: 'SENIOR', expectedPointsPerWeek: 40 }] });
+
+    expect(result.pointsPerWeek).toEqual({ JUNIOR: 10, MID: 15, SENIOR: 40 });
+    expect(result.phases[1].status).toBe('ok');
+  });
+
+  it('splits a week between phases that run at the same time', () => {
+    const art: CapacityPhase = { ...production, listId: 'art', name: 'Art', phase: 'PRODUCTION' };
+    const result = forecast({
+      phases: [production, art, concept],
+      tasks: [
+        { phaseListId: 'production', storyPoints: 40, done: false },
+        { phaseListId: 'art', storyPoints: 10, done: false },
+        { phaseListId: 'concept', storyPoints: 5, done: true },
+      ],
+    });
+
+    for (const listId of ['production', 'art']) {
+      const phase = result.phases.find((candidate) => candidate.listId === listId)!;
+      expect(phase.weeks.map((week) => week.capacity)).toEqual([12.5, 5, 7.5]);
+      expect(phase.remainingCapacity).toBe(25);
+    }
+
+    // A finished phase no longer takes its share
+    const finished = forecast({
+      phases: [production, art],
+      tasks: [
+        { phaseListId: 'production', storyPoints: 40, done: false },
+        { phaseListId: 'art', storyPoints: 10, done: true },
+      ],
+    });
+    expect(finished.phases.find((phase) => phase.listId === 'production')!.remainingCapacity).toBe(50);
+  });
+
+  it('leaves out studio holidays and leave', () => {
+    // Corpus Christi on Thursday Jun 19; Bo is also off on Friday
+    const studio = createBusinessCalendar(['2025-06-19']);
+    const result = forecast({
+      calendarByUser: new Map([
+        ['ana', studio],
+        ['bo', withLeave(studio, [{ startDate: new Date('2025-06-20T00:00:00.000Z'), endDate: new Date('2025-06-20T00:00:00.000Z') }])],
+      ]),
+    });
+    const phase = result.phases.find((candidate) => candidate.listId === 'production')!;
+
+    // Ana 20 × 4/5 + Bo 5 × 3/5
+    expect(phase.weeks[0].capacity).toBe(19);
+    expect(phase.weeks.slice(1).map((week) => week.capacity)).toEqual([10, 15]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, parseCsvColumnMapping, planCsvImport, suggestCsvMapping, type CsvImportContext } from '../csv-import';
+
+const context: CsvImportContext = {
+  lists: [
+    { id: 'l-todo', name: 'To Do', viewType: 'TASKS' },
+    { id: 'l-backlog', name: 'Backlog', viewType: 'PLANNING' },
+  ],
+  members: [
+    { userId: 'u-ana', email: 'ana@studio.test', name: 'Ana Lima' },
+    { userId: 'u-bo', email: 'bo@studio.test', name: 'Sam' },
+    { userId: 'u-sam', email: 'sam@studio.test', name: 'Sam' },
+  ],
+  tags: [{ id: 't-art', name: 'Art' }],
+};
+
+describe('parseCsv', () => {
+  it('handles quotes, embedded newlines, CRLF and a BOM', () => {
+    const text = '﻿Title,Notes\r\n"Rig, dragon","Line 1\nLine ""2"""\r\n\r\nPaint,\r\n';
+    expect(parseCsv(text)).toEqual([
+      ['Title', 'Notes'],
+      ['Rig, dragon', 'Line 1\nLine "2"'],
+      ['Paint', ''],
+    ]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('Title;Points\nRig;3')).toEqual([['Title', 'Points'], ['Rig', '3']]);
+    expect(parseCsv('Title\tPoints\nRig\t3')).toEqual([['Title', 'Points'], ['Rig', '3']]);
+  });
+});
+
+describe('column mapping', () => {
+  it('suggests fields from common header names', () => {
+    expect(suggestCsvMapping(['Summary', 'Status', 'Story Points', 'Due Date', 'Assigned To', 'Labels', 'Other'])).toEqual({
+      title: 'Summary',
+      list: 'Status',
+      storyPoints: 'Story Points',
+      deadline: 'Due Date',
+      assignee: 'Assigned To',
+      tags: 'Labels',
+    });
+  });
+
+  it('requires a title column and known headers', () => {
+    expect(parseCsvColumnMapping({ list: 'Status' }, ['Status']).error).toMatch(/titles/);
+    expect(parseCsvColumnMapping({ title: 'Nope' }, ['Title']).error).toMatch(/Column not found/);
+    expect(parseCsvColumnMapping({ title: 'Title', list: '' }, ['Title']).value).toEqual({ title: 'Title' });
+  });
+});
+
+describe('planCsvImport', () => {
+  const headers = ['Title', 'List', 'Type', 'Points', 'Due', 'Owner', 'Tags'];
+  const mapping = { title: 'Title', list: 'List', type: 'Type', storyPoints: 'Points', deadline: 'Due', assignee: 'Owner', tags: 'Tags' };
+
+  it('drafts cards into existing and new lists', () => {
+    const plan = planCsvImport([
+      ['Rig dragon', 'to do', '', '3', '2026-02-06', 'ana@studio.test', 'Art; Sound'],
+      ['Free spins', 'Backlog', '', '5', '', 'Ana Lima', ''],
+      ['Reel polish', 'Polish', 'task', '', '03/01/2026', 'Sam', ''],
+      ['Bonus epic', 'Epics', 'Epic', '', '', '', ''],
+    ], headers, mapping, context);
+
+    expect(plan.errors).toEqual([]);
+    expect(plan.cards.map((card) => [card.title, card.listId, card.listName, card.type])).toEqual([
+      ['Rig dragon', 'l-todo', 'To Do', 'TASK'],
+      ['Free spins', 'l-backlog', 'Backlog', 'USER_STORY'],
+      ['Reel polish', null, 'Polish', 'TASK'],
+      ['Bonus epic', null, 'Epics', 'EPIC'],
+    ]);
+    expect(plan.cards[0]).toMatchObject({ storyPoints: 3, deadline: '2026-02-06', assigneeId: 'u-ana', tagIds: ['t-art'] });
+    expect(plan.cards[1]).toMatchObject({ storyPoints: null, assigneeId: 'u-ana' });
+    expect(plan.cards[2]).toMatchObject({ deadline: '2026-03-01', assigneeId: null });
+    expect(plan.newLists).toEqual([
+      { name: 'Polish', viewType: 'TASKS' },
+      { name: 'Epics', viewType: 'PLANNING' },
+    ]);
+    expect(plan.warnings).toEqual([
+      'No board member matches, left unassigned: Sam',
+      'Tags not found, left off: Sound',
+    ]);
+  });
+
+  it('reports rows it cannot import by spreadsheet row number', () => {
+    const plan = planCsvImport([
+      ['', 'To Do', '', '', '', '', ''],
+      ['Rig', 'To Do', 'Bug', '', '', '', ''],
+      ['Rig', 'Backlog', 'Task', '', '', '', ''],
+      ['Rig', 'To Do', '', 'lots', '', '', ''],
+      ['Rig', 'To Do', '', '', 'someday', '', ''],
+      ['Rig', '', '', '', '', '', ''],
+    ], headers, mapping, context);
+
+    expect(plan.errors).toEqual([
+      { row: 2, message: 'Title is empty' },
+      { row: 3, message: 'Unknown card type "Bug"' },
+      { row: 4, message: 'Tasks go in Tasks lists, and "Backlog" is a Planning list' },
+      { row: 5, message: 'Story points "lots" is not a number' },
+      { row: 6, message: 'Deadline "someday" is not a date' },
+    ]);
+    expect(plan.cards).toEqual([expect.objectContaining({ row: 7, listId: 'l-todo' })]);
+  });
+});
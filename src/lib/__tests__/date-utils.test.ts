@@ -10,6 +10,11 @@ import {
   moveBlockByWeeks,
   formatDateRange,
   formatMonthYear,
+  getPreviousFriday,
+  getWorkingDaysInWeek,
+  isBusinessDay,
+  snapToWorkingWeek,
+  type BusinessCalendar,
 } from '../date-utils';
 
 describe('date-utils', () => {
@@ -266,6 +271,52 @@ describe('date-utils', () => {
     });
   });
 
+  describe('with a holiday calendar', () => {
+    // Midsummer Eve is Fri Jun 20, 2025; the studio is closed Mon Dec 22 - Fri Dec 26, 2025
+    const calendar: BusinessCalendar = {
+      holidays: new Set(['2025-06-20', '2025-12-22', '2025-12-23', '2025-12-24', '2025-12-25', '2025-12-26']),
+    };
+
+    it('treats holidays as non-working days', () => {
+      expect(isBusinessDay(new Date(2025, 5, 20))).toBe(true);
+      expect(isBusinessDay(new Date(2025, 5, 20), calendar)).toBe(false);
+      expect(getWorkingDaysInWeek(new Date(2025, 5, 16), calendar)).toBe(4);
+      expect(getBusinessDaysBetween(new Date(2025, 5, 16), new Date(2025, 5, 22), calendar)).toBe(4);
+    });
+
+    it('skips holidays when adding business days', () => {
+      // Thu Jun 19 + 1 -> Mon Jun 23, over Midsummer Eve and the weekend
+      const result = addBusinessDays(new Date(2025, 5, 19), 1, calendar);
+      expect(result.getMonth()).toBe(5);
+      expect(result.getDate()).toBe(23);
+    });
+
+    it('snaps past weeks with no working days', () => {
+      const result = snapToWorkingWeek(new Date(2025, 11, 23), calendar);
+      expect(result.getDate()).toBe(29);
+      // A short week still holds a block
+      expect(snapToWorkingWeek(new Date(2025, 5, 18), calendar).getDate()).toBe(16);
+    });
+
+    it('skips closed weeks in the direction of the move', () => {
+      const forward = moveBlockDates(new Date(2025, 11, 15), 1, calendar);
+      expect(forward.newStartDate.getDate()).toBe(29);
+      expect(forward.newEndDate.getFullYear()).toBe(2026);
+      expect(forward.newEndDate.getDate()).toBe(2);
+
+      const backward = moveBlockDates(new Date(2025, 11, 29), -1, calendar);
+      expect(backward.newStartDate.getDate()).toBe(15);
+    });
+
+    it('moves the release Friday back to the last working day', () => {
+      // Staging list starting Mon Jun 23 releases Thu Jun 19 instead of Midsummer Eve
+      expect(getPreviousFriday(new Date(2025, 5, 23)).getDate()).toBe(20);
+      expect(getPreviousFriday(new Date(2025, 5, 23), calendar).getDate()).toBe(19);
+      // A fully closed week falls back to its Friday
+      expect(getPreviousFriday(new Date(2025, 11, 29), calendar).getDate()).toBe(26);
+    });
+  });
+
   describe('moveBlockByWeeks', () => {
     it('moves and snaps to Monday', () => {
       const start = new Date(2025, 0, 6);
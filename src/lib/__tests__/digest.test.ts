@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationPreference: { findMany: vi.fn(), updateMany: vi.fn() },
+    notification: { findMany: vi.fn(), count: vi.fn() },
+    card: { findMany: vi.fn() },
+    badgeAward: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/quality-review-api', () => ({
+  getQualityAccessContext: vi.fn(),
+  listPendingEvaluations: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { getQualityAccessContext } from '@/lib/quality-review-api';
+import { setMailTransport, type MailMessage } from '@/lib/mail/transport';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../notification-preferences';
+import { digestWindowStart, isDigestDue, sendDigests } from '../digest';
+import { isDigestEmpty, renderDigest, type DigestContent } from '../digest-render';
+
+type Mock = ReturnType<typeof vi.fn>;
+const mockedPrisma = prisma as unknown as {
+  notificationPreference: { findMany: Mock; updateMany: Mock };
+  notification: { findMany: Mock; count: Mock };
+  card: { findMany: Mock };
+  badgeAward: { findMany: Mock };
+};
+const mockedAccess = getQualityAccessContext as unknown as Mock;
+
+// A Monday
+const now = new Date('2026-02-09T06:45:00.000Z');
+const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+
+const emptyContent: DigestContent = {
+  userId: 'user-1',
+  userName: 'Ana',
+  email: 'ana@example.com',
+  period: 'daily',
+  notifications: [],
+  moreNotifications: 0,
+  dueCards: [],
+  pendingEvaluations: [],
+  badges: [],
+};
+
+describe('isDigestDue', () => {
+  const daily = { ...DEFAULT_NOTIFICATION_PREFERENCES, digestFrequency: 'daily' as const };
+  const weekly = { ...DEFAULT_NOTIFICATION_PREFERENCES, digestFrequency: 'weekly' as const };
+
+  it('sends daily digests once a day, tolerating early runs', () => {
+    expect(isDigestDue(daily, null, now)).toBe(true);
+    expect(isDigestDue(daily, hoursAgo(23), now)).toBe(true);
+    expect(isDigestDue(daily, hoursAgo(2), now)).toBe(false);
+    expect(isDigestDue(DEFAULT_NOTIFICATION_PREFERENCES, null, now)).toBe(false);
+  });
+
+  it('sends weekly digests on Monday in the user time zone', () => {
+    expect(isDigestDue(weekly, hoursAgo(7 * 24), now)).toBe(true);
+    expect(isDigestDue(weekly, hoursAgo(3 * 24), now)).toBe(false);
+    // Still Sunday evening in Los Angeles
+    expect(isDigestDue({ ...weekly, timeZone: 'America/Los_Angeles' }, null, now)).toBe(false);
+  });
+
+  it('covers the time since the last digest, at most one period back', () => {
+    expect(digestWindowStart('daily', hoursAgo(20), now)).toEqual(hoursAgo(20));
+    expect(digestWindowStart('daily', hoursAgo(72), now)).toEqual(hoursAgo(24));
+    expect(digestWindowStart('weekly', null, now)).toEqual(hoursAgo(7 * 24));
+  });
+});
+
+describe('renderDigest', () => {
+  it('renders matching text and escaped HTML with deep links', () => {
+    const content: DigestContent = {
+      ...emptyContent,
+      notifications: [{
+        title: 'Bo mentioned you',
+        message: 'On <Intro> cutscene',
+        createdAt: hoursAgo(3),
+        boardId: 'board-1',
+        cardId: 'card-2',
+      }],
+      moreNotifications: 4,
+      dueCards: [{
+        cardId: 'card-1',
+        title: 'Rig the dragon',
+        boardId: 'board-1',
+        boardName: 'Spring',
+        deadline: new Date('2026-02-08T12:00:00.000Z'),
+      }],
+      badges: [{ name: 'Streak', description: 'Five weeks on time', awardedAt: hoursAgo(5) }],
+    };
+
+    const message = renderDigest(content, 'https://fallo.test', now);
+
+    expect(message.to).toBe('ana@example.com');
+    expect(message.subject).toBe('Your Fallo day, Mon 9 Feb: 1 due, 5 unread');
+    expect(message.text).toContain('YOUR TASKS DUE SOON\n- Rig the dragon\n  Overdue since Sun 8 Feb · Spring');
+    expect(message.text).toContain('https://fallo.test/boards/board-1?card=card-2');
+    expect(message.text).toContain('And 4 more in the app.');
+    expect(message.text).toContain('NEW BADGES\n- Streak');
+    expect(message.html).toContain('On &lt;Intro&gt; cutscene');
+    expect(message.html).not.toContain('<Intro>');
+    expect(message.html).toContain('href="https://fallo.test/users/user-1"');
+  });
+
+  it('treats a digest with no items as empty', () => {
+    expect(isDigestEmpty(emptyContent)).toBe(true);
+    expect(isDigestEmpty({ ...emptyContent, badges: [{ name: 'A', description: '', awardedAt: now }] })).toBe(false);
+  });
+});
+
+describe('sendDigests', () => {
+  const sent: MailMessage[] = [];
+
+  const preferenceRow = (overrides: Record<string, unknown>) => ({
+    id: 'pref-1',
+    userId: 'user-1',
+    channels: {},
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timeZone: 'UTC',
+    muteWeekends: false,
+    digestFrequency: 'daily',
+    lastDigestSentAt: null,
+    user: { id: 'user-1', name: 'Ana', email: 'ana@example.com' },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sent.length = 0;
+    setMailTransport({ name: 'test', send: async (message) => { sent.push(message); } });
+    mockedPrisma.notification.findMany.mockResolvedValue([]);
+    mockedPrisma.notification.count.mockResolvedValue(0);
+    mockedPrisma.card.findMany.mockResolvedValue([]);
+    mockedPrisma.badgeAward.findMany.mockResolvedValue([]);
+    mockedAccess.mockResolvedValue(null);
+    mockedPrisma.notificationPreference.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  afterEach(() => {
+    setMailTransport(null);
+  });
+
+  it('sends due digests, skips empty ones and claims before sending', async () => {
+    mockedPrisma.notificationPreference.findMany.mockResolvedValue([
+      preferenceRow({}),
+      preferenceRow({ id: 'pref-2', userId: 'user-2', lastDigestSentAt: hoursAgo(1), user: { id: 'user-2', name: null, email: 'bo@example.com' } }),
+    ]);
+    mockedPrisma.card.findMany.mockResolvedValue([{
+      id: 'card-1',
+      title: 'Rig the dragon',
+      taskData: { deadline: '2026-02-10T12:00:00.000Z' },
+      list: { id: 'list-1', name: 'In Progress', phase: null, viewType: 'TASKS', board: { id: 'board-1', name: 'Spring' } },
+    }]);
+
+    const result = await sendDigests({ now });
+
+    expect(result).toEqual({ usersChecked: 2, digestsSent: 1, skippedNotDue: 1, skippedEmpty: 0, failed: 0 });
+    expect(mockedPrisma.notificationPreference.updateMany).toHaveBeenCalledWith({
+      where: { id: 'pref-1', lastDigestSentAt: null },
+      data: { lastDigestSentAt: now },
+    });
+    expect(sent).toHaveLength(1);
+    expect(sent[0].text).toContain('Rig the dragon');
+  });
+
+  it('does not send when another run already claimed the digest', async () => {
+    mockedPrisma.notificationPreference.findMany.mockResolvedValue([preferenceRow({})]);
+    mockedPrisma.badgeAward.findMany.mockResolvedValue([
+      { awardedAt: hoursAgo(2), badgeDefinition: { name: 'Streak', description: 'Five weeks on time' } },
+    ]);
+    mockedPrisma.notificationPreference.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await sendDigests({ now });
+
+    expect(result.digestsSent).toBe(0);
+    expect(sent).toHaveLength(0);
+  });
+});
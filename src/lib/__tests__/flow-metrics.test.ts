@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cardListIntervals,
+  computeFlowMetrics,
+  percentile,
+  type FlowCard,
+  type FlowList,
+  type FlowMove,
+} from '../flow-metrics';
+
+const day = (n: number, hour = 12) => new Date(Date.UTC(2026, 2, n, hour));
+
+const lists: FlowList[] = [
+  { id: 'todo', name: 'To Do', position: 0, viewType: 'TASKS', phase: null, color: null },
+  { id: 'doing', name: 'In Progress', position: 1, viewType: 'TASKS', phase: null, color: null },
+  { id: 'review', name: 'Review', position: 2, viewType: 'TASKS', phase: null, color: null },
+  { id: 'done', name: 'Done', position: 3, viewType: 'TASKS', phase: null, color: null },
+  { id: 'sprint', name: 'Sprint 1', position: 0, viewType: 'PLANNING', phase: 'PRODUCTION', color: null },
+];
+
+function card(overrides: Partial<FlowCard> & Pick<FlowCard, 'id'>): FlowCard {
+  return {
+    title: `Card ${overrides.id}`,
+    listId: 'todo',
+    storyPoints: null,
+    tagIds: [],
+    createdAt: day(1),
+    completedAt: null,
+    archivedAt: null,
+    ...overrides,
+  };
+}
+
+const move = (cardId: string, fromListId: string, toListId: string, at: Date): FlowMove => ({ cardId, fromListId, toListId, at });
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    expect(percentile([], 50)).toBeNull();
+    expect(percentile([4, 1, 3, 2], 50)).toBe(2);
+    expect(percentile([1, 2, 3, 4, 5, 6, 7, 8, 9, 10], 85)).toBe(9);
+    expect(percentile([7], 95)).toBe(7);
+  });
+});
+
+describe('cardListIntervals', () => {
+  it('starts in the first move source and follows each move', () => {
+    const intervals = cardListIntervals(card({ id: 'a', listId: 'done', completedAt: day(5), archivedAt: day(6) }), [
+      move('a', 'doing', 'review', day(3)),
+      move('a', 'todo', 'doing', day(2)),
+      move('a', 'review', 'done', day(5)),
+    ]);
+
+    expect(intervals).toEqual([
+      { listId: 'todo', start: day(1), end: day(2) },
+      { listId: 'doing', start: day(2), end: day(3) },
+      { listId: 'review', start: day(3), end: day(5) },
+      // Completed cards keep counting after being archived
+      { listId: 'done', start: day(5), end: null },
+    ]);
+  });
+
+  it('drops cards archived without being completed', () => {
+    expect(cardListIntervals(card({ id: 'b', archivedAt: day(4) }), [])).toEqual([
+      { listId: 'todo', start: day(1), end: day(4) },
+    ]);
+  });
+});
+
+describe('computeFlowMetrics', () => {
+  const cards = [
+    card({ id: 'a', listId: 'done', storyPoints: 3, tagIds: ['art'], completedAt: day(5) }),
+    card({ id: 'b', listId: 'review', storyPoints: 5, createdAt: day(2) }),
+    card({ id: 'c', listId: 'done', storyPoints: 3, createdAt: day(2), completedAt: day(4) }),
+  ];
+  const moves = [
+    move('a', 'todo', 'doing', day(2)),
+    move('a', 'doing', 'review', day(3)),
+    move('a', 'review', 'done', day(5)),
+    move('b', 'todo', 'review', day(3)),
+    move('c', 'todo', 'done', day(4)),
+  ];
+  const input = {
+    lists,
+    cards,
+    moves,
+    timeLogs: [{ cardId: 'c', listId: 'doing', startTime: day(3), endTime: day(3, 18) }],
+    from: day(1, 0),
+    to: day(6),
+    now: day(6),
+  };
+
+  it('counts cards per Tasks list at the end of each day', () => {
+    const metrics = computeFlowMetrics(input);
+
+    expect(metrics.lists.map((list) => [list.id, list.isDone])).toEqual([
+      ['todo', false], ['doing', false], ['review', false], ['done', true],
+    ]);
+    expect(metrics.cumulativeFlow.map((point) => point.date)).toEqual([
+      '2026-03-01', '2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06',
+    ]);
+    expect(metrics.cumulativeFlow[2].counts).toEqual({ todo: 1, doing: 0, review: 2, done: 0 });
+    expect(metrics.cumulativeFlow[5].counts).toEqual({ todo: 0, doing: 0, review: 1, done: 2 });
+  });
+
+  it('measures cycle time from in-progress lists or time logs, lead time from creation', () => {
+    const metrics = computeFlowMetrics(input);
+
+    expect(metrics.leadTime.points.map((point) => [point.cardId, point.days])).toEqual([['c', 2], ['a', 4]]);
+    // c never sat in an in-progress list, but its time log marks when work started
+    expect(metrics.cycleTime.points.map((point) => [point.cardId, point.days])).toEqual([['c', 1], ['a', 3]]);
+    expect(metrics.cycleTime.summary).toEqual({ count: 2, average: 2, p50: 1, p85: 3, p95: 3 });
+  });
+
+  it('averages finished visits per list and counts where cards sit now', () => {
+    const review = computeFlowMetrics(input).timeInList.find((row) => row.listId === 'review');
+    const doing = computeFlowMetrics(input).timeInList.find((row) => row.listId === 'doing');
+
+    expect(review).toEqual({ listId: 'review', visits: 1, averageDays: 2, p85Days: 2, current: 1, loggedHours: 0 });
+    expect(doing).toMatchObject({ visits: 1, averageDays: 1, current: 0, loggedHours: 6 });
+  });
+
+  it('filters by tag and story points', () => {
+    expect(computeFlowMetrics({ ...input, filters: { tagId: 'art' } }).leadTime.points.map((point) => point.cardId)).toEqual(['a']);
+    expect(computeFlowMetrics({ ...input, filters: { storyPoints: [5] } }).cumulativeFlow[5].counts).toEqual({
+      todo: 0, doing: 0, review: 1, done: 0,
+    });
+  });
+});
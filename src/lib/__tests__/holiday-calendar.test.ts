@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBusinessCalendar,
+  memberBusinessCalendar,
+  parseDayKey,
+  parseIcsHolidays,
+  parseLeaveInput,
+  suggestedDedication,
+  withLeave,
+} from '../holiday-calendar';
+
+const ICS = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'UID:midsummer-2025@example.com',
+  'DTSTART;VALUE=DATE:20250620',
+  'DTEND;VALUE=DATE:20250621',
+  'SUMMARY:Midsummer Eve',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:christmas@example.com',
+  'DTSTART;VALUE=DATE:20251224',
+  'DTEND;VALUE=DATE:20251227',
+  'SUMMARY:Christmas\\, Boxing Day and',
+  '  Eve',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'DTSTART;VALUE=DATE:20250606',
+  'RRULE:FREQ=YEARLY;COUNT=2',
+  'SUMMARY:National Day',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'SUMMARY:No date',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+describe('parseIcsHolidays', () => {
+  it('reads all-day events, multi-day ranges and yearly rules', () => {
+    const result = parseIcsHolidays(ICS);
+
+    expect(result.error).toBeUndefined();
+    expect(result.value!.skipped).toBe(1);
+    expect(result.value!.holidays).toEqual([
+      { date: '2025-06-06', name: 'National Day', uid: null },
+      { date: '2025-06-20', name: 'Midsummer Eve', uid: 'midsummer-2025@example.com' },
+      // DTEND is exclusive, and the folded summary is joined back together
+      { date: '2025-12-24', name: 'Christmas, Boxing Day and Eve', uid: 'christmas@example.com' },
+      { date: '2025-12-25', name: 'Christmas, Boxing Day and Eve', uid: 'christmas@example.com' },
+      { date: '2025-12-26', name: 'Christmas, Boxing Day and Eve', uid: 'christmas@example.com' },
+      { date: '2026-06-06', name: 'National Day', uid: null },
+    ]);
+  });
+
+  it('rejects files that are not calendars', () => {
+    expect(parseIcsHolidays('title,date\nfoo,2025-01-01').error).toMatch(/iCalendar/);
+  });
+});
+
+describe('parseLeaveInput', () => {
+  it('defaults to a single vacation day', () => {
+    expect(parseLeaveInput({ startDate: '2025-07-07' }).value).toEqual({
+      startDate: parseDayKey('2025-07-07'),
+      endDate: parseDayKey('2025-07-07'),
+      type: 'VACATION',
+      note: null,
+    });
+  });
+
+  it('rejects bad dates and types', () => {
+    expect(parseLeaveInput({ startDate: '2025-02-30' }).error).toMatch(/YYYY-MM-DD/);
+    expect(parseLeaveInput({ startDate: '2025-07-10', endDate: '2025-07-07' }).error).toMatch(/before/);
+    expect(parseLeaveInput({ startDate: '2025-07-07', type: 'SABBATICAL' }).error).toMatch(/type/);
+  });
+});
+
+describe('suggestedDedication', () => {
+  const studio = createBusinessCalendar(['2025-06-20']);
+  const monday = new Date(2025, 5, 16);
+
+  it('rounds the working share of the week to the nearest option', () => {
+    expect(suggestedDedication(monday, null)).toBe(100);
+    expect(suggestedDedication(monday, studio)).toBe(75);
+    expect(suggestedDedication(monday, withLeave(studio, [
+      { startDate: parseDayKey('2025-06-16')!, endDate: parseDayKey('2025-06-17')! },
+    ]))).toBe(33);
+  });
+
+  it("only counts a member's own leave", () => {
+    const board = {
+      holidays: [{ date: '2025-06-20', name: 'Midsummer Eve' }],
+      leave: [
+        { userId: 'ana', startDate: '2025-06-16', endDate: '2025-06-19' },
+        { userId: 'bo', startDate: '2025-06-16', endDate: '2025-06-16' },
+      ],
+    };
+
+    expect(suggestedDedication(monday, memberBusinessCalendar(board, 'ana'))).toBe(0);
+    expect(suggestedDedication(monday, memberBusinessCalendar(board, 'bo'))).toBe(50);
+    expect(suggestedDedication(monday, memberBusinessCalendar(board, 'cy'))).toBe(75);
+  });
+});
@@ -0,0 +1,131 @@
+import net from 'node:net';
+import { describe, it, expect, afterEach } from 'vitest';
+import { buildMimeMessage, encodeHeader, mailAddress } from '../mail/message';
+import { dotStuff, SmtpError, SmtpMailTransport } from '../mail/smtp-transport';
+
+const message = {
+  to: 'Ana <ana@example.com>',
+  subject: 'Résumé of your day',
+  text: 'Hello\n.hidden line',
+  html: '<p>Hello</p>',
+};
+
+function decodePart(mime: string, contentType: string): string {
+  const start = mime.indexOf(`Content-Type: ${contentType}`);
+  const body = mime.slice(start).split('\r\n\r\n')[1].split('\r\n--')[0];
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('buildMimeMessage', () => {
+  it('builds a multipart message with encoded headers and both bodies', () => {
+    const mime = buildMimeMessage(message, 'Fallo <no-reply@fallo.test>', new Date('2026-02-09T06:45:00.000Z'));
+
+    expect(mime).toContain('Subject: =?UTF-8?B?');
+    expect(mime).toContain('Date: Mon, 09 Feb 2026 06:45:00 GMT');
+    expect(mime).toMatch(/Message-ID: <[^@]+@fallo\.test>/);
+    expect(mime.endsWith('--\r\n')).toBe(true);
+    expect(decodePart(mime, 'text/plain')).toBe(message.text);
+    expect(decodePart(mime, 'text/html')).toBe(message.html);
+  });
+
+  it('leaves ASCII headers alone and extracts bare addresses', () => {
+    expect(encodeHeader('Daily digest')).toBe('Daily digest');
+    expect(mailAddress('Ana <ana@example.com>')).toBe('ana@example.com');
+    expect(mailAddress(' bo@example.com ')).toBe('bo@example.com');
+    expect(dotStuff('.a\r\nb\r\n.c')).toBe('..a\r\nb\r\n..c');
+  });
+});
+
+describe('SmtpMailTransport', () => {
+  let server: net.Server | null = null;
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = null;
+  });
+
+  /** A tiny SMTP server that records commands; `rcptReply` lets a test reject the recipient. */
+  function startServer(rcptReply = '250 OK'): Promise<{ port: number; commands: string[]; data: string[] }> {
+    const commands: string[] = [];
+    const data: string[] = [];
+    server = net.createServer((socket) => {
+      let buffer = '';
+      let inData = false;
+      socket.write('220 test ESMTP\r\n');
+      socket.on('data', (chunk) => {
+        buffer += chunk.toString('utf8');
+        let newline: number;
+        while ((newline = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 2);
+          if (inData) {
+            if (line === '.') {
+              inData = false;
+              socket.write('250 Queued\r\n');
+            } else {
+              data.push(line);
+            }
+            continue;
+          }
+          commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (verb === 'EHLO') socket.write('250-test\r\n250-AUTH PLAIN\r\n250 SIZE 1000000\r\n');
+          else if (verb === 'AUTH') socket.write('235 Authenticated\r\n');
+          else if (verb === 'RCPT') socket.write(`${rcptReply}\r\n`);
+          else if (verb === 'DATA') {
+            inData = true;
+            socket.write('354 Go ahead\r\n');
+          } else if (verb === 'QUIT') socket.end('221 Bye\r\n');
+          else socket.write('250 OK\r\n');
+        }
+      });
+    });
+    return new Promise((resolve) => {
+      server!.listen(0, '127.0.0.1', () => {
+        resolve({ port: (server!.address() as net.AddressInfo).port, commands, data });
+      });
+    });
+  }
+
+  it('authenticates and delivers the message with dot-stuffing', async () => {
+    const { port, commands, data } = await startServer();
+    const transport = new SmtpMailTransport({
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'fallo',
+      password: 'secret',
+      allowInsecureAuth: true,
+    });
+
+    await transport.send({ ...message, text: 'x', html: 'y' }, 'Fallo <no-reply@fallo.test>');
+
+    expect(commands[0]).toMatch(/^EHLO /);
+    expect(commands[1]).toBe(`AUTH PLAIN ${Buffer.from('\0fallo\0secret').toString('base64')}`);
+    expect(commands.slice(2, 5)).toEqual(['MAIL FROM:<no-reply@fallo.test>', 'RCPT TO:<ana@example.com>', 'DATA']);
+    expect(data).toContain('To: Ana <ana@example.com>');
+  });
+
+  it('refuses to send credentials over a connection without STARTTLS', async () => {
+    const { port, commands } = await startServer();
+    const transport = new SmtpMailTransport({ host: '127.0.0.1', port, secure: false, user: 'fallo', password: 'secret' });
+
+    const error = await transport.send(message, 'no-reply@fallo.test').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.message).toContain('refusing to send credentials unencrypted');
+    expect(commands.some((line) => line.startsWith('AUTH'))).toBe(false);
+    expect(commands.some((line) => line.startsWith('MAIL'))).toBe(false);
+  });
+
+  it('fails with the server reply when the recipient is rejected', async () => {
+    const { port } = await startServer('550 No such user');
+    const transport = new SmtpMailTransport({ host: '127.0.0.1', port, secure: false });
+
+    const error = await transport.send(message, 'no-reply@fallo.test').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe(550);
+    expect(error.message).toContain('RCPT failed: 550 No such user');
+  });
+});
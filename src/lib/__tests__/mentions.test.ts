@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { addedMentions, extractMentions, parseStoredMentions, splitMentions } from '../mentions';
+
+const members = [
+  { id: 'u1', name: 'Ann', email: 'ann@studio.test' },
+  { id: 'u2', name: 'Anna Berg', email: 'anna@studio.test' },
+  { id: 'u3', name: null, email: 'sam@studio.test' },
+];
+
+describe('extractMentions', () => {
+  it('matches names with spaces, preferring the longest name', () => {
+    expect(extractMentions('@Anna Berg can you check the reels?', members)).toEqual([
+      { userId: 'u2', name: 'Anna Berg' },
+    ]);
+  });
+
+  it('does not match a name inside a longer word', () => {
+    expect(extractMentions('@Annabel please', members)).toEqual([]);
+    expect(extractMentions('@Ann, please', members)).toEqual([{ userId: 'u1', name: 'Ann' }]);
+  });
+
+  it('is case-insensitive and accepts emails', () => {
+    expect(extractMentions('ping @ann and @sam@studio.test', members)).toEqual([
+      { userId: 'u1', name: 'Ann' },
+      { userId: 'u3', name: 'sam@studio.test' },
+    ]);
+  });
+
+  it('ignores attachment references, emails in text and repeated mentions', () => {
+    expect(extractMentions('see @[Ann] and mail x@Ann', members)).toEqual([]);
+    expect(extractMentions('@Ann @Ann (@Ann)', members)).toEqual([{ userId: 'u1', name: 'Ann' }]);
+  });
+});
+
+describe('splitMentions', () => {
+  it('splits text around stored mentions, keeping the typed case', () => {
+    expect(splitMentions('hi @anna berg and @Ann!', [
+      { userId: 'u1', name: 'Ann' },
+      { userId: 'u2', name: 'Anna Berg' },
+    ])).toEqual([
+      { type: 'text', content: 'hi ' },
+      { type: 'mention', content: '@anna berg', mention: { userId: 'u2', name: 'Anna Berg' } },
+      { type: 'text', content: ' and ' },
+      { type: 'mention', content: '@Ann', mention: { userId: 'u1', name: 'Ann' } },
+      { type: 'text', content: '!' },
+    ]);
+  });
+
+  it('returns the text as is without mentions', () => {
+    expect(splitMentions('@Ann hello', [])).toEqual([{ type: 'text', content: '@Ann hello' }]);
+  });
+});
+
+describe('addedMentions', () => {
+  it('returns only people not mentioned before', () => {
+    expect(addedMentions(
+      [{ userId: 'u1', name: 'Ann' }],
+      [{ userId: 'u1', name: 'Ann' }, { userId: 'u2', name: 'Anna Berg' }]
+    )).toEqual([{ userId: 'u2', name: 'Anna Berg' }]);
+  });
+});
+
+describe('parseStoredMentions', () => {
+  it('drops malformed entries', () => {
+    expect(parseStoredMentions(null)).toEqual([]);
+    expect(parseStoredMentions([{ userId: 'u1', name: 'Ann' }, { userId: 3 }, 'x'])).toEqual([
+      { userId: 'u1', name: 'Ann' },
+    ]);
+  });
+});
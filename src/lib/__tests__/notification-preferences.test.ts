@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  isQuietTime,
+  parseNotificationPreferencesInput,
+  resolveNotificationChannel,
+  toNotificationPreferences,
+} from '../notification-preferences';
+
+const base = DEFAULT_NOTIFICATION_PREFERENCES;
+
+describe('resolveNotificationChannel', () => {
+  it('uses the chosen channel, then the type default, then slack', () => {
+    const preferences = { ...base, channels: { review_requested: 'in_app' as const } };
+    expect(resolveNotificationChannel(preferences, 'review_requested')).toBe('in_app');
+    expect(resolveNotificationChannel(preferences, 'badge_awarded')).toBe('in_app');
+    expect(resolveNotificationChannel(preferences, 'comment_mention')).toBe('slack');
+    expect(resolveNotificationChannel(preferences, 'something_new')).toBe('slack');
+  });
+});
+
+describe('isQuietTime', () => {
+  it('handles quiet hours that wrap past midnight, in the user time zone', () => {
+    const preferences = { ...base, quietHours: { start: '22:00', end: '07:00' }, timeZone: 'Europe/Madrid' };
+    // Wednesday; Madrid is UTC+1 in February
+    expect(isQuietTime(preferences, new Date('2026-02-11T21:30:00Z'))).toBe(true);
+    expect(isQuietTime(preferences, new Date('2026-02-11T05:59:00Z'))).toBe(true);
+    expect(isQuietTime(preferences, new Date('2026-02-11T06:00:00Z'))).toBe(false);
+    expect(isQuietTime(preferences, new Date('2026-02-11T20:59:00Z'))).toBe(false);
+  });
+
+  it('handles same-day quiet hours', () => {
+    const preferences = { ...base, quietHours: { start: '12:00', end: '13:30' } };
+    expect(isQuietTime(preferences, new Date('2026-02-11T12:45:00Z'))).toBe(true);
+    expect(isQuietTime(preferences, new Date('2026-02-11T13:30:00Z'))).toBe(false);
+  });
+
+  it('mutes weekends by local day', () => {
+    const preferences = { ...base, muteWeekends: true, timeZone: 'Asia/Tokyo' };
+    // Friday 16:00 UTC is already Saturday in Tokyo
+    expect(isQuietTime(preferences, new Date('2026-02-13T16:00:00Z'))).toBe(true);
+    expect(isQuietTime(preferences, new Date('2026-02-13T10:00:00Z'))).toBe(false);
+    expect(isQuietTime(base, new Date('2026-02-14T10:00:00Z'))).toBe(false);
+  });
+});
+
+describe('parseNotificationPreferencesInput', () => {
+  it('accepts a full update', () => {
+    expect(parseNotificationPreferencesInput({
+      channels: { badge_awarded: 'off', review_requested: 'slack' },
+      quietHours: { start: '21:00', end: '08:00' },
+      timeZone: 'America/New_York',
+      muteWeekends: true,
+    })).toEqual({
+      value: {
+        channels: { badge_awarded: 'off', review_requested: 'slack' },
+        quietHours: { start: '21:00', end: '08:00' },
+        timeZone: 'America/New_York',
+        muteWeekends: true,
+        digestFrequency: 'off',
+      },
+    });
+  });
+
+  it('fills defaults for missing fields', () => {
+    expect(parseNotificationPreferencesInput({})).toEqual({ value: base });
+  });
+
+  it('rejects unknown types, channels, times and zones', () => {
+    expect(parseNotificationPreferencesInput({ channels: { nope: 'off' } }).error).toMatch(/Unknown notification type/);
+    expect(parseNotificationPreferencesInput({ channels: { badge_awarded: 'email' } }).error).toMatch(/must be one of/);
+    expect(parseNotificationPreferencesInput({ quietHours: { start: '25:00', end: '08:00' } }).error).toMatch(/HH:MM/);
+    expect(parseNotificationPreferencesInput({ quietHours: { start: '08:00', end: '08:00' } }).error).toMatch(/different/);
+    expect(parseNotificationPreferencesInput({ timeZone: 'Mars/Olympus' }).error).toMatch(/IANA/);
+    expect(parseNotificationPreferencesInput({ muteWeekends: 'yes' }).error).toMatch(/true or false/);
+    expect(parseNotificationPreferencesInput({ digestFrequency: 'hourly' }).error).toMatch(/digestFrequency/);
+    expect(parseNotificationPreferencesInput(null).error).toBeDefined();
+  });
+});
+
+describe('toNotificationPreferences', () => {
+  it('returns defaults without a stored row and drops invalid stored values', () => {
+    expect(toNotificationPreferences(null)).toEqual(base);
+    expect(toNotificationPreferences({
+      channels: { badge_awarded: 'off', review_requested: 'carrier pigeon' },
+      quietHoursStart: '22:00',
+      quietHoursEnd: null,
+      timeZone: 'Europe/Madrid',
+      muteWeekends: true,
+      digestFrequency: 'hourly',
+    })).toEqual({
+      channels: { badge_awarded: 'off' },
+      quietHours: null,
+      timeZone: 'Europe/Madrid',
+      muteWeekends: true,
+      digestFrequency: 'off',
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    notificationPreference: { findUnique: vi.fn() },
+    notification: { create: vi.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import { createNotification } from '../notifications';
+
+type Mock = ReturnType<typeof vi.fn>;
+const mockedPrisma = prisma as unknown as {
+  notificationPreference: { findUnique: Mock };
+  notification: { create: Mock };
+};
+
+function preferences(digestFrequency: string) {
+  return {
+    channels: { comment_mention: 'digest' },
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timeZone: 'UTC',
+    muteWeekends: false,
+    digestFrequency,
+  };
+}
+
+const mention = { userId: 'user-1', type: 'comment_mention', title: 'Mentioned', message: 'Ana mentioned you' };
+
+describe('createNotification', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedPrisma.notification.create.mockImplementation(({ data }) => Promise.resolve({ id: 'n1', ...data }));
+  });
+
+  it('keeps digest-only notifications for the digest but out of the in-app list', async () => {
+    mockedPrisma.notificationPreference.findUnique.mockResolvedValue(preferences('daily'));
+
+    const notification = await createNotification(mention);
+
+    expect(notification).toMatchObject({ digestOnly: true });
+    expect(mockedPrisma.notification.create.mock.calls[0][0].data.digestOnly).toBe(true);
+  });
+
+  it('drops digest-only notifications when the user gets no digest', async () => {
+    mockedPrisma.notificationPreference.findUnique.mockResolvedValue(preferences('off'));
+
+    expect(await createNotification(mention)).toBeNull();
+    expect(mockedPrisma.notification.create).not.toHaveBeenCalled();
+  });
+
+  it('shows other channels in-app', async () => {
+    mockedPrisma.notificationPreference.findUnique.mockResolvedValue(null);
+
+    await createNotification(mention);
+
+    expect(mockedPrisma.notification.create.mock.calls[0][0].data.digestOnly).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import { readdirSync, readFileSync, existsSync } from 'node:fs';
+import path from 'node:path';
+import { describe, it, expect } from 'vitest';
+import { buildOpenApiSpec } from '../openapi';
+
+const API_ROOT = path.resolve(__dirname, '../../app/api');
+
+function routeFileFor(specPath: string): string {
+  return path.join(API_ROOT, ...specPath.replace(/^\/api\//, '').split('/').map((segment) =>
+    segment.replace(/^\{(.+)\}$/, '[$1]')
+  ), 'route.ts');
+}
+
+function exportedMethods(file: string): string[] {
+  const source = readFileSync(file, 'utf8');
+  return [...source.matchAll(/export async function (GET|POST|PUT|PATCH|DELETE)\b/g)]
+    .map((match) => match[1].toLowerCase())
+    .sort();
+}
+
+function collectRefs(value: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectRefs(item, refs));
+  } else if (value && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      if (key === '$ref' && typeof child === 'string') refs.add(child);
+      else collectRefs(child, refs);
+    }
+  }
+  return refs;
+}
+
+describe('buildOpenApiSpec', () => {
+  const spec = buildOpenApiSpec('https://fallo.example.com');
+
+  it('documents every method of each described route file', () => {
+    for (const [specPath, item] of Object.entries(spec.paths)) {
+      const file = routeFileFor(specPath);
+      expect(existsSync(file), `${specPath} has no route file`).toBe(true);
+      expect(Object.keys(item).sort(), specPath).toEqual(exportedMethods(file));
+    }
+  });
+
+  it('covers the board, list, card, checklist, comment and time-log routes', () => {
+    const cardRoutes = path.join(API_ROOT, 'boards/[boardId]/cards/[cardId]');
+    const expected = [
+      'boards', 'boards/[boardId]', 'boards/[boardId]/lists', 'boards/[boardId]/lists/[listId]',
+      'boards/[boardId]/cards', 'boards/[boardId]/cards/[cardId]', 'boards/[boardId]/cards/reorder',
+    ].map((dir) => path.join(API_ROOT, dir, 'route.ts'));
+    for (const sub of ['checklists', 'comments', 'time-logs']) {
+      const walk = (dir: string) => {
+        for (const entry of readdirSync(dir, { withFileTypes: true })) {
+          const full = path.join(dir, entry.name);
+          if (entry.isDirectory()) walk(full);
+          else if (entry.name === 'route.ts') expected.push(full);
+        }
+      };
+      walk(path.join(cardRoutes, sub));
+    }
+
+    const documented = Object.keys(spec.paths).map(routeFileFor);
+    expect(documented.sort()).toEqual(expected.sort());
+  });
+
+  it('only references components that exist', () => {
+    for (const refPath of collectRefs(spec)) {
+      const [, section, name] = refPath.match(/^#\/components\/(schemas|responses)\/(.+)$/) ?? [];
+      expect(section, refPath).toBeDefined();
+      expect(spec.components[section as 'schemas' | 'responses'][name], refPath).toBeDefined();
+    }
+  });
+
+  it('requires bearer authentication and uses the given server URL', () => {
+    expect(spec.security).toEqual([{ bearerAuth: [] }]);
+    expect(spec.components.securitySchemes.bearerAuth).toMatchObject({ type: 'http', scheme: 'bearer' });
+    expect(spec.servers).toEqual([{ url: 'https://fallo.example.com' }]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createBusinessCalendar } from '../holiday-calendar';
+import { allocationStatus, allocationWeeks, summarizeUserAllocation } from '../resource-allocation';
+
+describe('allocationWeeks', () => {
+  it('starts on the Monday of the given week', () => {
+    const weeks = allocationWeeks(new Date(2025, 5, 18), 3);
+
+    expect(weeks).toEqual([new Date(2025, 5, 16), new Date(2025, 5, 23), new Date(2025, 5, 30)]);
+  });
+});
+
+describe('allocationStatus', () => {
+  it('compares the total to the working capacity', () => {
+    expect(allocationStatus(125, 100)).toBe('over');
+    expect(allocationStatus(99, 100)).toBe('ok');
+    expect(allocationStatus(25, 100)).toBe('under');
+    expect(allocationStatus(0, 0)).toBe('off');
+    expect(allocationStatus(25, 0)).toBe('over');
+  });
+});
+
+describe('summarizeUserAllocation', () => {
+  const weeks = allocationWeeks(new Date(2025, 5, 16), 3);
+
+  it('sums dedication across boards per week', () => {
+    const result = summarizeUserAllocation(weeks, [
+      { boardId: 'reels', weekStart: new Date(2025, 5, 16), dedication: 50 },
+      { boardId: 'dragon', weekStart: new Date(2025, 5, 16), dedication: 75 },
+      { boardId: 'reels', weekStart: new Date(2025, 5, 23), dedication: 100 },
+      { boardId: 'dragon', weekStart: new Date(2025, 5, 23), dedication: 0 },
+    ], null);
+
+    expect(result.map((week) => [week.weekStart, week.total, week.status])).toEqual([
+      ['2025-06-16', 125, 'over'],
+      ['2025-06-23', 100, 'ok'],
+      ['2025-06-30', 0, 'under'],
+    ]);
+    expect(result[0].boards).toEqual([
+      { boardId: 'dragon', dedication: 75 },
+      { boardId: 'reels', dedication: 50 },
+    ]);
+    expect(result[1].boards).toHaveLength(1);
+  });
+
+  it('lowers capacity for days off', () => {
+    const calendar = createBusinessCalendar(['2025-06-20', '2025-06-30', '2025-07-01', '2025-07-02', '2025-07-03', '2025-07-04']);
+    const result = summarizeUserAllocation(weeks, [
+      { boardId: 'reels', weekStart: new Date(2025, 5, 16), dedication: 100 },
+      { boardId: 'reels', weekStart: new Date(2025, 5, 23), dedication: 33 },
+    ], calendar);
+
+    expect(result.map((week) => [week.capacity, week.status])).toEqual([
+      [80, 'over'],
+      [100, 'under'],
+      [0, 'off'],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const queryRaw = vi.fn();
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $queryRaw: (...args: unknown[]) => queryRaw(...args),
+  },
+}));
+
+import { buildPrefixTsQuery, parseSearchTypes, search, SEARCH_RESULT_TYPES } from '../search';
+
+describe('buildPrefixTsQuery', () => {
+  it('turns each term into a prefix match', () => {
+    expect(buildPrefixTsQuery('Design Review')).toBe('design:* & review:*');
+  });
+
+  it('strips tsquery operators and punctuation', () => {
+    expect(buildPrefixTsQuery("foo & !bar | (baz):* 'qux'")).toBe('foo:* & bar:* & baz:* & qux:*');
+  });
+
+  it('keeps non-latin letters and digits', () => {
+    expect(buildPrefixTsQuery('Über 2026')).toBe('über:* & 2026:*');
+  });
+
+  it('returns null when nothing is searchable', () => {
+    expect(buildPrefixTsQuery('   ')).toBeNull();
+    expect(buildPrefixTsQuery('&|!')).toBeNull();
+  });
+
+  it('caps the number of terms', () => {
+    expect(buildPrefixTsQuery('a b c d e f g h i j')?.split(' & ')).toHaveLength(8);
+  });
+});
+
+describe('parseSearchTypes', () => {
+  it('defaults to every type', () => {
+    expect(parseSearchTypes(null)).toEqual(SEARCH_RESULT_TYPES);
+  });
+
+  it('parses a comma separated list', () => {
+    expect(parseSearchTypes('card, user')).toEqual(['card', 'user']);
+  });
+
+  it('rejects unknown types', () => {
+    expect(parseSearchTypes('card,secret')).toBeNull();
+  });
+});
+
+describe('search', () => {
+  beforeEach(() => {
+    queryRaw.mockReset();
+    queryRaw.mockResolvedValue([]);
+  });
+
+  it('skips the database for empty queries', async () => {
+    const results = await search({ query: '  ', boardIds: null });
+    expect(queryRaw).not.toHaveBeenCalled();
+    expect(results.card).toEqual([]);
+  });
+
+  it('skips board-scoped searches when the user has no boards', async () => {
+    await search({ query: 'spec', boardIds: [] });
+    // Only users and academy are searched
+    expect(queryRaw).toHaveBeenCalledTimes(2);
+  });
+
+  it('only runs the requested types', async () => {
+    await search({ query: 'spec', boardIds: ['board-1'], types: ['card'] });
+    expect(queryRaw).toHaveBeenCalledTimes(1);
+  });
+
+  it('links card results to the card modal', async () => {
+    queryRaw.mockResolvedValueOnce([
+      { id: 'card-1', title: 'Spec', boardId: 'board-1', boardName: 'Alpha', listName: 'Todo', rank: 0.5 },
+    ]);
+
+    const results = await search({ query: 'spec', boardIds: ['board-1'], types: ['card'] });
+
+    expect(results.card).toEqual([
+      {
+        type: 'card',
+        id: 'card-1',
+        title: 'Spec',
+        subtitle: 'Alpha · Todo',
+        href: '/boards/board-1?card=card-1',
+        rank: 0.5,
+      },
+    ]);
+  });
+});
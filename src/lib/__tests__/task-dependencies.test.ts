@@ -0,0 +1,156 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+import {
+  buildDependencyReport,
+  computeCriticalPath,
+  findDependencyCycle,
+  getDependencyEnforcement,
+  isStartedList,
+  type DependencyGraphTask,
+} from '../task-dependencies';
+
+function task(
+  id: string,
+  storyPoints: number,
+  dependsOnTaskId: string | null,
+  overrides: Partial<DependencyGraphTask> = {}
+): DependencyGraphTask {
+  return {
+    id,
+    title: id,
+    storyPoints,
+    dependsOnTaskId,
+    isDone: false,
+    isStarted: false,
+    listName: 'To Do',
+    ...overrides,
+  };
+}
+
+describe('findDependencyCycle', () => {
+  const dependencies = new Map<string, string | null>([
+    ['spine', null],
+    ['concept', 'spine'],
+    ['production', 'concept'],
+    ['tweak', 'production'],
+  ]);
+
+  it('accepts a dependency that extends a chain', () => {
+    expect(findDependencyCycle('other', 'tweak', dependencies)).toBeNull();
+  });
+
+  it('detects a dependency that loops back to the task', () => {
+    expect(findDependencyCycle('spine', 'tweak', dependencies)).toEqual([
+      'spine',
+      'tweak',
+      'production',
+      'concept',
+    ]);
+  });
+
+  it('ignores loops that do not involve the task', () => {
+    const looped = new Map<string, string | null>([
+      ['a', 'b'],
+      ['b', 'a'],
+    ]);
+    expect(findDependencyCycle('c', 'a', looped)).toBeNull();
+  });
+});
+
+describe('computeCriticalPath', () => {
+  it('follows the chain with the most remaining story points', () => {
+    const tasks = [
+      task('spine', 3, null, { isDone: true }),
+      task('concept', 5, 'spine'),
+      task('production', 8, 'concept'),
+      task('tweak', 2, 'production'),
+      // Separate, shorter chain
+      task('ui', 5, null),
+      task('ui-polish', 3, 'ui'),
+    ];
+
+    expect(computeCriticalPath(tasks)).toEqual({
+      tasks: [
+        { id: 'spine', title: 'spine', storyPoints: 3, isDone: true, listName: 'To Do' },
+        { id: 'concept', title: 'concept', storyPoints: 5, isDone: false, listName: 'To Do' },
+        { id: 'production', title: 'production', storyPoints: 8, isDone: false, listName: 'To Do' },
+        { id: 'tweak', title: 'tweak', storyPoints: 2, isDone: false, listName: 'To Do' },
+      ],
+      totalPoints: 18,
+      remainingPoints: 15,
+    });
+  });
+
+  it('ignores predecessors that are not on the board', () => {
+    const result = computeCriticalPath([task('concept', 5, 'archived-spine')]);
+    expect(result.tasks.map((t) => t.id)).toEqual(['concept']);
+  });
+
+  it('terminates on corrupt cyclic data', () => {
+    const result = computeCriticalPath([task('a', 1, 'b'), task('b', 1, 'a')]);
+    expect(result.tasks.length).toBeGreaterThan(0);
+    expect(result.tasks.length).toBeLessThanOrEqual(2);
+  });
+
+  it('returns an empty path for a board without tasks', () => {
+    expect(computeCriticalPath([])).toEqual({ tasks: [], totalPoints: 0, remainingPoints: 0 });
+  });
+});
+
+describe('buildDependencyReport', () => {
+  it('lists open tasks waiting on unfinished predecessors', () => {
+    const report = buildDependencyReport([
+      task('spine', 3, null, { isDone: true, listName: 'Done' }),
+      task('concept', 5, 'spine', { isStarted: true, listName: 'In Progress' }),
+      task('production', 8, 'concept', { isStarted: true }),
+      task('tweak', 2, 'production'),
+      task('solo', 1, null),
+    ]);
+
+    expect(report.chainCount).toBe(1);
+    expect(report.blockedTasks).toEqual([
+      {
+        taskId: 'production',
+        taskTitle: 'production',
+        predecessorId: 'concept',
+        predecessorTitle: 'concept',
+        predecessorListName: 'In Progress',
+        started: true,
+      },
+      {
+        taskId: 'tweak',
+        taskTitle: 'tweak',
+        predecessorId: 'production',
+        predecessorTitle: 'production',
+        predecessorListName: 'To Do',
+        started: false,
+      },
+    ]);
+  });
+});
+
+describe('isStartedList', () => {
+  const list = (name: string, phase: string | null = null) => ({ id: name, name, phase, viewType: 'TASKS' });
+
+  it('treats in-progress, review and done lists as started', () => {
+    expect(isStartedList(list('In Progress'))).toBe(true);
+    expect(isStartedList(list('Review'))).toBe(true);
+    expect(isStartedList(list('Shipped', 'DONE'))).toBe(true);
+  });
+
+  it('does not treat backlog lists as started', () => {
+    expect(isStartedList(list('To Do'))).toBe(false);
+  });
+});
+
+describe('getDependencyEnforcement', () => {
+  it('defaults to warn', () => {
+    expect(getDependencyEnforcement({})).toBe('warn');
+    expect(getDependencyEnforcement(null)).toBe('warn');
+    expect(getDependencyEnforcement({ dependencyEnforcement: 'block' })).toBe('block');
+  });
+});
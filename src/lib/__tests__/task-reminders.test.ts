@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    card: { findMany: vi.fn() },
+    taskReminder: { findMany: vi.fn(), create: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/notifications', () => ({
+  createNotificationWithSlackDM: vi.fn(),
+}));
+
+import { prisma } from '@/lib/prisma';
+import { createNotificationWithSlackDM } from '@/lib/notifications';
+import { planTaskReminders, sendTaskReminders } from '../task-reminders';
+
+const mockedPrisma = prisma as unknown as {
+  card: { findMany: ReturnType<typeof vi.fn> };
+  taskReminder: { findMany: ReturnType<typeof vi.fn>; create: ReturnType<typeof vi.fn> };
+};
+const mockedNotify = createNotificationWithSlackDM as unknown as ReturnType<typeof vi.fn>;
+
+const now = new Date('2026-02-10T07:30:00.000Z');
+
+describe('planTaskReminders', () => {
+  it('plans due-soon, overdue and release reminders within their windows', () => {
+    const planned = planTaskReminders([
+      { cardId: 'soon', deadline: '2026-02-11T23:00:00.000Z', isDone: false },
+      { cardId: 'later', deadline: '2026-02-20T00:00:00.000Z', isDone: false },
+      { cardId: 'overdue', deadline: '2026-02-08T00:00:00.000Z', isDone: false },
+      { cardId: 'ancient', deadline: '2026-01-01T00:00:00.000Z', isDone: false },
+      { cardId: 'released', releasedAt: '2026-02-10T06:00:00.000Z', isDone: false },
+      { cardId: 'old-release', releasedAt: '2026-02-01T06:00:00.000Z', isDone: false },
+    ], now);
+
+    expect(planned.map(({ cardId, kind }) => [cardId, kind])).toEqual([
+      ['soon', 'deadline_soon'],
+      ['overdue', 'deadline_overdue'],
+      ['released', 'task_released'],
+    ]);
+    expect(planned[0].dueKey).toBe('2026-02-11T23:00:00.000Z');
+  });
+
+  it('honours the due-soon window and skips done or undated tasks', () => {
+    const tasks = [
+      { cardId: 'a', deadline: '2026-02-14T00:00:00.000Z', isDone: false },
+      { cardId: 'done', deadline: '2026-02-09T00:00:00.000Z', isDone: true },
+      { cardId: 'bad', deadline: 'not a date', isDone: false },
+      { cardId: 'none', deadline: null, isDone: false },
+    ];
+    expect(planTaskReminders(tasks, now)).toEqual([]);
+    expect(planTaskReminders(tasks, now, 5).map((reminder) => reminder.cardId)).toEqual(['a']);
+  });
+});
+
+describe('sendTaskReminders', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockedPrisma.card.findMany.mockResolvedValue([
+      {
+        id: 'task-1',
+        title: 'Paytable art',
+        taskData: { deadline: '2026-02-11T00:00:00.000Z' },
+        list: { id: 'l1', name: 'In Progress', phase: null, viewType: 'TASKS', board: { id: 'board-1', name: 'Slot' } },
+        assignees: [
+          { userId: 'u1', user: { slackUserId: 'S1' } },
+          { userId: 'u2', user: { slackUserId: null } },
+          { userId: 'u3', user: { slackUserId: null } },
+        ],
+      },
+      {
+        id: 'task-2',
+        title: 'Unassigned',
+        taskData: { deadline: '2026-02-09T00:00:00.000Z' },
+        list: { id: 'l1', name: 'In Progress', phase: null, viewType: 'TASKS', board: { id: 'board-1', name: 'Slot' } },
+        assignees: [],
+      },
+    ]);
+  });
+
+  it('notifies each assignee once and records what was sent', async () => {
+    mockedPrisma.taskReminder.findMany.mockResolvedValue([
+      { userId: 'u2', cardId: 'task-1', kind: 'deadline_soon', dueKey: '2026-02-11T00:00:00.000Z' },
+    ]);
+    mockedPrisma.taskReminder.create
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(Object.assign(new Error('Unique constraint'), { code: 'P2002' }));
+
+    const result = await sendTaskReminders({ now });
+
+    expect(result).toEqual({
+      tasksChecked: 2,
+      remindersDue: 2,
+      notificationsSent: 1,
+      skippedAlreadySent: 2,
+      skippedNoAssignees: 1,
+    });
+    expect(mockedPrisma.taskReminder.create).toHaveBeenCalledWith({
+      data: { userId: 'u1', cardId: 'task-1', kind: 'deadline_soon', dueKey: '2026-02-11T00:00:00.000Z' },
+    });
+    expect(mockedNotify).toHaveBeenCalledTimes(1);
+    expect(mockedNotify).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'u1',
+      type: 'deadline_soon',
+      title: 'Deadline coming up',
+      message: 'Task "Paytable art" on Slot is due in about 17 hours',
+      data: { boardId: 'board-1', cardId: 'task-1', cardTitle: 'Paytable art' },
+      slackUserId: 'S1',
+    }));
+  });
+});
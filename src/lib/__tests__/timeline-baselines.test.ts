@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { createBusinessCalendar } from '../holiday-calendar';
+import { computeBaselineVariance } from '../timeline-baselines';
+
+const iso = (year: number, month: number, day: number) => new Date(year, month - 1, day).toISOString();
+
+/** Consecutive Mon-Fri blocks for one list, starting on a Monday. */
+function weeks(listId: string, year: number, month: number, day: number, count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    listId,
+    startDate: new Date(year, month - 1, day + i * 7).toISOString(),
+    endDate: new Date(year, month - 1, day + i * 7 + 4).toISOString(),
+  }));
+}
+
+describe('computeBaselineVariance', () => {
+  it('reports "planned 6 weeks, took 9" for a finished phase', () => {
+    const variance = computeBaselineVariance({
+      baselineBlocks: weeks('production', 2026, 3, 2, 6),
+      currentBlocks: weeks('production', 2026, 3, 2, 8),
+      phases: [{
+        listId: 'production',
+        name: 'Production',
+        tasks: [{ doneAt: new Date(2026, 3, 10, 16) }, { doneAt: new Date(2026, 3, 29, 11) }],
+      }],
+      now: new Date(2026, 5, 1),
+    });
+
+    expect(variance.phases).toEqual([{
+      listId: 'production',
+      name: 'Production',
+      status: 'done',
+      doneTasks: 2,
+      totalTasks: 2,
+      plannedStart: iso(2026, 3, 2),
+      plannedEnd: iso(2026, 4, 10),
+      plannedWeeks: 6,
+      actualStart: iso(2026, 3, 2),
+      actualEnd: iso(2026, 4, 29),
+      actualWeeks: 9,
+      completedAt: new Date(2026, 3, 29, 11).toISOString(),
+      startSlipDays: 0,
+      endSlipDays: 13,
+    }]);
+    expect(variance.endSlipDays).toBe(13);
+  });
+
+  it('keeps unfinished phases running until today and skips holidays in the slip', () => {
+    const easter = createBusinessCalendar(['2026-04-03', '2026-04-06']);
+    const variance = computeBaselineVariance({
+      baselineBlocks: weeks('concept', 2026, 3, 16, 2),
+      currentBlocks: weeks('concept', 2026, 3, 23, 2),
+      phases: [{ listId: 'concept', name: 'Concept', tasks: [{ doneAt: null }, { doneAt: new Date(2026, 2, 25) }] }],
+      calendar: easter,
+      now: new Date(2026, 3, 8, 9),
+    });
+
+    const [concept] = variance.phases;
+    expect(concept.status).toBe('in_progress');
+    expect(concept.actualEnd).toBe(iso(2026, 4, 8));
+    // Mar 27 → Apr 8 is 8 working days, minus Good Friday and Easter Monday
+    expect(concept.endSlipDays).toBe(6);
+    expect(concept.startSlipDays).toBe(5);
+  });
+
+  it('shows phases added after the baseline without a plan', () => {
+    const variance = computeBaselineVariance({
+      baselineBlocks: weeks('concept', 2026, 3, 2, 1),
+      currentBlocks: [...weeks('concept', 2026, 3, 2, 1), ...weeks('polish', 2026, 3, 9, 1)],
+      phases: [
+        { listId: 'concept', name: 'Concept', tasks: [] },
+        { listId: 'polish', name: 'Polish', tasks: [] },
+        { listId: 'unscheduled', name: 'Backlog', tasks: [{ doneAt: null }] },
+      ],
+      now: new Date(2026, 2, 4),
+    });
+
+    expect(variance.phases.map((phase) => [phase.name, phase.status, phase.plannedWeeks, phase.endSlipDays])).toEqual([
+      ['Concept', 'in_progress', 1, 0],
+      ['Polish', 'not_started', null, null],
+    ]);
+    expect(variance.plannedWeeks).toBe(1);
+    expect(variance.actualWeeks).toBe(2);
+  });
+});
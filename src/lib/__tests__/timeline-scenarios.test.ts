@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { createBusinessCalendar } from '../holiday-calendar';
+import {
+  diffScenarioTimeline,
+  isEmptyScenarioDiff,
+  moveScenarioBlocks,
+  overlayScenarioTimeline,
+  removeScenarioEvent,
+  scenarioConflicts,
+  setScenarioAvailability,
+  toScenarioTimeline,
+  updateScenarioEvent,
+  type ScenarioTimeline,
+} from '../timeline-scenarios';
+
+const iso = (year: number, month: number, day: number) => new Date(year, month - 1, day).toISOString();
+
+function fork(): ScenarioTimeline {
+  return toScenarioTimeline({
+    blocks: [
+      { id: 'concept', blockTypeId: 'CONCEPT', listId: 'list-concept', startDate: new Date(2025, 11, 8), endDate: new Date(2025, 11, 12), position: 1 },
+      { id: 'prod-1', blockTypeId: 'PRODUCTION', listId: null, startDate: new Date(2025, 11, 15), endDate: new Date(2025, 11, 19), position: 1 },
+      { id: 'prod-2', blockTypeId: 'PRODUCTION', listId: null, startDate: new Date(2026, 0, 5), endDate: new Date(2026, 0, 9), position: 2 },
+    ],
+    events: [
+      { id: 'review', title: 'Art review', description: null, eventTypeId: 'MILESTONE', startDate: new Date(2025, 11, 17), endDate: new Date(2025, 11, 17) },
+    ],
+    availability: [
+      { userId: 'ana', weekStart: new Date(2025, 11, 15), dedication: 50 },
+      { userId: 'bo', weekStart: new Date(2025, 11, 15), dedication: 0 },
+    ],
+  });
+}
+
+describe('toScenarioTimeline', () => {
+  it('keeps only weeks someone is booked', () => {
+    expect(fork().availability).toEqual([{ userId: 'ana', weekStart: iso(2025, 12, 15), dedication: 50 }]);
+  });
+});
+
+describe('moveScenarioBlocks', () => {
+  it('moves blocks and the events in their range like a live drag', () => {
+    const moved = moveScenarioBlocks(fork(), {
+      weeksDelta: 1,
+      blockMoves: new Map([['prod-1', 1], ['prod-2', 1]]),
+      eventIds: ['review'],
+    });
+
+    expect(moved.blocks.map((block) => [block.id, block.startDate])).toEqual([
+      ['concept', iso(2025, 12, 8)],
+      ['prod-1', iso(2025, 12, 22)],
+      ['prod-2', iso(2026, 1, 12)],
+    ]);
+    expect(moved.events[0].startDate).toBe(iso(2025, 12, 24));
+  });
+
+  it('pushes overlapping blocks and skips closed weeks', () => {
+    const christmas = createBusinessCalendar(['2025-12-22', '2025-12-23', '2025-12-24', '2025-12-25', '2025-12-26']);
+    const moved = moveScenarioBlocks(fork(), {
+      weeksDelta: 1,
+      blockMoves: new Map([['concept', 1]]),
+      eventIds: [],
+    }, christmas);
+
+    expect(moved.blocks.map((block) => [block.id, block.startDate, block.endDate, block.position])).toEqual([
+      ['concept', iso(2025, 12, 15), iso(2025, 12, 19), 1],
+      // Collided with the concept week, and Christmas week is closed
+      ['prod-1', iso(2025, 12, 29), iso(2026, 1, 2), 1],
+      ['prod-2', iso(2026, 1, 5), iso(2026, 1, 9), 2],
+    ]);
+  });
+});
+
+describe('diffScenarioTimeline', () => {
+  it('lists moved blocks, edited events and availability changes', () => {
+    const base = fork();
+    let draft = moveScenarioBlocks(base, { weeksDelta: 1, blockMoves: new Map([['prod-2', 1]]), eventIds: [] });
+    draft = updateScenarioEvent(draft, 'review', { title: 'Art review 2' })!;
+    draft = { ...draft, events: [...draft.events, { ...draft.events[0], id: 'draft-gate', title: 'Gate' }] };
+    draft = setScenarioAvailability(draft, [
+      { userId: 'ana', weekStart: new Date(2025, 11, 17), dedication: 0 },
+      { userId: 'bo', weekStart: new Date(2025, 11, 22), dedication: 100 },
+    ]);
+
+    const diff = diffScenarioTimeline(base, draft);
+
+    expect(diff.blocks).toEqual([{
+      id: 'prod-2',
+      kind: 'changed',
+      from: { startDate: iso(2026, 1, 5), endDate: iso(2026, 1, 9) },
+      to: { startDate: iso(2026, 1, 12), endDate: iso(2026, 1, 16) },
+    }]);
+    expect(diff.events).toEqual([
+      { id: 'review', kind: 'changed', title: 'Art review 2' },
+      { id: 'draft-gate', kind: 'added', title: 'Gate' },
+    ]);
+    expect(diff.availability).toEqual([
+      { userId: 'ana', weekStart: iso(2025, 12, 15), from: 50, to: 0 },
+      { userId: 'bo', weekStart: iso(2025, 12, 22), from: 0, to: 100 },
+    ]);
+
+    const withoutReview = removeScenarioEvent(draft, 'review')!;
+    expect(diffScenarioTimeline(base, withoutReview).events[0]).toEqual({ id: 'review', kind: 'removed', title: 'Art review' });
+    expect(removeScenarioEvent(draft, 'missing')).toBeNull();
+  });
+
+  it('is empty for an untouched fork', () => {
+    expect(isEmptyScenarioDiff(diffScenarioTimeline(fork(), fork()))).toBe(true);
+  });
+});
+
+describe('scenarioConflicts', () => {
+  it('keeps only live edits to rows the scenario also changes', () => {
+    const base = fork();
+    const draft = moveScenarioBlocks(base, { weeksDelta: 1, blockMoves: new Map([['prod-2', 1]]), eventIds: [] });
+    let live = moveScenarioBlocks(base, { weeksDelta: 2, blockMoves: new Map([['prod-2', 2]]), eventIds: [] });
+    live = updateScenarioEvent(live, 'review', { title: 'Moved live' })!;
+
+    const conflicts = scenarioConflicts(diffScenarioTimeline(base, draft), diffScenarioTimeline(base, live));
+
+    expect(conflicts.blocks.map((change) => change.id)).toEqual(['prod-2']);
+    expect(conflicts.events).toEqual([]);
+  });
+});
+
+describe('overlayScenarioTimeline', () => {
+  it('draws the draft dates on top of the live project', () => {
+    const production = { id: 'PRODUCTION', name: 'Production', color: '#00f', description: null, isDefault: false, position: 2 };
+    const live = {
+      board: { id: 'board', name: 'Board', description: null, teamId: null, team: null, members: [] },
+      blocks: [{
+        id: 'prod-2',
+        startDate: iso(2026, 1, 5),
+        endDate: iso(2026, 1, 9),
+        position: 2,
+        blockType: production,
+        list: { id: 'list-prod', name: 'Sprint 2', phase: null },
+      }],
+      events: [],
+      availability: [],
+    };
+    const draft = moveScenarioBlocks(fork(), { weeksDelta: 1, blockMoves: new Map([['prod-2', 1]]), eventIds: [] });
+
+    const overlaid = overlayScenarioTimeline(live, draft, {
+      blockTypes: [production],
+      eventTypes: [],
+      users: [{ id: 'ana', name: 'Ana', email: 'ana@example.com', image: null }],
+    });
+
+    // The concept block's type is unknown here, so it is left out
+    expect(overlaid.blocks.map((block) => [block.id, block.startDate, block.list?.name ?? null])).toEqual([
+      ['prod-1', iso(2025, 12, 15), null],
+      ['prod-2', iso(2026, 1, 12), 'Sprint 2'],
+    ]);
+    expect(overlaid.events).toEqual([]);
+    expect(overlaid.availability.map((entry) => [entry.user.name, entry.dedication])).toEqual([['Ana', 50]]);
+  });
+});
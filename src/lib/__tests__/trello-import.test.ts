@@ -0,0 +1,113 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+import { parseTrelloExport, trelloIdDate, trelloToBoardArchive, type TrelloBoard } from '../trello-import';
+import { parseBoardArchive } from '../board-archive';
+
+const trello: TrelloBoard = {
+  name: 'Old Slot',
+  desc: 'Imported from Trello',
+  lists: [
+    { id: 'list-backlog', name: 'Backlog', pos: 2 },
+    { id: 'list-doing', name: 'Doing', pos: 1 },
+    { id: 'list-old', name: 'Graveyard', pos: 3, closed: true },
+  ],
+  labels: [
+    { id: 'lab-art', name: 'Art', color: 'green_dark' },
+    { id: 'lab-blank', name: '', color: 'red' },
+  ],
+  members: [{ id: 'mem-ana', fullName: 'Ana Lima', username: 'ana' }],
+  cards: [
+    {
+      id: '65a1b2c3d4e5f60718293a4b',
+      name: 'Rig dragon',
+      idList: 'list-doing',
+      pos: 2,
+      due: '2026-02-06T12:00:00.000Z',
+      idLabels: ['lab-art', 'lab-blank'],
+      idMembers: ['mem-ana'],
+      attachments: [{ id: 'att-1', url: 'https://trello.test/sheet.png', bytes: 2048, mimeType: 'image/png', idMember: 'mem-ana' }],
+    },
+    { id: 'card-b', name: 'Paint reels', idList: 'list-doing', pos: 1, closed: true, dateLastActivity: '2026-01-10T00:00:00.000Z' },
+    { id: 'card-c', name: 'Bonus story', idList: 'list-backlog', pos: 1, desc: 'Free spins' },
+    { id: 'card-d', name: 'Old idea', idList: 'list-old' },
+  ],
+  checklists: [
+    {
+      id: 'cl-1',
+      idCard: '65a1b2c3d4e5f60718293a4b',
+      name: 'Steps',
+      checkItems: [
+        { name: 'Bones', state: 'complete', pos: 2 },
+        { name: 'Skin', state: 'incomplete', pos: 1 },
+      ],
+    },
+  ],
+  actions: [
+    { type: 'commentCard', date: '2026-01-08T00:00:00.000Z', idMemberCreator: 'mem-gone', memberCreator: { id: 'mem-gone', fullName: 'Former Artist' }, data: { text: 'Second', card: { id: '65a1b2c3d4e5f60718293a4b' } } },
+    { type: 'commentCard', date: '2026-01-07T00:00:00.000Z', idMemberCreator: 'mem-ana', data: { text: 'First', card: { id: '65a1b2c3d4e5f60718293a4b' } } },
+    { type: 'updateCard', date: '2026-01-07T00:00:00.000Z', idMemberCreator: 'mem-ana', data: { card: { id: 'card-b' } } },
+  ],
+};
+
+describe('parseTrelloExport', () => {
+  it('accepts a board export and rejects anything else', () => {
+    expect(parseTrelloExport(trello).value?.name).toBe('Old Slot');
+    expect(parseTrelloExport({ name: 'x' }).error).toBe('Not a Trello board export');
+    expect(parseTrelloExport({ ...trello, cards: [{ id: 'c', name: 'No list' }] }).error).toMatch(/invalid card/);
+  });
+});
+
+describe('trelloToBoardArchive', () => {
+  const { archive, warnings } = trelloToBoardArchive(trello, { listViewTypes: { 'list-backlog': 'PLANNING' } });
+
+  it('produces an archive the board import accepts', () => {
+    expect(parseBoardArchive(archive).error).toBeUndefined();
+  });
+
+  it('keeps open lists in Trello order with the chosen view types', () => {
+    expect(archive.lists.map((list) => [list.name, list.viewType, list.position])).toEqual([
+      ['Doing', 'TASKS', 0],
+      ['Backlog', 'PLANNING', 1],
+    ]);
+    expect(warnings).toEqual(['Closed lists skipped: Graveyard (1 cards)']);
+  });
+
+  it('maps cards by list type, closed cards to archived', () => {
+    const [paint, rig, story] = archive.cards;
+
+    expect(paint).toMatchObject({ title: 'Paint reels', position: 0, archivedAt: '2026-01-10T00:00:00.000Z' });
+    expect(rig).toMatchObject({
+      type: 'TASK',
+      position: 1,
+      createdAt: trelloIdDate('65a1b2c3d4e5f60718293a4b'),
+      taskData: { deadline: '2026-02-06' },
+      tagIds: ['lab-art', 'lab-blank'],
+      assignees: [expect.objectContaining({ userId: 'mem-ana' })],
+      attachments: [expect.objectContaining({ name: 'sheet.png', size: 2048, uploaderId: 'mem-ana' })],
+    });
+    expect(story).toMatchObject({ type: 'USER_STORY', description: 'Free spins', taskData: null });
+  });
+
+  it('carries checklists, comments and labels', () => {
+    const rig = archive.cards[1];
+
+    expect(rig.checklists[0].items).toEqual([
+      { content: 'Skin', isComplete: false, position: 0 },
+      { content: 'Bones', isComplete: true, position: 1 },
+    ]);
+    expect(rig.comments.map((comment) => [comment.authorId, comment.content])).toEqual([
+      ['mem-ana', 'First'],
+      ['mem-gone', 'Second'],
+    ]);
+    expect(archive.users).toEqual([
+      { id: 'mem-ana', email: '', name: 'Ana Lima' },
+      { id: 'mem-gone', email: '', name: 'Former Artist' },
+    ]);
+    expect(archive.tags).toEqual([
+      { id: 'lab-art', name: 'Art', color: '#61bd4f' },
+      { id: 'lab-blank', name: 'Red', color: '#eb5a46' },
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { UNDO_MERGE_WINDOW_MS, UndoHistory, undoShortcutFor } from '../undo-history';
+
+function counter(label: string, log: string[], mergeKey?: string) {
+  return {
+    label,
+    mergeKey,
+    undo: async () => { log.push(`undo ${label}`); },
+    redo: async () => { log.push(`redo ${label}`); },
+  };
+}
+
+describe('UndoHistory', () => {
+  it('undoes and redoes in order, and a new command clears redo', async () => {
+    const log: string[] = [];
+    const history = new UndoHistory();
+    history.push(counter('a', log));
+    history.push(counter('b', log));
+
+    expect((await history.undo())?.label).toBe('b');
+    expect((await history.undo())?.label).toBe('a');
+    expect(await history.undo()).toBeNull();
+    expect((await history.redo())?.label).toBe('a');
+    expect(history.getSnapshot()).toMatchObject({ undoLabel: 'a', redoLabel: 'b' });
+
+    history.push(counter('c', log));
+    expect(history.getSnapshot()).toMatchObject({ undoLabel: 'c', redoLabel: null });
+    expect(log).toEqual(['undo b', 'undo a', 'redo a']);
+  });
+
+  it('drops a command whose undo fails', async () => {
+    const history = new UndoHistory();
+    history.push({ label: 'broken', undo: () => Promise.reject(new Error('gone')), redo: async () => {} });
+
+    await expect(history.undo()).rejects.toThrow('gone');
+    expect(history.getSnapshot()).toEqual({ undoLabel: null, redoLabel: null, busy: false });
+  });
+
+  it('merges commands with the same key inside the window, keeping the first undo', async () => {
+    let now = 0;
+    const log: string[] = [];
+    const history = new UndoHistory(50, () => now);
+    history.push(counter('edit 1', log, 'card:1'));
+    now += 1000;
+    history.push(counter('edit 2', log, 'card:1'));
+    now += UNDO_MERGE_WINDOW_MS + 1;
+    history.push(counter('edit 3', log, 'card:1'));
+
+    await history.undo();
+    await history.undo();
+    expect(log).toEqual(['undo edit 3', 'undo edit 1']);
+    await history.redo();
+    expect(log.at(-1)).toBe('redo edit 2');
+  });
+
+  it('keeps at most `limit` steps and ignores requests while busy', async () => {
+    const history = new UndoHistory(2);
+    const log: string[] = [];
+    ['a', 'b', 'c'].forEach((label) => history.push(counter(label, log)));
+
+    let finish = () => {};
+    history.push({ label: 'slow', undo: () => new Promise<void>((resolve) => { finish = resolve; }), redo: vi.fn() });
+    const pending = history.undo();
+    expect(history.getSnapshot().busy).toBe(true);
+    expect(await history.undo()).toBeNull();
+    finish();
+    await pending;
+
+    await history.undo();
+    expect(await history.undo()).toBeNull();
+    expect(log).toEqual(['undo c']);
+  });
+
+  it('follows id aliases left by recreated records', () => {
+    const history = new UndoHistory();
+    history.alias('list-1', 'list-2');
+    history.alias('list-2', 'list-3');
+    expect(history.resolve('list-1')).toBe('list-3');
+    expect(history.resolve('other')).toBe('other');
+  });
+});
+
+describe('undoShortcutFor', () => {
+  const key = (overrides: Partial<Parameters<typeof undoShortcutFor>[0]>) =>
+    undoShortcutFor({ key: 'z', ctrlKey: false, metaKey: false, shiftKey: false, altKey: false, ...overrides });
+
+  it('maps Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y', () => {
+    expect(key({ ctrlKey: true })).toBe('undo');
+    expect(key({ metaKey: true, key: 'Z', shiftKey: true })).toBe('redo');
+    expect(key({ ctrlKey: true, key: 'y' })).toBe('redo');
+    expect(key({})).toBeNull();
+    expect(key({ ctrlKey: true, altKey: true })).toBeNull();
+  });
+});
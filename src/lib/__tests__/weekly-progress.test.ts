@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {},
+}));
+
+import { computeWeeklyProgressTotals, resolveTaskCompletionDate } from '../weekly-progress';
+
+const d = (iso: string) => new Date(iso);
+
+describe('computeWeeklyProgressTotals', () => {
+  const tasks = [
+    // Done in week 1
+    { storyPoints: 3, createdAt: d('2026-01-05T09:00:00Z'), archivedAt: null, completedAt: d('2026-01-08T12:00:00Z') },
+    // Done in week 2
+    { storyPoints: 5, createdAt: d('2026-01-05T09:00:00Z'), archivedAt: null, completedAt: d('2026-01-14T12:00:00Z') },
+    // Added in week 2, still open
+    { storyPoints: 2, createdAt: d('2026-01-13T09:00:00Z'), archivedAt: null, completedAt: null },
+    // Archived during week 2
+    { storyPoints: 8, createdAt: d('2026-01-05T09:00:00Z'), archivedAt: d('2026-01-15T09:00:00Z'), completedAt: null },
+  ];
+
+  it('counts scope and completion as of the end of week 1', () => {
+    expect(computeWeeklyProgressTotals(tasks, d('2026-01-11T23:59:59Z'))).toEqual({
+      totalStoryPoints: 16,
+      completedPoints: 3,
+      tasksCompleted: 1,
+      tasksTotal: 3,
+    });
+  });
+
+  it('is cumulative and drops archived tasks from scope', () => {
+    expect(computeWeeklyProgressTotals(tasks, d('2026-01-18T23:59:59Z'))).toEqual({
+      totalStoryPoints: 10,
+      completedPoints: 8,
+      tasksCompleted: 2,
+      tasksTotal: 3,
+    });
+  });
+
+  it('returns zeros before any task exists', () => {
+    expect(computeWeeklyProgressTotals(tasks, d('2025-12-31T00:00:00Z'))).toEqual({
+      totalStoryPoints: 0,
+      completedPoints: 0,
+      tasksCompleted: 0,
+      tasksTotal: 0,
+    });
+  });
+});
+
+describe('resolveTaskCompletionDate', () => {
+  const updatedAt = d('2026-02-01T10:00:00Z');
+
+  it('prefers Card.completedAt', () => {
+    expect(resolveTaskCompletionDate({
+      completedAt: d('2026-01-20T10:00:00Z'),
+      updatedAt,
+      isInDoneList: true,
+      lastTimeLogEndedAt: d('2026-01-19T10:00:00Z'),
+    })).toEqual(d('2026-01-20T10:00:00Z'));
+  });
+
+  it('falls back to the last time log for done tasks without completedAt', () => {
+    expect(resolveTaskCompletionDate({
+      completedAt: null,
+      updatedAt,
+      isInDoneList: true,
+      lastTimeLogEndedAt: d('2026-01-19T10:00:00Z'),
+    })).toEqual(d('2026-01-19T10:00:00Z'));
+  });
+
+  it('falls back to updatedAt when there are no time logs', () => {
+    expect(resolveTaskCompletionDate({
+      completedAt: null,
+      updatedAt,
+      isInDoneList: true,
+      lastTimeLogEndedAt: null,
+    })).toEqual(updatedAt);
+  });
+
+  it('returns null for tasks that are not done', () => {
+    expect(resolveTaskCompletionDate({
+      completedAt: null,
+      updatedAt,
+      isInDoneList: false,
+      lastTimeLogEndedAt: d('2026-01-19T10:00:00Z'),
+    })).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    list: { findUnique: vi.fn() },
+    card: { count: vi.fn() },
+  },
+}));
+
+import { prisma } from '@/lib/prisma';
+import {
+  checkWipLimits,
+  describeWipViolations,
+  evaluateWipLimits,
+  getWipLimitEnforcement,
+  parseWipLimit,
+} from '../wip-limits';
+
+describe('evaluateWipLimits', () => {
+  it('allows filling a list up to its limit', () => {
+    expect(evaluateWipLimits({
+      wipLimit: 3,
+      wipLimitPerAssignee: null,
+      listCount: 3,
+      assigneeCounts: [],
+    })).toEqual([]);
+  });
+
+  it('flags a list that goes over its limit', () => {
+    expect(evaluateWipLimits({
+      wipLimit: 3,
+      wipLimitPerAssignee: null,
+      listCount: 4,
+      assigneeCounts: [],
+    })).toEqual([{ kind: 'list', limit: 3, count: 4 }]);
+  });
+
+  it('flags each assignee over the per-assignee limit', () => {
+    expect(evaluateWipLimits({
+      wipLimit: null,
+      wipLimitPerAssignee: 2,
+      listCount: 10,
+      assigneeCounts: [
+        { userId: 'u1', userName: 'Sam', count: 3 },
+        { userId: 'u2', userName: 'Alex', count: 2 },
+      ],
+    })).toEqual([{ kind: 'assignee', limit: 2, count: 3, userId: 'u1', userName: 'Sam' }]);
+  });
+});
+
+describe('describeWipViolations', () => {
+  it('summarises list and assignee violations', () => {
+    expect(describeWipViolations({
+      listName: 'Review',
+      violations: [
+        { kind: 'list', limit: 5, count: 6 },
+        { kind: 'assignee', limit: 2, count: 3, userId: 'u1', userName: 'Sam' },
+      ],
+    })).toBe('"Review" is over its WIP limit (6/5 cards; Sam would have 3/2)');
+  });
+});
+
+describe('parseWipLimit', () => {
+  it('clears the limit for empty values', () => {
+    expect(parseWipLimit(null)).toBeNull();
+    expect(parseWipLimit('')).toBeNull();
+    expect(parseWipLimit(0)).toBeNull();
+    expect(parseWipLimit('0')).toBeNull();
+  });
+
+  it('accepts positive integers and numeric strings', () => {
+    expect(parseWipLimit(4)).toBe(4);
+    expect(parseWipLimit('7')).toBe(7);
+  });
+
+  it('rejects negative and fractional values', () => {
+    expect(parseWipLimit(-1)).toBeUndefined();
+    expect(parseWipLimit(2.5)).toBeUndefined();
+    expect(parseWipLimit('abc')).toBeUndefined();
+  });
+});
+
+describe('getWipLimitEnforcement', () => {
+  it('defaults to warn', () => {
+    expect(getWipLimitEnforcement({})).toBe('warn');
+    expect(getWipLimitEnforcement({ wipLimitEnforcement: 'block' })).toBe('block');
+  });
+});
+
+describe('checkWipLimits', () => {
+  const mockPrisma = prisma as unknown as {
+    list: { findUnique: ReturnType<typeof vi.fn> };
+    card: { count: ReturnType<typeof vi.fn> };
+  };
+
+  it('counts every new card an import adds to the list', async () => {
+    mockPrisma.list.findUnique.mockResolvedValue({ name: 'To Do', wipLimit: 5, wipLimitPerAssignee: null });
+    mockPrisma.card.count.mockResolvedValue(3);
+
+    await expect(checkWipLimits({ listId: 'l1', newCards: 2 })).resolves.toBeNull();
+    await expect(checkWipLimits({ listId: 'l1', newCards: 4 })).resolves.toEqual({
+      listName: 'To Do',
+      violations: [{ kind: 'list', limit: 5, count: 7 }],
+    });
+  });
+});
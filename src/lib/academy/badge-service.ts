@@ -1,6 +1,7 @@
 import { prisma } from '@/lib/prisma';
 import type { BadgeRewardInfo } from '@/types/academy';
 import { describeBadgeRequirement } from '@/lib/rewards/presentation';
+import { createNotification } from '@/lib/notifications';
 
 /**
  * Award an Academy badge to a user. Idempotent — skips if the user
@@ -49,26 +50,24 @@ export async function awardAcademyBadge(
   });
 
   // Create a notification for the user
-  await prisma.notification.create({
+  await createNotification({
+    userId,
+    type: 'badge_awarded',
+    title: `Badge earned: ${definition.name}`,
+    message: definition.description,
     data: {
-      userId,
-      type: 'badge_awarded',
-      title: `Badge earned: ${definition.name}`,
-      message: definition.description,
-      data: {
-        badgeSlug: definition.slug,
-        badgeDefinitionId: definition.id,
-        badgeName: definition.name,
-        badgeDescription: definition.description,
-        badgeIconUrl: definition.iconUrl,
-        badgeCategory: definition.category,
-        badgeTier: definition.tier,
-        reason: describeBadgeRequirement({
-          category: definition.category,
-          conditions: definition.conditions,
-        }),
-        source: 'academy',
-      },
+      badgeSlug: definition.slug,
+      badgeDefinitionId: definition.id,
+      badgeName: definition.name,
+      badgeDescription: definition.description,
+      badgeIconUrl: definition.iconUrl,
+      badgeCategory: definition.category,
+      badgeTier: definition.tier,
+      reason: describeBadgeRequirement({
+        category: definition.category,
+        conditions: definition.conditions,
+      }),
+      source: 'academy',
     },
   });
 
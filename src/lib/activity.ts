@@ -0,0 +1,120 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { ActivityEntity, ActivityFieldChange } from '@/types';
+
+export interface RecordActivityParams {
+  boardId: string;
+  userId: string;
+  action: string;
+  entity: ActivityEntity;
+  entityId: string;
+  data?: Record<string, unknown>;
+}
+
+// Scalar card fields whose old/new values are stored verbatim in the log.
+const TRACKED_CARD_FIELDS = ['title', 'color'] as const;
+// Fields that are only flagged as changed (values can be large).
+const CHANGE_ONLY_CARD_FIELDS = ['description', 'featureImage'] as const;
+// JSON blobs diffed key-by-key, e.g. taskData.storyPoints.
+const CARD_DATA_FIELDS = ['taskData', 'userStoryData', 'epicData', 'utilityData'] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Compare the given scalar fields of a record before and after an update.
+ * Fields missing from `after` are treated as untouched, matching PATCH semantics.
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  fields: readonly string[]
+): ActivityFieldChange[] {
+  return fields
+    .filter((field) => after[field] !== undefined && !isSameValue(before[field], after[field]))
+    .map((field) => ({ field, from: before[field] ?? null, to: after[field] ?? null }));
+}
+
+/**
+ * Compute the list of field changes between a card before and after an update.
+ */
+export function diffCardChanges(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): ActivityFieldChange[] {
+  const changes = diffFields(before, after, TRACKED_CARD_FIELDS);
+
+  for (const field of CHANGE_ONLY_CARD_FIELDS) {
+    if (after[field] === undefined) continue;
+    if (!isSameValue(before[field], after[field])) {
+      changes.push({ field });
+    }
+  }
+
+  for (const field of CARD_DATA_FIELDS) {
+    const next = after[field];
+    if (!isPlainObject(next)) continue;
+    const prev = isPlainObject(before[field]) ? before[field] : {};
+
+    const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+    for (const key of keys) {
+      if (!isSameValue(prev[key], next[key])) {
+        changes.push({ field: `${field}.${key}`, from: prev[key] ?? null, to: next[key] ?? null });
+      }
+    }
+  }
+
+  return changes;
+}
+
+const PREVIEW_MAX_LENGTH = 140;
+
+/**
+ * Shorten free text (comments, descriptions) for storage in activity data.
+ */
+export function toActivityPreview(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  return normalized.length > PREVIEW_MAX_LENGTH
+    ? `${normalized.slice(0, PREVIEW_MAX_LENGTH - 1)}…`
+    : normalized;
+}
+
+function toCreateInput(params: RecordActivityParams): Prisma.ActivityCreateManyInput {
+  return {
+    boardId: params.boardId,
+    userId: params.userId,
+    action: params.action,
+    entity: params.entity,
+    entityId: params.entityId,
+    data: (params.data || {}) as Prisma.InputJsonValue,
+  };
+}
+
+/**
+ * Append an entry to the board activity log.
+ * Logging is best-effort: failures are reported but never fail the caller.
+ */
+export async function recordActivity(params: RecordActivityParams): Promise<void> {
+  try {
+    await prisma.activity.create({ data: toCreateInput(params) });
+  } catch (error) {
+    console.error('Failed to record activity:', error);
+  }
+}
+
+/**
+ * Append several entries in one query (bulk creates, module applies).
+ */
+export async function recordActivities(entries: RecordActivityParams[]): Promise<void> {
+  if (entries.length === 0) return;
+  try {
+    await prisma.activity.createMany({ data: entries.map(toCreateInput) });
+  } catch (error) {
+    console.error('Failed to record activity:', error);
+  }
+}
@@ -1,5 +1,21 @@
+import { BOARD_CLIENT_ID_HEADER } from '@/lib/board-event-patches';
+
+let clientId: string | null = null;
+
+/** Random id for this browser tab, used to skip live board events the tab caused itself. */
+export function getClientId(): string {
+  clientId ??= typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+  return clientId;
+}
+
 export async function apiFetch<T>(url: string, init?: RequestInit): Promise<T> {
-  const res = await fetch(url, init);
+  const headers = new Headers(init?.headers);
+  if (typeof window !== 'undefined' && !headers.has(BOARD_CLIENT_ID_HEADER)) {
+    headers.set(BOARD_CLIENT_ID_HEADER, getClientId());
+  }
+  const res = await fetch(url, { ...init, headers });
   const json = await res.json();
   if (!json.success) throw new Error(json.error?.message || 'API error');
   return json.data as T;
@@ -0,0 +1,111 @@
+import type { ApiTokenScope } from '@/types';
+import type { ParseResult } from './automation-rules';
+
+// Kept free of Node APIs: src/middleware.ts imports the header names on the edge runtime.
+
+export const API_TOKEN_PREFIX = 'pp_live_';
+/** Characters of the token kept in plain text so users can tell their tokens apart. */
+export const API_TOKEN_DISPLAY_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export const API_TOKEN_SCOPES: ApiTokenScope[] = ['read', 'write'];
+export const MAX_API_TOKEN_NAME_LENGTH = 100;
+export const MAX_API_TOKEN_BOARDS = 50;
+export const MAX_API_TOKEN_LIFETIME_DAYS = 365;
+
+/**
+ * Set by src/middleware.ts on Bearer requests (overwriting anything the client sent),
+ * so `requireAuth` can apply token scopes without every route passing its request in.
+ */
+export const API_TOKEN_METHOD_HEADER = 'x-api-token-method';
+export const API_TOKEN_PATH_HEADER = 'x-api-token-path';
+
+const READ_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+const TOKEN_MANAGEMENT_PATH = '/api/me/api-tokens';
+const BOARD_PATH_PATTERN = /^\/api\/boards\/([^/]+)(?:\/|$)/;
+
+export interface ApiTokenGrant {
+  scope: ApiTokenScope;
+  boardIds: string[] | null;
+}
+
+/** The token from an `Authorization: Bearer pp_live_...` header, or null for anything else. */
+export function readBearerToken(authorization: string | null): string | null {
+  if (!authorization?.startsWith('Bearer ')) return null;
+  const token = authorization.slice('Bearer '.length).trim();
+  return token.startsWith(API_TOKEN_PREFIX) ? token : null;
+}
+
+/**
+ * Check a token request against the token's scope and board limit.
+ *
+ * @returns A message explaining the refusal, or null when the request is allowed
+ */
+export function checkApiTokenAccess(
+  grant: ApiTokenGrant,
+  method: string | null,
+  path: string | null
+): string | null {
+  // Without the middleware stamp we cannot tell what is being asked for, so refuse.
+  if (!method || !path) return 'API token requests could not be verified';
+
+  if (path === TOKEN_MANAGEMENT_PATH || path.startsWith(`${TOKEN_MANAGEMENT_PATH}/`)) {
+    return 'API tokens cannot be managed with an API token';
+  }
+  if (grant.scope === 'read' && !READ_METHODS.includes(method.toUpperCase())) {
+    return 'This API token is read-only';
+  }
+  if (grant.boardIds) {
+    const boardId = BOARD_PATH_PATTERN.exec(path)?.[1];
+    if (!boardId || !grant.boardIds.includes(decodeURIComponent(boardId))) {
+      return 'This API token is limited to specific boards';
+    }
+  }
+  return null;
+}
+
+export function isApiTokenExpired(expiresAt: Date | null, now: Date = new Date()): boolean {
+  return expiresAt !== null && expiresAt.getTime() <= now.getTime();
+}
+
+export function parseApiTokenName(value: unknown): ParseResult<string> {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name) return { error: 'Token name is required' };
+  if (name.length > MAX_API_TOKEN_NAME_LENGTH) {
+    return { error: `Token name cannot exceed ${MAX_API_TOKEN_NAME_LENGTH} characters` };
+  }
+  return { value: name };
+}
+
+export function parseApiTokenScope(value: unknown): ParseResult<ApiTokenScope> {
+  if (value === undefined) return { value: 'read' };
+  if (!API_TOKEN_SCOPES.includes(value as ApiTokenScope)) {
+    return { error: `Scope must be one of: ${API_TOKEN_SCOPES.join(', ')}` };
+  }
+  return { value: value as ApiTokenScope };
+}
+
+export function parseApiTokenBoardIds(value: unknown): ParseResult<string[] | null> {
+  if (value === undefined || value === null) return { value: null };
+  if (!Array.isArray(value) || value.some((id) => typeof id !== 'string' || !id.trim())) {
+    return { error: 'boardIds must be a list of board IDs, or null for every board' };
+  }
+  const boardIds = [...new Set(value.map((id: string) => id.trim()))];
+  if (boardIds.length === 0) return { error: 'Pick at least one board, or null for every board' };
+  if (boardIds.length > MAX_API_TOKEN_BOARDS) {
+    return { error: `A token can be limited to at most ${MAX_API_TOKEN_BOARDS} boards` };
+  }
+  return { value: boardIds };
+}
+
+export function parseApiTokenExpiry(value: unknown, now: Date = new Date()): ParseResult<Date | null> {
+  if (value === undefined || value === null) return { value: null };
+  if (
+    typeof value !== 'number'
+    || !Number.isInteger(value)
+    || value < 1
+    || value > MAX_API_TOKEN_LIFETIME_DAYS
+  ) {
+    return { error: `expiresInDays must be a whole number from 1 to ${MAX_API_TOKEN_LIFETIME_DAYS}, or null` };
+  }
+  return { value: new Date(now.getTime() + value * 24 * 60 * 60 * 1000) };
+}
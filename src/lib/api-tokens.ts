@@ -0,0 +1,127 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import {
+  API_TOKEN_DISPLAY_LENGTH,
+  API_TOKEN_PREFIX,
+  checkApiTokenAccess,
+  isApiTokenExpired,
+  type ApiTokenGrant,
+} from '@/lib/api-token-scopes';
+import type { ApiToken, ApiTokenScope, UserPermission } from '@/types';
+
+/** lastUsedAt is only rewritten once per window, so busy scripts don't write on every call. */
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** A new random token with the hash and display prefix to store. The token itself is never stored. */
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = `${API_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, API_TOKEN_DISPLAY_LENGTH),
+  };
+}
+
+export interface ApiTokenUser {
+  id: string;
+  email: string;
+  name: string | null;
+  image: string | null;
+  permission: UserPermission;
+}
+
+export type ApiTokenAuthResult =
+  | { user: ApiTokenUser; grant: ApiTokenGrant & { id: string }; expiresAt: Date | null; status?: never; error?: never }
+  | { user?: never; grant?: never; expiresAt?: never; status: 401 | 403; error: string };
+
+/**
+ * Resolve a Bearer token to its user and check the request against the token's scope.
+ * `method` and `path` come from the headers stamped by src/middleware.ts.
+ */
+export async function authenticateApiToken(
+  token: string,
+  method: string | null,
+  path: string | null
+): Promise<ApiTokenAuthResult> {
+  const record = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: {
+        select: { id: true, email: true, name: true, image: true, permission: true, deletedAt: true },
+      },
+    },
+  });
+
+  if (!record || record.user.deletedAt) {
+    return { status: 401, error: 'Invalid API token' };
+  }
+
+  const now = new Date();
+  if (isApiTokenExpired(record.expiresAt, now)) {
+    return { status: 401, error: 'API token has expired' };
+  }
+
+  const grant: ApiTokenGrant = {
+    scope: record.scope as ApiTokenScope,
+    boardIds: readBoardIds(record.boardIds),
+  };
+  const denial = checkApiTokenAccess(grant, method, path);
+  if (denial) {
+    return { status: 403, error: denial };
+  }
+
+  if (!record.lastUsedAt || now.getTime() - record.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+    await prisma.apiToken.update({
+      where: { id: record.id },
+      data: { lastUsedAt: now },
+    }).catch((error) => {
+      console.error('Failed to record API token use:', error);
+    });
+  }
+
+  const { user } = record;
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      image: user.image,
+      permission: user.permission as UserPermission,
+    },
+    grant: { id: record.id, ...grant },
+    expiresAt: record.expiresAt,
+  };
+}
+
+function readBoardIds(value: Prisma.JsonValue | null): string[] | null {
+  return Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : null;
+}
+
+type ApiTokenRecord = {
+  id: string;
+  name: string;
+  prefix: string;
+  scope: string;
+  boardIds: Prisma.JsonValue | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+export function toApiToken(token: ApiTokenRecord): ApiToken {
+  return {
+    id: token.id,
+    name: token.name,
+    prefix: token.prefix,
+    scope: token.scope as ApiTokenScope,
+    boardIds: readBoardIds(token.boardIds),
+    expiresAt: token.expiresAt?.toISOString() ?? null,
+    lastUsedAt: token.lastUsedAt?.toISOString() ?? null,
+    createdAt: token.createdAt.toISOString(),
+  };
+}
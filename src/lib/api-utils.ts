@@ -8,8 +8,16 @@
  */
 
 import { NextResponse } from 'next/server';
+import { headers } from 'next/headers';
 import { auth } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import {
+  API_TOKEN_METHOD_HEADER,
+  API_TOKEN_PATH_HEADER,
+  readBearerToken,
+  type ApiTokenGrant,
+} from '@/lib/api-token-scopes';
+import { authenticateApiToken } from '@/lib/api-tokens';
 import type { Session } from 'next-auth';
 
 /**
@@ -86,15 +94,48 @@ export const ApiErrors = {
   internal: (message = 'Internal server error') => apiError('INTERNAL_ERROR', message, 500),
 } as const;
 
+/**
+ * The personal API token a request authenticated with.
+ */
+export type ApiTokenSession = ApiTokenGrant & { id: string };
+
 /**
  * Get the authenticated session or return an unauthorized response.
  *
+ * Requests with an `Authorization: Bearer pp_live_...` header authenticate with a
+ * personal API token instead of the NextAuth cookie. The token's scope and board
+ * limit are checked here, and the session carries `apiToken` so routes can tell.
+ *
  * @returns Object with either session (if authenticated) or response (if not)
  */
 export async function requireAuth(): Promise<
-  | { session: Session & { user: { id: string } }; response?: never }
+  | { session: Session & { user: { id: string }; apiToken?: ApiTokenSession }; response?: never }
   | { session?: never; response: NextResponse<ApiResponse> }
 > {
+  const requestHeaders = await headers();
+  const bearerToken = readBearerToken(requestHeaders.get('authorization'));
+  if (bearerToken) {
+    const result = await authenticateApiToken(
+      bearerToken,
+      requestHeaders.get(API_TOKEN_METHOD_HEADER),
+      requestHeaders.get(API_TOKEN_PATH_HEADER)
+    );
+    if (result.error !== undefined) {
+      return {
+        response: result.status === 401
+          ? apiError('UNAUTHORIZED', result.error, 401)
+          : ApiErrors.forbidden(result.error),
+      };
+    }
+    return {
+      session: {
+        user: result.user,
+        expires: (result.expiresAt ?? new Date(Date.now() + 24 * 60 * 60 * 1000)).toISOString(),
+        apiToken: result.grant,
+      },
+    };
+  }
+
   const session = await auth();
 
   if (!session?.user?.id) {
@@ -230,3 +271,28 @@ export async function requireBoardAdmin(
 
   return result;
 }
+
+/**
+ * List the boards a user may read, for queries that span many boards.
+ * Mirrors requireBoardMember: SUPER_ADMIN users can read every board.
+ *
+ * @param userId - The authenticated user's ID
+ * @returns Board IDs the user is a member of, or null when unrestricted
+ */
+export async function getAccessibleBoardIds(userId: string): Promise<string[] | null> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { permission: true },
+  });
+
+  if (user?.permission === 'SUPER_ADMIN') {
+    return null;
+  }
+
+  const memberships = await prisma.boardMember.findMany({
+    where: { userId },
+    select: { boardId: true },
+  });
+
+  return memberships.map((membership) => membership.boardId);
+}
@@ -0,0 +1,314 @@
+import type {
+  AutomationAction,
+  AutomationActionResult,
+  AutomationCondition,
+  AutomationRunStatus,
+  AutomationTrigger,
+  AutomationTriggerType,
+  CardType,
+} from '@/types';
+
+export const AUTOMATION_TRIGGER_TYPES: AutomationTriggerType[] = [
+  'card_entered_list',
+  'checklist_completed',
+  'deadline_passed',
+  'approval_granted',
+  'card_created_from_module',
+];
+
+export const AUTOMATION_ACTION_TYPES: AutomationAction['type'][] = [
+  'move_card',
+  'assign_user',
+  'add_tag',
+  'add_checklist',
+  'notify',
+  'post_to_slack',
+  'set_deadline',
+];
+
+const CARD_TYPES: CardType[] = ['TASK', 'USER_STORY', 'EPIC', 'UTILITY'];
+const STORY_POINT_OPERATORS = ['eq', 'gte', 'lte'] as const;
+const NOTIFY_TARGETS = ['assignees', 'approvers', 'user'] as const;
+
+export const MAX_RULE_NAME_LENGTH = 100;
+export const MAX_RULE_CONDITIONS = 10;
+export const MAX_RULE_ACTIONS = 10;
+export const MAX_AUTOMATION_MESSAGE_LENGTH = 1000;
+export const MAX_DEADLINE_OFFSET_DAYS = 365;
+
+export type ParseResult<T> = { value: T; error?: never } | { value?: never; error: string };
+
+/** Something that happened to a card, reported by the route that made it happen. */
+export interface AutomationEvent {
+  type: AutomationTriggerType;
+  cardId: string;
+  /** card_entered_list: the list the card is now in. */
+  listId?: string;
+  /** checklist_completed: name of the checklist whose last item was ticked. */
+  checklistName?: string;
+  /** approval_granted: the approval given in this change, and the state after it. */
+  approval?: 'po' | 'lead';
+  approvals?: { po: boolean; lead: boolean };
+  /** card_created_from_module: the module that was applied. */
+  moduleId?: string;
+}
+
+/** The card fields conditions look at. */
+export interface AutomationCardContext {
+  id: string;
+  title: string;
+  type: CardType;
+  listId: string;
+  tagIds: string[];
+  assigneeIds: string[];
+  storyPoints: number | null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseMessage(value: unknown): ParseResult<string> {
+  const message = nonEmptyString(value);
+  if (!message) return { error: 'Message is required' };
+  if (message.length > MAX_AUTOMATION_MESSAGE_LENGTH) {
+    return { error: `Message cannot exceed ${MAX_AUTOMATION_MESSAGE_LENGTH} characters` };
+  }
+  return { value: message };
+}
+
+export function parseRuleName(value: unknown): ParseResult<string> {
+  const name = nonEmptyString(value);
+  if (!name) return { error: 'Rule name is required' };
+  if (name.length > MAX_RULE_NAME_LENGTH) {
+    return { error: `Rule name cannot exceed ${MAX_RULE_NAME_LENGTH} characters` };
+  }
+  return { value: name };
+}
+
+export function parseAutomationTrigger(value: unknown): ParseResult<AutomationTrigger> {
+  if (!isRecord(value) || !AUTOMATION_TRIGGER_TYPES.includes(value.type as AutomationTriggerType)) {
+    return { error: `Trigger type must be one of: ${AUTOMATION_TRIGGER_TYPES.join(', ')}` };
+  }
+
+  const type = value.type as AutomationTriggerType;
+  switch (type) {
+    case 'card_entered_list': {
+      const listId = nonEmptyString(value.listId);
+      return { value: listId ? { type, listId } : { type } };
+    }
+    case 'checklist_completed': {
+      const checklistName = nonEmptyString(value.checklistName);
+      return { value: checklistName ? { type, checklistName } : { type } };
+    }
+    case 'approval_granted': {
+      const approval = value.approval ?? 'both';
+      if (approval !== 'po' && approval !== 'lead' && approval !== 'both') {
+        return { error: 'Approval must be po, lead or both' };
+      }
+      return { value: { type, approval } };
+    }
+    case 'card_created_from_module': {
+      const moduleId = nonEmptyString(value.moduleId);
+      return { value: moduleId ? { type, moduleId } : { type } };
+    }
+    case 'deadline_passed':
+      return { value: { type } };
+  }
+}
+
+function parseCondition(value: unknown): ParseResult<AutomationCondition> {
+  if (!isRecord(value)) return { error: 'Invalid condition' };
+
+  switch (value.type) {
+    case 'card_type':
+      if (!CARD_TYPES.includes(value.cardType as CardType)) {
+        return { error: `Card type must be one of: ${CARD_TYPES.join(', ')}` };
+      }
+      return { value: { type: 'card_type', cardType: value.cardType as CardType } };
+    case 'has_tag': {
+      const tagId = nonEmptyString(value.tagId);
+      if (!tagId) return { error: 'Tag condition requires a tagId' };
+      return { value: { type: 'has_tag', tagId } };
+    }
+    case 'assignee':
+      if (value.userId !== null && !nonEmptyString(value.userId)) {
+        return { error: 'Assignee condition requires a userId (or null for unassigned)' };
+      }
+      return { value: { type: 'assignee', userId: value.userId === null ? null : nonEmptyString(value.userId) } };
+    case 'story_points': {
+      const operator = value.operator as (typeof STORY_POINT_OPERATORS)[number];
+      if (!STORY_POINT_OPERATORS.includes(operator)) {
+        return { error: 'Story point operator must be eq, gte or lte' };
+      }
+      if (typeof value.value !== 'number' || !Number.isFinite(value.value) || value.value < 0) {
+        return { error: 'Story point value must be a non-negative number' };
+      }
+      return { value: { type: 'story_points', operator, value: value.value } };
+    }
+    default:
+      return { error: 'Condition type must be one of: card_type, has_tag, assignee, story_points' };
+  }
+}
+
+function parseAction(value: unknown): ParseResult<AutomationAction> {
+  if (!isRecord(value)) return { error: 'Invalid action' };
+
+  switch (value.type) {
+    case 'move_card': {
+      const listId = nonEmptyString(value.listId);
+      if (!listId) return { error: 'Move action requires a listId' };
+      return { value: { type: 'move_card', listId } };
+    }
+    case 'assign_user': {
+      const userId = nonEmptyString(value.userId);
+      if (!userId) return { error: 'Assign action requires a userId' };
+      return { value: { type: 'assign_user', userId } };
+    }
+    case 'add_tag': {
+      const tagId = nonEmptyString(value.tagId);
+      if (!tagId) return { error: 'Tag action requires a tagId' };
+      return { value: { type: 'add_tag', tagId } };
+    }
+    case 'add_checklist': {
+      const name = nonEmptyString(value.name);
+      if (!name) return { error: 'Checklist action requires a name' };
+      const items = Array.isArray(value.items)
+        ? value.items.map(nonEmptyString).filter((item): item is string => item !== null)
+        : [];
+      return { value: { type: 'add_checklist', name, items } };
+    }
+    case 'notify': {
+      const target = value.target as (typeof NOTIFY_TARGETS)[number];
+      if (!NOTIFY_TARGETS.includes(target)) {
+        return { error: 'Notify target must be assignees, approvers or user' };
+      }
+      const userId = nonEmptyString(value.userId);
+      if (target === 'user' && !userId) return { error: 'Notify action requires a userId' };
+      const message = parseMessage(value.message);
+      if (message.error !== undefined) return { error: message.error };
+      return {
+        value: target === 'user'
+          ? { type: 'notify', target, userId: userId!, message: message.value }
+          : { type: 'notify', target, message: message.value },
+      };
+    }
+    case 'post_to_slack': {
+      const message = parseMessage(value.message);
+      if (message.error !== undefined) return { error: message.error };
+      const channelId = nonEmptyString(value.channelId);
+      return {
+        value: channelId
+          ? { type: 'post_to_slack', channelId, message: message.value }
+          : { type: 'post_to_slack', message: message.value },
+      };
+    }
+    case 'set_deadline': {
+      const days = value.daysFromNow;
+      if (typeof days !== 'number' || !Number.isInteger(days) || days < 0 || days > MAX_DEADLINE_OFFSET_DAYS) {
+        return { error: `Deadline offset must be a whole number of days between 0 and ${MAX_DEADLINE_OFFSET_DAYS}` };
+      }
+      return { value: { type: 'set_deadline', daysFromNow: days } };
+    }
+    default:
+      return { error: `Action type must be one of: ${AUTOMATION_ACTION_TYPES.join(', ')}` };
+  }
+}
+
+export function parseAutomationConditions(value: unknown): ParseResult<AutomationCondition[]> {
+  if (value === undefined || value === null) return { value: [] };
+  if (!Array.isArray(value)) return { error: 'Conditions must be an array' };
+  if (value.length > MAX_RULE_CONDITIONS) {
+    return { error: `A rule can have at most ${MAX_RULE_CONDITIONS} conditions` };
+  }
+
+  const conditions: AutomationCondition[] = [];
+  for (const entry of value) {
+    const parsed = parseCondition(entry);
+    if (parsed.error !== undefined) return { error: parsed.error };
+    conditions.push(parsed.value);
+  }
+  return { value: conditions };
+}
+
+export function parseAutomationActions(value: unknown): ParseResult<AutomationAction[]> {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'A rule needs at least one action' };
+  }
+  if (value.length > MAX_RULE_ACTIONS) {
+    return { error: `A rule can have at most ${MAX_RULE_ACTIONS} actions` };
+  }
+
+  const actions: AutomationAction[] = [];
+  for (const entry of value) {
+    const parsed = parseAction(entry);
+    if (parsed.error !== undefined) return { error: parsed.error };
+    actions.push(parsed.value);
+  }
+  return { value: actions };
+}
+
+export function matchesTrigger(trigger: AutomationTrigger, event: AutomationEvent): boolean {
+  if (trigger.type !== event.type) return false;
+
+  switch (trigger.type) {
+    case 'card_entered_list':
+      return !trigger.listId || trigger.listId === event.listId;
+    case 'checklist_completed':
+      return !trigger.checklistName
+        || trigger.checklistName.toLowerCase() === event.checklistName?.trim().toLowerCase();
+    case 'approval_granted': {
+      const wanted = trigger.approval ?? 'both';
+      if (wanted === 'both') {
+        return Boolean(event.approval && event.approvals?.po && event.approvals.lead);
+      }
+      return event.approval === wanted;
+    }
+    case 'card_created_from_module':
+      return !trigger.moduleId || trigger.moduleId === event.moduleId;
+    case 'deadline_passed':
+      return true;
+  }
+}
+
+function matchesCondition(condition: AutomationCondition, card: AutomationCardContext): boolean {
+  switch (condition.type) {
+    case 'card_type':
+      return card.type === condition.cardType;
+    case 'has_tag':
+      return card.tagIds.includes(condition.tagId);
+    case 'assignee':
+      return condition.userId === null
+        ? card.assigneeIds.length === 0
+        : card.assigneeIds.includes(condition.userId);
+    case 'story_points': {
+      if (card.storyPoints === null) return false;
+      if (condition.operator === 'gte') return card.storyPoints >= condition.value;
+      if (condition.operator === 'lte') return card.storyPoints <= condition.value;
+      return card.storyPoints === condition.value;
+    }
+  }
+}
+
+/** Every condition must hold; a rule without conditions matches any card. */
+export function matchesConditions(conditions: AutomationCondition[], card: AutomationCardContext): boolean {
+  return conditions.every((condition) => matchesCondition(condition, card));
+}
+
+/** Fill `{card}`, `{list}` and `{board}` placeholders in a notify/Slack message. */
+export function renderAutomationMessage(
+  template: string,
+  values: { card: string; list: string; board: string }
+): string {
+  return template.replace(/\{(card|list|board)\}/g, (_match, key: keyof typeof values) => values[key]);
+}
+
+export function getRunStatus(results: AutomationActionResult[]): AutomationRunStatus {
+  const succeeded = results.filter((result) => result.ok).length;
+  if (succeeded === results.length) return 'success';
+  return succeeded === 0 ? 'failed' : 'partial';
+}
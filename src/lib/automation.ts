@@ -0,0 +1,669 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { recordActivity } from '@/lib/activity';
+import { createNotificationWithSlackDM } from '@/lib/notifications';
+import { handleCardListTransition, isDoneList, isInProgressList } from '@/lib/quality-review';
+import { resolveApprovers } from '@/lib/role-utils';
+import { syncTimeTrackingForMove } from '@/lib/time-tracking';
+import { isSlackConfigured, postSlackMessage } from '@/lib/slack';
+import {
+  describeDependencyBlocker,
+  findBlockingPredecessor,
+  getDependencyEnforcement,
+  isStartedList,
+} from '@/lib/task-dependencies';
+import { checkWipLimits, describeWipViolations, getWipLimitEnforcement } from '@/lib/wip-limits';
+import { emitCardMovedWebhooks } from '@/lib/webhooks';
+import { publishBoardEvent } from '@/lib/board-events';
+import {
+  getRunStatus,
+  matchesConditions,
+  matchesTrigger,
+  parseAutomationActions,
+  parseAutomationConditions,
+  parseAutomationTrigger,
+  renderAutomationMessage,
+  type AutomationCardContext,
+  type AutomationEvent,
+} from '@/lib/automation-rules';
+import type {
+  AutomationAction,
+  AutomationActionResult,
+  AutomationCondition,
+  AutomationRule,
+  AutomationRun,
+  AutomationRunStatus,
+  AutomationTrigger,
+  AutomationTriggerType,
+  BoardSettings,
+  CardType,
+} from '@/types';
+
+/** How many rule-caused moves may cascade into further rules before we stop. */
+export const MAX_AUTOMATION_DEPTH = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RunAutomationsParams {
+  boardId: string;
+  event: AutomationEvent;
+  /** User whose change fired the event; null for cron-fired triggers. */
+  actorId: string | null;
+  /** Restrict the run to these rules (the deadline cron skips rules that already fired). */
+  ruleIds?: string[];
+  depth?: number;
+}
+
+export interface AutomationRunSummary {
+  ruleId: string;
+  ruleName: string;
+  status: AutomationRunStatus;
+  results: AutomationActionResult[];
+}
+
+interface LoadedCard extends AutomationCardContext {
+  list: { id: string; name: string; phase: string | null; viewType: string };
+  position: number;
+  taskData: Prisma.JsonValue | null;
+}
+
+interface ActionContext {
+  boardId: string;
+  board: { name: string; settings: BoardSettings };
+  rule: { id: string; name: string };
+  card: LoadedCard;
+  /** Who the activity log credits: the triggering user, else the rule author. */
+  actorId: string | null;
+  /** Events caused by this rule's actions, run once the rule finishes. */
+  followUps: AutomationEvent[];
+}
+
+class AutomationActionError extends Error {}
+
+async function loadCard(boardId: string, cardId: string): Promise<LoadedCard | null> {
+  const card = await prisma.card.findFirst({
+    where: { id: cardId, archivedAt: null, list: { boardId } },
+    select: {
+      id: true,
+      title: true,
+      type: true,
+      position: true,
+      taskData: true,
+      list: { select: { id: true, name: true, phase: true, viewType: true } },
+      tags: { select: { tagId: true } },
+      assignees: { select: { userId: true } },
+    },
+  });
+  if (!card) return null;
+
+  const storyPoints = (card.taskData as { storyPoints?: unknown } | null)?.storyPoints;
+  return {
+    id: card.id,
+    title: card.title,
+    type: card.type as CardType,
+    listId: card.list.id,
+    list: card.list,
+    position: card.position,
+    taskData: card.taskData,
+    tagIds: card.tags.map((tag) => tag.tagId),
+    assigneeIds: card.assignees.map((assignee) => assignee.userId),
+    storyPoints: typeof storyPoints === 'number' && Number.isFinite(storyPoints) ? storyPoints : null,
+  };
+}
+
+function messageValues(ctx: ActionContext) {
+  return { card: ctx.card.title, list: ctx.card.list.name, board: ctx.board.name };
+}
+
+async function logActivity(
+  ctx: ActionContext,
+  action: string,
+  data: Record<string, unknown>
+): Promise<void> {
+  if (!ctx.actorId) return;
+  await recordActivity({
+    boardId: ctx.boardId,
+    userId: ctx.actorId,
+    action,
+    entity: 'card',
+    entityId: ctx.card.id,
+    data: { ...data, automationRuleId: ctx.rule.id, automationRuleName: ctx.rule.name },
+  });
+}
+
+async function moveCard(ctx: ActionContext, listId: string): Promise<string> {
+  const { card } = ctx;
+  if (card.list.id === listId) return `Already in ${card.list.name}`;
+
+  const destination = await prisma.list.findFirst({
+    where: { id: listId, boardId: ctx.boardId },
+    select: { id: true, name: true, phase: true, viewType: true },
+  });
+  if (!destination) throw new AutomationActionError('Target list no longer exists');
+
+  // Rules get no special pass around the board's own block-mode rules.
+  if (
+    getDependencyEnforcement(ctx.board.settings) === 'block'
+    && isStartedList(destination)
+    && !isStartedList(card.list)
+  ) {
+    const blocker = await findBlockingPredecessor(ctx.boardId, card.id);
+    if (blocker) throw new AutomationActionError(describeDependencyBlocker(blocker));
+  }
+  if (getWipLimitEnforcement(ctx.board.settings) === 'block') {
+    const wipCheck = await checkWipLimits({ listId: destination.id, cardId: card.id, assigneeIds: card.assigneeIds });
+    if (wipCheck) throw new AutomationActionError(describeWipViolations(wipCheck));
+  }
+
+  const position = await prisma.$transaction(async (tx) => {
+    const last = await tx.card.findFirst({
+      where: { listId: destination.id, archivedAt: null },
+      orderBy: { position: 'desc' },
+      select: { position: true },
+    });
+    const nextPosition = (last?.position ?? -1) + 1;
+
+    await tx.card.update({
+      where: { id: card.id },
+      data: { listId: destination.id, position: nextPosition },
+    });
+
+    await tx.card.updateMany({
+      where: { listId: card.list.id, position: { gt: card.position } },
+      data: { position: { decrement: 1 } },
+    });
+
+    // Activate preview assignments when moving from Planning to Tasks list
+    if (card.list.viewType === 'PLANNING' && destination.viewType === 'TASKS') {
+      await tx.cardUser.updateMany({
+        where: { cardId: card.id, activatedAt: null },
+        data: { activatedAt: new Date() },
+      });
+    }
+
+    await handleCardListTransition(tx, {
+      cardId: card.id,
+      fromList: card.list,
+      toList: destination,
+      boardSettings: ctx.board.settings as Prisma.JsonValue,
+    });
+
+    return nextPosition;
+  });
+
+  await logActivity(ctx, 'moved', {
+    cardTitle: card.title,
+    fromListId: card.list.id,
+    fromListName: card.list.name,
+    toListId: destination.id,
+    toListName: destination.name,
+    automatic: true,
+  });
+
+  await emitCardMovedWebhooks({
+    boardId: ctx.boardId,
+    actorId: ctx.actorId,
+    card: { id: card.id, title: card.title, type: card.type },
+    fromList: card.list,
+    toList: destination,
+    automatic: true,
+  });
+
+  // Keep the mover's time log in step, as a manual move would
+  const wasInProgress = isInProgressList(card.list.name);
+  const isNowInProgress = isInProgressList(destination.name);
+  if (ctx.actorId && (wasInProgress || isNowInProgress)) {
+    await syncTimeTrackingForMove({
+      cardId: card.id,
+      userId: ctx.actorId,
+      destListId: destination.id,
+      wasInProgress,
+      isNowInProgress,
+    });
+  }
+
+  const fromName = card.list.name;
+  card.list = destination;
+  card.listId = destination.id;
+  card.position = position;
+  ctx.followUps.push({ type: 'card_entered_list', cardId: card.id, listId: destination.id });
+  return `Moved from ${fromName} to ${destination.name}`;
+}
+
+async function assignUser(ctx: ActionContext, userId: string): Promise<string> {
+  const { card } = ctx;
+  if (card.assigneeIds.includes(userId)) return 'Already assigned';
+  if (card.type === 'TASK' && card.assigneeIds.length > 0) {
+    throw new AutomationActionError('Task cards can only have one assignee');
+  }
+
+  const membership = await prisma.boardMember.findUnique({
+    where: { userId_boardId: { userId, boardId: ctx.boardId } },
+    select: { user: { select: { name: true } } },
+  });
+  if (!membership) throw new AutomationActionError('User is not a member of this board');
+
+  await prisma.cardUser.create({ data: { userId, cardId: card.id } });
+  card.assigneeIds.push(userId);
+
+  await logActivity(ctx, 'assignee_added', { assigneeId: userId, assigneeName: membership.user.name });
+  return `Assigned ${membership.user.name || 'user'}`;
+}
+
+async function addTag(ctx: ActionContext, tagId: string): Promise<string> {
+  const { card } = ctx;
+  if (card.tagIds.includes(tagId)) return 'Tag already present';
+
+  // Global tags, or tags of the studio the board's team belongs to
+  const tag = await prisma.tag.findFirst({
+    where: {
+      id: tagId,
+      OR: [{ studioId: null }, { studio: { teams: { some: { boards: { some: { id: ctx.boardId } } } } } }],
+    },
+    select: { name: true },
+  });
+  if (!tag) throw new AutomationActionError('Tag no longer exists or belongs to another studio');
+
+  await prisma.cardTag.createMany({ data: [{ cardId: card.id, tagId }], skipDuplicates: true });
+  card.tagIds.push(tagId);
+  return `Added tag ${tag.name}`;
+}
+
+async function addChecklist(ctx: ActionContext, name: string, items: string[]): Promise<string> {
+  const { card } = ctx;
+  const lastChecklist = await prisma.checklist.findFirst({
+    where: { cardId: card.id },
+    orderBy: { position: 'desc' },
+    select: { position: true },
+  });
+
+  const checklist = await prisma.checklist.create({
+    data: {
+      name,
+      type: 'todo',
+      position: (lastChecklist?.position ?? -1) + 1,
+      cardId: card.id,
+      items: {
+        create: items.map((content, position) => ({ content, position })),
+      },
+    },
+  });
+
+  await logActivity(ctx, 'checklist_added', {
+    checklistId: checklist.id,
+    checklistName: checklist.name,
+    checklistType: checklist.type,
+  });
+  return `Added checklist ${name}`;
+}
+
+async function notify(
+  ctx: ActionContext,
+  action: Extract<AutomationAction, { type: 'notify' }>
+): Promise<string> {
+  let recipientIds: string[];
+  if (action.target === 'assignees') {
+    recipientIds = ctx.card.assigneeIds;
+  } else if (action.target === 'approvers') {
+    recipientIds = resolveApprovers(ctx.board.settings.projectRoleAssignments || []).map((a) => a.userId);
+  } else {
+    recipientIds = action.userId ? [action.userId] : [];
+  }
+  recipientIds = [...new Set(recipientIds)];
+  if (recipientIds.length === 0) throw new AutomationActionError(`No ${action.target} to notify`);
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: recipientIds } },
+    select: { id: true, slackUserId: true },
+  });
+  const message = renderAutomationMessage(action.message, messageValues(ctx));
+
+  for (const user of users) {
+    await createNotificationWithSlackDM({
+      userId: user.id,
+      type: 'automation',
+      title: ctx.rule.name,
+      message,
+      data: { boardId: ctx.boardId, cardId: ctx.card.id, cardTitle: ctx.card.title, ruleId: ctx.rule.id },
+      slackUserId: user.slackUserId,
+    });
+  }
+  return `Notified ${users.length} user(s)`;
+}
+
+async function postToSlack(
+  ctx: ActionContext,
+  action: Extract<AutomationAction, { type: 'post_to_slack' }>
+): Promise<string> {
+  const channelId = action.channelId || ctx.board.settings.slackChannelId?.trim();
+  if (!channelId) throw new AutomationActionError('No Slack channel set on the rule or the board');
+  if (!isSlackConfigured()) throw new AutomationActionError('Slack is not configured');
+
+  await postSlackMessage(channelId, renderAutomationMessage(action.message, messageValues(ctx)));
+  return 'Posted to Slack';
+}
+
+async function setDeadline(ctx: ActionContext, daysFromNow: number): Promise<string> {
+  const { card } = ctx;
+  if (card.type !== 'TASK') throw new AutomationActionError('Only task cards have deadlines');
+
+  const deadline = new Date(Date.now() + daysFromNow * DAY_MS).toISOString();
+  const previous = (card.taskData as { deadline?: string | null } | null)?.deadline ?? null;
+  const taskData = { ...((card.taskData as Record<string, unknown> | null) ?? {}), deadline };
+
+  await prisma.card.update({
+    where: { id: card.id },
+    data: { taskData: taskData as Prisma.InputJsonValue },
+  });
+  card.taskData = taskData as Prisma.JsonValue;
+
+  await logActivity(ctx, 'updated', {
+    cardTitle: card.title,
+    changes: [{ field: 'taskData.deadline', from: previous, to: deadline }],
+  });
+  return `Deadline set to ${deadline.slice(0, 10)}`;
+}
+
+async function executeAction(ctx: ActionContext, action: AutomationAction): Promise<string> {
+  switch (action.type) {
+    case 'move_card': return moveCard(ctx, action.listId);
+    case 'assign_user': return assignUser(ctx, action.userId);
+    case 'add_tag': return addTag(ctx, action.tagId);
+    case 'add_checklist': return addChecklist(ctx, action.name, action.items);
+    case 'notify': return notify(ctx, action);
+    case 'post_to_slack': return postToSlack(ctx, action);
+    case 'set_deadline': return setDeadline(ctx, action.daysFromNow);
+  }
+}
+
+/**
+ * Run every enabled rule on the board whose trigger and conditions match the
+ * event. Actions run in order; a failing action is logged and the rest still
+ * run. Automation never throws: callers have already committed their change.
+ */
+export async function runAutomations({
+  boardId,
+  event,
+  actorId,
+  ruleIds,
+  depth = 0,
+}: RunAutomationsParams): Promise<AutomationRunSummary[]> {
+  try {
+    const rules = await prisma.automationRule.findMany({
+      where: {
+        boardId,
+        enabled: true,
+        trigger: { path: ['type'], equals: event.type },
+        ...(ruleIds && { id: { in: ruleIds } }),
+      },
+      orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+    });
+    if (rules.length === 0) return [];
+
+    const [card, board] = await Promise.all([
+      loadCard(boardId, event.cardId),
+      prisma.board.findUnique({ where: { id: boardId }, select: { name: true, settings: true } }),
+    ]);
+    if (!card || !board) return [];
+
+    const summaries: AutomationRunSummary[] = [];
+    const followUps: AutomationEvent[] = [];
+
+    for (const rule of rules) {
+      const trigger = parseAutomationTrigger(rule.trigger);
+      const conditions = parseAutomationConditions(rule.conditions);
+      const actions = parseAutomationActions(rule.actions);
+      if (trigger.error !== undefined || conditions.error !== undefined || actions.error !== undefined) {
+        console.error(`Skipping malformed automation rule ${rule.id}`);
+        continue;
+      }
+      if (!matchesTrigger(trigger.value, event) || !matchesConditions(conditions.value, card)) continue;
+
+      const ctx: ActionContext = {
+        boardId,
+        board: { name: board.name, settings: (board.settings || {}) as BoardSettings },
+        rule: { id: rule.id, name: rule.name },
+        card,
+        actorId: actorId ?? rule.createdById,
+        followUps,
+      };
+
+      const results: AutomationActionResult[] = [];
+      for (const action of actions.value) {
+        try {
+          results.push({ type: action.type, ok: true, message: await executeAction(ctx, action) });
+        } catch (error) {
+          if (!(error instanceof AutomationActionError)) {
+            console.error(`Automation rule ${rule.id} action ${action.type} failed:`, error);
+          }
+          results.push({
+            type: action.type,
+            ok: false,
+            message: error instanceof Error ? error.message : 'Action failed',
+          });
+        }
+      }
+
+      const status = getRunStatus(results);
+      await prisma.automationRun.create({
+        data: {
+          boardId,
+          ruleId: rule.id,
+          cardId: card.id,
+          cardTitle: card.title,
+          trigger: event.type,
+          status,
+          results: results as unknown as Prisma.InputJsonValue,
+        },
+      });
+      summaries.push({ ruleId: rule.id, ruleName: rule.name, status, results });
+    }
+
+    if (depth + 1 < MAX_AUTOMATION_DEPTH) {
+      for (const followUp of followUps) {
+        summaries.push(...await runAutomations({ boardId, event: followUp, actorId, depth: depth + 1 }));
+      }
+    } else if (followUps.length > 0) {
+      console.warn(`Automation chain on board ${boardId} stopped after ${MAX_AUTOMATION_DEPTH} levels`);
+    }
+
+    return summaries;
+  } catch (error) {
+    console.error('Failed to run automations:', error);
+    return [];
+  }
+}
+
+/** Whether the board has its own rule for an approval, replacing the built-in auto-move to Done. */
+export async function hasApprovalAutomation(boardId: string): Promise<boolean> {
+  const count = await prisma.automationRule.count({
+    where: {
+      boardId,
+      enabled: true,
+      trigger: { path: ['type'], equals: 'approval_granted' },
+    },
+  });
+  return count > 0;
+}
+
+/**
+ * Fire deadline_passed rules for open cards whose deadline has passed.
+ * Each rule fires at most once per card; moving the deadline later re-arms it.
+ */
+export async function runDeadlineAutomations(now = new Date()): Promise<{
+  boardsChecked: number;
+  cardsTriggered: number;
+}> {
+  const rules = await prisma.automationRule.findMany({
+    where: {
+      enabled: true,
+      trigger: { path: ['type'], equals: 'deadline_passed' },
+    },
+    select: { id: true, boardId: true },
+  });
+  const boardIds = [...new Set(rules.map((rule) => rule.boardId))];
+  let cardsTriggered = 0;
+
+  for (const boardId of boardIds) {
+    const cards = await prisma.card.findMany({
+      where: {
+        archivedAt: null,
+        type: 'TASK',
+        list: { boardId },
+      },
+      select: {
+        id: true,
+        taskData: true,
+        list: { select: { id: true, name: true, phase: true, viewType: true } },
+      },
+    });
+
+    const overdue = cards
+      .map((card) => ({
+        card,
+        deadline: new Date((card.taskData as { deadline?: string | null } | null)?.deadline ?? ''),
+      }))
+      .filter(({ card, deadline }) => (
+        !Number.isNaN(deadline.getTime()) && deadline <= now && !isDoneList(card.list)
+      ));
+    if (overdue.length === 0) continue;
+
+    const boardRuleIds = rules.filter((rule) => rule.boardId === boardId).map((rule) => rule.id);
+    const previousRuns = await prisma.automationRun.findMany({
+      where: {
+        ruleId: { in: boardRuleIds },
+        cardId: { in: overdue.map(({ card }) => card.id) },
+        trigger: 'deadline_passed',
+      },
+      select: { ruleId: true, cardId: true, createdAt: true },
+    });
+
+    let boardCardsTriggered = 0;
+    for (const { card, deadline } of overdue) {
+      const pendingRuleIds = boardRuleIds.filter((ruleId) => !previousRuns.some((run) => (
+        run.ruleId === ruleId && run.cardId === card.id && run.createdAt >= deadline
+      )));
+      if (pendingRuleIds.length === 0) continue;
+
+      await runAutomations({
+        boardId,
+        event: { type: 'deadline_passed', cardId: card.id },
+        actorId: null,
+        ruleIds: pendingRuleIds,
+      });
+      boardCardsTriggered += 1;
+    }
+
+    if (boardCardsTriggered > 0) {
+      cardsTriggered += boardCardsTriggered;
+      await publishBoardEvent(boardId, { type: 'board.changed' });
+    }
+  }
+
+  return { boardsChecked: boardIds.length, cardsTriggered };
+}
+
+type AutomationRunRecord = {
+  id: string;
+  ruleId: string;
+  cardId: string | null;
+  cardTitle: string | null;
+  trigger: string;
+  status: string;
+  results: Prisma.JsonValue;
+  createdAt: Date;
+  rule: { name: string };
+};
+
+export function toAutomationRun(run: AutomationRunRecord): AutomationRun {
+  return {
+    id: run.id,
+    ruleId: run.ruleId,
+    ruleName: run.rule.name,
+    cardId: run.cardId,
+    cardTitle: run.cardTitle,
+    trigger: run.trigger as AutomationTriggerType,
+    status: run.status as AutomationRunStatus,
+    results: (Array.isArray(run.results) ? run.results : []) as unknown as AutomationActionResult[],
+    createdAt: run.createdAt.toISOString(),
+  };
+}
+
+type AutomationRuleRecord = {
+  id: string;
+  boardId: string;
+  name: string;
+  enabled: boolean;
+  trigger: Prisma.JsonValue;
+  conditions: Prisma.JsonValue;
+  actions: Prisma.JsonValue;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+  createdBy?: { id: string; name: string | null } | null;
+};
+
+export function toAutomationRule(rule: AutomationRuleRecord): AutomationRule {
+  return {
+    id: rule.id,
+    boardId: rule.boardId,
+    name: rule.name,
+    enabled: rule.enabled,
+    trigger: rule.trigger as unknown as AutomationTrigger,
+    conditions: (Array.isArray(rule.conditions) ? rule.conditions : []) as unknown as AutomationCondition[],
+    actions: (Array.isArray(rule.actions) ? rule.actions : []) as unknown as AutomationAction[],
+    position: rule.position,
+    createdAt: rule.createdAt.toISOString(),
+    updatedAt: rule.updatedAt.toISOString(),
+    createdBy: rule.createdBy ?? null,
+  };
+}
+
+/**
+ * Check that the lists, tags and users a rule points at exist on this board. Tags must be
+ * global or belong to the board's studio.
+ *
+ * @returns A validation message, or null when every reference resolves
+ */
+export async function validateRuleReferences(
+  boardId: string,
+  rule: { trigger: AutomationTrigger; conditions: AutomationCondition[]; actions: AutomationAction[] }
+): Promise<string | null> {
+  const listIds = new Set<string>();
+  const tagIds = new Set<string>();
+  const userIds = new Set<string>();
+
+  if (rule.trigger.listId) listIds.add(rule.trigger.listId);
+  for (const condition of rule.conditions) {
+    if (condition.type === 'has_tag') tagIds.add(condition.tagId);
+    if (condition.type === 'assignee' && condition.userId) userIds.add(condition.userId);
+  }
+  for (const action of rule.actions) {
+    if (action.type === 'move_card') listIds.add(action.listId);
+    if (action.type === 'add_tag') tagIds.add(action.tagId);
+    if (action.type === 'assign_user') userIds.add(action.userId);
+    if (action.type === 'notify' && action.userId) userIds.add(action.userId);
+  }
+
+  const [lists, tags, members] = await Promise.all([
+    listIds.size > 0
+      ? prisma.list.count({ where: { id: { in: [...listIds] }, boardId } })
+      : 0,
+    tagIds.size > 0
+      ? prisma.tag.count({
+          where: {
+            id: { in: [...tagIds] },
+            OR: [{ studioId: null }, { studio: { teams: { some: { boards: { some: { id: boardId } } } } } }],
+          },
+        })
+      : 0,
+    userIds.size > 0
+      ? prisma.boardMember.count({ where: { userId: { in: [...userIds] }, boardId } })
+      : 0,
+  ]);
+
+  if (lists !== listIds.size) return 'Rule refers to a list that is not on this board';
+  if (tags !== tagIds.size) return 'Rule refers to a tag that does not exist or belongs to another studio';
+  if (members !== userIds.size) return 'Rule refers to a user who is not a member of this board';
+  return null;
+}
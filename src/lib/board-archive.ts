@@ -0,0 +1,927 @@
+import { randomUUID } from 'node:crypto';
+import type { CardType, ListPhase, ListViewType, Prisma, ReviewScoreValue, UserPermission } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { ParseResult } from './automation-rules';
+
+/**
+ * Portable board archives: everything needed to rebuild a board in another environment.
+ *
+ * Records keep their source IDs, and users are listed once with their email so an import can
+ * map them onto the accounts that exist there. Attachments travel as URLs; the files stay in
+ * storage.
+ */
+
+export const BOARD_ARCHIVE_FORMAT = 'fallo-board';
+export const BOARD_ARCHIVE_VERSION = 1;
+
+export const CREATE_MANY_CHUNK_SIZE = 500;
+
+export interface BoardArchiveUser {
+  id: string;
+  /** Empty when the source did not share it (e.g. Trello); the user is then matched by name. */
+  email: string;
+  name: string | null;
+}
+
+export interface BoardArchiveList {
+  id: string;
+  name: string;
+  position: number;
+  viewType: ListViewType;
+  phase: ListPhase | null;
+  color: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  durationWeeks: number | null;
+  durationDays: number | null;
+  wipLimit: number | null;
+  wipLimitPerAssignee: number | null;
+}
+
+export interface BoardArchiveEvaluation {
+  reviewerId: string;
+  submittedAt: string;
+  /** Scores keyed by review dimension name, since dimensions differ between environments. */
+  scores: { dimension: string; score: ReviewScoreValue }[];
+}
+
+export interface BoardArchiveReviewCycle {
+  cycleNumber: number;
+  openedAt: string;
+  closedAt: string | null;
+  isFinal: boolean;
+  lockedAt: string | null;
+  evaluations: BoardArchiveEvaluation[];
+}
+
+export interface BoardArchiveCard {
+  id: string;
+  listId: string;
+  parentId: string | null;
+  type: CardType;
+  title: string;
+  description: string | null;
+  position: number;
+  color: string | null;
+  featureImage: string | null;
+  featureImagePosition: number;
+  createdAt: string;
+  completedAt: string | null;
+  archivedAt: string | null;
+  taskData: Prisma.JsonValue | null;
+  userStoryData: Prisma.JsonValue | null;
+  epicData: Prisma.JsonValue | null;
+  utilityData: Prisma.JsonValue | null;
+  assignees: { userId: string; assignedAt: string; activatedAt: string | null }[];
+  tagIds: string[];
+  checklists: {
+    name: string;
+    type: string;
+    position: number;
+    items: { content: string; isComplete: boolean; position: number }[];
+  }[];
+  attachments: { id: string; name: string; url: string; type: string; size: number; uploaderId: string | null; createdAt: string }[];
+  comments: {
+    authorId: string;
+    content: string;
+    type: string;
+    createdAt: string;
+    attachmentId: string | null;
+    mentions: Prisma.JsonValue;
+  }[];
+  reviewCycles: BoardArchiveReviewCycle[];
+}
+
+export interface BoardArchive {
+  format: typeof BOARD_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  board: {
+    name: string;
+    description: string | null;
+    isTemplate: boolean;
+    settings: Prisma.JsonValue;
+  };
+  users: BoardArchiveUser[];
+  members: { userId: string; permission: UserPermission }[];
+  tags: { id: string; name: string; color: string | null }[];
+  lists: BoardArchiveList[];
+  cards: BoardArchiveCard[];
+  /** Block and event types are matched by name on import. */
+  timelineBlocks: { listId: string | null; blockType: string; startDate: string; endDate: string; position: number }[];
+  timelineEvents: { eventType: string; title: string; description: string | null; startDate: string; endDate: string }[];
+  availability: { userId: string; weekStart: string; dedication: number }[];
+  spineTracker: Prisma.JsonValue | null;
+}
+
+const userSelect = { select: { id: true, email: true, name: true } } as const;
+
+const iso = (date: Date) => date.toISOString();
+const isoOrNull = (date: Date | null) => (date ? date.toISOString() : null);
+
+/** Read a whole board, archived cards included, into an archive. Null when the board does not exist. */
+export async function exportBoardArchive(boardId: string, exportedAt = new Date()): Promise<BoardArchive | null> {
+  const board = await prisma.board.findUnique({
+    where: { id: boardId },
+    select: {
+      name: true,
+      description: true,
+      isTemplate: true,
+      settings: true,
+      members: { select: { permission: true, user: userSelect } },
+      lists: {
+        orderBy: { position: 'asc' },
+        select: {
+          id: true,
+          name: true,
+          position: true,
+          viewType: true,
+          phase: true,
+          color: true,
+          startDate: true,
+          endDate: true,
+          durationWeeks: true,
+          durationDays: true,
+          wipLimit: true,
+          wipLimitPerAssignee: true,
+          cards: {
+            orderBy: { position: 'asc' },
+            select: {
+              id: true,
+              parentId: true,
+              type: true,
+              title: true,
+              description: true,
+              position: true,
+              color: true,
+              featureImage: true,
+              featureImagePosition: true,
+              createdAt: true,
+              completedAt: true,
+              archivedAt: true,
+              taskData: true,
+              userStoryData: true,
+              epicData: true,
+              utilityData: true,
+              assignees: { select: { assignedAt: true, activatedAt: true, user: userSelect } },
+              tags: { select: { tag: { select: { id: true, name: true, color: true } } } },
+              checklists: {
+                orderBy: { position: 'asc' },
+                select: {
+                  name: true,
+                  type: true,
+                  position: true,
+                  items: {
+                    orderBy: { position: 'asc' },
+                    select: { content: true, isComplete: true, position: true },
+                  },
+                },
+              },
+              attachments: {
+                orderBy: { createdAt: 'asc' },
+                select: { id: true, name: true, url: true, type: true, size: true, createdAt: true, uploader: userSelect },
+              },
+              comments: {
+                orderBy: { createdAt: 'asc' },
+                select: { content: true, type: true, createdAt: true, attachmentId: true, mentions: true, author: userSelect },
+              },
+              reviewCycles: {
+                orderBy: { cycleNumber: 'asc' },
+                select: {
+                  cycleNumber: true,
+                  openedAt: true,
+                  closedAt: true,
+                  isFinal: true,
+                  lockedAt: true,
+                  evaluations: {
+                    select: {
+                      submittedAt: true,
+                      reviewer: userSelect,
+                      scores: { select: { score: true, dimension: { select: { name: true } } } },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      timelineBlocks: {
+        orderBy: { position: 'asc' },
+        select: { listId: true, startDate: true, endDate: true, position: true, blockType: { select: { name: true } } },
+      },
+      timelineEvents: {
+        orderBy: { startDate: 'asc' },
+        select: { title: true, description: true, startDate: true, endDate: true, eventType: { select: { name: true } } },
+      },
+      weeklyAvailability: {
+        orderBy: { weekStart: 'asc' },
+        select: { weekStart: true, dedication: true, user: userSelect },
+      },
+      spineTrackerData: { select: { data: true } },
+    },
+  });
+
+  if (!board) return null;
+
+  const users = new Map<string, BoardArchiveUser>();
+  const tags = new Map<string, BoardArchive['tags'][number]>();
+  const seeUser = (user: BoardArchiveUser) => {
+    users.set(user.id, { id: user.id, email: user.email, name: user.name });
+    return user.id;
+  };
+
+  const lists: BoardArchiveList[] = [];
+  const cards: BoardArchiveCard[] = [];
+
+  for (const list of board.lists) {
+    const { cards: listCards, ...fields } = list;
+    lists.push({ ...fields, startDate: isoOrNull(list.startDate), endDate: isoOrNull(list.endDate) });
+
+    for (const card of listCards) {
+      cards.push({
+        id: card.id,
+        listId: list.id,
+        parentId: card.parentId,
+        type: card.type,
+        title: card.title,
+        description: card.description,
+        position: card.position,
+        color: card.color,
+        featureImage: card.featureImage,
+        featureImagePosition: card.featureImagePosition,
+        createdAt: iso(card.createdAt),
+        completedAt: isoOrNull(card.completedAt),
+        archivedAt: isoOrNull(card.archivedAt),
+        taskData: card.taskData,
+        userStoryData: card.userStoryData,
+        epicData: card.epicData,
+        utilityData: card.utilityData,
+        assignees: card.assignees.map((assignee) => ({
+          userId: seeUser(assignee.user),
+          assignedAt: iso(assignee.assignedAt),
+          activatedAt: isoOrNull(assignee.activatedAt),
+        })),
+        tagIds: card.tags.map(({ tag }) => {
+          tags.set(tag.id, tag);
+          return tag.id;
+        }),
+        checklists: card.checklists,
+        attachments: card.attachments.map(({ uploader, createdAt, ...attachment }) => ({
+          ...attachment,
+          uploaderId: uploader ? seeUser(uploader) : null,
+          createdAt: iso(createdAt),
+        })),
+        comments: card.comments.map(({ author, createdAt, ...comment }) => ({
+          ...comment,
+          authorId: seeUser(author),
+          createdAt: iso(createdAt),
+        })),
+        reviewCycles: card.reviewCycles.map((cycle) => ({
+          cycleNumber: cycle.cycleNumber,
+          openedAt: iso(cycle.openedAt),
+          closedAt: isoOrNull(cycle.closedAt),
+          isFinal: cycle.isFinal,
+          lockedAt: isoOrNull(cycle.lockedAt),
+          evaluations: cycle.evaluations.map((evaluation) => ({
+            reviewerId: seeUser(evaluation.reviewer),
+            submittedAt: iso(evaluation.submittedAt),
+            scores: evaluation.scores.map((score) => ({ dimension: score.dimension.name, score: score.score })),
+          })),
+        })),
+      });
+    }
+  }
+
+  return {
+    format: BOARD_ARCHIVE_FORMAT,
+    version: BOARD_ARCHIVE_VERSION,
+    exportedAt: iso(exportedAt),
+    board: {
+      name: board.name,
+      description: board.description,
+      isTemplate: board.isTemplate,
+      settings: board.settings,
+    },
+    members: board.members.map((member) => ({ userId: seeUser(member.user), permission: member.permission })),
+    tags: [...tags.values()],
+    lists,
+    cards,
+    timelineBlocks: board.timelineBlocks.map((block) => ({
+      listId: block.listId,
+      blockType: block.blockType.name,
+      startDate: iso(block.startDate),
+      endDate: iso(block.endDate),
+      position: block.position,
+    })),
+    timelineEvents: board.timelineEvents.map((event) => ({
+      eventType: event.eventType.name,
+      title: event.title,
+      description: event.description,
+      startDate: iso(event.startDate),
+      endDate: iso(event.endDate),
+    })),
+    availability: board.weeklyAvailability.map((entry) => ({
+      userId: seeUser(entry.user),
+      weekStart: iso(entry.weekStart),
+      dedication: entry.dedication,
+    })),
+    spineTracker: board.spineTrackerData?.data ?? null,
+    users: [...users.values()],
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+const ARRAY_SECTIONS = [
+  'users',
+  'members',
+  'tags',
+  'lists',
+  'cards',
+  'timelineBlocks',
+  'timelineEvents',
+  'availability',
+] as const;
+
+const CARD_TYPES: CardType[] = ['TASK', 'USER_STORY', 'EPIC', 'UTILITY'];
+
+/**
+ * Check an uploaded archive's envelope and the references the import depends on. Field-level
+ * details are trusted, as they came from an export.
+ */
+export function parseBoardArchive(input: unknown): ParseResult<BoardArchive> {
+  if (!isRecord(input) || input.format !== BOARD_ARCHIVE_FORMAT) {
+    return { error: 'Not a board archive' };
+  }
+  if (typeof input.version !== 'number' || input.version < 1) {
+    return { error: 'Board archive version is missing' };
+  }
+  if (input.version > BOARD_ARCHIVE_VERSION) {
+    return { error: `Board archive version ${input.version} is newer than this server supports` };
+  }
+  if (!isRecord(input.board) || typeof input.board.name !== 'string') {
+    return { error: 'Board archive has no board' };
+  }
+  for (const section of ARRAY_SECTIONS) {
+    if (!Array.isArray(input[section])) {
+      return { error: `Board archive is missing ${section}` };
+    }
+  }
+
+  const archive = input as unknown as BoardArchive;
+  const listIds = new Set<string>();
+  for (const list of archive.lists) {
+    if (!isRecord(list) || typeof list.id !== 'string' || typeof list.name !== 'string') {
+      return { error: 'Board archive has an invalid list' };
+    }
+    listIds.add(list.id);
+  }
+  for (const card of archive.cards) {
+    if (!isRecord(card) || typeof card.id !== 'string' || typeof card.title !== 'string') {
+      return { error: 'Board archive has an invalid card' };
+    }
+    if (!CARD_TYPES.includes(card.type)) {
+      return { error: `Card "${card.title}" has unknown type ${String(card.type)}` };
+    }
+    if (!listIds.has(card.listId)) {
+      return { error: `Card "${card.title}" belongs to a list that is not in the archive` };
+    }
+  }
+  for (const user of archive.users) {
+    if (!isRecord(user) || typeof user.id !== 'string' || typeof user.email !== 'string') {
+      return { error: 'Board archive has an invalid user' };
+    }
+  }
+
+  return { value: archive };
+}
+
+export function chunkArray<T>(items: T[], chunkSize: number): T[][] {
+  if (items.length <= chunkSize) return [items];
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += chunkSize) {
+    chunks.push(items.slice(i, i + chunkSize));
+  }
+  return chunks;
+}
+
+function asJsonObject(value: Prisma.JsonValue | null | undefined): Record<string, unknown> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function remapReference(
+  source: Record<string, unknown>,
+  key: string,
+  idMap: Map<string, string>,
+) {
+  const value = source[key];
+  if (typeof value !== 'string' || value.length === 0) {
+    delete source[key];
+    return;
+  }
+  const mapped = idMap.get(value);
+  if (mapped) {
+    source[key] = mapped;
+  } else {
+    delete source[key];
+  }
+}
+
+/** Point a task's card and list links at the copies; links to anything not copied are dropped. */
+export function remapTaskData(
+  value: Prisma.JsonValue | null | undefined,
+  cardIdMap: Map<string, string>,
+  listIdMap: Map<string, string>,
+): Prisma.InputJsonValue | undefined {
+  const taskData = asJsonObject(value);
+  if (!taskData) {
+    return value ?? undefined;
+  }
+
+  const updated = { ...taskData };
+  remapReference(updated, 'linkedUserStoryId', cardIdMap);
+  remapReference(updated, 'linkedEpicId', cardIdMap);
+  remapReference(updated, 'dependsOnTaskId', cardIdMap);
+  remapReference(updated, 'stagedFromPlanningListId', listIdMap);
+  remapReference(updated, 'releaseTargetListId', listIdMap);
+
+  return updated as Prisma.InputJsonValue;
+}
+
+export function remapUserStoryData(
+  value: Prisma.JsonValue | null | undefined,
+  cardIdMap: Map<string, string>,
+): Prisma.InputJsonValue | undefined {
+  const userStoryData = asJsonObject(value);
+  if (!userStoryData) {
+    return value ?? undefined;
+  }
+
+  const updated = { ...userStoryData };
+  remapReference(updated, 'linkedEpicId', cardIdMap);
+  return updated as Prisma.InputJsonValue;
+}
+
+export interface BoardImportContext {
+  boardId: string;
+  /** Becomes board admin, and the author of comments whose author is not found. */
+  importerId: string;
+  /** Lowercased email to user ID in this environment. */
+  usersByEmail: Map<string, string>;
+  /** Lowercased name to user ID, for users archived without an email. Only unambiguous names. */
+  usersByName?: Map<string, string>;
+  /** Lowercased names to IDs in this environment. */
+  tagsByName: Map<string, string>;
+  blockTypesByName: Map<string, string>;
+  eventTypesByName: Map<string, string>;
+  dimensionsByName: Map<string, string>;
+  newId?: () => string;
+}
+
+export interface BoardImportPlan {
+  members: Prisma.BoardMemberCreateManyInput[];
+  lists: Prisma.ListCreateManyInput[];
+  cards: Prisma.CardCreateManyInput[];
+  cardUsers: Prisma.CardUserCreateManyInput[];
+  cardTags: Prisma.CardTagCreateManyInput[];
+  checklists: Prisma.ChecklistCreateManyInput[];
+  checklistItems: Prisma.ChecklistItemCreateManyInput[];
+  attachments: Prisma.AttachmentCreateManyInput[];
+  comments: Prisma.CommentCreateManyInput[];
+  reviewCycles: Prisma.ReviewCycleCreateManyInput[];
+  evaluations: Prisma.EvaluationCreateManyInput[];
+  evaluationScores: Prisma.EvaluationScoreCreateManyInput[];
+  timelineBlocks: Prisma.TimelineBlockCreateManyInput[];
+  timelineEvents: Prisma.TimelineEventCreateManyInput[];
+  availability: Prisma.UserWeeklyAvailabilityCreateManyInput[];
+  /** Emails (or names) of archived users with no account here; their assignments, reviews and availability are left out. */
+  unresolvedUsers: string[];
+  /** Things that could not be carried over, e.g. tags or block types missing in this environment. */
+  warnings: string[];
+}
+
+const lower = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Turn an archive into rows for a new board, with fresh IDs for every record and every
+ * internal link (lists, parents, story/epic/dependency links, timeline blocks) pointed at them.
+ */
+export function planBoardImport(archive: BoardArchive, context: BoardImportContext): BoardImportPlan {
+  const newId = context.newId ?? randomUUID;
+  const { boardId, importerId } = context;
+
+  const emailById = new Map(archive.users.map((user) => [user.id, user.email || user.name || user.id]));
+  const unresolved = new Set<string>();
+  const userIdMap = new Map<string, string>();
+  for (const user of archive.users) {
+    const match = user.email
+      ? context.usersByEmail.get(lower(user.email))
+      : user.name ? context.usersByName?.get(lower(user.name)) : undefined;
+    if (match) userIdMap.set(user.id, match);
+  }
+  const resolveUser = (archivedId: string): string | null => {
+    const mapped = userIdMap.get(archivedId);
+    if (!mapped) unresolved.add(emailById.get(archivedId) ?? archivedId);
+    return mapped ?? null;
+  };
+
+  const warnings: string[] = [];
+  const missingTags = new Set<string>();
+  const tagIdMap = new Map<string, string>();
+  for (const tag of archive.tags) {
+    const match = context.tagsByName.get(lower(tag.name));
+    if (match) tagIdMap.set(tag.id, match);
+    else missingTags.add(tag.name);
+  }
+
+  const listIdMap = new Map(archive.lists.map((list) => [list.id, newId()]));
+  const cardIdMap = new Map(archive.cards.map((card) => [card.id, newId()]));
+
+  const plan: BoardImportPlan = {
+    members: [{ boardId, userId: importerId, permission: 'ADMIN' }],
+    lists: [],
+    cards: [],
+    cardUsers: [],
+    cardTags: [],
+    checklists: [],
+    checklistItems: [],
+    attachments: [],
+    comments: [],
+    reviewCycles: [],
+    evaluations: [],
+    evaluationScores: [],
+    timelineBlocks: [],
+    timelineEvents: [],
+    availability: [],
+    unresolvedUsers: [],
+    warnings,
+  };
+
+  const memberIds = new Set([importerId]);
+  for (const member of archive.members) {
+    const userId = resolveUser(member.userId);
+    if (!userId || memberIds.has(userId)) continue;
+    memberIds.add(userId);
+    // Board admin rights stay with the importer; everyone else comes in as a member
+    plan.members.push({ boardId, userId, permission: 'MEMBER' });
+  }
+
+  for (const list of archive.lists) {
+    plan.lists.push({
+      ...list,
+      id: listIdMap.get(list.id)!,
+      boardId,
+    });
+  }
+
+  for (const card of archive.cards) {
+    const cardId = cardIdMap.get(card.id)!;
+    const taskData = asJsonObject(remapTaskData(card.taskData, cardIdMap, listIdMap) as Prisma.JsonValue);
+    if (taskData) {
+      remapReference(taskData, 'versionOfCardId', cardIdMap);
+      // Approvals name a user; keep them only when that user exists here
+      for (const key of ['approvedByPo', 'approvedByLead']) {
+        const approval = asJsonObject(taskData[key] as Prisma.JsonValue);
+        if (!approval) continue;
+        const userId = typeof approval.userId === 'string' ? resolveUser(approval.userId) : null;
+        taskData[key] = userId ? { ...approval, userId } : null;
+      }
+    }
+
+    plan.cards.push({
+      id: cardId,
+      listId: listIdMap.get(card.listId)!,
+      parentId: card.parentId ? cardIdMap.get(card.parentId) ?? null : null,
+      type: card.type,
+      title: card.title,
+      description: card.description,
+      position: card.position,
+      color: card.color,
+      featureImage: card.featureImage,
+      featureImagePosition: card.featureImagePosition,
+      createdAt: card.createdAt,
+      completedAt: card.completedAt,
+      archivedAt: card.archivedAt,
+      taskData: (taskData ?? card.taskData ?? undefined) as Prisma.InputJsonValue | undefined,
+      userStoryData: remapUserStoryData(card.userStoryData, cardIdMap),
+      epicData: (card.epicData ?? undefined) as Prisma.InputJsonValue | undefined,
+      utilityData: (card.utilityData ?? undefined) as Prisma.InputJsonValue | undefined,
+    });
+
+    for (const assignee of card.assignees) {
+      const userId = resolveUser(assignee.userId);
+      if (!userId) continue;
+      plan.cardUsers.push({ cardId, userId, assignedAt: assignee.assignedAt, activatedAt: assignee.activatedAt });
+    }
+
+    for (const tagId of card.tagIds) {
+      const mapped = tagIdMap.get(tagId);
+      if (mapped) plan.cardTags.push({ cardId, tagId: mapped });
+    }
+
+    for (const checklist of card.checklists) {
+      const checklistId = newId();
+      plan.checklists.push({ id: checklistId, cardId, name: checklist.name, type: checklist.type, position: checklist.position });
+      for (const item of checklist.items) {
+        plan.checklistItems.push({ checklistId, content: item.content, isComplete: item.isComplete, position: item.position });
+      }
+    }
+
+    const attachmentIdMap = new Map<string, string>();
+    for (const attachment of card.attachments) {
+      const attachmentId = newId();
+      attachmentIdMap.set(attachment.id, attachmentId);
+      plan.attachments.push({
+        id: attachmentId,
+        cardId,
+        name: attachment.name,
+        url: attachment.url,
+        type: attachment.type,
+        size: attachment.size,
+        uploaderId: attachment.uploaderId ? resolveUser(attachment.uploaderId) : null,
+        createdAt: attachment.createdAt,
+      });
+    }
+
+    for (const comment of card.comments) {
+      const authorId = resolveUser(comment.authorId);
+      // Comments stay on the card; ones by unknown authors are posted as the importer and say who wrote them
+      const content = authorId
+        ? comment.content
+        : `_Originally by ${emailById.get(comment.authorId) ?? 'an unknown user'}_\n\n${comment.content}`;
+      const mentions = Array.isArray(comment.mentions)
+        ? comment.mentions.flatMap((mention) => {
+          const entry = asJsonObject(mention);
+          const userId = typeof entry?.userId === 'string' ? userIdMap.get(entry.userId) : undefined;
+          return userId ? [{ ...entry, userId }] : [];
+        })
+        : [];
+      plan.comments.push({
+        cardId,
+        authorId: authorId ?? importerId,
+        content,
+        type: comment.type,
+        createdAt: comment.createdAt,
+        attachmentId: comment.attachmentId ? attachmentIdMap.get(comment.attachmentId) ?? null : null,
+        mentions: mentions as Prisma.InputJsonValue,
+      });
+    }
+
+    for (const cycle of card.reviewCycles) {
+      const reviewCycleId = newId();
+      plan.reviewCycles.push({
+        id: reviewCycleId,
+        cardId,
+        cycleNumber: cycle.cycleNumber,
+        openedAt: cycle.openedAt,
+        closedAt: cycle.closedAt,
+        isFinal: cycle.isFinal,
+        lockedAt: cycle.lockedAt,
+      });
+      for (const evaluation of cycle.evaluations) {
+        const reviewerId = resolveUser(evaluation.reviewerId);
+        if (!reviewerId) continue;
+        const evaluationId = newId();
+        plan.evaluations.push({ id: evaluationId, reviewCycleId, reviewerId, submittedAt: evaluation.submittedAt });
+        for (const score of evaluation.scores) {
+          const dimensionId = context.dimensionsByName.get(lower(score.dimension));
+          if (dimensionId) plan.evaluationScores.push({ evaluationId, dimensionId, score: score.score });
+        }
+      }
+    }
+  }
+
+  const missingBlockTypes = new Set<string>();
+  for (const block of archive.timelineBlocks) {
+    const blockTypeId = context.blockTypesByName.get(lower(block.blockType));
+    if (!blockTypeId) {
+      missingBlockTypes.add(block.blockType);
+      continue;
+    }
+    plan.timelineBlocks.push({
+      boardId,
+      blockTypeId,
+      listId: block.listId ? listIdMap.get(block.listId) ?? null : null,
+      startDate: block.startDate,
+      endDate: block.endDate,
+      position: block.position,
+    });
+  }
+
+  const missingEventTypes = new Set<string>();
+  for (const event of archive.timelineEvents) {
+    const eventTypeId = context.eventTypesByName.get(lower(event.eventType));
+    if (!eventTypeId) {
+      missingEventTypes.add(event.eventType);
+      continue;
+    }
+    plan.timelineEvents.push({
+      boardId,
+      eventTypeId,
+      title: event.title,
+      description: event.description,
+      startDate: event.startDate,
+      endDate: event.endDate,
+    });
+  }
+
+  for (const entry of archive.availability) {
+    const userId = resolveUser(entry.userId);
+    if (!userId) continue;
+    plan.availability.push({ boardId, userId, weekStart: entry.weekStart, dedication: entry.dedication });
+  }
+
+  if (missingTags.size > 0) warnings.push(`Tags not found, left off cards: ${[...missingTags].join(', ')}`);
+  if (missingBlockTypes.size > 0) warnings.push(`Block types not found, blocks skipped: ${[...missingBlockTypes].join(', ')}`);
+  if (missingEventTypes.size > 0) warnings.push(`Event types not found, events skipped: ${[...missingEventTypes].join(', ')}`);
+
+  plan.unresolvedUsers = [...unresolved].sort();
+  return plan;
+}
+
+async function createInChunks<T>(rows: T[], create: (chunk: T[]) => Promise<unknown>) {
+  if (rows.length === 0) return;
+  for (const chunk of chunkArray(rows, CREATE_MANY_CHUNK_SIZE)) {
+    await create(chunk);
+  }
+}
+
+const byLowerName = (rows: { id: string; name: string | null }[]) => {
+  const map = new Map<string, string>();
+  for (const row of rows) {
+    if (row.name) map.set(lower(row.name), row.id);
+  }
+  return map;
+};
+
+export interface BoardImportOptions {
+  importerId: string;
+  /** Defaults to the archived board name. */
+  name?: string;
+  teamId?: string | null;
+  /** Plan and report without writing anything. */
+  dryRun?: boolean;
+  /** Create global tags for archived tags that do not exist yet (admins only). */
+  createMissingTags?: boolean;
+}
+
+export interface BoardImportResult {
+  /** Null on a dry run. */
+  id: string | null;
+  name: string;
+  /** Lists as they are in the archive, with their archived IDs. */
+  lists: { id: string; name: string; viewType: ListViewType; cards: number }[];
+  counts: Record<string, number>;
+  createdTags: string[];
+  unresolvedUsers: string[];
+  warnings: string[];
+}
+
+/**
+ * Check that an import may file its board under a team: the team has to exist, not be archived,
+ * and count the importer among its members unless they are an admin. Returns an error message.
+ */
+export async function checkImportTeam(
+  teamId: string,
+  importer: { id: string; isAdmin: boolean }
+): Promise<string | null> {
+  const team = await prisma.team.findFirst({
+    where: { id: teamId, archivedAt: null },
+    select: { members: { where: { userId: importer.id }, select: { id: true } } },
+  });
+  if (!team) return 'Team not found';
+  if (!importer.isAdmin && team.members.length === 0) return 'You are not a member of this team';
+  return null;
+}
+
+/** Look up the users, tags and types the archive refers to, then create the board in one transaction. */
+export async function importBoardArchive(archive: BoardArchive, options: BoardImportOptions): Promise<BoardImportResult> {
+  const emails = archive.users.map((user) => user.email).filter(Boolean);
+  const names = archive.users.filter((user) => !user.email && user.name).map((user) => user.name!);
+  const [usersByEmail, usersByName, tags, blockTypes, eventTypes, dimensions] = await Promise.all([
+    emails.length > 0
+      ? prisma.user.findMany({ where: { email: { in: emails, mode: 'insensitive' } }, select: { id: true, email: true } })
+      : [],
+    names.length > 0
+      ? prisma.user.findMany({ where: { name: { in: names, mode: 'insensitive' } }, select: { id: true, name: true } })
+      : [],
+    prisma.tag.findMany({ where: { studioId: null }, select: { id: true, name: true } }),
+    prisma.blockType.findMany({ select: { id: true, name: true } }),
+    prisma.eventType.findMany({ select: { id: true, name: true } }),
+    prisma.reviewDimension.findMany({ where: { isActive: true }, select: { id: true, name: true } }),
+  ]);
+
+  // Two accounts with the same name could be anyone, so those stay unresolved
+  const nameCounts = new Map<string, number>();
+  for (const user of usersByName) {
+    const key = lower(user.name ?? '');
+    nameCounts.set(key, (nameCounts.get(key) ?? 0) + 1);
+  }
+  const uniqueNamed = usersByName.filter((user) => nameCounts.get(lower(user.name ?? '')) === 1);
+
+  const tagsByName = byLowerName(tags);
+  const newTags = new Map<string, BoardArchive['tags'][number]>();
+  if (options.createMissingTags) {
+    for (const tag of archive.tags) {
+      if (!tagsByName.has(lower(tag.name)) && !newTags.has(lower(tag.name))) newTags.set(lower(tag.name), tag);
+    }
+  }
+
+  const boardId = randomUUID();
+  const name = options.name?.trim() || archive.board.name;
+  const context: BoardImportContext = {
+    boardId,
+    importerId: options.importerId,
+    usersByEmail: new Map(usersByEmail.map((user) => [user.email.toLowerCase(), user.id])),
+    usersByName: byLowerName(uniqueNamed),
+    tagsByName,
+    blockTypesByName: byLowerName(blockTypes),
+    eventTypesByName: byLowerName(eventTypes),
+    dimensionsByName: byLowerName(dimensions),
+  };
+
+  const summarize = (plan: BoardImportPlan, id: string | null): BoardImportResult => ({
+    id,
+    name,
+    lists: archive.lists.map((list) => ({
+      id: list.id,
+      name: list.name,
+      viewType: list.viewType,
+      cards: archive.cards.filter((card) => card.listId === list.id && !card.archivedAt).length,
+    })),
+    counts: {
+      lists: plan.lists.length,
+      cards: plan.cards.length,
+      checklists: plan.checklists.length,
+      comments: plan.comments.length,
+      attachments: plan.attachments.length,
+      reviewCycles: plan.reviewCycles.length,
+      timelineBlocks: plan.timelineBlocks.length,
+      timelineEvents: plan.timelineEvents.length,
+      availability: plan.availability.length,
+    },
+    createdTags: [...newTags.values()].map((tag) => tag.name),
+    unresolvedUsers: plan.unresolvedUsers,
+    warnings: plan.warnings,
+  });
+
+  if (options.dryRun) {
+    for (const key of newTags.keys()) tagsByName.set(key, `new-tag:${key}`);
+    return summarize(planBoardImport(archive, context), null);
+  }
+
+  // Parents before children, so foreign keys hold as each batch goes in
+  const plan = await prisma.$transaction(async (tx) => {
+    const maxTag = newTags.size > 0 ? await tx.tag.aggregate({ where: { studioId: null }, _max: { position: true } }) : null;
+    let position = (maxTag?._max.position ?? -1) + 1;
+    for (const [key, tag] of newTags) {
+      const created = await tx.tag.create({
+        data: { name: tag.name.trim(), color: tag.color, position: position++, studioId: null },
+      });
+      tagsByName.set(key, created.id);
+    }
+
+    const plan = planBoardImport(archive, context);
+
+    await tx.board.create({
+      data: {
+        id: boardId,
+        name,
+        description: archive.board.description,
+        isTemplate: archive.board.isTemplate === true,
+        settings: (archive.board.settings ?? {}) as Prisma.InputJsonValue,
+        teamId: options.teamId ?? null,
+      },
+    });
+
+    await createInChunks(plan.members, (data) => tx.boardMember.createMany({ data, skipDuplicates: true }));
+    await createInChunks(plan.lists, (data) => tx.list.createMany({ data }));
+    await createInChunks(plan.cards, (data) => tx.card.createMany({ data }));
+    await createInChunks(plan.cardUsers, (data) => tx.cardUser.createMany({ data, skipDuplicates: true }));
+    await createInChunks(plan.cardTags, (data) => tx.cardTag.createMany({ data, skipDuplicates: true }));
+    await createInChunks(plan.checklists, (data) => tx.checklist.createMany({ data }));
+    await createInChunks(plan.checklistItems, (data) => tx.checklistItem.createMany({ data }));
+    await createInChunks(plan.attachments, (data) => tx.attachment.createMany({ data }));
+    await createInChunks(plan.comments, (data) => tx.comment.createMany({ data }));
+    await createInChunks(plan.reviewCycles, (data) => tx.reviewCycle.createMany({ data }));
+    await createInChunks(plan.evaluations, (data) => tx.evaluation.createMany({ data }));
+    await createInChunks(plan.evaluationScores, (data) => tx.evaluationScore.createMany({ data }));
+    await createInChunks(plan.timelineBlocks, (data) => tx.timelineBlock.createMany({ data }));
+    await createInChunks(plan.timelineEvents, (data) => tx.timelineEvent.createMany({ data }));
+    await createInChunks(plan.availability, (data) => tx.userWeeklyAvailability.createMany({ data, skipDuplicates: true }));
+
+    if (archive.spineTracker) {
+      await tx.spineTrackerData.create({
+        data: { boardId, data: archive.spineTracker as Prisma.InputJsonValue },
+      });
+    }
+
+    return plan;
+  }, { timeout: 120000 });
+
+  return summarize(plan, boardId);
+}
@@ -0,0 +1,192 @@
+import type { Board, BoardSettings, TaskCard, TimelineEvent, UtilityCard } from '@/types';
+import { formatLocalDateKey, getMonday } from '@/lib/date-utils';
+import { isDoneList } from '@/lib/quality-review';
+
+export type CalendarMode = 'month' | 'week';
+
+export type CalendarEntryKind = 'deadline' | 'release' | 'milestone' | 'event' | 'project_date';
+
+export interface CalendarEntry {
+  id: string;
+  kind: CalendarEntryKind;
+  title: string;
+  /** Local day keys (YYYY-MM-DD); `end` equals `start` for single-day entries. */
+  start: string;
+  end: string;
+  cardId?: string;
+  color?: string | null;
+  /** Deadline of a task in a Done list, or a staged task that was already released. */
+  done?: boolean;
+}
+
+const KIND_ORDER: Record<CalendarEntryKind, number> = {
+  project_date: 0,
+  event: 1,
+  milestone: 2,
+  release: 3,
+  deadline: 4,
+};
+
+const PROJECT_DATE_LABELS: { key: keyof BoardSettings; label: string }[] = [
+  { key: 'projectStartDate', label: 'Project start' },
+  { key: 'lastDayStaticAssets', label: 'Last day static assets' },
+  { key: 'lastDayAnimationTweaks', label: 'Last day animation tweaks' },
+  { key: 'marketingAssetsDeadline', label: 'Marketing assets deadline' },
+  { key: 'releaseDate', label: 'Release' },
+];
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Local day (YYYY-MM-DD) of a stored date or timestamp. */
+export function toDayKey(value: string | null | undefined): string | null {
+  if (!value) return null;
+  // Plain dates ("2026-03-01") are already days; parsing them as UTC midnight would shift them west of UTC
+  if (DAY_KEY_PATTERN.test(value)) return value;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : formatLocalDateKey(date);
+}
+
+/**
+ * Everything with a date on the board: task deadlines, staged release dates, MILESTONE
+ * cards, the board's timeline events and the project dates from its settings.
+ */
+export function buildCalendarEntries(board: Board, events: TimelineEvent[] = []): CalendarEntry[] {
+  const entries: CalendarEntry[] = [];
+  const settings = board.settings || {};
+
+  for (const { key, label } of PROJECT_DATE_LABELS) {
+    const day = toDayKey(settings[key] as string | undefined);
+    if (day) entries.push({ id: `setting:${key}`, kind: 'project_date', title: label, start: day, end: day });
+  }
+  for (const custom of settings.customDates ?? []) {
+    const day = toDayKey(custom.date);
+    if (day) entries.push({ id: `setting:${custom.id}`, kind: 'project_date', title: custom.label, start: day, end: day });
+  }
+
+  for (const event of events) {
+    const start = toDayKey(event.startDate);
+    if (!start) continue;
+    const end = toDayKey(event.endDate);
+    entries.push({
+      id: `event:${event.id}`,
+      kind: 'event',
+      title: event.title,
+      start,
+      end: end && end > start ? end : start,
+      color: event.eventType?.color,
+    });
+  }
+
+  for (const list of board.lists) {
+    const inDoneList = isDoneList({
+      id: list.id,
+      name: list.name,
+      phase: list.phase ?? null,
+      viewType: list.viewType ?? 'TASKS',
+    });
+
+    for (const card of list.cards) {
+      if (card.archivedAt) continue;
+
+      if (card.type === 'TASK') {
+        const taskData = (card as TaskCard).taskData || {};
+        const deadline = toDayKey(taskData.deadline);
+        if (deadline) {
+          entries.push({
+            id: `deadline:${card.id}`,
+            kind: 'deadline',
+            title: card.title,
+            start: deadline,
+            end: deadline,
+            cardId: card.id,
+            color: card.color,
+            done: inDoneList,
+          });
+        }
+        const release = taskData.releaseMode === 'STAGED' ? toDayKey(taskData.scheduledReleaseDate) : null;
+        if (release) {
+          entries.push({
+            id: `release:${card.id}`,
+            kind: 'release',
+            title: card.title,
+            start: release,
+            end: release,
+            cardId: card.id,
+            done: !!taskData.releasedAt,
+          });
+        }
+      } else if (card.type === 'UTILITY') {
+        const utilityData = (card as UtilityCard).utilityData;
+        const day = utilityData?.subtype === 'MILESTONE' ? toDayKey(utilityData.date) : null;
+        if (day) {
+          entries.push({
+            id: `milestone:${card.id}`,
+            kind: 'milestone',
+            title: card.title,
+            start: day,
+            end: day,
+            cardId: card.id,
+            color: card.color,
+          });
+        }
+      }
+    }
+  }
+
+  return entries;
+}
+
+/** Entries on this day, multi-day events included, in a stable display order. */
+export function entriesForDay(entries: CalendarEntry[], dayKey: string): CalendarEntry[] {
+  return entries
+    .filter((entry) => entry.start <= dayKey && dayKey <= entry.end)
+    .sort((a, b) => KIND_ORDER[a.kind] - KIND_ORDER[b.kind] || a.title.localeCompare(b.title));
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** Monday-to-Sunday week containing `anchor`. */
+export function weekGridDays(anchor: Date): Date[] {
+  const monday = getMonday(anchor);
+  return Array.from({ length: 7 }, (_, index) => addDays(monday, index));
+}
+
+/** Whole Monday-to-Sunday weeks covering the month of `anchor`. */
+export function monthGridDays(anchor: Date): Date[] {
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+  const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+  const days: Date[] = [];
+  for (let day = getMonday(first); day <= last || day.getDay() !== 1; day = addDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/** Step a month or week forwards (`1`) or backwards (`-1`). */
+export function shiftCalendarAnchor(anchor: Date, mode: CalendarMode, step: number): Date {
+  if (mode === 'week') return addDays(anchor, 7 * step);
+  return new Date(anchor.getFullYear(), anchor.getMonth() + step, 1);
+}
+
+/**
+ * A deadline moved to another day. The time of day of the old deadline is kept, so a
+ * deadline set through the date picker (local midnight) stays at local midnight.
+ */
+export function moveDateToDay(current: string | null | undefined, dayKey: string): string {
+  if (current && DAY_KEY_PATTERN.test(current)) return dayKey;
+  const [year, month, day] = dayKey.split('-').map(Number);
+  const previous = current ? new Date(current) : null;
+  const keepTime = previous && !Number.isNaN(previous.getTime()) ? previous : null;
+  return new Date(
+    year,
+    month - 1,
+    day,
+    keepTime?.getHours() ?? 0,
+    keepTime?.getMinutes() ?? 0,
+    keepTime?.getSeconds() ?? 0
+  ).toISOString();
+}
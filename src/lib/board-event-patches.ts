@@ -0,0 +1,149 @@
+import type { BoardEvent, Card, List } from '@/types';
+
+/** Sent with every apiFetch so the events stream can skip echoing a tab's own changes back to it. */
+export const BOARD_CLIENT_ID_HEADER = 'x-client-id';
+
+// Board payloads in the query cache are loosely typed (light and full scopes add different fields),
+// so patches only rely on lists, cards and their ids/positions and keep everything else as is.
+type CachedCard = Card & Record<string, unknown>;
+type CachedList = Omit<List, 'cards'> & { cards: CachedCard[] } & Record<string, unknown>;
+type CachedBoard = { lists?: CachedList[] } & Record<string, unknown>;
+
+const byPosition = (a: { position: number }, b: { position: number }) => a.position - b.position;
+
+function renumber(cards: CachedCard[]): CachedCard[] {
+  return cards.map((card, index) => (card.position === index ? card : { ...card, position: index }));
+}
+
+function findCard(lists: CachedList[], cardId: string): { list: CachedList; card: CachedCard } | null {
+  for (const list of lists) {
+    const card = list.cards.find((candidate) => candidate.id === cardId);
+    if (card) return { list, card };
+  }
+  return null;
+}
+
+function mapLists(board: CachedBoard, update: (lists: CachedList[]) => CachedList[]): CachedBoard {
+  if (!board.lists) return board;
+  const lists = update(board.lists);
+  return lists === board.lists ? board : { ...board, lists };
+}
+
+function updateCard(board: CachedBoard, cardId: string, update: (card: CachedCard) => CachedCard): CachedBoard {
+  return mapLists(board, (lists) => {
+    const found = findCard(lists, cardId);
+    if (!found) return lists;
+    return lists.map((list) => (
+      list === found.list
+        ? { ...list, cards: list.cards.map((card) => (card === found.card ? update(card) : card)) }
+        : list
+    ));
+  });
+}
+
+function insertCard(lists: CachedList[], card: CachedCard): CachedList[] {
+  return lists.map((list) => (
+    list.id === card.listId ? { ...list, cards: [...list.cards, card].sort(byPosition) } : list
+  ));
+}
+
+function removeCard(lists: CachedList[], cardId: string): CachedList[] {
+  return lists.map((list) => (
+    list.cards.some((card) => card.id === cardId)
+      ? { ...list, cards: list.cards.filter((card) => card.id !== cardId) }
+      : list
+  ));
+}
+
+/**
+ * Apply a live board event to a cached board payload (GET /api/boards/[boardId]).
+ * Patches are idempotent and return the same object when nothing changed, so replayed
+ * or already-applied events don't cause re-renders. Presence and refetch events are
+ * handled by the caller.
+ */
+export function applyBoardEvent<T>(cached: T, event: BoardEvent): T {
+  const board = cached as unknown as CachedBoard;
+  if (!board?.lists) return cached;
+
+  return patchBoard(board, event) as unknown as T;
+}
+
+function patchBoard(board: CachedBoard, event: BoardEvent): CachedBoard {
+  switch (event.type) {
+    case 'card.created': {
+      const card = event.card as CachedCard;
+      return mapLists(board, (lists) => (findCard(lists, card.id) ? lists : insertCard(lists, card)));
+    }
+
+    case 'card.updated':
+      return mapLists(board, (lists) => {
+        const found = findCard(lists, event.card.id);
+        if (!found) return lists;
+        const merged = { ...found.card, ...event.card } as CachedCard;
+        if (merged.listId === found.list.id) {
+          return lists.map((list) => (
+            list === found.list
+              ? { ...list, cards: list.cards.map((card) => (card === found.card ? merged : card)) }
+              : list
+          ));
+        }
+        return insertCard(removeCard(lists, merged.id), merged);
+      });
+
+    case 'card.moved':
+      return mapLists(board, (lists) => {
+        const found = findCard(lists, event.cardId);
+        const target = lists.find((list) => list.id === event.toListId);
+        if (!found || !target) return lists;
+        if (found.list.id === event.toListId && found.card.position === event.position) return lists;
+
+        const withoutCard = removeCard(lists, event.cardId);
+        return withoutCard.map((list) => {
+          if (list.id === event.toListId) {
+            const cards = [...list.cards];
+            cards.splice(Math.min(event.position, cards.length), 0, { ...found.card, listId: list.id });
+            return { ...list, cards: renumber(cards) };
+          }
+          return list.id === found.list.id ? { ...list, cards: renumber(list.cards) } : list;
+        });
+      });
+
+    case 'card.deleted':
+      return mapLists(board, (lists) => (findCard(lists, event.cardId) ? removeCard(lists, event.cardId) : lists));
+
+    case 'list.created':
+      return mapLists(board, (lists) => (
+        lists.some((list) => list.id === event.list.id)
+          ? lists
+          : [...lists, { ...event.list, cards: [] } as unknown as CachedList].sort(byPosition)
+      ));
+
+    case 'list.updated':
+      return mapLists(board, (lists) => {
+        if (!lists.some((list) => list.id === event.list.id)) return lists;
+        return lists
+          .map((list) => (list.id === event.list.id ? { ...list, ...event.list, cards: list.cards } : list))
+          .sort(byPosition);
+      });
+
+    case 'list.deleted':
+      return mapLists(board, (lists) => (
+        lists.some((list) => list.id === event.listId) ? lists.filter((list) => list.id !== event.listId) : lists
+      ));
+
+    case 'checklists.updated':
+      return updateCard(board, event.cardId, (card) => ({ ...card, checklists: event.checklists }));
+
+    case 'comment.created':
+    case 'comment.deleted': {
+      const delta = event.type === 'comment.created' ? 1 : -1;
+      return updateCard(board, event.cardId, (card) => {
+        const counts = (card._count ?? { attachments: 0, comments: 0 }) as { attachments: number; comments: number };
+        return { ...card, _count: { ...counts, comments: Math.max(0, counts.comments + delta) } };
+      });
+    }
+
+    default:
+      return board;
+  }
+}
@@ -0,0 +1,208 @@
+import { EventEmitter } from 'node:events';
+import { headers } from 'next/headers';
+import { prisma } from '@/lib/prisma';
+import { BOARD_CLIENT_ID_HEADER } from '@/lib/board-event-patches';
+import type { BoardEvent, BoardEventMessage, BoardViewer } from '@/types';
+
+/**
+ * Server-side records (Dates, Prisma JSON) that serialize to the client shapes in
+ * BoardEvent, so routes can publish what they just wrote without mapping it first.
+ */
+type WireEvent<E> = E extends { card: unknown }
+  ? Omit<E, 'card'> & { card: { id: string } & object }
+  : E extends { list: unknown }
+    ? Omit<E, 'list'> & { list: { id: string } & object }
+    : E extends { checklists: unknown }
+      ? Omit<E, 'checklists'> & { checklists: Array<{ id: string } & object> }
+      : E;
+export type BoardEventInput = BoardEvent extends infer E ? (E extends BoardEvent ? WireEvent<E> : never) : never;
+
+/**
+ * What travels between server instances: board events, and presence announcements
+ * (`viewer: null` means the connection closed).
+ */
+export type BoardTransportMessage =
+  | { kind: 'event'; message: BoardEventMessage }
+  | { kind: 'presence'; boardId: string; connectionId: string; viewer: BoardViewer | null };
+
+/**
+ * Pub/sub backend for live board events. The default keeps everything in this
+ * process, which is enough for a single long-lived server. For several instances,
+ * register a transport that fans out through Postgres LISTEN/NOTIFY (or Redis)
+ * with `setBoardEventTransport` at startup; messages are small JSON objects, well
+ * under NOTIFY's 8000-byte payload limit for everything except very large cards.
+ */
+export interface BoardEventTransport {
+  publish(message: BoardTransportMessage): void | Promise<void>;
+  subscribe(listener: (message: BoardTransportMessage) => void): () => void;
+}
+
+class InProcessBoardEventTransport implements BoardEventTransport {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open board tab.
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(message: BoardTransportMessage) {
+    this.emitter.emit('message', message);
+  }
+
+  subscribe(listener: (message: BoardTransportMessage) => void) {
+    this.emitter.on('message', listener);
+    return () => {
+      this.emitter.off('message', listener);
+    };
+  }
+}
+
+/** Viewers are dropped when their stream stops announcing itself (e.g. an instance died). */
+export const PRESENCE_TTL_MS = 70 * 1000;
+
+class PresenceRegistry {
+  private boards = new Map<string, Map<string, { viewer: BoardViewer; lastSeenAt: number }>>();
+
+  apply(message: Extract<BoardTransportMessage, { kind: 'presence' }>, now = Date.now()) {
+    const connections = this.boards.get(message.boardId) ?? new Map();
+    if (message.viewer) {
+      connections.set(message.connectionId, { viewer: message.viewer, lastSeenAt: now });
+    } else {
+      connections.delete(message.connectionId);
+    }
+    if (connections.size > 0) {
+      this.boards.set(message.boardId, connections);
+    } else {
+      this.boards.delete(message.boardId);
+    }
+  }
+
+  /** One entry per user, however many tabs they have open. */
+  viewers(boardId: string, now = Date.now()): BoardViewer[] {
+    const connections = this.boards.get(boardId);
+    if (!connections) return [];
+
+    const viewers = new Map<string, BoardViewer>();
+    for (const [connectionId, entry] of connections) {
+      if (now - entry.lastSeenAt > PRESENCE_TTL_MS) {
+        connections.delete(connectionId);
+        continue;
+      }
+      viewers.set(entry.viewer.id, entry.viewer);
+    }
+    return [...viewers.values()];
+  }
+}
+
+const globalForBoardEvents = globalThis as unknown as {
+  boardEvents: { transport: BoardEventTransport; presence: PresenceRegistry; unsubscribe: () => void } | undefined;
+};
+
+function getBoardEvents() {
+  if (!globalForBoardEvents.boardEvents) {
+    setBoardEventTransport(new InProcessBoardEventTransport());
+  }
+  return globalForBoardEvents.boardEvents!;
+}
+
+/** Replace the pub/sub backend. Open streams keep their old subscription until they reconnect. */
+export function setBoardEventTransport(transport: BoardEventTransport) {
+  globalForBoardEvents.boardEvents?.unsubscribe();
+
+  const presence = new PresenceRegistry();
+  // Subscribed before any stream, so the registry is current when streams read it.
+  const unsubscribe = transport.subscribe((message) => {
+    if (message.kind === 'presence') presence.apply(message);
+  });
+  globalForBoardEvents.boardEvents = { transport, presence, unsubscribe };
+}
+
+export function subscribeToBoardEvents(listener: (message: BoardTransportMessage) => void): () => void {
+  return getBoardEvents().transport.subscribe(listener);
+}
+
+export function getBoardViewers(boardId: string): BoardViewer[] {
+  return getBoardEvents().presence.viewers(boardId);
+}
+
+export async function announceBoardPresence(boardId: string, connectionId: string, viewer: BoardViewer | null) {
+  try {
+    await getBoardEvents().transport.publish({ kind: 'presence', boardId, connectionId, viewer });
+  } catch (error) {
+    console.error('Failed to announce board presence:', error);
+  }
+}
+
+async function readClientId(): Promise<string | null> {
+  try {
+    return (await headers()).get(BOARD_CLIENT_ID_HEADER);
+  } catch {
+    // Called outside a request (cron jobs, scripts).
+    return null;
+  }
+}
+
+/**
+ * Push a change to everyone viewing the board. Never throws: live updates are a
+ * convenience and must not fail the request that made the change.
+ */
+export async function publishBoardEvent(boardId: string, event: BoardEventInput, actorId: string | null = null) {
+  try {
+    // Round-trip through JSON so every transport sees exactly what clients will receive.
+    const message = JSON.parse(JSON.stringify({
+      ...event,
+      boardId,
+      actorId,
+      clientId: await readClientId(),
+      at: new Date().toISOString(),
+    })) as BoardEventMessage;
+    await getBoardEvents().transport.publish({ kind: 'event', message });
+  } catch (error) {
+    console.error('Failed to publish board event:', error);
+  }
+}
+
+/** Publish a card's checklists after any checklist or item change. */
+export async function publishChecklistsUpdated(boardId: string, cardId: string, actorId: string) {
+  try {
+    const checklists = await prisma.checklist.findMany({
+      where: { cardId },
+      orderBy: { position: 'asc' },
+      select: {
+        id: true,
+        name: true,
+        type: true,
+        position: true,
+        items: {
+          orderBy: { position: 'asc' },
+          select: { id: true, content: true, isComplete: true, position: true },
+        },
+      },
+    });
+    await publishBoardEvent(boardId, {
+      type: 'checklists.updated',
+      cardId,
+      checklists,
+    }, actorId);
+  } catch (error) {
+    console.error('Failed to publish checklist update:', error);
+  }
+}
+
+/** Publish a card's assignees after one is added or removed. */
+export async function publishCardAssigneesUpdated(boardId: string, cardId: string, actorId: string) {
+  try {
+    const assignees = await prisma.cardUser.findMany({
+      where: { cardId },
+      select: {
+        id: true,
+        userId: true,
+        user: { select: { id: true, name: true, email: true, image: true } },
+      },
+    });
+    const card = { id: cardId, assignees };
+    await publishBoardEvent(boardId, { type: 'card.updated', card }, actorId);
+  } catch (error) {
+    console.error('Failed to publish assignee update:', error);
+  }
+}
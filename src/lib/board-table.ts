@@ -0,0 +1,315 @@
+import type {
+  Board,
+  Card,
+  CardTagInfo,
+  CardType,
+  TaskCard,
+  TaskReleaseMode,
+  UserStoryCard,
+} from '@/types';
+
+export type TableColumnId =
+  | 'type'
+  | 'list'
+  | 'assignees'
+  | 'storyPoints'
+  | 'deadline'
+  | 'tags'
+  | 'linked'
+  | 'releaseMode'
+  | 'approval';
+
+/** Sort key: the always-visible title or one of the configurable columns. */
+export type TableSortKey = 'title' | TableColumnId;
+
+export interface TableColumn {
+  id: TableColumnId;
+  label: string;
+  /** Pixel width; rows are a fixed grid so the body can be virtualized. */
+  width: number;
+}
+
+export const TABLE_COLUMNS: TableColumn[] = [
+  { id: 'type', label: 'Type', width: 110 },
+  { id: 'list', label: 'List', width: 160 },
+  { id: 'assignees', label: 'Assignees', width: 170 },
+  { id: 'storyPoints', label: 'Points', width: 80 },
+  { id: 'deadline', label: 'Deadline', width: 140 },
+  { id: 'tags', label: 'Tags', width: 200 },
+  { id: 'linked', label: 'Story / Epic', width: 200 },
+  { id: 'releaseMode', label: 'Release', width: 110 },
+  { id: 'approval', label: 'Approval', width: 120 },
+];
+
+const COLUMN_IDS = TABLE_COLUMNS.map((column) => column.id);
+
+export type ApprovalStatus = 'none' | 'po' | 'lead' | 'both';
+
+export const APPROVAL_LABELS: Record<ApprovalStatus, string> = {
+  none: 'Not approved',
+  po: 'PO approved',
+  lead: 'Lead approved',
+  both: 'Approved',
+};
+
+export const CARD_TYPE_LABELS: Record<CardType, string> = {
+  TASK: 'Task',
+  USER_STORY: 'User story',
+  EPIC: 'Epic',
+  UTILITY: 'Utility',
+};
+
+export interface TableRow {
+  card: Card;
+  listId: string;
+  listName: string;
+  assignees: { userId: string; name: string }[];
+  storyPoints: number | null;
+  deadline: string | null;
+  tags: CardTagInfo[];
+  /** The story a task belongs to (or its epic when it has no story), or a story's epic. */
+  linked: { id: string; title: string; type: CardType } | null;
+  /** Task-only columns are null on other card types. */
+  releaseMode: TaskReleaseMode | null;
+  approval: ApprovalStatus | null;
+}
+
+/** One row per non-archived card, in board order. */
+export function buildTableRows(board: Board): TableRow[] {
+  const titles = new Map<string, { title: string; type: CardType }>();
+  for (const list of board.lists) {
+    for (const card of list.cards) titles.set(card.id, { title: card.title, type: card.type });
+  }
+  const linkedRef = (id: string | null | undefined) => {
+    const found = id ? titles.get(id) : undefined;
+    return id && found ? { id, ...found } : null;
+  };
+
+  const rows: TableRow[] = [];
+  for (const list of board.lists) {
+    for (const card of list.cards) {
+      if (card.archivedAt) continue;
+
+      const row: TableRow = {
+        card,
+        listId: list.id,
+        listName: list.name,
+        assignees: [],
+        storyPoints: null,
+        deadline: null,
+        tags: card.tags ?? [],
+        linked: null,
+        releaseMode: null,
+        approval: null,
+      };
+
+      if (card.type === 'TASK') {
+        const task = card as TaskCard;
+        const taskData = task.taskData || {};
+        row.assignees = (task.assignees ?? []).map((assignee) => ({
+          userId: assignee.userId,
+          name: assignee.user.name || assignee.user.email,
+        }));
+        row.storyPoints = taskData.storyPoints ?? null;
+        row.deadline = taskData.deadline ?? null;
+        row.linked = linkedRef(taskData.linkedUserStoryId) ?? linkedRef(taskData.linkedEpicId);
+        row.releaseMode = taskData.releaseMode ?? 'IMMEDIATE';
+        row.approval = approvalStatus(!!taskData.approvedByPo, !!taskData.approvedByLead);
+      } else if (card.type === 'USER_STORY') {
+        row.linked = linkedRef((card as UserStoryCard).userStoryData?.linkedEpicId);
+      }
+
+      rows.push(row);
+    }
+  }
+  return rows;
+}
+
+function approvalStatus(po: boolean, lead: boolean): ApprovalStatus {
+  if (po && lead) return 'both';
+  if (po) return 'po';
+  if (lead) return 'lead';
+  return 'none';
+}
+
+const APPROVAL_ORDER: Record<ApprovalStatus, number> = { none: 0, po: 1, lead: 2, both: 3 };
+const TYPE_ORDER: Record<CardType, number> = { EPIC: 0, USER_STORY: 1, TASK: 2, UTILITY: 3 };
+
+function sortValue(row: TableRow, key: TableSortKey): string | number | null {
+  switch (key) {
+    case 'title':
+      return row.card.title.toLowerCase();
+    case 'type':
+      return TYPE_ORDER[row.card.type];
+    case 'list':
+      return row.listName.toLowerCase();
+    case 'assignees':
+      return row.assignees[0]?.name.toLowerCase() ?? null;
+    case 'storyPoints':
+      return row.storyPoints;
+    case 'deadline':
+      return row.deadline ? new Date(row.deadline).getTime() : null;
+    case 'tags':
+      return row.tags[0]?.name.toLowerCase() ?? null;
+    case 'linked':
+      return row.linked?.title.toLowerCase() ?? null;
+    case 'releaseMode':
+      return row.releaseMode;
+    case 'approval':
+      return row.approval ? APPROVAL_ORDER[row.approval] : null;
+  }
+}
+
+export interface TableSort {
+  key: TableSortKey;
+  direction: 'asc' | 'desc';
+}
+
+/** Stable sort; empty values go last in both directions. */
+export function sortTableRows(rows: TableRow[], sort: TableSort | null): TableRow[] {
+  if (!sort) return rows;
+  const factor = sort.direction === 'asc' ? 1 : -1;
+  return rows
+    .map((row, index) => ({ row, index, value: sortValue(row, sort.key) }))
+    .sort((a, b) => {
+      if (a.value === b.value) return a.index - b.index;
+      if (a.value === null) return 1;
+      if (b.value === null) return -1;
+      return (a.value < b.value ? -1 : 1) * factor;
+    })
+    .map(({ row }) => row);
+}
+
+/** Clicking a header cycles ascending, descending, then back to board order. */
+export function nextTableSort(current: TableSort | null, key: TableSortKey): TableSort | null {
+  if (current?.key !== key) return { key, direction: 'asc' };
+  return current.direction === 'asc' ? { key, direction: 'desc' } : null;
+}
+
+/** Assignee filter value matching cards nobody is assigned to. */
+export const UNASSIGNED_FILTER = '__unassigned';
+
+export interface TableFilters {
+  query: string;
+  type: CardType | null;
+  listId: string | null;
+  assigneeId: string | null;
+  tagId: string | null;
+}
+
+export const EMPTY_TABLE_FILTERS: TableFilters = {
+  query: '',
+  type: null,
+  listId: null,
+  assigneeId: null,
+  tagId: null,
+};
+
+export function isTableFiltered(filters: TableFilters): boolean {
+  return !!(filters.query.trim() || filters.type || filters.listId || filters.assigneeId || filters.tagId);
+}
+
+/** The query matches title, list, assignees, tags and the linked card, case-insensitively. */
+export function filterTableRows(rows: TableRow[], filters: TableFilters): TableRow[] {
+  const query = filters.query.trim().toLowerCase();
+  return rows.filter((row) => {
+    if (filters.type && row.card.type !== filters.type) return false;
+    if (filters.listId && row.listId !== filters.listId) return false;
+    if (filters.assigneeId === UNASSIGNED_FILTER) {
+      if (row.card.type !== 'TASK' || row.assignees.length > 0) return false;
+    } else if (filters.assigneeId && !row.assignees.some((assignee) => assignee.userId === filters.assigneeId)) {
+      return false;
+    }
+    if (filters.tagId && !row.tags.some((tag) => tag.id === filters.tagId)) return false;
+    if (!query) return true;
+    return [
+      row.card.title,
+      row.listName,
+      row.linked?.title,
+      ...row.assignees.map((assignee) => assignee.name),
+      ...row.tags.map((tag) => tag.name),
+    ].some((value) => value?.toLowerCase().includes(query));
+  });
+}
+
+export interface TableColumnConfig {
+  /** Every column id exactly once, in display order. */
+  order: TableColumnId[];
+  hidden: TableColumnId[];
+}
+
+export const DEFAULT_TABLE_COLUMN_CONFIG: TableColumnConfig = {
+  order: COLUMN_IDS,
+  hidden: ['releaseMode', 'approval'],
+};
+
+export function tableColumnConfigKey(boardId: string): string {
+  return `board-table.columns.${boardId}`;
+}
+
+/**
+ * Column config read back from storage. Unknown ids are dropped and columns added since
+ * the config was saved are appended (visible), so an old config never hides new data.
+ */
+export function parseTableColumnConfig(raw: unknown): TableColumnConfig {
+  if (!raw || typeof raw !== 'object') return DEFAULT_TABLE_COLUMN_CONFIG;
+  const { order, hidden } = raw as { order?: unknown; hidden?: unknown };
+  if (!Array.isArray(order)) return DEFAULT_TABLE_COLUMN_CONFIG;
+
+  const isColumnId = (value: unknown): value is TableColumnId =>
+    typeof value === 'string' && (COLUMN_IDS as string[]).includes(value);
+  const known = [...new Set(order.filter(isColumnId))];
+  return {
+    order: [...known, ...COLUMN_IDS.filter((id) => !known.includes(id))],
+    hidden: Array.isArray(hidden) ? [...new Set(hidden.filter(isColumnId))] : [],
+  };
+}
+
+export function visibleTableColumns(config: TableColumnConfig): TableColumn[] {
+  return config.order
+    .filter((id) => !config.hidden.includes(id))
+    .map((id) => TABLE_COLUMNS.find((column) => column.id === id)!);
+}
+
+export function toggleTableColumn(config: TableColumnConfig, id: TableColumnId): TableColumnConfig {
+  return {
+    ...config,
+    hidden: config.hidden.includes(id)
+      ? config.hidden.filter((hiddenId) => hiddenId !== id)
+      : [...config.hidden, id],
+  };
+}
+
+/** Move a column one place left (`-1`) or right (`1`). */
+export function moveTableColumn(config: TableColumnConfig, id: TableColumnId, step: -1 | 1): TableColumnConfig {
+  const index = config.order.indexOf(id);
+  const target = index + step;
+  if (index === -1 || target < 0 || target >= config.order.length) return config;
+  const order = [...config.order];
+  [order[index], order[target]] = [order[target], order[index]];
+  return { ...config, order };
+}
+
+/** Rows to render for a scroll position, with `overscan` extra rows above and below. */
+export function visibleRowRange(
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan = 10
+): { start: number; end: number } {
+  const first = Math.floor(Math.max(0, scrollTop) / rowHeight);
+  const last = Math.ceil((Math.max(0, scrollTop) + viewportHeight) / rowHeight);
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(rowCount, last + overscan),
+  };
+}
+
+/** Ids from `anchorId` to `targetId` inclusive, for shift-click selection. */
+export function selectionRange(orderedIds: string[], anchorId: string, targetId: string): string[] {
+  const from = orderedIds.indexOf(anchorId);
+  const to = orderedIds.indexOf(targetId);
+  if (from === -1 || to === -1) return [targetId];
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+}
@@ -0,0 +1,218 @@
+import type { CardType, TaskReleaseMode } from '@/types';
+import type { ParseResult } from './automation-rules';
+import { getPreviousFriday, type BusinessCalendar } from './date-utils';
+
+export const MAX_BULK_CARDS = 500;
+const MAX_DEADLINE_SHIFT_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Changes applied to every selected card. Task-only fields leave other card types alone. */
+export interface BulkCardOperations {
+  listId?: string;
+  /** Tasks take one assignee, so assigning a task replaces whoever had it. */
+  assignUserId?: string;
+  unassignUserId?: string;
+  addTagIds?: string[];
+  removeTagIds?: string[];
+  storyPoints?: number | null;
+  /** Whole days to move deadlines by; negative moves them earlier. Tasks without a deadline are skipped. */
+  deadlineShiftDays?: number;
+  /** IMMEDIATE releases staged tasks now; STAGED stages tasks in `stagingListId`. */
+  releaseMode?: TaskReleaseMode;
+  stagingListId?: string;
+  linkedUserStoryId?: string | null;
+  archive?: boolean;
+}
+
+export interface BulkCardRequest {
+  cardIds: string[];
+  operations: BulkCardOperations;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function parseIdList(value: unknown, label: string): ParseResult<string[] | undefined> {
+  if (value === undefined) return { value: undefined };
+  if (!Array.isArray(value) || value.some((id) => !nonEmptyString(id))) {
+    return { error: `${label} must be an array of IDs` };
+  }
+  return { value: [...new Set(value.map((id: string) => id.trim()))] };
+}
+
+export function parseBulkCardRequest(body: unknown): ParseResult<BulkCardRequest> {
+  if (!isRecord(body)) return { error: 'Invalid request body' };
+
+  const cardIds = parseIdList(body.cardIds, 'cardIds');
+  if (cardIds.error !== undefined) return { error: cardIds.error };
+  if (!cardIds.value || cardIds.value.length === 0) return { error: 'cardIds must not be empty' };
+  if (cardIds.value.length > MAX_BULK_CARDS) {
+    return { error: `Cannot update more than ${MAX_BULK_CARDS} cards at once` };
+  }
+
+  const raw = body.operations;
+  if (!isRecord(raw)) return { error: 'operations is required' };
+  const operations: BulkCardOperations = {};
+
+  for (const key of ['listId', 'assignUserId', 'unassignUserId', 'stagingListId'] as const) {
+    if (raw[key] === undefined) continue;
+    const id = nonEmptyString(raw[key]);
+    if (!id) return { error: `${key} must be an ID` };
+    operations[key] = id;
+  }
+
+  for (const key of ['addTagIds', 'removeTagIds'] as const) {
+    const ids = parseIdList(raw[key], key);
+    if (ids.error !== undefined) return { error: ids.error };
+    if (ids.value && ids.value.length > 0) operations[key] = ids.value;
+  }
+
+  if (raw.storyPoints !== undefined) {
+    const points = raw.storyPoints;
+    if (points !== null && (typeof points !== 'number' || !Number.isInteger(points) || points < 0)) {
+      return { error: 'storyPoints must be a non-negative integer or null' };
+    }
+    operations.storyPoints = points;
+  }
+
+  if (raw.deadlineShiftDays !== undefined) {
+    const days = raw.deadlineShiftDays;
+    if (typeof days !== 'number' || !Number.isInteger(days) || Math.abs(days) > MAX_DEADLINE_SHIFT_DAYS) {
+      return { error: `deadlineShiftDays must be a whole number of days up to ${MAX_DEADLINE_SHIFT_DAYS}` };
+    }
+    if (days !== 0) operations.deadlineShiftDays = days;
+  }
+
+  if (raw.releaseMode !== undefined) {
+    if (raw.releaseMode !== 'IMMEDIATE' && raw.releaseMode !== 'STAGED') {
+      return { error: 'releaseMode must be IMMEDIATE or STAGED' };
+    }
+    operations.releaseMode = raw.releaseMode;
+  }
+  if (operations.releaseMode === 'STAGED' && !operations.stagingListId) {
+    return { error: 'Staging tasks requires a stagingListId' };
+  }
+
+  if (raw.linkedUserStoryId !== undefined) {
+    if (raw.linkedUserStoryId === null) {
+      operations.linkedUserStoryId = null;
+    } else {
+      const storyId = nonEmptyString(raw.linkedUserStoryId);
+      if (!storyId) return { error: 'linkedUserStoryId must be an ID or null' };
+      operations.linkedUserStoryId = storyId;
+    }
+  }
+
+  if (raw.archive !== undefined && typeof raw.archive !== 'boolean') {
+    return { error: 'archive must be a boolean' };
+  }
+  if (raw.archive) operations.archive = true;
+
+  const changes = Object.keys(operations).filter((key) => key !== 'stagingListId');
+  if (changes.length === 0) return { error: 'No operations given' };
+  if (operations.archive && changes.length > 1) {
+    return { error: 'archive cannot be combined with other operations' };
+  }
+  if (operations.listId && operations.releaseMode) {
+    return { error: 'Moving and changing the release mode both pick a list; send them separately' };
+  }
+  if (operations.assignUserId && operations.assignUserId === operations.unassignUserId) {
+    return { error: 'Cannot assign and unassign the same user' };
+  }
+  if (operations.addTagIds?.some((id) => operations.removeTagIds?.includes(id))) {
+    return { error: 'Cannot add and remove the same tag' };
+  }
+
+  return { value: { cardIds: cardIds.value, operations } };
+}
+
+/**
+ * Move a deadline by whole days. Plain dates stay plain dates; timestamps keep their
+ * time of day in UTC, which is the same local time except across a DST change.
+ */
+export function shiftDeadline(deadline: string, days: number): string | null {
+  if (DAY_KEY_PATTERN.test(deadline)) {
+    const [year, month, day] = deadline.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+  }
+  const time = new Date(deadline).getTime();
+  return Number.isNaN(time) ? null : new Date(time + days * DAY_MS).toISOString();
+}
+
+export interface BulkPlanCard {
+  id: string;
+  type: CardType;
+  listId: string;
+  taskData: unknown;
+}
+
+export interface BulkPlanContext {
+  now: Date;
+  /** Task lists on the board, to tell where a staged task should be released to. */
+  taskListIds: ReadonlySet<string>;
+  /** Release target for staged tasks that are not in a task list (the board backlog). */
+  defaultReleaseTargetListId: string | null;
+  stagingList?: { id: string; startDate: Date } | null;
+  /** Studio holidays, so staged tasks are not released on a day off. */
+  calendar?: BusinessCalendar | null;
+}
+
+export interface BulkCardPlan {
+  cardId: string;
+  /** Replacement taskData, when a task-only operation changed it. */
+  taskData?: Record<string, unknown>;
+  /** Destination list, when the card moves. */
+  listId?: string;
+}
+
+/**
+ * Work out the taskData and list changes for one card. Assignees, tags and archiving
+ * apply to every card alike and are handled by the caller.
+ */
+export function planBulkCardChange(
+  card: BulkPlanCard,
+  operations: BulkCardOperations,
+  context: BulkPlanContext
+): BulkCardPlan {
+  const plan: BulkCardPlan = { cardId: card.id };
+  if (operations.listId && operations.listId !== card.listId) plan.listId = operations.listId;
+  if (card.type !== 'TASK') return plan;
+
+  const current = isRecord(card.taskData) ? card.taskData : {};
+  const next: Record<string, unknown> = { ...current };
+
+  if (operations.storyPoints !== undefined) next.storyPoints = operations.storyPoints;
+  if (operations.linkedUserStoryId !== undefined) next.linkedUserStoryId = operations.linkedUserStoryId;
+  if (operations.deadlineShiftDays && typeof current.deadline === 'string' && current.deadline) {
+    next.deadline = shiftDeadline(current.deadline, operations.deadlineShiftDays) ?? current.deadline;
+  }
+
+  const isUnreleasedStaged = current.releaseMode === 'STAGED' && !current.releasedAt;
+  if (operations.releaseMode === 'IMMEDIATE' && isUnreleasedStaged) {
+    const target = typeof current.releaseTargetListId === 'string' ? current.releaseTargetListId : null;
+    if (target) {
+      next.releaseMode = 'IMMEDIATE';
+      next.releasedAt = context.now.toISOString();
+      if (target !== card.listId) plan.listId = target;
+    }
+  } else if (operations.releaseMode === 'STAGED' && context.stagingList) {
+    const releaseTarget = context.taskListIds.has(card.listId)
+      ? card.listId
+      : (current.releaseTargetListId as string | null | undefined) ?? context.defaultReleaseTargetListId;
+    next.releaseMode = 'STAGED';
+    next.stagedFromPlanningListId = context.stagingList.id;
+    next.scheduledReleaseDate = getPreviousFriday(context.stagingList.startDate, context.calendar).toISOString();
+    next.releaseTargetListId = releaseTarget;
+    next.releasedAt = null;
+    if (context.stagingList.id !== card.listId) plan.listId = context.stagingList.id;
+  }
+
+  if (JSON.stringify(next) !== JSON.stringify(current)) plan.taskData = next;
+  return plan;
+}
@@ -0,0 +1,196 @@
+import type { Seniority } from '@prisma/client';
+import { formatLocalDateKey, getMonday, getWorkingDaysInWeek, type BusinessCalendar } from './date-utils';
+import { DEFAULT_SENIORITY_CONFIGS } from './rewards/seniority';
+
+/** Members without a seniority are planned at the mid-level expectation. */
+export const FALLBACK_SENIORITY: Seniority = 'MID';
+
+export interface CapacityPhase {
+  listId: string;
+  name: string;
+  phase: string | null;
+  startDate: Date;
+  endDate: Date;
+  /** Weeks the phase was created with, from its list template. */
+  durationWeeks: number | null;
+}
+
+export interface CapacityTask {
+  /** The planning list the task is scheduled in, or was released from. */
+  phaseListId: string;
+  storyPoints: number | null;
+  done: boolean;
+}
+
+export interface CapacityAvailability {
+  userId: string;
+  weekStart: Date;
+  dedication: number;
+}
+
+export type PhaseCapacityStatus = 'done' | 'ok' | 'short' | 'overdue';
+
+export interface PhaseCapacityWeek {
+  weekStart: string;
+  /** This phase's share of the points the booked people are expected to deliver that week. */
+  capacity: number;
+  dedication: number;
+}
+
+export interface PhaseCapacity {
+  listId: string;
+  name: string;
+  phase: string | null;
+  startDate: string;
+  endDate: string;
+  plannedWeeks: number;
+  durationWeeks: number | null;
+  totalPoints: number;
+  remainingPoints: number;
+  /** Tasks without an estimate, which the forecast cannot count. */
+  unestimatedTasks: number;
+  /** Capacity in the phase's weeks that have not passed yet. */
+  remainingCapacity: number;
+  shortfallPoints: number;
+  /** Full-time weeks of extra staffing that would cover the shortfall. */
+  extraDedicationWeeks: number;
+  /** Weeks the remaining points take at the phase's average weekly capacity; null without staffing. */
+  staffedWeeks: number | null;
+  status: PhaseCapacityStatus;
+  weeks: PhaseCapacityWeek[];
+}
+
+export interface CapacityForecast {
+  /** Points one person delivers in a full week, by seniority, after admin overrides. */
+  pointsPerWeek: Record<Seniority, number>;
+  phases: PhaseCapacity[];
+}
+
+interface ForecastInput {
+  phases: CapacityPhase[];
+  tasks: CapacityTask[];
+  availability: CapacityAvailability[];
+  seniorityByUser: Map<string, Seniority | null>;
+  seniorityConfigs: { seniority: Seniority; expectedPointsPerWeek: number }[];
+  /** Each person's days off (studio holidays and leave); weekends only when missing. */
+  calendarByUser?: Map<string, BusinessCalendar | null>;
+  now: Date;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function phaseWeeks(phase: CapacityPhase): Date[] {
+  const weeks: Date[] = [];
+  const week = getMonday(phase.startDate);
+  while (week <= phase.endDate) {
+    weeks.push(new Date(week));
+    week.setDate(week.getDate() + 7);
+  }
+  return weeks;
+}
+
+/**
+ * Compare what each planning phase still has to deliver with what its booked people can do.
+ * A person's weekly capacity is their dedication on the board times the expected points per
+ * week for their seniority, scaled by the working days they have that week. Phases that run
+ * at the same time split the week evenly; finished phases give up their share. Only weeks
+ * from the current one on count toward finishing.
+ */
+export function computeCapacityForecast({
+  phases,
+  tasks,
+  availability,
+  seniorityByUser,
+  seniorityConfigs,
+  calendarByUser,
+  now,
+}: ForecastInput): CapacityForecast {
+  const pointsPerWeek = Object.fromEntries(
+    DEFAULT_SENIORITY_CONFIGS.map((config) => [config.seniority, config.expectedPointsPerWeek])
+  ) as Record<Seniority, number>;
+  for (const config of seniorityConfigs) pointsPerWeek[config.seniority] = config.expectedPointsPerWeek;
+
+  const byWeek = new Map<string, { capacity: number; dedication: number }>();
+  for (const entry of availability) {
+    if (entry.dedication <= 0) continue;
+    const key = formatLocalDateKey(getMonday(entry.weekStart));
+    const seniority = seniorityByUser.get(entry.userId) ?? FALLBACK_SENIORITY;
+    const workingShare = getWorkingDaysInWeek(getMonday(entry.weekStart), calendarByUser?.get(entry.userId)) / 5;
+    const week = byWeek.get(key) ?? { capacity: 0, dedication: 0 };
+    week.capacity += (entry.dedication / 100) * workingShare * pointsPerWeek[seniority];
+    week.dedication += entry.dedication;
+    byWeek.set(key, week);
+  }
+
+  const currentWeek = getMonday(now);
+  const scheduled = phases.map((phase) => {
+    const phaseTasks = tasks.filter((task) => task.phaseListId === phase.listId);
+    return {
+      phase,
+      phaseTasks,
+      remainingPoints: phaseTasks.reduce((sum, task) => sum + (task.done ? 0 : task.storyPoints ?? 0), 0),
+      weekKeys: new Set(phaseWeeks(phase).map(formatLocalDateKey)),
+    };
+  });
+
+  return {
+    pointsPerWeek,
+    phases: scheduled
+      .map(({ phase, phaseTasks, remainingPoints }): PhaseCapacity => {
+        const totalPoints = phaseTasks.reduce((sum, task) => sum + (task.storyPoints ?? 0), 0);
+
+        const weeks = phaseWeeks(phase).map((monday) => {
+          const key = formatLocalDateKey(monday);
+          const week = byWeek.get(key);
+          const sharers = scheduled.filter((other) =>
+            other.weekKeys.has(key) && (other.phase === phase || other.remainingPoints > 0)
+          ).length;
+          return {
+            monday,
+            capacity: round1((week?.capacity ?? 0) / sharers),
+            dedication: Math.round((week?.dedication ?? 0) / sharers),
+          };
+        });
+        const upcoming = weeks.filter((week) => week.monday >= currentWeek);
+        const remainingCapacity = round1(upcoming.reduce((sum, week) => sum + week.capacity, 0));
+        const shortfallPoints = round1(Math.max(0, remainingPoints - remainingCapacity));
+
+        // Price the shortfall at the rate of the people already on the phase
+        const staffedCapacity = weeks.reduce((sum, week) => sum + week.capacity, 0);
+        const staffedDedication = weeks.reduce((sum, week) => sum + week.dedication, 0) / 100;
+        const rate = staffedDedication > 0 ? staffedCapacity / staffedDedication : pointsPerWeek[FALLBACK_SENIORITY];
+        const staffedWeekCount = weeks.filter((week) => week.capacity > 0).length;
+        const averageWeekly = staffedWeekCount > 0 ? staffedCapacity / staffedWeekCount : 0;
+
+        let status: PhaseCapacityStatus = 'ok';
+        if (remainingPoints === 0) status = 'done';
+        else if (upcoming.length === 0) status = 'overdue';
+        else if (shortfallPoints > 0) status = 'short';
+
+        return {
+          listId: phase.listId,
+          name: phase.name,
+          phase: phase.phase,
+          startDate: phase.startDate.toISOString(),
+          endDate: phase.endDate.toISOString(),
+          plannedWeeks: weeks.length,
+          durationWeeks: phase.durationWeeks,
+          totalPoints,
+          remainingPoints,
+          unestimatedTasks: phaseTasks.filter((task) => !task.done && task.storyPoints === null).length,
+          remainingCapacity,
+          shortfallPoints,
+          extraDedicationWeeks: shortfallPoints > 0 ? Math.ceil((shortfallPoints / rate) * 10) / 10 : 0,
+          staffedWeeks: averageWeekly > 0 ? Math.ceil(remainingPoints / averageWeekly) : null,
+          status,
+          weeks: weeks.map(({ monday, capacity, dedication }) => ({
+            weekStart: formatLocalDateKey(monday),
+            capacity,
+            dedication,
+          })),
+        };
+      })
+      .sort((a, b) => a.startDate.localeCompare(b.startDate)),
+  };
+}
+
@@ -0,0 +1,76 @@
+import { prisma } from '@/lib/prisma';
+import { createNotificationWithSlackDM } from '@/lib/notifications';
+import { toActivityPreview } from '@/lib/activity';
+import { extractMentions } from '@/lib/mentions';
+import type { CommentMention } from '@/types';
+
+/** The board members mentioned in a comment. Only members can be mentioned, since only they can open the card. */
+export async function resolveCommentMentions(boardId: string, content: string): Promise<CommentMention[]> {
+  if (!content.includes('@')) return [];
+
+  const members = await prisma.boardMember.findMany({
+    where: { boardId },
+    select: { user: { select: { id: true, name: true, email: true } } },
+  });
+  return extractMentions(content, members.map((member) => member.user));
+}
+
+interface NotifyCommentMentionsParams {
+  boardId: string;
+  cardId: string;
+  commentId: string;
+  authorId: string;
+  content: string;
+  mentions: CommentMention[];
+}
+
+/**
+ * Send a `comment_mention` notification (and Slack DM) to everyone mentioned, except
+ * the author. Best-effort: failures are logged and never fail the comment request.
+ */
+export async function notifyCommentMentions(params: NotifyCommentMentionsParams): Promise<void> {
+  const recipientIds = params.mentions
+    .map((mention) => mention.userId)
+    .filter((userId) => userId !== params.authorId);
+  if (recipientIds.length === 0) return;
+
+  try {
+    const [card, author, recipients] = await Promise.all([
+      prisma.card.findUnique({
+        where: { id: params.cardId },
+        select: { title: true, list: { select: { board: { select: { name: true } } } } },
+      }),
+      prisma.user.findUnique({
+        where: { id: params.authorId },
+        select: { name: true, email: true },
+      }),
+      prisma.user.findMany({
+        where: { id: { in: recipientIds } },
+        select: { id: true, slackUserId: true },
+      }),
+    ]);
+
+    const authorName = author?.name || author?.email || 'Someone';
+    const cardTitle = card?.title || 'Untitled';
+    const boardName = card?.list.board.name || 'a board';
+    const preview = toActivityPreview(params.content);
+
+    for (const recipient of recipients) {
+      await createNotificationWithSlackDM({
+        userId: recipient.id,
+        type: 'comment_mention',
+        title: `${authorName} mentioned you`,
+        message: `${authorName} mentioned you on "${cardTitle}" (${boardName}): ${preview}`,
+        data: {
+          boardId: params.boardId,
+          cardId: params.cardId,
+          cardTitle,
+          commentId: params.commentId,
+        },
+        slackUserId: recipient.slackUserId,
+      });
+    }
+  } catch (error) {
+    console.error('Failed to send mention notifications:', error);
+  }
+}
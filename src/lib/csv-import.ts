@@ -0,0 +1,270 @@
+import type { CardType, ListViewType } from '@prisma/client';
+import type { ParseResult } from './automation-rules';
+
+/** Rows a single CSV import may create. */
+export const MAX_CSV_IMPORT_ROWS = 2000;
+
+export const CSV_IMPORT_FIELDS = [
+  'title',
+  'list',
+  'type',
+  'description',
+  'storyPoints',
+  'deadline',
+  'assignee',
+  'tags',
+] as const;
+
+export type CsvImportField = (typeof CSV_IMPORT_FIELDS)[number];
+
+/** Which CSV header feeds each card field. Unmapped fields are left empty. */
+export type CsvColumnMapping = Partial<Record<CsvImportField, string>>;
+
+/** Header names recognised without a mapping step, compared without case, spaces or punctuation. */
+const FIELD_ALIASES: Record<CsvImportField, string[]> = {
+  title: ['title', 'name', 'summary', 'card', 'cardname', 'task'],
+  list: ['list', 'listname', 'status', 'column', 'stage'],
+  type: ['type', 'cardtype', 'issuetype', 'kind'],
+  description: ['description', 'desc', 'details', 'notes', 'body'],
+  storyPoints: ['storypoints', 'points', 'sp', 'estimate'],
+  deadline: ['deadline', 'due', 'duedate', 'date'],
+  assignee: ['assignee', 'assignedto', 'owner', 'member', 'members'],
+  tags: ['tags', 'labels', 'label', 'tag'],
+};
+
+const CARD_TYPE_ALIASES: Record<string, CardType> = {
+  task: 'TASK',
+  story: 'USER_STORY',
+  userstory: 'USER_STORY',
+  epic: 'EPIC',
+  utility: 'UTILITY',
+  note: 'UTILITY',
+};
+
+const normalize = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Split CSV text into rows (RFC 4180: quoted fields may hold delimiters, newlines and `""`).
+ * The delimiter is whichever of comma, semicolon or tab appears most in the first line, so
+ * spreadsheet exports from European locales work too. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.length === 0) {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim().length > 0));
+}
+
+/** Guess a mapping from header names; the import dialog shows it for the user to correct. */
+export function suggestCsvMapping(headers: string[]): CsvColumnMapping {
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<string>();
+  for (const field of CSV_IMPORT_FIELDS) {
+    const header = headers.find((candidate) => !used.has(candidate) && FIELD_ALIASES[field].includes(normalize(candidate)));
+    if (header) {
+      mapping[field] = header;
+      used.add(header);
+    }
+  }
+  return mapping;
+}
+
+export function parseCsvColumnMapping(value: unknown, headers: string[]): ParseResult<CsvColumnMapping> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'mapping must be an object' };
+  }
+  const mapping: CsvColumnMapping = {};
+  for (const [field, header] of Object.entries(value as Record<string, unknown>)) {
+    if (!CSV_IMPORT_FIELDS.includes(field as CsvImportField)) {
+      return { error: `Unknown field: ${field}` };
+    }
+    if (header === null || header === '') continue;
+    if (typeof header !== 'string' || !headers.includes(header)) {
+      return { error: `Column not found for ${field}: ${String(header)}` };
+    }
+    mapping[field as CsvImportField] = header;
+  }
+  if (!mapping.title) {
+    return { error: 'Choose the column that holds card titles' };
+  }
+  return { value: mapping };
+}
+
+export interface CsvImportContext {
+  lists: { id: string; name: string; viewType: ListViewType }[];
+  members: { userId: string; email: string; name: string | null }[];
+  tags: { id: string; name: string }[];
+}
+
+export interface CsvCardDraft {
+  /** Row number as a spreadsheet shows it, counting the header as row 1. */
+  row: number;
+  title: string;
+  listName: string;
+  /** Null when the list is created by the import. */
+  listId: string | null;
+  type: CardType;
+  description: string | null;
+  storyPoints: number | null;
+  deadline: string | null;
+  assigneeId: string | null;
+  tagIds: string[];
+}
+
+export interface CsvImportPlan {
+  cards: CsvCardDraft[];
+  newLists: { name: string; viewType: ListViewType }[];
+  /** Rows left out, with the reason. */
+  errors: { row: number; message: string }[];
+  warnings: string[];
+}
+
+function parseDeadline(value: string): string | null | undefined {
+  if (!value) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value;
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString().slice(0, 10);
+}
+
+/**
+ * Work out the cards a CSV would create on a board. Lists are matched by name and created when
+ * missing; assignees by email or name among board members; tags by name. Rows that cannot be
+ * imported are reported in `errors`, and unmatched assignees or tags in `warnings`.
+ */
+export function planCsvImport(
+  rows: string[][],
+  headers: string[],
+  mapping: CsvColumnMapping,
+  context: CsvImportContext,
+): CsvImportPlan {
+  const column = (field: CsvImportField) => (mapping[field] ? headers.indexOf(mapping[field]!) : -1);
+  const columns = Object.fromEntries(CSV_IMPORT_FIELDS.map((field) => [field, column(field)])) as Record<CsvImportField, number>;
+
+  const listsByName = new Map(context.lists.map((list) => [list.name.trim().toLowerCase(), list]));
+  const defaultList = context.lists.find((list) => list.viewType === 'TASKS') ?? context.lists[0];
+  const membersByKey = new Map<string, string | null>();
+  for (const member of context.members) {
+    membersByKey.set(member.email.toLowerCase(), member.userId);
+    if (member.name) {
+      const key = member.name.trim().toLowerCase();
+      // A name shared by two members matches neither
+      membersByKey.set(key, membersByKey.has(key) ? null : member.userId);
+    }
+  }
+  const tagsByName = new Map(context.tags.map((tag) => [tag.name.trim().toLowerCase(), tag.id]));
+
+  const plan: CsvImportPlan = { cards: [], newLists: [], errors: [], warnings: [] };
+  const newLists = new Map<string, { name: string; viewType: ListViewType }>();
+  const unknownAssignees = new Set<string>();
+  const unknownTags = new Set<string>();
+
+  rows.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (field: CsvImportField) => (columns[field] >= 0 ? (cells[columns[field]] ?? '').trim() : '');
+    const fail = (message: string) => plan.errors.push({ row, message });
+
+    const title = cell('title');
+    if (!title) return fail('Title is empty');
+
+    const rawType = cell('type');
+    const explicitType = rawType ? CARD_TYPE_ALIASES[normalize(rawType)] : undefined;
+    if (rawType && !explicitType) return fail(`Unknown card type "${rawType}"`);
+
+    const listName = cell('list') || defaultList?.name;
+    if (!listName) return fail('No list given and the board has no lists');
+    const key = listName.toLowerCase();
+    const existing = listsByName.get(key);
+    let viewType = existing?.viewType ?? newLists.get(key)?.viewType;
+    if (!viewType) {
+      viewType = explicitType === 'USER_STORY' || explicitType === 'EPIC' ? 'PLANNING' : 'TASKS';
+      newLists.set(key, { name: listName, viewType });
+    }
+
+    const type = explicitType ?? (viewType === 'PLANNING' ? 'USER_STORY' : 'TASK');
+    if (type === 'TASK' && viewType === 'PLANNING') {
+      return fail(`Tasks go in Tasks lists, and "${listName}" is a Planning list`);
+    }
+
+    const rawPoints = cell('storyPoints');
+    const storyPoints = rawPoints ? Number(rawPoints) : null;
+    if (storyPoints !== null && (!Number.isFinite(storyPoints) || storyPoints < 0)) {
+      return fail(`Story points "${rawPoints}" is not a number`);
+    }
+
+    const rawDeadline = cell('deadline');
+    const deadline = parseDeadline(rawDeadline);
+    if (deadline === undefined) return fail(`Deadline "${rawDeadline}" is not a date`);
+
+    const assignee = cell('assignee');
+    const assigneeId = assignee ? membersByKey.get(assignee.toLowerCase()) ?? null : null;
+    if (assignee && !assigneeId) unknownAssignees.add(assignee);
+
+    const tagIds: string[] = [];
+    for (const name of cell('tags').split(/[,;|]/).map((tag) => tag.trim()).filter(Boolean)) {
+      const tagId = tagsByName.get(name.toLowerCase());
+      if (tagId) tagIds.push(tagId);
+      else unknownTags.add(name);
+    }
+
+    plan.cards.push({
+      row,
+      title,
+      listName: existing?.name ?? newLists.get(key)!.name,
+      listId: existing?.id ?? null,
+      type,
+      description: cell('description') || null,
+      storyPoints: type === 'TASK' ? storyPoints : null,
+      deadline: type === 'TASK' ? deadline : null,
+      assigneeId,
+      tagIds: [...new Set(tagIds)],
+    });
+  });
+
+  plan.newLists = [...newLists.values()].filter((list) =>
+    plan.cards.some((card) => card.listId === null && card.listName === list.name)
+  );
+  if (unknownAssignees.size > 0) {
+    plan.warnings.push(`No board member matches, left unassigned: ${[...unknownAssignees].join(', ')}`);
+  }
+  if (unknownTags.size > 0) {
+    plan.warnings.push(`Tags not found, left off: ${[...unknownTags].join(', ')}`);
+  }
+  return plan;
+}
@@ -11,6 +11,58 @@
  * - src/app/api/boards/[boardId]/timeline/blocks/move-group/route.ts
  */
 
+/**
+ * Days off on top of weekends, such as a studio's holidays, keyed by local date
+ * (`YYYY-MM-DD`, see formatLocalDateKey). The business-day helpers take one optionally;
+ * without it only Saturdays and Sundays are skipped.
+ */
+export interface BusinessCalendar {
+  holidays: ReadonlySet<string>;
+}
+
+/**
+ * Whether a date is a working day: a weekday that is not a holiday in the calendar.
+ *
+ * @param date - The date to check
+ * @param calendar - Optional holidays to skip
+ */
+export function isBusinessDay(date: Date, calendar?: BusinessCalendar | null): boolean {
+  const dayOfWeek = date.getDay();
+  if (dayOfWeek === 0 || dayOfWeek === 6) return false;
+  return !calendar?.holidays.has(formatLocalDateKey(date));
+}
+
+/**
+ * Count the working days in the Mon-Fri week starting on a Monday.
+ *
+ * @param monday - A Monday date
+ * @param calendar - Optional holidays to skip
+ */
+export function getWorkingDaysInWeek(monday: Date, calendar?: BusinessCalendar | null): number {
+  return getBusinessDaysBetween(monday, getFriday(monday), calendar);
+}
+
+/**
+ * Snap a date to a block start like snapToMonday(), then skip forward past weeks with no
+ * working days (e.g. a studio closed between Christmas and New Year).
+ *
+ * @param date - The input date
+ * @param calendar - Optional holidays to skip
+ * @returns The Monday of the first week that has a working day
+ */
+export function snapToWorkingWeek(date: Date, calendar?: BusinessCalendar | null): Date {
+  return skipClosedWeeks(snapToMonday(date), 1, calendar);
+}
+
+function skipClosedWeeks(monday: Date, direction: 1 | -1, calendar?: BusinessCalendar | null): Date {
+  const result = new Date(monday);
+  // A year of closed weeks means the calendar is wrong, not that the block should go further
+  for (let guard = 0; guard < 52 && calendar && getWorkingDaysInWeek(result, calendar) === 0; guard++) {
+    result.setDate(result.getDate() + direction * 7);
+  }
+  return result;
+}
+
 /**
  * Get the Monday of the week for a given date.
  * - If the date is Sunday, returns the previous Monday (6 days back)
@@ -95,18 +147,17 @@ export function getBlockEndDate(startDate: Date): Date {
  *
  * @param date - The starting date
  * @param days - Number of business days to add (negative to subtract)
+ * @param calendar - Optional holidays to skip as well
  * @returns A new Date after adding/subtracting business days
  */
-export function addBusinessDays(date: Date, days: number): Date {
+export function addBusinessDays(date: Date, days: number, calendar?: BusinessCalendar | null): Date {
   const result = new Date(date);
   let remainingDays = Math.abs(days);
   const direction = days >= 0 ? 1 : -1;
 
   while (remainingDays > 0) {
     result.setDate(result.getDate() + direction);
-    const dayOfWeek = result.getDay();
-    // Skip weekends (0 = Sunday, 6 = Saturday)
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
+    if (isBusinessDay(result, calendar)) {
       remainingDays--;
     }
   }
@@ -119,15 +170,15 @@ export function addBusinessDays(date: Date, days: number): Date {
  *
  * @param start - The start date
  * @param end - The end date
+ * @param calendar - Optional holidays to leave out of the count
  * @returns Number of business days between start and end (inclusive)
  */
-export function getBusinessDaysBetween(start: Date, end: Date): number {
+export function getBusinessDaysBetween(start: Date, end: Date, calendar?: BusinessCalendar | null): number {
   let count = 0;
   const current = new Date(start);
 
   while (current <= end) {
-    const dayOfWeek = current.getDay();
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) {
+    if (isBusinessDay(current, calendar)) {
       count++;
     }
     current.setDate(current.getDate() + 1);
@@ -139,20 +190,25 @@ export function getBusinessDaysBetween(start: Date, end: Date): number {
 /**
  * Move a block's dates by weeks, snapping to Mon-Fri 5-day blocks.
  *
+ * With a calendar, a week with no working days is skipped in the direction of the move.
+ *
  * @param startDate - The current block start date
  * @param weeksDelta - Number of weeks to move (positive = forward, negative = backward)
+ * @param calendar - Optional holidays; fully closed weeks are skipped
  * @returns Object with newStartDate (Monday) and newEndDate (Friday)
  */
 export function moveBlockDates(
   startDate: Date,
-  weeksDelta: number
+  weeksDelta: number,
+  calendar?: BusinessCalendar | null
 ): { newStartDate: Date; newEndDate: Date } {
   // Get the Monday of the current week the block starts in
   const currentMonday = getMonday(startDate);
 
   // Move by the specified number of weeks (7 calendar days per week)
-  const newMonday = new Date(currentMonday);
-  newMonday.setDate(newMonday.getDate() + weeksDelta * 7);
+  const movedMonday = new Date(currentMonday);
+  movedMonday.setDate(movedMonday.getDate() + weeksDelta * 7);
+  const newMonday = skipClosedWeeks(movedMonday, weeksDelta < 0 ? -1 : 1, calendar);
 
   // End date is always Friday (5-day block: Mon-Fri)
   const newFriday = getFriday(newMonday);
@@ -174,6 +230,27 @@ export function moveBlockByWeeks(startDate: Date, weeks: number): Date {
   return snapToMonday(result);
 }
 
+/**
+ * The Friday before a date, moved earlier while it is a holiday. Staged tasks are released
+ * then, so they are ready when their staging list starts.
+ *
+ * @param date - The date to look back from (usually a list's Monday start)
+ * @param calendar - Optional holidays to skip
+ * @returns A new Date on the last working day of the previous week
+ */
+export function getPreviousFriday(date: Date, calendar?: BusinessCalendar | null): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() - 1);
+  while (result.getDay() !== 5) {
+    result.setDate(result.getDate() - 1);
+  }
+  // Stay within that week; if all of it is closed, the Friday is still the best guess
+  for (let day = new Date(result); day.getDay() !== 0; day.setDate(day.getDate() - 1)) {
+    if (isBusinessDay(day, calendar)) return day;
+  }
+  return result;
+}
+
 /**
  * Format a date range for display.
  *
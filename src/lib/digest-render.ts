@@ -0,0 +1,213 @@
+import { format } from 'date-fns';
+import type { MailMessage } from '@/lib/mail/message';
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export interface DigestNotificationItem {
+  title: string;
+  message: string;
+  createdAt: Date;
+  boardId?: string;
+  cardId?: string;
+}
+
+export interface DigestDueCardItem {
+  cardId: string;
+  title: string;
+  boardId: string;
+  boardName: string;
+  deadline: Date;
+}
+
+export interface DigestEvaluationItem {
+  cardId: string;
+  title: string;
+  boardId: string;
+  boardName: string;
+  cycleNumber: number;
+}
+
+export interface DigestBadgeItem {
+  name: string;
+  description: string;
+  awardedAt: Date;
+}
+
+export interface DigestContent {
+  userId: string;
+  userName: string | null;
+  email: string;
+  period: DigestPeriod;
+  notifications: DigestNotificationItem[];
+  /** Unread notifications beyond the ones listed. */
+  moreNotifications: number;
+  dueCards: DigestDueCardItem[];
+  pendingEvaluations: DigestEvaluationItem[];
+  badges: DigestBadgeItem[];
+}
+
+interface DigestLine {
+  label: string;
+  detail?: string;
+  href?: string;
+}
+
+interface DigestSection {
+  heading: string;
+  lines: DigestLine[];
+  footnote?: string;
+}
+
+export function isDigestEmpty(content: DigestContent): boolean {
+  return content.notifications.length === 0
+    && content.dueCards.length === 0
+    && content.pendingEvaluations.length === 0
+    && content.badges.length === 0;
+}
+
+function cardUrl(appUrl: string, boardId: string, cardId: string): string {
+  return `${appUrl}/boards/${boardId}?card=${cardId}`;
+}
+
+function dueLabel(deadline: Date, now: Date): string {
+  const date = format(deadline, 'EEE d MMM');
+  return deadline.getTime() < now.getTime() ? `Overdue since ${date}` : `Due ${date}`;
+}
+
+function buildSections(content: DigestContent, appUrl: string, now: Date): DigestSection[] {
+  const sections: DigestSection[] = [];
+
+  if (content.dueCards.length > 0) {
+    sections.push({
+      heading: 'Your tasks due soon',
+      lines: content.dueCards.map((card) => ({
+        label: card.title,
+        detail: `${dueLabel(card.deadline, now)} · ${card.boardName}`,
+        href: cardUrl(appUrl, card.boardId, card.cardId),
+      })),
+    });
+  }
+
+  if (content.pendingEvaluations.length > 0) {
+    sections.push({
+      heading: 'Waiting for your evaluation',
+      lines: content.pendingEvaluations.map((evaluation) => ({
+        label: evaluation.title,
+        detail: `Review cycle ${evaluation.cycleNumber} · ${evaluation.boardName}`,
+        href: cardUrl(appUrl, evaluation.boardId, evaluation.cardId),
+      })),
+    });
+  }
+
+  if (content.notifications.length > 0) {
+    sections.push({
+      heading: 'Unread notifications',
+      lines: content.notifications.map((notification) => ({
+        label: notification.title,
+        detail: notification.message,
+        href: notification.boardId
+          ? notification.cardId
+            ? cardUrl(appUrl, notification.boardId, notification.cardId)
+            : `${appUrl}/boards/${notification.boardId}`
+          : undefined,
+      })),
+      footnote: content.moreNotifications > 0
+        ? `And ${content.moreNotifications} more in the app.`
+        : undefined,
+    });
+  }
+
+  if (content.badges.length > 0) {
+    sections.push({
+      heading: 'New badges',
+      lines: content.badges.map((badge) => ({
+        label: badge.name,
+        detail: badge.description,
+        href: `${appUrl}/badges`,
+      })),
+    });
+  }
+
+  return sections;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function subjectFor(content: DigestContent, now: Date): string {
+  const counts = [
+    content.dueCards.length > 0 && `${content.dueCards.length} due`,
+    content.pendingEvaluations.length > 0 && `${content.pendingEvaluations.length} to evaluate`,
+    content.notifications.length > 0 && `${content.notifications.length + content.moreNotifications} unread`,
+  ].filter(Boolean);
+  const title = content.period === 'weekly'
+    ? `Your Fallo week of ${format(now, 'd MMM')}`
+    : `Your Fallo day, ${format(now, 'EEE d MMM')}`;
+  return counts.length > 0 ? `${title}: ${counts.join(', ')}` : title;
+}
+
+/** Render the digest as an email with matching plain-text and HTML bodies. */
+export function renderDigest(content: DigestContent, appUrl: string, now: Date = new Date()): MailMessage {
+  const sections = buildSections(content, appUrl, now);
+  const greeting = `Hi ${content.userName || content.email},`;
+  const intro = content.period === 'weekly'
+    ? 'Here is what needs your attention this week.'
+    : 'Here is what needs your attention today.';
+  const settingsUrl = `${appUrl}/users/${content.userId}`;
+  const footer = 'You get this email because digests are on in your notification settings.';
+
+  const text = [
+    greeting,
+    '',
+    intro,
+    ...sections.flatMap((section) => [
+      '',
+      section.heading.toUpperCase(),
+      ...section.lines.map((line) => [
+        `- ${line.label}`,
+        line.detail ? `  ${line.detail}` : null,
+        line.href ? `  ${line.href}` : null,
+      ].filter(Boolean).join('\n')),
+      ...(section.footnote ? [section.footnote] : []),
+    ]),
+    '',
+    '--',
+    footer,
+    `Change it at ${settingsUrl}`,
+    '',
+  ].join('\n');
+
+  const htmlSections = sections.map((section) => {
+    const items = section.lines.map((line) => {
+      const label = line.href
+        ? `<a href="${escapeHtml(line.href)}" style="color:#2563eb;text-decoration:none">${escapeHtml(line.label)}</a>`
+        : escapeHtml(line.label);
+      const detail = line.detail
+        ? `<div style="color:#6b7280;font-size:13px">${escapeHtml(line.detail)}</div>`
+        : '';
+      return `<li style="margin:0 0 8px">${label}${detail}</li>`;
+    }).join('');
+    const footnote = section.footnote
+      ? `<p style="color:#6b7280;font-size:13px;margin:0">${escapeHtml(section.footnote)}</p>`
+      : '';
+    return `<h2 style="font-size:15px;margin:24px 0 8px">${escapeHtml(section.heading)}</h2>`
+      + `<ul style="padding-left:18px;margin:0 0 8px">${items}</ul>${footnote}`;
+  }).join('');
+
+  const html = '<!DOCTYPE html><html><body style="font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111827;line-height:1.4">'
+    + '<div style="max-width:560px;margin:0 auto;padding:16px">'
+    + `<p>${escapeHtml(greeting)}</p><p>${escapeHtml(intro)}</p>`
+    + htmlSections
+    + '<hr style="border:none;border-top:1px solid #e5e7eb;margin:24px 0 12px">'
+    + `<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)} `
+    + `<a href="${escapeHtml(settingsUrl)}" style="color:#6b7280">Change it</a>.</p>`
+    + '</div></body></html>';
+
+  return { to: content.email, subject: subjectFor(content, now), text, html };
+}
@@ -0,0 +1,268 @@
+import { prisma } from '@/lib/prisma';
+import { sendMail } from '@/lib/mail/transport';
+import { isDoneList } from '@/lib/quality-review';
+import { getQualityAccessContext, listPendingEvaluations } from '@/lib/quality-review-api';
+import { isValidTimeZone, localClock, toNotificationPreferences } from '@/lib/notification-preferences';
+import {
+  isDigestEmpty,
+  renderDigest,
+  type DigestContent,
+  type DigestDueCardItem,
+  type DigestPeriod,
+} from '@/lib/digest-render';
+import type { NotificationPreferences } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+// A run a few hours early (manual trigger, cron drift) still counts as the next digest.
+const MIN_GAP_MS: Record<DigestPeriod, number> = {
+  daily: 20 * HOUR_MS,
+  weekly: 6 * DAY_MS,
+};
+const PERIOD_MS: Record<DigestPeriod, number> = {
+  daily: DAY_MS,
+  weekly: 7 * DAY_MS,
+};
+const DUE_AHEAD_DAYS: Record<DigestPeriod, number> = {
+  daily: 3,
+  weekly: 7,
+};
+// Older overdue tasks are left out, like task reminders, so abandoned cards don't fill every digest.
+const OVERDUE_LOOKBACK_DAYS = 30;
+const MAX_NOTIFICATIONS = 20;
+const MAX_DUE_CARDS = 15;
+
+interface DigestTaskData {
+  deadline?: string | null;
+  [key: string]: unknown;
+}
+
+export interface SendDigestsResult {
+  usersChecked: number;
+  digestsSent: number;
+  skippedNotDue: number;
+  skippedEmpty: number;
+  failed: number;
+}
+
+/**
+ * Whether this user's digest should go out now. Daily digests go out on every run;
+ * weekly digests on Mondays in the user's time zone.
+ */
+export function isDigestDue(
+  preferences: NotificationPreferences,
+  lastSentAt: Date | null,
+  now: Date
+): boolean {
+  if (preferences.digestFrequency === 'off') return false;
+  if (lastSentAt && now.getTime() - lastSentAt.getTime() < MIN_GAP_MS[preferences.digestFrequency]) {
+    return false;
+  }
+  if (preferences.digestFrequency === 'weekly') {
+    const timeZone = isValidTimeZone(preferences.timeZone) ? preferences.timeZone : 'UTC';
+    return localClock(now, timeZone).weekday === 1;
+  }
+  return true;
+}
+
+/** Start of the period a digest covers: the previous digest, at most one period back. */
+export function digestWindowStart(period: DigestPeriod, lastSentAt: Date | null, now: Date): Date {
+  const periodStart = new Date(now.getTime() - PERIOD_MS[period]);
+  return lastSentAt && lastSentAt > periodStart ? lastSentAt : periodStart;
+}
+
+export function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL || 'http://localhost:3800').replace(/\/+$/, '');
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+async function collectDueCards(userId: string, period: DigestPeriod, now: Date): Promise<DigestDueCardItem[]> {
+  const cards = await prisma.card.findMany({
+    where: {
+      type: 'TASK',
+      archivedAt: null,
+      assignees: { some: { userId } },
+      list: { board: { isTemplate: false, archivedAt: null } },
+    },
+    select: {
+      id: true,
+      title: true,
+      taskData: true,
+      list: {
+        select: {
+          id: true,
+          name: true,
+          phase: true,
+          viewType: true,
+          board: { select: { id: true, name: true } },
+        },
+      },
+    },
+  });
+
+  const from = now.getTime() - OVERDUE_LOOKBACK_DAYS * DAY_MS;
+  const until = now.getTime() + DUE_AHEAD_DAYS[period] * DAY_MS;
+
+  return cards
+    .flatMap((card) => {
+      const deadline = parseDate(((card.taskData || {}) as DigestTaskData).deadline);
+      if (!deadline || deadline.getTime() < from || deadline.getTime() > until) return [];
+      if (isDoneList(card.list)) return [];
+      return [{
+        cardId: card.id,
+        title: card.title,
+        boardId: card.list.board.id,
+        boardName: card.list.board.name,
+        deadline,
+      }];
+    })
+    .sort((a, b) => a.deadline.getTime() - b.deadline.getTime())
+    .slice(0, MAX_DUE_CARDS);
+}
+
+/**
+ * Gather one user's digest: unread notifications and badges since `since`, their open
+ * tasks due soon or recently overdue, and the evaluations waiting for them.
+ */
+export async function collectDigest(params: {
+  user: { id: string; name: string | null; email: string };
+  period: DigestPeriod;
+  since: Date;
+  now: Date;
+}): Promise<DigestContent> {
+  const { user, period, since, now } = params;
+  const unreadWhere = {
+    userId: user.id,
+    read: false,
+    createdAt: { gte: since },
+    // Badges get their own section, from the awards themselves
+    type: { not: 'badge_awarded' },
+  };
+
+  const [notifications, unreadCount, dueCards, access, badgeAwards] = await Promise.all([
+    prisma.notification.findMany({
+      where: unreadWhere,
+      orderBy: { createdAt: 'desc' },
+      take: MAX_NOTIFICATIONS,
+    }),
+    prisma.notification.count({ where: unreadWhere }),
+    collectDueCards(user.id, period, now),
+    getQualityAccessContext(prisma, user.id),
+    prisma.badgeAward.findMany({
+      where: { userId: user.id, awardedAt: { gte: since } },
+      orderBy: { awardedAt: 'asc' },
+      include: { badgeDefinition: { select: { name: true, description: true } } },
+    }),
+  ]);
+
+  const pending = access && access.evaluatorRoles.length > 0
+    ? await listPendingEvaluations(prisma, user.id, access.evaluatorRoles)
+    : [];
+
+  return {
+    userId: user.id,
+    userName: user.name,
+    email: user.email,
+    period,
+    notifications: notifications.map((notification) => {
+      const data = (notification.data || {}) as { boardId?: unknown; cardId?: unknown };
+      return {
+        title: notification.title,
+        message: notification.message,
+        createdAt: notification.createdAt,
+        boardId: typeof data.boardId === 'string' ? data.boardId : undefined,
+        cardId: typeof data.cardId === 'string' ? data.cardId : undefined,
+      };
+    }),
+    moreNotifications: Math.max(0, unreadCount - notifications.length),
+    dueCards,
+    pendingEvaluations: pending.map((evaluation) => ({
+      cardId: evaluation.card.id,
+      title: evaluation.card.title,
+      boardId: evaluation.card.boardId,
+      boardName: evaluation.card.boardName,
+      cycleNumber: evaluation.cycleNumber,
+    })),
+    badges: badgeAwards.map((award) => ({
+      name: award.badgeDefinition.name,
+      description: award.badgeDefinition.description,
+      awardedAt: award.awardedAt,
+    })),
+  };
+}
+
+/**
+ * Email every user whose daily or weekly digest is due. Digests with nothing in them
+ * are not sent. Safe to run more than once a day: a user's digest is claimed before
+ * it is sent, so concurrent runs don't both send it.
+ */
+export async function sendDigests(options: { now?: Date } = {}): Promise<SendDigestsResult> {
+  const now = options.now ?? new Date();
+  const appUrl = getAppUrl();
+  const result: SendDigestsResult = {
+    usersChecked: 0,
+    digestsSent: 0,
+    skippedNotDue: 0,
+    skippedEmpty: 0,
+    failed: 0,
+  };
+
+  const rows = await prisma.notificationPreference.findMany({
+    where: { digestFrequency: { in: ['daily', 'weekly'] }, user: { deletedAt: null } },
+    include: { user: { select: { id: true, name: true, email: true } } },
+  });
+
+  for (const row of rows) {
+    result.usersChecked += 1;
+    const preferences = toNotificationPreferences(row);
+    if (preferences.digestFrequency === 'off' || !isDigestDue(preferences, row.lastDigestSentAt, now)) {
+      result.skippedNotDue += 1;
+      continue;
+    }
+
+    const period = preferences.digestFrequency;
+    let claimed = false;
+    try {
+      const content = await collectDigest({
+        user: row.user,
+        period,
+        since: digestWindowStart(period, row.lastDigestSentAt, now),
+        now,
+      });
+      if (isDigestEmpty(content)) {
+        result.skippedEmpty += 1;
+        continue;
+      }
+
+      const claim = await prisma.notificationPreference.updateMany({
+        where: { id: row.id, lastDigestSentAt: row.lastDigestSentAt },
+        data: { lastDigestSentAt: now },
+      });
+      if (claim.count === 0) {
+        result.skippedNotDue += 1;
+        continue;
+      }
+      claimed = true;
+
+      await sendMail(renderDigest(content, appUrl, now));
+      result.digestsSent += 1;
+    } catch (error) {
+      console.error(`Failed to send digest to user ${row.userId}:`, error);
+      result.failed += 1;
+      // Give the claim back so the next run retries with the same window
+      if (claimed) {
+        await prisma.notificationPreference
+          .updateMany({ where: { id: row.id, lastDigestSentAt: now }, data: { lastDigestSentAt: row.lastDigestSentAt } })
+          .catch(() => undefined);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,254 @@
+import { isDoneList, isInProgressList, type TransitionListContext } from './quality-review';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest range the metrics endpoint accepts, in days. */
+export const MAX_FLOW_METRICS_DAYS = 365;
+
+export interface FlowList extends TransitionListContext {
+  position: number;
+  color: string | null;
+}
+
+export interface FlowCard {
+  id: string;
+  title: string;
+  listId: string;
+  storyPoints: number | null;
+  tagIds: string[];
+  createdAt: Date;
+  completedAt: Date | null;
+  archivedAt: Date | null;
+}
+
+/** A `moved` activity: the card left `fromListId` for `toListId` at `at`. */
+export interface FlowMove {
+  cardId: string;
+  fromListId: string;
+  toListId: string;
+  at: Date;
+}
+
+export interface FlowTimeLog {
+  cardId: string;
+  listId: string;
+  startTime: Date;
+  endTime: Date | null;
+}
+
+export interface FlowFilters {
+  tagId?: string | null;
+  /** Keep only cards with one of these estimates. */
+  storyPoints?: number[] | null;
+}
+
+export interface ListInterval {
+  listId: string;
+  start: Date;
+  /** Null while the card is still there. */
+  end: Date | null;
+}
+
+export interface FlowTimePoint {
+  cardId: string;
+  title: string;
+  storyPoints: number | null;
+  completedAt: string;
+  days: number;
+}
+
+export interface FlowPercentiles {
+  count: number;
+  average: number | null;
+  p50: number | null;
+  p85: number | null;
+  p95: number | null;
+}
+
+export interface FlowMetrics {
+  from: string;
+  to: string;
+  lists: { id: string; name: string; color: string | null; isDone: boolean }[];
+  /** Cards in each list at the end of each day, oldest first. */
+  cumulativeFlow: { date: string; counts: Record<string, number> }[];
+  /** First time in an in-progress list until completed, for cards completed in the range. */
+  cycleTime: { points: FlowTimePoint[]; summary: FlowPercentiles };
+  /** Created until completed, for cards completed in the range. */
+  leadTime: { points: FlowTimePoint[]; summary: FlowPercentiles };
+  /** Visits that ended in the range, plus the cards sitting in each list now. */
+  timeInList: {
+    listId: string;
+    visits: number;
+    averageDays: number | null;
+    p85Days: number | null;
+    current: number;
+    /** Hours tracked by time logs while in this list, in the range. */
+    loggedHours: number;
+  }[];
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const toDays = (ms: number) => round1(ms / DAY_MS);
+const dateKey = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Nearest-rank percentile; null for no values. */
+export function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.max(1, Math.ceil((p / 100) * sorted.length));
+  return sorted[Math.min(rank, sorted.length) - 1];
+}
+
+export function summarizeDurations(days: number[]): FlowPercentiles {
+  return {
+    count: days.length,
+    average: days.length > 0 ? round1(days.reduce((sum, value) => sum + value, 0) / days.length) : null,
+    p50: percentile(days, 50),
+    p85: percentile(days, 85),
+    p95: percentile(days, 95),
+  };
+}
+
+export function matchesFlowFilters(card: FlowCard, filters: FlowFilters): boolean {
+  if (filters.tagId && !card.tagIds.includes(filters.tagId)) return false;
+  if (filters.storyPoints && filters.storyPoints.length > 0) {
+    return card.storyPoints !== null && filters.storyPoints.includes(card.storyPoints);
+  }
+  return true;
+}
+
+/**
+ * Rebuild where a card has been from its moves. The card starts in the first move's source
+ * list (or where it is now, if it never moved). Completed cards stay in their last list after
+ * being archived, so done work keeps counting; other archived cards drop out.
+ */
+export function cardListIntervals(card: FlowCard, moves: FlowMove[]): ListInterval[] {
+  const sorted = [...moves].sort((a, b) => a.at.getTime() - b.at.getTime());
+  const intervals: ListInterval[] = [];
+  let listId = sorted[0]?.fromListId ?? card.listId;
+  let start = card.createdAt;
+
+  for (const move of sorted) {
+    if (move.at < start) continue;
+    intervals.push({ listId, start, end: move.at });
+    listId = move.toListId;
+    start = move.at;
+  }
+  intervals.push({ listId, start, end: card.archivedAt && !card.completedAt ? card.archivedAt : null });
+
+  return intervals.filter((interval) => interval.end === null || interval.end > interval.start);
+}
+
+/**
+ * Cumulative flow, cycle and lead times and time per list for a board's Tasks lists.
+ * List history comes from `moved` activities, since time logs only cover in-progress lists;
+ * the logs still mark when work started and how much of each stay was tracked.
+ */
+export function computeFlowMetrics(input: {
+  lists: FlowList[];
+  cards: FlowCard[];
+  moves: FlowMove[];
+  timeLogs: FlowTimeLog[];
+  from: Date;
+  to: Date;
+  now?: Date;
+  filters?: FlowFilters;
+}): FlowMetrics {
+  const now = input.now ?? new Date();
+  const lists = input.lists.filter((list) => list.viewType === 'TASKS').sort((a, b) => a.position - b.position);
+  const listById = new Map(lists.map((list) => [list.id, list]));
+  const cards = input.cards.filter((card) => matchesFlowFilters(card, input.filters ?? {}));
+
+  const movesByCard = new Map<string, FlowMove[]>();
+  for (const move of input.moves) {
+    movesByCard.set(move.cardId, [...(movesByCard.get(move.cardId) ?? []), move]);
+  }
+  const logsByCard = new Map<string, FlowTimeLog[]>();
+  for (const log of input.timeLogs) {
+    logsByCard.set(log.cardId, [...(logsByCard.get(log.cardId) ?? []), log]);
+  }
+
+  const history = cards.map((card) => ({ card, intervals: cardListIntervals(card, movesByCard.get(card.id) ?? []) }));
+
+  const days: Date[] = [];
+  for (let day = Date.UTC(input.from.getUTCFullYear(), input.from.getUTCMonth(), input.from.getUTCDate()); day <= input.to.getTime(); day += DAY_MS) {
+    days.push(new Date(day));
+  }
+  const cumulativeFlow = days.map((day) => {
+    const instant = new Date(Math.min(day.getTime() + DAY_MS - 1, now.getTime()));
+    const counts = Object.fromEntries(lists.map((list) => [list.id, 0]));
+    for (const { intervals } of history) {
+      const at = intervals.find((interval) => interval.start <= instant && (interval.end === null || interval.end > instant));
+      if (at && at.listId in counts) counts[at.listId]++;
+    }
+    return { date: dateKey(day), counts };
+  });
+
+  const inRange = (date: Date) => date >= input.from && date <= input.to;
+  const cyclePoints: FlowTimePoint[] = [];
+  const leadPoints: FlowTimePoint[] = [];
+  for (const { card, intervals } of history) {
+    if (!card.completedAt || !inRange(card.completedAt)) continue;
+    const point = (start: Date): FlowTimePoint => ({
+      cardId: card.id,
+      title: card.title,
+      storyPoints: card.storyPoints,
+      completedAt: card.completedAt!.toISOString(),
+      days: toDays(card.completedAt!.getTime() - start.getTime()),
+    });
+    leadPoints.push(point(card.createdAt));
+
+    const starts = [
+      ...(logsByCard.get(card.id) ?? []).map((log) => log.startTime),
+      ...intervals.filter((interval) => {
+        const list = listById.get(interval.listId);
+        return list && isInProgressList(list.name);
+      }).map((interval) => interval.start),
+    ].filter((start) => start <= card.completedAt!);
+    if (starts.length > 0) {
+      cyclePoints.push(point(new Date(Math.min(...starts.map((start) => start.getTime())))));
+    }
+  }
+  const byCompletion = (a: FlowTimePoint, b: FlowTimePoint) => a.completedAt.localeCompare(b.completedAt);
+
+  const visitDays = new Map<string, number[]>(lists.map((list) => [list.id, []]));
+  const current = new Map<string, number>(lists.map((list) => [list.id, 0]));
+  for (const { intervals } of history) {
+    for (const interval of intervals) {
+      if (!visitDays.has(interval.listId)) continue;
+      if (interval.end === null) {
+        current.set(interval.listId, current.get(interval.listId)! + 1);
+      } else if (inRange(interval.end)) {
+        visitDays.get(interval.listId)!.push(toDays(interval.end.getTime() - interval.start.getTime()));
+      }
+    }
+  }
+  const cardIds = new Set(cards.map((card) => card.id));
+  const loggedMs = new Map<string, number>();
+  for (const log of input.timeLogs) {
+    if (!cardIds.has(log.cardId)) continue;
+    const start = Math.max(log.startTime.getTime(), input.from.getTime());
+    const end = Math.min((log.endTime ?? now).getTime(), input.to.getTime());
+    if (end > start) loggedMs.set(log.listId, (loggedMs.get(log.listId) ?? 0) + end - start);
+  }
+
+  return {
+    from: dateKey(input.from),
+    to: dateKey(input.to),
+    lists: lists.map((list) => ({ id: list.id, name: list.name, color: list.color, isDone: isDoneList(list) })),
+    cumulativeFlow,
+    cycleTime: { points: cyclePoints.sort(byCompletion), summary: summarizeDurations(cyclePoints.map((point) => point.days)) },
+    leadTime: { points: leadPoints.sort(byCompletion), summary: summarizeDurations(leadPoints.map((point) => point.days)) },
+    timeInList: lists.map((list) => {
+      const visits = visitDays.get(list.id)!;
+      return {
+        listId: list.id,
+        visits: visits.length,
+        averageDays: summarizeDurations(visits).average,
+        p85Days: percentile(visits, 85),
+        current: current.get(list.id)!,
+        loggedHours: round1((loggedMs.get(list.id) ?? 0) / (60 * 60 * 1000)),
+      };
+    }),
+  };
+}
@@ -0,0 +1,244 @@
+import type { LeaveType, Prisma, PrismaClient } from '@prisma/client';
+import type { BoardCalendar } from '@/types';
+import type { ParseResult } from './automation-rules';
+import { getWorkingDaysInWeek, type BusinessCalendar } from './date-utils';
+
+type CalendarDbClient = PrismaClient | Prisma.TransactionClient;
+
+export const LEAVE_TYPES: LeaveType[] = ['VACATION', 'SICK', 'PARENTAL', 'OTHER'];
+
+/** Weekly dedication percentages a member can be given on a board. */
+export const AVAILABILITY_DEDICATIONS = [0, 25, 33, 50, 75, 100];
+
+export const MAX_HOLIDAY_NAME_LENGTH = 200;
+const MAX_LEAVE_NOTE_LENGTH = 500;
+/** Characters an imported ICS file may have. */
+export const MAX_ICS_LENGTH = 1_000_000;
+/** Days a single ICS event or leave entry may span. */
+export const MAX_DAYS_OFF_SPAN = 366;
+/** Yearly ICS rules without COUNT or UNTIL are expanded this many years ahead. */
+const DEFAULT_RECURRENCE_YEARS = 5;
+const MAX_RECURRENCE_YEARS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Days off are stored at UTC midnight and handled as `YYYY-MM-DD` keys, so a holiday is the
+ * same calendar day for everyone regardless of timezone.
+ */
+export function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Parse a `YYYY-MM-DD` key into its UTC midnight, or null when it is not a real date. */
+export function parseDayKey(value: unknown): Date | null {
+  if (typeof value !== 'string' || !DAY_KEY_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return Number.isNaN(date.getTime()) || dayKey(date) !== value ? null : date;
+}
+
+/** Every day key from start to end, both inclusive. */
+export function expandDayKeys(start: Date, end: Date): string[] {
+  const keys: string[] = [];
+  for (let time = start.getTime(); time <= end.getTime() && keys.length < MAX_DAYS_OFF_SPAN; time += DAY_MS) {
+    keys.push(dayKey(new Date(time)));
+  }
+  return keys;
+}
+
+/** Build a calendar from stored holiday dates or day keys. */
+export function createBusinessCalendar(days: Iterable<Date | string>): BusinessCalendar {
+  const holidays = new Set<string>();
+  for (const day of days) holidays.add(typeof day === 'string' ? day : dayKey(day));
+  return { holidays };
+}
+
+/** A studio calendar plus one person's leave, for their own working days. */
+export function withLeave(
+  calendar: BusinessCalendar | null,
+  leave: { startDate: Date; endDate: Date }[]
+): BusinessCalendar {
+  const holidays = new Set(calendar?.holidays);
+  for (const entry of leave) {
+    for (const key of expandDayKeys(entry.startDate, entry.endDate)) holidays.add(key);
+  }
+  return { holidays };
+}
+
+/** One board member's days off: the studio holidays plus their own leave. */
+export function memberBusinessCalendar(calendar: BoardCalendar, userId: string): BusinessCalendar {
+  return withLeave(
+    createBusinessCalendar(calendar.holidays.map((holiday) => holiday.date)),
+    calendar.leave
+      .filter((entry) => entry.userId === userId)
+      .map((entry) => ({ startDate: parseDayKey(entry.startDate)!, endDate: parseDayKey(entry.endDate)! }))
+  );
+}
+
+/**
+ * The dedication to suggest for a week: the share of Mon-Fri someone can work, rounded to
+ * the nearest option (a week with two days off suggests 50%).
+ */
+export function suggestedDedication(weekStart: Date, calendar: BusinessCalendar | null): number {
+  const share = (getWorkingDaysInWeek(weekStart, calendar) / 5) * 100;
+  return AVAILABILITY_DEDICATIONS.reduce((best, option) =>
+    Math.abs(option - share) < Math.abs(best - share) ? option : best
+  );
+}
+
+export interface LeaveInput {
+  startDate: Date;
+  endDate: Date;
+  type: LeaveType;
+  note: string | null;
+}
+
+/** Validate a leave entry from a request body: `YYYY-MM-DD` dates, inclusive end. */
+export function parseLeaveInput(body: unknown): ParseResult<LeaveInput> {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const startDate = parseDayKey(input.startDate);
+  const endDate = input.endDate === undefined ? startDate : parseDayKey(input.endDate);
+  if (!startDate || !endDate) {
+    return { error: 'startDate and endDate must be YYYY-MM-DD dates' };
+  }
+  if (endDate < startDate) {
+    return { error: 'endDate cannot be before startDate' };
+  }
+  if ((endDate.getTime() - startDate.getTime()) / DAY_MS >= MAX_DAYS_OFF_SPAN) {
+    return { error: `Leave can span at most ${MAX_DAYS_OFF_SPAN} days` };
+  }
+
+  const type = input.type ?? 'VACATION';
+  if (!LEAVE_TYPES.includes(type as LeaveType)) {
+    return { error: `type must be one of ${LEAVE_TYPES.join(', ')}` };
+  }
+  if (input.note !== undefined && input.note !== null && typeof input.note !== 'string') {
+    return { error: 'note must be a string' };
+  }
+  const note = typeof input.note === 'string' ? input.note.trim() : '';
+  if (note.length > MAX_LEAVE_NOTE_LENGTH) {
+    return { error: `note must be at most ${MAX_LEAVE_NOTE_LENGTH} characters` };
+  }
+
+  return { value: { startDate, endDate, type: type as LeaveType, note: note || null } };
+}
+
+export interface IcsHoliday {
+  /** `YYYY-MM-DD` */
+  date: string;
+  name: string;
+  uid: string | null;
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? ' ' : char)).trim();
+}
+
+/** `20250620` or `20250620T090000Z` to the day it falls on; times are ignored. */
+function parseIcsDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? parseDayKey(`${match[1]}-${match[2]}-${match[3]}`) : null;
+}
+
+function addYears(date: Date, years: number): Date {
+  const result = new Date(date);
+  result.setUTCFullYear(result.getUTCFullYear() + years);
+  return result;
+}
+
+/**
+ * Read the all-day events of an ICS calendar as holidays. Multi-day events become one
+ * holiday per day (DTEND is exclusive, as in the spec) and yearly rules are expanded up to
+ * their COUNT or UNTIL. Events without a usable start date or title are counted as skipped.
+ */
+export function parseIcsHolidays(text: string): ParseResult<{ holidays: IcsHoliday[]; skipped: number }> {
+  if (!/BEGIN:VCALENDAR/i.test(text)) {
+    return { error: 'File is not an iCalendar (.ics) file' };
+  }
+
+  // Long lines are folded onto continuation lines that start with whitespace
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const byDate = new Map<string, IcsHoliday>();
+  let skipped = 0;
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (upper === 'END:VEVENT' && event) {
+      const start = event.DTSTART ? parseIcsDate(event.DTSTART) : null;
+      const name = event.SUMMARY ? unescapeIcsText(event.SUMMARY).slice(0, MAX_HOLIDAY_NAME_LENGTH) : '';
+      if (!start || !name) {
+        skipped++;
+        event = null;
+        continue;
+      }
+      const exclusiveEnd = event.DTEND ? parseIcsDate(event.DTEND) : null;
+      const end = exclusiveEnd && exclusiveEnd > start ? new Date(exclusiveEnd.getTime() - DAY_MS) : start;
+
+      const rule = Object.fromEntries(
+        (event.RRULE ?? '').split(';').map((part) => part.split('=') as [string, string])
+      );
+      let occurrences = 1;
+      if (rule.FREQ?.toUpperCase() === 'YEARLY') {
+        const count = Number(rule.COUNT);
+        const until = rule.UNTIL ? parseIcsDate(rule.UNTIL) : null;
+        occurrences = count > 0
+          ? count
+          : until
+            ? until.getUTCFullYear() - start.getUTCFullYear() + 1
+            : DEFAULT_RECURRENCE_YEARS + 1;
+        occurrences = Math.max(1, Math.min(occurrences, MAX_RECURRENCE_YEARS));
+      }
+
+      for (let year = 0; year < occurrences; year++) {
+        for (const date of expandDayKeys(addYears(start, year), addYears(end, year))) {
+          byDate.set(date, { date, name, uid: event.UID?.trim() || null });
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) continue;
+    // DTSTART;VALUE=DATE:20250620 - parameters are not needed
+    const property = line.slice(0, colon).split(';')[0].toUpperCase();
+    if (['DTSTART', 'DTEND', 'SUMMARY', 'UID', 'RRULE'].includes(property)) {
+      event[property] = line.slice(colon + 1);
+    }
+  }
+
+  const holidays = [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+  return { value: { holidays, skipped } };
+}
+
+/** A studio's holidays; null without a studio, so callers fall back to weekends only. */
+export async function loadStudioBusinessCalendar(
+  db: CalendarDbClient,
+  studioId: string | null | undefined
+): Promise<BusinessCalendar | null> {
+  if (!studioId) return null;
+  const holidays = await db.studioHoliday.findMany({
+    where: { studioId },
+    select: { date: true },
+  });
+  return createBusinessCalendar(holidays.map((holiday) => holiday.date));
+}
+
+/** Holidays of the studio the board's team belongs to. */
+export async function loadBoardBusinessCalendar(
+  db: CalendarDbClient,
+  boardId: string
+): Promise<BusinessCalendar | null> {
+  const board = await db.board.findUnique({
+    where: { id: boardId },
+    select: { team: { select: { studioId: true } } },
+  });
+  return loadStudioBusinessCalendar(db, board?.team?.studioId);
+}
@@ -1,5 +1,5 @@
 import type { ListPhase, BoardTemplateType, ListViewType } from '@/types';
-import { addBusinessDays, snapToMonday } from '@/lib/date-utils';
+import { addBusinessDays, snapToMonday, snapToWorkingWeek, type BusinessCalendar } from '@/lib/date-utils';
 
 // List template definition
 export interface ListTemplateItem {
@@ -123,16 +123,18 @@ export { addBusinessDays, snapToMonday, getBlockEndDate, moveBlockByWeeks, forma
 
 // Calculate list dates based on project start date
 // Project start date is snapped to Monday to ensure all blocks align to week boundaries
+// Weeks without a working day in the calendar (studio closures) are skipped
 export function calculateListDates(
   template: ListTemplate,
-  projectStartDate: Date
+  projectStartDate: Date,
+  calendar?: BusinessCalendar | null
 ): { listName: string; startDate: Date; endDate: Date; durationDays?: number }[] {
   const dates: { listName: string; startDate: Date; endDate: Date; durationDays?: number }[] = [];
   // Snap project start to Monday for consistent week alignment
   let currentDate = snapToMonday(new Date(projectStartDate));
 
   for (const list of template.planningLists) {
-    const startDate = new Date(currentDate);
+    const startDate = snapToWorkingWeek(currentDate, calendar);
     let endDate: Date;
     let durationDays: number | undefined;
 
@@ -0,0 +1,28 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { buildMimeMessage, type MailMessage, type MailTransport } from './message';
+
+/** Logs the plain-text version instead of sending. The default outside production. */
+export class ConsoleMailTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage, from: string): Promise<void> {
+    console.warn(`[mail] ${from} -> ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/** Writes each message as an .eml file (open it in any mail client) and an .html preview. */
+export class FileMailTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage, from: string): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const recipient = message.to.replace(/[^\w.@-]+/g, '_');
+    const base = path.join(this.directory, `${stamp}-${recipient}`);
+    await writeFile(`${base}.eml`, buildMimeMessage(message, from));
+    await writeFile(`${base}.html`, message.html);
+  }
+}
@@ -0,0 +1,69 @@
+import { randomUUID } from 'node:crypto';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Sends mail. `getMailTransport()` picks SMTP, file or console from the environment;
+ * anything else (an email API, a queue) only has to implement `send`.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage, from: string): Promise<void>;
+}
+
+const LINE_LENGTH = 76;
+
+/** RFC 2047 encoded-word for non-ASCII header values (subjects with accents, names). */
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value;
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Lines(content: string): string {
+  const encoded = Buffer.from(content, 'utf8').toString('base64');
+  const lines: string[] = [];
+  for (let index = 0; index < encoded.length; index += LINE_LENGTH) {
+    lines.push(encoded.slice(index, index + LINE_LENGTH));
+  }
+  return lines.join('\r\n');
+}
+
+/** The bare address from `Name <address>` or `address`. */
+export function mailAddress(value: string): string {
+  const match = /<([^>]+)>/.exec(value);
+  return (match ? match[1] : value).trim();
+}
+
+/** Build a multipart/alternative (plain text + HTML) message with CRLF line endings. */
+export function buildMimeMessage(message: MailMessage, from: string, date: Date = new Date()): string {
+  const boundary = `fallo-${randomUUID()}`;
+  const domain = mailAddress(from).split('@')[1] || 'localhost';
+
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(message.html),
+    `--${boundary}--`,
+    '',
+  ].join('\r\n');
+}
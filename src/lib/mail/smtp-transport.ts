@@ -0,0 +1,175 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import os from 'node:os';
+import { buildMimeMessage, mailAddress, type MailMessage, type MailTransport } from './message';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). Otherwise STARTTLS is used when the server offers it. */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Send credentials even when the connection could not be encrypted (local relays only). */
+  allowInsecureAuth?: boolean;
+  timeoutMs?: number;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, readonly code?: number) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+/**
+ * Reads SMTP replies off a socket. Multi-line replies ("250-...") are joined until the
+ * final "250 " line.
+ */
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  /** Read from a new socket, after STARTTLS. */
+  attach(socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('Connection closed by the mail server')));
+  }
+
+  next(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      this.lines.push(this.buffer.slice(0, newline).replace(/\r$/, ''));
+      this.buffer = this.buffer.slice(newline + 1);
+    }
+    this.flush();
+  }
+
+  private flush() {
+    if (!this.waiting) return;
+    const last = this.lines.findIndex((line) => /^\d{3}(?: |$)/.test(line));
+    if (last === -1) return;
+
+    const lines = this.lines.splice(0, last + 1);
+    const waiting = this.waiting;
+    this.waiting = null;
+    waiting.resolve({ code: Number(lines[last].slice(0, 3)), lines: lines.map((line) => line.slice(4)) });
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    if (this.waiting) {
+      const waiting = this.waiting;
+      this.waiting = null;
+      waiting.reject(error);
+    }
+  }
+}
+
+/** Escape lines starting with "." so they don't end the DATA section early. */
+export function dotStuff(content: string): string {
+  return content.replace(/(^|\r\n)\./g, '$1..');
+}
+
+function connect(options: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+      : net.connect({ host: options.host, port: options.port });
+    socket.once(options.secure ? 'secureConnect' : 'connect', () => {
+      socket.removeListener('error', reject);
+      resolve(socket);
+    });
+    socket.once('error', reject);
+  });
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    socket.removeAllListeners('data');
+    socket.removeAllListeners('error');
+    socket.removeAllListeners('close');
+    const secured = tls.connect({ socket, servername: host }, () => resolve(secured));
+    secured.once('error', reject);
+  });
+}
+
+/** Minimal SMTP client: EHLO, optional STARTTLS, AUTH PLAIN, one message per connection. */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+
+  constructor(private options: SmtpOptions) {}
+
+  async send(message: MailMessage, from: string): Promise<void> {
+    let socket = await connect(this.options);
+    socket.setTimeout(this.options.timeoutMs ?? 30_000, () => {
+      socket.destroy(new SmtpError('Mail server timed out'));
+    });
+    const reader = new ReplyReader(socket);
+
+    const command = async (line: string | null, expected: number[]): Promise<SmtpReply> => {
+      if (line !== null) socket.write(`${line}\r\n`);
+      const reply = await reader.next();
+      if (!expected.includes(reply.code)) {
+        const sent = line?.startsWith('AUTH') ? 'AUTH' : line?.split(' ')[0] ?? 'connect';
+        throw new SmtpError(`${sent} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code);
+      }
+      return reply;
+    };
+
+    try {
+      await command(null, [220]);
+      const hostname = os.hostname() || 'localhost';
+      const ehlo = await command(`EHLO ${hostname}`, [250]);
+      let encrypted = this.options.secure;
+
+      if (!encrypted && ehlo.lines.some((line) => line.toUpperCase() === 'STARTTLS')) {
+        await command('STARTTLS', [220]);
+        socket = await upgradeToTls(socket, this.options.host);
+        reader.attach(socket);
+        encrypted = true;
+        await command(`EHLO ${hostname}`, [250]);
+      }
+
+      if (this.options.user) {
+        // Without STARTTLS, AUTH PLAIN would put the password on the wire in the clear
+        if (!encrypted && !this.options.allowInsecureAuth) {
+          throw new SmtpError('The mail server does not offer STARTTLS; refusing to send credentials unencrypted');
+        }
+        const credentials = Buffer.from(`\0${this.options.user}\0${this.options.password ?? ''}`).toString('base64');
+        await command(`AUTH PLAIN ${credentials}`, [235]);
+      }
+
+      await command(`MAIL FROM:<${mailAddress(from)}>`, [250]);
+      await command(`RCPT TO:<${mailAddress(message.to)}>`, [250, 251]);
+      await command('DATA', [354]);
+      // The message ends with CRLF, so this sends the terminating <CRLF>.<CRLF>
+      await command(`${dotStuff(buildMimeMessage(message, from))}.`, [250]);
+      socket.write('QUIT\r\n');
+    } finally {
+      socket.end();
+    }
+  }
+}
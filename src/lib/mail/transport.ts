@@ -0,0 +1,55 @@
+import path from 'node:path';
+import { ConsoleMailTransport, FileMailTransport } from './dev-transports';
+import { SmtpMailTransport } from './smtp-transport';
+import type { MailMessage, MailTransport } from './message';
+
+export type { MailMessage, MailTransport } from './message';
+
+const DEFAULT_FROM = 'Fallo <no-reply@localhost>';
+
+let overrideTransport: MailTransport | null = null;
+
+/** Use a different transport (an email API, a test double). Pass null to go back to the environment. */
+export function setMailTransport(transport: MailTransport | null) {
+  overrideTransport = transport;
+}
+
+/**
+ * The transport configured by MAIL_TRANSPORT: `smtp` (SMTP_HOST, SMTP_PORT, SMTP_SECURE,
+ * SMTP_USER, SMTP_PASSWORD, SMTP_ALLOW_INSECURE_AUTH), `file` (MAIL_FILE_DIR, default .mail) or `console`.
+ * Without MAIL_TRANSPORT, SMTP is used when SMTP_HOST is set and console otherwise.
+ */
+export function getMailTransport(): MailTransport {
+  if (overrideTransport) return overrideTransport;
+
+  const kind = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? 'smtp' : 'console');
+  switch (kind) {
+    case 'smtp': {
+      const host = process.env.SMTP_HOST;
+      if (!host) throw new Error('MAIL_TRANSPORT=smtp needs SMTP_HOST');
+      const secure = process.env.SMTP_SECURE === 'true';
+      return new SmtpMailTransport({
+        host,
+        port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+        allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+      });
+    }
+    case 'file':
+      return new FileMailTransport(path.resolve(process.env.MAIL_FILE_DIR || '.mail'));
+    case 'console':
+      return new ConsoleMailTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected smtp, file or console)`);
+  }
+}
+
+export function getMailFrom(): string {
+  return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send(message, getMailFrom());
+}
@@ -0,0 +1,109 @@
+import type { CommentMention } from '@/types';
+
+/** Someone who can be mentioned in a comment (a board member). */
+export interface MentionCandidate {
+  id: string;
+  name: string | null;
+  email: string;
+}
+
+export type MentionPart =
+  | { type: 'text'; content: string }
+  | { type: 'mention'; content: string; mention: CommentMention };
+
+/** The text the autocomplete inserts after `@`. */
+export function mentionLabel(user: { name: string | null; email: string }): string {
+  return user.name?.trim() || user.email;
+}
+
+// A mention starts at the beginning or after whitespace/an opening bracket, and `@[`
+// is an attachment reference instead.
+function isMentionStart(content: string, index: number): boolean {
+  if (content[index] !== '@' || content[index + 1] === '[') return false;
+  return index === 0 || /[\s(]/.test(content[index - 1]);
+}
+
+// The label must not run into more of a word: "@Ann" doesn't match inside "@Anna".
+function endsAtBoundary(content: string, end: number): boolean {
+  return end >= content.length || !/[\p{L}\p{N}_]/u.test(content[end]);
+}
+
+/** The text at `start` if it is `label` (any case) followed by a word boundary. */
+function matchLabelAt(content: string, start: number, label: string): string | null {
+  const text = content.slice(start, start + label.length);
+  if (text.toLowerCase() !== label.toLowerCase() || !endsAtBoundary(content, start + label.length)) return null;
+  return text;
+}
+
+function byLongestLabel(a: { label: string }, b: { label: string }) {
+  return b.label.length - a.label.length;
+}
+
+/**
+ * Find the people mentioned in a comment. Names can contain spaces, so each `@` is
+ * matched against the candidates' names and emails (case-insensitive), longest first.
+ * Returns one entry per user, in order of first mention.
+ */
+export function extractMentions(content: string, candidates: MentionCandidate[]): CommentMention[] {
+  const labels = candidates
+    .flatMap((candidate) => [
+      { label: candidate.name?.trim() ?? '', candidate },
+      { label: candidate.email, candidate },
+    ])
+    .filter((entry) => entry.label.length > 0)
+    .sort(byLongestLabel);
+  if (labels.length === 0) return [];
+
+  const mentions = new Map<string, CommentMention>();
+  for (let index = 0; index < content.length; index++) {
+    if (!isMentionStart(content, index)) continue;
+    const match = labels.find((entry) => matchLabelAt(content, index + 1, entry.label) !== null);
+    if (!match) continue;
+    if (!mentions.has(match.candidate.id)) {
+      mentions.set(match.candidate.id, { userId: match.candidate.id, name: mentionLabel(match.candidate) });
+    }
+    index += match.label.length;
+  }
+  return [...mentions.values()];
+}
+
+/** Split comment text into plain text and the mentions stored with the comment, for rendering. */
+export function splitMentions(content: string, mentions: CommentMention[]): MentionPart[] {
+  const labels = mentions
+    .map((mention) => ({ label: mention.name, mention }))
+    .filter((entry) => entry.label.length > 0)
+    .sort(byLongestLabel);
+
+  const parts: MentionPart[] = [];
+  let textStart = 0;
+  for (let index = 0; index < content.length; index++) {
+    if (!isMentionStart(content, index)) continue;
+    const entry = labels.find((candidate) => matchLabelAt(content, index + 1, candidate.label) !== null);
+    if (!entry) continue;
+
+    if (index > textStart) parts.push({ type: 'text', content: content.slice(textStart, index) });
+    const end = index + 1 + entry.label.length;
+    parts.push({ type: 'mention', content: content.slice(index, end), mention: entry.mention });
+    index = end - 1;
+    textStart = index + 1;
+  }
+  if (textStart < content.length) parts.push({ type: 'text', content: content.slice(textStart) });
+  return parts;
+}
+
+/** Users mentioned in `next` that weren't already mentioned in `previous`. */
+export function addedMentions(previous: CommentMention[], next: CommentMention[]): CommentMention[] {
+  const before = new Set(previous.map((mention) => mention.userId));
+  return next.filter((mention) => !before.has(mention.userId));
+}
+
+/** Read the `mentions` JSON column defensively; old comments have none. */
+export function parseStoredMentions(value: unknown): CommentMention[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((entry): entry is CommentMention => (
+    typeof entry === 'object'
+    && entry !== null
+    && typeof (entry as CommentMention).userId === 'string'
+    && typeof (entry as CommentMention).name === 'string'
+  ));
+}
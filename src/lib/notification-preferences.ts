@@ -0,0 +1,226 @@
+import type { DigestFrequency, NotificationChannel, NotificationPreferences } from '@/types';
+import type { ParseResult } from './automation-rules';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['in_app', 'slack', 'digest', 'off'];
+
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['off', 'daily', 'weekly'];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  slack: 'In-app + Slack DM',
+  digest: 'Email digest only',
+  off: 'Off',
+};
+
+export interface NotificationTypeInfo {
+  type: string;
+  label: string;
+  description: string;
+  defaultChannel: NotificationChannel;
+}
+
+/** Every notification type a producer creates. Unknown types fall back to `slack`, the old behaviour. */
+export const NOTIFICATION_TYPES: NotificationTypeInfo[] = [
+  {
+    type: 'review_requested',
+    label: 'Review requests',
+    description: 'A task is ready for you to review',
+    defaultChannel: 'slack',
+  },
+  {
+    type: 'comment_mention',
+    label: 'Mentions',
+    description: 'Someone @mentioned you in a comment',
+    defaultChannel: 'slack',
+  },
+  {
+    type: 'deadline_soon',
+    label: 'Upcoming deadlines',
+    description: 'A task assigned to you is due soon',
+    defaultChannel: 'slack',
+  },
+  {
+    type: 'deadline_overdue',
+    label: 'Overdue tasks',
+    description: 'A task assigned to you is past its deadline',
+    defaultChannel: 'slack',
+  },
+  {
+    type: 'task_released',
+    label: 'Released tasks',
+    description: 'A staged task assigned to you was released',
+    defaultChannel: 'slack',
+  },
+  {
+    type: 'automation',
+    label: 'Automation rules',
+    description: 'A board automation notified you',
+    defaultChannel: 'slack',
+  },
+  {
+    type: 'badge_awarded',
+    label: 'Badges',
+    description: 'You earned a badge',
+    defaultChannel: 'in_app',
+  },
+];
+
+const DEFAULT_CHANNEL: NotificationChannel = 'slack';
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  channels: {},
+  quietHours: null,
+  timeZone: 'UTC',
+  muteWeekends: false,
+  digestFrequency: 'off',
+};
+
+export function isDigestFrequency(value: unknown): value is DigestFrequency {
+  return typeof value === 'string' && (DIGEST_FREQUENCIES as string[]).includes(value);
+}
+
+export function isNotificationChannel(value: unknown): value is NotificationChannel {
+  return typeof value === 'string' && (NOTIFICATION_CHANNELS as string[]).includes(value);
+}
+
+/** Where a notification of this type goes for this user. */
+export function resolveNotificationChannel(preferences: NotificationPreferences, type: string): NotificationChannel {
+  const chosen = preferences.channels[type];
+  if (isNotificationChannel(chosen)) return chosen;
+  return NOTIFICATION_TYPES.find((info) => info.type === type)?.defaultChannel ?? DEFAULT_CHANNEL;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/** Weekday (0 = Sunday) and minutes since midnight of `now` in the given time zone. */
+export function localClock(now: Date, timeZone: string): { weekday: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const value = (type: string) => parts.find((part) => part.type === type)?.value ?? '';
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(value('weekday'));
+  return { weekday, minutes: Number(value('hour')) * 60 + Number(value('minute')) };
+}
+
+/**
+ * Whether interruptions (Slack DMs) should be skipped right now: inside the user's
+ * quiet hours, or at the weekend when weekends are muted. Quiet hours may wrap past
+ * midnight ("22:00"-"07:00").
+ */
+export function isQuietTime(preferences: NotificationPreferences, now: Date = new Date()): boolean {
+  const timeZone = isValidTimeZone(preferences.timeZone) ? preferences.timeZone : 'UTC';
+  const { weekday, minutes } = localClock(now, timeZone);
+
+  if (preferences.muteWeekends && (weekday === 0 || weekday === 6)) return true;
+  if (!preferences.quietHours) return false;
+
+  const start = minutesOf(preferences.quietHours.start);
+  const end = minutesOf(preferences.quietHours.end);
+  if (start === end) return false;
+  return start < end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/** Read the stored row (JSON channels column) back into preferences, dropping anything invalid. */
+export function toNotificationPreferences(row: {
+  channels: unknown;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  timeZone: string;
+  muteWeekends: boolean;
+  digestFrequency: string;
+} | null): NotificationPreferences {
+  if (!row) return DEFAULT_NOTIFICATION_PREFERENCES;
+
+  const channels: Record<string, NotificationChannel> = {};
+  if (row.channels && typeof row.channels === 'object' && !Array.isArray(row.channels)) {
+    for (const [type, channel] of Object.entries(row.channels as Record<string, unknown>)) {
+      if (isNotificationChannel(channel)) channels[type] = channel;
+    }
+  }
+
+  const hasQuietHours = !!row.quietHoursStart && !!row.quietHoursEnd
+    && TIME_PATTERN.test(row.quietHoursStart) && TIME_PATTERN.test(row.quietHoursEnd);
+
+  return {
+    channels,
+    quietHours: hasQuietHours ? { start: row.quietHoursStart!, end: row.quietHoursEnd! } : null,
+    timeZone: row.timeZone,
+    muteWeekends: row.muteWeekends,
+    digestFrequency: isDigestFrequency(row.digestFrequency) ? row.digestFrequency : 'off',
+  };
+}
+
+/** Validate a PUT body. Only known notification types can be configured. */
+export function parseNotificationPreferencesInput(body: unknown): ParseResult<NotificationPreferences> {
+  if (!body || typeof body !== 'object') return { error: 'Preferences must be an object' };
+  const input = body as Record<string, unknown>;
+
+  const channels: Record<string, NotificationChannel> = {};
+  if (input.channels !== undefined) {
+    if (!input.channels || typeof input.channels !== 'object' || Array.isArray(input.channels)) {
+      return { error: 'channels must map notification types to a channel' };
+    }
+    for (const [type, channel] of Object.entries(input.channels as Record<string, unknown>)) {
+      if (!NOTIFICATION_TYPES.some((info) => info.type === type)) {
+        return { error: `Unknown notification type: ${type}` };
+      }
+      if (!isNotificationChannel(channel)) {
+        return { error: `Channel for ${type} must be one of: ${NOTIFICATION_CHANNELS.join(', ')}` };
+      }
+      channels[type] = channel;
+    }
+  }
+
+  let quietHours: NotificationPreferences['quietHours'] = null;
+  if (input.quietHours !== undefined && input.quietHours !== null) {
+    const { start, end } = (input.quietHours ?? {}) as { start?: unknown; end?: unknown };
+    if (typeof start !== 'string' || typeof end !== 'string' || !TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+      return { error: 'Quiet hours need a start and end time as HH:MM' };
+    }
+    if (start === end) return { error: 'Quiet hours must start and end at different times' };
+    quietHours = { start, end };
+  }
+
+  const timeZone = input.timeZone === undefined ? 'UTC' : input.timeZone;
+  if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+    return { error: 'timeZone must be an IANA time zone, e.g. Europe/Madrid' };
+  }
+
+  if (input.muteWeekends !== undefined && typeof input.muteWeekends !== 'boolean') {
+    return { error: 'muteWeekends must be true or false' };
+  }
+
+  const digestFrequency = input.digestFrequency === undefined ? 'off' : input.digestFrequency;
+  if (!isDigestFrequency(digestFrequency)) {
+    return { error: `digestFrequency must be one of: ${DIGEST_FREQUENCIES.join(', ')}` };
+  }
+
+  return {
+    value: {
+      channels,
+      quietHours,
+      timeZone,
+      muteWeekends: input.muteWeekends === true,
+      digestFrequency,
+    },
+  };
+}
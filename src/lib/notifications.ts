@@ -1,5 +1,14 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 import { postSlackMessage, isSlackConfigured } from '@/lib/slack';
+import {
+  isQuietTime,
+  resolveNotificationChannel,
+  toNotificationPreferences,
+} from '@/lib/notification-preferences';
+import type { NotificationChannel, NotificationPreferences } from '@/types';
+
+type NotificationDbClient = PrismaClient | Prisma.TransactionClient;
 
 interface CreateNotificationParams {
   userId: string;
@@ -9,25 +18,73 @@ interface CreateNotificationParams {
   data?: Record<string, unknown>;
 }
 
-export async function createNotification(params: CreateNotificationParams) {
-  return prisma.notification.create({
+export async function getNotificationPreferences(
+  userId: string,
+  db: NotificationDbClient = prisma
+): Promise<NotificationPreferences> {
+  const row = await db.notificationPreference.findUnique({ where: { userId } });
+  return toNotificationPreferences(row);
+}
+
+/**
+ * Whether a notification on this channel is stored at all. Digest-only notifications
+ * need a digest to land in.
+ */
+function isDelivered(preferences: NotificationPreferences, channel: NotificationChannel): boolean {
+  if (channel === 'off') return false;
+  return channel !== 'digest' || preferences.digestFrequency !== 'off';
+}
+
+async function insertNotification(
+  params: CreateNotificationParams,
+  channel: NotificationChannel,
+  db: NotificationDbClient
+) {
+  return db.notification.create({
     data: {
       userId: params.userId,
       type: params.type,
       title: params.title,
       message: params.message,
       data: (params.data || {}) as Record<string, string>,
+      digestOnly: channel === 'digest',
     },
   });
 }
 
+/**
+ * Create an in-app notification, unless the user turned this type off. Digest-only types
+ * are stored for the email digest but hidden in-app. Pass `db` to create it inside a
+ * transaction.
+ *
+ * @returns The notification, or null when the user's preferences dropped it
+ */
+export async function createNotification(
+  params: CreateNotificationParams,
+  db: NotificationDbClient = prisma
+) {
+  const preferences = await getNotificationPreferences(params.userId, db);
+  const channel = resolveNotificationChannel(preferences, params.type);
+  if (!isDelivered(preferences, channel)) return null;
+  return insertNotification(params, channel, db);
+}
+
+/**
+ * Create an in-app notification and, when the user gets this type by Slack DM, DM them.
+ * DMs are skipped, not queued, during the user's quiet hours and muted weekends; only the
+ * in-app notification is kept.
+ */
 export async function createNotificationWithSlackDM(
   params: CreateNotificationParams & { slackUserId?: string | null }
 ) {
-  const notification = await createNotification(params);
+  const preferences = await getNotificationPreferences(params.userId);
+  const channel = resolveNotificationChannel(preferences, params.type);
+  if (!isDelivered(preferences, channel)) return null;
+
+  const notification = await insertNotification(params, channel, prisma);
 
-  // Also send Slack DM if user has a slackUserId linked
-  if (params.slackUserId && isSlackConfigured()) {
+  // Also send Slack DM if user has a slackUserId linked and wants DMs for this type
+  if (channel === 'slack' && params.slackUserId && isSlackConfigured() && !isQuietTime(preferences)) {
     try {
       await postSlackMessage(params.slackUserId, params.message);
     } catch (err) {
@@ -0,0 +1,534 @@
+/**
+ * OpenAPI 3.1 description of the external REST API: boards, lists, cards,
+ * checklists, comments and time logs. Served at GET /api/openapi and written
+ * to DOCUMENTS/openapi.json by `npm run openapi:generate`.
+ *
+ * Kept next to the routes it describes: src/lib/__tests__/openapi.test.ts fails
+ * when a documented route file gains or loses a method.
+ */
+
+import { API_TOKEN_PREFIX } from './api-token-scopes';
+
+type Schema = Record<string, unknown>;
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query';
+  required?: boolean;
+  description?: string;
+  schema: Schema;
+}
+
+interface Operation {
+  summary: string;
+  tags: string[];
+  parameters?: Parameter[];
+  requestBody?: { required: boolean; content: { 'application/json': { schema: Schema } } };
+  responses: Record<string, { description: string; content?: { 'application/json': { schema: Schema } } }>;
+}
+
+type HttpMethod = 'get' | 'post' | 'patch' | 'put' | 'delete';
+type PathItem = Partial<Record<HttpMethod, Operation>>;
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  security: Array<Record<string, string[]>>;
+  tags: Array<{ name: string; description: string }>;
+  paths: Record<string, PathItem>;
+  components: {
+    securitySchemes: Record<string, Schema>;
+    schemas: Record<string, Schema>;
+    responses: Record<string, Schema>;
+  };
+}
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (items: Schema): Schema => ({ type: 'array', items });
+const nullable = (type: string, extra: Schema = {}): Schema => ({ type: [type, 'null'], ...extra });
+const dateTime: Schema = { type: 'string', format: 'date-time' };
+
+const pathParam = (name: string): Parameter => ({ name, in: 'path', required: true, schema: { type: 'string' } });
+const queryFlag = (name: string, description: string): Parameter => ({
+  name,
+  in: 'query',
+  description,
+  schema: { type: 'string', enum: ['true', 'false'] },
+});
+
+const boardParams = [pathParam('boardId')];
+const cardParams = [...boardParams, pathParam('cardId')];
+const checklistParams = [...cardParams, pathParam('checklistId')];
+
+function jsonBody(properties: Record<string, Schema>, required: string[] = []) {
+  return {
+    required: true,
+    content: { 'application/json': { schema: { type: 'object', properties, ...(required.length ? { required } : {}) } } },
+  };
+}
+
+/** The `{ success: true, data }` envelope every route returns. */
+function success(data: Schema, description = 'Success') {
+  return {
+    description,
+    content: { 'application/json': { schema: {
+      type: 'object',
+      properties: { success: { const: true }, data },
+      required: ['success', 'data'],
+    } } },
+  };
+}
+
+const errorResponses = {
+  400: { $ref: '#/components/responses/ValidationError' },
+  401: { $ref: '#/components/responses/Unauthorized' },
+  403: { $ref: '#/components/responses/Forbidden' },
+  404: { $ref: '#/components/responses/NotFound' },
+} as unknown as Operation['responses'];
+
+function operation(
+  tag: string,
+  summary: string,
+  data: Schema,
+  options: { parameters?: Parameter[]; requestBody?: Operation['requestBody']; status?: '200' | '201' } = {}
+): Operation {
+  return {
+    summary,
+    tags: [tag],
+    ...(options.parameters ? { parameters: options.parameters } : {}),
+    ...(options.requestBody ? { requestBody: options.requestBody } : {}),
+    responses: { [options.status ?? '200']: success(data), ...errorResponses },
+  };
+}
+
+const deleted: Schema = { type: 'null' };
+
+const cardTypeData = {
+  taskData: ref('TaskData'),
+  userStoryData: { type: 'object', additionalProperties: true },
+  epicData: { type: 'object', additionalProperties: true },
+  utilityData: { type: 'object', additionalProperties: true },
+};
+
+const paths: Record<string, PathItem> = {
+  '/api/boards': {
+    get: operation('Boards', 'List boards you are a member of', arrayOf(ref('BoardSummary')), {
+      parameters: [
+        queryFlag('archived', 'List archived boards instead of active ones'),
+        queryFlag('projects', 'Return `{ projects, archivedCount }` for the projects page'),
+        queryFlag('templates', 'List template boards'),
+      ],
+    }),
+    post: operation('Boards', 'Create a board', ref('Board'), {
+      status: '201',
+      requestBody: jsonBody({
+        name: { type: 'string' },
+        description: nullable('string'),
+        template: { type: 'string', description: 'Built-in template key, e.g. "blank" or "standard-slot"' },
+        coreTemplateId: { type: 'string', description: 'Board ID of a template board to copy' },
+        teamId: nullable('string'),
+        startDate: { type: 'string', format: 'date' },
+        memberIds: arrayOf({ type: 'string' }),
+        settings: { type: 'object', additionalProperties: true },
+        isTemplate: { type: 'boolean' },
+      }, ['name']),
+    }),
+  },
+  '/api/boards/{boardId}': {
+    get: operation('Boards', 'Get a board with its lists and cards', ref('Board'), {
+      parameters: [...boardParams, {
+        name: 'scope',
+        in: 'query',
+        description: '`light` omits card details, `project` returns the project overview payload',
+        schema: { type: 'string', enum: ['light', 'full', 'project'] },
+      }],
+    }),
+    patch: operation('Boards', 'Update a board (board admins)', ref('Board'), {
+      parameters: boardParams,
+      requestBody: jsonBody({
+        name: { type: 'string' },
+        description: nullable('string'),
+        settings: { type: 'object', additionalProperties: true },
+        teamId: nullable('string'),
+      }),
+    }),
+    delete: operation('Boards', 'Archive a board, or delete it with ?permanent=true (board admins)', deleted, {
+      parameters: [...boardParams, queryFlag('permanent', 'Delete instead of archiving')],
+    }),
+  },
+  '/api/boards/{boardId}/lists': {
+    post: operation('Lists', 'Create a list', ref('List'), {
+      parameters: boardParams,
+      requestBody: jsonBody({
+        name: { type: 'string' },
+        viewType: { type: 'string', enum: ['TASKS', 'PLANNING'] },
+        phase: nullable('string'),
+        color: nullable('string'),
+        durationWeeks: nullable('integer'),
+        durationDays: nullable('integer'),
+        startDate: nullable('string', { format: 'date' }),
+        endDate: nullable('string', { format: 'date' }),
+      }, ['name']),
+    }),
+  },
+  '/api/boards/{boardId}/lists/{listId}': {
+    patch: operation('Lists', 'Update a list', ref('List'), {
+      parameters: [...boardParams, pathParam('listId')],
+      requestBody: jsonBody({
+        name: { type: 'string' },
+        position: { type: 'integer' },
+        color: nullable('string'),
+        phase: nullable('string'),
+        durationWeeks: nullable('integer'),
+        durationDays: nullable('integer'),
+        startDate: nullable('string', { format: 'date' }),
+        endDate: nullable('string', { format: 'date' }),
+        wipLimit: nullable('integer'),
+        wipLimitPerAssignee: nullable('integer'),
+      }),
+    }),
+    delete: operation('Lists', 'Delete a list and its cards', deleted, {
+      parameters: [...boardParams, pathParam('listId')],
+    }),
+  },
+  '/api/boards/{boardId}/cards': {
+    post: operation('Cards', 'Create a card', ref('Card'), {
+      status: '201',
+      parameters: boardParams,
+      requestBody: jsonBody({
+        title: { type: 'string' },
+        type: ref('CardType'),
+        listId: { type: 'string' },
+        description: nullable('string'),
+        color: nullable('string'),
+        assigneeIds: arrayOf({ type: 'string' }),
+        tagIds: arrayOf({ type: 'string' }),
+        taskDestination: {
+          type: 'object',
+          description: 'For tasks created from a user story: the list to place the task in',
+          additionalProperties: true,
+        },
+        ...cardTypeData,
+      }, ['title', 'type', 'listId']),
+    }),
+  },
+  '/api/boards/{boardId}/cards/reorder': {
+    post: operation('Cards', 'Move a card within or between lists', { type: 'object', additionalProperties: true }, {
+      parameters: boardParams,
+      requestBody: jsonBody({
+        cardId: { type: 'string' },
+        sourceListId: { type: 'string' },
+        destinationListId: { type: 'string' },
+        newPosition: { type: 'integer' },
+      }, ['cardId', 'sourceListId', 'destinationListId', 'newPosition']),
+    }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}': {
+    get: operation('Cards', 'Get a card', ref('Card'), { parameters: cardParams }),
+    patch: operation('Cards', 'Update a card; setting listId moves it', ref('Card'), {
+      parameters: cardParams,
+      requestBody: jsonBody({
+        title: { type: 'string' },
+        description: nullable('string'),
+        position: { type: 'integer' },
+        listId: { type: 'string' },
+        color: nullable('string'),
+        featureImage: nullable('string'),
+        featureImagePosition: { type: 'integer' },
+        ...cardTypeData,
+      }),
+    }),
+    delete: operation('Cards', 'Delete a card', deleted, { parameters: cardParams }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/checklists': {
+    get: operation('Checklists', 'List a card\'s checklists', arrayOf(ref('Checklist')), { parameters: cardParams }),
+    post: operation('Checklists', 'Add a checklist to a card', ref('Checklist'), {
+      parameters: cardParams,
+      requestBody: jsonBody({
+        name: { type: 'string' },
+        type: { type: 'string', enum: ['todo', 'feedback'] },
+      }, ['name']),
+    }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/checklists/{checklistId}': {
+    patch: operation('Checklists', 'Rename or reorder a checklist', ref('Checklist'), {
+      parameters: checklistParams,
+      requestBody: jsonBody({ name: { type: 'string' }, position: { type: 'integer' } }),
+    }),
+    delete: operation('Checklists', 'Delete a checklist', deleted, { parameters: checklistParams }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/checklists/{checklistId}/items': {
+    post: operation('Checklists', 'Add an item to a checklist', ref('ChecklistItem'), {
+      parameters: checklistParams,
+      requestBody: jsonBody({ content: { type: 'string' } }, ['content']),
+    }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/checklists/{checklistId}/items/{itemId}': {
+    patch: operation('Checklists', 'Update a checklist item', ref('ChecklistItem'), {
+      parameters: [...checklistParams, pathParam('itemId')],
+      requestBody: jsonBody({
+        content: { type: 'string' },
+        isComplete: { type: 'boolean' },
+        position: { type: 'integer' },
+      }),
+    }),
+    delete: operation('Checklists', 'Delete a checklist item', deleted, {
+      parameters: [...checklistParams, pathParam('itemId')],
+    }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/comments': {
+    get: operation('Comments', 'List a card\'s comments', arrayOf(ref('Comment')), { parameters: cardParams }),
+    post: operation('Comments', 'Comment on a card', ref('Comment'), {
+      parameters: cardParams,
+      requestBody: jsonBody({
+        content: { type: 'string' },
+        attachmentId: nullable('string'),
+        type: { type: 'string', description: 'Comment kind, defaults to a plain comment' },
+      }, ['content']),
+    }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/comments/{commentId}': {
+    patch: operation('Comments', 'Edit your comment', ref('Comment'), {
+      parameters: [...cardParams, pathParam('commentId')],
+      requestBody: jsonBody({ content: { type: 'string' } }, ['content']),
+    }),
+    delete: operation('Comments', 'Delete a comment', deleted, {
+      parameters: [...cardParams, pathParam('commentId')],
+    }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/time-logs': {
+    get: operation('Time logs', 'List a card\'s time logs with the total', {
+      type: 'object',
+      properties: {
+        logs: arrayOf(ref('TimeLog')),
+        totalMs: { type: 'integer' },
+        totalFormatted: { type: 'string', examples: ['3h 20m'] },
+      },
+    }, { parameters: cardParams }),
+    post: operation('Time logs', 'Add a manual time log (admins)', ref('TimeLog'), {
+      status: '201',
+      parameters: cardParams,
+      requestBody: jsonBody({
+        userId: { type: 'string' },
+        listId: { type: 'string' },
+        startTime: dateTime,
+        endTime: dateTime,
+        durationMs: { type: 'integer' },
+        notes: nullable('string'),
+      }, ['userId', 'listId', 'startTime']),
+    }),
+  },
+  '/api/boards/{boardId}/cards/{cardId}/time-logs/{logId}': {
+    patch: operation('Time logs', 'Update a time log (admins)', ref('TimeLog'), {
+      parameters: [...cardParams, pathParam('logId')],
+      requestBody: jsonBody({
+        startTime: dateTime,
+        endTime: nullable('string', { format: 'date-time' }),
+        durationMs: { type: 'integer' },
+        notes: nullable('string'),
+      }),
+    }),
+    delete: operation('Time logs', 'Delete a time log (admins)', deleted, {
+      parameters: [...cardParams, pathParam('logId')],
+    }),
+  },
+};
+
+const userSummary: Schema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: nullable('string'),
+    email: { type: 'string' },
+    image: nullable('string'),
+  },
+};
+
+const schemas: Record<string, Schema> = {
+  CardType: { type: 'string', enum: ['TASK', 'USER_STORY', 'EPIC', 'UTILITY'] },
+  BoardSummary: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      description: nullable('string'),
+      isTemplate: { type: 'boolean' },
+      archivedAt: nullable('string', { format: 'date-time' }),
+      createdAt: dateTime,
+    },
+    additionalProperties: true,
+  },
+  Board: {
+    allOf: [ref('BoardSummary'), {
+      type: 'object',
+      properties: {
+        settings: { type: 'object', additionalProperties: true },
+        lists: arrayOf(ref('List')),
+        members: arrayOf({ type: 'object', additionalProperties: true }),
+      },
+    }],
+  },
+  List: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      position: { type: 'integer' },
+      viewType: { type: 'string', enum: ['TASKS', 'PLANNING'] },
+      phase: nullable('string'),
+      color: nullable('string'),
+      startDate: nullable('string', { format: 'date-time' }),
+      endDate: nullable('string', { format: 'date-time' }),
+      wipLimit: nullable('integer'),
+      wipLimitPerAssignee: nullable('integer'),
+      cards: arrayOf(ref('Card')),
+    },
+    additionalProperties: true,
+  },
+  TaskData: {
+    type: 'object',
+    properties: {
+      storyPoints: nullable('number'),
+      deadline: nullable('string', { format: 'date' }),
+      linkedUserStoryId: nullable('string'),
+      linkedEpicId: nullable('string'),
+      dependsOnTaskId: nullable('string'),
+    },
+    additionalProperties: true,
+  },
+  Card: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      title: { type: 'string' },
+      description: nullable('string'),
+      type: ref('CardType'),
+      position: { type: 'integer' },
+      color: nullable('string'),
+      featureImage: nullable('string'),
+      listId: { type: 'string' },
+      ...cardTypeData,
+      assignees: arrayOf({ type: 'object', properties: { user: userSummary }, additionalProperties: true }),
+      createdAt: dateTime,
+      updatedAt: dateTime,
+    },
+    additionalProperties: true,
+  },
+  Checklist: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      name: { type: 'string' },
+      type: { type: 'string', enum: ['todo', 'feedback'] },
+      position: { type: 'integer' },
+      items: arrayOf(ref('ChecklistItem')),
+    },
+  },
+  ChecklistItem: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      content: { type: 'string' },
+      isComplete: { type: 'boolean' },
+      position: { type: 'integer' },
+    },
+  },
+  Comment: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      content: { type: 'string' },
+      type: { type: 'string' },
+      author: userSummary,
+      attachmentId: nullable('string'),
+      mentions: {
+        type: 'array',
+        description: 'Board members @mentioned in the content; they are notified when the comment is posted',
+        items: {
+          type: 'object',
+          properties: { userId: { type: 'string' }, name: { type: 'string' } },
+          required: ['userId', 'name'],
+        },
+      },
+      createdAt: dateTime,
+      updatedAt: dateTime,
+    },
+    additionalProperties: true,
+  },
+  TimeLog: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      startTime: dateTime,
+      endTime: nullable('string', { format: 'date-time' }),
+      durationMs: nullable('integer'),
+      notes: nullable('string'),
+      user: userSummary,
+      list: { type: 'object', properties: { id: { type: 'string' }, name: { type: 'string' } } },
+    },
+    additionalProperties: true,
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      success: { const: false },
+      error: {
+        type: 'object',
+        properties: {
+          code: { type: 'string', enum: ['UNAUTHORIZED', 'FORBIDDEN', 'NOT_FOUND', 'VALIDATION_ERROR', 'CONFLICT', 'INTERNAL_ERROR'] },
+          message: { type: 'string' },
+        },
+        required: ['code', 'message'],
+      },
+    },
+    required: ['success', 'error'],
+  },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: ref('Error') } },
+});
+
+export function buildOpenApiSpec(serverUrl = '/'): OpenApiDocument {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Fallo REST API',
+      version: '1.0.0',
+      description: [
+        'Boards, lists, cards, checklists, comments and time logs.',
+        `Authenticate with a personal API token (\`Authorization: Bearer ${API_TOKEN_PREFIX}...\`) created on your user page.`,
+        'Read-only tokens may only send GET requests; board-limited tokens may only call /api/boards/{boardId} routes for their boards.',
+      ].join(' '),
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }],
+    tags: [
+      { name: 'Boards', description: 'Boards and their settings' },
+      { name: 'Lists', description: 'Columns on a board' },
+      { name: 'Cards', description: 'Tasks, user stories, epics and utility cards' },
+      { name: 'Checklists', description: 'Checklists and their items on a card' },
+      { name: 'Comments', description: 'Card comments' },
+      { name: 'Time logs', description: 'Time spent on a card per list' },
+    ],
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          description: `Personal API token, starting with ${API_TOKEN_PREFIX}`,
+        },
+      },
+      schemas,
+      responses: {
+        ValidationError: errorResponse('The request body or query is invalid'),
+        Unauthorized: errorResponse('Missing, invalid or expired token'),
+        Forbidden: errorResponse('Not a board member, or the token\'s scope does not allow this request'),
+        NotFound: errorResponse('The resource does not exist'),
+      },
+    },
+  };
+}
@@ -4,7 +4,7 @@ const globalForPrisma = globalThis as unknown as {
   prisma: PrismaClient | undefined;
 };
 
-function isServerlessRuntime(): boolean {
+export function isServerlessRuntime(): boolean {
   return Boolean(
     process.env.VERCEL
       || process.env.AWS_LAMBDA_FUNCTION_NAME
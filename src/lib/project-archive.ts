@@ -40,6 +40,15 @@ export function parseBoardArchivedOnlyAt(settings: unknown): Date | null {
   return parsed;
 }
 
+/**
+ * Whether the project is archived on the timeline. Boards archived before the project flag
+ * existed count as archived projects unless they were archived as a board only.
+ */
+export function isProjectArchived(board: { archivedAt: Date | null; settings: unknown }): boolean {
+  if (parseProjectArchivedAt(board.settings)) return true;
+  return Boolean(board.archivedAt) && !parseBoardArchivedOnlyAt(board.settings);
+}
+
 export function setProjectArchivedAt(
   settings: unknown,
   archivedAt: Date = new Date()
@@ -375,6 +375,158 @@ export async function getReviewerRolesByUserIds(
   return result;
 }
 
+export interface PendingEvaluation {
+  cycleId: string;
+  cycleNumber: number;
+  openedAt: Date;
+  closedAt: Date | null;
+  isInReview: boolean;
+  eligibleDimensionCount: number;
+  eligibleDimensionIds: string[];
+  card: {
+    id: string;
+    title: string;
+    type: string;
+    boardId: string;
+    boardName: string;
+    listId: string;
+    listName: string;
+  };
+}
+
+/**
+ * Open review cycles the user still has to evaluate: on boards where they are Lead or PO,
+ * not yet evaluated by them, with at least one dimension their roles can score.
+ */
+export async function listPendingEvaluations(
+  db: ReviewDbClient,
+  userId: string,
+  evaluatorRoles: EvaluatorRole[]
+): Promise<PendingEvaluation[]> {
+  const [allActiveDimensions, allPendingCycles] = await Promise.all([
+    db.reviewDimension.findMany({
+      where: {
+        isActive: true,
+      },
+      orderBy: {
+        position: 'asc',
+      },
+      include: REVIEW_DIMENSION_INCLUDE,
+    }),
+    db.reviewCycle.findMany({
+      where: {
+        lockedAt: null,
+        card: {
+          archivedAt: null,
+        },
+        evaluations: {
+          none: {
+            reviewerId: userId,
+          },
+        },
+      },
+      orderBy: {
+        openedAt: 'desc',
+      },
+      select: {
+        id: true,
+        cycleNumber: true,
+        openedAt: true,
+        closedAt: true,
+        card: {
+          select: {
+            id: true,
+            title: true,
+            type: true,
+            taskData: true,
+            list: {
+              select: {
+                id: true,
+                name: true,
+                phase: true,
+                viewType: true,
+                boardId: true,
+                board: {
+                  select: {
+                    name: true,
+                    settings: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    }),
+  ]);
+
+  // Filter to only cycles where user is assigned as lead/PO on the specific board
+  const pendingCycles = allPendingCycles.filter((cycle) => {
+    const settings = cycle.card.list.board.settings;
+    if (!settings || typeof settings !== 'object' || Array.isArray(settings)) {
+      return false;
+    }
+
+    const projectRoleAssignments = (settings as Record<string, unknown>).projectRoleAssignments;
+    if (!Array.isArray(projectRoleAssignments)) {
+      return false;
+    }
+
+    // Check if user is assigned as lead or PO on this board
+    return projectRoleAssignments.some((assignment: unknown) => {
+      if (!assignment || typeof assignment !== 'object') return false;
+      const assignmentUserId = (assignment as Record<string, unknown>).userId;
+      const assignmentRoleName = (assignment as Record<string, unknown>).roleName;
+
+      if (assignmentUserId !== userId || typeof assignmentRoleName !== 'string') {
+        return false;
+      }
+
+      const normalizedRole = assignmentRoleName.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+      // Match same patterns as resolveApprovers in role-utils.ts
+      const isPO = normalizedRole === 'po' || normalizedRole.includes('po') || normalizedRole.includes('product owner');
+      const isLead = normalizedRole === 'lead' || normalizedRole.endsWith(' lead') || normalizedRole.startsWith('lead ');
+      return isPO || isLead;
+    });
+  });
+
+  const pending: PendingEvaluation[] = [];
+
+  for (const cycle of pendingCycles) {
+    const eligibleDimensions = await getApplicableReviewDimensionsForCard(
+      db,
+      cycle.card,
+      evaluatorRoles,
+      allActiveDimensions
+    );
+
+    if (eligibleDimensions.length === 0) {
+      continue;
+    }
+
+    pending.push({
+      cycleId: cycle.id,
+      cycleNumber: cycle.cycleNumber,
+      openedAt: cycle.openedAt,
+      closedAt: cycle.closedAt,
+      isInReview: cycle.closedAt === null,
+      eligibleDimensionCount: eligibleDimensions.length,
+      eligibleDimensionIds: eligibleDimensions.map((dimension) => dimension.id),
+      card: {
+        id: cycle.card.id,
+        title: cycle.card.title,
+        type: cycle.card.type,
+        boardId: cycle.card.list.boardId,
+        boardName: cycle.card.list.board.name,
+        listId: cycle.card.list.id,
+        listName: cycle.card.list.name,
+      },
+    });
+  }
+
+  return pending;
+}
+
 export function buildCycleAggregateSummary(params: {
   cycle: {
     id: string;
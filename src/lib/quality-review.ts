@@ -127,6 +127,18 @@ export function isReviewList(
   return REVIEW_NAME_HINTS.some((hint) => listName.includes(hint));
 }
 
+/** Name-based check for "in progress" lists (used for time tracking and dependency gating). */
+export function isInProgressList(listName: string): boolean {
+  const lowerName = listName.toLowerCase();
+  return (
+    lowerName.includes('in progress') ||
+    lowerName.includes('in-progress') ||
+    lowerName.includes('doing') ||
+    lowerName.includes('working') ||
+    lowerName === 'wip'
+  );
+}
+
 export function isDoneList(list: TransitionListContext): boolean {
   if (!isTasksList(list)) return false;
   if (list.phase === 'DONE') return true;
@@ -325,6 +337,28 @@ export async function closeAndLockCardReviewCycles(
   });
 }
 
+/**
+ * Reverse `closeAndLockCardReviewCycles` when an archived card is restored. A card back in
+ * a Done list keeps its final, locked cycles; anywhere else they unlock, and a card back in
+ * a review list gets an open cycle again.
+ */
+export async function reopenRestoredCardReviewCycles(
+  db: ReviewDbClient,
+  params: {
+    cardId: string;
+    list: TransitionListContext;
+    boardSettings?: Prisma.JsonValue | null;
+    now?: Date;
+  }
+): Promise<void> {
+  if (isDoneList(params.list)) return;
+
+  await clearFinalAndUnlockCardCycles(db, params.cardId);
+  if (isReviewList(params.list, extractReviewListIds(params.boardSettings))) {
+    await openReviewCycle(db, params.cardId, params.now ?? new Date());
+  }
+}
+
 export function resolveEvaluatorRolesFromRoleNames(
   roleNames: string[]
 ): EvaluatorRole[] {
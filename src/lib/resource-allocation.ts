@@ -0,0 +1,61 @@
+import type { AllocationStatus, AllocationWeek } from '@/types';
+import { formatLocalDateKey, getMonday, getWorkingDaysInWeek, type BusinessCalendar } from './date-utils';
+
+export const DEFAULT_ALLOCATION_WEEKS = 12;
+export const MAX_ALLOCATION_WEEKS = 52;
+/** A week booked below this share of someone's capacity counts as under-booked. */
+export const UNDER_BOOKED_SHARE = 0.5;
+
+export interface AllocationEntry {
+  boardId: string;
+  weekStart: Date;
+  dedication: number;
+}
+
+/** `count` consecutive Mondays from the week `start` falls in. */
+export function allocationWeeks(start: Date, count: number): Date[] {
+  const monday = getMonday(start);
+  return Array.from({ length: count }, (_, index) => {
+    const week = new Date(monday);
+    week.setDate(week.getDate() + index * 7);
+    return week;
+  });
+}
+
+/**
+ * How a week's total compares to what the person can work. Any booking in a week they are
+ * fully off counts as over-allocated.
+ */
+export function allocationStatus(total: number, capacity: number): AllocationStatus {
+  if (total > capacity) return 'over';
+  if (capacity === 0) return 'off';
+  if (total < capacity * UNDER_BOOKED_SHARE) return 'under';
+  return 'ok';
+}
+
+/**
+ * One person's dedication per week summed over every board they are booked on. Capacity is
+ * the share of Mon-Fri left after their studio holidays and leave.
+ */
+export function summarizeUserAllocation(
+  weeks: Date[],
+  entries: AllocationEntry[],
+  calendar: BusinessCalendar | null
+): AllocationWeek[] {
+  const byWeek = new Map<string, AllocationWeek['boards']>();
+  for (const entry of entries) {
+    if (entry.dedication <= 0) continue;
+    const key = formatLocalDateKey(getMonday(entry.weekStart));
+    const boards = byWeek.get(key) ?? [];
+    boards.push({ boardId: entry.boardId, dedication: entry.dedication });
+    byWeek.set(key, boards);
+  }
+
+  return weeks.map((monday) => {
+    const weekStart = formatLocalDateKey(monday);
+    const boards = (byWeek.get(weekStart) ?? []).sort((a, b) => b.dedication - a.dedication);
+    const total = boards.reduce((sum, board) => sum + board.dedication, 0);
+    const capacity = Math.round((getWorkingDaysInWeek(monday, calendar) / 5) * 100);
+    return { weekStart, total, capacity, status: allocationStatus(total, capacity), boards };
+  });
+}
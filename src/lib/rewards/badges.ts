@@ -2,6 +2,7 @@ import type { BadgeCategory, Prisma, PrismaClient } from '@prisma/client';
 import type { LoginStreakSummary } from '@/lib/rewards/login-tracking';
 import { MVP_BADGE_DEFINITIONS, getTriggeredLoginBadgeDefinitions } from '@/lib/rewards/badge-seed-data';
 import { describeBadgeRequirement } from '@/lib/rewards/presentation';
+import { createNotification } from '@/lib/notifications';
 
 type RewardsDbClient = PrismaClient | Prisma.TransactionClient;
 
@@ -297,27 +298,25 @@ export async function awardLoginBadges(
       },
     });
 
-    await db.notification.create({
+    await createNotification({
+      userId,
+      type: 'badge_awarded',
+      title: `Badge earned: ${storedDefinition.name}`,
+      message: storedDefinition.description,
       data: {
-        userId,
-        type: 'badge_awarded',
-        title: `Badge earned: ${storedDefinition.name}`,
-        message: storedDefinition.description,
-        data: {
-          badgeSlug: storedDefinition.slug,
-          badgeDefinitionId: storedDefinition.id,
-          badgeName: storedDefinition.name,
-          badgeDescription: storedDefinition.description,
-          badgeIconUrl: storedDefinition.iconUrl,
-          badgeCategory: storedDefinition.category,
-          badgeTier: storedDefinition.tier,
-          reason: describeBadgeRequirement({
-            category: storedDefinition.category,
-            conditions: storedDefinition.conditions,
-          }),
-        },
+        badgeSlug: storedDefinition.slug,
+        badgeDefinitionId: storedDefinition.id,
+        badgeName: storedDefinition.name,
+        badgeDescription: storedDefinition.description,
+        badgeIconUrl: storedDefinition.iconUrl,
+        badgeCategory: storedDefinition.category,
+        badgeTier: storedDefinition.tier,
+        reason: describeBadgeRequirement({
+          category: storedDefinition.category,
+          conditions: storedDefinition.conditions,
+        }),
       },
-    });
+    }, db);
 
     createdAwards.push({
       id: badgeAward.id,
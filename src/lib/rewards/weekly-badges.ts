@@ -6,6 +6,7 @@ import type {
   WeeklySnapshot,
 } from '@prisma/client';
 import { aggregateDimensionScores, computeOverallAverage } from '@/lib/quality-review';
+import { createNotification } from '@/lib/notifications';
 import {
   COMBINED_BADGE_THRESHOLDS,
   QUALITY_CONSISTENCY_THRESHOLDS,
@@ -181,27 +182,25 @@ async function createBadgeNotification(
   userId: string,
   definition: Pick<BadgeDefinition, 'id' | 'slug' | 'name' | 'description' | 'category' | 'tier' | 'iconUrl' | 'conditions'>
 ) {
-  await db.notification.create({
+  await createNotification({
+    userId,
+    type: 'badge_awarded',
+    title: `Badge earned: ${definition.name}`,
+    message: definition.description,
     data: {
-      userId,
-      type: 'badge_awarded',
-      title: `Badge earned: ${definition.name}`,
-      message: definition.description,
-      data: {
-        badgeSlug: definition.slug,
-        badgeDefinitionId: definition.id,
-        badgeName: definition.name,
-        badgeDescription: definition.description,
-        badgeIconUrl: definition.iconUrl,
-        badgeCategory: definition.category,
-        badgeTier: definition.tier,
-        reason: describeBadgeRequirement({
-          category: definition.category,
-          conditions: definition.conditions,
-        }),
-      },
+      badgeSlug: definition.slug,
+      badgeDefinitionId: definition.id,
+      badgeName: definition.name,
+      badgeDescription: definition.description,
+      badgeIconUrl: definition.iconUrl,
+      badgeCategory: definition.category,
+      badgeTier: definition.tier,
+      reason: describeBadgeRequirement({
+        category: definition.category,
+        conditions: definition.conditions,
+      }),
     },
-  });
+  }, db);
 }
 
 async function createSnapshotBadgeAward(
@@ -0,0 +1,325 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import type { SearchResult, SearchResultType, SearchResults } from '@/types';
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = [
+  'card',
+  'comment',
+  'attachment',
+  'board',
+  'user',
+  'academy',
+];
+
+export const DEFAULT_SEARCH_LIMIT = 5;
+export const MAX_SEARCH_LIMIT = 20;
+
+const MAX_QUERY_TERMS = 8;
+const SNIPPET_LENGTH = 140;
+
+export interface SearchOptions {
+  query: string;
+  /** Board IDs the caller may read, or null for unrestricted (SUPER_ADMIN). */
+  boardIds: string[] | null;
+  types?: SearchResultType[];
+  limit?: number;
+}
+
+/**
+ * Turn free text into a prefix-matching tsquery ("des rev" -> "des:* & rev:*")
+ * so results show up while the user is still typing. Returns null when the
+ * input has no searchable terms.
+ */
+export function buildPrefixTsQuery(input: string): string | null {
+  const terms = input
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_QUERY_TERMS);
+
+  if (terms.length === 0) return null;
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+export function parseSearchTypes(value: string | null): SearchResultType[] | null {
+  if (!value) return SEARCH_RESULT_TYPES;
+  const requested = value.split(',').map((type) => type.trim()).filter(Boolean);
+  if (requested.some((type) => !SEARCH_RESULT_TYPES.includes(type as SearchResultType))) {
+    return null;
+  }
+  return requested as SearchResultType[];
+}
+
+function toSnippet(text: string | null): string | null {
+  if (!text) return null;
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > SNIPPET_LENGTH
+    ? `${collapsed.slice(0, SNIPPET_LENGTH - 1)}…`
+    : collapsed;
+}
+
+function cardHref(boardId: string, cardId: string): string {
+  return `/boards/${boardId}?card=${cardId}`;
+}
+
+function boardScope(column: string, boardIds: string[] | null): Prisma.Sql {
+  if (boardIds === null) return Prisma.sql`TRUE`;
+  return Prisma.sql`${Prisma.raw(column)} IN (${Prisma.join(boardIds)})`;
+}
+
+// The to_tsvector expressions below must stay identical to the ones in
+// prisma/sql/search-indexes.sql, otherwise Postgres cannot use the GIN indexes.
+
+async function searchCards(tsQuery: string, boardIds: string[] | null, limit: number): Promise<SearchResult[]> {
+  const rows = await prisma.$queryRaw<Array<{
+    id: string;
+    title: string;
+    boardId: string;
+    boardName: string;
+    listName: string;
+    rank: number;
+  }>>`
+    SELECT c.id, c.title, b.id AS "boardId", b.name AS "boardName", l.name AS "listName",
+      ts_rank(to_tsvector('simple', coalesce(c.title, '') || ' ' || coalesce(c.description, '')), q) AS rank
+    FROM cards c
+    JOIN lists l ON l.id = c."listId"
+    JOIN boards b ON b.id = l."boardId",
+      to_tsquery('simple', ${tsQuery}) q
+    WHERE to_tsvector('simple', coalesce(c.title, '') || ' ' || coalesce(c.description, '')) @@ q
+      AND c."archivedAt" IS NULL
+      AND b."archivedAt" IS NULL
+      AND ${boardScope('b.id', boardIds)}
+    ORDER BY rank DESC, c."updatedAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    type: 'card',
+    id: row.id,
+    title: row.title,
+    subtitle: `${row.boardName} · ${row.listName}`,
+    href: cardHref(row.boardId, row.id),
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchComments(tsQuery: string, boardIds: string[] | null, limit: number): Promise<SearchResult[]> {
+  const rows = await prisma.$queryRaw<Array<{
+    id: string;
+    content: string;
+    cardId: string;
+    cardTitle: string;
+    boardId: string;
+    boardName: string;
+    rank: number;
+  }>>`
+    SELECT cm.id, cm.content, c.id AS "cardId", c.title AS "cardTitle",
+      b.id AS "boardId", b.name AS "boardName",
+      ts_rank(to_tsvector('simple', cm.content), q) AS rank
+    FROM comments cm
+    JOIN cards c ON c.id = cm."cardId"
+    JOIN lists l ON l.id = c."listId"
+    JOIN boards b ON b.id = l."boardId",
+      to_tsquery('simple', ${tsQuery}) q
+    WHERE to_tsvector('simple', cm.content) @@ q
+      AND c."archivedAt" IS NULL
+      AND b."archivedAt" IS NULL
+      AND ${boardScope('b.id', boardIds)}
+    ORDER BY rank DESC, cm."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    type: 'comment',
+    id: row.id,
+    title: toSnippet(row.content) || '',
+    subtitle: `${row.cardTitle} · ${row.boardName}`,
+    href: cardHref(row.boardId, row.cardId),
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchAttachments(tsQuery: string, boardIds: string[] | null, limit: number): Promise<SearchResult[]> {
+  const rows = await prisma.$queryRaw<Array<{
+    id: string;
+    name: string;
+    cardId: string;
+    cardTitle: string;
+    boardId: string;
+    boardName: string;
+    rank: number;
+  }>>`
+    SELECT a.id, a.name, c.id AS "cardId", c.title AS "cardTitle",
+      b.id AS "boardId", b.name AS "boardName",
+      ts_rank(to_tsvector('simple', a.name), q) AS rank
+    FROM attachments a
+    JOIN cards c ON c.id = a."cardId"
+    JOIN lists l ON l.id = c."listId"
+    JOIN boards b ON b.id = l."boardId",
+      to_tsquery('simple', ${tsQuery}) q
+    WHERE to_tsvector('simple', a.name) @@ q
+      AND c."archivedAt" IS NULL
+      AND b."archivedAt" IS NULL
+      AND ${boardScope('b.id', boardIds)}
+    ORDER BY rank DESC, a."createdAt" DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    type: 'attachment',
+    id: row.id,
+    title: row.name,
+    subtitle: `${row.cardTitle} · ${row.boardName}`,
+    href: cardHref(row.boardId, row.cardId),
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchBoards(tsQuery: string, boardIds: string[] | null, limit: number): Promise<SearchResult[]> {
+  const rows = await prisma.$queryRaw<Array<{
+    id: string;
+    name: string;
+    isTemplate: boolean;
+    rank: number;
+  }>>`
+    SELECT b.id, b.name, b."isTemplate",
+      ts_rank(to_tsvector('simple', b.name), q) AS rank
+    FROM boards b,
+      to_tsquery('simple', ${tsQuery}) q
+    WHERE to_tsvector('simple', b.name) @@ q
+      AND b."archivedAt" IS NULL
+      AND ${boardScope('b.id', boardIds)}
+    ORDER BY rank DESC, b.name ASC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    type: 'board',
+    id: row.id,
+    title: row.name,
+    subtitle: row.isTemplate ? 'Template' : null,
+    href: `/boards/${row.id}`,
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchUsers(tsQuery: string, limit: number): Promise<SearchResult[]> {
+  const rows = await prisma.$queryRaw<Array<{
+    id: string;
+    name: string | null;
+    email: string;
+    rank: number;
+  }>>`
+    SELECT u.id, u.name, u.email,
+      ts_rank(to_tsvector('simple', coalesce(u.name, '') || ' ' || u.email), q) AS rank
+    FROM users u,
+      to_tsquery('simple', ${tsQuery}) q
+    WHERE to_tsvector('simple', coalesce(u.name, '') || ' ' || u.email) @@ q
+      AND u."deletedAt" IS NULL
+    ORDER BY rank DESC, u.name ASC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    type: 'user',
+    id: row.id,
+    title: row.name || row.email,
+    subtitle: row.name ? row.email : null,
+    href: `/users/${row.id}`,
+    rank: Number(row.rank),
+  }));
+}
+
+async function searchAcademy(tsQuery: string, includeDrafts: boolean, limit: number): Promise<SearchResult[]> {
+  const publishedOnly = (column: string) =>
+    includeDrafts ? Prisma.sql`TRUE` : Prisma.sql`${Prisma.raw(column)} = 'PUBLISHED'`;
+
+  const rows = await prisma.$queryRaw<Array<{
+    kind: 'tutorial' | 'course' | 'lesson';
+    id: string;
+    title: string;
+    courseId: string | null;
+    courseTitle: string | null;
+    rank: number;
+  }>>`
+    SELECT * FROM (
+      SELECT 'tutorial' AS kind, t.id, t.title, NULL AS "courseId", NULL AS "courseTitle",
+        ts_rank(to_tsvector('simple', t.title || ' ' || coalesce(t.description, '')), q) AS rank
+      FROM academy_tutorials t,
+        to_tsquery('simple', ${tsQuery}) q
+      WHERE to_tsvector('simple', t.title || ' ' || coalesce(t.description, '')) @@ q
+        AND ${publishedOnly('t.status')}
+      UNION ALL
+      SELECT 'course' AS kind, co.id, co.title, co.id AS "courseId", NULL AS "courseTitle",
+        ts_rank(to_tsvector('simple', co.title || ' ' || coalesce(co.description, '')), q) AS rank
+      FROM academy_courses co,
+        to_tsquery('simple', ${tsQuery}) q
+      WHERE to_tsvector('simple', co.title || ' ' || coalesce(co.description, '')) @@ q
+        AND ${publishedOnly('co.status')}
+      UNION ALL
+      SELECT 'lesson' AS kind, le.id, le.title, co.id AS "courseId", co.title AS "courseTitle",
+        ts_rank(to_tsvector('simple', le.title || ' ' || coalesce(le.description, '')), q) AS rank
+      FROM academy_lessons le
+      JOIN academy_courses co ON co.id = le."courseId",
+        to_tsquery('simple', ${tsQuery}) q
+      WHERE to_tsvector('simple', le.title || ' ' || coalesce(le.description, '')) @@ q
+        AND ${publishedOnly('co.status')}
+    ) academy
+    ORDER BY rank DESC, title ASC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    type: 'academy',
+    id: row.id,
+    title: row.title,
+    subtitle: row.kind === 'lesson'
+      ? `Lesson in ${row.courseTitle}`
+      : row.kind === 'course' ? 'Course' : 'Tutorial',
+    href: row.kind === 'tutorial'
+      ? `/academy/tutorials/${row.id}`
+      : `/academy/courses/${row.courseId}`,
+    rank: Number(row.rank),
+  }));
+}
+
+/**
+ * Full-text search across cards, comments, attachments, boards, users and
+ * academy content. Board-scoped results are limited to `boardIds`; academy
+ * drafts are only visible to unrestricted (SUPER_ADMIN) callers.
+ */
+export async function search(options: SearchOptions): Promise<SearchResults> {
+  const results: SearchResults = {
+    card: [],
+    comment: [],
+    attachment: [],
+    board: [],
+    user: [],
+    academy: [],
+  };
+
+  const tsQuery = buildPrefixTsQuery(options.query);
+  if (!tsQuery) return results;
+
+  const types = new Set(options.types ?? SEARCH_RESULT_TYPES);
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const { boardIds } = options;
+  const hasBoards = boardIds === null || boardIds.length > 0;
+
+  const [cards, comments, attachments, boards, users, academy] = await Promise.all([
+    types.has('card') && hasBoards ? searchCards(tsQuery, boardIds, limit) : [],
+    types.has('comment') && hasBoards ? searchComments(tsQuery, boardIds, limit) : [],
+    types.has('attachment') && hasBoards ? searchAttachments(tsQuery, boardIds, limit) : [],
+    types.has('board') && hasBoards ? searchBoards(tsQuery, boardIds, limit) : [],
+    types.has('user') ? searchUsers(tsQuery, limit) : [],
+    types.has('academy') ? searchAcademy(tsQuery, boardIds === null, limit) : [],
+  ]);
+
+  results.card = cards;
+  results.comment = comments;
+  results.attachment = attachments;
+  results.board = boards;
+  results.user = users;
+  results.academy = academy;
+  return results;
+}
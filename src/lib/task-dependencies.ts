@@ -0,0 +1,272 @@
+import type { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { getStoryPointsFromTaskData } from '@/lib/quality-metrics';
+import {
+  isDoneList,
+  isInProgressList,
+  isReviewList,
+  type TransitionListContext,
+} from '@/lib/quality-review';
+import type {
+  BoardSettings,
+  CriticalPathTask,
+  EnforcementMode,
+  TaskDependencyBlocker,
+  TaskDependencyReport,
+} from '@/types';
+
+export interface DependencyGraphTask {
+  id: string;
+  title: string;
+  storyPoints: number;
+  dependsOnTaskId: string | null;
+  isDone: boolean;
+  isStarted: boolean;
+  listName: string;
+}
+
+export function getDependencyEnforcement(settings: unknown): EnforcementMode {
+  const mode = (settings as BoardSettings | null)?.dependencyEnforcement;
+  return mode === 'block' ? 'block' : 'warn';
+}
+
+/** Work on a task has begun once it sits in an in-progress, review or done list. */
+export function isStartedList(list: TransitionListContext): boolean {
+  return isInProgressList(list.name) || isReviewList(list) || isDoneList(list);
+}
+
+export function getDependsOnTaskId(taskData: unknown): string | null {
+  if (!taskData || typeof taskData !== 'object') return null;
+  const value = (taskData as { dependsOnTaskId?: unknown }).dependsOnTaskId;
+  return typeof value === 'string' && value ? value : null;
+}
+
+export function describeDependencyBlocker(blocker: TaskDependencyBlocker): string {
+  return `"${blocker.taskTitle}" depends on "${blocker.predecessorTitle}", which is still in ${blocker.predecessorListName}`;
+}
+
+/**
+ * Check whether pointing `taskId` at `dependsOnTaskId` would close a loop.
+ * `dependencies` maps each task to its current predecessor.
+ *
+ * @returns The task IDs forming the cycle (starting at taskId), or null
+ */
+export function findDependencyCycle(
+  taskId: string,
+  dependsOnTaskId: string,
+  dependencies: Map<string, string | null>
+): string[] | null {
+  const path = [taskId];
+  const seen = new Set<string>([taskId]);
+  let current: string | null = dependsOnTaskId;
+
+  while (current) {
+    if (current === taskId) return path;
+    // An existing loop that does not include taskId is not ours to report.
+    if (seen.has(current)) return null;
+    seen.add(current);
+    path.push(current);
+    current = dependencies.get(current) ?? null;
+  }
+
+  return null;
+}
+
+/**
+ * Critical path through the dependency forest: the chain with the most
+ * remaining (not yet done) story points, ties broken by total points.
+ * Predecessors outside `tasks` (archived, other boards) are ignored.
+ */
+export function computeCriticalPath(tasks: DependencyGraphTask[]): TaskDependencyReport['criticalPath'] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const memo = new Map<string, { remaining: number; total: number }>();
+  const visiting = new Set<string>();
+
+  const weigh = (task: DependencyGraphTask): { remaining: number; total: number } => {
+    const cached = memo.get(task.id);
+    if (cached) return cached;
+
+    visiting.add(task.id);
+    const predecessor = task.dependsOnTaskId ? byId.get(task.dependsOnTaskId) : undefined;
+    const upstream = predecessor && !visiting.has(predecessor.id)
+      ? weigh(predecessor)
+      : { remaining: 0, total: 0 };
+    visiting.delete(task.id);
+
+    const weight = {
+      remaining: upstream.remaining + (task.isDone ? 0 : task.storyPoints),
+      total: upstream.total + task.storyPoints,
+    };
+    memo.set(task.id, weight);
+    return weight;
+  };
+
+  let end: DependencyGraphTask | null = null;
+  let best = { remaining: -1, total: -1 };
+  for (const task of tasks) {
+    const weight = weigh(task);
+    if (
+      weight.remaining > best.remaining
+      || (weight.remaining === best.remaining && weight.total > best.total)
+    ) {
+      end = task;
+      best = weight;
+    }
+  }
+
+  const path: CriticalPathTask[] = [];
+  const onPath = new Set<string>();
+  for (let current = end; current && !onPath.has(current.id); ) {
+    onPath.add(current.id);
+    path.unshift({
+      id: current.id,
+      title: current.title,
+      storyPoints: current.storyPoints,
+      isDone: current.isDone,
+      listName: current.listName,
+    });
+    current = current.dependsOnTaskId ? byId.get(current.dependsOnTaskId) ?? null : null;
+  }
+
+  return {
+    tasks: path,
+    totalPoints: path.reduce((sum, task) => sum + task.storyPoints, 0),
+    remainingPoints: path.reduce((sum, task) => sum + (task.isDone ? 0 : task.storyPoints), 0),
+  };
+}
+
+export function buildDependencyReport(tasks: DependencyGraphTask[]): TaskDependencyReport {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const blockedTasks: TaskDependencyReport['blockedTasks'] = [];
+  const chainRoots = new Set<string>();
+
+  for (const task of tasks) {
+    const predecessor = task.dependsOnTaskId ? byId.get(task.dependsOnTaskId) : undefined;
+    if (!predecessor) continue;
+
+    // Walk up to the root so each chain is counted once.
+    let root = predecessor;
+    const seen = new Set<string>([task.id]);
+    while (root.dependsOnTaskId && byId.has(root.dependsOnTaskId) && !seen.has(root.id)) {
+      seen.add(root.id);
+      root = byId.get(root.dependsOnTaskId)!;
+    }
+    chainRoots.add(root.id);
+
+    if (!task.isDone && !predecessor.isDone) {
+      blockedTasks.push({
+        taskId: task.id,
+        taskTitle: task.title,
+        predecessorId: predecessor.id,
+        predecessorTitle: predecessor.title,
+        predecessorListName: predecessor.listName,
+        started: task.isStarted,
+      });
+    }
+  }
+
+  return {
+    criticalPath: computeCriticalPath(tasks),
+    blockedTasks,
+    chainCount: chainRoots.size,
+  };
+}
+
+/** Load every open (non-archived) task on a board as a dependency graph node. */
+export async function loadDependencyGraph(boardId: string): Promise<DependencyGraphTask[]> {
+  const cards = await prisma.card.findMany({
+    where: {
+      type: 'TASK',
+      archivedAt: null,
+      list: { boardId },
+    },
+    select: {
+      id: true,
+      title: true,
+      taskData: true,
+      list: {
+        select: { id: true, name: true, phase: true, viewType: true },
+      },
+    },
+  });
+
+  return cards.map((card) => ({
+    id: card.id,
+    title: card.title,
+    storyPoints: getStoryPointsFromTaskData(card.taskData as Prisma.JsonValue),
+    dependsOnTaskId: getDependsOnTaskId(card.taskData),
+    isDone: isDoneList(card.list),
+    isStarted: isStartedList(card.list),
+    listName: card.list.name,
+  }));
+}
+
+/**
+ * Find the unfinished predecessor that should stop `cardId` from being started.
+ * Archived or deleted predecessors never block.
+ */
+export async function findBlockingPredecessor(
+  boardId: string,
+  cardId: string
+): Promise<TaskDependencyBlocker | null> {
+  const card = await prisma.card.findFirst({
+    where: { id: cardId, type: 'TASK', list: { boardId } },
+    select: { id: true, title: true, taskData: true },
+  });
+  const predecessorId = getDependsOnTaskId(card?.taskData);
+  if (!card || !predecessorId) return null;
+
+  const predecessor = await prisma.card.findFirst({
+    where: { id: predecessorId, archivedAt: null, list: { boardId } },
+    select: {
+      id: true,
+      title: true,
+      list: {
+        select: { id: true, name: true, phase: true, viewType: true },
+      },
+    },
+  });
+  if (!predecessor || isDoneList(predecessor.list)) return null;
+
+  return {
+    taskId: card.id,
+    taskTitle: card.title,
+    predecessorId: predecessor.id,
+    predecessorTitle: predecessor.title,
+    predecessorListName: predecessor.list.name,
+  };
+}
+
+/**
+ * Validate a new dependsOnTaskId for a task before saving it.
+ *
+ * @returns A validation message, or null when the dependency is acceptable
+ */
+export async function validateTaskDependency(
+  boardId: string,
+  taskId: string,
+  dependsOnTaskId: string
+): Promise<string | null> {
+  if (dependsOnTaskId === taskId) {
+    return 'A task cannot depend on itself';
+  }
+
+  const tasks = await prisma.card.findMany({
+    where: { type: 'TASK', list: { boardId } },
+    select: { id: true, title: true, taskData: true },
+  });
+
+  const titles = new Map(tasks.map((task) => [task.id, task.title]));
+  if (!titles.has(dependsOnTaskId)) {
+    return 'Dependency must be a task on this board';
+  }
+
+  const dependencies = new Map(tasks.map((task) => [task.id, getDependsOnTaskId(task.taskData)]));
+  const cycle = findDependencyCycle(taskId, dependsOnTaskId, dependencies);
+  if (cycle) {
+    const names = [...cycle, taskId].map((id) => `"${titles.get(id) ?? id}"`);
+    return `Dependency cycle: ${names.join(' → ')}`;
+  }
+
+  return null;
+}
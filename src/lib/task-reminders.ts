@@ -0,0 +1,226 @@
+import { formatDistance } from 'date-fns';
+import { prisma } from '@/lib/prisma';
+import { createNotificationWithSlackDM } from '@/lib/notifications';
+import { isDoneList } from '@/lib/quality-review';
+
+export type TaskReminderKind = 'deadline_soon' | 'deadline_overdue' | 'task_released';
+
+export const DEFAULT_DUE_SOON_DAYS = 2;
+export const MAX_DUE_SOON_DAYS = 30;
+
+// Older deadlines and releases are left alone, so turning reminders on doesn't flood
+// everyone about long-finished work.
+const OVERDUE_LOOKBACK_DAYS = 7;
+const RELEASE_LOOKBACK_DAYS = 2;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface ReminderTaskData {
+  deadline?: string | null;
+  releasedAt?: string | null;
+  [key: string]: unknown;
+}
+
+export interface TaskReminderCandidate {
+  cardId: string;
+  deadline?: string | null;
+  releasedAt?: string | null;
+  isDone: boolean;
+}
+
+export interface PlannedTaskReminder {
+  cardId: string;
+  kind: TaskReminderKind;
+  /** The deadline or release timestamp; a reminder is sent once per user for each key. */
+  dueKey: string;
+  at: Date;
+}
+
+function parseDate(value: string | null | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Decide which reminders are due for each task: deadlines within `dueSoonDays`,
+ * deadlines that passed in the last week, and staged releases from the last two days.
+ * Tasks in a Done list get no deadline reminders.
+ */
+export function planTaskReminders(
+  tasks: TaskReminderCandidate[],
+  now: Date,
+  dueSoonDays = DEFAULT_DUE_SOON_DAYS
+): PlannedTaskReminder[] {
+  const planned: PlannedTaskReminder[] = [];
+  const nowMs = now.getTime();
+
+  for (const task of tasks) {
+    const deadline = parseDate(task.deadline);
+    if (deadline && !task.isDone) {
+      const untilDue = deadline.getTime() - nowMs;
+      if (untilDue > 0 && untilDue <= dueSoonDays * DAY_MS) {
+        planned.push({ cardId: task.cardId, kind: 'deadline_soon', dueKey: deadline.toISOString(), at: deadline });
+      } else if (untilDue <= 0 && -untilDue <= OVERDUE_LOOKBACK_DAYS * DAY_MS) {
+        planned.push({ cardId: task.cardId, kind: 'deadline_overdue', dueKey: deadline.toISOString(), at: deadline });
+      }
+    }
+
+    const releasedAt = parseDate(task.releasedAt);
+    if (releasedAt && releasedAt.getTime() <= nowMs && nowMs - releasedAt.getTime() <= RELEASE_LOOKBACK_DAYS * DAY_MS) {
+      planned.push({ cardId: task.cardId, kind: 'task_released', dueKey: releasedAt.toISOString(), at: releasedAt });
+    }
+  }
+
+  return planned;
+}
+
+function reminderKey(userId: string, cardId: string, kind: string, dueKey: string): string {
+  return `${userId}:${cardId}:${kind}:${dueKey}`;
+}
+
+function reminderText(
+  reminder: PlannedTaskReminder,
+  card: { title: string; listName: string; boardName: string },
+  now: Date
+): { title: string; message: string } {
+  const task = `Task "${card.title}" on ${card.boardName}`;
+  const when = formatDistance(reminder.at, now, { addSuffix: true });
+  switch (reminder.kind) {
+    case 'deadline_soon':
+      return { title: 'Deadline coming up', message: `${task} is due ${when}` };
+    case 'deadline_overdue':
+      return { title: 'Task overdue', message: `${task} was due ${when} and isn't done yet` };
+    case 'task_released':
+      return { title: 'Task released', message: `${task} was released to ${card.listName}` };
+  }
+}
+
+export interface SendTaskRemindersOptions {
+  now?: Date;
+  dueSoonDays?: number;
+}
+
+export interface SendTaskRemindersResult {
+  tasksChecked: number;
+  remindersDue: number;
+  notificationsSent: number;
+  skippedAlreadySent: number;
+  skippedNoAssignees: number;
+}
+
+/**
+ * Notify assignees about upcoming and passed deadlines and released staged tasks
+ * (in-app plus Slack DM). Each reminder is recorded in TaskReminder before it is sent,
+ * so overlapping or repeated runs never send the same one twice.
+ */
+export async function sendTaskReminders(
+  options: SendTaskRemindersOptions = {}
+): Promise<SendTaskRemindersResult> {
+  const now = options.now ?? new Date();
+  const dueSoonDays = options.dueSoonDays ?? DEFAULT_DUE_SOON_DAYS;
+
+  const cards = await prisma.card.findMany({
+    where: {
+      type: 'TASK',
+      archivedAt: null,
+      list: { board: { isTemplate: false, archivedAt: null } },
+    },
+    select: {
+      id: true,
+      title: true,
+      taskData: true,
+      list: {
+        select: {
+          id: true,
+          name: true,
+          phase: true,
+          viewType: true,
+          board: { select: { id: true, name: true } },
+        },
+      },
+      assignees: {
+        select: { userId: true, user: { select: { slackUserId: true } } },
+      },
+    },
+  });
+
+  const cardById = new Map(cards.map((card) => [card.id, card]));
+  const planned = planTaskReminders(
+    cards.map((card) => {
+      const taskData = (card.taskData || {}) as ReminderTaskData;
+      return {
+        cardId: card.id,
+        deadline: taskData.deadline,
+        releasedAt: taskData.releasedAt,
+        isDone: isDoneList(card.list),
+      };
+    }),
+    now,
+    dueSoonDays
+  );
+
+  const result: SendTaskRemindersResult = {
+    tasksChecked: cards.length,
+    remindersDue: planned.length,
+    notificationsSent: 0,
+    skippedAlreadySent: 0,
+    skippedNoAssignees: 0,
+  };
+  if (planned.length === 0) return result;
+
+  const sent = await prisma.taskReminder.findMany({
+    where: { cardId: { in: [...new Set(planned.map((reminder) => reminder.cardId))] } },
+    select: { userId: true, cardId: true, kind: true, dueKey: true },
+  });
+  const sentKeys = new Set(sent.map((row) => reminderKey(row.userId, row.cardId, row.kind, row.dueKey)));
+
+  for (const reminder of planned) {
+    const card = cardById.get(reminder.cardId)!;
+    if (card.assignees.length === 0) {
+      result.skippedNoAssignees += 1;
+      continue;
+    }
+
+    const { title, message } = reminderText(reminder, {
+      title: card.title,
+      listName: card.list.name,
+      boardName: card.list.board.name,
+    }, now);
+
+    for (const assignee of card.assignees) {
+      if (sentKeys.has(reminderKey(assignee.userId, card.id, reminder.kind, reminder.dueKey))) {
+        result.skippedAlreadySent += 1;
+        continue;
+      }
+
+      try {
+        // Claim the reminder first: the unique key makes a concurrent run fail here instead of sending twice.
+        await prisma.taskReminder.create({
+          data: { userId: assignee.userId, cardId: card.id, kind: reminder.kind, dueKey: reminder.dueKey },
+        });
+      } catch (error) {
+        if ((error as { code?: string }).code === 'P2002') {
+          result.skippedAlreadySent += 1;
+          continue;
+        }
+        throw error;
+      }
+
+      try {
+        await createNotificationWithSlackDM({
+          userId: assignee.userId,
+          type: reminder.kind,
+          title,
+          message,
+          data: { boardId: card.list.board.id, cardId: card.id, cardTitle: card.title },
+          slackUserId: assignee.user.slackUserId,
+        });
+        result.notificationsSent += 1;
+      } catch (error) {
+        console.error('Failed to send task reminder:', error);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,64 @@
+import { prisma } from '@/lib/prisma';
+
+export interface TimeTrackingSyncParams {
+  cardId: string;
+  userId: string;
+  destListId: string;
+  wasInProgress: boolean;
+  isNowInProgress: boolean;
+}
+
+/**
+ * Start or stop the mover's time log when a card enters or leaves an "In Progress" list.
+ * Never throws: time tracking must not fail the move that triggered it.
+ */
+export async function syncTimeTrackingForMove({
+  cardId,
+  userId,
+  destListId,
+  wasInProgress,
+  isNowInProgress,
+}: TimeTrackingSyncParams): Promise<void> {
+  try {
+    if (wasInProgress && !isNowInProgress) {
+      // Card LEFT "In Progress" - stop any active time log
+      const activeLog = await prisma.timeLog.findFirst({
+        where: { cardId, userId, endTime: null },
+      });
+
+      if (activeLog) {
+        const endTime = new Date();
+        const durationMs = endTime.getTime() - new Date(activeLog.startTime).getTime();
+        await prisma.timeLog.update({
+          where: { id: activeLog.id },
+          data: { endTime, durationMs },
+        });
+      }
+      return;
+    }
+
+    if (!wasInProgress && isNowInProgress) {
+      // Card ENTERED "In Progress" - start a new time log
+      const card = await prisma.card.findUnique({
+        where: { id: cardId },
+        include: { assignees: { select: { userId: true } } },
+      });
+
+      const isAssigned = card?.assignees.some((a) => a.userId === userId);
+
+      if (isAssigned || !card?.assignees.length) {
+        // Close any existing open logs first
+        await prisma.timeLog.updateMany({
+          where: { cardId, userId, endTime: null },
+          data: { endTime: new Date() },
+        });
+
+        await prisma.timeLog.create({
+          data: { cardId, userId, listId: destListId, startTime: new Date() },
+        });
+      }
+    }
+  } catch (err) {
+    console.error('Failed to update time tracking:', err);
+  }
+}
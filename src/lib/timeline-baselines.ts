@@ -0,0 +1,227 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { TimelineProjectBaseline } from '@/types';
+import { getBusinessDaysBetween, getMonday, type BusinessCalendar } from './date-utils';
+import { loadLiveScenarioTimelines, type ScenarioBlock, type ScenarioEvent } from './timeline-scenarios';
+
+type BaselineDbClient = PrismaClient | Prisma.TransactionClient;
+
+export const MAX_BASELINE_NAME_LENGTH = 200;
+export const KICKOFF_BASELINE_NAME = 'Kickoff';
+
+export interface TimelineBaselineSnapshot {
+  blocks: ScenarioBlock[];
+  events: ScenarioEvent[];
+}
+
+/** Snapshot a board's current blocks and events. Null for a missing or template board. */
+export async function captureTimelineBaseline(
+  db: BaselineDbClient,
+  boardId: string,
+  options: { name: string; createdById: string | null }
+) {
+  const live = (await loadLiveScenarioTimelines(db, [boardId])).get(boardId);
+  if (!live) return null;
+
+  return db.timelineBaseline.create({
+    data: {
+      boardId,
+      name: options.name,
+      createdById: options.createdById,
+      blocks: live.blocks as unknown as Prisma.InputJsonValue,
+      events: live.events as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/** Stored `blocks` or `events` JSON; anything else reads as empty. */
+export function readBaselineSnapshot(value: { blocks: unknown; events: unknown }): TimelineBaselineSnapshot {
+  return {
+    blocks: Array.isArray(value.blocks) ? value.blocks as ScenarioBlock[] : [],
+    events: Array.isArray(value.events) ? value.events as ScenarioEvent[] : [],
+  };
+}
+
+/** Select for the newest baseline of a board, as `/api/timeline` sends it. */
+export const LATEST_BASELINE_QUERY = {
+  select: { id: true, name: true, createdAt: true, blocks: true },
+  orderBy: { createdAt: 'desc' },
+  take: 1,
+} satisfies Prisma.Board$timelineBaselinesArgs;
+
+export function toProjectBaseline(
+  baselines: { id: string; name: string; createdAt: Date; blocks: unknown }[]
+): TimelineProjectBaseline | null {
+  const [baseline] = baselines;
+  if (!baseline) return null;
+  return {
+    id: baseline.id,
+    name: baseline.name,
+    createdAt: baseline.createdAt.toISOString(),
+    blocks: Array.isArray(baseline.blocks) ? baseline.blocks as ScenarioBlock[] : [],
+  };
+}
+
+export type PhaseVarianceStatus = 'not_started' | 'in_progress' | 'done';
+
+export interface VariancePhase {
+  listId: string;
+  name: string;
+  /** When each task reached Done; null for open tasks. */
+  tasks: { doneAt: Date | null }[];
+}
+
+export interface PhaseVariance {
+  listId: string;
+  name: string;
+  status: PhaseVarianceStatus;
+  doneTasks: number;
+  totalTasks: number;
+  /** Null when the phase was added after the baseline. */
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  plannedWeeks: number | null;
+  /** Scheduled start and, until the phase is done, its scheduled end or today if later. */
+  actualStart: string | null;
+  actualEnd: string | null;
+  actualWeeks: number | null;
+  completedAt: string | null;
+  /** Business days later (positive) or earlier (negative) than planned. */
+  startSlipDays: number | null;
+  endSlipDays: number | null;
+}
+
+export interface BaselineVariance {
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  plannedWeeks: number | null;
+  actualStart: string | null;
+  actualEnd: string | null;
+  actualWeeks: number | null;
+  endSlipDays: number | null;
+  phases: PhaseVariance[];
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/** Calendar weeks touched from start to end, counting both ends; at least one. */
+function weeksSpanned(start: Date, end: Date): number {
+  return Math.max(1, Math.round((getMonday(end).getTime() - getMonday(start).getTime()) / WEEK_MS) + 1);
+}
+
+/** Signed business days from one day to another; 0 for the same day. */
+function businessDayDelta(from: Date, to: Date, calendar?: BusinessCalendar | null): number {
+  const a = startOfDay(from);
+  const b = startOfDay(to);
+  if (a.getTime() === b.getTime()) return 0;
+  if (a < b) {
+    a.setDate(a.getDate() + 1);
+    return getBusinessDaysBetween(a, b, calendar);
+  }
+  b.setDate(b.getDate() + 1);
+  return -getBusinessDaysBetween(b, a, calendar);
+}
+
+function blockRange(blocks: Pick<ScenarioBlock, 'startDate' | 'endDate'>[]): { start: Date; end: Date } | null {
+  if (blocks.length === 0) return null;
+  let start = new Date(blocks[0].startDate);
+  let end = new Date(blocks[0].endDate);
+  for (const block of blocks) {
+    if (new Date(block.startDate) < start) start = new Date(block.startDate);
+    if (new Date(block.endDate) > end) end = new Date(block.endDate);
+  }
+  return { start, end };
+}
+
+/**
+ * Planned vs. actual per planning phase. The plan is the baseline's blocks linked to the
+ * phase's list; the actual run is today's blocks for that list, ending when its last task
+ * reached Done. Phases with no blocks in either version are left out.
+ */
+export function computeBaselineVariance(input: {
+  baselineBlocks: Pick<ScenarioBlock, 'listId' | 'startDate' | 'endDate'>[];
+  currentBlocks: Pick<ScenarioBlock, 'listId' | 'startDate' | 'endDate'>[];
+  phases: VariancePhase[];
+  calendar?: BusinessCalendar | null;
+  now: Date;
+}): BaselineVariance {
+  const today = startOfDay(input.now);
+  const byList = (blocks: typeof input.baselineBlocks) => {
+    const map = new Map<string, typeof blocks>();
+    for (const block of blocks) {
+      if (!block.listId) continue;
+      map.set(block.listId, [...(map.get(block.listId) ?? []), block]);
+    }
+    return map;
+  };
+  const planned = byList(input.baselineBlocks);
+  const current = byList(input.currentBlocks);
+
+  const phases: PhaseVariance[] = [];
+  for (const phase of input.phases) {
+    const plan = blockRange(planned.get(phase.listId) ?? []);
+    const schedule = blockRange(current.get(phase.listId) ?? []);
+    if (!plan && !schedule) continue;
+
+    // A phase without tasks has nothing to finish, so it is done once its schedule ends
+    const doneTasks = phase.tasks.filter((task) => task.doneAt !== null);
+    let completedAt: Date | null = null;
+    if (phase.tasks.length > 0 && doneTasks.length === phase.tasks.length) {
+      completedAt = new Date(Math.max(...doneTasks.map((task) => task.doneAt!.getTime())));
+    } else if (phase.tasks.length === 0 && schedule && schedule.end < today) {
+      completedAt = schedule.end;
+    }
+    const isDone = completedAt !== null;
+
+    // Unfinished phases run at least until today
+    let actualEnd: Date | null = null;
+    if (completedAt) actualEnd = startOfDay(completedAt);
+    else if (schedule) actualEnd = schedule.end < today ? today : schedule.end;
+
+    const status: PhaseVarianceStatus = isDone
+      ? 'done'
+      : schedule && schedule.start <= today ? 'in_progress' : 'not_started';
+
+    phases.push({
+      listId: phase.listId,
+      name: phase.name,
+      status,
+      doneTasks: doneTasks.length,
+      totalTasks: phase.tasks.length,
+      plannedStart: plan?.start.toISOString() ?? null,
+      plannedEnd: plan?.end.toISOString() ?? null,
+      plannedWeeks: plan ? weeksSpanned(plan.start, plan.end) : null,
+      actualStart: schedule?.start.toISOString() ?? null,
+      actualEnd: actualEnd?.toISOString() ?? null,
+      actualWeeks: schedule && actualEnd ? weeksSpanned(schedule.start, actualEnd) : null,
+      completedAt: completedAt?.toISOString() ?? null,
+      startSlipDays: plan && schedule ? businessDayDelta(plan.start, schedule.start, input.calendar) : null,
+      endSlipDays: plan && actualEnd ? businessDayDelta(plan.end, actualEnd, input.calendar) : null,
+    });
+  }
+
+  const earliest = (values: (string | null)[]) => values.filter(Boolean).sort()[0] ?? null;
+  const latest = (values: (string | null)[]) => values.filter(Boolean).sort().at(-1) ?? null;
+  const plannedStart = earliest(phases.map((phase) => phase.plannedStart));
+  const plannedEnd = latest(phases.map((phase) => phase.plannedEnd));
+  const actualStart = earliest(phases.map((phase) => phase.actualStart));
+  const actualEnd = latest(phases.map((phase) => phase.actualEnd));
+
+  return {
+    plannedStart,
+    plannedEnd,
+    plannedWeeks: plannedStart && plannedEnd ? weeksSpanned(new Date(plannedStart), new Date(plannedEnd)) : null,
+    actualStart,
+    actualEnd,
+    actualWeeks: actualStart && actualEnd ? weeksSpanned(new Date(actualStart), new Date(actualEnd)) : null,
+    endSlipDays: plannedEnd && actualEnd
+      ? businessDayDelta(new Date(plannedEnd), new Date(actualEnd), input.calendar)
+      : null,
+    phases,
+  };
+}
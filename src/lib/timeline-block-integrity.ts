@@ -1,8 +1,14 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
-import { getFriday, getMonday } from '@/lib/date-utils';
+import { getFriday, getMonday, getWorkingDaysInWeek } from '@/lib/date-utils';
+import { loadBoardBusinessCalendar } from '@/lib/holiday-calendar';
+
+type TimelineDbClient = PrismaClient | Prisma.TransactionClient;
 
 interface EnsureTimelineBlockIntegrityOptions {
   syncToList?: boolean;
+  /** Run inside a caller's transaction instead of one of its own. */
+  db?: TimelineDbClient;
 }
 
 function isSameInstant(a: Date, b: Date): boolean {
@@ -14,8 +20,9 @@ export async function ensureTimelineBlockIntegrity(
   options: EnsureTimelineBlockIntegrityOptions = {}
 ): Promise<{ fixedBlocks: number }> {
   const { syncToList = true } = options;
+  const db: TimelineDbClient = options.db ?? prisma;
 
-  const blocks = await prisma.timelineBlock.findMany({
+  const blocks = await db.timelineBlock.findMany({
     where: { boardId },
     include: { list: true },
     orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
@@ -25,11 +32,9 @@ export async function ensureTimelineBlockIntegrity(
     return { fixedBlocks: 0 };
   }
 
+  const calendar = await loadBoardBusinessCalendar(db, boardId);
   let previousMonday: Date | null = null;
-  const updates: Array<
-    ReturnType<typeof prisma.timelineBlock.update> |
-    ReturnType<typeof prisma.list.update>
-  > = [];
+  const updates: Prisma.PrismaPromise<unknown>[] = [];
   let fixedBlocks = 0;
 
   for (const block of blocks) {
@@ -45,6 +50,13 @@ export async function ensureTimelineBlockIntegrity(
       }
     }
 
+    // Weeks the studio is closed (e.g. Christmas) cannot hold a block
+    while (calendar && getWorkingDaysInWeek(normalizedMonday, calendar) === 0) {
+      normalizedMonday = new Date(normalizedMonday);
+      normalizedMonday.setDate(normalizedMonday.getDate() + 7);
+      normalizedFriday = getFriday(normalizedMonday);
+    }
+
     const needsBlockUpdate =
       !isSameInstant(block.startDate, normalizedMonday) ||
       !isSameInstant(block.endDate, normalizedFriday);
@@ -52,7 +64,7 @@ export async function ensureTimelineBlockIntegrity(
     if (needsBlockUpdate) {
       fixedBlocks++;
       updates.push(
-        prisma.timelineBlock.update({
+        db.timelineBlock.update({
           where: { id: block.id },
           data: {
             startDate: normalizedMonday,
@@ -77,8 +89,10 @@ export async function ensureTimelineBlockIntegrity(
     previousMonday = new Date(normalizedMonday);
   }
 
-  if (updates.length > 0) {
-    await prisma.$transaction(updates);
+  if ('$transaction' in db) {
+    if (updates.length > 0) await db.$transaction(updates);
+  } else {
+    for (const update of updates) await update;
   }
 
   return { fixedBlocks };
@@ -1,11 +1,18 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
 
+type TimelineDbClient = PrismaClient | Prisma.TransactionClient;
+
 /**
  * Re-number timeline blocks per board and block type.
  * For each block type, positions are assigned in chronological order starting at 1.
+ * Pass a transaction client to renumber as part of a larger write.
  */
-export async function renumberTimelineBlockPositions(boardId: string): Promise<void> {
-  const blocks = await prisma.timelineBlock.findMany({
+export async function renumberTimelineBlockPositions(
+  boardId: string,
+  db: TimelineDbClient = prisma
+): Promise<void> {
+  const blocks = await db.timelineBlock.findMany({
     where: { boardId },
     orderBy: [{ startDate: 'asc' }, { id: 'asc' }],
     select: {
@@ -16,7 +23,7 @@ export async function renumberTimelineBlockPositions(boardId: string): Promise<v
   });
 
   const counters = new Map<string, number>();
-  const updates: ReturnType<typeof prisma.timelineBlock.update>[] = [];
+  const updates: Prisma.PrismaPromise<unknown>[] = [];
 
   for (const block of blocks) {
     const next = (counters.get(block.blockTypeId) ?? 0) + 1;
@@ -24,7 +31,7 @@ export async function renumberTimelineBlockPositions(boardId: string): Promise<v
 
     if (block.position !== next) {
       updates.push(
-        prisma.timelineBlock.update({
+        db.timelineBlock.update({
           where: { id: block.id },
           data: { position: next },
         })
@@ -32,8 +39,11 @@ export async function renumberTimelineBlockPositions(boardId: string): Promise<v
     }
   }
 
-  if (updates.length > 0) {
-    await prisma.$transaction(updates);
+  if (updates.length === 0) return;
+  if ('$transaction' in db) {
+    await db.$transaction(updates);
+  } else {
+    for (const update of updates) await update;
   }
 }
 
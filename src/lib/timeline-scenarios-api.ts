@@ -0,0 +1,57 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import { ApiErrors } from '@/lib/api-utils';
+import { readScenarioTimeline, type ScenarioTimeline } from '@/lib/timeline-scenarios';
+
+type ScenarioDbClient = PrismaClient | Prisma.TransactionClient;
+
+export const SCENARIO_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  status: true,
+  appliedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { id: true, name: true } },
+  boards: {
+    select: { boardId: true, forkedAt: true, board: { select: { name: true } } },
+    orderBy: { board: { name: 'asc' } },
+  },
+} satisfies Prisma.TimelineScenarioSelect;
+
+export function toScenarioSummary(scenario: Prisma.TimelineScenarioGetPayload<{ select: typeof SCENARIO_SUMMARY_SELECT }>) {
+  return {
+    ...scenario,
+    boards: scenario.boards.map((copy) => ({ boardId: copy.boardId, name: copy.board.name, forkedAt: copy.forkedAt })),
+  };
+}
+
+/**
+ * A draft scenario's copy of one board, for the routes that edit it. Applied scenarios are
+ * kept as a record and can no longer change.
+ */
+export async function loadScenarioDraft(db: ScenarioDbClient, scenarioId: string, boardId: string) {
+  const copy = await db.timelineScenarioBoard.findUnique({
+    where: { scenarioId_boardId: { scenarioId, boardId } },
+    select: { id: true, draft: true, scenario: { select: { status: true } } },
+  });
+  if (!copy) {
+    return { response: ApiErrors.notFound('Scenario board') };
+  }
+  if (copy.scenario.status !== 'DRAFT') {
+    return { response: ApiErrors.conflict('This scenario has already been applied') };
+  }
+  return { copyId: copy.id, draft: readScenarioTimeline(copy.draft) };
+}
+
+export async function saveScenarioDraft(db: ScenarioDbClient, copyId: string, draft: ScenarioTimeline) {
+  const copy = await db.timelineScenarioBoard.update({
+    where: { id: copyId },
+    data: {
+      draft: draft as unknown as Prisma.InputJsonValue,
+      scenario: { update: { updatedAt: new Date() } },
+    },
+    select: { draft: true },
+  });
+  return readScenarioTimeline(copy.draft);
+}
@@ -0,0 +1,480 @@
+import type { Prisma, PrismaClient } from '@prisma/client';
+import type { BlockType, EventType, TimelineData, UserWeeklyAvailability } from '@/types';
+import { addBusinessDays, getFriday, getMonday, getWorkingDaysInWeek, moveBlockDates, type BusinessCalendar } from './date-utils';
+
+type ScenarioDbClient = PrismaClient | Prisma.TransactionClient;
+
+export const MAX_SCENARIO_NAME_LENGTH = 200;
+export const MAX_SCENARIO_BOARDS = 50;
+
+/** Timeline rows as a scenario stores them; dates are ISO strings. */
+export interface ScenarioBlock {
+  id: string;
+  blockTypeId: string;
+  listId: string | null;
+  startDate: string;
+  endDate: string;
+  position: number;
+}
+
+export interface ScenarioEvent {
+  id: string;
+  title: string;
+  description: string | null;
+  eventTypeId: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface ScenarioAvailability {
+  userId: string;
+  weekStart: string;
+  dedication: number;
+}
+
+export interface ScenarioTimeline {
+  blocks: ScenarioBlock[];
+  events: ScenarioEvent[];
+  availability: ScenarioAvailability[];
+}
+
+export type ScenarioChangeKind = 'added' | 'removed' | 'changed';
+
+export interface ScenarioBlockChange {
+  id: string;
+  kind: ScenarioChangeKind;
+  /** Dates before and after; null for the side the block is missing from. */
+  from: { startDate: string; endDate: string } | null;
+  to: { startDate: string; endDate: string } | null;
+}
+
+export interface ScenarioEventChange {
+  id: string;
+  kind: ScenarioChangeKind;
+  title: string;
+}
+
+export interface ScenarioAvailabilityChange {
+  userId: string;
+  weekStart: string;
+  from: number;
+  to: number;
+}
+
+export interface ScenarioDiff {
+  blocks: ScenarioBlockChange[];
+  events: ScenarioEventChange[];
+  availability: ScenarioAvailabilityChange[];
+}
+
+export interface TimelineScenarioSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  status: 'DRAFT' | 'APPLIED';
+  appliedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: { id: string; name: string | null } | null;
+  boards: { boardId: string; name: string; forkedAt: string }[];
+}
+
+export interface TimelineScenarioDetail extends Omit<TimelineScenarioSummary, 'boards'> {
+  boards: {
+    boardId: string;
+    name: string;
+    forkedAt: string;
+    draft: ScenarioTimeline;
+    /** What the draft changes against the fork. */
+    changes: ScenarioDiff;
+    /** Live edits since the fork that applying would overwrite; null once applied. */
+    conflicts: ScenarioDiff | null;
+  }[];
+}
+
+interface LiveTimeline {
+  blocks: { id: string; blockTypeId: string; listId: string | null; startDate: Date; endDate: Date; position: number }[];
+  events: { id: string; title: string; description: string | null; eventTypeId: string; startDate: Date; endDate: Date }[];
+  availability: { userId: string; weekStart: Date; dedication: number }[];
+}
+
+/** Copy a board's live blocks, events and availability into scenario form. */
+export function toScenarioTimeline(live: LiveTimeline): ScenarioTimeline {
+  return {
+    blocks: live.blocks.map((block) => ({
+      id: block.id,
+      blockTypeId: block.blockTypeId,
+      listId: block.listId,
+      startDate: block.startDate.toISOString(),
+      endDate: block.endDate.toISOString(),
+      position: block.position,
+    })),
+    events: live.events.map((event) => ({
+      id: event.id,
+      title: event.title,
+      description: event.description,
+      eventTypeId: event.eventTypeId,
+      startDate: event.startDate.toISOString(),
+      endDate: event.endDate.toISOString(),
+    })),
+    availability: live.availability
+      .filter((entry) => entry.dedication > 0)
+      .map((entry) => ({ userId: entry.userId, weekStart: entry.weekStart.toISOString(), dedication: entry.dedication })),
+  };
+}
+
+/** The live timeline of each non-template board, keyed by board id; missing boards are left out. */
+export async function loadLiveScenarioTimelines(
+  db: ScenarioDbClient,
+  boardIds: string[]
+): Promise<Map<string, ScenarioTimeline>> {
+  const boards = await db.board.findMany({
+    where: { id: { in: boardIds }, isTemplate: false },
+    select: {
+      id: true,
+      timelineBlocks: {
+        select: { id: true, blockTypeId: true, listId: true, startDate: true, endDate: true, position: true },
+        orderBy: { startDate: 'asc' },
+      },
+      timelineEvents: {
+        select: { id: true, title: true, description: true, eventTypeId: true, startDate: true, endDate: true },
+        orderBy: { startDate: 'asc' },
+      },
+      weeklyAvailability: { select: { userId: true, weekStart: true, dedication: true } },
+    },
+  });
+
+  return new Map(boards.map((board) => [board.id, toScenarioTimeline({
+    blocks: board.timelineBlocks,
+    events: board.timelineEvents,
+    availability: board.weeklyAvailability,
+  })]));
+}
+
+/** A stored `base` or `draft` JSON value; anything missing reads as empty. */
+export function readScenarioTimeline(value: unknown): ScenarioTimeline {
+  const timeline = (value && typeof value === 'object' ? value : {}) as Partial<ScenarioTimeline>;
+  return {
+    blocks: Array.isArray(timeline.blocks) ? timeline.blocks : [],
+    events: Array.isArray(timeline.events) ? timeline.events : [],
+    availability: Array.isArray(timeline.availability) ? timeline.availability : [],
+  };
+}
+
+type ScenarioUser = UserWeeklyAvailability['user'];
+
+/**
+ * A board's timeline as the scenario draws it: the draft's dates on top of the live project,
+ * so blocks keep their linked list and metrics. Rows whose block or event type no longer
+ * exists are left out.
+ */
+export function overlayScenarioTimeline(
+  project: TimelineData,
+  draft: ScenarioTimeline,
+  lookups: { blockTypes: BlockType[]; eventTypes: EventType[]; users: ScenarioUser[] }
+): TimelineData {
+  const liveBlocks = new Map(project.blocks.map((block) => [block.id, block]));
+  const blockTypes = new Map(lookups.blockTypes.map((type) => [type.id, type]));
+  const eventTypes = new Map(lookups.eventTypes.map((type) => [type.id, type]));
+  const users = new Map<string, ScenarioUser>(lookups.users.map((user) => [user.id, user]));
+  for (const member of project.board.members) {
+    if (!users.has(member.id)) users.set(member.id, member);
+  }
+
+  return {
+    ...project,
+    blocks: draft.blocks.flatMap((block) => {
+      const live = liveBlocks.get(block.id);
+      const blockType = blockTypes.get(block.blockTypeId) ?? live?.blockType;
+      if (!blockType) return [];
+      return [{
+        ...live,
+        id: block.id,
+        startDate: block.startDate,
+        endDate: block.endDate,
+        position: block.position,
+        blockType,
+        list: live?.list ?? null,
+      }];
+    }),
+    events: draft.events.flatMap((event) => {
+      const eventType = eventTypes.get(event.eventTypeId);
+      if (!eventType) return [];
+      return [{
+        id: event.id,
+        title: event.title,
+        description: event.description,
+        startDate: event.startDate,
+        endDate: event.endDate,
+        eventType,
+      }];
+    }),
+    availability: draft.availability.flatMap((entry) => {
+      const user = users.get(entry.userId);
+      if (!user) return [];
+      return [{
+        id: `${entry.userId}:${entry.weekStart}`,
+        dedication: entry.dedication,
+        weekStart: entry.weekStart,
+        userId: entry.userId,
+        boardId: project.board.id,
+        user: { id: user.id, name: user.name, email: user.email, image: user.image },
+      }];
+    }),
+  };
+}
+
+/**
+ * The scenario version of `ensureTimelineBlockIntegrity` and `renumberTimelineBlockPositions`:
+ * blocks are full Mon-Fri weeks, one per week in date order, never in a week the studio is
+ * closed, and numbered per block type.
+ */
+export function normalizeScenarioBlocks(
+  blocks: ScenarioBlock[],
+  calendar?: BusinessCalendar | null
+): ScenarioBlock[] {
+  const sorted = [...blocks].sort((a, b) => a.startDate.localeCompare(b.startDate) || a.id.localeCompare(b.id));
+  const counters = new Map<string, number>();
+  let previousMonday: Date | null = null;
+
+  return sorted.map((block) => {
+    let monday = getMonday(new Date(block.startDate));
+    if (previousMonday && monday <= previousMonday) {
+      monday = new Date(previousMonday);
+      monday.setDate(monday.getDate() + 7);
+    }
+    while (calendar && getWorkingDaysInWeek(monday, calendar) === 0) {
+      monday = new Date(monday);
+      monday.setDate(monday.getDate() + 7);
+    }
+    previousMonday = monday;
+
+    const position = (counters.get(block.blockTypeId) ?? 0) + 1;
+    counters.set(block.blockTypeId, position);
+    return { ...block, startDate: monday.toISOString(), endDate: getFriday(monday).toISOString(), position };
+  });
+}
+
+/**
+ * Move blocks by whole weeks, the way a drag on the live timeline does: each block by its own
+ * delta (pushed blocks may move less), events in the dragged range by the same business days.
+ */
+export function moveScenarioBlocks(
+  timeline: ScenarioTimeline,
+  move: { weeksDelta: number; blockMoves: Map<string, number>; eventIds: string[] },
+  calendar?: BusinessCalendar | null
+): ScenarioTimeline {
+  const blocks = timeline.blocks.map((block) => {
+    const delta = move.blockMoves.get(block.id);
+    if (delta === undefined) return block;
+    const { newStartDate, newEndDate } = moveBlockDates(new Date(block.startDate), delta, calendar);
+    return { ...block, startDate: newStartDate.toISOString(), endDate: newEndDate.toISOString() };
+  });
+
+  const eventIds = new Set(move.eventIds);
+  const events = timeline.events.map((event) => {
+    if (!eventIds.has(event.id)) return event;
+    return {
+      ...event,
+      startDate: addBusinessDays(new Date(event.startDate), move.weeksDelta * 5).toISOString(),
+      endDate: addBusinessDays(new Date(event.endDate), move.weeksDelta * 5).toISOString(),
+    };
+  });
+
+  return { ...timeline, blocks: normalizeScenarioBlocks(blocks, calendar), events };
+}
+
+/** Null when the event is not part of the scenario. */
+export function updateScenarioEvent(
+  timeline: ScenarioTimeline,
+  eventId: string,
+  patch: Partial<Omit<ScenarioEvent, 'id'>>
+): ScenarioTimeline | null {
+  if (!timeline.events.some((event) => event.id === eventId)) return null;
+  return {
+    ...timeline,
+    events: timeline.events.map((event) => (event.id === eventId ? { ...event, ...patch } : event)),
+  };
+}
+
+/** Null when the event is not part of the scenario. */
+export function removeScenarioEvent(timeline: ScenarioTimeline, eventId: string): ScenarioTimeline | null {
+  if (!timeline.events.some((event) => event.id === eventId)) return null;
+  return { ...timeline, events: timeline.events.filter((event) => event.id !== eventId) };
+}
+
+/** Set weekly dedication like the live availability endpoint: 0 clears the week. */
+export function setScenarioAvailability(
+  timeline: ScenarioTimeline,
+  entries: { userId: string; weekStart: Date; dedication: number }[]
+): ScenarioTimeline {
+  const byKey = new Map(timeline.availability.map((entry) => [`${entry.userId}:${entry.weekStart}`, entry]));
+  for (const entry of entries) {
+    const weekStart = getMonday(entry.weekStart).toISOString();
+    const key = `${entry.userId}:${weekStart}`;
+    if (entry.dedication === 0) byKey.delete(key);
+    else byKey.set(key, { userId: entry.userId, weekStart, dedication: entry.dedication });
+  }
+  return { ...timeline, availability: [...byKey.values()] };
+}
+
+function sameEvent(a: ScenarioEvent, b: ScenarioEvent): boolean {
+  return a.title === b.title
+    && a.description === b.description
+    && a.eventTypeId === b.eventTypeId
+    && a.startDate === b.startDate
+    && a.endDate === b.endDate;
+}
+
+/** What changed going from one version of a board's timeline to another. */
+export function diffScenarioTimeline(from: ScenarioTimeline, to: ScenarioTimeline): ScenarioDiff {
+  const toBlocks = new Map(to.blocks.map((block) => [block.id, block]));
+  const fromBlockIds = new Set(from.blocks.map((block) => block.id));
+  const blocks: ScenarioBlockChange[] = [];
+  for (const block of from.blocks) {
+    const next = toBlocks.get(block.id);
+    const dates = { startDate: block.startDate, endDate: block.endDate };
+    if (!next) blocks.push({ id: block.id, kind: 'removed', from: dates, to: null });
+    else if (next.startDate !== block.startDate || next.endDate !== block.endDate) {
+      blocks.push({ id: block.id, kind: 'changed', from: dates, to: { startDate: next.startDate, endDate: next.endDate } });
+    }
+  }
+  for (const block of to.blocks) {
+    if (!fromBlockIds.has(block.id)) {
+      blocks.push({ id: block.id, kind: 'added', from: null, to: { startDate: block.startDate, endDate: block.endDate } });
+    }
+  }
+
+  const toEvents = new Map(to.events.map((event) => [event.id, event]));
+  const fromEventIds = new Set(from.events.map((event) => event.id));
+  const events: ScenarioEventChange[] = [];
+  for (const event of from.events) {
+    const next = toEvents.get(event.id);
+    if (!next) events.push({ id: event.id, kind: 'removed', title: event.title });
+    else if (!sameEvent(event, next)) events.push({ id: event.id, kind: 'changed', title: next.title });
+  }
+  for (const event of to.events) {
+    if (!fromEventIds.has(event.id)) events.push({ id: event.id, kind: 'added', title: event.title });
+  }
+
+  const key = (entry: ScenarioAvailability) => `${entry.userId}:${entry.weekStart}`;
+  const fromAvailability = new Map(from.availability.map((entry) => [key(entry), entry]));
+  const toAvailability = new Map(to.availability.map((entry) => [key(entry), entry]));
+  const availability: ScenarioAvailabilityChange[] = [];
+  for (const entryKey of new Set([...fromAvailability.keys(), ...toAvailability.keys()])) {
+    const before = fromAvailability.get(entryKey);
+    const after = toAvailability.get(entryKey);
+    const entry = (after ?? before)!;
+    if ((before?.dedication ?? 0) !== (after?.dedication ?? 0)) {
+      availability.push({ userId: entry.userId, weekStart: entry.weekStart, from: before?.dedication ?? 0, to: after?.dedication ?? 0 });
+    }
+  }
+  availability.sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.userId.localeCompare(b.userId));
+
+  return { blocks, events, availability };
+}
+
+export function isEmptyScenarioDiff(diff: ScenarioDiff): boolean {
+  return diff.blocks.length === 0 && diff.events.length === 0 && diff.availability.length === 0;
+}
+
+/**
+ * Live edits since the fork that touch a row the scenario also changes. Applying would
+ * overwrite them, so the apply route asks for confirmation first.
+ */
+export function scenarioConflicts(changes: ScenarioDiff, liveChanges: ScenarioDiff): ScenarioDiff {
+  const blockIds = new Set(changes.blocks.map((change) => change.id));
+  const eventIds = new Set(changes.events.map((change) => change.id));
+  const weeks = new Set(changes.availability.map((change) => `${change.userId}:${change.weekStart}`));
+  return {
+    blocks: liveChanges.blocks.filter((change) => blockIds.has(change.id)),
+    events: liveChanges.events.filter((change) => eventIds.has(change.id)),
+    availability: liveChanges.availability.filter((change) => weeks.has(`${change.userId}:${change.weekStart}`)),
+  };
+}
+
+export interface ScenarioApplyResult {
+  movedBlockIds: string[];
+  createdEventIds: string[];
+  updatedEventIds: string[];
+  deletedEvents: { id: string; title: string }[];
+  availabilityChanges: number;
+}
+
+/**
+ * Write what the scenario changed since it was forked onto the live board. Only rows the
+ * scenario touched are written, so live edits made meanwhile elsewhere survive; blocks or
+ * events deleted live in the meantime are skipped. Run inside a transaction.
+ */
+export async function applyScenarioBoard(
+  db: ScenarioDbClient,
+  boardId: string,
+  base: ScenarioTimeline,
+  draft: ScenarioTimeline
+): Promise<ScenarioApplyResult> {
+  const changes = diffScenarioTimeline(base, draft);
+  const draftBlocks = new Map(draft.blocks.map((block) => [block.id, block]));
+  const draftEvents = new Map(draft.events.map((event) => [event.id, event]));
+  const result: ScenarioApplyResult = {
+    movedBlockIds: [],
+    createdEventIds: [],
+    updatedEventIds: [],
+    deletedEvents: [],
+    availabilityChanges: 0,
+  };
+
+  for (const change of changes.blocks) {
+    const block = draftBlocks.get(change.id);
+    if (change.kind !== 'changed' || !block) continue;
+    const startDate = new Date(block.startDate);
+    const endDate = new Date(block.endDate);
+    const { count } = await db.timelineBlock.updateMany({
+      where: { id: block.id, boardId },
+      data: { startDate, endDate, position: block.position },
+    });
+    if (count === 0) continue;
+    if (block.listId) {
+      await db.list.updateMany({ where: { id: block.listId, boardId }, data: { startDate, endDate } });
+    }
+    result.movedBlockIds.push(block.id);
+  }
+
+  for (const change of changes.events) {
+    if (change.kind === 'removed') {
+      const { count } = await db.timelineEvent.deleteMany({ where: { id: change.id, boardId } });
+      if (count > 0) result.deletedEvents.push({ id: change.id, title: change.title });
+      continue;
+    }
+    const event = draftEvents.get(change.id)!;
+    const data = {
+      title: event.title,
+      description: event.description,
+      eventTypeId: event.eventTypeId,
+      startDate: new Date(event.startDate),
+      endDate: new Date(event.endDate),
+    };
+    if (change.kind === 'added') {
+      const created = await db.timelineEvent.create({ data: { ...data, boardId }, select: { id: true } });
+      result.createdEventIds.push(created.id);
+    } else {
+      const { count } = await db.timelineEvent.updateMany({ where: { id: event.id, boardId }, data });
+      if (count > 0) result.updatedEventIds.push(event.id);
+    }
+  }
+
+  for (const change of changes.availability) {
+    const where = { boardId, userId: change.userId, weekStart: new Date(change.weekStart) };
+    if (change.to === 0) {
+      await db.userWeeklyAvailability.deleteMany({ where });
+    } else {
+      await db.userWeeklyAvailability.upsert({
+        where: { boardId_userId_weekStart: where },
+        create: { ...where, dedication: change.to },
+        update: { dedication: change.to },
+      });
+    }
+    result.availabilityChanges++;
+  }
+
+  return result;
+}
@@ -0,0 +1,278 @@
+import type { ListViewType } from '@prisma/client';
+import type { ParseResult } from './automation-rules';
+import {
+  BOARD_ARCHIVE_FORMAT,
+  BOARD_ARCHIVE_VERSION,
+  type BoardArchive,
+  type BoardArchiveCard,
+  type BoardArchiveUser,
+} from './board-archive';
+
+/**
+ * Trello's "Export as JSON" board file, reduced to the fields the import reads. Trello exports
+ * rarely include member emails, so members are usually matched by full name.
+ */
+export interface TrelloBoard {
+  name: string;
+  desc?: string;
+  lists: { id: string; name: string; closed?: boolean; pos?: number }[];
+  cards: TrelloCard[];
+  labels?: { id: string; name?: string; color?: string | null }[];
+  members?: TrelloMember[];
+  checklists?: {
+    id: string;
+    idCard: string;
+    name: string;
+    pos?: number;
+    checkItems?: { name: string; state?: string; pos?: number }[];
+  }[];
+  actions?: {
+    type: string;
+    date: string;
+    idMemberCreator?: string;
+    memberCreator?: TrelloMember;
+    data?: { text?: string; card?: { id?: string } };
+  }[];
+}
+
+interface TrelloMember {
+  id: string;
+  fullName?: string;
+  username?: string;
+  email?: string | null;
+}
+
+interface TrelloCard {
+  id: string;
+  name: string;
+  desc?: string;
+  idList: string;
+  closed?: boolean;
+  pos?: number;
+  due?: string | null;
+  idLabels?: string[];
+  idMembers?: string[];
+  dateLastActivity?: string;
+  attachments?: {
+    id: string;
+    name?: string;
+    url: string;
+    mimeType?: string | null;
+    bytes?: number | null;
+    date?: string;
+    idMember?: string;
+  }[];
+}
+
+export interface TrelloImportOptions {
+  /** View type per Trello list ID; lists not named here become TASKS lists. */
+  listViewTypes?: Record<string, ListViewType>;
+}
+
+/** Trello's label palette; shades like `green_dark` use their base color. */
+export const TRELLO_LABEL_COLORS: Record<string, string> = {
+  green: '#61bd4f',
+  yellow: '#f2d600',
+  orange: '#ff9f1a',
+  red: '#eb5a46',
+  purple: '#c377e0',
+  blue: '#0079bf',
+  sky: '#00c2e0',
+  lime: '#51e898',
+  pink: '#ff78cb',
+  black: '#344563',
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function parseTrelloExport(input: unknown): ParseResult<TrelloBoard> {
+  if (!isRecord(input) || !Array.isArray(input.lists) || !Array.isArray(input.cards)) {
+    return { error: 'Not a Trello board export' };
+  }
+  if (typeof input.name !== 'string') {
+    return { error: 'Trello export has no board name' };
+  }
+  for (const list of input.lists) {
+    if (!isRecord(list) || typeof list.id !== 'string' || typeof list.name !== 'string') {
+      return { error: 'Trello export has an invalid list' };
+    }
+  }
+  for (const card of input.cards) {
+    if (!isRecord(card) || typeof card.id !== 'string' || typeof card.name !== 'string' || typeof card.idList !== 'string') {
+      return { error: 'Trello export has an invalid card' };
+    }
+  }
+  return { value: input as unknown as TrelloBoard };
+}
+
+/** Trello IDs are Mongo ObjectIds, which start with their creation time in seconds. */
+export function trelloIdDate(id: string): string | null {
+  const seconds = parseInt(id.slice(0, 8), 16);
+  return /^[0-9a-f]{24}$/i.test(id) && seconds > 0 ? new Date(seconds * 1000).toISOString() : null;
+}
+
+function labelColor(color: string | null | undefined): string | null {
+  if (!color) return null;
+  return TRELLO_LABEL_COLORS[color.split('_')[0]] ?? null;
+}
+
+function labelName(label: { name?: string; color?: string | null }): string {
+  const name = label.name?.trim();
+  if (name) return name;
+  const color = label.color?.split('_')[0] ?? 'label';
+  return color.charAt(0).toUpperCase() + color.slice(1);
+}
+
+const byPos = <T extends { pos?: number }>(a: T, b: T) => (a.pos ?? 0) - (b.pos ?? 0);
+
+/**
+ * Convert a Trello export into a board archive, so it goes through the same import as a Fallo
+ * export. Cards in PLANNING lists become user stories, the rest tasks. Closed lists are left
+ * out; closed cards come over archived.
+ */
+export function trelloToBoardArchive(
+  trello: TrelloBoard,
+  options: TrelloImportOptions = {},
+  exportedAt = new Date(),
+): { archive: BoardArchive; warnings: string[] } {
+  const warnings: string[] = [];
+  const viewTypes = options.listViewTypes ?? {};
+
+  const users = new Map<string, BoardArchiveUser>();
+  const seeMember = (member: TrelloMember) => {
+    if (!users.has(member.id)) {
+      users.set(member.id, {
+        id: member.id,
+        email: member.email ?? '',
+        name: member.fullName?.trim() || member.username || null,
+      });
+    }
+  };
+  (trello.members ?? []).forEach(seeMember);
+
+  const openLists = trello.lists.filter((list) => !list.closed).sort(byPos);
+  const closedLists = trello.lists.filter((list) => list.closed);
+  const openListIds = new Set(openLists.map((list) => list.id));
+  const skippedCards = trello.cards.filter((card) => !openListIds.has(card.idList)).length;
+  if (closedLists.length > 0) {
+    warnings.push(`Closed lists skipped: ${closedLists.map((list) => list.name).join(', ')} (${skippedCards} cards)`);
+  }
+
+  const labels = (trello.labels ?? []).map((label) => ({
+    id: label.id,
+    name: labelName(label),
+    color: labelColor(label.color),
+  }));
+  const labelIds = new Set(labels.map((label) => label.id));
+
+  const checklistsByCard = new Map<string, NonNullable<TrelloBoard['checklists']>>();
+  for (const checklist of trello.checklists ?? []) {
+    checklistsByCard.set(checklist.idCard, [...(checklistsByCard.get(checklist.idCard) ?? []), checklist]);
+  }
+
+  const commentsByCard = new Map<string, BoardArchiveCard['comments']>();
+  const comments = (trello.actions ?? [])
+    .filter((action) => action.type === 'commentCard' && action.data?.card?.id && action.data.text)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  for (const action of comments) {
+    const authorId = action.idMemberCreator ?? action.memberCreator?.id;
+    if (!authorId) continue;
+    // Former members only show up on their actions
+    seeMember(action.memberCreator ?? { id: authorId });
+    const cardId = action.data!.card!.id!;
+    commentsByCard.set(cardId, [
+      ...(commentsByCard.get(cardId) ?? []),
+      { authorId, content: action.data!.text!, type: 'standard', createdAt: action.date, attachmentId: null, mentions: [] },
+    ]);
+  }
+
+  const cards: BoardArchiveCard[] = [];
+  for (const list of openLists) {
+    const isPlanning = viewTypes[list.id] === 'PLANNING';
+    const listCards = trello.cards.filter((card) => card.idList === list.id).sort(byPos);
+
+    listCards.forEach((card, index) => {
+      const createdAt = trelloIdDate(card.id) ?? card.dateLastActivity ?? exportedAt.toISOString();
+      cards.push({
+        id: card.id,
+        listId: list.id,
+        parentId: null,
+        type: isPlanning ? 'USER_STORY' : 'TASK',
+        title: card.name,
+        description: card.desc?.trim() || null,
+        position: index,
+        color: null,
+        featureImage: null,
+        featureImagePosition: 50,
+        createdAt,
+        completedAt: null,
+        archivedAt: card.closed ? card.dateLastActivity ?? exportedAt.toISOString() : null,
+        taskData: isPlanning
+          ? null
+          : { storyPoints: null, deadline: card.due ? card.due.slice(0, 10) : null, linkedUserStoryId: null, linkedEpicId: null },
+        userStoryData: isPlanning ? { linkedEpicId: null, flags: [] } : null,
+        epicData: null,
+        utilityData: null,
+        assignees: (card.idMembers ?? [])
+          .filter((memberId) => users.has(memberId))
+          .map((userId) => ({ userId, assignedAt: createdAt, activatedAt: createdAt })),
+        tagIds: (card.idLabels ?? []).filter((labelId) => labelIds.has(labelId)),
+        checklists: (checklistsByCard.get(card.id) ?? []).sort(byPos).map((checklist, position) => ({
+          name: checklist.name,
+          type: 'todo',
+          position,
+          items: [...(checklist.checkItems ?? [])].sort(byPos).map((item, itemPosition) => ({
+            content: item.name,
+            isComplete: item.state === 'complete',
+            position: itemPosition,
+          })),
+        })),
+        attachments: (card.attachments ?? []).map((attachment) => ({
+          id: attachment.id,
+          name: attachment.name || attachment.url.split('/').pop() || 'Attachment',
+          url: attachment.url,
+          type: attachment.mimeType || 'application/octet-stream',
+          size: attachment.bytes ?? 0,
+          uploaderId: attachment.idMember && users.has(attachment.idMember) ? attachment.idMember : null,
+          createdAt: attachment.date ?? createdAt,
+        })),
+        comments: commentsByCard.get(card.id) ?? [],
+        reviewCycles: [],
+      });
+    });
+  }
+
+  return {
+    archive: {
+      format: BOARD_ARCHIVE_FORMAT,
+      version: BOARD_ARCHIVE_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      board: { name: trello.name, description: trello.desc?.trim() || null, isTemplate: false, settings: {} },
+      users: [...users.values()],
+      members: (trello.members ?? []).map((member) => ({ userId: member.id, permission: 'MEMBER' })),
+      tags: labels,
+      lists: openLists.map((list, position) => ({
+        id: list.id,
+        name: list.name,
+        position,
+        viewType: viewTypes[list.id] === 'PLANNING' ? 'PLANNING' : 'TASKS',
+        phase: null,
+        color: null,
+        startDate: null,
+        endDate: null,
+        durationWeeks: null,
+        durationDays: null,
+        wipLimit: null,
+        wipLimitPerAssignee: null,
+      })),
+      cards,
+      timelineBlocks: [],
+      timelineEvents: [],
+      availability: [],
+      spineTracker: null,
+    },
+    warnings,
+  };
+}
@@ -0,0 +1,166 @@
+/** Steps kept per board; older ones fall off the bottom. */
+const DEFAULT_UNDO_LIMIT = 50;
+
+/** Commands sharing a merge key this close together become one step (e.g. autosaved edits). */
+export const UNDO_MERGE_WINDOW_MS = 10_000;
+
+/**
+ * A change the user made, with the server calls that reverse and replay it. Both run
+ * against the server's current state, so side effects of the original (review cycles,
+ * timers, automations) are undone by the same endpoints that caused them.
+ */
+export interface UndoCommand {
+  /** Shown in toasts, e.g. `Moved "Rig dragon" to Done`. */
+  label: string;
+  undo: () => Promise<void>;
+  redo: () => Promise<void>;
+  mergeKey?: string;
+}
+
+export interface UndoHistorySnapshot {
+  undoLabel: string | null;
+  redoLabel: string | null;
+  /** An undo or redo is in flight; further requests are ignored until it settles. */
+  busy: boolean;
+}
+
+interface UndoEntry extends UndoCommand {
+  at: number;
+}
+
+/**
+ * A session's undo and redo stacks. A command whose undo or redo fails is dropped, since
+ * the server no longer matches what it expects, and the error is rethrown to the caller.
+ *
+ * Undoing a delete can recreate a record under a new id; `alias` records that so older
+ * commands still find it through `resolve`.
+ */
+export class UndoHistory {
+  private past: UndoEntry[] = [];
+  private future: UndoEntry[] = [];
+  private busy = false;
+  private aliases = new Map<string, string>();
+  private listeners = new Set<() => void>();
+  private snapshot: UndoHistorySnapshot = { undoLabel: null, redoLabel: null, busy: false };
+
+  constructor(
+    private readonly limit = DEFAULT_UNDO_LIMIT,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  push(command: UndoCommand): void {
+    const at = this.now();
+    const top = this.past[this.past.length - 1];
+    if (
+      command.mergeKey
+      && top?.mergeKey === command.mergeKey
+      && this.future.length === 0
+      && at - top.at <= UNDO_MERGE_WINDOW_MS
+    ) {
+      // Keep the oldest undo so one step goes back to before the whole burst
+      this.past[this.past.length - 1] = { ...command, undo: top.undo, at };
+    } else {
+      this.past.push({ ...command, at });
+      if (this.past.length > this.limit) this.past.shift();
+    }
+    this.future = [];
+    this.emit();
+  }
+
+  undo(): Promise<UndoCommand | null> {
+    return this.step(this.past, this.future, 'undo');
+  }
+
+  redo(): Promise<UndoCommand | null> {
+    return this.step(this.future, this.past, 'redo');
+  }
+
+  alias(oldId: string, newId: string): void {
+    if (oldId !== newId) this.aliases.set(oldId, newId);
+  }
+
+  resolve(id: string): string {
+    let current = id;
+    const seen = new Set<string>();
+    while (this.aliases.has(current) && !seen.has(current)) {
+      seen.add(current);
+      current = this.aliases.get(current)!;
+    }
+    return current;
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+    this.aliases.clear();
+    this.emit();
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = (): UndoHistorySnapshot => this.snapshot;
+
+  private async step(
+    from: UndoEntry[],
+    to: UndoEntry[],
+    direction: 'undo' | 'redo'
+  ): Promise<UndoCommand | null> {
+    if (this.busy) return null;
+    const entry = from.pop();
+    if (!entry) return null;
+
+    this.busy = true;
+    this.emit();
+    try {
+      await entry[direction]();
+      to.push(entry);
+      return entry;
+    } finally {
+      this.busy = false;
+      this.emit();
+    }
+  }
+
+  private emit(): void {
+    this.snapshot = {
+      undoLabel: this.past[this.past.length - 1]?.label ?? null,
+      redoLabel: this.future[this.future.length - 1]?.label ?? null,
+      busy: this.busy,
+    };
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+const histories = new Map<string, UndoHistory>();
+
+/** The history for a board, shared by every view for the rest of the page session. */
+export function getUndoHistory(boardId: string): UndoHistory {
+  let history = histories.get(boardId);
+  if (!history) {
+    history = new UndoHistory();
+    histories.set(boardId, history);
+  }
+  return history;
+}
+
+export type UndoShortcut = 'undo' | 'redo';
+
+/** Ctrl/Cmd+Z undoes; Ctrl/Cmd+Shift+Z and Ctrl+Y redo. */
+export function undoShortcutFor(event: {
+  key: string;
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+}): UndoShortcut | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null;
+  const key = event.key.toLowerCase();
+  if (key === 'z') return event.shiftKey ? 'redo' : 'undo';
+  if (key === 'y' && event.ctrlKey && !event.shiftKey) return 'redo';
+  return null;
+}
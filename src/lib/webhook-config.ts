@@ -0,0 +1,138 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import type { WebhookEventType, WebhookPayload } from '@/types';
+import type { ParseResult } from './automation-rules';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'card.created',
+  'card.updated',
+  'card.moved',
+  'card.completed',
+  'card.deleted',
+  'board.updated',
+  'member.added',
+  'timeline.event.created',
+  'timeline.event.updated',
+  'timeline.event.deleted',
+];
+
+export const MAX_WEBHOOK_NAME_LENGTH = 100;
+export const MAX_WEBHOOK_URL_LENGTH = 2000;
+export const MAX_WEBHOOK_RESPONSE_BODY_LENGTH = 1000;
+
+/** Wait before attempt 2, 3, ... A delivery is abandoned once these run out. */
+export const WEBHOOK_RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  6 * 60 * 60 * 1000,
+];
+export const MAX_WEBHOOK_ATTEMPTS = WEBHOOK_RETRY_DELAYS_MS.length + 1;
+
+export const WEBHOOK_HEADERS = {
+  event: 'X-Webhook-Event',
+  delivery: 'X-Webhook-Delivery',
+  timestamp: 'X-Webhook-Timestamp',
+  signature: 'X-Webhook-Signature',
+} as const;
+
+function nonEmptyString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+export function parseWebhookName(value: unknown): ParseResult<string> {
+  const name = nonEmptyString(value);
+  if (!name) return { error: 'Webhook name is required' };
+  if (name.length > MAX_WEBHOOK_NAME_LENGTH) {
+    return { error: `Webhook name cannot exceed ${MAX_WEBHOOK_NAME_LENGTH} characters` };
+  }
+  return { value: name };
+}
+
+export function parseWebhookUrl(value: unknown): ParseResult<string> {
+  const raw = nonEmptyString(value);
+  if (!raw) return { error: 'Webhook URL is required' };
+  if (raw.length > MAX_WEBHOOK_URL_LENGTH) {
+    return { error: `Webhook URL cannot exceed ${MAX_WEBHOOK_URL_LENGTH} characters` };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return { error: 'Webhook URL is not a valid URL' };
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return { error: 'Webhook URL must use http or https' };
+  }
+  if (url.username || url.password) {
+    return { error: 'Webhook URL cannot contain credentials; verify requests with the signing secret instead' };
+  }
+  return { value: url.toString() };
+}
+
+export function parseWebhookEvents(value: unknown): ParseResult<WebhookEventType[]> {
+  if (!Array.isArray(value) || value.length === 0) {
+    return { error: 'Select at least one event' };
+  }
+  const invalid = value.find((event) => !WEBHOOK_EVENT_TYPES.includes(event as WebhookEventType));
+  if (invalid !== undefined) {
+    return { error: `Events must be any of: ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+  }
+  // Keep the canonical order so stored subscriptions compare equal
+  return { value: WEBHOOK_EVENT_TYPES.filter((event) => value.includes(event)) };
+}
+
+/** Read stored subscriptions, dropping event types that no longer exist. */
+export function readWebhookEvents(value: unknown): WebhookEventType[] {
+  if (!Array.isArray(value)) return [];
+  return WEBHOOK_EVENT_TYPES.filter((event) => value.includes(event));
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature sent in X-Webhook-Signature: HMAC-SHA256 over `${timestamp}.${body}`.
+ * Including the timestamp lets receivers reject replayed requests.
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+export function webhookMatchesEvent(
+  webhook: { enabled: boolean; boardId: string | null; events: unknown },
+  event: WebhookEventType,
+  boardId: string | null
+): boolean {
+  if (!webhook.enabled) return false;
+  if (webhook.boardId !== null && webhook.boardId !== boardId) return false;
+  return readWebhookEvents(webhook.events).includes(event);
+}
+
+export function buildWebhookPayload(
+  event: WebhookPayload['event'],
+  boardId: string | null,
+  data: Record<string, unknown>,
+  now: Date = new Date()
+): WebhookPayload {
+  return { event, timestamp: now.toISOString(), boardId, data };
+}
+
+/** 408, 429 and server errors are worth retrying; other client errors will not fix themselves. */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** When to try again after `attempts` failed attempts, or null when the delivery should be abandoned. */
+export function getNextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  const delay = WEBHOOK_RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+export function truncateResponseBody(body: string): string {
+  return body.length > MAX_WEBHOOK_RESPONSE_BODY_LENGTH
+    ? `${body.slice(0, MAX_WEBHOOK_RESPONSE_BODY_LENGTH)}…`
+    : body;
+}
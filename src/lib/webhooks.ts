@@ -0,0 +1,474 @@
+import type { Prisma } from '@prisma/client';
+import { isServerlessRuntime, prisma } from '@/lib/prisma';
+import { isDoneList, type TransitionListContext } from '@/lib/quality-review';
+import {
+  buildWebhookPayload,
+  getNextAttemptAt,
+  isRetryableStatus,
+  readWebhookEvents,
+  signWebhookPayload,
+  truncateResponseBody,
+  webhookMatchesEvent,
+  WEBHOOK_HEADERS,
+} from '@/lib/webhook-config';
+import type {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookPayload,
+} from '@/types';
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+/** How long a claimed delivery is hidden from other sweeps while it is being sent. */
+const DELIVERY_LEASE_MS = 2 * 60 * 1000;
+/** Due retries picked up alongside each new event, in case the cron is delayed. */
+const LAZY_RETRY_BATCH_SIZE = 5;
+
+export interface EmitWebhookParams {
+  boardId: string | null;
+  actorId?: string | null;
+  data: Record<string, unknown>;
+}
+
+export interface QueuedWebhookEvent {
+  event: WebhookEventType;
+  data: Record<string, unknown>;
+}
+
+/** Enabled webhooks that may receive events for this board: its own and global ones. */
+function findCandidateWebhooks(boardId: string | null) {
+  return prisma.webhook.findMany({
+    where: {
+      enabled: true,
+      OR: boardId ? [{ boardId: null }, { boardId }] : [{ boardId: null }],
+    },
+    select: { id: true, enabled: true, boardId: true, events: true },
+  });
+}
+
+function loadPayloadContext(boardId: string | null, actorId: string | null | undefined) {
+  return Promise.all([
+    boardId
+      ? prisma.board.findUnique({ where: { id: boardId }, select: { id: true, name: true } })
+      : null,
+    actorId
+      ? prisma.user.findUnique({ where: { id: actorId }, select: { id: true, name: true } })
+      : null,
+  ]);
+}
+
+/**
+ * Queue `event` for every enabled webhook subscribed to it (board-scoped and global)
+ * and make the first delivery attempt. Never throws: webhooks must not break the
+ * request that triggered them.
+ */
+export async function emitWebhookEvent(event: WebhookEventType, params: EmitWebhookParams): Promise<void> {
+  try {
+    const candidates = await findCandidateWebhooks(params.boardId);
+    const webhooks = candidates.filter((webhook) => webhookMatchesEvent(webhook, event, params.boardId));
+    if (webhooks.length === 0) return;
+
+    const [board, actor] = await loadPayloadContext(params.boardId, params.actorId);
+
+    const now = new Date();
+    const payload = buildWebhookPayload(event, params.boardId, {
+      ...(board && { board }),
+      ...(actor && { actor }),
+      ...params.data,
+    }, now);
+
+    // Lease the new rows so a concurrent sweep leaves them to the attempt below.
+    const leaseUntil = new Date(now.getTime() + DELIVERY_LEASE_MS);
+    const deliveries = await prisma.$transaction(
+      webhooks.map((webhook) =>
+        prisma.webhookDelivery.create({
+          data: {
+            webhookId: webhook.id,
+            event,
+            payload: payload as unknown as Prisma.InputJsonValue,
+            nextAttemptAt: leaseUntil,
+          },
+          select: { id: true },
+        })
+      )
+    );
+
+    await dispatchDeliveries(deliveries.map((delivery) => delivery.id));
+  } catch (error) {
+    console.error(`Failed to queue webhook event ${event}:`, error);
+  }
+}
+
+/**
+ * Queue many events at once (imports, bulk edits) with a single webhook lookup and insert.
+ * Nothing is sent inline, so a large batch cannot hold up the response: the deliveries are
+ * due immediately and go out with the next sweep, right away in the background on
+ * long-lived servers. Never throws.
+ */
+export async function queueWebhookEvents(params: {
+  boardId: string | null;
+  actorId?: string | null;
+  events: QueuedWebhookEvent[];
+}): Promise<void> {
+  if (params.events.length === 0) return;
+  try {
+    const candidates = await findCandidateWebhooks(params.boardId);
+    if (candidates.length === 0) return;
+
+    const [board, actor] = await loadPayloadContext(params.boardId, params.actorId);
+    const now = new Date();
+    const rows: Prisma.WebhookDeliveryCreateManyInput[] = [];
+    for (const { event, data } of params.events) {
+      const webhooks = candidates.filter((webhook) => webhookMatchesEvent(webhook, event, params.boardId));
+      if (webhooks.length === 0) continue;
+      const payload = buildWebhookPayload(event, params.boardId, {
+        ...(board && { board }),
+        ...(actor && { actor }),
+        ...data,
+      }, now);
+      for (const webhook of webhooks) {
+        rows.push({
+          webhookId: webhook.id,
+          event,
+          payload: payload as unknown as Prisma.InputJsonValue,
+          nextAttemptAt: now,
+        });
+      }
+    }
+    if (rows.length === 0) return;
+
+    await prisma.webhookDelivery.createMany({ data: rows });
+
+    if (!isServerlessRuntime()) {
+      void processDueWebhookDeliveries({ limit: rows.length + LAZY_RETRY_BATCH_SIZE }).catch((error) => {
+        console.error('Failed to dispatch webhook deliveries:', error);
+      });
+    }
+  } catch (error) {
+    console.error('Failed to queue webhook events:', error);
+  }
+}
+
+/**
+ * Send new deliveries, then sweep a few due retries. Serverless runtimes may drop
+ * work after the response, so there we wait; long-lived servers send in the background.
+ */
+async function dispatchDeliveries(deliveryIds: string[]): Promise<void> {
+  const work = (async () => {
+    await Promise.all(deliveryIds.map((id) => attemptDelivery(id)));
+    await processDueWebhookDeliveries({ limit: LAZY_RETRY_BATCH_SIZE });
+  })().catch((error) => {
+    console.error('Failed to dispatch webhook deliveries:', error);
+  });
+
+  if (isServerlessRuntime()) {
+    await work;
+  }
+}
+
+/** The card summary sent in card.* payloads. */
+export function toWebhookCard(card: {
+  id: string;
+  title: string;
+  type: string;
+  list: { id: string; name: string };
+}) {
+  return { id: card.id, title: card.title, type: card.type, list: { id: card.list.id, name: card.list.name } };
+}
+
+/** The timeline event summary sent in timeline.event.* payloads. */
+export function toWebhookTimelineEvent(event: {
+  id: string;
+  title: string;
+  description: string | null;
+  startDate: Date;
+  endDate: Date;
+  eventType: { id: string; name: string };
+}) {
+  return {
+    id: event.id,
+    title: event.title,
+    description: event.description,
+    startDate: event.startDate.toISOString(),
+    endDate: event.endDate.toISOString(),
+    eventType: { id: event.eventType.id, name: event.eventType.name },
+  };
+}
+
+interface CardMoveWebhookParams {
+  boardId: string;
+  actorId: string | null;
+  card: { id: string; title: string; type?: string };
+  fromList: TransitionListContext;
+  toList: TransitionListContext;
+  automatic?: boolean;
+}
+
+/** card.moved, plus card.completed when the card has just reached a Done list. */
+export function cardMovedWebhookEvents({
+  card,
+  fromList,
+  toList,
+  automatic,
+}: Omit<CardMoveWebhookParams, 'boardId' | 'actorId'>): QueuedWebhookEvent[] {
+  const data = {
+    card,
+    fromList: { id: fromList.id, name: fromList.name },
+    toList: { id: toList.id, name: toList.name },
+    ...(automatic && { automatic: true }),
+  };
+
+  return isDoneList(toList) && !isDoneList(fromList)
+    ? [{ event: 'card.moved', data }, { event: 'card.completed', data }]
+    : [{ event: 'card.moved', data }];
+}
+
+/** Emit card.moved, plus card.completed when the card has just reached a Done list. */
+export async function emitCardMovedWebhooks({ boardId, actorId, ...move }: CardMoveWebhookParams): Promise<void> {
+  for (const { event, data } of cardMovedWebhookEvents(move)) {
+    await emitWebhookEvent(event, { boardId, actorId, data });
+  }
+}
+
+interface AttemptOptions {
+  /** Schedule another attempt on a retryable failure. Manual sends report their single result. */
+  retry?: boolean;
+  now?: Date;
+}
+
+async function attemptDelivery(
+  deliveryId: string,
+  { retry = true, now = new Date() }: AttemptOptions = {}
+): Promise<WebhookDeliveryRecord | null> {
+  const delivery = await prisma.webhookDelivery.findUnique({
+    where: { id: deliveryId },
+    include: { webhook: { select: { url: true, secret: true, enabled: true } } },
+  });
+  if (!delivery) return null;
+
+  const attempts = delivery.attempts + 1;
+
+  if (!delivery.webhook.enabled && delivery.event !== 'webhook.test') {
+    return prisma.webhookDelivery.update({
+      where: { id: deliveryId },
+      data: { status: 'failed', error: 'Webhook is disabled', nextAttemptAt: null },
+    });
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = String(Math.floor(now.getTime() / 1000));
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Fallo-Webhooks/1.0',
+        [WEBHOOK_HEADERS.event]: delivery.event,
+        [WEBHOOK_HEADERS.delivery]: delivery.id,
+        [WEBHOOK_HEADERS.timestamp]: timestamp,
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(delivery.webhook.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = truncateResponseBody(await response.text().catch(() => ''));
+    if (!response.ok) {
+      error = `Endpoint responded with HTTP ${response.status}`;
+    }
+  } catch (err) {
+    error = err instanceof Error && err.name === 'TimeoutError'
+      ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+      : err instanceof Error ? err.message : 'Request failed';
+  }
+
+  const succeeded = error === null;
+  const retryable = !succeeded && (responseStatus === null || isRetryableStatus(responseStatus));
+  const nextAttemptAt = retry && retryable ? getNextAttemptAt(attempts, now) : null;
+  const status: WebhookDeliveryStatus = succeeded ? 'success' : nextAttemptAt ? 'pending' : 'failed';
+
+  return prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status,
+      attempts,
+      responseStatus,
+      responseBody,
+      error,
+      nextAttemptAt,
+      lastAttemptAt: now,
+    },
+  });
+}
+
+/**
+ * Retry pending deliveries whose backoff has elapsed. Each row is claimed before it
+ * is sent so overlapping cron runs and lazy sweeps never double-send.
+ */
+export async function processDueWebhookDeliveries({
+  now = new Date(),
+  limit = 50,
+}: { now?: Date; limit?: number } = {}): Promise<{
+  processed: number;
+  succeeded: number;
+  rescheduled: number;
+  failed: number;
+}> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+    select: { id: true, nextAttemptAt: true },
+  });
+
+  const summary = { processed: 0, succeeded: 0, rescheduled: 0, failed: 0 };
+  for (const row of due) {
+    const { count } = await prisma.webhookDelivery.updateMany({
+      where: { id: row.id, status: 'pending', nextAttemptAt: row.nextAttemptAt },
+      data: { nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS) },
+    });
+    if (count === 0) continue;
+
+    const result = await attemptDelivery(row.id, { now });
+    if (!result) continue;
+    summary.processed += 1;
+    if (result.status === 'success') summary.succeeded += 1;
+    else if (result.status === 'pending') summary.rescheduled += 1;
+    else summary.failed += 1;
+  }
+
+  return summary;
+}
+
+/** Send a `webhook.test` ping once, synchronously, and return the logged delivery. */
+export async function sendTestWebhook(
+  webhook: { id: string; name: string },
+  actor: { id: string; name: string | null }
+): Promise<WebhookDeliveryRecord | null> {
+  const payload = buildWebhookPayload('webhook.test', null, {
+    webhook: { id: webhook.id, name: webhook.name },
+    actor,
+    message: 'Test delivery from Fallo',
+  });
+
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: webhook.id,
+      event: 'webhook.test',
+      payload: payload as unknown as Prisma.InputJsonValue,
+    },
+    select: { id: true },
+  });
+
+  return attemptDelivery(delivery.id, { retry: false });
+}
+
+/**
+ * Send a logged payload again as a new delivery, so the original attempt history stays intact.
+ * The payload is replayed unchanged, including its original timestamp.
+ */
+export async function replayWebhookDelivery(delivery: {
+  webhookId: string;
+  event: string;
+  payload: Prisma.JsonValue;
+}): Promise<WebhookDeliveryRecord | null> {
+  const replay = await prisma.webhookDelivery.create({
+    data: {
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonValue,
+    },
+    select: { id: true },
+  });
+
+  return attemptDelivery(replay.id, { retry: false });
+}
+
+type WebhookDeliveryRecord = {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: Prisma.JsonValue;
+  status: string;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  createdAt: Date;
+};
+
+export function toWebhookDelivery(delivery: WebhookDeliveryRecord): WebhookDelivery {
+  return {
+    id: delivery.id,
+    webhookId: delivery.webhookId,
+    event: delivery.event as WebhookDelivery['event'],
+    payload: delivery.payload as unknown as WebhookPayload,
+    status: delivery.status as WebhookDeliveryStatus,
+    attempts: delivery.attempts,
+    responseStatus: delivery.responseStatus,
+    responseBody: delivery.responseBody,
+    error: delivery.error,
+    nextAttemptAt: delivery.status === 'pending' ? delivery.nextAttemptAt?.toISOString() ?? null : null,
+    lastAttemptAt: delivery.lastAttemptAt?.toISOString() ?? null,
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+type WebhookRecord = {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: Prisma.JsonValue;
+  enabled: boolean;
+  boardId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  board?: { id: string; name: string } | null;
+  createdBy?: { id: string; name: string | null } | null;
+  deliveries?: { status: string; responseStatus: number | null; createdAt: Date }[];
+};
+
+export function toWebhook(webhook: WebhookRecord): Webhook {
+  const last = webhook.deliveries?.[0];
+  return {
+    id: webhook.id,
+    name: webhook.name,
+    url: webhook.url,
+    secret: webhook.secret,
+    events: readWebhookEvents(webhook.events),
+    enabled: webhook.enabled,
+    boardId: webhook.boardId,
+    board: webhook.board ?? null,
+    createdAt: webhook.createdAt.toISOString(),
+    updatedAt: webhook.updatedAt.toISOString(),
+    createdBy: webhook.createdBy ?? null,
+    lastDelivery: last
+      ? {
+          status: last.status as WebhookDeliveryStatus,
+          responseStatus: last.responseStatus,
+          createdAt: last.createdAt.toISOString(),
+        }
+      : null,
+  };
+}
+
+/** Relations the webhook routes include so `toWebhook` has everything it reads. */
+export const WEBHOOK_INCLUDE = {
+  board: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+  deliveries: {
+    orderBy: { createdAt: 'desc' },
+    take: 1,
+    select: { status: true, responseStatus: true, createdAt: true },
+  },
+} satisfies Prisma.WebhookInclude;
@@ -0,0 +1,237 @@
+import { prisma } from '@/lib/prisma';
+import type { Prisma } from '@prisma/client';
+import { getStoryPointsFromTaskData } from '@/lib/quality-metrics';
+import { isDoneList } from '@/lib/quality-review';
+import { addDays, toWeekStartDate } from '@/lib/rewards/snapshot-builder';
+
+// Guard against accidental multi-decade backfills from a bad start date.
+const MAX_BACKFILL_WEEKS = 260;
+
+export interface WeeklyProgressTaskInput {
+  storyPoints: number;
+  createdAt: Date;
+  archivedAt: Date | null;
+  /** Best-known completion time, or null when the task is not done. */
+  completedAt: Date | null;
+}
+
+export interface WeeklyProgressTotals {
+  totalStoryPoints: number;
+  completedPoints: number;
+  tasksCompleted: number;
+  tasksTotal: number;
+}
+
+export interface BuildWeeklyProgressOptions {
+  boardIds?: string[];
+  weekStartDate?: Date;
+  now?: Date;
+}
+
+export interface BuildWeeklyProgressResult {
+  weekStartDate: Date;
+  boardsProcessed: number;
+  rowsUpserted: number;
+}
+
+export interface BackfillWeeklyProgressOptions {
+  boardIds?: string[];
+  startWeekDate?: Date;
+  endWeekDate?: Date;
+  now?: Date;
+}
+
+export interface BackfillWeeklyProgressResult {
+  boardsProcessed: number;
+  rowsUpserted: number;
+  boards: Array<{
+    boardId: string;
+    startWeekDate: string;
+    endWeekDate: string;
+    weeks: number;
+  }>;
+}
+
+/**
+ * Cumulative burn-up totals as of a point in time.
+ * A task is in scope once created and until archived; it counts as completed
+ * from its completion time onwards.
+ */
+export function computeWeeklyProgressTotals(
+  tasks: WeeklyProgressTaskInput[],
+  asOf: Date
+): WeeklyProgressTotals {
+  const asOfTime = asOf.getTime();
+  const totals: WeeklyProgressTotals = {
+    totalStoryPoints: 0,
+    completedPoints: 0,
+    tasksCompleted: 0,
+    tasksTotal: 0,
+  };
+
+  for (const task of tasks) {
+    if (task.createdAt.getTime() > asOfTime) continue;
+    if (task.archivedAt && task.archivedAt.getTime() <= asOfTime) continue;
+
+    totals.tasksTotal += 1;
+    totals.totalStoryPoints += task.storyPoints;
+
+    if (task.completedAt && task.completedAt.getTime() <= asOfTime) {
+      totals.tasksCompleted += 1;
+      totals.completedPoints += task.storyPoints;
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Resolve when a task was completed. `Card.completedAt` is authoritative; older
+ * cards that reached Done before it was tracked fall back to the end of their
+ * last time log, then to their last update.
+ */
+export function resolveTaskCompletionDate(task: {
+  completedAt: Date | null;
+  updatedAt: Date;
+  isInDoneList: boolean;
+  lastTimeLogEndedAt: Date | null;
+}): Date | null {
+  if (task.completedAt) return task.completedAt;
+  if (!task.isInDoneList) return null;
+  return task.lastTimeLogEndedAt ?? task.updatedAt;
+}
+
+async function loadBoardTasks(boardId: string): Promise<WeeklyProgressTaskInput[]> {
+  const cards = await prisma.card.findMany({
+    where: {
+      type: 'TASK',
+      list: { boardId },
+    },
+    select: {
+      taskData: true,
+      createdAt: true,
+      updatedAt: true,
+      archivedAt: true,
+      completedAt: true,
+      list: {
+        select: { id: true, name: true, phase: true, viewType: true },
+      },
+      timeLogs: {
+        where: { endTime: { not: null } },
+        orderBy: { endTime: 'desc' },
+        take: 1,
+        select: { endTime: true },
+      },
+    },
+  });
+
+  return cards.map((card) => ({
+    storyPoints: getStoryPointsFromTaskData(card.taskData as Prisma.JsonValue),
+    createdAt: card.createdAt,
+    archivedAt: card.archivedAt,
+    completedAt: resolveTaskCompletionDate({
+      completedAt: card.completedAt,
+      updatedAt: card.updatedAt,
+      isInDoneList: isDoneList(card.list),
+      lastTimeLogEndedAt: card.timeLogs[0]?.endTime ?? null,
+    }),
+  }));
+}
+
+function resolveAsOf(weekStartDate: Date, now: Date): Date {
+  const weekEnd = new Date(addDays(weekStartDate, 7).getTime() - 1);
+  return weekEnd.getTime() < now.getTime() ? weekEnd : now;
+}
+
+async function findTargetBoards(boardIds: string[] | undefined, includeArchived: boolean) {
+  return prisma.board.findMany({
+    where: {
+      isTemplate: false,
+      ...(boardIds?.length ? { id: { in: boardIds } } : {}),
+      ...(!includeArchived && !boardIds?.length ? { archivedAt: null } : {}),
+    },
+    select: { id: true, createdAt: true },
+  });
+}
+
+function upsertWeek(boardId: string, weekStartDate: Date, totals: WeeklyProgressTotals) {
+  return prisma.weeklyProgress.upsert({
+    where: { boardId_weekStartDate: { boardId, weekStartDate } },
+    create: { boardId, weekStartDate, ...totals },
+    update: totals,
+  });
+}
+
+/**
+ * Upsert one WeeklyProgress row per active, non-template board for the given
+ * week (default: the current week, measured as of now).
+ */
+export async function buildWeeklyProgress(
+  options: BuildWeeklyProgressOptions = {}
+): Promise<BuildWeeklyProgressResult> {
+  const now = options.now ?? new Date();
+  const weekStartDate = toWeekStartDate(options.weekStartDate ?? now);
+  const asOf = resolveAsOf(weekStartDate, now);
+
+  const boards = await findTargetBoards(options.boardIds, false);
+
+  let rowsUpserted = 0;
+  for (const board of boards) {
+    const tasks = await loadBoardTasks(board.id);
+    await upsertWeek(board.id, weekStartDate, computeWeeklyProgressTotals(tasks, asOf));
+    rowsUpserted += 1;
+  }
+
+  return { weekStartDate, boardsProcessed: boards.length, rowsUpserted };
+}
+
+/**
+ * Reconstruct past weeks from task creation, archive and completion times.
+ * Each board starts at its own creation week unless a start week is given.
+ */
+export async function backfillWeeklyProgress(
+  options: BackfillWeeklyProgressOptions = {}
+): Promise<BackfillWeeklyProgressResult> {
+  const now = options.now ?? new Date();
+  const endWeekDate = toWeekStartDate(options.endWeekDate ?? now);
+
+  const boards = await findTargetBoards(options.boardIds, true);
+  const result: BackfillWeeklyProgressResult = { boardsProcessed: 0, rowsUpserted: 0, boards: [] };
+
+  for (const board of boards) {
+    const tasks = await loadBoardTasks(board.id);
+    const earliestTask = tasks.reduce<Date | null>(
+      (earliest, task) => (!earliest || task.createdAt < earliest ? task.createdAt : earliest),
+      null
+    );
+    const boardStart = earliestTask && earliestTask < board.createdAt ? earliestTask : board.createdAt;
+
+    let startWeekDate = toWeekStartDate(options.startWeekDate ?? boardStart);
+    const minimumStart = addDays(endWeekDate, -7 * (MAX_BACKFILL_WEEKS - 1));
+    if (startWeekDate < minimumStart) startWeekDate = minimumStart;
+    if (startWeekDate > endWeekDate) continue;
+
+    const upserts = [];
+    for (
+      let weekStartDate = new Date(startWeekDate);
+      weekStartDate.getTime() <= endWeekDate.getTime();
+      weekStartDate = addDays(weekStartDate, 7)
+    ) {
+      const totals = computeWeeklyProgressTotals(tasks, resolveAsOf(weekStartDate, now));
+      upserts.push(upsertWeek(board.id, weekStartDate, totals));
+    }
+
+    await prisma.$transaction(upserts);
+
+    result.boardsProcessed += 1;
+    result.rowsUpserted += upserts.length;
+    result.boards.push({
+      boardId: board.id,
+      startWeekDate: startWeekDate.toISOString(),
+      endWeekDate: endWeekDate.toISOString(),
+      weeks: upserts.length,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,150 @@
+import { prisma } from '@/lib/prisma';
+import type { BoardSettings, EnforcementMode } from '@/types';
+
+export interface WipLimitViolation {
+  kind: 'list' | 'assignee';
+  limit: number;
+  /** Open cards after the change. */
+  count: number;
+  userId?: string;
+  userName?: string | null;
+}
+
+export interface WipLimitCheck {
+  listName: string;
+  violations: WipLimitViolation[];
+}
+
+export interface CheckWipLimitsParams {
+  listId: string;
+  /** Card being moved in; excluded from the current counts. */
+  cardId?: string;
+  /** Several cards moved in at once (bulk moves); used instead of `cardId`. */
+  cardIds?: string[];
+  /** Cards created in the list that have no ID yet (imports); counted on top of the moved ones. */
+  newCards?: number;
+  /** Assignees the incoming cards bring along, once per card they are assigned to. */
+  assigneeIds?: string[];
+}
+
+export function getWipLimitEnforcement(settings: unknown): EnforcementMode {
+  const mode = (settings as BoardSettings | null)?.wipLimitEnforcement;
+  return mode === 'block' ? 'block' : 'warn';
+}
+
+/** Parse a WIP limit from a request body. Empty/0 clears the limit; undefined means invalid. */
+export function parseWipLimit(value: unknown): number | null | undefined {
+  if (value === null || value === '') return null;
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  if (typeof parsed !== 'number' || !Number.isInteger(parsed) || parsed < 0) return undefined;
+  return parsed === 0 ? null : parsed;
+}
+
+/**
+ * Compare post-change counts against a list's limits. A limit is exceeded once
+ * the count goes above it; reaching the limit exactly is fine.
+ */
+export function evaluateWipLimits(params: {
+  wipLimit: number | null;
+  wipLimitPerAssignee: number | null;
+  listCount: number;
+  assigneeCounts: Array<{ userId: string; userName?: string | null; count: number }>;
+}): WipLimitViolation[] {
+  const violations: WipLimitViolation[] = [];
+
+  if (params.wipLimit && params.listCount > params.wipLimit) {
+    violations.push({ kind: 'list', limit: params.wipLimit, count: params.listCount });
+  }
+
+  if (params.wipLimitPerAssignee) {
+    for (const assignee of params.assigneeCounts) {
+      if (assignee.count > params.wipLimitPerAssignee) {
+        violations.push({
+          kind: 'assignee',
+          limit: params.wipLimitPerAssignee,
+          count: assignee.count,
+          userId: assignee.userId,
+          userName: assignee.userName,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+export function describeWipViolations(check: WipLimitCheck): string {
+  const parts = check.violations.map((violation) => violation.kind === 'list'
+    ? `${violation.count}/${violation.limit} cards`
+    : `${violation.userName || 'an assignee'} would have ${violation.count}/${violation.limit}`);
+  return `"${check.listName}" is over its WIP limit (${parts.join('; ')})`;
+}
+
+/**
+ * Check whether adding one card, or a batch of cards, (with their assignees) to a
+ * list exceeds the list's WIP limits. Archived cards do not count.
+ */
+export async function checkWipLimits({
+  listId,
+  cardId,
+  cardIds,
+  newCards = 0,
+  assigneeIds = [],
+}: CheckWipLimitsParams): Promise<WipLimitCheck | null> {
+  const list = await prisma.list.findUnique({
+    where: { id: listId },
+    select: { name: true, wipLimit: true, wipLimitPerAssignee: true },
+  });
+  if (!list || (!list.wipLimit && !list.wipLimitPerAssignee)) return null;
+
+  const incomingIds = cardIds ?? (cardId ? [cardId] : []);
+  const otherCards = {
+    listId,
+    archivedAt: null,
+    ...(incomingIds.length > 0 ? { id: { notIn: incomingIds } } : {}),
+  };
+
+  const currentCount = list.wipLimit
+    ? await prisma.card.count({ where: otherCards })
+    : 0;
+
+  const incomingByUser = new Map<string, number>();
+  for (const userId of assigneeIds) {
+    incomingByUser.set(userId, (incomingByUser.get(userId) ?? 0) + 1);
+  }
+  const uniqueAssigneeIds = [...incomingByUser.keys()];
+
+  let assigneeCounts: Array<{ userId: string; userName: string | null; count: number }> = [];
+  if (list.wipLimitPerAssignee && uniqueAssigneeIds.length > 0) {
+    const [grouped, users] = await Promise.all([
+      prisma.cardUser.groupBy({
+        by: ['userId'],
+        where: {
+          userId: { in: uniqueAssigneeIds },
+          card: otherCards,
+        },
+        _count: { _all: true },
+      }),
+      prisma.user.findMany({
+        where: { id: { in: uniqueAssigneeIds } },
+        select: { id: true, name: true },
+      }),
+    ]);
+    const countByUser = new Map(grouped.map((row) => [row.userId, row._count._all]));
+    const nameByUser = new Map(users.map((user) => [user.id, user.name]));
+    assigneeCounts = uniqueAssigneeIds.map((userId) => ({
+      userId,
+      userName: nameByUser.get(userId) ?? null,
+      count: (countByUser.get(userId) ?? 0) + (incomingByUser.get(userId) ?? 0),
+    }));
+  }
+
+  const violations = evaluateWipLimits({
+    wipLimit: list.wipLimit,
+    wipLimitPerAssignee: list.wipLimitPerAssignee,
+    listCount: currentCount + Math.max(incomingIds.length + newCards, 1),
+    assigneeCounts,
+  });
+
+  return violations.length > 0 ? { listName: list.name, violations } : null;
+}
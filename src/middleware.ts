@@ -0,0 +1,23 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { API_TOKEN_METHOD_HEADER, API_TOKEN_PATH_HEADER } from '@/lib/api-token-scopes';
+
+/**
+ * Stamps the method and path onto API requests that carry an Authorization header,
+ * so `requireAuth` can check personal API token scopes. Client-sent values are overwritten.
+ */
+export function middleware(request: NextRequest) {
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(API_TOKEN_METHOD_HEADER, request.method);
+  requestHeaders.set(API_TOKEN_PATH_HEADER, request.nextUrl.pathname);
+
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: [
+    {
+      source: '/api/:path*',
+      has: [{ type: 'header', key: 'authorization' }],
+    },
+  ],
+};
@@ -8,10 +8,16 @@ export type TaskReleaseMode = 'IMMEDIATE' | 'STAGED';
 // View Types
 export type ListViewType = 'TASKS' | 'PLANNING';
 export type ListPhase = 'BACKLOG' | 'SPINE_PROTOTYPE' | 'CONCEPT' | 'PRODUCTION' | 'TWEAK' | 'DONE';
-export type BoardViewMode = 'tasks' | 'planning' | 'spine';
+export type BoardViewMode = 'tasks' | 'planning' | 'spine' | 'calendar' | 'table';
 export type ListTemplateType = 'STANDARD_SLOT' | 'BRANDED_GAME';
 export type BoardTemplateType = 'BLANK' | 'STANDARD_SLOT' | 'BRANDED_GAME';
 
+export interface CardTagInfo {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
 // Base Card
 export interface BaseCard {
   id: string;
@@ -27,6 +33,7 @@ export interface BaseCard {
   createdAt: string;
   updatedAt: string;
   archivedAt: string | null;
+  tags?: CardTagInfo[];
 }
 
 // Task Card
@@ -183,10 +190,17 @@ export interface Comment {
   authorId: string;
   author: User;
   attachmentId: string | null;
+  mentions?: CommentMention[];
   createdAt: string;
   updatedAt: string;
 }
 
+/** A person @mentioned in a comment; `name` is the label shown in the text. */
+export interface CommentMention {
+  userId: string;
+  name: string;
+}
+
 export interface Checklist {
   id: string;
   name: string;
@@ -218,6 +232,9 @@ export interface List {
   endDate?: string | null;
   durationWeeks?: number | null;
   durationDays?: number | null; // Duration in business days (for 5-day blocks)
+  // WIP limits (null = unlimited)
+  wipLimit?: number | null;
+  wipLimitPerAssignee?: number | null;
   // Timeline sync
   timelineBlockId?: string | null;
   timelineBlock?: {
@@ -311,12 +328,48 @@ export interface BoardSettings {
   lastTweakOverride?: string;       // ISO date, overrides calculated Last Tweak
   lastStaticAssetsOverride?: string;   // ISO date, overrides calculated Last Static Assets
 
+  // Task dependencies: what happens when a task is started before its predecessor is done
+  dependencyEnforcement?: EnforcementMode; // default 'warn'
+  // WIP limits: what happens when a move or new card exceeds a list's limit
+  wipLimitEnforcement?: EnforcementMode; // default 'warn'
+
   // Board background
   backgroundType?: 'none' | 'gradient' | 'image';
   backgroundGradient?: string;
   backgroundImageUrl?: string;
 }
 
+/** How a board reacts to a rule violation: allow with a warning, or refuse. */
+export type EnforcementMode = 'warn' | 'block';
+
+export interface TaskDependencyBlocker {
+  taskId: string;
+  taskTitle: string;
+  predecessorId: string;
+  predecessorTitle: string;
+  predecessorListName: string;
+}
+
+export interface CriticalPathTask {
+  id: string;
+  title: string;
+  storyPoints: number;
+  isDone: boolean;
+  listName: string;
+}
+
+export interface TaskDependencyReport {
+  /** Longest chain by remaining story points, ordered from first to last step. */
+  criticalPath: {
+    tasks: CriticalPathTask[];
+    totalPoints: number;
+    remainingPoints: number;
+  };
+  /** Open tasks whose predecessor is not done yet. */
+  blockedTasks: Array<TaskDependencyBlocker & { started: boolean }>;
+  chainCount: number;
+}
+
 export interface TeamSettings {
   // Slack integration
   slackChannelId?: string;
@@ -369,6 +422,257 @@ export interface WeeklyProgress {
   createdAt: string;
 }
 
+// Board activity log
+export type ActivityEntity = 'card' | 'list' | 'timeline_block';
+
+export interface ActivityFieldChange {
+  field: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+export interface ActivityEntry {
+  id: string;
+  action: string;
+  entity: ActivityEntity;
+  entityId: string;
+  data: Record<string, unknown> & { changes?: ActivityFieldChange[] };
+  createdAt: string;
+  user: Pick<User, 'id' | 'name' | 'image'>;
+}
+
+export interface ActivityPage {
+  items: ActivityEntry[];
+  nextCursor: string | null;
+}
+
+export type SearchResultType = 'card' | 'comment' | 'attachment' | 'user' | 'board' | 'academy';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  /** Secondary line: board/card context, email, snippet, etc. */
+  subtitle: string | null;
+  href: string;
+  rank: number;
+}
+
+export type SearchResults = Record<SearchResultType, SearchResult[]>;
+
+// Board automation rules
+export type AutomationTriggerType =
+  | 'card_entered_list'
+  | 'checklist_completed'
+  | 'deadline_passed'
+  | 'approval_granted'
+  | 'card_created_from_module';
+
+export interface AutomationTrigger {
+  type: AutomationTriggerType;
+  listId?: string;                     // card_entered_list: only this list
+  checklistName?: string;              // checklist_completed: only checklists with this name
+  approval?: 'po' | 'lead' | 'both';   // approval_granted: default 'both'
+  moduleId?: string;                   // card_created_from_module: only this module
+}
+
+export type AutomationCondition =
+  | { type: 'card_type'; cardType: CardType }
+  | { type: 'has_tag'; tagId: string }
+  | { type: 'assignee'; userId: string | null } // null = unassigned
+  | { type: 'story_points'; operator: 'eq' | 'gte' | 'lte'; value: number };
+
+export type AutomationAction =
+  | { type: 'move_card'; listId: string }
+  | { type: 'assign_user'; userId: string }
+  | { type: 'add_tag'; tagId: string }
+  | { type: 'add_checklist'; name: string; items: string[] }
+  | { type: 'notify'; target: 'assignees' | 'approvers' | 'user'; userId?: string; message: string }
+  | { type: 'post_to_slack'; channelId?: string; message: string } // defaults to the board channel
+  | { type: 'set_deadline'; daysFromNow: number };
+
+export interface AutomationRule {
+  id: string;
+  boardId: string;
+  name: string;
+  enabled: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: Pick<User, 'id' | 'name'> | null;
+}
+
+export interface AutomationActionResult {
+  type: AutomationAction['type'];
+  ok: boolean;
+  message?: string;
+}
+
+export type AutomationRunStatus = 'success' | 'partial' | 'failed';
+
+export interface AutomationRun {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  cardId: string | null;
+  cardTitle: string | null;
+  trigger: AutomationTriggerType;
+  status: AutomationRunStatus;
+  results: AutomationActionResult[];
+  createdAt: string;
+}
+
+export interface AutomationRunPage {
+  items: AutomationRun[];
+  nextCursor: string | null;
+}
+
+export interface AutomationRuleInput {
+  name: string;
+  enabled?: boolean;
+  trigger: AutomationTrigger;
+  conditions: AutomationCondition[];
+  actions: AutomationAction[];
+}
+
+// Outgoing webhooks
+export type WebhookEventType =
+  | 'card.created'
+  | 'card.updated'
+  | 'card.moved'
+  | 'card.completed'
+  | 'card.deleted'
+  | 'board.updated'
+  | 'member.added'
+  | 'timeline.event.created'
+  | 'timeline.event.updated'
+  | 'timeline.event.deleted';
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  boardId: string | null;              // null = every board
+  board: { id: string; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: Pick<User, 'id' | 'name'> | null;
+  lastDelivery: Pick<WebhookDelivery, 'status' | 'responseStatus' | 'createdAt'> | null;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEventType | 'webhook.test';
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDeliveryPage {
+  items: WebhookDelivery[];
+  nextCursor: string | null;
+}
+
+export interface WebhookPayload {
+  event: WebhookEventType | 'webhook.test';
+  timestamp: string;
+  boardId: string | null;
+  data: Record<string, unknown>;
+}
+
+export interface WebhookInput {
+  name: string;
+  url: string;
+  events: WebhookEventType[];
+  boardId: string | null;
+  enabled?: boolean;
+}
+
+// Live board events (GET /api/boards/[boardId]/events)
+export interface BoardViewer {
+  id: string;
+  name: string | null;
+  image: string | null;
+}
+
+export type BoardEvent =
+  | { type: 'card.created'; card: Card }
+  | { type: 'card.updated'; card: Partial<Card> & { id: string } }
+  | { type: 'card.moved'; cardId: string; fromListId: string; toListId: string; position: number }
+  | { type: 'card.deleted'; cardId: string }
+  | { type: 'list.created'; list: List }
+  | { type: 'list.updated'; list: Partial<Omit<List, 'cards'>> & { id: string } }
+  | { type: 'list.deleted'; listId: string }
+  | { type: 'checklists.updated'; cardId: string; checklists: Checklist[] }
+  | { type: 'comment.created' | 'comment.updated' | 'comment.deleted'; cardId: string; commentId: string }
+  | { type: 'board.changed' }            // too much changed to patch (bulk creates, automations): refetch
+  | { type: 'presence'; viewers: BoardViewer[] };
+
+export type BoardEventMessage = BoardEvent & {
+  boardId: string;
+  actorId: string | null;
+  clientId: string | null;               // browser tab that caused the change, so it can skip its own echo
+  at: string;
+};
+
+// Notification preferences
+/** How a notification type reaches a user: bell only, bell + Slack DM, bell + daily digest, or not at all. */
+export type NotificationChannel = 'in_app' | 'slack' | 'digest' | 'off';
+
+/** How often the email digest is sent; weekly digests go out on Monday mornings. */
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface NotificationPreferences {
+  /** By notification type; types not listed use their default channel. */
+  channels: Record<string, NotificationChannel>;
+  /** Slack DMs are skipped between these local times ("HH:MM"); may wrap past midnight. */
+  quietHours: { start: string; end: string } | null;
+  timeZone: string;
+  muteWeekends: boolean;
+  digestFrequency: DigestFrequency;
+}
+
+// Personal API tokens
+export type ApiTokenScope = 'read' | 'write';
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;                      // e.g. "pp_live_a1B2c3" – the rest is never shown again
+  scope: ApiTokenScope;
+  boardIds: string[] | null;           // null = every board the user can access
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+/** Returned once, on creation. */
+export interface CreatedApiToken extends ApiToken {
+  token: string;
+}
+
+export interface ApiTokenInput {
+  name: string;
+  scope: ApiTokenScope;
+  boardIds: string[] | null;
+  expiresInDays: number | null;        // null = never expires
+}
+
 export interface BoardMember {
   id: string;
   userId: string;
@@ -494,6 +798,33 @@ export interface Studio {
   color: string | null;
 }
 
+// Studio days off; `date` is midnight UTC of the day
+export interface StudioHoliday {
+  id: string;
+  date: string;
+  name: string;
+  icsUid: string | null;
+  studioId: string;
+}
+
+export type LeaveType = 'VACATION' | 'SICK' | 'PARENTAL' | 'OTHER';
+
+// Personal leave; both dates are midnight UTC and the end date is inclusive
+export interface UserLeave {
+  id: string;
+  startDate: string;
+  endDate: string;
+  type: LeaveType;
+  note: string | null;
+  userId: string;
+}
+
+// Days off on a board's timeline, as YYYY-MM-DD keys
+export interface BoardCalendar {
+  holidays: { date: string; name: string }[];
+  leave: { userId: string; startDate: string; endDate: string }[];
+}
+
 export interface TeamMember {
   id: string;
   permission: string;
@@ -593,6 +924,22 @@ export interface TimelineData {
   availability: UserWeeklyAvailability[];
   blockTypes?: BlockType[];
   eventTypes?: EventType[];
+  /** Newest baseline, drawn as outlines under the current blocks. */
+  baseline?: TimelineProjectBaseline | null;
+}
+
+export interface TimelineProjectBaseline {
+  id: string;
+  name: string;
+  createdAt: string;
+  blocks: {
+    id: string;
+    blockTypeId: string;
+    listId: string | null;
+    startDate: string;
+    endDate: string;
+    position: number;
+  }[];
 }
 
 export interface TimelineArchivedProjectSummary {
@@ -603,6 +950,41 @@ export interface TimelineArchivedProjectSummary {
   team: Team | null;
 }
 
+// Cross-project resource allocation: weekly dedication summed over boards
+export type AllocationStatus = 'over' | 'ok' | 'under' | 'off';
+
+export interface AllocationWeek {
+  weekStart: string; // YYYY-MM-DD Monday
+  total: number;
+  capacity: number; // Working share of the week after holidays and leave, in percent
+  status: AllocationStatus;
+  boards: { boardId: string; dedication: number }[];
+}
+
+export interface AllocationOption {
+  id: string;
+  name: string;
+  color: string | null;
+}
+
+export interface ResourceAllocation {
+  weeks: string[];
+  users: {
+    id: string;
+    name: string | null;
+    email: string;
+    image: string | null;
+    roles: AllocationOption[];
+    weeks: AllocationWeek[];
+  }[];
+  boards: { id: string; name: string; teamName: string | null; color: string | null }[];
+  filters: {
+    teams: AllocationOption[];
+    roles: AllocationOption[];
+    skills: AllocationOption[];
+  };
+}
+
 export interface GameSheetMetricEntry {
   label: string;
   value: string;